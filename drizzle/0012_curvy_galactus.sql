@@ -0,0 +1,18 @@
+CREATE TABLE `development_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`app_id` integer NOT NULL,
+	`phase` text NOT NULL,
+	`last_completed_phase` text,
+	`is_active` integer NOT NULL,
+	`frontend_complete` integer DEFAULT false NOT NULL,
+	`backend_complete` integer DEFAULT false NOT NULL,
+	`human_intervention_required` integer DEFAULT false NOT NULL,
+	`human_intervention_message` text,
+	`progress` integer DEFAULT 0 NOT NULL,
+	`errors` text,
+	`metadata` text,
+	`phase_history` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`app_id`) REFERENCES `apps`(`id`) ON UPDATE no action ON DELETE cascade
+);
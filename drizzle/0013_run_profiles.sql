@@ -0,0 +1,21 @@
+CREATE TABLE `run_profiles` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`app_id` integer NOT NULL,
+	`name` text NOT NULL,
+	`install_command` text,
+	`build_command` text,
+	`start_command` text NOT NULL,
+	`working_directory` text,
+	`env` text,
+	`port` integer,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`app_id`) REFERENCES `apps`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `run_profiles_app_name_unique` ON `run_profiles` (`app_id`,`name`);--> statement-breakpoint
+ALTER TABLE `apps` ADD `selected_run_profile_id` integer;--> statement-breakpoint
+INSERT INTO `run_profiles` (`app_id`, `name`, `install_command`, `start_command`) SELECT `id`, 'dev', `install_command`, `start_command` FROM `apps` WHERE `start_command` IS NOT NULL AND trim(`start_command`) != '';--> statement-breakpoint
+UPDATE `apps` SET `selected_run_profile_id` = (SELECT `run_profiles`.`id` FROM `run_profiles` WHERE `run_profiles`.`app_id` = `apps`.`id`);--> statement-breakpoint
+ALTER TABLE `apps` DROP COLUMN `install_command`;--> statement-breakpoint
+ALTER TABLE `apps` DROP COLUMN `start_command`;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `chats` ADD `parent_chat_id` integer;--> statement-breakpoint
+ALTER TABLE `chats` ADD `forked_from_message_id` integer;--> statement-breakpoint
+ALTER TABLE `chats` ADD `branch_name` text;
\ No newline at end of file
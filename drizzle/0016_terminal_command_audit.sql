@@ -0,0 +1,18 @@
+CREATE TABLE `terminal_command_audit` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`app_id` integer NOT NULL,
+	`chat_id` integer,
+	`message_id` integer,
+	`command` text NOT NULL,
+	`cwd` text NOT NULL,
+	`terminal` text NOT NULL,
+	`decision` text NOT NULL,
+	`exit_code` integer,
+	`output` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`app_id`) REFERENCES `apps`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`chat_id`) REFERENCES `chats`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+ALTER TABLE `apps` ADD `command_policy` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `versions` ADD `supabase_schema_snapshot` text;
\ No newline at end of file
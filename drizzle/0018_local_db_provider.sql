@@ -0,0 +1 @@
+ALTER TABLE `apps` ADD `local_db_provider` text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `apps` ADD `git_remote_url` text;--> statement-breakpoint
+ALTER TABLE `apps` ADD `git_remote_branch` text;--> statement-breakpoint
+ALTER TABLE `apps` ADD `git_remote_credential_id` text;
\ No newline at end of file
@@ -44,6 +44,9 @@ const ignore = (file: string) => {
   if (file.startsWith("/node_modules/file-uri-to-path")) {
     return false;
   }
+  if (file.startsWith("/node_modules/node-pty")) {
+    return false;
+  }
   if (file.startsWith("/.vite")) {
     return false;
   }
@@ -72,7 +75,7 @@ const config: ForgeConfig = {
     // ignore: [/node_modules\/(?!(better-sqlite3|bindings|file-uri-to-path)\/)/],
   },
   rebuildConfig: {
-    extraModules: ["better-sqlite3"],
+    extraModules: ["better-sqlite3", "node-pty"],
     force: true,
   },
   makers: [
@@ -121,6 +124,11 @@ const config: ForgeConfig = {
           config: "vite.worker.config.mts",
           target: "main",
         },
+        {
+          entry: "workers/eslint/eslint_worker.ts",
+          config: "vite.eslint_worker.config.mts",
+          target: "main",
+        },
       ],
       renderer: [
         {
@@ -0,0 +1,84 @@
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import dyadVueTagger from "./index";
+
+const id = path.join(process.cwd(), "src/components/Card.vue");
+
+function transform(code: string, fileId = id): string | null {
+  const plugin = dyadVueTagger();
+  const result = (
+    plugin.transform as (code: string, id: string) => { code: string } | null
+  )(code, fileId);
+  return result?.code ?? null;
+}
+
+describe("dyadVueTagger", () => {
+  it("should tag nested elements with their file:line:col", () => {
+    const code = `<template>
+  <div class="card">
+    <p>Hello</p>
+  </div>
+</template>
+`;
+    expect(transform(code)).toBe(`<template>
+  <div data-dyad-id="src/components/Card.vue:2:2" data-dyad-name="div" class="card">
+    <p data-dyad-id="src/components/Card.vue:3:4" data-dyad-name="p">Hello</p>
+  </div>
+</template>
+`);
+  });
+
+  it("should tag self-closing tags before the closing slash", () => {
+    const code = `<template>
+  <img src="/logo.png" />
+  <br/>
+</template>
+`;
+    expect(transform(code)).toBe(`<template>
+  <img data-dyad-id="src/components/Card.vue:2:2" data-dyad-name="img" src="/logo.png" />
+  <br data-dyad-id="src/components/Card.vue:3:2" data-dyad-name="br"/>
+</template>
+`);
+  });
+
+  it("should skip <template>, <slot> and components but tag their children", () => {
+    const code = `<template>
+  <template v-if="open">
+    <span>Open</span>
+  </template>
+  <slot name="footer"><em>Footer</em></slot>
+  <MyButton><b>Go</b></MyButton>
+</template>
+`;
+    expect(transform(code)).toBe(`<template>
+  <template v-if="open">
+    <span data-dyad-id="src/components/Card.vue:3:4" data-dyad-name="span">Open</span>
+  </template>
+  <slot name="footer"><em data-dyad-id="src/components/Card.vue:5:22" data-dyad-name="em">Footer</em></slot>
+  <MyButton><b data-dyad-id="src/components/Card.vue:6:12" data-dyad-name="b">Go</b></MyButton>
+</template>
+`);
+  });
+
+  it("should leave elements that are already tagged alone", () => {
+    const code = `<template>
+  <div data-dyad-id="custom">Hi</div>
+</template>
+`;
+    expect(transform(code)).toBeNull();
+  });
+
+  it("should ignore other files and templates in other languages", () => {
+    const code = `<template><div>Hi</div></template>`;
+    expect(transform(code, id.replace(".vue", ".ts"))).toBeNull();
+    expect(
+      transform(code, path.join(process.cwd(), "node_modules/x/Card.vue")),
+    ).toBeNull();
+    expect(
+      transform(`<template lang="pug">
+div Hi
+</template>
+`),
+    ).toBeNull();
+  });
+});
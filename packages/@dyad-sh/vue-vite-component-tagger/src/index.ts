@@ -0,0 +1,101 @@
+import { parse } from "vue/compiler-sfc";
+import MagicString from "magic-string";
+import path from "node:path";
+import type { Plugin } from "vite";
+
+// Values of the compiler's NodeTypes and ElementTypes enums
+const ELEMENT_NODE = 1;
+const ATTRIBUTE_NODE = 6;
+const PLAIN_ELEMENT = 0;
+
+/**
+ * Returns a Vite plug-in that tags the template elements of Vue SFCs.
+ */
+export default function dyadVueTagger(): Plugin {
+  return {
+    name: "vite-plugin-dyad-vue-tagger",
+    apply: "serve",
+    // Runs before @vitejs/plugin-vue compiles the SFC
+    enforce: "pre",
+
+    transform(code: string, id: string) {
+      try {
+        // Ignore non-vue files (including ?vue&type=... sub-requests) and
+        // files inside node_modules
+        if (!id.endsWith(".vue") || id.includes("node_modules")) return null;
+
+        const { descriptor } = parse(code, { filename: id });
+        const template = descriptor.template;
+        // Templates in another language (e.g. pug) or another file
+        if (
+          !template?.ast ||
+          template.src ||
+          (template.lang && template.lang !== "html")
+        )
+          return null;
+
+        const ms = new MagicString(code);
+        const fileRelative = path.relative(process.cwd(), id);
+
+        const visit = (node: any) => {
+          try {
+            if (node.type === ELEMENT_NODE) {
+              tagElement(node);
+            }
+          } catch (error) {
+            console.warn(
+              `[dyad-vue-tagger] Warning: Failed to process element in ${id}:`,
+              error,
+            );
+          }
+          node.children?.forEach(visit);
+        };
+
+        const tagElement = (node: any) => {
+          // ── 1. Only plain elements; components, <slot> and <template> don't
+          //       render a DOM element of their own ─────────────────────────
+          if (node.tagType !== PLAIN_ELEMENT) return;
+          const tagName = node.tag as string;
+          if (!tagName) return;
+
+          // ── 2. Check whether the tag already has data-dyad-id ─────────────
+          const alreadyTagged = node.props?.some(
+            (prop: any) =>
+              prop.type === ATTRIBUTE_NODE && prop.name === "data-dyad-id",
+          );
+          if (alreadyTagged) return;
+
+          // ── 3. Build the id "relative/file.vue:line:column", with a 0-based
+          //       column like the React tagger ────────────────────────────
+          const loc = node.loc?.start;
+          if (!loc) return;
+          const dyadId = `${fileRelative}:${loc.line}:${loc.column - 1}`;
+
+          // ── 4. Inject the attributes just after the tag name ──────────────
+          // Offsets are relative to the whole SFC
+          ms.appendLeft(
+            loc.offset + 1 + tagName.length,
+            ` data-dyad-id="${dyadId}" data-dyad-name="${tagName}"`,
+          );
+        };
+
+        // The template element itself is the root; only its contents render
+        template.ast.children.forEach(visit);
+
+        // If nothing changed bail out.
+        if (ms.toString() === code) return null;
+
+        return {
+          code: ms.toString(),
+          map: ms.generateMap({ hires: true }),
+        };
+      } catch (error) {
+        console.warn(
+          `[dyad-vue-tagger] Warning: Failed to transform ${id}:`,
+          error,
+        );
+        return null;
+      }
+    },
+  };
+}
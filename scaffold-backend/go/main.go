@@ -0,0 +1,108 @@
+package main
+
+import (
+	"encoding/json"
+	"log"
+	"net/http"
+	"os"
+	"strconv"
+	"sync"
+	"time"
+)
+
+type Item struct {
+	ID          int    `json:"id"`
+	Name        string `json:"name"`
+	Description string `json:"description"`
+}
+
+// In-memory store - replace with a database
+type store struct {
+	mu     sync.Mutex
+	items  []Item
+	nextID int
+}
+
+func writeJSON(w http.ResponseWriter, status int, value any) {
+	w.Header().Set("Content-Type", "application/json")
+	w.WriteHeader(status)
+	json.NewEncoder(w).Encode(value)
+}
+
+func withCORS(next http.Handler) http.Handler {
+	return http.HandlerFunc(func(w http.ResponseWriter, r *http.Request) {
+		w.Header().Set("Access-Control-Allow-Origin", "*")
+		w.Header().Set("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS")
+		w.Header().Set("Access-Control-Allow-Headers", "Content-Type, Authorization")
+		if r.Method == http.MethodOptions {
+			w.WriteHeader(http.StatusNoContent)
+			return
+		}
+		log.Printf("%s %s", r.Method, r.URL.Path)
+		next.ServeHTTP(w, r)
+	})
+}
+
+func main() {
+	s := &store{
+		items: []Item{
+			{ID: 1, Name: "Item 1", Description: "First item"},
+			{ID: 2, Name: "Item 2", Description: "Second item"},
+		},
+		nextID: 3,
+	}
+
+	mux := http.NewServeMux()
+
+	mux.HandleFunc("GET /api/health", func(w http.ResponseWriter, r *http.Request) {
+		writeJSON(w, http.StatusOK, map[string]string{
+			"status":    "healthy",
+			"timestamp": time.Now().UTC().Format(time.RFC3339),
+		})
+	})
+
+	mux.HandleFunc("GET /api/items", func(w http.ResponseWriter, r *http.Request) {
+		s.mu.Lock()
+		defer s.mu.Unlock()
+		writeJSON(w, http.StatusOK, s.items)
+	})
+
+	mux.HandleFunc("POST /api/items", func(w http.ResponseWriter, r *http.Request) {
+		var item Item
+		if err := json.NewDecoder(r.Body).Decode(&item); err != nil || item.Name == "" {
+			writeJSON(w, http.StatusBadRequest, map[string]string{"error": "name is required"})
+			return
+		}
+		s.mu.Lock()
+		defer s.mu.Unlock()
+		item.ID = s.nextID
+		s.nextID++
+		s.items = append(s.items, item)
+		writeJSON(w, http.StatusCreated, item)
+	})
+
+	mux.HandleFunc("DELETE /api/items/{id}", func(w http.ResponseWriter, r *http.Request) {
+		id, err := strconv.Atoi(r.PathValue("id"))
+		if err != nil {
+			writeJSON(w, http.StatusBadRequest, map[string]string{"error": "invalid id"})
+			return
+		}
+		s.mu.Lock()
+		defer s.mu.Unlock()
+		for i, item := range s.items {
+			if item.ID == id {
+				s.items = append(s.items[:i], s.items[i+1:]...)
+				w.WriteHeader(http.StatusNoContent)
+				return
+			}
+		}
+		writeJSON(w, http.StatusNotFound, map[string]string{"error": "item not found"})
+	})
+
+	port := os.Getenv("PORT")
+	if port == "" {
+		port = "8080"
+	}
+	log.Printf("Go server running on http://localhost:%s", port)
+	log.Fatal(http.ListenAndServe("0.0.0.0:"+port, withCORS(mux)))
+}
@@ -0,0 +1,55 @@
+import { serve } from "@hono/node-server";
+import { Hono } from "hono";
+import { cors } from "hono/cors";
+import { logger } from "hono/logger";
+
+type Item = { id: number; name: string; description: string };
+
+// In-memory store - replace with a database
+let items: Item[] = [
+  { id: 1, name: "Item 1", description: "First item" },
+  { id: 2, name: "Item 2", description: "Second item" },
+];
+let nextId = 3;
+
+const app = new Hono();
+
+app.use("*", logger());
+app.use("/api/*", cors());
+
+app.get("/", (c) => c.json({ message: "Hono backend API is running" }));
+
+app.get("/api/health", (c) =>
+  c.json({ status: "healthy", timestamp: new Date().toISOString() }),
+);
+
+app.get("/api/items", (c) => c.json(items));
+
+app.get("/api/items/:id", (c) => {
+  const item = items.find((i) => i.id === Number(c.req.param("id")));
+  return item ? c.json(item) : c.json({ error: "Item not found" }, 404);
+});
+
+app.post("/api/items", async (c) => {
+  const body = await c.req.json<Omit<Item, "id">>();
+  if (!body.name) {
+    return c.json({ error: "name is required" }, 400);
+  }
+  const item = { id: nextId++, name: body.name, description: body.description ?? "" };
+  items.push(item);
+  return c.json(item, 201);
+});
+
+app.delete("/api/items/:id", (c) => {
+  const id = Number(c.req.param("id"));
+  if (!items.some((i) => i.id === id)) {
+    return c.json({ error: "Item not found" }, 404);
+  }
+  items = items.filter((i) => i.id !== id);
+  return c.body(null, 204);
+});
+
+const port = Number(process.env.PORT) || 3000;
+serve({ fetch: app.fetch, port }, () => {
+  console.log(`Hono server running on http://localhost:${port}`);
+});
@@ -0,0 +1,35 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+} from "@nestjs/common";
+import { Item, ItemsService } from "./items.service";
+
+@Controller("items")
+export class ItemsController {
+  constructor(private readonly itemsService: ItemsService) {}
+
+  @Get()
+  findAll(): Item[] {
+    return this.itemsService.findAll();
+  }
+
+  @Get(":id")
+  findOne(@Param("id", ParseIntPipe) id: number): Item {
+    return this.itemsService.findOne(id);
+  }
+
+  @Post()
+  create(@Body() body: Omit<Item, "id">): Item {
+    return this.itemsService.create(body);
+  }
+
+  @Delete(":id")
+  remove(@Param("id", ParseIntPipe) id: number): void {
+    this.itemsService.remove(id);
+  }
+}
@@ -0,0 +1,40 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+
+export interface Item {
+  id: number;
+  name: string;
+  description: string;
+}
+
+@Injectable()
+export class ItemsService {
+  // In-memory store - replace with a database
+  private items: Item[] = [
+    { id: 1, name: "Item 1", description: "First item" },
+    { id: 2, name: "Item 2", description: "Second item" },
+  ];
+  private nextId = 3;
+
+  findAll(): Item[] {
+    return this.items;
+  }
+
+  findOne(id: number): Item {
+    const item = this.items.find((candidate) => candidate.id === id);
+    if (!item) {
+      throw new NotFoundException(`Item ${id} not found`);
+    }
+    return item;
+  }
+
+  create(data: Omit<Item, "id">): Item {
+    const item = { id: this.nextId++, ...data };
+    this.items.push(item);
+    return item;
+  }
+
+  remove(id: number): void {
+    this.findOne(id);
+    this.items = this.items.filter((item) => item.id !== id);
+  }
+}
@@ -0,0 +1,15 @@
+import "reflect-metadata";
+import { NestFactory } from "@nestjs/core";
+import { AppModule } from "./app.module";
+
+async function bootstrap() {
+  const app = await NestFactory.create(AppModule);
+  app.enableCors();
+  app.setGlobalPrefix("api");
+
+  const port = Number(process.env.PORT) || 3000;
+  await app.listen(port, "0.0.0.0");
+  console.log(`NestJS server running on http://localhost:${port}`);
+}
+
+bootstrap();
@@ -0,0 +1,63 @@
+package com.example.backend;
+
+import java.util.List;
+import java.util.concurrent.CopyOnWriteArrayList;
+import java.util.concurrent.atomic.AtomicInteger;
+import org.springframework.http.HttpStatus;
+import org.springframework.web.bind.annotation.DeleteMapping;
+import org.springframework.web.bind.annotation.GetMapping;
+import org.springframework.web.bind.annotation.PathVariable;
+import org.springframework.web.bind.annotation.PostMapping;
+import org.springframework.web.bind.annotation.RequestBody;
+import org.springframework.web.bind.annotation.RequestMapping;
+import org.springframework.web.bind.annotation.ResponseStatus;
+import org.springframework.web.bind.annotation.RestController;
+import org.springframework.web.server.ResponseStatusException;
+
+@RestController
+@RequestMapping("/api/items")
+public class ItemController {
+
+    public record Item(int id, String name, String description) {}
+
+    public record NewItem(String name, String description) {}
+
+    // In-memory store - replace with a database
+    private final List<Item> items = new CopyOnWriteArrayList<>(List.of(
+        new Item(1, "Item 1", "First item"),
+        new Item(2, "Item 2", "Second item")
+    ));
+    private final AtomicInteger nextId = new AtomicInteger(3);
+
+    @GetMapping
+    public List<Item> list() {
+        return items;
+    }
+
+    @GetMapping("/{id}")
+    public Item get(@PathVariable int id) {
+        return items.stream()
+            .filter(item -> item.id() == id)
+            .findFirst()
+            .orElseThrow(() -> new ResponseStatusException(HttpStatus.NOT_FOUND, "Item not found"));
+    }
+
+    @PostMapping
+    @ResponseStatus(HttpStatus.CREATED)
+    public Item create(@RequestBody NewItem body) {
+        if (body.name() == null || body.name().isBlank()) {
+            throw new ResponseStatusException(HttpStatus.BAD_REQUEST, "name is required");
+        }
+        Item item = new Item(nextId.getAndIncrement(), body.name(), body.description());
+        items.add(item);
+        return item;
+    }
+
+    @DeleteMapping("/{id}")
+    @ResponseStatus(HttpStatus.NO_CONTENT)
+    public void delete(@PathVariable int id) {
+        if (!items.removeIf(item -> item.id() == id)) {
+            throw new ResponseStatusException(HttpStatus.NOT_FOUND, "Item not found");
+        }
+    }
+}
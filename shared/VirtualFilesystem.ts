@@ -8,6 +8,7 @@ import {
   VirtualFile,
 } from "./tsc_types";
 import { normalizePath } from "./normalizePath";
+import { applySearchReplaceHunks } from "../src/shared/search_replace";
 
 export interface AsyncFileSystemDelegate {
   fileExists?: (fileName: string) => Promise<boolean>;
@@ -65,6 +66,7 @@ export abstract class BaseVirtualFileSystem {
     deletePaths,
     renameTags,
     writeTags,
+    searchReplaceTags = [],
   }: VirtualChanges): void {
     // Process deletions
     for (const deletePath of deletePaths) {
@@ -80,6 +82,38 @@ export abstract class BaseVirtualFileSystem {
     for (const writeTag of writeTags) {
       this.writeFile(writeTag.path, writeTag.content);
     }
+
+    // Process search/replace edits on top of the writes. Edits that don't
+    // apply leave the file as it was, matching how they are applied for real.
+    for (const tag of searchReplaceTags) {
+      const current = this.readFileForEdit(tag.file);
+      if (current === undefined) {
+        continue;
+      }
+      const { content, failures } = applySearchReplaceHunks(current, tag.hunks);
+      if (failures.length === 0) {
+        this.writeFile(tag.file, content);
+      }
+    }
+  }
+
+  /**
+   * Read the current content of a file, virtual or on disk
+   */
+  private readFileForEdit(relativePath: string): string | undefined {
+    const absolutePath = path.resolve(this.baseDir, relativePath);
+    if (this.isDeleted(absolutePath)) {
+      return undefined;
+    }
+    const virtualContent = this.getVirtualFileContent(absolutePath);
+    if (virtualContent !== undefined) {
+      return virtualContent;
+    }
+    try {
+      return fs.readFileSync(absolutePath, "utf8");
+    } catch {
+      return undefined;
+    }
   }
 
   /**
@@ -1,3 +1,5 @@
+import type { SearchReplaceHunk } from "../src/shared/search_replace";
+
 export interface SyncVirtualFileSystem {
   fileExists: (fileName: string) => boolean;
   readFile: (fileName: string) => string | undefined;
@@ -11,13 +13,25 @@ export interface SyncFileSystemDelegate {
   readFile?: (fileName: string) => string | undefined;
 }
 
+// The checker that found a problem
+export type ProblemSource = "typescript" | "python" | "eslint";
+
+export type ProblemSeverity = "error" | "warning";
+
 export interface Problem {
   file: string;
   line: number;
   column: number;
   message: string;
+  // TypeScript diagnostic code; 0 for Python and ESLint problems
   code: number;
   snippet: string;
+  // Missing means "typescript"
+  source?: ProblemSource;
+  // Missing means "error"; only ESLint reports warnings
+  severity?: ProblemSeverity;
+  // ESLint rule that reported the problem, e.g. "react-hooks/rules-of-hooks"
+  ruleId?: string;
 }
 
 export interface ProblemReport {
@@ -36,10 +50,23 @@ export interface WorkerOutput {
   error?: string;
 }
 
+export interface LintWorkerInput {
+  appPath: string;
+  virtualChanges: VirtualChanges;
+}
+
+export interface LintWorkerOutput {
+  success: boolean;
+  // Null when the app has no ESLint to lint with
+  data?: ProblemReport | null;
+  error?: string;
+}
+
 export interface VirtualChanges {
   deletePaths: string[];
   renameTags: VirtualRename[];
   writeTags: VirtualFile[];
+  searchReplaceTags?: VirtualSearchReplace[];
 }
 
 export interface VirtualFile {
@@ -51,3 +78,8 @@ export interface VirtualRename {
   from: string;
   to: string;
 }
+
+export interface VirtualSearchReplace {
+  file: string;
+  hunks: SearchReplaceHunk[];
+}
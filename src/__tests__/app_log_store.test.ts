@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectLogLevel,
+  exportAppLogRun,
+  getRecentAppLogErrors,
+  listAppLogRuns,
+  queryAppLogs,
+  recordAppLog,
+  startAppLogRun,
+} from "@/ipc/utils/app_log_store";
+
+// The store is module state, so each test uses its own app id
+let nextAppId = 1;
+
+describe("detectLogLevel", () => {
+  it("should prefer markers in the line over the stream", () => {
+    expect(detectLogLevel("INFO:     Uvicorn running", "error")).toBe("info");
+    expect(detectLogLevel("Warning: prop types are deprecated", "error")).toBe(
+      "warn",
+    );
+    expect(detectLogLevel("TypeError: x is undefined", "info")).toBe("error");
+    expect(detectLogLevel("compiled in 120ms", "info")).toBe("info");
+    expect(detectLogLevel("compiled in 120ms", "error")).toBe("error");
+  });
+});
+
+describe("app log store", () => {
+  it("should record one entry per non-empty line without escape codes", () => {
+    const appId = nextAppId++;
+    recordAppLog({
+      appId,
+      source: "frontend",
+      level: "info",
+      text: "\x1b[32mready\x1b[0m\n\nlistening on 5173\n",
+    });
+    expect(queryAppLogs({ appId }).map((entry) => entry.text)).toEqual([
+      "ready",
+      "listening on 5173",
+    ]);
+  });
+
+  it("should keep runs separate and query the latest run by default", () => {
+    const appId = nextAppId++;
+    const firstRunId = startAppLogRun(appId);
+    recordAppLog({ appId, source: "backend", level: "info", text: "first" });
+    startAppLogRun(appId);
+    recordAppLog({ appId, source: "backend", level: "info", text: "second" });
+
+    expect(queryAppLogs({ appId }).map((entry) => entry.text)).toEqual([
+      "second",
+    ]);
+    expect(
+      queryAppLogs({ appId, runId: firstRunId }).map((entry) => entry.text),
+    ).toEqual(["first"]);
+    expect(listAppLogRuns(appId)[1].runId).toBe(firstRunId);
+  });
+
+  it("should filter by level, source and case-insensitive pattern", () => {
+    const appId = nextAppId++;
+    recordAppLog({ appId, source: "frontend", level: "info", text: "GET /a" });
+    recordAppLog({ appId, source: "backend", level: "info", text: "get /b" });
+    recordAppLog({ appId, source: "backend", level: "error", text: "boom" });
+
+    expect(
+      queryAppLogs({ appId, sources: ["backend"], pattern: "^get" }).map(
+        (entry) => entry.text,
+      ),
+    ).toEqual(["get /b"]);
+    expect(
+      queryAppLogs({ appId, levels: ["error"] }).map((entry) => entry.text),
+    ).toEqual(["boom"]);
+  });
+
+  it("should return the most recent errors and export the run", () => {
+    const appId = nextAppId++;
+    const runId = startAppLogRun(appId);
+    for (let i = 1; i <= 5; i++) {
+      recordAppLog({
+        appId,
+        source: "backend",
+        level: "error",
+        text: `error ${i}`,
+      });
+    }
+
+    expect(getRecentAppLogErrors(appId, 2).map((entry) => entry.text)).toEqual([
+      "error 4",
+      "error 5",
+    ]);
+    const exported = exportAppLogRun(appId, runId);
+    expect(exported).toContain(`# App ${appId}, run ${runId}`);
+    expect(exported).toMatch(/ERROR \[backend\] error 5\n$/);
+  });
+
+  it("should drop the oldest entries of a run over the limit", () => {
+    const appId = nextAppId++;
+    recordAppLog({
+      appId,
+      source: "frontend",
+      level: "info",
+      text: Array.from({ length: 5010 }, (_, i) => `line ${i}`).join("\n"),
+    });
+    const [run] = listAppLogRuns(appId);
+    expect(run.entryCount).toBe(5000);
+    expect(run.droppedCount).toBe(10);
+    expect(queryAppLogs({ appId, limit: 1 })[0].text).toBe("line 5009");
+  });
+});
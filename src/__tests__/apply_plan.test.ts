@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  executeApplyPlan,
+  formatApplyReport,
+  orderFileOperations,
+} from "@/ipc/processors/apply_plan";
+
+vi.mock("electron-log", () => ({
+  default: {
+    scope: () => ({
+      log: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    }),
+  },
+}));
+
+describe("executeApplyPlan", () => {
+  let appPath: string;
+
+  const read = (filePath: string) =>
+    fs.readFileSync(path.join(appPath, filePath), "utf8");
+  const exists = (filePath: string) =>
+    fs.existsSync(path.join(appPath, filePath));
+
+  beforeEach(() => {
+    appPath = fs.mkdtempSync(path.join(os.tmpdir(), "apply-plan-test-"));
+    fs.mkdirSync(path.join(appPath, "src"));
+    fs.writeFileSync(path.join(appPath, "src/a.ts"), "const a = 1;");
+    fs.writeFileSync(path.join(appPath, "src/b.ts"), "const b = 2;");
+  });
+
+  afterEach(() => {
+    fs.rmSync(appPath, { recursive: true, force: true });
+  });
+
+  it("should order deletes, then renames, then writes", () => {
+    const ordered = orderFileOperations([
+      { kind: "write", path: "x", content: "" },
+      { kind: "rename", from: "y", to: "z" },
+      { kind: "delete", path: "w" },
+    ]);
+    expect(ordered.map((op) => op.kind)).toEqual(["delete", "rename", "write"]);
+  });
+
+  it("should apply every operation and report what changed", async () => {
+    const result = await executeApplyPlan({
+      appPath,
+      operations: [
+        { kind: "write", path: "src/new/c.ts", content: "const c = 3;" },
+        { kind: "rename", from: "src/a.ts", to: "src/renamed.ts" },
+        {
+          kind: "search-replace",
+          path: "src/renamed.ts",
+          hunks: [{ search: "const a = 1;", replace: "const a = 10;" }],
+        },
+        { kind: "delete", path: "src/b.ts" },
+      ],
+    });
+
+    expect(result.status).toBe("committed");
+    expect(result.results.every((r) => r.status === "applied")).toBe(true);
+    expect(result.writtenFiles).toEqual(["src/new/c.ts", "src/renamed.ts"]);
+    expect(result.renamedFiles).toEqual([
+      { from: "src/a.ts", to: "src/renamed.ts" },
+    ]);
+    expect(result.deletedFiles).toEqual(["src/b.ts"]);
+    expect(read("src/new/c.ts")).toBe("const c = 3;");
+    expect(read("src/renamed.ts")).toBe("const a = 10;");
+    expect(exists("src/a.ts")).toBe(false);
+    expect(exists("src/b.ts")).toBe(false);
+  });
+
+  it("should skip no-op operations without failing the plan", async () => {
+    const result = await executeApplyPlan({
+      appPath,
+      operations: [{ kind: "delete", path: "src/missing.ts" }],
+    });
+
+    expect(result.status).toBe("committed");
+    expect(result.results).toMatchObject([{ status: "skipped" }]);
+    expect(result.deletedFiles).toEqual([]);
+  });
+
+  it("should reject the whole plan without touching files when validation fails", async () => {
+    const result = await executeApplyPlan({
+      appPath,
+      operations: [
+        { kind: "write", path: "src/a.ts", content: "changed" },
+        { kind: "rename", from: "src/a.ts", to: "src/b.ts" },
+        { kind: "write", path: "../outside.ts", content: "nope" },
+      ],
+    });
+
+    expect(result.status).toBe("rejected");
+    expect(result.error).toContain("Rename target already exists: src/b.ts");
+    expect(result.error).toContain("Unsafe path");
+    expect(result.results.map((r) => r.status)).toEqual([
+      "failed",
+      "not-applied",
+      "failed",
+    ]);
+    expect(read("src/a.ts")).toBe("const a = 1;");
+    expect(read("src/b.ts")).toBe("const b = 2;");
+  });
+
+  it("should reject conflicting operations on the same file", async () => {
+    const result = await executeApplyPlan({
+      appPath,
+      operations: [
+        { kind: "delete", path: "src/a.ts" },
+        {
+          kind: "search-replace",
+          path: "src/a.ts",
+          hunks: [{ search: "const a = 1;", replace: "const a = 2;" }],
+        },
+        {
+          kind: "search-replace",
+          path: "src/b.ts",
+          hunks: [{ search: "x", replace: "y" }],
+        },
+      ],
+    });
+
+    expect(result.status).toBe("rejected");
+    expect(result.results.map((r) => r.message)).toEqual([
+      undefined,
+      "Conflicts with delete of src/a.ts",
+      "Hunk 1 of 1 in src/b.ts: the search text was not found",
+    ]);
+    expect(exists("src/a.ts")).toBe(true);
+  });
+
+  it("should allow deleting a file and writing it again", async () => {
+    const result = await executeApplyPlan({
+      appPath,
+      operations: [
+        { kind: "write", path: "src/a.ts", content: "const a = 2;" },
+        { kind: "delete", path: "src/a.ts" },
+      ],
+    });
+
+    expect(result.status).toBe("committed");
+    expect(result.results.map((r) => r.status)).toEqual(["applied", "applied"]);
+    expect(read("src/a.ts")).toBe("const a = 2;");
+  });
+
+  it("should restore the working tree when a later step fails", async () => {
+    const result = await executeApplyPlan({
+      appPath,
+      operations: [
+        { kind: "delete", path: "src/b.ts" },
+        { kind: "rename", from: "src/a.ts", to: "src/moved/a.ts" },
+        { kind: "write", path: "src/c.ts", content: "const c = 3;" },
+      ],
+      extraPaths: ["package.json"],
+      afterApply: async () => {
+        fs.writeFileSync(path.join(appPath, "package.json"), "{}");
+        throw new Error("install failed");
+      },
+    });
+
+    expect(result.status).toBe("rolled-back");
+    expect(result.error).toContain("install failed");
+    expect(result.results.map((r) => r.status)).toEqual([
+      "rolled-back",
+      "rolled-back",
+      "rolled-back",
+    ]);
+    expect(read("src/a.ts")).toBe("const a = 1;");
+    expect(read("src/b.ts")).toBe("const b = 2;");
+    expect(exists("src/moved/a.ts")).toBe(false);
+    expect(exists("src/c.ts")).toBe(false);
+    expect(exists("package.json")).toBe(false);
+  });
+
+  it("should serialize the results as a dyad-apply-report tag", async () => {
+    const result = await executeApplyPlan({
+      appPath,
+      operations: [{ kind: "rename", from: "src/a.ts", to: "src/b.ts" }],
+    });
+
+    expect(formatApplyReport(result)).toBe(
+      `<dyad-apply-report status="rejected" summary="Changes were not applied">
+<operation kind="rename" from="src/a.ts" to="src/b.ts" status="failed">Rename target already exists: src/b.ts</operation>
+</dyad-apply-report>`,
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  detectBackendFramework,
+  parseBackendFrameworkManifest,
+  resolveFrameworkCommand,
+} from "@/ipc/utils/backend_framework_registry";
+
+vi.mock("electron", () => ({ app: { getAppPath: () => "/app" } }));
+vi.mock("@/paths/paths", () => ({
+  getUserDataPath: () => path.join(os.tmpdir(), "no-such-user-data"),
+}));
+
+const manifest = {
+  id: "rails-lite",
+  title: "Rails (lite)",
+  language: "Ruby",
+  startCommand: "bin/rails server -p {port}",
+  defaultPort: 3000,
+};
+
+describe("parseBackendFrameworkManifest", () => {
+  it("should fill in defaults and mark the framework as custom", () => {
+    expect(parseBackendFrameworkManifest(JSON.stringify(manifest))).toEqual({
+      ...manifest,
+      description: "",
+      scaffoldDir: "scaffold",
+      isCustom: true,
+    });
+  });
+
+  it("should reject a manifest missing its start command", () => {
+    expect(() =>
+      parseBackendFrameworkManifest(
+        JSON.stringify({ ...manifest, startCommand: undefined }),
+      ),
+    ).toThrow("startCommand");
+  });
+
+  it("should reject a scaffold outside the framework folder", () => {
+    expect(() =>
+      parseBackendFrameworkManifest(
+        JSON.stringify({ ...manifest, scaffoldDir: "../elsewhere" }),
+      ),
+    ).toThrow("outside the framework folder");
+  });
+
+  it("should reject the id of a built-in framework", () => {
+    expect(() =>
+      parseBackendFrameworkManifest(
+        JSON.stringify({ ...manifest, id: "django" }),
+      ),
+    ).toThrow("built-in");
+  });
+});
+
+describe("resolveFrameworkCommand", () => {
+  it("should replace every port placeholder", () => {
+    expect(resolveFrameworkCommand("PORT={port} run --port {port}", 8123)).toBe(
+      "PORT=8123 run --port 8123",
+    );
+  });
+});
+
+describe("detectBackendFramework", () => {
+  let backendPath: string;
+
+  beforeEach(() => {
+    backendPath = fs.mkdtempSync(path.join(os.tmpdir(), "backend-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(backendPath, { recursive: true, force: true });
+  });
+
+  it("should detect a framework by its detect files", () => {
+    fs.writeFileSync(path.join(backendPath, "go.mod"), "module backend\n");
+    expect(detectBackendFramework(backendPath)?.id).toBe("go");
+  });
+
+  it("should detect Hono by its dependency, not by TypeScript files", () => {
+    fs.mkdirSync(path.join(backendPath, "src"));
+    fs.writeFileSync(path.join(backendPath, "tsconfig.json"), "{}");
+    fs.writeFileSync(path.join(backendPath, "src", "index.ts"), "");
+    fs.writeFileSync(
+      path.join(backendPath, "package.json"),
+      JSON.stringify({ dependencies: { express: "^4.19.0" } }),
+    );
+    expect(detectBackendFramework(backendPath)).toBeUndefined();
+
+    fs.writeFileSync(
+      path.join(backendPath, "package.json"),
+      JSON.stringify({ dependencies: { hono: "^4.5.0" } }),
+    );
+    expect(detectBackendFramework(backendPath)?.id).toBe("hono");
+  });
+
+  it("should detect nothing without matching files", () => {
+    fs.writeFileSync(path.join(backendPath, "package.json"), "{}");
+    expect(detectBackendFramework(backendPath)).toBeUndefined();
+  });
+});
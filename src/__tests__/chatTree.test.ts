@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { orderChatsAsTree } from "@/lib/chatTree";
+import type { ChatSummary } from "@/lib/schemas";
+
+function chat(id: number, parentChatId: number | null = null): ChatSummary {
+  return {
+    id,
+    appId: 1,
+    title: `Chat ${id}`,
+    createdAt: new Date(),
+    parentChatId,
+  };
+}
+
+describe("orderChatsAsTree", () => {
+  it("should place forks under the chat they were forked from", () => {
+    const entries = orderChatsAsTree([
+      chat(5, 2),
+      chat(4),
+      chat(3, 2),
+      chat(2),
+      chat(6, 5),
+    ]);
+
+    expect(entries.map(({ chat, depth }) => [chat.id, depth])).toEqual([
+      [4, 0],
+      [2, 0],
+      [5, 1],
+      [6, 2],
+      [3, 1],
+    ]);
+  });
+
+  it("should show forks of unlisted chats at the top level", () => {
+    const entries = orderChatsAsTree([chat(3, 1), chat(2)]);
+
+    expect(entries.map(({ chat, depth }) => [chat.id, depth])).toEqual([
+      [3, 0],
+      [2, 0],
+    ]);
+  });
+});
@@ -27,6 +27,11 @@ vi.mock("node:fs", async () => {
       renameSync: vi.fn(),
       unlinkSync: vi.fn(),
       lstatSync: vi.fn().mockReturnValue({ isDirectory: () => false }),
+      readFileSync: vi.fn().mockReturnValue(""),
+      copyFileSync: vi.fn(),
+      cpSync: vi.fn(),
+      rmSync: vi.fn(),
+      mkdtempSync: vi.fn().mockReturnValue("/mock/tmp/dyad-apply-scratch"),
       promises: {
         readFile: vi.fn().mockResolvedValue(""),
       },
@@ -37,6 +42,11 @@ vi.mock("node:fs", async () => {
     renameSync: vi.fn(),
     unlinkSync: vi.fn(),
     lstatSync: vi.fn().mockReturnValue({ isDirectory: () => false }),
+    readFileSync: vi.fn().mockReturnValue(""),
+    copyFileSync: vi.fn(),
+    cpSync: vi.fn(),
+    rmSync: vi.fn(),
+    mkdtempSync: vi.fn().mockReturnValue("/mock/tmp/dyad-apply-scratch"),
     promises: {
       readFile: vi.fn().mockResolvedValue(""),
     },
@@ -805,8 +815,10 @@ describe("processFullResponse", () => {
   });
 
   it("should process dyad-rename tags and rename files", async () => {
-    // Set up fs mocks to succeed
-    vi.mocked(fs.existsSync).mockReturnValue(true);
+    // Set up fs mocks to succeed; the rename target must not exist yet
+    vi.mocked(fs.existsSync).mockImplementation(
+      (filePath) => !String(filePath).endsWith("NewComponent.jsx"),
+    );
     vi.mocked(fs.mkdirSync).mockImplementation(() => undefined);
     vi.mocked(fs.renameSync).mockImplementation(() => undefined);
 
@@ -850,7 +862,7 @@ describe("processFullResponse", () => {
       messageId: 1,
     });
 
-    expect(fs.mkdirSync).toHaveBeenCalled();
+    expect(fs.mkdirSync).not.toHaveBeenCalled();
     expect(fs.renameSync).not.toHaveBeenCalled();
     expect(git.commit).not.toHaveBeenCalled();
     expect(result).toEqual({
@@ -905,9 +917,61 @@ describe("processFullResponse", () => {
     });
   });
 
-  it("should process mixed operations (write, rename, delete) in one response", async () => {
-    // Set up fs mocks to succeed
+  it("should roll back earlier writes when a later write fails", async () => {
+    vi.mocked(fs.mkdirSync).mockImplementation(() => undefined);
+    vi.mocked(fs.writeFileSync)
+      .mockImplementationOnce(() => undefined)
+      .mockImplementationOnce(() => {
+        throw new Error("Disk full");
+      });
+
+    const response = `
+    <dyad-write path="src/first.js">first</dyad-write>
+    <dyad-write path="src/second.js">second</dyad-write>
+    `;
+
+    const result = await processFullResponseActions(response, 1, {
+      chatSummary: undefined,
+      messageId: 1,
+    });
+
+    // The first file is restored from its backup
+    expect(fs.cpSync).toHaveBeenCalledWith(
+      "/mock/tmp/dyad-apply-scratch/src/first.js",
+      "/mock/user/data/path/mock-app-path/src/first.js",
+      { recursive: true },
+    );
+    expect(git.commit).not.toHaveBeenCalled();
+    expect(result.error).toContain("Changes were rolled back");
+    expect(result.error).toContain("Disk full");
+  });
+
+  it("should not apply anything when a rename target already exists", async () => {
     vi.mocked(fs.existsSync).mockReturnValue(true);
+
+    const response = `
+    <dyad-write path="src/file1.js">console.log('Hello');</dyad-write>
+    <dyad-rename from="src/Old.jsx" to="src/New.jsx"></dyad-rename>
+    `;
+
+    const result = await processFullResponseActions(response, 1, {
+      chatSummary: undefined,
+      messageId: 1,
+    });
+
+    expect(fs.renameSync).not.toHaveBeenCalled();
+    expect(fs.writeFileSync).not.toHaveBeenCalled();
+    expect(git.commit).not.toHaveBeenCalled();
+    expect(result.error).toContain(
+      "Rename target already exists: src/New.jsx",
+    );
+  });
+
+  it("should process mixed operations (write, rename, delete) in one response", async () => {
+    // Set up fs mocks to succeed; the rename target must not exist yet
+    vi.mocked(fs.existsSync).mockImplementation(
+      (filePath) => !String(filePath).endsWith("RenamedComponent.jsx"),
+    );
     vi.mocked(fs.mkdirSync).mockImplementation(() => undefined);
     vi.mocked(fs.writeFileSync).mockImplementation(() => undefined);
     vi.mocked(fs.renameSync).mockImplementation(() => undefined);
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import ts from "typescript";
+import {
+  applyJsxComponentEdit,
+  readJsxComponent,
+} from "../ipc/utils/component_source";
+
+const code = `export function Hero({ title }: { title: string }) {
+  return (
+    <section className="p-4 bg-white">
+      <h1 className="text-2xl font-bold text-gray-900">
+        Welcome home
+      </h1>
+      <p className={cn("mt-2", title && "italic")}>{title}</p>
+      <Button variant="outline" size={2} disabled onClick={() => {}} />
+      <span>Plain</span>
+    </section>
+  );
+}
+`;
+
+const file = { fileName: "src/Hero.tsx", code };
+// Tagger ids: 1-based line, 0-based column of the opening tag
+const section = { lineNumber: 3, columnNumber: 4 };
+const heading = { lineNumber: 4, columnNumber: 6 };
+const paragraph = { lineNumber: 7, columnNumber: 6 };
+const button = { lineNumber: 8, columnNumber: 6 };
+const span = { lineNumber: 9, columnNumber: 6 };
+
+describe("readJsxComponent", () => {
+  it("reads the text, classes and props of an element", () => {
+    expect(readJsxComponent(ts, file, heading)).toEqual({
+      tagName: "h1",
+      text: "Welcome home",
+      className: "text-2xl font-bold text-gray-900",
+      props: [],
+    });
+  });
+
+  it("lists computed classes as an expression prop", () => {
+    const source = readJsxComponent(ts, file, paragraph);
+    expect(source.text).toBeNull();
+    expect(source.className).toBeNull();
+    expect(source.props).toEqual([
+      {
+        name: "className",
+        kind: "expression",
+        value: 'cn("mt-2", title && "italic")',
+      },
+    ]);
+  });
+
+  it("describes literal and expression props", () => {
+    const source = readJsxComponent(ts, file, button);
+    expect(source.text).toBeNull();
+    expect(source.className).toBe("");
+    expect(source.props).toEqual([
+      { name: "variant", kind: "string", value: "outline" },
+      { name: "size", kind: "number", value: "2" },
+      { name: "disabled", kind: "boolean", value: "true" },
+      { name: "onClick", kind: "expression", value: "() => {}" },
+    ]);
+  });
+
+  it("throws when no element starts at the location", () => {
+    expect(() =>
+      readJsxComponent(ts, file, { lineNumber: 4, columnNumber: 7 }),
+    ).toThrow(/Could not find the selected element at src\/Hero.tsx:4:7/);
+  });
+});
+
+describe("applyJsxComponentEdit", () => {
+  it("replaces the text and keeps the surrounding whitespace", () => {
+    const result = applyJsxComponentEdit(ts, file, heading, {
+      text: "Hello there",
+    });
+    expect(result).toContain(
+      `<h1 className="text-2xl font-bold text-gray-900">
+        Hello there
+      </h1>`,
+    );
+  });
+
+  it("wraps text with JSX syntax characters in an expression", () => {
+    const result = applyJsxComponentEdit(ts, file, span, { text: "a {b}" });
+    expect(result).toContain(`<span>{"a {b}"}</span>`);
+  });
+
+  it("updates, adds and removes the className", () => {
+    expect(
+      applyJsxComponentEdit(ts, file, section, {
+        className: " p-6  bg-white ",
+      }),
+    ).toContain(`<section className="p-6 bg-white">`);
+    expect(
+      applyJsxComponentEdit(ts, file, span, { className: "text-sm" }),
+    ).toContain(`<span className="text-sm">Plain</span>`);
+    expect(
+      applyJsxComponentEdit(ts, file, section, { className: "" }),
+    ).toContain(`<section>`);
+  });
+
+  it("edits literal props", () => {
+    const result = applyJsxComponentEdit(ts, file, button, {
+      props: { variant: 'say "hi"', size: "3", disabled: "false" },
+    });
+    expect(result).toContain(
+      `<Button variant={"say \\"hi\\""} size={3} disabled={false} onClick={() => {}} />`,
+    );
+  });
+
+  it("applies several edits to one element at once", () => {
+    const result = applyJsxComponentEdit(ts, file, heading, {
+      text: "Hi",
+      className: "text-3xl",
+    });
+    expect(result).toContain(`<h1 className="text-3xl">
+        Hi
+      </h1>`);
+    // The element is still found at the same location afterwards
+    expect(readJsxComponent(ts, { ...file, code: result }, heading).text).toBe(
+      "Hi",
+    );
+  });
+
+  it("refuses to edit what isn't a literal", () => {
+    expect(() =>
+      applyJsxComponentEdit(ts, file, paragraph, { className: "mt-4" }),
+    ).toThrow(/"className" is set by an expression/);
+    expect(() =>
+      applyJsxComponentEdit(ts, file, paragraph, { text: "x" }),
+    ).toThrow(/isn't plain text/);
+    expect(() =>
+      applyJsxComponentEdit(ts, file, button, { props: { onClick: "x" } }),
+    ).toThrow(/"onClick" is set by an expression/);
+    expect(() =>
+      applyJsxComponentEdit(ts, file, button, { props: { size: "big" } }),
+    ).toThrow(/"size" must be a number/);
+  });
+});
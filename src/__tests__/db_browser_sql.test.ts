@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCountQuery,
+  buildRowsQuery,
+  buildTableCountsQuery,
+  findDestructiveStatements,
+} from "../ipc/utils/db_browser_sql";
+import type { DbBrowserFilterOperator } from "../ipc/ipc_types";
+
+describe("buildRowsQuery", () => {
+  it("pages through a table", () => {
+    expect(
+      buildRowsQuery({
+        table: { schema: "public", name: "todos" },
+        filters: [],
+        offset: 100,
+        limit: 50,
+        dialect: "postgres",
+      }),
+    ).toBe('SELECT * FROM "public"."todos" LIMIT 50 OFFSET 100');
+  });
+
+  it("quotes filter values and identifiers", () => {
+    expect(
+      buildRowsQuery({
+        table: { schema: null, name: 'my "table"' },
+        filters: [
+          { column: "name", operator: "=", value: "O'Brien" },
+          { column: "deleted_at", operator: "is null" },
+        ],
+        orderBy: { column: "id", direction: "desc" },
+        offset: 0,
+        limit: 10,
+        dialect: "sqlite",
+      }),
+    ).toBe(
+      `SELECT * FROM "my ""table""" WHERE "name" = 'O''Brien' AND "deleted_at" IS NULL ORDER BY "id" DESC LIMIT 10 OFFSET 0`,
+    );
+  });
+
+  it("matches contains filters case-insensitively with wildcards escaped", () => {
+    expect(
+      buildCountQuery({
+        table: { schema: "public", name: "todos" },
+        filters: [{ column: "title", operator: "contains", value: "50%" }],
+        dialect: "postgres",
+      }),
+    ).toBe(
+      `SELECT COUNT(*) AS count FROM "public"."todos" WHERE CAST("title" AS TEXT) ILIKE '%50\\%%' ESCAPE '\\'`,
+    );
+  });
+
+  it("rejects unknown filter operators", () => {
+    expect(() =>
+      buildCountQuery({
+        table: { schema: null, name: "todos" },
+        filters: [
+          {
+            column: "id",
+            operator: "= 1 OR 1 =" as DbBrowserFilterOperator,
+            value: "1",
+          },
+        ],
+        dialect: "sqlite",
+      }),
+    ).toThrow("Unknown filter operator");
+  });
+});
+
+describe("buildTableCountsQuery", () => {
+  it("counts every table in one query", () => {
+    expect(
+      buildTableCountsQuery([
+        { schema: null, name: "users" },
+        { schema: null, name: "todos" },
+      ]),
+    ).toBe(
+      'SELECT 0 AS table_index, COUNT(*) AS count FROM "users" UNION ALL SELECT 1 AS table_index, COUNT(*) AS count FROM "todos"',
+    );
+  });
+});
+
+describe("findDestructiveStatements", () => {
+  it("allows reads and inserts", () => {
+    expect(
+      findDestructiveStatements(
+        "SELECT * FROM todos; INSERT INTO todos (title) VALUES ('drop it');",
+      ),
+    ).toEqual([]);
+  });
+
+  it("lists statements that change or remove data", () => {
+    expect(
+      findDestructiveStatements(
+        "select 1; delete from todos where id = 1; DROP TABLE users",
+      ),
+    ).toEqual(["delete from todos where id = 1", "DROP TABLE users"]);
+  });
+
+  it("catches data changes inside a CTE", () => {
+    expect(
+      findDestructiveStatements(
+        "WITH gone AS (DELETE FROM todos RETURNING *) SELECT count(*) FROM gone",
+      ),
+    ).toHaveLength(1);
+  });
+
+  it("catches data changes in DO blocks, MERGE and upserts", () => {
+    const statements = [
+      "DO $$ BEGIN DROP TABLE todos; END $$",
+      "MERGE INTO todos t USING incoming i ON t.id = i.id WHEN MATCHED THEN DO NOTHING",
+      "INSERT INTO todos (id, title) VALUES (1, 'a') ON CONFLICT (id) DO UPDATE SET title = excluded.title",
+    ];
+    expect(findDestructiveStatements(statements.join(";\n"))).toEqual(
+      statements,
+    );
+  });
+
+  it("ignores keywords in quoted column names", () => {
+    expect(
+      findDestructiveStatements('SELECT "update", "drop" FROM audit_log'),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PREVIEW_VIEWPORT_SETTINGS,
+  getFitScale,
+  getViewport,
+  getViewports,
+} from "../lib/device_presets";
+
+describe("getViewports", () => {
+  it("has no frames in responsive mode", () => {
+    expect(getViewports(DEFAULT_PREVIEW_VIEWPORT_SETTINGS)).toEqual([]);
+  });
+
+  it("rotates the device and overrides its pixel ratio", () => {
+    expect(
+      getViewports({
+        ...DEFAULT_PREVIEW_VIEWPORT_SETTINGS,
+        device: "phone",
+        landscape: true,
+        devicePixelRatio: 2,
+      }),
+    ).toEqual([
+      {
+        id: "phone",
+        label: "Phone",
+        width: 844,
+        height: 390,
+        devicePixelRatio: 2,
+      },
+    ]);
+  });
+
+  it("lists the multi-viewport devices in a fixed order", () => {
+    const viewports = getViewports({
+      ...DEFAULT_PREVIEW_VIEWPORT_SETTINGS,
+      multiViewport: true,
+      multiViewportDevices: ["custom", "phone"],
+      customSize: { width: 600, height: 400 },
+    });
+    expect(viewports.map((v) => [v.id, v.width, v.height])).toEqual([
+      ["phone", 390, 844],
+      ["custom", 600, 400],
+    ]);
+  });
+});
+
+describe("getFitScale", () => {
+  const phone = getViewport("phone", DEFAULT_PREVIEW_VIEWPORT_SETTINGS);
+  const desktop = getViewport("desktop", DEFAULT_PREVIEW_VIEWPORT_SETTINGS);
+
+  it("never enlarges the viewports", () => {
+    expect(getFitScale([phone], { width: 2000, height: 2000 }, 16)).toBe(1);
+  });
+
+  it("shrinks side-by-side viewports to fit the width and height", () => {
+    // (1846 - 16) / (390 + 1440) = 1, 900 / 900 = 1
+    expect(
+      getFitScale([phone, desktop], { width: 1846, height: 900 }, 16),
+    ).toBe(1);
+    expect(
+      getFitScale([phone, desktop], { width: 931, height: 2000 }, 16),
+    ).toBe(0.5);
+    expect(getFitScale([phone], { width: 2000, height: 422 }, 16)).toBe(0.5);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  generateComposeFile,
+  type ComposeProjectOptions,
+} from "@/ipc/utils/docker_compose";
+
+vi.mock("@/ipc/handlers/terminal_handlers", () => ({
+  addTerminalOutput: vi.fn(),
+}));
+
+const options: ComposeProjectOptions = {
+  appId: 7,
+  frontendDir: "frontend",
+  backendDir: "backend",
+  backendFramework: "fastapi",
+  frontendPort: 32100,
+  backendPort: 8000,
+  withPostgres: false,
+  hasBackendEnvFile: false,
+};
+
+function parse(content: string) {
+  // Everything after the header comment is JSON
+  return JSON.parse(content.slice(content.indexOf("\n") + 1));
+}
+
+describe("generateComposeFile", () => {
+  it("should define a frontend and a Python backend service", () => {
+    const compose = parse(generateComposeFile(options));
+
+    expect(compose.name).toBe("dyad-app-7");
+    expect(Object.keys(compose.services).sort()).toEqual([
+      "backend",
+      "frontend",
+    ]);
+    expect(compose.services.frontend.ports).toEqual(["32100:32100"]);
+    expect(compose.services.frontend.environment.VITE_API_URL).toBe(
+      "http://localhost:8000",
+    );
+    expect(compose.services.backend.image).toBe("python:3.12-slim");
+    expect(compose.services.backend.command[2]).toContain(
+      "uvicorn main:app --reload --host 0.0.0.0 --port 8000",
+    );
+    expect(compose.services.backend.volumes).toEqual([
+      "./backend:/app",
+      "backend_venv:/venv",
+    ]);
+  });
+
+  it("should add Postgres and point the backend at it", () => {
+    const compose = parse(
+      generateComposeFile({
+        ...options,
+        backendFramework: "nodejs",
+        withPostgres: true,
+        hasBackendEnvFile: true,
+      }),
+    );
+
+    expect(compose.services.db.image).toBe("postgres:16-alpine");
+    expect(compose.services.backend.image).toBe("node:22-alpine");
+    expect(compose.services.backend.environment.DATABASE_URL).toBe(
+      "postgresql://dyad:dyad@db:5432/app",
+    );
+    expect(compose.services.backend.env_file).toEqual(["./backend/.env"]);
+    expect(compose.services.backend.depends_on).toEqual({
+      db: { condition: "service_healthy" },
+    });
+    expect(Object.keys(compose.volumes).sort()).toEqual([
+      "backend_node_modules",
+      "frontend_node_modules",
+      "postgres_data",
+    ]);
+  });
+
+  it("should run Go and Spring backends with their toolchain images", () => {
+    const go = parse(
+      generateComposeFile({ ...options, backendFramework: "go" }),
+    );
+    expect(go.services.backend.image).toBe("golang:1.22-alpine");
+    expect(go.services.backend.command[2]).toBe("go mod download && go run .");
+    expect(go.services.backend.environment.PATH).toBeUndefined();
+    expect(go.services.backend.volumes).toEqual([
+      "./backend:/app",
+      "backend_go_modules:/go/pkg/mod",
+    ]);
+
+    const spring = parse(
+      generateComposeFile({ ...options, backendFramework: "spring-lite" }),
+    );
+    expect(spring.services.backend.image).toBe("maven:3.9-eclipse-temurin-17");
+    expect(spring.services.backend.command[2]).toBe("mvn -q spring-boot:run");
+    expect(spring.services.backend.volumes).toEqual([
+      "./backend:/app",
+      "backend_maven_repo:/root/.m2",
+    ]);
+  });
+
+  it("should run an app without folders as a frontend at the root", () => {
+    const compose = parse(
+      generateComposeFile({ ...options, frontendDir: ".", backendDir: null }),
+    );
+
+    expect(Object.keys(compose.services)).toEqual(["frontend"]);
+    expect(compose.services.frontend.volumes[0]).toBe(".:/app");
+    expect(compose.services.frontend.depends_on).toBeUndefined();
+  });
+});
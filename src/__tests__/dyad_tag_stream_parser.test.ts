@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+  DyadTagParser,
+  getDyadTagNodes,
+  parseDyadResponse,
+  removeDyadTagNodes,
+} from "@/shared/dyad_tag_stream_parser";
+
+const RESPONSE = `Let me update the app.
+
+<dyad-write path="src/App.tsx" description="Update the app">
+const App = () => <div className="app">Hello</div>;
+</dyad-write>
+
+<dyad-rename to="src/new.ts" from="src/old.ts"></dyad-rename>
+<dyad-delete path="src/unused.ts"></dyad-delete>
+<dyad-chat-summary>Updating the app</dyad-chat-summary>
+Done.`;
+
+describe("DyadTagParser", () => {
+  it("should produce typed nodes with source offsets", () => {
+    const document = parseDyadResponse(RESPONSE);
+    const tags = getDyadTagNodes(document);
+
+    expect(tags.map((node) => node.kind)).toEqual([
+      "write",
+      "rename",
+      "delete",
+      "chat-summary",
+    ]);
+    for (const node of tags) {
+      expect(RESPONSE.slice(node.start, node.end)).toMatch(
+        new RegExp(`^<${node.tag}[\\s\\S]*</${node.tag}>$`),
+      );
+      expect(RESPONSE.slice(node.contentStart, node.contentEnd)).toBe(
+        node.content,
+      );
+    }
+    expect(document.diagnostics).toEqual([]);
+  });
+
+  it("should produce the same tree regardless of how the input is chunked", () => {
+    const expected = parseDyadResponse(RESPONSE);
+
+    for (const chunkSize of [1, 2, 3, 7, 16]) {
+      const parser = new DyadTagParser();
+      for (let i = 0; i < RESPONSE.length; i += chunkSize) {
+        parser.push(RESPONSE.slice(i, i + chunkSize));
+      }
+      expect(parser.end()).toEqual(expected);
+    }
+  });
+
+  it("should accept attributes in any order", () => {
+    const [node] = getDyadTagNodes(
+      parseDyadResponse(
+        `<dyad-rename to="src/b.ts" from="src/a.ts"></dyad-rename>`,
+      ),
+      "rename",
+    );
+    expect(node.attributes).toEqual({ from: "src/a.ts", to: "src/b.ts" });
+  });
+
+  it("should handle escaped quotes and '>' inside attribute values", () => {
+    const [node] = getDyadTagNodes(
+      parseDyadResponse(
+        `<dyad-write path='src/a.ts' description="Say \\"hi\\" when a > b">x</dyad-write>`,
+      ),
+      "write",
+    );
+    expect(node.attributes).toEqual({
+      path: "src/a.ts",
+      description: 'Say "hi" when a > b',
+    });
+    expect(node.content).toBe("x");
+  });
+
+  it("should report unterminated tags as diagnostics", () => {
+    const document = parseDyadResponse(
+      `text <dyad-write path="src/a.ts">partial`,
+    );
+    const [node] = getDyadTagNodes(document, "write");
+    expect(node.closed).toBe(false);
+    expect(node.content).toBe("partial");
+    expect(document.diagnostics).toMatchObject([
+      { code: "unterminated-tag", tag: "dyad-write" },
+    ]);
+  });
+
+  it("should report stray closing tags and missing attributes", () => {
+    const document = parseDyadResponse(
+      `</dyad-delete><dyad-delete></dyad-delete>`,
+    );
+    expect(document.diagnostics.map((d) => d.code)).toEqual([
+      "unexpected-closing-tag",
+      "missing-attribute",
+    ]);
+  });
+
+  it("should expose the in-progress tag while streaming", () => {
+    const parser = new DyadTagParser();
+    parser.push(`Intro <dyad-write path="src/a.ts">const a`);
+    const snapshot = parser.snapshot();
+
+    expect(snapshot.nodes).toMatchObject([
+      { kind: "text", text: "Intro " },
+      { kind: "write", closed: false, content: "const a" },
+    ]);
+    expect(snapshot.diagnostics).toEqual([]);
+
+    parser.push(` = 1;</dyad-wr`);
+    parser.push(`ite>`);
+    expect(getDyadTagNodes(parser.snapshot(), "write")).toMatchObject([
+      { closed: true, content: "const a = 1;" },
+    ]);
+  });
+
+  it("should restart when synced text is not an extension of the buffer", () => {
+    const parser = new DyadTagParser();
+    parser.sync(`<dyad-delete path="a.ts"></dyad-delete>`);
+    parser.sync(`<dyad-delete path="b.ts"></dyad-delete>`);
+    expect(
+      getDyadTagNodes(parser.snapshot(), "delete").map(
+        (node) => node.attributes.path,
+      ),
+    ).toEqual(["b.ts"]);
+  });
+
+  it("should treat unknown tags as markdown text", () => {
+    const document = parseDyadResponse(`Use <div> and <dyad-unknown>x`);
+    expect(document.nodes).toEqual([
+      {
+        kind: "text",
+        text: "Use <div> and <dyad-unknown>x",
+        start: 0,
+        end: 29,
+      },
+    ]);
+  });
+
+  it("should remove closed tags of a kind from the source", () => {
+    const document = parseDyadResponse(
+      `a<run_terminal_cmd>ls</run_terminal_cmd>b<dyad-run-backend-terminal-cmd>pwd</dyad-run-backend-terminal-cmd>c`,
+    );
+    expect(removeDyadTagNodes(document, "terminal-command")).toBe("abc");
+  });
+});
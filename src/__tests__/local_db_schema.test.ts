@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatPostgresSchema,
+  formatSqliteSchema,
+} from "../local_db/local_db_schema";
+
+describe("formatSqliteSchema", () => {
+  it("lists the statements that created each object", () => {
+    expect(
+      formatSqliteSchema([
+        {
+          type: "table",
+          name: "todos",
+          tbl_name: "todos",
+          sql: "CREATE TABLE todos (id INTEGER PRIMARY KEY, title TEXT)",
+        },
+        {
+          type: "index",
+          name: "todos_title",
+          tbl_name: "todos",
+          sql: "CREATE INDEX todos_title ON todos (title)\n",
+        },
+      ]),
+    ).toBe(
+      "CREATE TABLE todos (id INTEGER PRIMARY KEY, title TEXT);\nCREATE INDEX todos_title ON todos (title);",
+    );
+  });
+});
+
+describe("formatPostgresSchema", () => {
+  it("groups columns by table", () => {
+    expect(
+      formatPostgresSchema([
+        {
+          table_schema: "public",
+          table_name: "todos",
+          column_name: "id",
+          data_type: "integer",
+          is_nullable: "NO",
+          column_default: "nextval('todos_id_seq'::regclass)",
+        },
+        {
+          table_schema: "public",
+          table_name: "todos",
+          column_name: "title",
+          data_type: "text",
+          is_nullable: "YES",
+          column_default: null,
+        },
+        {
+          table_schema: "auth",
+          table_name: "users",
+          column_name: "email",
+          data_type: "text",
+          is_nullable: "NO",
+          column_default: null,
+        },
+      ]),
+    ).toBe(
+      "todos(id integer NOT NULL DEFAULT nextval('todos_id_seq'::regclass), title text)\nauth.users(email text NOT NULL)",
+    );
+  });
+
+  it("returns an empty string for a database without tables", () => {
+    expect(formatPostgresSchema([])).toBe("");
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  compareVersions,
+  deleteLocalTemplateVersion,
+  extractLocalTemplate,
+  getTemplateArchivePath,
+  importTemplateArchive,
+  listLocalTemplates,
+  parseLocalTemplateId,
+  saveAppAsTemplate,
+} from "@/ipc/utils/local_templates";
+
+const paths = vi.hoisted(() => ({ userData: "" }));
+
+vi.mock("electron", () => ({ app: { getAppPath: () => "/app" } }));
+vi.mock("@/paths/paths", () => ({
+  getUserDataPath: () => paths.userData,
+}));
+
+function writeFile(root: string, relativePath: string, content: string) {
+  const filePath = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+describe("local template ids and versions", () => {
+  it("should parse ids with and without a version", () => {
+    expect(parseLocalTemplateId("local:starter")).toEqual({
+      slug: "starter",
+      version: undefined,
+    });
+    expect(parseLocalTemplateId("local:starter@1.2.0")).toEqual({
+      slug: "starter",
+      version: "1.2.0",
+    });
+  });
+
+  it("should compare versions numerically", () => {
+    expect(compareVersions("1.10.0", "1.9.0")).toBeGreaterThan(0);
+    expect(compareVersions("1.0.0", "1.0.0")).toBe(0);
+  });
+});
+
+describe("local template catalog", () => {
+  let tmpDir: string;
+  let appPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "local-templates-"));
+    paths.userData = path.join(tmpDir, "user-data");
+    appPath = path.join(tmpDir, "app");
+    writeFile(appPath, "AI_RULES.md", "# Rules");
+    writeFile(appPath, "frontend/src/App.tsx", "export default 1;");
+    writeFile(appPath, "frontend/node_modules/react/index.js", "");
+    writeFile(appPath, "backend/requirements.txt", "fastapi\nuvicorn\n");
+    writeFile(appPath, "backend/.env", "DATABASE_URL=postgres://secret\n");
+    writeFile(appPath, ".env.local", "OPENAI_API_KEY=sk-secret\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should save an app without dependencies or env values", async () => {
+    const template = await saveAppAsTemplate({
+      appPath,
+      title: "Team Starter",
+      description: "Our starter",
+      version: "1.0.0",
+    });
+
+    expect(template).toMatchObject({
+      id: "local:team-starter",
+      isLocal: true,
+      version: "1.0.0",
+      backendFramework: "fastapi",
+    });
+
+    const targetPath = path.join(tmpDir, "new-app");
+    const manifest = await extractLocalTemplate(
+      "local:team-starter",
+      targetPath,
+    );
+    expect(manifest.envVarKeys).toEqual({
+      ".env.local": ["OPENAI_API_KEY"],
+      "backend/.env": ["DATABASE_URL"],
+    });
+    expect(manifest.hasAiRules).toBe(true);
+    expect(fs.readFileSync(path.join(targetPath, "AI_RULES.md"), "utf-8")).toBe(
+      "# Rules",
+    );
+    expect(fs.existsSync(path.join(targetPath, "frontend/node_modules"))).toBe(
+      false,
+    );
+    expect(fs.readFileSync(path.join(targetPath, ".env.local"), "utf-8")).toBe(
+      "OPENAI_API_KEY=\n",
+    );
+  });
+
+  it("should list the newest version first and reject duplicates", async () => {
+    const params = { appPath, title: "Team Starter", description: "" };
+    await saveAppAsTemplate({ ...params, version: "1.0.0" });
+    await saveAppAsTemplate({ ...params, version: "1.2.0" });
+
+    await expect(
+      saveAppAsTemplate({ ...params, version: "1.2.0" }),
+    ).rejects.toThrow("already exists");
+
+    const [template] = listLocalTemplates();
+    expect(template.version).toBe("1.2.0");
+    expect(template.versions).toEqual(["1.2.0", "1.0.0"]);
+  });
+
+  it("should import an exported archive after it was deleted", async () => {
+    await saveAppAsTemplate({
+      appPath,
+      title: "Team Starter",
+      description: "",
+      version: "2.0.0",
+    });
+    const exportedPath = path.join(tmpDir, "starter.dyadtemplate");
+    fs.copyFileSync(getTemplateArchivePath("local:team-starter"), exportedPath);
+
+    await deleteLocalTemplateVersion("local:team-starter@2.0.0");
+    expect(listLocalTemplates()).toEqual([]);
+
+    const template = await importTemplateArchive(exportedPath);
+    expect(template.id).toBe("local:team-starter");
+    expect(listLocalTemplates()).toHaveLength(1);
+  });
+
+  it("should reject files that aren't template archives", async () => {
+    const badPath = path.join(tmpDir, "bad.dyadtemplate");
+    fs.writeFileSync(badPath, "not gzip");
+
+    await expect(importTemplateArchive(badPath)).rejects.toThrow(
+      "not a template archive",
+    );
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect } from "vitest";
-import { createProblemFixPrompt } from "../shared/problem_prompt";
-import type { ProblemReport } from "../ipc/ipc_types";
+import {
+  createProblemFixPrompt,
+  selectProblemsToFix,
+} from "../shared/problem_prompt";
+import type { Problem, ProblemReport } from "../ipc/ipc_types";
 
 const snippet = `SNIPPET`;
 
@@ -228,5 +231,110 @@ describe("problem_prompt", () => {
       const result = createProblemFixPrompt(problemReport);
       expect(result).toMatchSnapshot();
     });
+
+    it("should label Python problems", () => {
+      const problemReport: ProblemReport = {
+        problems: [
+          {
+            file: "backend/main.py",
+            line: 3,
+            column: 1,
+            message: "ModuleNotFoundError: No module named 'requets'",
+            code: 0,
+            snippet,
+            source: "python",
+          },
+        ],
+      };
+
+      const result = createProblemFixPrompt(problemReport);
+      expect(result).toContain("Fix these 1 Python error:");
+      expect(result).toContain(
+        "1. backend/main.py:3:1 - ModuleNotFoundError: No module named 'requets' (Python)",
+      );
+    });
+
+    it("should label lint problems with their rule and severity", () => {
+      const problemReport: ProblemReport = {
+        problems: [
+          {
+            file: "src/App.tsx",
+            line: 8,
+            column: 5,
+            message:
+              'React Hook "useState" is called conditionally. React Hooks must be called in the exact same order in every component render.',
+            code: 0,
+            snippet,
+            source: "eslint",
+            severity: "error",
+            ruleId: "react-hooks/rules-of-hooks",
+          },
+          {
+            file: "src/App.tsx",
+            line: 12,
+            column: 7,
+            message: "img elements must have an alt prop.",
+            code: 0,
+            snippet,
+            source: "eslint",
+            severity: "warning",
+            ruleId: "jsx-a11y/alt-text",
+          },
+        ],
+      };
+
+      const result = createProblemFixPrompt(problemReport);
+      expect(result).toContain("Fix these 2 lint problems:");
+      expect(result).toContain("(react-hooks/rules-of-hooks)\n");
+      expect(result).toContain(
+        "2. src/App.tsx:12:7 - img elements must have an alt prop. (jsx-a11y/alt-text, warning)",
+      );
+    });
+  });
+
+  describe("selectProblemsToFix", () => {
+    const problem = (overrides: Partial<Problem>): Problem => ({
+      file: "src/App.tsx",
+      line: 1,
+      column: 1,
+      message: "Problem",
+      code: 0,
+      snippet: "",
+      ...overrides,
+    });
+    const problemReport: ProblemReport = {
+      problems: [
+        problem({ code: 2304 }),
+        problem({ source: "python" }),
+        problem({ source: "eslint", severity: "error", ruleId: "no-undef" }),
+        problem({
+          source: "eslint",
+          severity: "warning",
+          ruleId: "react-hooks/exhaustive-deps",
+        }),
+      ],
+    };
+
+    it("should keep lint errors but not warnings by default", () => {
+      const { problems } = selectProblemsToFix(problemReport);
+      expect(problems.map((p) => p.ruleId ?? p.source ?? "typescript")).toEqual(
+        ["typescript", "python", "no-undef"],
+      );
+    });
+
+    it("should keep only the chosen lint severities", () => {
+      expect(
+        selectProblemsToFix(problemReport, ["warning"]).problems.map(
+          (p) => p.ruleId ?? p.source ?? "typescript",
+        ),
+      ).toEqual(["typescript", "python", "react-hooks/exhaustive-deps"]);
+      expect(selectProblemsToFix(problemReport, []).problems).toHaveLength(2);
+    });
+
+    it("should describe mixed reports as problems", () => {
+      expect(
+        createProblemFixPrompt(selectProblemsToFix(problemReport)),
+      ).toContain("Fix these 3 problems:");
+    });
   });
 });
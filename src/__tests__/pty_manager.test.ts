@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from "vitest";
+import { getPlainTextTail } from "@/ipc/utils/pty_manager";
+import { stripAnsi } from "@/shared/ansi";
+
+vi.mock("@/ipc/handlers/app_handlers", () => ({
+  getShellEnv: () => ({}),
+}));
+
+describe("stripAnsi", () => {
+  it("should remove colors, cursor movement and window titles", () => {
+    expect(stripAnsi("\x1b[31mred\x1b[0m plain")).toBe("red plain");
+    expect(stripAnsi("\x1b[2K\x1b[1Gline")).toBe("line");
+    expect(stripAnsi("\x1b]0;user@host: ~\x07$ ls")).toBe("$ ls");
+    expect(stripAnsi("\x1b[?2004hprompt")).toBe("prompt");
+  });
+});
+
+describe("getPlainTextTail", () => {
+  it("should keep what a line finally showed after carriage returns", () => {
+    expect(
+      getPlainTextTail(
+        "Downloading 10%\rDownloading 50%\rDownloading done\r\n",
+      ),
+    ).toBe("Downloading done");
+  });
+
+  it("should keep only the last lines and drop trailing blank lines", () => {
+    const output = ["one", "two", "three", "four", "", ""].join("\r\n");
+    expect(getPlainTextTail(output, 2)).toBe("three\nfour");
+  });
+
+  it("should cap the length from the end", () => {
+    expect(getPlainTextTail("abcdef\r\nghij", 10, 6)).toBe("f\nghij");
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  findPythonInterpreter,
+  parseRequirementNames,
+  runPythonCheck,
+} from "@/ipc/utils/python_check";
+
+const python = findPythonInterpreter([], process.env);
+
+describe("parseRequirementNames", () => {
+  it("reads names and skips comments, options and versions", () => {
+    expect(
+      parseRequirementNames(
+        "# web\nFlask==3.0.0\nflask-cors>=4\n-r dev.txt\n\nuvicorn[standard]\r\n",
+      ),
+    ).toEqual(["Flask", "flask-cors", "uvicorn"]);
+  });
+});
+
+describe("findPythonInterpreter", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "python-check-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("prefers the app's virtualenv", () => {
+    const venvPython =
+      process.platform === "win32"
+        ? path.join(tmpDir, ".venv", "Scripts", "python.exe")
+        : path.join(tmpDir, ".venv", "bin", "python");
+    fs.mkdirSync(path.dirname(venvPython), { recursive: true });
+    fs.writeFileSync(venvPython, "");
+
+    expect(findPythonInterpreter([tmpDir], { PATH: "" })).toBe(venvPython);
+  });
+
+  it("returns null without any interpreter", () => {
+    expect(findPythonInterpreter([tmpDir], { PATH: tmpDir })).toBeNull();
+  });
+});
+
+describe.skipIf(!python)("runPythonCheck", () => {
+  const check = (files: Record<string, string>, requirements: string[] = []) =>
+    runPythonCheck({
+      interpreter: python!,
+      root: os.tmpdir(),
+      files,
+      requirements,
+    });
+
+  it("reports syntax errors with a snippet", async () => {
+    const problems = await check({ "main.py": "x = 1\ndef f(:\n    pass\n" });
+    expect(problems).toEqual([
+      expect.objectContaining({
+        file: "main.py",
+        line: 2,
+        message: "SyntaxError: invalid syntax",
+        source: "python",
+        snippet: "x = 1\ndef f(: # <-- Python error here\n    pass",
+      }),
+    ]);
+  });
+
+  it("reports undefined names once per file", async () => {
+    const problems = await check({
+      "main.py":
+        "import os\n\ndef handler(request):\n    items = [i for i in range(3)]\n    return jsonify(items, os.sep, request)\n\njsonify\n",
+    });
+    expect(problems.map((p) => [p.line, p.message])).toEqual([
+      [5, "NameError: name 'jsonify' is not defined"],
+    ]);
+  });
+
+  it("resolves imports against the overlay, stdlib and requirements", async () => {
+    const problems = await check(
+      {
+        "main.py": [
+          "import json",
+          "import flask_cors",
+          "import not_a_real_module_xyz",
+          "from app.models import User, Order",
+          "from app import views",
+          "try:",
+          "    import also_not_real_xyz",
+          "except ImportError:",
+          "    pass",
+        ].join("\n"),
+        "app/__init__.py": "",
+        "app/models.py": "class User:\n    pass\n",
+        "app/views.py": "from .models import User\nfrom ..outside import x\n",
+      },
+      ["Flask-Cors"],
+    );
+    expect(problems.map((p) => [p.file, p.line, p.message])).toEqual([
+      [
+        "app/views.py",
+        2,
+        "ImportError: attempted relative import beyond top-level package",
+      ],
+      [
+        "main.py",
+        3,
+        "ModuleNotFoundError: No module named 'not_a_real_module_xyz'",
+      ],
+      [
+        "main.py",
+        4,
+        "ImportError: cannot import name 'Order' from 'app.models'",
+      ],
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  getRunProfileCommand,
+  getRunProfileEnv,
+} from "@/ipc/utils/run_profiles";
+import type { RunProfile } from "@/ipc/ipc_types";
+
+vi.mock("@/db", () => ({ db: {} }));
+
+const profile: RunProfile = {
+  id: 1,
+  appId: 1,
+  name: "prod-preview",
+  installCommand: "pnpm install",
+  buildCommand: " pnpm build ",
+  startCommand: "pnpm preview --port $PORT",
+  workingDirectory: "frontend",
+  env: { NODE_ENV: "production", PORT: "1234" },
+  port: null,
+};
+
+describe("getRunProfileCommand", () => {
+  it("should chain install, build and start", () => {
+    expect(getRunProfileCommand(profile)).toBe(
+      "pnpm install && pnpm build && pnpm preview --port $PORT",
+    );
+  });
+
+  it("should skip empty steps", () => {
+    expect(
+      getRunProfileCommand({
+        ...profile,
+        installCommand: null,
+        buildCommand: "  ",
+      }),
+    ).toBe("pnpm preview --port $PORT");
+  });
+});
+
+describe("getRunProfileEnv", () => {
+  it("should apply the overrides on top of the base env", () => {
+    expect(
+      getRunProfileEnv(
+        { PATH: "/bin", NODE_ENV: "development" },
+        profile,
+        null,
+      ),
+    ).toEqual({ PATH: "/bin", NODE_ENV: "production", PORT: "1234" });
+  });
+
+  it("should set PORT to the port the profile was started on", () => {
+    expect(getRunProfileEnv({}, profile, 32100).PORT).toBe("32100");
+  });
+});
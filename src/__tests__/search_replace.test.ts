@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  applySearchReplaceHunks,
+  diffLines,
+  formatHunkFailures,
+  parseSearchReplaceHunks,
+} from "@/shared/search_replace";
+
+describe("parseSearchReplaceHunks", () => {
+  it("should parse multiple conflict-marker hunks", () => {
+    const hunks = parseSearchReplaceHunks(`
+<<<<<<< SEARCH
+const a = 1;
+=======
+const a = 2;
+>>>>>>> REPLACE
+
+<<<<<<< SEARCH
+const url = "http://localhost:3000";
+=======
+const url = "https://example.com";
+>>>>>>> REPLACE
+`);
+    expect(hunks).toEqual([
+      { search: "const a = 1;", replace: "const a = 2;" },
+      {
+        search: 'const url = "http://localhost:3000";',
+        replace: 'const url = "https://example.com";',
+      },
+    ]);
+  });
+
+  it("should fall back to search and replace tag pairs", () => {
+    const hunks = parseSearchReplaceHunks(
+      "<search>\nfoo()\n</search>\n<replace>\nbar()\n</replace>",
+    );
+    expect(hunks).toEqual([{ search: "foo()", replace: "bar()" }]);
+  });
+});
+
+describe("applySearchReplaceHunks", () => {
+  const file = [
+    "function greet() {",
+    "  const name = 'world';",
+    "  return `hello ${name}`;",
+    "}",
+  ].join("\n");
+
+  it("should apply hunks in order", () => {
+    const result = applySearchReplaceHunks(file, [
+      {
+        search: "  const name = 'world';",
+        replace: "  const name = 'dyad';",
+      },
+      { search: "function greet() {", replace: "export function greet() {" },
+    ]);
+    expect(result.failures).toEqual([]);
+    expect(result.content).toBe(
+      [
+        "export function greet() {",
+        "  const name = 'dyad';",
+        "  return `hello ${name}`;",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  it("should ignore whitespace differences and keep the file's indentation", () => {
+    const result = applySearchReplaceHunks(file, [
+      {
+        search: "const   name = 'world';\nreturn `hello ${name}`;",
+        replace: "const name = 'dyad';\nreturn `hi ${name}`;",
+      },
+    ]);
+    expect(result.failures).toEqual([]);
+    expect(result.content).toContain("  const name = 'dyad';\n  return `hi");
+  });
+
+  it("should preserve CRLF line endings", () => {
+    const result = applySearchReplaceHunks("a\r\nb\r\nc", [
+      { search: "b", replace: "B" },
+    ]);
+    expect(result.content).toBe("a\r\nB\r\nc");
+  });
+
+  it("should report ambiguous matches", () => {
+    const result = applySearchReplaceHunks("x = 1;\ny = 2;\nx = 1;", [
+      { search: "x = 1;", replace: "x = 3;" },
+    ]);
+    expect(result.failures).toMatchObject([
+      {
+        reason: "ambiguous",
+        candidates: [{ startLine: 1 }, { startLine: 3 }],
+      },
+    ]);
+    expect(formatHunkFailures("a.ts", 1, result.failures)).toContain(
+      "matches more than once (lines 1-1, lines 3-3)",
+    );
+  });
+
+  it("should suggest the closest region when the search text is missing", () => {
+    const result = applySearchReplaceHunks(file, [
+      { search: "const name = 'World!';", replace: "const name = 'x';" },
+    ]);
+    expect(result.content).toBe(file);
+    expect(result.failures).toMatchObject([
+      { reason: "not-found", candidates: [{ startLine: 2, endLine: 2 }] },
+    ]);
+    expect(formatHunkFailures("a.ts", 1, result.failures)).toContain(
+      "Closest match is lines 2-2",
+    );
+  });
+});
+
+describe("diffLines", () => {
+  it("should mark removed, added and unchanged lines", () => {
+    expect(diffLines("a\nb\nc", "a\nB\nc")).toEqual([
+      { type: "context", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "B" },
+      { type: "context", text: "c" },
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import {
+  deriveDownMigration,
+  diffSupabaseSchemas,
+  splitSqlStatements,
+} from "@/supabase_admin/supabase_migrations";
+
+describe("splitSqlStatements", () => {
+  it("should not split on semicolons in strings, comments or function bodies", () => {
+    const sql = `
+      -- a comment; with a semicolon
+      insert into notes (text) values ('a; b');
+      create function f() returns void as $$ begin perform 1; end; $$ language plpgsql;
+      /* block; comment */ select 1
+    `;
+    expect(splitSqlStatements(sql)).toEqual([
+      "insert into notes (text) values ('a; b')",
+      "create function f() returns void as $$ begin perform 1; end; $$ language plpgsql",
+      "select 1",
+    ]);
+  });
+});
+
+describe("deriveDownMigration", () => {
+  it("should undo statements in reverse order", () => {
+    const sql = `
+      CREATE TABLE public.todos (id uuid primary key, title text);
+      ALTER TABLE public.todos ADD COLUMN done boolean;
+      CREATE POLICY "Users can read profiles" ON public.profiles FOR SELECT USING (true);
+      CREATE INDEX profiles_name_idx ON public.profiles (name);
+      COMMENT ON TABLE public.todos IS 'Todos';
+    `;
+    expect(deriveDownMigration(sql)).toBe(
+      [
+        "DROP INDEX IF EXISTS profiles_name_idx;",
+        'DROP POLICY IF EXISTS "Users can read profiles" ON public.profiles;',
+        "ALTER TABLE public.todos DROP COLUMN IF EXISTS done;",
+        "DROP TABLE IF EXISTS public.todos;",
+      ].join("\n"),
+    );
+  });
+
+  it("should let dropping a new table undo its row level security, policies and indexes", () => {
+    const sql = `
+      CREATE TABLE public.todos (
+        id uuid primary key,
+        user_id uuid references auth.users not null,
+        title text
+      );
+      ALTER TABLE public.todos ENABLE ROW LEVEL SECURITY;
+      CREATE POLICY "Users can manage their todos" ON todos
+        FOR ALL USING (auth.uid() = user_id);
+      CREATE INDEX ON public.todos (user_id);
+    `;
+    expect(deriveDownMigration(sql)).toBe("DROP TABLE IF EXISTS public.todos;");
+  });
+
+  it("should undo added columns and named constraints", () => {
+    expect(
+      deriveDownMigration(
+        "alter table todos add column done boolean default false, add constraint todos_title_key unique (title)",
+      ),
+    ).toBe(
+      "ALTER TABLE todos DROP CONSTRAINT IF EXISTS todos_title_key, DROP COLUMN IF EXISTS done;",
+    );
+  });
+
+  it("should drop functions and triggers it created", () => {
+    const sql = `
+      create function public.handle_new_user() returns trigger as $$
+      begin insert into profiles (id) values (new.id); return new; end;
+      $$ language plpgsql;
+      create trigger on_auth_user_created after insert on auth.users
+        for each row execute procedure public.handle_new_user();
+    `;
+    expect(deriveDownMigration(sql)).toBe(
+      [
+        "DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;",
+        "DROP FUNCTION IF EXISTS public.handle_new_user();",
+      ].join("\n"),
+    );
+  });
+
+  it("should return null when any statement can't be undone", () => {
+    expect(
+      deriveDownMigration("create table a (id int); insert into a values (1);"),
+    ).toBeNull();
+    expect(
+      deriveDownMigration(
+        "create or replace function f() returns int as $$ select 1 $$ language sql",
+      ),
+    ).toBeNull();
+    expect(deriveDownMigration("drop table a")).toBeNull();
+  });
+
+  it("should not undo statements for objects that may have existed before", () => {
+    for (const sql of [
+      "create table if not exists a (id int)",
+      "alter table a add column if not exists b int",
+      "alter table a add if not exists b int",
+      "create index if not exists a_idx on a (id)",
+      "create unique index concurrently if not exists a_idx on a (id)",
+      "create sequence if not exists a_seq",
+      "alter table a enable row level security",
+    ]) {
+      expect(deriveDownMigration(sql)).toBeNull();
+    }
+  });
+});
+
+describe("diffSupabaseSchemas", () => {
+  const table = (name: string, columns: [string, string][]) => ({
+    result_type: "tables",
+    data: JSON.stringify({
+      name,
+      description: null,
+      columns: columns.map(([column_name, data_type]) => ({
+        column_name,
+        data_type,
+        is_nullable: "YES",
+        column_default: null,
+      })),
+    }),
+  });
+
+  it("should list added, removed and changed objects", () => {
+    const from = [
+      table("todos", [
+        ["id", "uuid"],
+        ["title", "text"],
+      ]),
+      table("old", [["id", "uuid"]]),
+    ];
+    const to = [
+      table("todos", [
+        ["id", "uuid"],
+        ["title", "character varying"],
+        ["done", "boolean"],
+      ]),
+      table("tags", [["id", "uuid"]]),
+      {
+        result_type: "policies",
+        data: JSON.stringify({
+          name: "read",
+          table: "todos",
+          command: "SELECT",
+          permissive: true,
+          definition: "true",
+        }),
+      },
+    ];
+
+    const changes = diffSupabaseSchemas(from, to).map(
+      ({ kind, name, change }) => `${change} ${kind} ${name}`,
+    );
+    expect(changes.sort()).toEqual(
+      [
+        "added column todos.done",
+        "added policy read on todos",
+        "added table tags",
+        "changed column todos.title",
+        "removed table old",
+      ].sort(),
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  getTailwindClassGroup,
+  groupTailwindClasses,
+  updateTailwindClassGroup,
+} from "../lib/tailwind_classes";
+
+describe("getTailwindClassGroup", () => {
+  it.each([
+    ["p-4", "spacing"],
+    ["-mt-2", "spacing"],
+    ["md:gap-x-6", "spacing"],
+    ["bg-blue-500", "color"],
+    ["hover:text-primary-foreground", "color"],
+    ["border-red-200/50", "color"],
+    ["border-t-red-500", "color"],
+    ["ring-offset-blue-500", "color"],
+    ["bg-[#ff0000]", "color"],
+    ["text-lg", "typography"],
+    ["font-semibold", "typography"],
+    ["uppercase", "typography"],
+    ["text-center", "typography"],
+    ["flex", "other"],
+    ["bg-cover", "other"],
+    ["border-2", "other"],
+  ])("puts %s in %s", (className, group) => {
+    expect(getTailwindClassGroup(className)).toBe(group);
+  });
+});
+
+describe("groupTailwindClasses", () => {
+  it("groups classes in source order", () => {
+    expect(
+      groupTailwindClasses("flex p-4 text-sm bg-muted  mx-auto font-bold"),
+    ).toEqual({
+      spacing: "p-4 mx-auto",
+      color: "bg-muted",
+      typography: "text-sm font-bold",
+      other: "flex",
+    });
+  });
+});
+
+describe("updateTailwindClassGroup", () => {
+  it("keeps untouched classes in place and appends new ones", () => {
+    expect(
+      updateTailwindClassGroup(
+        "flex p-4 text-sm mx-auto",
+        "spacing",
+        "mx-auto p-8",
+      ),
+    ).toBe("flex text-sm mx-auto p-8");
+  });
+
+  it("removes a group when it's cleared", () => {
+    expect(updateTailwindClassGroup("p-4 bg-white text-sm", "color", "")).toBe(
+      "p-4 text-sm",
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  computeCostUsd,
+  getCancelledResponseUsage,
+  groupUsage,
+  sumUsage,
+} from "@/ipc/utils/token_usage";
+
+vi.mock("electron", () => ({ app: { getPath: () => "/tmp" } }));
+vi.mock("@/db", () => ({ db: {} }));
+vi.mock("@/main/settings", () => ({ readSettings: () => ({}) }));
+
+describe("sumUsage", () => {
+  it("should add up every model call and skip missing usage", () => {
+    expect(
+      sumUsage([
+        {
+          inputTokens: 1_000,
+          outputTokens: 200,
+          totalTokens: 1_200,
+          reasoningTokens: 50,
+        },
+        undefined,
+        {
+          inputTokens: 3_000,
+          outputTokens: undefined,
+          totalTokens: 3_000,
+          cachedInputTokens: 2_000,
+        },
+      ]),
+    ).toEqual({
+      inputTokens: 4_000,
+      outputTokens: 200,
+      reasoningTokens: 50,
+      cachedInputTokens: 2_000,
+    });
+  });
+});
+
+describe("getCancelledResponseUsage", () => {
+  it("should use the usage the provider reported", async () => {
+    const usage = { inputTokens: 500, outputTokens: 20, totalTokens: 520 };
+    expect(
+      await getCancelledResponseUsage({
+        usagePromises: [Promise.resolve(usage)],
+        estimatedInputTokens: 1_000,
+        streamedText: "Hello",
+      }),
+    ).toEqual([usage]);
+  });
+
+  it("should estimate the usage when none is reported in time", async () => {
+    expect(
+      await getCancelledResponseUsage({
+        usagePromises: [new Promise(() => {}), Promise.resolve(undefined)],
+        estimatedInputTokens: 1_000,
+        streamedText: "a".repeat(40),
+        timeoutMs: 10,
+      }),
+    ).toEqual([{ inputTokens: 1_000, outputTokens: 10, totalTokens: 1_010 }]);
+  });
+});
+
+describe("computeCostUsd", () => {
+  it("should price input and output tokens per million", () => {
+    expect(
+      computeCostUsd(
+        { inputCostPerMillionTokens: 3, outputCostPerMillionTokens: 15 },
+        { inputTokens: 100_000, outputTokens: 10_000 },
+      ),
+    ).toBeCloseTo(0.45);
+  });
+
+  it("should return null when the model has no pricing", () => {
+    expect(
+      computeCostUsd(undefined, { inputTokens: 10, outputTokens: 10 }),
+    ).toBeNull();
+    expect(
+      computeCostUsd(
+        { inputCostPerMillionTokens: 3 },
+        { inputTokens: 10, outputTokens: 10 },
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("groupUsage", () => {
+  it("should total rows per key and treat unpriced rows as free", () => {
+    const row = {
+      inputTokens: 10,
+      outputTokens: 5,
+      reasoningTokens: 0,
+      cachedInputTokens: 0,
+    };
+    expect(
+      groupUsage(
+        [
+          { ...row, provider: "openai", costUsd: 0.5 },
+          { ...row, provider: "ollama", costUsd: null },
+          { ...row, provider: "openai", costUsd: 0.25 },
+        ],
+        (r) => ({ key: r.provider, label: r.provider }),
+      ),
+    ).toEqual([
+      {
+        key: "openai",
+        label: "openai",
+        ...row,
+        inputTokens: 20,
+        outputTokens: 10,
+        costUsd: 0.75,
+      },
+      { key: "ollama", label: "ollama", ...row, costUsd: 0 },
+    ]);
+  });
+});
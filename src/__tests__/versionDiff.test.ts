@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { revertLineChange } from "@/lib/versionDiff";
+
+const ORIGINAL = "one\ntwo\nthree\nfour\n";
+
+describe("revertLineChange", () => {
+  it("should restore changed lines and keep other hunks", () => {
+    const modified = "ONE\ntwo\nTHREE\nfour\n";
+    expect(
+      revertLineChange(ORIGINAL, modified, {
+        originalStartLineNumber: 3,
+        originalEndLineNumber: 3,
+        modifiedStartLineNumber: 3,
+        modifiedEndLineNumber: 3,
+      }),
+    ).toBe("ONE\ntwo\nthree\nfour\n");
+  });
+
+  it("should replace a hunk with a different number of lines", () => {
+    const modified = "one\n2a\n2b\n2c\nfour\n";
+    expect(
+      revertLineChange(ORIGINAL, modified, {
+        originalStartLineNumber: 2,
+        originalEndLineNumber: 3,
+        modifiedStartLineNumber: 2,
+        modifiedEndLineNumber: 4,
+      }),
+    ).toBe(ORIGINAL);
+  });
+
+  it("should remove inserted lines", () => {
+    const modified = "one\ntwo\nnew\nthree\nfour\n";
+    expect(
+      revertLineChange(ORIGINAL, modified, {
+        originalStartLineNumber: 2,
+        originalEndLineNumber: 0,
+        modifiedStartLineNumber: 3,
+        modifiedEndLineNumber: 3,
+      }),
+    ).toBe(ORIGINAL);
+  });
+
+  it("should put back deleted lines", () => {
+    const modified = "three\nfour\n";
+    expect(
+      revertLineChange(ORIGINAL, modified, {
+        originalStartLineNumber: 1,
+        originalEndLineNumber: 2,
+        modifiedStartLineNumber: 0,
+        modifiedEndLineNumber: 0,
+      }),
+    ).toBe(ORIGINAL);
+  });
+});
@@ -8,9 +8,12 @@ export const appsListAtom = atom<App[]>([]);
 export const appBasePathAtom = atom<string>("");
 export const versionsListAtom = atom<Version[]>([]);
 export const previewModeAtom = atom<
-  "preview" | "code" | "problems" | "configure" | "publish"
+  "preview" | "code" | "problems" | "configure" | "publish" | "database"
 >("preview");
 export const selectedVersionIdAtom = atom<string | null>(null);
+// The Console keeps only the latest output; the full logs of a run are in
+// the app log store of the main process
+export const MAX_CONSOLE_OUTPUT_ENTRIES = 1000;
 export const appOutputAtom = atom<AppOutput[]>([]);
 export const frontendTerminalOutputAtom = atom<AppOutput[]>([]);
 export const backendTerminalOutputAtom = atom<AppOutput[]>([]);
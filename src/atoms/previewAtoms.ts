@@ -1,6 +1,25 @@
-import { ComponentSelection } from "@/ipc/ipc_types";
+import { ComponentSelection, PtySession } from "@/ipc/ipc_types";
 import { atom } from "jotai";
+import {
+  DEFAULT_PREVIEW_VIEWPORT_SETTINGS,
+  type PreviewViewportSettings,
+} from "@/lib/device_presets";
 
 export const selectedComponentPreviewAtom = atom<ComponentSelection | null>(
   null,
 );
+
+// Interactive terminal whose output is attached to the next chat message
+export const attachedTerminalSessionAtom = atom<PtySession | null>(null);
+
+// Number of recent error lines from the app logs attached to the next chat
+// message
+export const attachedAppLogErrorCountAtom = atom<number | null>(null);
+
+// Device frames and multi-viewport mode of the preview
+export const previewViewportSettingsAtom = atom<PreviewViewportSettings>(
+  DEFAULT_PREVIEW_VIEWPORT_SETTINGS,
+);
+
+// Screenshots of the preview waiting to be attached to the chat input
+export const pendingPreviewScreenshotsAtom = atom<File[]>([]);
@@ -0,0 +1,42 @@
+import { useSettings } from "@/hooks/useSettings";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { ProblemSeverity } from "@/ipc/ipc_types";
+import { DEFAULT_AUTO_FIX_LINT_SEVERITIES } from "@/shared/problem_prompt";
+
+const SEVERITY_OPTIONS: { severity: ProblemSeverity; label: string }[] = [
+  { severity: "error", label: "Lint errors" },
+  { severity: "warning", label: "Lint warnings" },
+];
+
+export function AutoFixLintSeverities() {
+  const { settings, updateSettings } = useSettings();
+  const severities =
+    settings?.autoFixLintSeverities ?? DEFAULT_AUTO_FIX_LINT_SEVERITIES;
+
+  const toggleSeverity = (severity: ProblemSeverity, checked: boolean) => {
+    updateSettings({
+      autoFixLintSeverities: checked
+        ? [...severities.filter((s) => s !== severity), severity]
+        : severities.filter((s) => s !== severity),
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-4">
+      {SEVERITY_OPTIONS.map(({ severity, label }) => (
+        <div key={severity} className="flex items-center space-x-2">
+          <Checkbox
+            id={`auto-fix-lint-${severity}`}
+            checked={severities.includes(severity)}
+            disabled={!settings?.enableAutoFixProblems}
+            onCheckedChange={(checked) =>
+              toggleSeverity(severity, checked === true)
+            }
+          />
+          <Label htmlFor={`auto-fix-lint-${severity}`}>{label}</Label>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import React from "react";
+import { useSettings } from "@/hooks/useSettings";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AUTONOMOUS_ITERATION_BUDGET } from "@/constants/settings_constants";
+
+interface OptionInfo {
+  value: string;
+  label: string;
+  description: string;
+}
+
+const defaultValue = "default";
+
+const options: OptionInfo[] = [
+  {
+    value: "1",
+    label: "Minimal (1)",
+    description:
+      "A single fix attempt per phase before asking you to step in. Uses the fewest tokens.",
+  },
+  {
+    value: defaultValue,
+    label: `Default (${AUTONOMOUS_ITERATION_BUDGET})`,
+    description: "A few fix attempts per phase before asking you to step in.",
+  },
+  {
+    value: "5",
+    label: "Extended (5)",
+    description: "More fix attempts per phase for larger apps.",
+  },
+  {
+    value: "10",
+    label: "High (10)",
+    description:
+      "Many fix attempts per phase (not recommended due to cost and speed).",
+  },
+];
+
+export const AutonomousIterationBudgetSelector: React.FC = () => {
+  const { settings, updateSettings } = useSettings();
+
+  const handleValueChange = (value: string) => {
+    if (value === "default") {
+      updateSettings({ autonomousIterationBudget: undefined });
+    } else {
+      const numValue = parseInt(value, 10);
+      updateSettings({ autonomousIterationBudget: numValue });
+    }
+  };
+
+  const currentValue =
+    settings?.autonomousIterationBudget?.toString() || defaultValue;
+
+  const currentOption =
+    options.find((opt) => opt.value === currentValue) || options[1];
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-4">
+        <label
+          htmlFor="autonomous-iteration-budget"
+          className="text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          Autonomous development fix attempts per phase
+        </label>
+        <Select value={currentValue} onValueChange={handleValueChange}>
+          <SelectTrigger className="w-[180px]" id="autonomous-iteration-budget">
+            <SelectValue placeholder="Select attempts" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="text-sm text-gray-500 dark:text-gray-400">
+        {currentOption.description}
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import React from "react";
+import { Trash2 } from "lucide-react";
 import { useSettings } from "@/hooks/useSettings";
 import type { BackendFramework } from "@/shared/backendFrameworks";
 import { Button } from "./ui/button";
@@ -9,6 +10,8 @@ interface BackendFrameworkCardProps {
   isSelected: boolean;
   onSelect: (frameworkId: string) => void;
   onCreateApp: () => void;
+  // Only offered for user-defined frameworks
+  onRemove?: (frameworkId: string) => void;
 }
 
 export const BackendFrameworkCard: React.FC<BackendFrameworkCardProps> = ({
@@ -16,6 +19,7 @@ export const BackendFrameworkCard: React.FC<BackendFrameworkCardProps> = ({
   isSelected,
   onSelect,
   onCreateApp,
+  onRemove,
 }) => {
   const { settings } = useSettings();
 
@@ -38,13 +42,28 @@ export const BackendFrameworkCard: React.FC<BackendFrameworkCardProps> = ({
       `}
     >
       <div className="relative">
-        <img
-          src={framework.imageUrl}
-          alt={framework.title}
-          className={`w-full h-52 object-cover transition-opacity duration-300 group-hover:opacity-80 ${
-            isSelected ? "opacity-75" : ""
-          }`}
-        />
+        {framework.imageUrl ? (
+          <img
+            src={framework.imageUrl}
+            alt={framework.title}
+            className={`w-full h-52 object-cover transition-opacity duration-300 group-hover:opacity-80 ${
+              isSelected ? "opacity-75" : ""
+            }`}
+          />
+        ) : (
+          <div
+            className={`w-full h-52 flex items-center justify-center bg-gradient-to-br from-gray-800 to-gray-600 font-mono text-2xl text-white transition-opacity duration-300 group-hover:opacity-80 ${
+              isSelected ? "opacity-75" : ""
+            }`}
+          >
+            {framework.title}
+          </div>
+        )}
+        {framework.isCustom && (
+          <span className="absolute top-3 left-3 bg-gray-900/80 text-white text-xs font-bold px-3 py-1.5 rounded-md shadow-lg">
+            Custom
+          </span>
+        )}
         {isSelected && (
           <span className="absolute top-3 right-3 bg-blue-600 text-white text-xs font-bold px-3 py-1.5 rounded-md shadow-lg">
             Selected
@@ -76,19 +95,35 @@ export const BackendFrameworkCard: React.FC<BackendFrameworkCardProps> = ({
           {framework.description}
         </p>
 
-        <Button
-          onClick={(e) => {
-            e.stopPropagation();
-            onCreateApp();
-          }}
-          size="sm"
-          className={cn(
-            "w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold mt-2",
-            settings?.selectedBackendFramework !== framework.id && "invisible",
+        <div className="flex gap-2 mt-2">
+          <Button
+            onClick={(e) => {
+              e.stopPropagation();
+              onCreateApp();
+            }}
+            size="sm"
+            className={cn(
+              "flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold",
+              settings?.selectedBackendFramework !== framework.id &&
+                "invisible",
+            )}
+          >
+            Create App
+          </Button>
+          {framework.isCustom && onRemove && (
+            <Button
+              variant="outline"
+              size="sm"
+              title="Remove framework"
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(framework.id);
+              }}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
           )}
-        >
-          Create App
-        </Button>
+        </div>
       </div>
     </div>
   );
@@ -2,7 +2,14 @@ import { useEffect, useState } from "react";
 import { useNavigate, useRouterState } from "@tanstack/react-router";
 
 import { formatDistanceToNow } from "date-fns";
-import { PlusCircle, MoreVertical, Trash2, Edit3, Search } from "lucide-react";
+import {
+  PlusCircle,
+  MoreVertical,
+  Trash2,
+  Edit3,
+  Search,
+  GitBranch,
+} from "lucide-react";
 import { useAtom } from "jotai";
 import { selectedChatIdAtom } from "@/atoms/chatAtoms";
 import { selectedAppIdAtom } from "@/atoms/appAtoms";
@@ -24,6 +31,8 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useChats } from "@/hooks/useChats";
+import { useChatForks } from "@/hooks/useChatForks";
+import { orderChatsAsTree } from "@/lib/chatTree";
 import { RenameChatDialog } from "@/components/chat/RenameChatDialog";
 import { DeleteChatDialog } from "@/components/chat/DeleteChatDialog";
 
@@ -36,6 +45,7 @@ export function ChatList({ show }: { show?: boolean }) {
   const [, setIsDropdownOpen] = useAtom(dropdownOpenAtom);
 
   const { chats, loading, refreshChats } = useChats(selectedAppId);
+  const { checkoutChatBranch } = useChatForks();
   const routerState = useRouterState();
   const isChatRoute = routerState.location.pathname === "/chat";
 
@@ -81,6 +91,8 @@ export function ChatList({ show }: { show?: boolean }) {
       to: "/chat",
       search: { id: chatId },
     });
+    // Forks live on their own branch, so switching chats switches branches
+    checkoutChatBranch({ appId, chatId }).catch(() => {});
   };
 
   const handleNewChat = async () => {
@@ -193,9 +205,16 @@ export function ChatList({ show }: { show?: boolean }) {
               </div>
             ) : (
               <SidebarMenu className="space-y-1">
-                {chats.map((chat) => (
-                  <SidebarMenuItem key={chat.id} className="mb-1">
-                    <div className="flex w-[175px] items-center">
+                {orderChatsAsTree(chats).map(({ chat, depth }) => (
+                  <SidebarMenuItem
+                    key={chat.id}
+                    className="mb-1"
+                    style={{ paddingLeft: depth * 12 }}
+                  >
+                    <div
+                      className="flex items-center"
+                      style={{ width: 175 - depth * 12 }}
+                    >
                       <Button
                         variant="ghost"
                         onClick={() =>
@@ -211,8 +230,16 @@ export function ChatList({ show }: { show?: boolean }) {
                         }`}
                       >
                         <div className="flex flex-col w-full">
-                          <span className="truncate">
-                            {chat.title || "New Chat"}
+                          <span
+                            className="flex items-center gap-1 truncate"
+                            title={chat.branchName ?? undefined}
+                          >
+                            {chat.parentChatId && (
+                              <GitBranch className="h-3 w-3 shrink-0" />
+                            )}
+                            <span className="truncate">
+                              {chat.title || "New Chat"}
+                            </span>
                           </span>
                           <span className="text-xs text-gray-500">
                             {formatDistanceToNow(new Date(chat.createdAt), {
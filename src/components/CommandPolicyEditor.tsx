@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { Textarea } from "@/components/ui/textarea";
+import type { CommandPolicy } from "@/lib/schemas";
+
+function toText(patterns: string[] | undefined): string {
+  return patterns?.join("\n") ?? "";
+}
+
+function toPatterns(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Allowlist and denylist for AI-issued terminal commands, one pattern per
+ * line. Saves when a list loses focus; saving two empty lists clears the
+ * policy.
+ */
+export function CommandPolicyEditor({
+  id,
+  policy,
+  onSave,
+}: {
+  id: string;
+  policy: CommandPolicy | null | undefined;
+  onSave: (policy: CommandPolicy | null) => void;
+}) {
+  const [allowlistText, setAllowlistText] = useState("");
+  const [denylistText, setDenylistText] = useState("");
+
+  useEffect(() => {
+    setAllowlistText(toText(policy?.allowlist));
+    setDenylistText(toText(policy?.denylist));
+  }, [policy]);
+
+  const handleBlur = () => {
+    const next = {
+      allowlist: toPatterns(allowlistText),
+      denylist: toPatterns(denylistText),
+    };
+    if (
+      toText(next.allowlist) === toText(policy?.allowlist) &&
+      toText(next.denylist) === toText(policy?.denylist)
+    ) {
+      return;
+    }
+    onSave(
+      next.allowlist.length === 0 && next.denylist.length === 0 ? null : next,
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-1">
+        <label
+          htmlFor={`${id}-allowlist`}
+          className="text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          Always allow
+        </label>
+        <Textarea
+          id={`${id}-allowlist`}
+          value={allowlistText}
+          onChange={(e) => setAllowlistText(e.target.value)}
+          onBlur={handleBlur}
+          placeholder={"npm install *\nnpm run build"}
+          className="font-mono text-xs min-h-24"
+        />
+      </div>
+      <div className="space-y-1">
+        <label
+          htmlFor={`${id}-denylist`}
+          className="text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          Never allow
+        </label>
+        <Textarea
+          id={`${id}-denylist`}
+          value={denylistText}
+          onChange={(e) => setDenylistText(e.target.value)}
+          onBlur={handleBlur}
+          placeholder={"rm -rf *\nsudo *"}
+          className="font-mono text-xs min-h-24"
+        />
+      </div>
+    </div>
+  );
+}
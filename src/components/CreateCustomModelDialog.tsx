@@ -32,6 +32,8 @@ export function CreateCustomModelDialog({
   const [description, setDescription] = useState("");
   const [maxOutputTokens, setMaxOutputTokens] = useState<string>("");
   const [contextWindow, setContextWindow] = useState<string>("");
+  const [inputCost, setInputCost] = useState<string>("");
+  const [outputCost, setOutputCost] = useState<string>("");
 
   const ipcClient = IpcClient.getInstance();
 
@@ -46,6 +48,12 @@ export function CreateCustomModelDialog({
           ? parseInt(maxOutputTokens, 10)
           : undefined,
         contextWindow: contextWindow ? parseInt(contextWindow, 10) : undefined,
+        inputCostPerMillionTokens: inputCost
+          ? parseFloat(inputCost)
+          : undefined,
+        outputCostPerMillionTokens: outputCost
+          ? parseFloat(outputCost)
+          : undefined,
       };
 
       if (!params.apiName) throw new Error("Model API name is required");
@@ -55,6 +63,10 @@ export function CreateCustomModelDialog({
         throw new Error("Max Output Tokens must be a valid number");
       if (contextWindow && isNaN(params.contextWindow ?? NaN))
         throw new Error("Context Window must be a valid number");
+      if (inputCost && isNaN(params.inputCostPerMillionTokens ?? NaN))
+        throw new Error("Input cost must be a valid number");
+      if (outputCost && isNaN(params.outputCostPerMillionTokens ?? NaN))
+        throw new Error("Output cost must be a valid number");
 
       await ipcClient.createCustomLanguageModel(params);
     },
@@ -75,6 +87,8 @@ export function CreateCustomModelDialog({
     setDescription("");
     setMaxOutputTokens("");
     setContextWindow("");
+    setInputCost("");
+    setOutputCost("");
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -179,6 +193,40 @@ export function CreateCustomModelDialog({
                 disabled={mutation.isPending}
               />
             </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="input-cost" className="text-right">
+                Input $/1M tokens
+              </Label>
+              <Input
+                id="input-cost"
+                type="number"
+                step="any"
+                value={inputCost}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setInputCost(e.target.value)
+                }
+                className="col-span-3"
+                placeholder="Optional: e.g., 3"
+                disabled={mutation.isPending}
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="output-cost" className="text-right">
+                Output $/1M tokens
+              </Label>
+              <Input
+                id="output-cost"
+                type="number"
+                step="any"
+                value={outputCost}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setOutputCost(e.target.value)
+                }
+                className="col-span-3"
+                placeholder="Optional: e.g., 15"
+                disabled={mutation.isPending}
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button
@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  Play,
+  Square,
+  Terminal,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useDevelopmentRuns } from "@/hooks/useDevelopmentRuns";
+import type { DevelopmentRun } from "@/ipc/ipc_types";
+
+function formatPhase(phase: string): string {
+  return phase
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+function getRunStatus(run: DevelopmentRun): {
+  label: string;
+  className: string;
+} {
+  if (run.humanInterventionRequired) {
+    return {
+      label: "Needs attention",
+      className:
+        "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-200",
+    };
+  }
+  if (run.isActive) {
+    return {
+      label: "Running",
+      className:
+        "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200",
+    };
+  }
+  if (run.lastCompletedPhase === "completion") {
+    return {
+      label: "Completed",
+      className:
+        "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200",
+    };
+  }
+  return {
+    label: "Stopped",
+    className: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+  };
+}
+
+function DevelopmentRunItem({
+  run,
+  isLatest,
+  onContinue,
+  onStop,
+  isContinuing,
+  isStopping,
+}: {
+  run: DevelopmentRun;
+  isLatest: boolean;
+  onContinue: () => void;
+  onStop: () => void;
+  isContinuing: boolean;
+  isStopping: boolean;
+}) {
+  const [isExpanded, setIsExpanded] = useState(
+    isLatest && run.humanInterventionRequired,
+  );
+  const status = getRunStatus(run);
+
+  return (
+    <div
+      className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg"
+      data-testid={`development-run-${run.id}`}
+    >
+      <div className="flex justify-between items-start gap-4">
+        <button
+          className="flex-grow text-left flex items-start gap-2"
+          onClick={() => setIsExpanded(!isExpanded)}
+        >
+          {isExpanded ? (
+            <ChevronDown className="h-4 w-4 mt-1 flex-shrink-0" />
+          ) : (
+            <ChevronRight className="h-4 w-4 mt-1 flex-shrink-0" />
+          )}
+          <div>
+            <div className="flex items-center gap-2">
+              <h4 className="font-semibold text-gray-800 dark:text-gray-200">
+                {formatPhase(run.phase)}
+              </h4>
+              <span
+                className={`text-xs px-2 py-0.5 rounded ${status.className}`}
+              >
+                {status.label}
+              </span>
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              Started{" "}
+              {formatDistanceToNow(new Date(run.createdAt), {
+                addSuffix: true,
+              })}{" "}
+              · updated{" "}
+              {formatDistanceToNow(new Date(run.updatedAt), {
+                addSuffix: true,
+              })}{" "}
+              · {run.progress}%
+            </p>
+          </div>
+        </button>
+        {isLatest && run.humanInterventionRequired && (
+          <Button
+            size="sm"
+            onClick={onContinue}
+            disabled={isContinuing}
+            data-testid="continue-development"
+          >
+            {isContinuing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Play className="mr-2 h-4 w-4" />
+            )}
+            Continue
+          </Button>
+        )}
+        {run.isActive && !run.humanInterventionRequired && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onStop}
+            disabled={isStopping}
+            data-testid="stop-development"
+          >
+            {isStopping ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Square className="mr-2 h-4 w-4" />
+            )}
+            Stop
+          </Button>
+        )}
+      </div>
+
+      <div className="mt-3 h-1.5 w-full rounded bg-gray-100 dark:bg-gray-800">
+        <div
+          className="h-1.5 rounded bg-blue-500"
+          style={{ width: `${run.progress}%` }}
+        />
+      </div>
+
+      {run.humanInterventionRequired && run.humanInterventionMessage && (
+        <Alert className="mt-3">
+          <Terminal className="h-4 w-4" />
+          <AlertTitle>Human intervention required</AlertTitle>
+          <AlertDescription className="text-xs">
+            {run.humanInterventionMessage}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isExpanded && (
+        <ol className="mt-3 space-y-2 border-l border-gray-200 dark:border-gray-700 pl-4">
+          {run.phaseHistory.map((entry, index) => (
+            <li key={`${entry.phase}-${index}`} className="text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-gray-800 dark:text-gray-200">
+                  {formatPhase(entry.phase)}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(entry.startedAt).toLocaleString()}
+                  {entry.completedAt &&
+                    ` → ${new Date(entry.completedAt).toLocaleTimeString()}`}
+                </span>
+              </div>
+              {entry.message && (
+                <p className="text-xs text-amber-700 dark:text-amber-300 mt-1">
+                  {entry.message}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+export function DevelopmentRuns({ appId }: { appId: number | null }) {
+  const {
+    runs,
+    isLoading,
+    error,
+    continueDevelopment,
+    isContinuing,
+    stopDevelopment,
+    isStopping,
+  } = useDevelopmentRuns(appId);
+
+  if (!appId) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-semibold mb-3 text-gray-900 dark:text-gray-100">
+        Autonomous Development
+      </h3>
+      {isLoading ? (
+        <Loader2 className="h-6 w-6 animate-spin" />
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertTitle>Error loading development runs</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      ) : runs.length === 0 ? (
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-500 dark:text-gray-400">
+          No autonomous development runs for this app yet
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {runs.map((run, index) => (
+            <DevelopmentRunItem
+              key={run.id}
+              run={run}
+              isLatest={index === 0}
+              onContinue={() => continueDevelopment()}
+              onStop={() => stopDevelopment()}
+              isContinuing={isContinuing}
+              isStopping={isStopping}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -20,6 +20,8 @@ interface Model {
   description?: string;
   maxOutputTokens?: number;
   contextWindow?: number;
+  inputCostPerMillionTokens?: number;
+  outputCostPerMillionTokens?: number;
   type: "cloud" | "custom";
   tag?: string;
 }
@@ -44,6 +46,8 @@ export function EditCustomModelDialog({
   const [description, setDescription] = useState("");
   const [maxOutputTokens, setMaxOutputTokens] = useState<string>("");
   const [contextWindow, setContextWindow] = useState<string>("");
+  const [inputCost, setInputCost] = useState<string>("");
+  const [outputCost, setOutputCost] = useState<string>("");
 
   const ipcClient = IpcClient.getInstance();
 
@@ -54,6 +58,8 @@ export function EditCustomModelDialog({
       setDescription(model.description || "");
       setMaxOutputTokens(model.maxOutputTokens?.toString() || "");
       setContextWindow(model.contextWindow?.toString() || "");
+      setInputCost(model.inputCostPerMillionTokens?.toString() || "");
+      setOutputCost(model.outputCostPerMillionTokens?.toString() || "");
     }
   }, [model]);
 
@@ -70,6 +76,12 @@ export function EditCustomModelDialog({
           ? parseInt(maxOutputTokens, 10)
           : undefined,
         contextWindow: contextWindow ? parseInt(contextWindow, 10) : undefined,
+        inputCostPerMillionTokens: inputCost
+          ? parseFloat(inputCost)
+          : undefined,
+        outputCostPerMillionTokens: outputCost
+          ? parseFloat(outputCost)
+          : undefined,
       };
 
       if (!newParams.apiName) throw new Error("Model API name is required");
@@ -79,6 +91,10 @@ export function EditCustomModelDialog({
         throw new Error("Max Output Tokens must be a valid number");
       if (contextWindow && isNaN(newParams.contextWindow ?? NaN))
         throw new Error("Context Window must be a valid number");
+      if (inputCost && isNaN(newParams.inputCostPerMillionTokens ?? NaN))
+        throw new Error("Input cost must be a valid number");
+      if (outputCost && isNaN(newParams.outputCostPerMillionTokens ?? NaN))
+        throw new Error("Output cost must be a valid number");
 
       // First delete the old model
       await ipcClient.deleteCustomModel({
@@ -202,6 +218,40 @@ export function EditCustomModelDialog({
                 disabled={mutation.isPending}
               />
             </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="edit-input-cost" className="text-right">
+                Input $/1M tokens
+              </Label>
+              <Input
+                id="edit-input-cost"
+                type="number"
+                step="any"
+                value={inputCost}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setInputCost(e.target.value)
+                }
+                className="col-span-3"
+                placeholder="Optional: e.g., 3"
+                disabled={mutation.isPending}
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="edit-output-cost" className="text-right">
+                Output $/1M tokens
+              </Label>
+              <Input
+                id="edit-output-cost"
+                type="number"
+                step="any"
+                value={outputCost}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setOutputCost(e.target.value)
+                }
+                className="col-span-3"
+                placeholder="Optional: e.g., 15"
+                disabled={mutation.isPending}
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button
@@ -0,0 +1,119 @@
+import { Database, Loader2, Play, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useLoadApp } from "@/hooks/useLoadApp";
+import { useLocalDb } from "@/hooks/useLocalDb";
+import { showSuccess } from "@/lib/toast";
+import type { LocalDbProvider } from "@/ipc/ipc_types";
+
+const PROVIDER_NAMES: Record<LocalDbProvider, string> = {
+  sqlite: "SQLite",
+  postgres: "PostgreSQL",
+};
+
+/**
+ * A database on this machine, for apps that don't use Supabase or Neon
+ */
+export function LocalDbConnector({ appId }: { appId: number }) {
+  const { app } = useLoadApp(appId);
+  const {
+    status,
+    isLoading,
+    provisionLocalDb,
+    isProvisioning,
+    startLocalDb,
+    stopLocalDb,
+    isChangingState,
+  } = useLocalDb(appId);
+
+  if (app?.supabaseProjectId || app?.neonProjectId) {
+    return null;
+  }
+
+  const handleProvision = async (provider: LocalDbProvider) => {
+    await provisionLocalDb(provider);
+    showSuccess(
+      `Created a local ${PROVIDER_NAMES[provider]} database. POSTGRES_URL in .env.local points to it.`,
+    );
+  };
+
+  return (
+    <Card className="mt-1" data-testid="local-db-connector">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="h-4 w-4" />
+          Local Database
+        </CardTitle>
+        <CardDescription>
+          {status?.provider
+            ? `This app uses a ${PROVIDER_NAMES[status.provider]} database on this machine.`
+            : "Build full-stack apps without a cloud account, using a database on this machine."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : !status?.provider ? (
+          <div className="flex gap-2">
+            {(["sqlite", "postgres"] as const).map((provider) => (
+              <Button
+                key={provider}
+                variant="outline"
+                onClick={() => handleProvision(provider)}
+                disabled={isProvisioning}
+                data-testid={`provision-local-db-${provider}`}
+              >
+                {isProvisioning && <Loader2 className="h-4 w-4 animate-spin" />}
+                Use {PROVIDER_NAMES[provider]}
+              </Button>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span
+                className={`h-2 w-2 rounded-full ${status.isRunning ? "bg-green-500" : "bg-gray-400"}`}
+              />
+              {status.isRunning ? "Running" : "Stopped"}
+              {status.provider === "postgres" && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="ml-auto h-7"
+                  onClick={() =>
+                    status.isRunning ? stopLocalDb() : startLocalDb()
+                  }
+                  disabled={isChangingState}
+                >
+                  {status.isRunning ? (
+                    <Square className="h-3 w-3" />
+                  ) : (
+                    <Play className="h-3 w-3" />
+                  )}
+                  {status.isRunning ? "Stop" : "Start"}
+                </Button>
+              )}
+            </div>
+            {status.connectionString && (
+              <div className="break-all font-mono text-xs text-gray-500 dark:text-gray-400">
+                {status.connectionString}
+              </div>
+            )}
+            {status.dataPath && (
+              <div className="break-all text-xs text-gray-500 dark:text-gray-400">
+                Data: {status.dataPath}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
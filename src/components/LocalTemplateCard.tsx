@@ -0,0 +1,151 @@
+import React from "react";
+import { Download, Trash2 } from "lucide-react";
+import type { Template } from "@/shared/templates";
+import { Button } from "./ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { cn } from "@/lib/utils";
+
+interface LocalTemplateCardProps {
+  template: Template;
+  // The selected template id, `local:<slug>@<version>` for an older version
+  selectedTemplateId?: string;
+  onSelect: (templateId: string) => void;
+  onCreateApp: () => void;
+  onExport: (templateId: string) => void;
+  onDelete: (templateId: string) => void;
+}
+
+export const LocalTemplateCard: React.FC<LocalTemplateCardProps> = ({
+  template,
+  selectedTemplateId,
+  onSelect,
+  onCreateApp,
+  onExport,
+  onDelete,
+}) => {
+  const isSelected =
+    selectedTemplateId === template.id ||
+    !!selectedTemplateId?.startsWith(`${template.id}@`);
+  const selectedVersion =
+    isSelected && selectedTemplateId?.includes("@")
+      ? selectedTemplateId.split("@")[1]
+      : template.version;
+  // Export and delete act on the version shown on the card
+  const versionedId = `${template.id}@${selectedVersion}`;
+
+  const handleVersionChange = (version: string) => {
+    onSelect(
+      version === template.version ? template.id : `${template.id}@${version}`,
+    );
+  };
+
+  return (
+    <div
+      onClick={() => onSelect(template.id)}
+      className={`
+        bg-white dark:bg-gray-800 rounded-xl shadow-sm overflow-hidden
+        transform transition-all duration-300 ease-in-out
+        cursor-pointer group relative
+        ${
+          isSelected
+            ? "ring-2 ring-blue-500 dark:ring-blue-400 shadow-xl"
+            : "hover:shadow-lg hover:-translate-y-1"
+        }
+      `}
+    >
+      <div className="relative">
+        <div
+          className={`w-full h-52 flex items-center justify-center bg-gradient-to-br from-indigo-800 to-gray-600 font-mono text-2xl text-white transition-opacity duration-300 group-hover:opacity-80 ${
+            isSelected ? "opacity-75" : ""
+          }`}
+        >
+          {template.title}
+        </div>
+        <span className="absolute top-3 left-3 bg-gray-900/80 text-white text-xs font-bold px-3 py-1.5 rounded-md shadow-lg">
+          Local
+        </span>
+        {isSelected && (
+          <span className="absolute top-3 right-3 bg-blue-600 text-white text-xs font-bold px-3 py-1.5 rounded-md shadow-lg">
+            Selected
+          </span>
+        )}
+      </div>
+      <div className="p-4">
+        <div className="flex justify-between items-center mb-1.5">
+          <h2
+            className={`text-lg font-semibold ${
+              isSelected
+                ? "text-blue-600 dark:text-blue-400"
+                : "text-gray-900 dark:text-white"
+            }`}
+          >
+            {template.title}
+          </h2>
+          <div onClick={(e) => e.stopPropagation()}>
+            <Select value={selectedVersion} onValueChange={handleVersionChange}>
+              <SelectTrigger className="h-7 w-[100px] text-xs">
+                <SelectValue placeholder="Version" />
+              </SelectTrigger>
+              <SelectContent>
+                {(template.versions ?? [template.version]).map((version) => (
+                  <SelectItem key={version} value={version!}>
+                    v{version}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3 h-10 overflow-y-auto">
+          {template.description}
+          {template.backendFramework &&
+            ` Backend: ${template.backendFramework}.`}
+        </p>
+
+        <div className="flex gap-2 mt-2">
+          <Button
+            onClick={(e) => {
+              e.stopPropagation();
+              onCreateApp();
+            }}
+            size="sm"
+            className={cn(
+              "flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold",
+              !isSelected && "invisible",
+            )}
+          >
+            Create App
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            title="Export template version"
+            onClick={(e) => {
+              e.stopPropagation();
+              onExport(versionedId);
+            }}
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            title="Delete template version"
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(versionedId);
+            }}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
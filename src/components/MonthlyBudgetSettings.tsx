@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "@tanstack/react-router";
+import { useSettings } from "@/hooks/useSettings";
+import { useMonthlyBudgetStatus, useRefreshUsage } from "@/hooks/useTokenUsage";
+import { formatCostUsd } from "@/lib/formatUsage";
+import type { MonthlyBudget } from "@/lib/schemas";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const NO_BUDGET = "none";
+
+export const MonthlyBudgetSettings: React.FC = () => {
+  const { settings, updateSettings } = useSettings();
+  const { budgetStatus } = useMonthlyBudgetStatus();
+  const refreshUsage = useRefreshUsage();
+  const navigate = useNavigate();
+  const budget = settings?.monthlyBudget;
+  const [limitInput, setLimitInput] = useState("");
+
+  useEffect(() => {
+    setLimitInput(budget?.limitUsd.toString() ?? "");
+  }, [budget?.limitUsd]);
+
+  const saveBudget = async (next: MonthlyBudget | undefined) => {
+    await updateSettings({ monthlyBudget: next });
+    refreshUsage();
+  };
+
+  const handleModeChange = (mode: string) => {
+    if (mode === NO_BUDGET) {
+      saveBudget(undefined);
+      return;
+    }
+    saveBudget({
+      limitUsd: budget?.limitUsd ?? 20,
+      mode: mode as MonthlyBudget["mode"],
+    });
+  };
+
+  const handleLimitBlur = () => {
+    const limitUsd = parseFloat(limitInput);
+    if (!budget || isNaN(limitUsd) || limitUsd < 0) {
+      setLimitInput(budget?.limitUsd.toString() ?? "");
+      return;
+    }
+    saveBudget({ ...budget, limitUsd });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-4">
+        <label
+          htmlFor="monthly-budget-mode"
+          className="text-sm font-medium text-gray-700 dark:text-gray-300"
+        >
+          Monthly budget
+        </label>
+        <Select
+          value={budget?.mode ?? NO_BUDGET}
+          onValueChange={handleModeChange}
+        >
+          <SelectTrigger className="w-[180px]" id="monthly-budget-mode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_BUDGET}>No limit</SelectItem>
+            <SelectItem value="warn">Warn when over</SelectItem>
+            <SelectItem value="block">Block when over</SelectItem>
+          </SelectContent>
+        </Select>
+        {budget && (
+          <div className="flex items-center gap-1 text-sm">
+            <span>$</span>
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={limitInput}
+              onChange={(e) => setLimitInput(e.target.value)}
+              onBlur={handleLimitBlur}
+              className="w-24"
+              aria-label="Monthly budget in USD"
+            />
+          </div>
+        )}
+      </div>
+      <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
+        <span>
+          {budgetStatus
+            ? `Spent ${formatCostUsd(budgetStatus.spentUsd)} this month.`
+            : "Loading usage..."}{" "}
+          Only models with known pricing count towards the budget.
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => navigate({ to: "/settings/usage" })}
+        >
+          View usage
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,293 @@
+import { useState } from "react";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useRunProfiles } from "@/hooks/useRunProfiles";
+import type { RunProfile, RunProfileWorkingDirectory } from "@/ipc/ipc_types";
+
+interface RunProfileDraft {
+  id?: number;
+  name: string;
+  workingDirectory: RunProfileWorkingDirectory | "root";
+  installCommand: string;
+  buildCommand: string;
+  startCommand: string;
+  port: string;
+  env: string;
+}
+
+const EMPTY_DRAFT: RunProfileDraft = {
+  name: "",
+  workingDirectory: "root",
+  installCommand: "",
+  buildCommand: "",
+  startCommand: "",
+  port: "",
+  env: "",
+};
+
+function toDraft(profile: RunProfile): RunProfileDraft {
+  return {
+    id: profile.id,
+    name: profile.name,
+    workingDirectory: profile.workingDirectory ?? "root",
+    installCommand: profile.installCommand ?? "",
+    buildCommand: profile.buildCommand ?? "",
+    startCommand: profile.startCommand,
+    port: profile.port?.toString() ?? "",
+    env: Object.entries(profile.env)
+      .map(([key, value]) => `${key}=${value}`)
+      .join("\n"),
+  };
+}
+
+// One KEY=VALUE per line, like a .env file
+function parseEnv(env: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const line of env.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      continue;
+    }
+    const separatorIndex = trimmed.indexOf("=");
+    if (separatorIndex === -1) {
+      result[trimmed] = "";
+    } else {
+      result[trimmed.slice(0, separatorIndex).trim()] = trimmed.slice(
+        separatorIndex + 1,
+      );
+    }
+  }
+  return result;
+}
+
+export function RunProfilesDialog({
+  appId,
+  isOpen,
+  onClose,
+}: {
+  appId: number | null;
+  isOpen: boolean;
+  onClose: () => void;
+}) {
+  const { runProfiles, saveRunProfile, isSaving, deleteRunProfile } =
+    useRunProfiles(appId);
+  const [draft, setDraft] = useState<RunProfileDraft | null>(null);
+
+  const updateDraft = (changes: Partial<RunProfileDraft>) =>
+    setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+    await saveRunProfile({
+      id: draft.id,
+      name: draft.name,
+      workingDirectory:
+        draft.workingDirectory === "root" ? null : draft.workingDirectory,
+      installCommand: draft.installCommand,
+      buildCommand: draft.buildCommand,
+      startCommand: draft.startCommand,
+      port: draft.port.trim() ? parseInt(draft.port, 10) : null,
+      env: parseEnv(draft.env),
+    });
+    setDraft(null);
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (!open) {
+          setDraft(null);
+          onClose();
+        }
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Run profiles</DialogTitle>
+          <DialogDescription>
+            Choose how this app is installed, built and started. Without a
+            selected profile, the commands are detected from the app's files.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <div className="space-y-3">
+            <div className="grid gap-1">
+              <Label htmlFor="run-profile-name">Name</Label>
+              <Input
+                id="run-profile-name"
+                value={draft.name}
+                onChange={(e) => updateDraft({ name: e.target.value })}
+                placeholder="dev"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-1">
+                <Label htmlFor="run-profile-working-directory">
+                  Working directory
+                </Label>
+                <Select
+                  value={draft.workingDirectory}
+                  onValueChange={(value) =>
+                    updateDraft({
+                      workingDirectory:
+                        value as RunProfileDraft["workingDirectory"],
+                    })
+                  }
+                >
+                  <SelectTrigger id="run-profile-working-directory">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="root">App root</SelectItem>
+                    <SelectItem value="frontend">frontend</SelectItem>
+                    <SelectItem value="backend">backend</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor="run-profile-port">Port</Label>
+                <Input
+                  id="run-profile-port"
+                  type="number"
+                  value={draft.port}
+                  onChange={(e) => updateDraft({ port: e.target.value })}
+                  placeholder="Any free port"
+                />
+              </div>
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="run-profile-install">Install command</Label>
+              <Input
+                id="run-profile-install"
+                value={draft.installCommand}
+                onChange={(e) =>
+                  updateDraft({ installCommand: e.target.value })
+                }
+                placeholder="pnpm install"
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="run-profile-build">Build command</Label>
+              <Input
+                id="run-profile-build"
+                value={draft.buildCommand}
+                onChange={(e) => updateDraft({ buildCommand: e.target.value })}
+                placeholder="pnpm build"
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="run-profile-start">Start command</Label>
+              <Input
+                id="run-profile-start"
+                value={draft.startCommand}
+                onChange={(e) => updateDraft({ startCommand: e.target.value })}
+                placeholder="pnpm dev --port $PORT"
+              />
+            </div>
+            <div className="grid gap-1">
+              <Label htmlFor="run-profile-env">
+                Environment overrides (KEY=VALUE per line)
+              </Label>
+              <Textarea
+                id="run-profile-env"
+                value={draft.env}
+                onChange={(e) => updateDraft({ env: e.target.value })}
+                placeholder="NODE_ENV=production"
+                className="font-mono text-xs min-h-[60px]"
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {runProfiles.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No run profiles for this app yet
+              </p>
+            ) : (
+              runProfiles.map((profile) => (
+                <div
+                  key={profile.id}
+                  className="flex items-center justify-between gap-2 rounded-md border p-3"
+                  data-testid={`run-profile-${profile.name}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{profile.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {profile.workingDirectory ?? "app root"} ·{" "}
+                      {profile.startCommand}
+                      {profile.port ? ` · port ${profile.port}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDraft(toDraft(profile))}
+                    >
+                      <Pencil className="h-4 w-4" />
+                      <span className="sr-only">Edit</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteRunProfile(profile.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {draft ? (
+            <>
+              <Button variant="outline" onClick={() => setDraft(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={
+                  isSaving || !draft.name.trim() || !draft.startCommand.trim()
+                }
+              >
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => setDraft(EMPTY_DRAFT)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add profile
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,6 +9,7 @@ import {
 import { useSettings } from "@/hooks/useSettings";
 import { showError } from "@/lib/toast";
 import { IpcClient } from "@/ipc/ipc_client";
+import type { RuntimeMode2 } from "@/lib/schemas";
 
 export function RuntimeModeSelector() {
   const { settings, updateSettings } = useSettings();
@@ -17,9 +18,10 @@ export function RuntimeModeSelector() {
     return null;
   }
 
-  // Apps always run in host mode now - Docker is disabled for development
-  const handleRuntimeModeChange = async (value: "host" | "docker") => {
-    // Only allow host mode - Docker is disabled for app development
+  const runtimeMode = settings.runtimeMode2 ?? "host";
+
+  // Apps run on the host or as a Docker Compose project - single-container Docker is disabled for development
+  const handleRuntimeModeChange = async (value: RuntimeMode2) => {
     if (value === "docker") {
       showError(
         "Docker mode is disabled. Apps always run in local development mode for optimal development experience.",
@@ -40,15 +42,13 @@ export function RuntimeModeSelector() {
           <Label className="text-sm font-medium" htmlFor="runtime-mode">
             Runtime Mode
           </Label>
-          <Select
-            value={settings.runtimeMode2 ?? "host"}
-            onValueChange={handleRuntimeModeChange}
-          >
+          <Select value={runtimeMode} onValueChange={handleRuntimeModeChange}>
             <SelectTrigger className="w-48" id="runtime-mode">
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="host">Local (default)</SelectItem>
+              <SelectItem value="docker-compose">Docker Compose</SelectItem>
               <SelectItem value="docker" disabled>
                 Docker (disabled)
               </SelectItem>
@@ -56,14 +56,22 @@ export function RuntimeModeSelector() {
           </Select>
         </div>
         <div className="text-sm text-gray-500 dark:text-gray-400">
-          Apps always run in local development mode for optimal development
-          experience. Docker mode is disabled.
+          {runtimeMode === "docker-compose"
+            ? "Each app runs as a Docker Compose project with a frontend service, a backend service and, if the backend uses it, Postgres."
+            : "Apps run in local development mode for optimal development experience."}
         </div>
       </div>
-      <div className="text-sm text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 p-2 rounded">
-        ℹ️ Docker mode is disabled for app development. Apps run directly on
-        your local machine for the best development experience.
-      </div>
+      {runtimeMode === "docker-compose" ? (
+        <div className="text-sm text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 p-2 rounded">
+          ℹ️ Requires Docker Desktop to be running. Restart a running app to
+          move it to the new runtime mode.
+        </div>
+      ) : (
+        <div className="text-sm text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20 p-2 rounded">
+          ℹ️ Docker mode is disabled for app development. Apps run directly on
+          your local machine for the best development experience.
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useLocalTemplates } from "@/hooks/useLocalTemplates";
+import { showSuccess } from "@/lib/toast";
+
+const VERSION_REGEX = /^\d+\.\d+\.\d+$/;
+
+interface SaveAsTemplateDialogProps {
+  appId: number;
+  appName: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function SaveAsTemplateDialog({
+  appId,
+  appName,
+  isOpen,
+  onClose,
+}: SaveAsTemplateDialogProps) {
+  const { saveAppAsTemplate, isSaving } = useLocalTemplates();
+  const [title, setTitle] = useState(appName);
+  const [description, setDescription] = useState("");
+  const [version, setVersion] = useState("1.0.0");
+
+  useEffect(() => {
+    if (isOpen) {
+      setTitle(appName);
+    }
+  }, [isOpen, appName]);
+
+  const isVersionValid = VERSION_REGEX.test(version);
+
+  const handleSave = async () => {
+    const template = await saveAppAsTemplate({
+      appId,
+      title,
+      description,
+      version,
+    });
+    showSuccess(`Saved ${template.title} v${template.version} to the Hub`);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md p-4">
+        <DialogHeader className="pb-2">
+          <DialogTitle>Save "{appName}" as a template</DialogTitle>
+          <DialogDescription className="text-sm">
+            Saves the app's files, AI rules and backend framework. Env files
+            keep only their variable names, not the values.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 my-2">
+          <div>
+            <Label htmlFor="templateTitle">Title</Label>
+            <Input
+              id="templateTitle"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="mt-1"
+              disabled={isSaving}
+            />
+          </div>
+          <div>
+            <Label htmlFor="templateDescription">Description</Label>
+            <Textarea
+              id="templateDescription"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="mt-1"
+              rows={3}
+              disabled={isSaving}
+            />
+          </div>
+          <div>
+            <Label htmlFor="templateVersion">Version</Label>
+            <Input
+              id="templateVersion"
+              value={version}
+              onChange={(e) => setVersion(e.target.value)}
+              placeholder="1.0.0"
+              className="mt-1"
+              disabled={isSaving}
+            />
+            {!isVersionValid && (
+              <p className="text-xs text-yellow-600 dark:text-yellow-500 mt-1">
+                Use a version like 1.0.0. Saving a new version of an existing
+                template keeps the older ones.
+              </p>
+            )}
+          </div>
+        </div>
+        <DialogFooter className="pt-2">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={isSaving}
+            size="sm"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || !title.trim() || !isVersionValid}
+            size="sm"
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
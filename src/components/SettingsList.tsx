@@ -7,6 +7,7 @@ const SETTINGS_SECTIONS = [
   { id: "general-settings", label: "General" },
   { id: "workflow-settings", label: "Workflow" },
   { id: "ai-settings", label: "AI" },
+  { id: "usage-settings", label: "Usage" },
   { id: "provider-settings", label: "Model Providers" },
   { id: "telemetry", label: "Telemetry" },
   { id: "integrations", label: "Integrations" },
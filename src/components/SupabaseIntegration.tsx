@@ -1,7 +1,5 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Switch } from "@/components/ui/switch";
-import { Label } from "@/components/ui/label";
 // We might need a Supabase icon here, but for now, let's use a generic one or text.
 // import { Supabase } from "lucide-react"; // Placeholder
 import { DatabaseZap } from "lucide-react"; // Using DatabaseZap as a placeholder
@@ -18,8 +16,6 @@ export function SupabaseIntegration() {
       // Clear the entire supabase object in settings
       const result = await updateSettings({
         supabase: undefined,
-        // Also disable the migration setting on disconnect
-        enableSupabaseWriteSqlMigration: false,
       });
       if (result) {
         showSuccess("Successfully disconnected from Supabase");
@@ -35,17 +31,6 @@ export function SupabaseIntegration() {
     }
   };
 
-  const handleMigrationSettingChange = async (enabled: boolean) => {
-    try {
-      await updateSettings({
-        enableSupabaseWriteSqlMigration: enabled,
-      });
-      showSuccess("Setting updated");
-    } catch (err: any) {
-      showError(err.message || "Failed to update setting");
-    }
-  };
-
   // Check if there's any Supabase accessToken to determine connection status
   const isConnected = !!settings?.supabase?.accessToken;
 
@@ -75,29 +60,10 @@ export function SupabaseIntegration() {
           <DatabaseZap className="h-4 w-4" />
         </Button>
       </div>
-      <div className="mt-4">
-        <div className="flex items-center space-x-3">
-          <Switch
-            id="supabase-migrations"
-            checked={!!settings?.enableSupabaseWriteSqlMigration}
-            onCheckedChange={handleMigrationSettingChange}
-          />
-          <div className="space-y-1">
-            <Label
-              htmlFor="supabase-migrations"
-              className="text-sm font-medium"
-            >
-              Write SQL migration files
-            </Label>
-            <p className="text-xs text-gray-500 dark:text-gray-400">
-              Generate SQL migration files when modifying your Supabase schema.
-              This helps you track database changes in version control, though
-              these files aren't used for chat context, which uses the live
-              schema.
-            </p>
-          </div>
-        </div>
-      </div>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+        SQL run against your Supabase project is saved as migration files in the
+        app, so reverting a version can roll the schema back too.
+      </p>
     </div>
   );
 }
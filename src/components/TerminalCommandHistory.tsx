@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ChevronDown, ChevronRight, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { CommandPolicyEditor } from "@/components/CommandPolicyEditor";
+import {
+  useAppCommandPolicy,
+  useTerminalCommandAudit,
+} from "@/hooks/useTerminalCommands";
+import type { TerminalCommandAuditEntry } from "@/ipc/ipc_types";
+
+function getEntryStatus(entry: TerminalCommandAuditEntry): {
+  label: string;
+  className: string;
+} {
+  if (entry.decision === "denied" || entry.decision === "denylisted") {
+    return {
+      label: entry.decision === "denied" ? "Denied" : "Blocked",
+      className:
+        "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+    };
+  }
+  if (entry.exitCode === 0) {
+    return {
+      label: "Exit 0",
+      className:
+        "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200",
+    };
+  }
+  return {
+    label:
+      entry.exitCode === null ? "Failed to start" : `Exit ${entry.exitCode}`,
+    className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-200",
+  };
+}
+
+function TerminalCommandEntry({ entry }: { entry: TerminalCommandAuditEntry }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const status = getEntryStatus(entry);
+
+  return (
+    <li
+      className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg"
+      data-testid={`terminal-command-audit-${entry.id}`}
+    >
+      <button
+        className="w-full text-left flex items-start gap-2"
+        onClick={() => setIsExpanded(!isExpanded)}
+        disabled={!entry.output}
+      >
+        {entry.output ? (
+          isExpanded ? (
+            <ChevronDown className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          ) : (
+            <ChevronRight className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          )
+        ) : (
+          <span className="w-4 flex-shrink-0" />
+        )}
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center justify-between gap-2">
+            <code className="font-mono text-xs break-all">{entry.command}</code>
+            <span
+              className={`text-xs px-2 py-0.5 rounded flex-shrink-0 ${status.className}`}
+            >
+              {status.label}
+            </span>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {entry.cwd === "." ? "app folder" : entry.cwd} · {entry.decision} ·{" "}
+            {formatDistanceToNow(new Date(entry.createdAt), {
+              addSuffix: true,
+            })}
+          </p>
+        </div>
+      </button>
+      {isExpanded && entry.output && (
+        <pre className="mt-2 ml-6 p-2 max-h-64 overflow-auto rounded bg-gray-50 dark:bg-gray-900 text-xs font-mono whitespace-pre-wrap break-all">
+          {entry.output}
+        </pre>
+      )}
+    </li>
+  );
+}
+
+export function TerminalCommandHistory({ appId }: { appId: number | null }) {
+  const { entries, isLoading, error } = useTerminalCommandAudit(appId);
+  const { policy, savePolicy } = useAppCommandPolicy(appId);
+
+  if (!appId) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-semibold mb-3 text-gray-900 dark:text-gray-100">
+        Terminal Commands
+      </h3>
+      <div className="mb-4 space-y-2">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Patterns for this app, checked along with the ones in Settings. One
+          pattern per line; * matches anything.
+        </p>
+        <CommandPolicyEditor
+          id={`app-${appId}-command-policy`}
+          policy={policy}
+          onSave={(next) => savePolicy(next)}
+        />
+      </div>
+      {isLoading ? (
+        <Loader2 className="h-6 w-6 animate-spin" />
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertTitle>Error loading terminal commands</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      ) : entries.length === 0 ? (
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-500 dark:text-gray-400">
+          The AI hasn't asked to run any terminal commands in this app yet
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {entries.map((entry) => (
+            <TerminalCommandEntry key={entry.id} entry={entry} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
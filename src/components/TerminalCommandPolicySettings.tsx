@@ -0,0 +1,26 @@
+import { useSettings } from "@/hooks/useSettings";
+import { CommandPolicyEditor } from "@/components/CommandPolicyEditor";
+
+export function TerminalCommandPolicySettings() {
+  const { settings, updateSettings } = useSettings();
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium text-gray-700 dark:text-gray-300">
+        Terminal commands
+      </div>
+      <div className="text-sm text-gray-500 dark:text-gray-400">
+        Commands the AI wants to run need your approval unless they match the
+        allowlist. Use one pattern per line; * matches anything. Apps can add
+        their own patterns on their details page.
+      </div>
+      <CommandPolicyEditor
+        id="terminal-command-policy"
+        policy={settings?.terminalCommandPolicy}
+        onSave={(policy) =>
+          updateSettings({ terminalCommandPolicy: policy ?? undefined })
+        }
+      />
+    </div>
+  );
+}
@@ -39,8 +39,13 @@ import {
   Proposal,
   SuggestedAction,
   FileChange,
+  ProposedTerminalCommand,
   SqlQuery,
 } from "@/lib/schemas";
+import {
+  ProposalTerminalCommands,
+  getApprovedCommandIds,
+} from "../chat/ProposalTerminalCommands";
 import type { Message } from "@/ipc/ipc_types";
 import { isPreviewOpenAtom } from "@/atoms/viewAtoms";
 import { useRunApp } from "@/hooks/useRunApp";
@@ -63,8 +68,13 @@ import { FileAttachmentDropdown } from "../chat/FileAttachmentDropdown";
 import { showError, showExtraFilesToast } from "@/lib/toast";
 import { ChatInputControls } from "../ChatInputControls";
 import { ChatErrorBox } from "../chat/ChatErrorBox";
-import { selectedComponentPreviewAtom } from "@/atoms/previewAtoms";
+import {
+  attachedAppLogErrorCountAtom,
+  attachedTerminalSessionAtom,
+  selectedComponentPreviewAtom,
+} from "@/atoms/previewAtoms";
 import { SelectedComponentDisplay } from "../chat/SelectedComponentDisplay";
+import { AttachedConsoleContextDisplay } from "../chat/AttachedConsoleContextDisplay";
 
 const showTokenBarAtom = atom(false);
 const logger = log.scope("BackendChatInput");
@@ -86,6 +96,12 @@ export function BackendChatInput({ chatId }: { chatId?: number }) {
   const [selectedComponent, setSelectedComponent] = useAtom(
     selectedComponentPreviewAtom,
   );
+  const [attachedTerminalSession, setAttachedTerminalSession] = useAtom(
+    attachedTerminalSessionAtom,
+  );
+  const [attachedAppLogErrorCount, setAttachedAppLogErrorCount] = useAtom(
+    attachedAppLogErrorCountAtom,
+  );
 
   // Use the attachments hook
   const {
@@ -186,6 +202,8 @@ export function BackendChatInput({ chatId }: { chatId?: number }) {
     const currentInput = inputValue;
     setInputValue("");
     setSelectedComponent(null);
+    setAttachedTerminalSession(null);
+    setAttachedAppLogErrorCount(null);
 
     // Send message with attachments and clear them after sending
     await streamMessage({
@@ -195,6 +213,8 @@ export function BackendChatInput({ chatId }: { chatId?: number }) {
       attachments,
       redo: false,
       selectedComponent,
+      terminalSessionId: attachedTerminalSession?.sessionId,
+      appLogErrorCount: attachedAppLogErrorCount ?? undefined,
     });
     clearAttachments();
     posthog.capture("backend-chat:submit");
@@ -211,7 +231,7 @@ export function BackendChatInput({ chatId }: { chatId?: number }) {
     setShowError(false);
   };
 
-  const handleApprove = async () => {
+  const handleApprove = async (approvedCommandIds?: number[]) => {
     if (!chatId || !messageId || isApproving || isRejecting || isStreaming)
       return;
     console.log(
@@ -223,6 +243,7 @@ export function BackendChatInput({ chatId }: { chatId?: number }) {
       const result = await IpcClient.getInstance().approveProposal({
         chatId,
         messageId,
+        approvedCommandIds,
       });
       if (result.extraFiles) {
         showExtraFilesToast({
@@ -315,6 +336,7 @@ export function BackendChatInput({ chatId }: { chatId?: number }) {
             proposalResult?.chatId === chatId &&
             settings.selectedChatMode !== "ask" && (
               <BackendChatInputActions
+                key={messageId}
                 proposal={proposal}
                 onApprove={handleApprove}
                 onReject={handleReject}
@@ -332,6 +354,7 @@ export function BackendChatInput({ chatId }: { chatId?: number }) {
             )}
 
           <SelectedComponentDisplay />
+          <AttachedConsoleContextDisplay />
 
           {/* Use the AttachmentsList component */}
           <AttachmentsList
@@ -424,7 +447,7 @@ export function BackendChatInput({ chatId }: { chatId?: number }) {
 // Backend-specific ChatInputActions component
 interface BackendChatInputActionsProps {
   proposal: Proposal;
-  onApprove: () => void;
+  onApprove: (approvedCommandIds: number[]) => void;
   onReject: () => void;
   isApprovable: boolean;
   isApproving: boolean;
@@ -440,6 +463,8 @@ function BackendChatInputActions({
   isRejecting,
 }: BackendChatInputActionsProps) {
   const [isDetailsVisible, setIsDetailsVisible] = useState(false);
+  // Commands the user unchecked; the others that need approval run
+  const [deniedCommandIds, setDeniedCommandIds] = useState<number[]>([]);
 
   if (proposal.type === "tip-proposal") {
     return <div>Backend tip proposal</div>;
@@ -496,14 +521,20 @@ function BackendChatInputActions({
                 serverFunctions={serverFunctions}
                 packagesAdded={proposal.packagesAdded}
                 filesChanged={otherFilesChanged}
+                terminalCommands={proposal.terminalCommands}
               />
             </div>
           </button>
-          {proposal.securityRisks.length > 0 && (
-            <span className="bg-red-100 text-red-700 text-xs font-medium px-2 py-0.5 rounded-full flex-shrink-0">
-              Security risks found
-            </span>
-          )}
+          {proposal.securityRisks.length > 0 &&
+            (proposal.securityRisks.some((risk) => risk.type === "danger") ? (
+              <span className="bg-red-100 text-red-700 text-xs font-medium px-2 py-0.5 rounded-full flex-shrink-0">
+                Security risks found ({proposal.securityRisks.length})
+              </span>
+            ) : (
+              <span className="bg-yellow-100 text-yellow-800 text-xs font-medium px-2 py-0.5 rounded-full flex-shrink-0">
+                Security warnings ({proposal.securityRisks.length})
+              </span>
+            ))}
         </div>
 
         {/* Row 2: Buttons and Toggle */}
@@ -511,7 +542,14 @@ function BackendChatInputActions({
           <Button
             className="px-8 bg-blue-600 hover:bg-blue-700"
             size="sm"
-            onClick={onApprove}
+            onClick={() =>
+              onApprove(
+                getApprovedCommandIds(
+                  proposal.terminalCommands,
+                  deniedCommandIds,
+                ),
+              )
+            }
             disabled={!isApprovable || isApproving || isRejecting}
             data-testid="backend-approve-proposal-button"
           >
@@ -575,6 +613,20 @@ function BackendChatInputActions({
               </div>
             )}
 
+            {proposal.terminalCommands?.length > 0 && (
+              <ProposalTerminalCommands
+                commands={proposal.terminalCommands}
+                deniedCommandIds={deniedCommandIds}
+                onToggleCommand={(id, approved) =>
+                  setDeniedCommandIds((ids) =>
+                    approved
+                      ? ids.filter((deniedId) => deniedId !== id)
+                      : [...ids, id],
+                  )
+                }
+              />
+            )}
+
             {proposal.sqlQueries?.length > 0 && (
               <div className="mb-3">
                 <h4 className="font-semibold mb-1 text-blue-800 dark:text-blue-200">
@@ -821,18 +873,21 @@ function BackendProposalSummary({
   serverFunctions = [],
   packagesAdded = [],
   filesChanged = [],
+  terminalCommands = [],
 }: {
   sqlQueries?: Array<SqlQuery>;
   serverFunctions?: FileChange[];
   packagesAdded?: string[];
   filesChanged?: FileChange[];
+  terminalCommands?: ProposedTerminalCommand[];
 }) {
   // If no changes, show a simple message
   if (
     !sqlQueries.length &&
     !serverFunctions.length &&
     !packagesAdded.length &&
-    !filesChanged.length
+    !filesChanged.length &&
+    !terminalCommands.length
   ) {
     return <span>No backend changes</span>;
   }
@@ -870,6 +925,14 @@ function BackendProposalSummary({
     );
   }
 
+  if (terminalCommands.length) {
+    parts.push(
+      `${terminalCommands.length} ${
+        terminalCommands.length === 1 ? "command" : "commands"
+      }`,
+    );
+  }
+
   // Join all parts with separator
   return <span>{parts.join(" | ")}</span>;
 }
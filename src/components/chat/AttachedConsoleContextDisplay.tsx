@@ -0,0 +1,87 @@
+import {
+  attachedAppLogErrorCountAtom,
+  attachedTerminalSessionAtom,
+} from "@/atoms/previewAtoms";
+import { useAtom } from "jotai";
+import { FileWarning, SquareTerminal, X } from "lucide-react";
+import type { ReactNode } from "react";
+
+function ContextChip({
+  icon,
+  title,
+  detail,
+  removeLabel,
+  onRemove,
+  testId,
+}: {
+  icon: ReactNode;
+  title: string;
+  detail: string;
+  removeLabel: string;
+  onRemove: () => void;
+  testId: string;
+}) {
+  return (
+    <div className="p-2 pb-1" data-testid={testId}>
+      <div className="flex items-center justify-between rounded-md bg-indigo-600/10 px-2 py-1 text-sm">
+        <div className="flex items-center gap-2 overflow-hidden">
+          {icon}
+          <div className="flex flex-col overflow-hidden">
+            <span className="truncate font-medium text-indigo-800 dark:text-indigo-300">
+              {title}
+            </span>
+            <span
+              className="truncate text-xs text-indigo-600/80 dark:text-indigo-400/80"
+              title={detail}
+            >
+              {detail}
+            </span>
+          </div>
+        </div>
+        <button
+          onClick={onRemove}
+          className="ml-2 flex-shrink-0 rounded-full p-0.5 hover:bg-indigo-600/20"
+          title={removeLabel}
+        >
+          <X size={18} className="text-indigo-600 dark:text-indigo-400" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Console output attached to the next chat message
+export function AttachedConsoleContextDisplay() {
+  const [attachedSession, setAttachedSession] = useAtom(
+    attachedTerminalSessionAtom,
+  );
+  const [attachedErrorCount, setAttachedErrorCount] = useAtom(
+    attachedAppLogErrorCountAtom,
+  );
+  const iconClassName = "flex-shrink-0 text-indigo-600 dark:text-indigo-400";
+
+  return (
+    <>
+      {attachedSession && (
+        <ContextChip
+          icon={<SquareTerminal size={16} className={iconClassName} />}
+          title={`${attachedSession.location === "frontend" ? "Frontend" : "Backend"} terminal output`}
+          detail={attachedSession.cwd}
+          removeLabel="Detach terminal output"
+          onRemove={() => setAttachedSession(null)}
+          testId="attached-terminal-display"
+        />
+      )}
+      {attachedErrorCount !== null && (
+        <ContextChip
+          icon={<FileWarning size={16} className={iconClassName} />}
+          title="App errors"
+          detail={`Last ${attachedErrorCount} error lines of the latest run`}
+          removeLabel="Detach app errors"
+          onRemove={() => setAttachedErrorCount(null)}
+          testId="attached-app-log-errors-display"
+        />
+      )}
+    </>
+  );
+}
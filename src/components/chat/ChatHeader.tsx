@@ -5,6 +5,7 @@ import {
   GitBranch,
   Info,
   CheckSquare,
+  Coins,
 } from "lucide-react";
 import { PanelRightClose } from "lucide-react";
 import { useAtom, useAtomValue } from "jotai";
@@ -29,6 +30,8 @@ import { useCheckoutVersion } from "@/hooks/useCheckoutVersion";
 import { useRenameBranch } from "@/hooks/useRenameBranch";
 import { isAnyCheckoutVersionInProgressAtom } from "@/store/appAtoms";
 import { LoadingBar } from "../ui/LoadingBar";
+import { useChatUsage } from "@/hooks/useTokenUsage";
+import { formatCostUsd, formatUsageSummary } from "@/lib/formatUsage";
 
 interface ChatHeaderProps {
   isVersionPaneOpen: boolean;
@@ -55,6 +58,7 @@ export function ChatHeader({
   const [selectedChatId, setSelectedChatId] = useAtom(selectedChatIdAtom);
   const { refreshChats } = useChats(appId);
   const { isStreaming } = useStreamChat();
+  const { chatUsage } = useChatUsage(selectedChatId ?? undefined);
   const isAnyCheckoutVersionInProgress = useAtomValue(
     isAnyCheckoutVersionInProgressAtom,
   );
@@ -229,6 +233,25 @@ export function ChatHeader({
         </div>
 
         <div className="flex items-center gap-2">
+          {chatUsage && chatUsage.totals.inputTokens > 0 && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <button
+                    data-testid="chat-usage-badge"
+                    onClick={() => navigate({ to: "/settings/usage" })}
+                    className="hidden @xs:flex items-center gap-1 text-xs text-muted-foreground px-2 py-1 rounded-md hover:bg-(--background-lightest) cursor-pointer"
+                  >
+                    <Coins size={14} />
+                    {formatCostUsd(chatUsage.totals.costUsd)}
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>This chat: {formatUsageSummary(chatUsage.totals)}</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
           {showTodoToggle && onToggleTodo && (
             <button
               data-testid="toggle-todo-panel-button"
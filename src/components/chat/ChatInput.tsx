@@ -37,8 +37,13 @@ import {
   Proposal,
   SuggestedAction,
   FileChange,
+  ProposedTerminalCommand,
   SqlQuery,
 } from "@/lib/schemas";
+import {
+  ProposalTerminalCommands,
+  getApprovedCommandIds,
+} from "./ProposalTerminalCommands";
 import type { Message } from "@/ipc/ipc_types";
 import { isPreviewOpenAtom } from "@/atoms/viewAtoms";
 import { useRunApp } from "@/hooks/useRunApp";
@@ -61,8 +66,13 @@ import { FileAttachmentDropdown } from "./FileAttachmentDropdown";
 import { showError, showExtraFilesToast } from "@/lib/toast";
 import { ChatInputControls } from "../ChatInputControls";
 import { ChatErrorBox } from "./ChatErrorBox";
-import { selectedComponentPreviewAtom } from "@/atoms/previewAtoms";
+import {
+  attachedAppLogErrorCountAtom,
+  attachedTerminalSessionAtom,
+  selectedComponentPreviewAtom,
+} from "@/atoms/previewAtoms";
 import { SelectedComponentDisplay } from "./SelectedComponentDisplay";
+import { AttachedConsoleContextDisplay } from "./AttachedConsoleContextDisplay";
 import { useCheckProblems } from "@/hooks/useCheckProblems";
 import { LexicalChatInput } from "./LexicalChatInput";
 
@@ -85,6 +95,12 @@ export function ChatInput({ chatId }: { chatId?: number }) {
   const [selectedComponent, setSelectedComponent] = useAtom(
     selectedComponentPreviewAtom,
   );
+  const [attachedTerminalSession, setAttachedTerminalSession] = useAtom(
+    attachedTerminalSessionAtom,
+  );
+  const [attachedAppLogErrorCount, setAttachedAppLogErrorCount] = useAtom(
+    attachedAppLogErrorCountAtom,
+  );
   const { checkProblems } = useCheckProblems(appId);
   // Use the attachments hook
   const {
@@ -135,6 +151,8 @@ export function ChatInput({ chatId }: { chatId?: number }) {
     const currentInput = inputValue;
     setInputValue("");
     setSelectedComponent(null);
+    setAttachedTerminalSession(null);
+    setAttachedAppLogErrorCount(null);
 
     // Send message with attachments and clear them after sending
     await streamMessage({
@@ -143,6 +161,8 @@ export function ChatInput({ chatId }: { chatId?: number }) {
       attachments,
       redo: false,
       selectedComponent,
+      terminalSessionId: attachedTerminalSession?.sessionId,
+      appLogErrorCount: attachedAppLogErrorCount ?? undefined,
     });
     clearAttachments();
     posthog.capture("chat:submit");
@@ -159,7 +179,7 @@ export function ChatInput({ chatId }: { chatId?: number }) {
     setShowError(false);
   };
 
-  const handleApprove = async () => {
+  const handleApprove = async (approvedCommandIds?: number[]) => {
     if (!chatId || !messageId || isApproving || isRejecting || isStreaming)
       return;
     console.log(
@@ -171,6 +191,7 @@ export function ChatInput({ chatId }: { chatId?: number }) {
       const result = await IpcClient.getInstance().approveProposal({
         chatId,
         messageId,
+        approvedCommandIds,
       });
       if (result.extraFiles) {
         showExtraFilesToast({
@@ -259,6 +280,7 @@ export function ChatInput({ chatId }: { chatId?: number }) {
             proposalResult?.chatId === chatId &&
             settings.selectedChatMode !== "ask" && (
               <ChatInputActions
+                key={messageId}
                 proposal={proposal}
                 onApprove={handleApprove}
                 onReject={handleReject}
@@ -276,6 +298,7 @@ export function ChatInput({ chatId }: { chatId?: number }) {
             )}
 
           <SelectedComponentDisplay />
+          <AttachedConsoleContextDisplay />
 
           {/* Use the AttachmentsList component */}
           <AttachmentsList
@@ -587,7 +610,7 @@ function ActionProposalActions({ proposal }: { proposal: ActionProposal }) {
 
 interface ChatInputActionsProps {
   proposal: Proposal;
-  onApprove: () => void;
+  onApprove: (approvedCommandIds: number[]) => void;
   onReject: () => void;
   isApprovable: boolean; // Can be used to enable/disable buttons
   isApproving: boolean; // State for approving
@@ -604,6 +627,8 @@ function ChatInputActions({
   isRejecting,
 }: ChatInputActionsProps) {
   const [isDetailsVisible, setIsDetailsVisible] = useState(false);
+  // Commands the user unchecked; the others that need approval run
+  const [deniedCommandIds, setDeniedCommandIds] = useState<number[]>([]);
 
   if (proposal.type === "tip-proposal") {
     return <div>Tip proposal</div>;
@@ -656,14 +681,20 @@ function ChatInputActions({
                 serverFunctions={serverFunctions}
                 packagesAdded={proposal.packagesAdded}
                 filesChanged={otherFilesChanged}
+                terminalCommands={proposal.terminalCommands}
               />
             </div>
           </button>
-          {proposal.securityRisks.length > 0 && (
-            <span className="bg-red-100 text-red-700 text-xs font-medium px-2 py-0.5 rounded-full flex-shrink-0">
-              Security risks found
-            </span>
-          )}
+          {proposal.securityRisks.length > 0 &&
+            (proposal.securityRisks.some((risk) => risk.type === "danger") ? (
+              <span className="bg-red-100 text-red-700 text-xs font-medium px-2 py-0.5 rounded-full flex-shrink-0">
+                Security risks found ({proposal.securityRisks.length})
+              </span>
+            ) : (
+              <span className="bg-yellow-100 text-yellow-800 text-xs font-medium px-2 py-0.5 rounded-full flex-shrink-0">
+                Security warnings ({proposal.securityRisks.length})
+              </span>
+            ))}
         </div>
 
         {/* Row 2: Buttons and Toggle */}
@@ -672,7 +703,14 @@ function ChatInputActions({
             className="px-8"
             size="sm"
             variant="outline"
-            onClick={onApprove}
+            onClick={() =>
+              onApprove(
+                getApprovedCommandIds(
+                  proposal.terminalCommands,
+                  deniedCommandIds,
+                ),
+              )
+            }
             disabled={!isApprovable || isApproving || isRejecting}
             data-testid="approve-proposal-button"
           >
@@ -734,6 +772,20 @@ function ChatInputActions({
               </div>
             )}
 
+            {proposal.terminalCommands?.length > 0 && (
+              <ProposalTerminalCommands
+                commands={proposal.terminalCommands}
+                deniedCommandIds={deniedCommandIds}
+                onToggleCommand={(id, approved) =>
+                  setDeniedCommandIds((ids) =>
+                    approved
+                      ? ids.filter((deniedId) => deniedId !== id)
+                      : [...ids, id],
+                  )
+                }
+              />
+            )}
+
             {proposal.sqlQueries?.length > 0 && (
               <div className="mb-3">
                 <h4 className="font-semibold mb-1">SQL Queries</h4>
@@ -845,18 +897,21 @@ function ProposalSummary({
   serverFunctions = [],
   packagesAdded = [],
   filesChanged = [],
+  terminalCommands = [],
 }: {
   sqlQueries?: Array<SqlQuery>;
   serverFunctions?: FileChange[];
   packagesAdded?: string[];
   filesChanged?: FileChange[];
+  terminalCommands?: ProposedTerminalCommand[];
 }) {
   // If no changes, show a simple message
   if (
     !sqlQueries.length &&
     !serverFunctions.length &&
     !packagesAdded.length &&
-    !filesChanged.length
+    !filesChanged.length &&
+    !terminalCommands.length
   ) {
     return <span>No changes</span>;
   }
@@ -894,6 +949,14 @@ function ProposalSummary({
     );
   }
 
+  if (terminalCommands.length) {
+    parts.push(
+      `${terminalCommands.length} ${
+        terminalCommands.length === 1 ? "command" : "commands"
+      }`,
+    );
+  }
+
   // Join all parts with separator
   return <span>{parts.join(" | ")}</span>;
 }
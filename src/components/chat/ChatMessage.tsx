@@ -5,12 +5,23 @@ import {
 } from "./DyadMarkdownParser";
 import { motion } from "framer-motion";
 import { useStreamChat } from "@/hooks/useStreamChat";
-import { CheckCircle, XCircle, Clock, GitCommit } from "lucide-react";
+import {
+  CheckCircle,
+  XCircle,
+  Clock,
+  GitCommit,
+  GitBranch,
+  Coins,
+} from "lucide-react";
 import { formatDistanceToNow, format } from "date-fns";
 import { useVersions } from "@/hooks/useVersions";
 import { useAtomValue } from "jotai";
 import { selectedAppIdAtom } from "@/atoms/appAtoms";
+import { selectedChatIdAtom } from "@/atoms/chatAtoms";
+import { useChatForks } from "@/hooks/useChatForks";
 import { useMemo } from "react";
+import { useChatUsage } from "@/hooks/useTokenUsage";
+import { formatUsageSummary } from "@/lib/formatUsage";
 
 interface ChatMessageProps {
   message: Message;
@@ -20,6 +31,10 @@ interface ChatMessageProps {
 const ChatMessage = ({ message, isLastMessage }: ChatMessageProps) => {
   const { isStreaming } = useStreamChat();
   const appId = useAtomValue(selectedAppIdAtom);
+  const chatId = useAtomValue(selectedChatIdAtom);
+  const { forkChat, isForking } = useChatForks();
+  const { chatUsage } = useChatUsage(chatId ?? undefined);
+  const messageUsage = chatUsage?.byMessage[message.id];
   const { versions: liveVersions } = useVersions(appId);
   // Find the version that was active when this message was sent
   const messageVersion = useMemo(() => {
@@ -160,6 +175,33 @@ const ChatMessage = ({ message, isLastMessage }: ChatMessageProps) => {
                 )}
               </div>
             )}
+            {messageUsage && (
+              <div
+                className="flex items-center space-x-1"
+                data-testid="message-usage"
+              >
+                <Coins className="h-3 w-3" />
+                <span>{formatUsageSummary(messageUsage)}</span>
+              </div>
+            )}
+          </div>
+        )}
+        {appId && chatId && !isStreaming && (
+          <div
+            className={`mt-1 flex opacity-0 group-hover:opacity-100 transition-opacity ${
+              message.role === "assistant" ? "justify-start" : "justify-end"
+            }`}
+          >
+            <button
+              className="flex items-center space-x-1 text-xs text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100 disabled:opacity-50"
+              title="Start a new chat from this message on its own git branch"
+              disabled={isForking}
+              onClick={() => forkChat({ appId, chatId, messageId: message.id })}
+              data-testid="fork-chat-button"
+            >
+              <GitBranch className="h-3 w-3" />
+              <span>Fork from here</span>
+            </button>
           </div>
         )}
       </div>
@@ -0,0 +1,158 @@
+import React, { useState } from "react";
+import {
+  ChevronsDownUp,
+  ChevronsUpDown,
+  CheckCircle2,
+  FileText,
+  Undo2,
+  XCircle,
+} from "lucide-react";
+
+interface DyadApplyReportProps {
+  status?: string;
+  summary?: string;
+  children?: React.ReactNode;
+}
+
+interface ReportedOperation {
+  kind: string;
+  path: string;
+  status: string;
+  message: string;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+  applied:
+    "bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200",
+  skipped: "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300",
+  failed: "bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200",
+  "rolled-back":
+    "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200",
+  "not-applied":
+    "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300",
+};
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function parseOperations(content: string): ReportedOperation[] {
+  const operationTagRegex = /<operation\s+([^>]*)>([\s\S]*?)<\/operation>/g;
+  const attributeRegex = /([\w-]+)="([^"]*)"/g;
+  const operations: ReportedOperation[] = [];
+  let match;
+
+  while ((match = operationTagRegex.exec(content)) !== null) {
+    const attributes: Record<string, string> = {};
+    let attributeMatch;
+    while ((attributeMatch = attributeRegex.exec(match[1])) !== null) {
+      attributes[attributeMatch[1]] = decodeEntities(attributeMatch[2]);
+    }
+    operations.push({
+      kind: attributes.kind ?? "unknown",
+      path: attributes.path ?? `${attributes.from} → ${attributes.to}`,
+      status: attributes.status ?? "unknown",
+      message: decodeEntities(match[2].trim()),
+    });
+  }
+
+  return operations;
+}
+
+export const DyadApplyReport: React.FC<DyadApplyReportProps> = ({
+  status,
+  summary,
+  children,
+}) => {
+  // Failed and rolled back plans are expanded by default, since the user
+  // needs to see which operation caused it
+  const [isContentVisible, setIsContentVisible] = useState(
+    status !== "committed",
+  );
+
+  const operations = React.useMemo(
+    () => (typeof children === "string" ? parseOperations(children) : []),
+    [children],
+  );
+
+  const icon =
+    status === "committed" ? (
+      <CheckCircle2 size={16} className="text-green-600 dark:text-green-500" />
+    ) : status === "rolled-back" ? (
+      <Undo2 size={16} className="text-amber-600 dark:text-amber-500" />
+    ) : (
+      <XCircle size={16} className="text-red-600 dark:text-red-500" />
+    );
+
+  return (
+    <div
+      className="bg-(--background-lightest) hover:bg-(--background-lighter) rounded-lg px-4 py-2 border border-border my-2 cursor-pointer"
+      onClick={() => setIsContentVisible(!isContentVisible)}
+      data-testid="apply-report"
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {icon}
+          <span className="text-gray-700 dark:text-gray-300 font-medium text-sm">
+            {summary || `${operations.length} file operations`}
+          </span>
+        </div>
+        <div className="flex items-center">
+          {isContentVisible ? (
+            <ChevronsDownUp
+              size={20}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            />
+          ) : (
+            <ChevronsUpDown
+              size={20}
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            />
+          )}
+        </div>
+      </div>
+
+      {isContentVisible && operations.length > 0 && (
+        <div className="mt-4">
+          <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+            {operations.map((operation, index) => (
+              <div
+                key={`${operation.path}-${index}`}
+                className="flex items-start gap-3 py-2 px-3 border-b border-gray-200 dark:border-gray-700 last:border-b-0"
+              >
+                <FileText
+                  size={14}
+                  className="text-gray-500 flex-shrink-0 mt-1"
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {operation.kind}
+                    </span>
+                    <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                      {operation.path}
+                    </span>
+                    <span
+                      className={`text-xs px-2 py-0.5 rounded ${STATUS_STYLES[operation.status] ?? STATUS_STYLES.skipped}`}
+                    >
+                      {operation.status}
+                    </span>
+                  </div>
+                  {operation.message && (
+                    <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed">
+                      {operation.message}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -17,7 +17,9 @@ import { isStreamingAtom } from "@/atoms/chatAtoms";
 import { CustomTagState } from "./stateTypes";
 import { DyadOutput } from "./DyadOutput";
 import { DyadProblemSummary } from "./DyadProblemSummary";
+import { DyadApplyReport } from "./DyadApplyReport";
 import { IpcClient } from "@/ipc/ipc_client";
+import { parseDyadResponse } from "@/shared/dyad_tag_stream_parser";
 
 interface DyadMarkdownParserProps {
   content: string;
@@ -102,159 +104,27 @@ export const DyadMarkdownParser: React.FC<DyadMarkdownParserProps> = ({
 };
 
 /**
- * Pre-process content to handle unclosed custom tags
- * Adds closing tags at the end of the content for any unclosed custom tags
- * Assumes the opening tags are complete and valid
- * Returns the processed content and a map of in-progress tags
- */
-function preprocessUnclosedTags(content: string): {
-  processedContent: string;
-  inProgressTags: Map<string, Set<number>>;
-} {
-  const customTagNames = [
-    "dyad-write",
-    "dyad-rename",
-    "dyad-delete",
-    "dyad-add-dependency",
-    "dyad-execute-sql",
-    "dyad-add-integration",
-    "dyad-output",
-    "dyad-problem-report",
-    "dyad-chat-summary",
-    "dyad-edit",
-    "dyad-codebase-context",
-    "think",
-    "dyad-command",
-    "search_replace",
-  ];
-
-  let processedContent = content;
-  // Map to track which tags are in progress and their positions
-  const inProgressTags = new Map<string, Set<number>>();
-
-  // For each tag type, check if there are unclosed tags
-  for (const tagName of customTagNames) {
-    // Count opening and closing tags
-    const openTagPattern = new RegExp(`<${tagName}(?:\\s[^>]*)?>`, "g");
-    const closeTagPattern = new RegExp(`</${tagName}>`, "g");
-
-    // Track the positions of opening tags
-    const openingMatches: RegExpExecArray[] = [];
-    let match;
-
-    // Reset regex lastIndex to start from the beginning
-    openTagPattern.lastIndex = 0;
-
-    while ((match = openTagPattern.exec(processedContent)) !== null) {
-      openingMatches.push({ ...match });
-    }
-
-    const openCount = openingMatches.length;
-    const closeCount = (processedContent.match(closeTagPattern) || []).length;
-
-    // If we have more opening than closing tags
-    const missingCloseTags = openCount - closeCount;
-    if (missingCloseTags > 0) {
-      // Add the required number of closing tags at the end
-      processedContent += Array(missingCloseTags)
-        .fill(`</${tagName}>`)
-        .join("");
-
-      // Mark the last N tags as in progress where N is the number of missing closing tags
-      const inProgressIndexes = new Set<number>();
-      const startIndex = openCount - missingCloseTags;
-      for (let i = startIndex; i < openCount; i++) {
-        inProgressIndexes.add(openingMatches[i].index);
-      }
-      inProgressTags.set(tagName, inProgressIndexes);
-    }
-  }
-
-  return { processedContent, inProgressTags };
-}
-
-/**
- * Parse the content to extract custom tags and markdown sections into a unified array
+ * Parse the content to extract custom tags and markdown sections into a unified array.
+ * Uses the same parser as the main process so both agree on the emitted tags.
  */
 function parseCustomTags(content: string): ContentPiece[] {
-  const { processedContent, inProgressTags } = preprocessUnclosedTags(content);
+  const { nodes } = parseDyadResponse(content);
 
-  const customTagNames = [
-    "dyad-write",
-    "dyad-rename",
-    "dyad-delete",
-    "dyad-add-dependency",
-    "dyad-execute-sql",
-    "dyad-add-integration",
-    "dyad-output",
-    "dyad-problem-report",
-    "dyad-chat-summary",
-    "dyad-edit",
-    "dyad-codebase-context",
-    "think",
-    "dyad-command",
-    "run_terminal_cmd",
-    "search_replace",
-  ];
-
-  const tagPattern = new RegExp(
-    `<(${customTagNames.join("|")})\\s*([^>]*)>(.*?)<\\/\\1>`,
-    "gs",
-  );
-
-  const contentPieces: ContentPiece[] = [];
-  let lastIndex = 0;
-  let match;
-
-  // Find all custom tags
-  while ((match = tagPattern.exec(processedContent)) !== null) {
-    const [fullMatch, tag, attributesStr, tagContent] = match;
-    const startIndex = match.index;
-
-    // Add the markdown content before this tag
-    if (startIndex > lastIndex) {
-      contentPieces.push({
-        type: "markdown",
-        content: processedContent.substring(lastIndex, startIndex),
-      });
-    }
-
-    // Parse attributes
-    const attributes: Record<string, string> = {};
-    const attrPattern = /(\w+)="([^"]*)"/g;
-    let attrMatch;
-    while ((attrMatch = attrPattern.exec(attributesStr)) !== null) {
-      attributes[attrMatch[1]] = attrMatch[2];
+  return nodes.map((node): ContentPiece => {
+    if (node.kind === "text") {
+      return { type: "markdown", content: node.text };
     }
-
-    // Check if this tag was marked as in progress
-    const tagInProgressSet = inProgressTags.get(tag);
-    const isInProgress = tagInProgressSet?.has(startIndex);
-
-    // Add the tag info
-    contentPieces.push({
+    return {
       type: "custom-tag",
       tagInfo: {
-        tag,
-        attributes,
-        content: tagContent,
-        fullMatch,
-        inProgress: isInProgress || false,
+        tag: node.tag,
+        attributes: node.attributes,
+        content: node.content,
+        fullMatch: content.slice(node.start, node.end),
+        inProgress: !node.closed,
       },
-    });
-
-    lastIndex = startIndex + fullMatch.length;
-  }
-
-  // Add the remaining markdown content
-  if (lastIndex < processedContent.length) {
-    contentPieces.push({
-      type: "markdown",
-      content: processedContent.substring(lastIndex),
-    });
-  }
-
-  return contentPieces;
+    };
+  });
 }
 
 function getState({
@@ -420,6 +290,16 @@ function renderCustomTag(
         </DyadProblemSummary>
       );
 
+    case "dyad-apply-report":
+      return (
+        <DyadApplyReport
+          status={attributes.status}
+          summary={attributes.summary}
+        >
+          {content}
+        </DyadApplyReport>
+      );
+
     case "dyad-chat-summary":
       // Don't render anything for dyad-chat-summary
       return null;
@@ -437,6 +317,9 @@ function renderCustomTag(
         <DyadSearchReplace
           node={{
             properties: {
+              file: attributes.file || "",
+              description: attributes.description || "",
+              oldString: attributes.old_string,
               state: getState({ isStreaming, inProgress }),
             },
           }}
@@ -6,6 +6,7 @@ import {
   FileText,
 } from "lucide-react";
 import type { Problem } from "@/ipc/ipc_types";
+import { formatProblemCode } from "@/shared/problem_prompt";
 
 type ProblemWithoutSnippet = Omit<Problem, "snippet">;
 
@@ -38,7 +39,7 @@ const ProblemItem: React.FC<ProblemItemProps> = ({ problem, index }) => {
             {problem.line}:{problem.column}
           </span>
           <span className="text-xs bg-gray-100 dark:bg-gray-800 px-2 py-0.5 rounded text-gray-600 dark:text-gray-300">
-            TS{problem.code}
+            {formatProblemCode(problem)}
           </span>
         </div>
         <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed">
@@ -61,7 +62,7 @@ export const DyadProblemSummary: React.FC<DyadProblemSummaryProps> = ({
 
     // Parse structured format with <problem> tags
     const problemTagRegex =
-      /<problem\s+file="([^"]+)"\s+line="(\d+)"\s+column="(\d+)"\s+code="(\d+)">([^<]+)<\/problem>/g;
+      /<problem\s+file="([^"]+)"\s+line="(\d+)"\s+column="(\d+)"\s+code="(\d+)"(?:\s+source="(\w+)")?(?:\s+rule="([^"]+)")?(?:\s+severity="(\w+)")?>([^<]+)<\/problem>/g;
     const problems: ProblemWithoutSnippet[] = [];
     let match;
 
@@ -71,8 +72,14 @@ export const DyadProblemSummary: React.FC<DyadProblemSummaryProps> = ({
           file: match[1],
           line: parseInt(match[2], 10),
           column: parseInt(match[3], 10),
-          message: match[5].trim(),
+          message: match[8].trim(),
           code: parseInt(match[4], 10),
+          source:
+            match[5] === "python" || match[5] === "eslint"
+              ? match[5]
+              : undefined,
+          ruleId: match[6],
+          severity: match[7] === "warning" ? "warning" : undefined,
         });
       } catch {
         return [
@@ -2,39 +2,87 @@ import React, { useState, useEffect } from "react";
 import { Search, ChevronDown, ChevronUp, Loader, FileText } from "lucide-react";
 import { VanillaMarkdownParser } from "./DyadMarkdownParser";
 import { CustomTagState } from "./stateTypes";
+import {
+  SearchReplaceHunk,
+  diffLines,
+  parseSearchReplaceHunks,
+} from "@/shared/search_replace";
 
 interface DyadSearchReplaceProps {
   node?: any;
   children?: React.ReactNode;
 }
 
-export const DyadSearchReplace: React.FC<DyadSearchReplaceProps> = ({ children, node }) => {
+const DIFF_LINE_STYLES = {
+  context: "text-gray-700 dark:text-gray-300",
+  removed:
+    "bg-red-50 dark:bg-red-950/30 text-red-800 dark:text-red-300 line-through decoration-red-300/50",
+  added: "bg-green-50 dark:bg-green-950/30 text-green-800 dark:text-green-300",
+};
+
+const DIFF_LINE_PREFIX = { context: " ", removed: "-", added: "+" };
+
+function HunkDiff({
+  hunk,
+  index,
+  total,
+}: {
+  hunk: SearchReplaceHunk;
+  index: number;
+  total: number;
+}) {
+  const lines = React.useMemo(
+    () => diffLines(hunk.search, hunk.replace),
+    [hunk.search, hunk.replace],
+  );
+  return (
+    <div className="space-y-1">
+      {total > 1 && (
+        <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+          Change {index + 1} of {total}
+        </div>
+      )}
+      <div className="border border-border rounded overflow-x-auto">
+        <pre className="text-xs font-mono py-1">
+          {lines.map((line, lineIndex) => (
+            <div
+              key={lineIndex}
+              className={`px-2 whitespace-pre ${DIFF_LINE_STYLES[line.type]}`}
+            >
+              <span className="select-none text-gray-400 mr-2">
+                {DIFF_LINE_PREFIX[line.type]}
+              </span>
+              {line.text}
+            </div>
+          ))}
+        </pre>
+      </div>
+    </div>
+  );
+}
+
+export const DyadSearchReplace: React.FC<DyadSearchReplaceProps> = ({
+  children,
+  node,
+}) => {
   const state = node?.properties?.state as CustomTagState;
   const inProgress = state === "pending";
   const [isExpanded, setIsExpanded] = useState(inProgress);
 
-  // Parse the search_replace content
-  const parseSearchReplaceContent = (content: string) => {
-    const fileMatch = content.match(/<file path="([^"]+)"[^>]*\/>/);
-    const searchMatch = content.match(/<search>([\s\S]*?)<\/search>/);
-    const replaceMatch = content.match(/<replace>([\s\S]*?)<\/replace>/);
-
-    return {
-      filePath: fileMatch ? fileMatch[1] : null,
-      searchContent: searchMatch ? searchMatch[1] : content, // fallback to full content
-      replaceContent: replaceMatch ? replaceMatch[1] : null,
-    };
-  };
-
-  // Get description from node properties if available
   const description = node?.properties?.description;
+  const filePath: string | undefined = node?.properties?.file;
+  // Older responses put the search text in an attribute
+  const legacySearch: string | undefined = node?.properties?.oldString;
 
-  const { filePath, searchContent, replaceContent } = React.useMemo(() => {
-    if (typeof children === "string") {
-      return parseSearchReplaceContent(children);
+  const hunks = React.useMemo(() => {
+    if (typeof children !== "string") {
+      return [];
     }
-    return { filePath: null, searchContent: children, replaceContent: null };
-  }, [children]);
+    if (legacySearch !== undefined) {
+      return [{ search: legacySearch, replace: children.trim() }];
+    }
+    return parseSearchReplaceHunks(children);
+  }, [children, legacySearch]);
 
   // Collapse when transitioning from in-progress to not-in-progress
   useEffect(() => {
@@ -66,6 +114,11 @@ export const DyadSearchReplace: React.FC<DyadSearchReplaceProps> = ({ children,
       >
         <Search size={16} className="text-purple-500" />
         <span>{description || "Search & Replace"}</span>
+        {hunks.length > 1 && (
+          <span className="font-normal text-gray-500">
+            ({hunks.length} changes)
+          </span>
+        )}
         {inProgress && (
           <Loader size={14} className="ml-1 text-purple-500 animate-spin" />
         )}
@@ -96,36 +149,17 @@ export const DyadSearchReplace: React.FC<DyadSearchReplaceProps> = ({ children,
             </div>
           )}
 
-          {/* Search content */}
-          {searchContent && (
-            <div className="space-y-1">
-              <div className="text-xs font-semibold text-red-600 dark:text-red-400 uppercase tracking-wide">
-                Search
-              </div>
-              <div className="border border-red-200 dark:border-red-800 rounded p-2 bg-red-50 dark:bg-red-950/20">
-                <pre className="text-xs font-mono text-gray-800 dark:text-gray-200 whitespace-pre-wrap overflow-x-auto">
-                  {typeof searchContent === "string" ? searchContent : String(searchContent)}
-                </pre>
-              </div>
-            </div>
-          )}
-
-          {/* Replace content */}
-          {replaceContent && (
-            <div className="space-y-1">
-              <div className="text-xs font-semibold text-green-600 dark:text-green-400 uppercase tracking-wide">
-                Replace
-              </div>
-              <div className="border border-green-200 dark:border-green-800 rounded p-2 bg-green-50 dark:bg-green-950/20">
-                <pre className="text-xs font-mono text-gray-800 dark:text-gray-200 whitespace-pre-wrap overflow-x-auto">
-                  {replaceContent}
-                </pre>
-              </div>
-            </div>
-          )}
+          {hunks.map((hunk, index) => (
+            <HunkDiff
+              key={index}
+              hunk={hunk}
+              index={index}
+              total={hunks.length}
+            />
+          ))}
 
-          {/* Fallback for unparsed content */}
-          {!filePath && !searchContent && !replaceContent && (
+          {/* Fallback for content without complete hunks, e.g. while streaming */}
+          {hunks.length === 0 && (
             <div className="text-sm text-gray-600 dark:text-gray-300">
               {typeof children === "string" ? (
                 <VanillaMarkdownParser content={children} />
@@ -138,4 +172,4 @@ export const DyadSearchReplace: React.FC<DyadSearchReplaceProps> = ({ children,
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,95 @@
+import { Terminal } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { ProposedTerminalCommand } from "@/lib/schemas";
+
+/**
+ * Ids of the commands to send with the approval: every command that needs
+ * approval, except the ones the user unchecked. Allowlisted commands run
+ * without being listed and denylisted ones never run.
+ */
+export function getApprovedCommandIds(
+  commands: ProposedTerminalCommand[],
+  deniedCommandIds: number[],
+): number[] {
+  return commands
+    .filter(
+      (command) =>
+        command.policy === "ask" && !deniedCommandIds.includes(command.id),
+    )
+    .map((command) => command.id);
+}
+
+const POLICY_BADGES: Record<
+  Exclude<ProposedTerminalCommand["policy"], "ask">,
+  { label: string; className: string }
+> = {
+  allow: {
+    label: "Allowlisted",
+    className:
+      "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200",
+  },
+  deny: {
+    label: "Blocked",
+    className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-200",
+  },
+};
+
+export function ProposalTerminalCommands({
+  commands,
+  deniedCommandIds,
+  onToggleCommand,
+}: {
+  commands: ProposedTerminalCommand[];
+  deniedCommandIds: number[];
+  onToggleCommand: (id: number, approved: boolean) => void;
+}) {
+  return (
+    <div className="mb-3">
+      <h4 className="font-semibold mb-1">Terminal Commands</h4>
+      <ul className="space-y-2">
+        {commands.map((command) => (
+          <li
+            key={command.id}
+            className="flex items-start space-x-2"
+            data-testid={`proposal-terminal-command-${command.id}`}
+          >
+            {command.policy === "ask" ? (
+              <Checkbox
+                className="mt-0.5"
+                checked={!deniedCommandIds.includes(command.id)}
+                onCheckedChange={(checked) =>
+                  onToggleCommand(command.id, checked === true)
+                }
+                aria-label={`Run ${command.command}`}
+              />
+            ) : (
+              <Terminal
+                size={16}
+                className="mt-0.5 flex-shrink-0 text-muted-foreground"
+              />
+            )}
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2">
+                <code className="font-mono text-xs break-all">
+                  {command.command}
+                </code>
+                {command.policy !== "ask" && (
+                  <span
+                    className={`text-xs px-1.5 py-0.5 rounded flex-shrink-0 ${POLICY_BADGES[command.policy].className}`}
+                  >
+                    {POLICY_BADGES[command.policy].label}
+                  </span>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                in {command.cwd === "." ? "app folder" : command.cwd} ·{" "}
+                {command.terminal} terminal
+                {command.description && ` · ${command.description}`}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { SupabaseRollbackPlan } from "@/ipc/ipc_types";
+
+interface SupabaseRollbackDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  plan: SupabaseRollbackPlan;
+  onRestore: (rollbackSupabaseSchema: boolean) => void;
+}
+
+// Asks whether restoring a version should also undo the database
+// migrations made after it
+export function SupabaseRollbackDialog({
+  isOpen,
+  onOpenChange,
+  plan,
+  onRestore,
+}: SupabaseRollbackDialogProps) {
+  const blockedIndex = plan.migrations.findIndex(
+    (migration) => !migration.hasDownScript,
+  );
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Roll back the database schema?</AlertDialogTitle>
+          <AlertDialogDescription asChild>
+            <div className="space-y-2">
+              <p>
+                {plan.migrations.length} Supabase migrations were made after
+                this version. Rolling back undoes them, newest first. Data in
+                the tables and columns they created is deleted.
+              </p>
+              <ul className="max-h-40 overflow-y-auto font-mono text-xs">
+                {plan.migrations.map((migration) => (
+                  <li key={migration.name}>
+                    {migration.name}
+                    {!migration.hasDownScript && (
+                      <span className="ml-2 font-sans text-yellow-700 dark:text-yellow-400">
+                        can't be undone automatically
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {blockedIndex !== -1 && (
+                <p>
+                  The rollback stops at {plan.migrations[blockedIndex].name}, so
+                  migrations before it are kept.
+                </p>
+              )}
+            </div>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => onRestore(false)}
+            className="bg-secondary text-secondary-foreground hover:bg-secondary/80"
+          >
+            Restore code only
+          </AlertDialogAction>
+          <AlertDialogAction
+            onClick={() => onRestore(true)}
+            disabled={blockedIndex === 0}
+            data-testid="restore-with-schema-button"
+          >
+            Restore code and schema
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,84 @@
+import { useSupabaseSchemaDiff } from "@/hooks/useVersionDiff";
+import type { SupabaseSchemaChange } from "@/ipc/ipc_types";
+import { cn } from "@/lib/utils";
+
+const CHANGE_STYLES: Record<SupabaseSchemaChange["change"], string> = {
+  added: "text-green-600 dark:text-green-400",
+  removed: "text-red-600 dark:text-red-400",
+  changed: "text-yellow-600 dark:text-yellow-400",
+};
+
+function DetailBlock({ label, text }: { label: string; text?: string }) {
+  if (!text) {
+    return null;
+  }
+  return (
+    <div className="min-w-0 flex-1">
+      <div className="text-muted-foreground">{label}</div>
+      <pre className="whitespace-pre-wrap break-all rounded bg-(--background-lightest) p-1.5">
+        {text}
+      </pre>
+    </div>
+  );
+}
+
+// Changes to the Supabase schema between two versions, from the snapshots
+// taken when SQL was executed
+export function SupabaseSchemaDiffView({
+  appId,
+  fromVersionId,
+  toVersionId,
+}: {
+  appId: number;
+  fromVersionId: string;
+  toVersionId: string | undefined;
+}) {
+  const { schemaDiff, isLoading } = useSupabaseSchemaDiff(
+    appId,
+    fromVersionId,
+    toVersionId,
+  );
+
+  if (isLoading) {
+    return <div className="p-2 text-sm text-muted-foreground">Loading...</div>;
+  }
+  if (!schemaDiff) {
+    return null;
+  }
+  if (!schemaDiff.hasFromSnapshot || !schemaDiff.hasToSnapshot) {
+    return (
+      <div className="p-2 text-sm text-muted-foreground">
+        No schema snapshot for{" "}
+        {schemaDiff.hasFromSnapshot ? "the newer" : "the older"} version.
+        Snapshots are taken when SQL is executed on the Supabase project.
+      </div>
+    );
+  }
+  if (schemaDiff.changes.length === 0) {
+    return (
+      <div className="p-2 text-sm text-muted-foreground">
+        The database schema is the same in both versions.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto divide-y divide-border text-xs">
+      {schemaDiff.changes.map((change) => (
+        <div key={`${change.kind}:${change.name}`} className="p-2 space-y-1">
+          <div className="flex items-center gap-2">
+            <span className={cn("font-medium", CHANGE_STYLES[change.change])}>
+              {change.change}
+            </span>
+            <span className="text-muted-foreground">{change.kind}</span>
+            <span className="font-mono">{change.name}</span>
+          </div>
+          <div className="flex gap-2">
+            <DetailBlock label="Before" text={change.before} />
+            <DetailBlock label="After" text={change.after} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
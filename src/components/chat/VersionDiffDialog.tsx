@@ -0,0 +1,353 @@
+import { useEffect, useRef, useState } from "react";
+import { DiffEditor, type DiffOnMount } from "@monaco-editor/react";
+import type { editor } from "monaco-editor";
+import { ChevronDown, ChevronUp, Loader2, RotateCcw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { getEditorLanguage } from "@/components/preview_panel/FileEditor";
+import { useTheme } from "@/contexts/ThemeContext";
+import {
+  useRestoreVersionFiles,
+  useVersionDiff,
+  useVersionFileDiff,
+} from "@/hooks/useVersionDiff";
+import type { Version, VersionFileChange } from "@/ipc/ipc_types";
+import { revertLineChange } from "@/lib/versionDiff";
+import { showSuccess } from "@/lib/toast";
+import { cn } from "@/lib/utils";
+import { SupabaseSchemaDiffView } from "./SupabaseSchemaDiffView";
+
+const STATUS_LABELS: Record<
+  VersionFileChange["status"],
+  { letter: string; className: string }
+> = {
+  added: { letter: "A", className: "text-green-600 dark:text-green-400" },
+  modified: { letter: "M", className: "text-yellow-600 dark:text-yellow-400" },
+  deleted: { letter: "D", className: "text-red-600 dark:text-red-400" },
+};
+
+interface VersionDiffDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  appId: number;
+  // Newest first, as listed in the version pane
+  versions: Version[];
+  versionId: string;
+  // Adds a view of the database schema changes
+  hasSupabaseProject: boolean;
+  onRestored: () => void;
+}
+
+/**
+ * Side-by-side diff of an older version against a newer one. Against the
+ * latest version, single files or hunks can be restored from the older
+ * version as a new commit.
+ */
+export function VersionDiffDialog({
+  isOpen,
+  onClose,
+  appId,
+  versions,
+  versionId,
+  hasSupabaseProject,
+  onRestored,
+}: VersionDiffDialogProps) {
+  const latestVersionId = versions[0]?.oid;
+  const [compareToId, setCompareToId] = useState(latestVersionId);
+  const [view, setView] = useState<"files" | "schema">("files");
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [lineChanges, setLineChanges] = useState<editor.ILineChange[]>([]);
+  const [hunkIndex, setHunkIndex] = useState(0);
+  const diffEditorRef = useRef<editor.IStandaloneDiffEditor | null>(null);
+  const { isDarkMode } = useTheme();
+
+  const { changes, isLoading } = useVersionDiff(appId, versionId, compareToId);
+  const { fileDiff, isLoading: isLoadingFile } = useVersionFileDiff(
+    appId,
+    versionId,
+    compareToId,
+    selectedPath,
+  );
+  const { restoreVersionFiles, isRestoring } = useRestoreVersionFiles(appId);
+  const canRestore = compareToId === latestVersionId;
+
+  const versionLabel = (oid: string) => {
+    const index = versions.findIndex((version) => version.oid === oid);
+    return `Version ${versions.length - index} (${oid.slice(0, 7)})`;
+  };
+
+  useEffect(() => {
+    setCompareToId(latestVersionId);
+  }, [versionId, latestVersionId]);
+
+  // Keep the selection when comparing against another version, if it
+  // changed there too
+  useEffect(() => {
+    if (!changes.some((change) => change.path === selectedPath)) {
+      setSelectedPath(changes[0]?.path ?? null);
+    }
+  }, [changes, selectedPath]);
+
+  useEffect(() => {
+    setLineChanges([]);
+    setHunkIndex(0);
+  }, [selectedPath, compareToId]);
+
+  const handleEditorMount: DiffOnMount = (diffEditor) => {
+    diffEditorRef.current = diffEditor;
+    diffEditor.onDidUpdateDiff(() => {
+      setLineChanges(diffEditor.getLineChanges() ?? []);
+      setHunkIndex(0);
+    });
+  };
+
+  const goToHunk = (index: number) => {
+    const change = lineChanges[index];
+    if (!change) {
+      return;
+    }
+    setHunkIndex(index);
+    diffEditorRef.current
+      ?.getModifiedEditor()
+      .revealLineInCenter(Math.max(change.modifiedStartLineNumber, 1));
+  };
+
+  const restore = async (files: { path: string; content?: string }[]) => {
+    await restoreVersionFiles({ versionId, files });
+    showSuccess(
+      files.length === 1
+        ? `Restored ${files[0].path} from ${versionLabel(versionId)}`
+        : `Restored ${files.length} files from ${versionLabel(versionId)}`,
+    );
+    onRestored();
+  };
+
+  const handleRestoreHunk = async () => {
+    const change = lineChanges[hunkIndex];
+    if (!fileDiff || !change) {
+      return;
+    }
+    await restore([
+      {
+        path: fileDiff.path,
+        content: revertLineChange(
+          fileDiff.original ?? "",
+          fileDiff.modified ?? "",
+          change,
+        ),
+      },
+    ]);
+  };
+
+  // Hunks only make sense when the file exists in both versions
+  const canRestoreHunks =
+    canRestore &&
+    fileDiff !== null &&
+    fileDiff.original !== null &&
+    fileDiff.modified !== null &&
+    lineChanges.length > 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[90vw] h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Changes since {versionLabel(versionId)}</DialogTitle>
+          <DialogDescription asChild>
+            <div className="flex items-center gap-2 text-sm">
+              <span>Compared with</span>
+              <Select value={compareToId} onValueChange={setCompareToId}>
+                <SelectTrigger className="h-7 w-[220px] text-xs">
+                  <SelectValue placeholder="Version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions
+                    .filter((version) => version.oid !== versionId)
+                    .map((version) => (
+                      <SelectItem
+                        key={version.oid}
+                        value={version.oid}
+                        className="text-xs"
+                      >
+                        {version.oid === latestVersionId
+                          ? `Latest: ${versionLabel(version.oid)}`
+                          : versionLabel(version.oid)}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {!canRestore && (
+                <span className="text-xs text-muted-foreground">
+                  Compare with the latest version to restore changes.
+                </span>
+              )}
+              {hasSupabaseProject && (
+                <div className="ml-auto flex rounded-md border border-border text-xs">
+                  {(["files", "schema"] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setView(option)}
+                      className={cn(
+                        "px-2 py-1",
+                        view === option && "bg-(--background-lightest)",
+                      )}
+                      data-testid={`version-diff-view-${option}`}
+                    >
+                      {option === "files" ? "Files" : "Database schema"}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </DialogDescription>
+        </DialogHeader>
+        {view === "schema" && (
+          <div className="flex-1 min-h-0 border border-border rounded-md">
+            <SupabaseSchemaDiffView
+              appId={appId}
+              fromVersionId={versionId}
+              toVersionId={compareToId}
+            />
+          </div>
+        )}
+        <div
+          className={cn(
+            "flex flex-1 min-h-0 gap-2",
+            view !== "files" && "hidden",
+          )}
+        >
+          <div className="w-64 flex-shrink-0 overflow-y-auto border border-border rounded-md text-sm">
+            {isLoading && (
+              <div className="p-2 text-muted-foreground">Loading...</div>
+            )}
+            {!isLoading && changes.length === 0 && (
+              <div className="p-2 text-muted-foreground">No changes</div>
+            )}
+            {changes.map((change) => (
+              <button
+                key={change.path}
+                onClick={() => setSelectedPath(change.path)}
+                className={cn(
+                  "flex w-full items-center gap-2 px-2 py-1 text-left hover:bg-(--background-lightest)",
+                  selectedPath === change.path && "bg-(--background-lightest)",
+                )}
+                title={change.path}
+                data-testid={`version-diff-file-${change.path}`}
+              >
+                <span
+                  className={cn(
+                    "font-mono text-xs",
+                    STATUS_LABELS[change.status].className,
+                  )}
+                >
+                  {STATUS_LABELS[change.status].letter}
+                </span>
+                <span className="truncate">{change.path}</span>
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-1 min-w-0 flex-col border border-border rounded-md">
+            {selectedPath && (
+              <div className="flex items-center gap-2 px-2 py-1 border-b border-border text-xs">
+                <span className="truncate flex-1 font-mono">
+                  {selectedPath}
+                </span>
+                {lineChanges.length > 0 && (
+                  <>
+                    <span className="text-muted-foreground">
+                      Change {hunkIndex + 1} of {lineChanges.length}
+                    </span>
+                    <button
+                      onClick={() => goToHunk(hunkIndex - 1)}
+                      disabled={hunkIndex === 0}
+                      className="p-0.5 rounded hover:bg-(--background-lightest) disabled:opacity-50"
+                      title="Previous change"
+                    >
+                      <ChevronUp size={14} />
+                    </button>
+                    <button
+                      onClick={() => goToHunk(hunkIndex + 1)}
+                      disabled={hunkIndex >= lineChanges.length - 1}
+                      className="p-0.5 rounded hover:bg-(--background-lightest) disabled:opacity-50"
+                      title="Next change"
+                    >
+                      <ChevronDown size={14} />
+                    </button>
+                  </>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-6 text-xs"
+                  onClick={handleRestoreHunk}
+                  disabled={!canRestoreHunks || isRestoring}
+                  title="Put this change back the way it was in the older version"
+                >
+                  Restore change
+                </Button>
+                <Button
+                  size="sm"
+                  className="h-6 text-xs"
+                  onClick={() => restore([{ path: selectedPath }])}
+                  disabled={!canRestore || isRestoring}
+                  title="Restore the whole file from the older version"
+                  data-testid="restore-version-file-button"
+                >
+                  {isRestoring ? (
+                    <Loader2 size={12} className="animate-spin" />
+                  ) : (
+                    <RotateCcw size={12} />
+                  )}
+                  Restore file
+                </Button>
+              </div>
+            )}
+            <div className="flex-1 min-h-0">
+              {isLoadingFile && (
+                <div className="p-2 text-sm text-muted-foreground">
+                  Loading...
+                </div>
+              )}
+              {fileDiff?.isBinary && (
+                <div className="p-2 text-sm text-muted-foreground">
+                  Binary or very large file, not shown.
+                </div>
+              )}
+              {fileDiff && !fileDiff.isBinary && (
+                <DiffEditor
+                  height="100%"
+                  original={fileDiff.original ?? ""}
+                  modified={fileDiff.modified ?? ""}
+                  language={getEditorLanguage(fileDiff.path)}
+                  theme={isDarkMode ? "dyad-dark" : "dyad-light"}
+                  onMount={handleEditorMount}
+                  options={{
+                    readOnly: true,
+                    originalEditable: false,
+                    renderSideBySide: true,
+                    scrollBeyondLastLine: false,
+                    automaticLayout: true,
+                    minimap: { enabled: false },
+                    fontSize: 13,
+                  }}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
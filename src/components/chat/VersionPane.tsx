@@ -2,8 +2,10 @@ import { useAtom, useAtomValue } from "jotai";
 import { selectedAppIdAtom, selectedVersionIdAtom } from "@/atoms/appAtoms";
 import { useVersions } from "@/hooks/useVersions";
 import { formatDistanceToNow } from "date-fns";
-import { RotateCcw, X, Database, Loader2 } from "lucide-react";
-import type { Version } from "@/ipc/ipc_types";
+import { RotateCcw, X, Database, Loader2, GitCompare } from "lucide-react";
+import type { SupabaseRollbackPlan, Version } from "@/ipc/ipc_types";
+import { IpcClient } from "@/ipc/ipc_client";
+import { showError } from "@/lib/toast";
 import { cn } from "@/lib/utils";
 import { useEffect, useRef, useState } from "react";
 import { useCheckoutVersion } from "@/hooks/useCheckoutVersion";
@@ -15,6 +17,8 @@ import {
 } from "@/components/ui/tooltip";
 
 import { useRunApp } from "@/hooks/useRunApp";
+import { VersionDiffDialog } from "./VersionDiffDialog";
+import { SupabaseRollbackDialog } from "./SupabaseRollbackDialog";
 
 interface VersionPaneProps {
   isVisible: boolean;
@@ -38,6 +42,11 @@ export function VersionPane({ isVisible, onClose }: VersionPaneProps) {
   const { checkoutVersion, isCheckingOutVersion } = useCheckoutVersion();
   const wasVisibleRef = useRef(false);
   const [cachedVersions, setCachedVersions] = useState<Version[]>([]);
+  const [diffVersionId, setDiffVersionId] = useState<string | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<{
+    version: Version;
+    plan: SupabaseRollbackPlan;
+  } | null>(null);
 
   useEffect(() => {
     async function updatePaneState() {
@@ -100,6 +109,43 @@ export function VersionPane({ isVisible, onClose }: VersionPaneProps) {
     }
   };
 
+  const restoreVersion = async (
+    version: Version,
+    rollbackSupabaseSchema = false,
+  ) => {
+    await revertVersion({
+      versionId: version.oid,
+      rollbackSupabaseSchema,
+    });
+    setSelectedVersionId(null);
+    // Close the pane after revert to force a refresh on next open
+    onClose();
+    if (version.dbTimestamp) {
+      await restartApp();
+    }
+  };
+
+  // Supabase apps are asked whether to undo the migrations made since
+  const handleRestoreClick = async (version: Version) => {
+    if (appId && app?.supabaseProjectId) {
+      let plan: SupabaseRollbackPlan;
+      try {
+        plan = await IpcClient.getInstance().getSupabaseRollbackPlan({
+          appId,
+          versionId: version.oid,
+        });
+      } catch (error) {
+        showError(error);
+        return;
+      }
+      if (plan.migrations.length > 0) {
+        setPendingRestore({ version, plan });
+        return;
+      }
+    }
+    await restoreVersion(version);
+  };
+
   const versions = cachedVersions.length > 0 ? cachedVersions : liveVersions;
 
   return (
@@ -220,22 +266,37 @@ export function VersionPane({ isVisible, onClose }: VersionPaneProps) {
                   )}
 
                   <div className="flex items-center gap-1">
+                    {/* Changes button */}
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDiffVersionId(version.oid);
+                          }}
+                          className={cn(
+                            "invisible mt-1 flex items-center gap-1 px-2 py-0.5 text-sm font-medium border border-border hover:bg-(--background-lightest) rounded-md transition-colors",
+                            selectedVersionId === version.oid && "visible",
+                          )}
+                          aria-label="Show changes since this version"
+                          data-testid="version-changes-button"
+                        >
+                          <GitCompare size={12} />
+                          <span>Changes</span>
+                        </button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        Compare with later versions and restore single files or
+                        changes
+                      </TooltipContent>
+                    </Tooltip>
                     {/* Restore button */}
                     <Tooltip>
                       <TooltipTrigger asChild>
                         <button
                           onClick={async (e) => {
                             e.stopPropagation();
-
-                            await revertVersion({
-                              versionId: version.oid,
-                            });
-                            setSelectedVersionId(null);
-                            // Close the pane after revert to force a refresh on next open
-                            onClose();
-                            if (version.dbTimestamp) {
-                              await restartApp();
-                            }
+                            await handleRestoreClick(version);
                           }}
                           disabled={isRevertingVersion}
                           className={cn(
@@ -269,6 +330,34 @@ export function VersionPane({ isVisible, onClose }: VersionPaneProps) {
           </div>
         )}
       </div>
+      {pendingRestore && (
+        <SupabaseRollbackDialog
+          isOpen
+          onOpenChange={(open) => !open && setPendingRestore(null)}
+          plan={pendingRestore.plan}
+          onRestore={(rollbackSupabaseSchema) => {
+            setPendingRestore(null);
+            restoreVersion(pendingRestore.version, rollbackSupabaseSchema);
+          }}
+        />
+      )}
+      {appId && diffVersionId && (
+        <VersionDiffDialog
+          isOpen
+          onClose={() => setDiffVersionId(null)}
+          appId={appId}
+          versions={versions}
+          versionId={diffVersionId}
+          hasSupabaseProject={!!app?.supabaseProjectId}
+          onRestored={() => {
+            setDiffVersionId(null);
+            // The restore was committed on the latest version, which is now
+            // checked out. Close the pane so it's reloaded on next open.
+            setSelectedVersionId(null);
+            onClose();
+          }}
+        />
+      )}
     </div>
   );
 }
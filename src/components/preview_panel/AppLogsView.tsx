@@ -0,0 +1,236 @@
+import { useEffect, useRef, useState } from "react";
+import { useAtomValue, useSetAtom } from "jotai";
+import { Download, Paperclip, Search, Trash2 } from "lucide-react";
+import { selectedAppIdAtom } from "@/atoms/appAtoms";
+import { attachedAppLogErrorCountAtom } from "@/atoms/previewAtoms";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAppLogRuns, useAppLogs } from "@/hooks/useAppLogs";
+import type { AppLogLevel, AppLogSource } from "@/ipc/ipc_types";
+import { showSuccess } from "@/lib/toast";
+
+const LATEST_RUN = "latest";
+// Error lines attached to the chat by the "Add errors to chat" button
+const CHAT_CONTEXT_ERROR_LINES = 20;
+
+const LEVELS: { value: AppLogLevel; label: string; className: string }[] = [
+  {
+    value: "error",
+    label: "Errors",
+    className: "text-red-600 dark:text-red-400",
+  },
+  {
+    value: "warn",
+    label: "Warnings",
+    className: "text-yellow-700 dark:text-yellow-400",
+  },
+  { value: "info", label: "Info", className: "" },
+];
+
+const SOURCES: { value: AppLogSource; label: string }[] = [
+  { value: "frontend", label: "Frontend" },
+  { value: "backend", label: "Backend" },
+  { value: "proxy", label: "Proxy" },
+  { value: "client-error", label: "Browser" },
+];
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value)
+    ? values.filter((v) => v !== value)
+    : [...values, value];
+}
+
+function FilterChip({
+  label,
+  isActive,
+  onClick,
+}: {
+  label: string;
+  isActive: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-1.5 py-0.5 rounded border ${isActive ? "border-primary bg-primary/10" : "border-border text-muted-foreground"}`}
+    >
+      {label}
+    </button>
+  );
+}
+
+// Filterable view of the app's recorded output, one run at a time
+export function AppLogsView() {
+  const appId = useAtomValue(selectedAppIdAtom);
+  const setAttachedErrorCount = useSetAtom(attachedAppLogErrorCountAtom);
+  const [runValue, setRunValue] = useState(LATEST_RUN);
+  const [levels, setLevels] = useState<AppLogLevel[]>(
+    LEVELS.map((level) => level.value),
+  );
+  const [sources, setSources] = useState<AppLogSource[]>(
+    SOURCES.map((source) => source.value),
+  );
+  const [pattern, setPattern] = useState("");
+  const isPatternValid = isValidPattern(pattern);
+
+  const { runs } = useAppLogRuns(appId);
+  const runId = runValue === LATEST_RUN ? null : parseInt(runValue, 10);
+  const { entries, isLoading, exportRun, isExporting, clearLogs } = useAppLogs(
+    appId,
+    {
+      runId,
+      levels,
+      sources,
+      // Don't send a half-typed pattern that can't be compiled
+      pattern: isPatternValid ? pattern : "",
+    },
+  );
+  const selectedRun =
+    runId === null ? runs[0] : runs.find((run) => run.runId === runId);
+
+  // Follow new output unless the user scrolled up to read older lines
+  const listRef = useRef<HTMLDivElement>(null);
+  const isAtBottomRef = useRef(true);
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && isAtBottomRef.current) {
+      list.scrollTop = list.scrollHeight;
+    }
+  }, [entries]);
+
+  const handleExport = async () => {
+    if (selectedRun && (await exportRun(selectedRun.runId))) {
+      showSuccess("Logs exported");
+    }
+  };
+
+  const handleClear = async () => {
+    await clearLogs();
+    setRunValue(LATEST_RUN);
+  };
+
+  return (
+    <div className="flex flex-col h-full text-xs">
+      <div className="flex flex-wrap items-center gap-1.5 px-2 py-1 border-b border-border">
+        <Select value={runValue} onValueChange={setRunValue}>
+          <SelectTrigger className="h-6 w-[150px] text-xs">
+            <SelectValue placeholder="Run" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={LATEST_RUN}>Latest run</SelectItem>
+            {runs.map((run) => (
+              <SelectItem key={run.runId} value={run.runId.toString()}>
+                Run at {new Date(run.startedAt).toLocaleTimeString()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {LEVELS.map((level) => (
+          <FilterChip
+            key={level.value}
+            label={level.label}
+            isActive={levels.includes(level.value)}
+            onClick={() => setLevels(toggle(levels, level.value))}
+          />
+        ))}
+        <span className="w-px h-4 bg-border" />
+        {SOURCES.map((source) => (
+          <FilterChip
+            key={source.value}
+            label={source.label}
+            isActive={sources.includes(source.value)}
+            onClick={() => setSources(toggle(sources, source.value))}
+          />
+        ))}
+        <div className="flex items-center gap-1">
+          <Search size={12} className="text-muted-foreground" />
+          <input
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder="Filter (regex)"
+            className={`w-32 bg-transparent border rounded px-1.5 py-0.5 outline-none ${isPatternValid ? "border-border focus:border-primary" : "border-red-500"}`}
+            title={isPatternValid ? undefined : "Invalid regular expression"}
+            data-testid="app-logs-filter-input"
+          />
+        </div>
+        <div className="flex-1" />
+        <button
+          onClick={() => setAttachedErrorCount(CHAT_CONTEXT_ERROR_LINES)}
+          disabled={!runs[0]?.errorCount}
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded hover:bg-[var(--background-darkest)] disabled:opacity-50"
+          title={`Add the last ${CHAT_CONTEXT_ERROR_LINES} error lines of the latest run to your next chat message`}
+          data-testid="attach-app-log-errors-button"
+        >
+          <Paperclip size={12} />
+          Add errors to chat
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={!selectedRun || isExporting}
+          className="p-1 rounded hover:bg-[var(--background-darkest)] disabled:opacity-50"
+          title="Export this run's logs"
+        >
+          <Download size={14} />
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={runs.length === 0}
+          className="p-1 rounded hover:bg-[var(--background-darkest)] disabled:opacity-50"
+          title="Clear logs"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+      {selectedRun && selectedRun.droppedCount > 0 && (
+        <div className="px-3 py-1 text-muted-foreground border-b border-border">
+          {selectedRun.droppedCount} older lines of this run were dropped.
+        </div>
+      )}
+      <div
+        ref={listRef}
+        onScroll={(e) => {
+          const list = e.currentTarget;
+          isAtBottomRef.current =
+            list.scrollHeight - list.scrollTop - list.clientHeight < 20;
+        }}
+        className="flex-1 min-h-0 overflow-auto font-mono px-3 py-1"
+      >
+        {!isLoading && entries.length === 0 && (
+          <div className="text-muted-foreground py-2">
+            {runs.length === 0
+              ? "No logs yet. Output is recorded while the app runs."
+              : "No log lines match the filters."}
+          </div>
+        )}
+        {entries.map((entry) => (
+          <div
+            key={entry.id}
+            className={`flex gap-2 whitespace-pre-wrap break-all ${LEVELS.find((level) => level.value === entry.level)?.className ?? ""}`}
+          >
+            <span className="flex-shrink-0 text-muted-foreground">
+              {new Date(entry.timestamp).toLocaleTimeString()}
+            </span>
+            <span className="flex-shrink-0 text-muted-foreground w-20 truncate">
+              [{entry.source}]
+            </span>
+            <span>{entry.text}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import { useEffect, useState } from "react";
+import { useAtom } from "jotai";
+import { Loader2, SlidersHorizontal, X } from "lucide-react";
+import { selectedComponentPreviewAtom } from "@/atoms/previewAtoms";
+import { useComponentEditor } from "@/hooks/useComponentEditor";
+import type { ComponentEdit, ComponentSource } from "@/ipc/ipc_types";
+import {
+  TAILWIND_CLASS_GROUPS,
+  groupTailwindClasses,
+  updateTailwindClassGroup,
+  type TailwindClassGroup,
+} from "@/lib/tailwind_classes";
+import { showSuccess } from "@/lib/toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+const GROUP_LABELS: Record<TailwindClassGroup, string> = {
+  spacing: "Spacing",
+  color: "Color",
+  typography: "Typography",
+  other: "Other classes",
+};
+
+interface Draft {
+  text: string | null;
+  classGroups: Record<TailwindClassGroup, string> | null;
+  props: Record<string, string>;
+}
+
+function createDraft(source: ComponentSource): Draft {
+  return {
+    text: source.text,
+    classGroups:
+      source.className === null ? null : groupTailwindClasses(source.className),
+    props: Object.fromEntries(
+      source.props.map((prop) => [prop.name, prop.value]),
+    ),
+  };
+}
+
+// Only the fields that changed, so untouched source stays as written
+function getEdit(source: ComponentSource, draft: Draft): ComponentEdit {
+  const edit: ComponentEdit = {};
+  if (draft.text !== null && draft.text !== source.text) {
+    edit.text = draft.text;
+  }
+  if (source.className !== null && draft.classGroups) {
+    const groups = groupTailwindClasses(source.className);
+    let className = source.className;
+    for (const group of TAILWIND_CLASS_GROUPS) {
+      if (draft.classGroups[group].trim() !== groups[group]) {
+        className = updateTailwindClassGroup(
+          className,
+          group,
+          draft.classGroups[group],
+        );
+      }
+    }
+    if (className !== source.className) {
+      edit.className = className;
+    }
+  }
+  const props: Record<string, string> = {};
+  for (const prop of source.props) {
+    if (prop.kind !== "expression" && draft.props[prop.name] !== prop.value) {
+      props[prop.name] = draft.props[prop.name];
+    }
+  }
+  if (Object.keys(props).length > 0) {
+    edit.props = props;
+  }
+  return edit;
+}
+
+/**
+ * Side panel for the element selected in the preview. Edits are written to
+ * the source file and committed as a version, without going through the AI.
+ */
+export function ComponentInspector({ appId }: { appId: number }) {
+  const [selection, setSelection] = useAtom(selectedComponentPreviewAtom);
+  const { source, isLoading, error, applyEdit, isApplying } =
+    useComponentEditor(appId, selection);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  useEffect(() => {
+    setDraft(source ? createDraft(source) : null);
+  }, [source]);
+
+  if (!selection) {
+    return null;
+  }
+
+  const edit = source && draft ? getEdit(source, draft) : {};
+  const hasChanges = Object.keys(edit).length > 0;
+  const classGroups = draft?.classGroups ?? null;
+
+  const handleApply = async () => {
+    await applyEdit(edit);
+    showSuccess(`Updated <${source?.tagName}> in ${selection.relativePath}`);
+  };
+
+  return (
+    <aside
+      className="flex w-72 flex-shrink-0 flex-col border-l border-border bg-background"
+      data-testid="component-inspector"
+    >
+      <div className="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+        <div className="flex items-center gap-2 overflow-hidden">
+          <SlidersHorizontal size={16} className="flex-shrink-0" />
+          <div className="flex flex-col overflow-hidden">
+            <span className="truncate text-sm font-medium">
+              {source ? `<${source.tagName}>` : selection.name}
+            </span>
+            <span
+              className="truncate text-xs text-muted-foreground"
+              title={`${selection.relativePath}:${selection.lineNumber}`}
+            >
+              {selection.relativePath}:{selection.lineNumber}
+            </span>
+          </div>
+        </div>
+        <button
+          onClick={() => setSelection(null)}
+          className="flex-shrink-0 rounded p-1 hover:bg-gray-200 dark:hover:bg-gray-700"
+          title="Close inspector"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 space-y-4 overflow-y-auto p-3">
+        {isLoading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 size={16} className="animate-spin" />
+            Reading the source...
+          </div>
+        )}
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">
+            {error.message}
+          </p>
+        )}
+        {source && draft && (
+          <>
+            <section className="space-y-1.5">
+              <Label htmlFor="component-inspector-text">Text</Label>
+              {draft.text === null ? (
+                <p className="text-xs text-muted-foreground">
+                  This element has no plain text of its own. Ask the AI to
+                  change its content.
+                </p>
+              ) : (
+                <Textarea
+                  id="component-inspector-text"
+                  value={draft.text}
+                  onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                  rows={3}
+                />
+              )}
+            </section>
+
+            <section className="space-y-2">
+              <h4 className="text-sm font-medium">Tailwind classes</h4>
+              {classGroups === null ? (
+                <p className="text-xs text-muted-foreground">
+                  The classes are computed in code, so they're listed under
+                  props.
+                </p>
+              ) : (
+                TAILWIND_CLASS_GROUPS.map((group) => (
+                  <div key={group} className="space-y-1">
+                    <Label
+                      htmlFor={`component-inspector-${group}`}
+                      className="text-xs text-muted-foreground"
+                    >
+                      {GROUP_LABELS[group]}
+                    </Label>
+                    <Input
+                      id={`component-inspector-${group}`}
+                      value={classGroups[group]}
+                      onChange={(e) =>
+                        setDraft({
+                          ...draft,
+                          classGroups: {
+                            ...classGroups,
+                            [group]: e.target.value,
+                          },
+                        })
+                      }
+                      className="h-8 font-mono text-xs"
+                      spellCheck={false}
+                    />
+                  </div>
+                ))
+              )}
+            </section>
+
+            <section className="space-y-2">
+              <h4 className="text-sm font-medium">Props</h4>
+              {source.props.length === 0 && (
+                <p className="text-xs text-muted-foreground">No props</p>
+              )}
+              {source.props.map((prop) => (
+                <div key={prop.name} className="space-y-1">
+                  {prop.kind === "boolean" ? (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`component-inspector-prop-${prop.name}`}
+                        checked={draft.props[prop.name] === "true"}
+                        onCheckedChange={(checked) =>
+                          setDraft({
+                            ...draft,
+                            props: {
+                              ...draft.props,
+                              [prop.name]: String(checked === true),
+                            },
+                          })
+                        }
+                      />
+                      <Label
+                        htmlFor={`component-inspector-prop-${prop.name}`}
+                        className="font-mono text-xs"
+                      >
+                        {prop.name}
+                      </Label>
+                    </div>
+                  ) : (
+                    <>
+                      <Label
+                        htmlFor={`component-inspector-prop-${prop.name}`}
+                        className="font-mono text-xs text-muted-foreground"
+                      >
+                        {prop.name}
+                      </Label>
+                      {prop.kind === "expression" ? (
+                        <code
+                          className="block truncate rounded bg-muted px-2 py-1 text-xs text-muted-foreground"
+                          title="Set by an expression; ask the AI to change it"
+                        >
+                          {prop.value}
+                        </code>
+                      ) : (
+                        <Input
+                          id={`component-inspector-prop-${prop.name}`}
+                          type={prop.kind === "number" ? "number" : "text"}
+                          value={draft.props[prop.name]}
+                          onChange={(e) =>
+                            setDraft({
+                              ...draft,
+                              props: {
+                                ...draft.props,
+                                [prop.name]: e.target.value,
+                              },
+                            })
+                          }
+                          className="h-8 text-xs"
+                        />
+                      )}
+                    </>
+                  )}
+                </div>
+              ))}
+            </section>
+          </>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2 border-t border-border p-3">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!hasChanges || isApplying}
+          onClick={() => source && setDraft(createDraft(source))}
+        >
+          Reset
+        </Button>
+        <Button
+          size="sm"
+          disabled={!hasChanges || isApplying}
+          onClick={handleApply}
+        >
+          {isApplying && <Loader2 size={14} className="mr-1 animate-spin" />}
+          Apply
+        </Button>
+      </div>
+    </aside>
+  );
+}
@@ -1,12 +1,174 @@
+import { useEffect, useState } from "react";
 import {
   appOutputAtom,
   frontendTerminalOutputAtom,
   backendTerminalOutputAtom,
+  selectedAppIdAtom,
 } from "@/atoms/appAtoms";
-import { useAtomValue } from "jotai";
+import { attachedTerminalSessionAtom } from "@/atoms/previewAtoms";
+import { useAtom, useAtomValue } from "jotai";
+import { Paperclip, Plus, SquareTerminal, X } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { PtyLocation } from "@/ipc/ipc_types";
+import { usePtySessions } from "@/hooks/usePtySessions";
+import { PtyTerminal } from "./PtyTerminal";
+import { AppLogsView } from "./AppLogsView";
+
+const OUTPUT_TAB = "output";
+const LOGS_TAB = "logs";
 
-// Console component with side-by-side terminal support
+// Console with the app output and a tab for each interactive terminal
 export const Console = () => {
+  const appId = useAtomValue(selectedAppIdAtom);
+  const { sessions, refreshSessions, createSession, isCreating, killSession } =
+    usePtySessions(appId);
+  const [activeTab, setActiveTab] = useState(OUTPUT_TAB);
+  const [attachedSession, setAttachedSession] = useAtom(
+    attachedTerminalSessionAtom,
+  );
+
+  // Pick up the exit code of terminals that exit
+  useEffect(() => {
+    return IpcClient.getInstance().onPtyExit(() => {
+      refreshSessions();
+    });
+  }, [refreshSessions]);
+
+  // Fall back to the output when the active terminal is gone, e.g. after
+  // switching apps
+  useEffect(() => {
+    if (
+      activeTab !== OUTPUT_TAB &&
+      activeTab !== LOGS_TAB &&
+      !sessions.some((session) => session.sessionId === activeTab)
+    ) {
+      setActiveTab(OUTPUT_TAB);
+    }
+  }, [activeTab, sessions]);
+
+  const openTerminal = async (location: PtyLocation) => {
+    // The terminal fits itself to the panel once it is shown
+    const session = await createSession({ location, cols: 80, rows: 24 });
+    setActiveTab(session.sessionId);
+  };
+
+  const closeTerminal = async (sessionId: string) => {
+    if (attachedSession?.sessionId === sessionId) {
+      setAttachedSession(null);
+    }
+    await killSession(sessionId);
+  };
+
+  const activeSession = sessions.find(
+    (session) => session.sessionId === activeTab,
+  );
+  const isActiveSessionAttached =
+    !!activeSession && attachedSession?.sessionId === activeSession.sessionId;
+  const locationCounts: Record<PtyLocation, number> = {
+    frontend: 0,
+    backend: 0,
+  };
+  const tabLabels = sessions.map((session) => {
+    const count = ++locationCounts[session.location];
+    const name = session.location === "frontend" ? "Frontend" : "Backend";
+    return count > 1 ? `${name} ${count}` : name;
+  });
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div className="flex items-center gap-1 px-2 border-b border-border text-xs">
+        <button
+          onClick={() => setActiveTab(OUTPUT_TAB)}
+          className={`px-2 py-1.5 border-b-2 ${activeTab === OUTPUT_TAB ? "border-primary font-medium" : "border-transparent text-muted-foreground"}`}
+        >
+          Output
+        </button>
+        <button
+          onClick={() => setActiveTab(LOGS_TAB)}
+          className={`px-2 py-1.5 border-b-2 ${activeTab === LOGS_TAB ? "border-primary font-medium" : "border-transparent text-muted-foreground"}`}
+          data-testid="console-logs-tab"
+        >
+          Logs
+        </button>
+        {sessions.map((session, index) => (
+          <div
+            key={session.sessionId}
+            className={`flex items-center gap-1 px-2 py-1.5 border-b-2 ${activeTab === session.sessionId ? "border-primary font-medium" : "border-transparent text-muted-foreground"}`}
+          >
+            <button
+              onClick={() => setActiveTab(session.sessionId)}
+              className="flex items-center gap-1"
+              title={session.cwd}
+            >
+              <SquareTerminal size={12} />
+              {tabLabels[index]}
+              {session.exitCode !== null && " (exited)"}
+            </button>
+            <button
+              onClick={() => closeTerminal(session.sessionId)}
+              className="rounded hover:bg-[var(--background-darkest)]"
+              title="Close terminal"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+        <DropdownMenu>
+          <DropdownMenuTrigger
+            disabled={!appId || isCreating}
+            className="p-1 rounded hover:bg-[var(--background-darkest)] disabled:opacity-50"
+            title="New terminal"
+            data-testid="new-terminal-button"
+          >
+            <Plus size={14} />
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem onClick={() => openTerminal("frontend")}>
+              Frontend terminal
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => openTerminal("backend")}>
+              Backend terminal
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <div className="flex-1" />
+        {activeSession && (
+          <button
+            onClick={() =>
+              setAttachedSession(isActiveSessionAttached ? null : activeSession)
+            }
+            className={`flex items-center gap-1 px-2 py-1 rounded ${isActiveSessionAttached ? "bg-indigo-600/10 text-indigo-700 dark:text-indigo-300" : "text-muted-foreground hover:bg-[var(--background-darkest)]"}`}
+            title="Add this terminal's recent output to your next chat message"
+            data-testid="attach-terminal-button"
+          >
+            <Paperclip size={12} />
+            {isActiveSessionAttached ? "Attached to chat" : "Attach to chat"}
+          </button>
+        )}
+      </div>
+      <div className="flex-1 min-h-0">
+        {activeTab === OUTPUT_TAB && <AppOutputPanels />}
+        {activeTab === LOGS_TAB && <AppLogsView />}
+        {sessions.map((session) => (
+          <PtyTerminal
+            key={session.sessionId}
+            session={session}
+            isActive={activeTab === session.sessionId}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// App output with side-by-side terminal support
+const AppOutputPanels = () => {
   const appOutput = useAtomValue(appOutputAtom);
   const frontendTerminalOutput = useAtomValue(frontendTerminalOutputAtom);
   const backendTerminalOutput = useAtomValue(backendTerminalOutputAtom);
@@ -0,0 +1,559 @@
+import { useEffect, useState } from "react";
+import { useAtomValue } from "jotai";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronLeft,
+  ChevronRight,
+  Database,
+  Loader2,
+  Play,
+  Plus,
+  RefreshCw,
+  Table2,
+  TerminalSquare,
+  X,
+} from "lucide-react";
+import { selectedAppIdAtom } from "@/atoms/appAtoms";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  useDbBrowserRows,
+  useDbBrowserSource,
+  useDbBrowserTables,
+  useExecuteDbBrowserSql,
+} from "@/hooks/useDbBrowser";
+import type {
+  DbBrowserCell,
+  DbBrowserFilter,
+  DbBrowserFilterOperator,
+  DbBrowserResult,
+  DbBrowserTableRef,
+} from "@/ipc/ipc_types";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZE = 50;
+
+const OPERATORS: DbBrowserFilterOperator[] = [
+  "=",
+  "!=",
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "contains",
+  "is null",
+  "is not null",
+];
+
+function tableKey(table: DbBrowserTableRef): string {
+  return table.schema ? `${table.schema}.${table.name}` : table.name;
+}
+
+function formatCell(cell: DbBrowserCell): string {
+  return cell === null ? "NULL" : String(cell);
+}
+
+function ResultGrid({
+  result,
+  orderBy,
+  onSort,
+}: {
+  result: DbBrowserResult;
+  orderBy?: { column: string; direction: "asc" | "desc" };
+  onSort?: (column: string) => void;
+}) {
+  if (result.columns.length === 0) {
+    return (
+      <div className="p-3 text-sm text-muted-foreground">
+        The query returned no rows.
+      </div>
+    );
+  }
+  return (
+    <table className="w-full border-collapse text-xs font-mono">
+      <thead className="sticky top-0 bg-(--background-lightest)">
+        <tr>
+          {result.columns.map((column) => (
+            <th
+              key={column}
+              onClick={() => onSort?.(column)}
+              className={cn(
+                "border-b border-r border-border px-2 py-1 text-left font-medium whitespace-nowrap",
+                onSort && "cursor-pointer hover:bg-(--background-darkest)",
+              )}
+            >
+              <span className="inline-flex items-center gap-1">
+                {column}
+                {orderBy?.column === column &&
+                  (orderBy.direction === "asc" ? (
+                    <ArrowUp size={12} />
+                  ) : (
+                    <ArrowDown size={12} />
+                  ))}
+              </span>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {result.rows.map((row, rowIndex) => (
+          <tr key={rowIndex} className="hover:bg-(--background-lightest)">
+            {row.map((cell, cellIndex) => (
+              <td
+                key={cellIndex}
+                title={formatCell(cell)}
+                className={cn(
+                  "max-w-64 truncate border-b border-r border-border px-2 py-1",
+                  cell === null && "text-muted-foreground italic",
+                )}
+              >
+                {formatCell(cell)}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function FilterBar({
+  columns,
+  filters,
+  onApply,
+}: {
+  columns: string[];
+  filters: DbBrowserFilter[];
+  onApply: (filters: DbBrowserFilter[]) => void;
+}) {
+  const [draft, setDraft] = useState<DbBrowserFilter[]>(filters);
+
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const updateFilter = (index: number, change: Partial<DbBrowserFilter>) => {
+    setDraft(
+      draft.map((filter, i) =>
+        i === index ? { ...filter, ...change } : filter,
+      ),
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-1 border-b border-border p-2">
+      {draft.map((filter, index) => (
+        <div key={index} className="flex items-center gap-1">
+          <Select
+            value={filter.column}
+            onValueChange={(column) => updateFilter(index, { column })}
+          >
+            <SelectTrigger className="h-7 w-40 text-xs">
+              <SelectValue placeholder="Column" />
+            </SelectTrigger>
+            <SelectContent>
+              {columns.map((column) => (
+                <SelectItem key={column} value={column} className="text-xs">
+                  {column}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filter.operator}
+            onValueChange={(operator) =>
+              updateFilter(index, {
+                operator: operator as DbBrowserFilterOperator,
+              })
+            }
+          >
+            <SelectTrigger className="h-7 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OPERATORS.map((operator) => (
+                <SelectItem key={operator} value={operator} className="text-xs">
+                  {operator}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {filter.operator !== "is null" &&
+            filter.operator !== "is not null" && (
+              <Input
+                value={filter.value ?? ""}
+                onChange={(e) => updateFilter(index, { value: e.target.value })}
+                onKeyDown={(e) => e.key === "Enter" && onApply(draft)}
+                placeholder="Value"
+                className="h-7 flex-1 text-xs"
+              />
+            )}
+          <button
+            onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+            className="p-1 rounded hover:bg-(--background-lightest)"
+            title="Remove filter"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center gap-1">
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7 text-xs"
+          onClick={() =>
+            setDraft([
+              ...draft,
+              { column: columns[0] ?? "", operator: "=", value: "" },
+            ])
+          }
+          disabled={columns.length === 0}
+        >
+          <Plus size={12} />
+          Add filter
+        </Button>
+        {(draft.length > 0 || filters.length > 0) && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="h-7 text-xs"
+            onClick={() => onApply(draft)}
+            data-testid="db-browser-apply-filters"
+          >
+            Apply
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TableRowsView({
+  appId,
+  table,
+}: {
+  appId: number;
+  table: DbBrowserTableRef;
+}) {
+  const [filters, setFilters] = useState<DbBrowserFilter[]>([]);
+  const [orderBy, setOrderBy] = useState<
+    { column: string; direction: "asc" | "desc" } | undefined
+  >();
+  const [page, setPage] = useState(0);
+  const { rows, isLoading, error } = useDbBrowserRows({
+    appId,
+    table,
+    filters,
+    orderBy,
+    offset: page * PAGE_SIZE,
+    limit: PAGE_SIZE,
+  });
+
+  const handleSort = (column: string) => {
+    setOrderBy(
+      orderBy?.column !== column
+        ? { column, direction: "asc" }
+        : orderBy.direction === "asc"
+          ? { column, direction: "desc" }
+          : undefined,
+    );
+    setPage(0);
+  };
+
+  const totalCount = rows?.totalCount ?? 0;
+  const pageCount = Math.max(Math.ceil(totalCount / PAGE_SIZE), 1);
+
+  return (
+    <div className="flex h-full flex-col">
+      <FilterBar
+        columns={rows?.columns ?? []}
+        filters={filters}
+        onApply={(applied) => {
+          setFilters(applied);
+          setPage(0);
+        }}
+      />
+      <div className="flex-1 min-h-0 overflow-auto">
+        {error ? (
+          <div className="p-3 text-sm text-red-500">{error.message}</div>
+        ) : rows ? (
+          <ResultGrid result={rows} orderBy={orderBy} onSort={handleSort} />
+        ) : (
+          <div className="p-3 text-sm text-muted-foreground">Loading...</div>
+        )}
+      </div>
+      <div className="flex items-center gap-2 border-t border-border px-2 py-1 text-xs">
+        {isLoading && <Loader2 size={12} className="animate-spin" />}
+        <span className="text-muted-foreground">
+          {totalCount === 0
+            ? "No rows"
+            : `Rows ${page * PAGE_SIZE + 1}–${Math.min((page + 1) * PAGE_SIZE, totalCount)} of ${totalCount}`}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            className="p-0.5 rounded hover:bg-(--background-lightest) disabled:opacity-50"
+            title="Previous page"
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span>
+            Page {page + 1} of {pageCount}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page + 1 >= pageCount}
+            className="p-0.5 rounded hover:bg-(--background-lightest) disabled:opacity-50"
+            title="Next page"
+          >
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SqlConsole({ appId }: { appId: number }) {
+  const [query, setQuery] = useState("");
+  const [result, setResult] = useState<DbBrowserResult | null>(null);
+  const [pendingStatements, setPendingStatements] = useState<string[] | null>(
+    null,
+  );
+  const { executeSql, isExecuting, error } = useExecuteDbBrowserSql(appId);
+
+  const run = async (confirmDestructive = false) => {
+    if (!query.trim()) {
+      return;
+    }
+    const response = await executeSql({ query, confirmDestructive });
+    if (response.needsConfirmation) {
+      setPendingStatements(response.destructiveStatements);
+      return;
+    }
+    setResult(response);
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex flex-col gap-1 border-b border-border p-2">
+        <Textarea
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              run().catch(() => {});
+            }
+          }}
+          placeholder="SELECT * FROM ..."
+          className="min-h-24 font-mono text-xs"
+          data-testid="db-browser-sql-input"
+        />
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => run().catch(() => {})}
+            disabled={isExecuting || !query.trim()}
+            data-testid="db-browser-run-sql"
+          >
+            {isExecuting ? (
+              <Loader2 size={12} className="animate-spin" />
+            ) : (
+              <Play size={12} />
+            )}
+            Run
+          </Button>
+          <span className="text-xs text-muted-foreground">
+            Ctrl/Cmd + Enter
+          </span>
+          {result?.truncated && (
+            <span className="ml-auto text-xs text-muted-foreground">
+              Showing the first {result.rows.length} rows
+            </span>
+          )}
+        </div>
+      </div>
+      <div className="flex-1 min-h-0 overflow-auto">
+        {error ? (
+          <div className="p-3 text-sm text-red-500 whitespace-pre-wrap">
+            {error.message}
+          </div>
+        ) : (
+          result && <ResultGrid result={result} />
+        )}
+      </div>
+      <AlertDialog
+        open={pendingStatements !== null}
+        onOpenChange={(open) => !open && setPendingStatements(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Change or remove data?</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2">
+                <p>
+                  These statements change or remove data and can't be undone:
+                </p>
+                <ul className="max-h-40 overflow-y-auto font-mono text-xs">
+                  {pendingStatements?.map((statement, index) => (
+                    <li key={index} className="truncate" title={statement}>
+                      {statement}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                setPendingStatements(null);
+                run(true).catch(() => {});
+              }}
+              className="bg-red-600 text-white hover:bg-red-700"
+              data-testid="db-browser-confirm-sql"
+            >
+              Run anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+/**
+ * Tables and rows of the app's database, whichever of Supabase, Neon or a
+ * local database it uses, with a console for ad-hoc SQL
+ */
+export function DatabaseBrowser() {
+  const appId = useAtomValue(selectedAppIdAtom);
+  const { source, isLoading: isLoadingSource } = useDbBrowserSource(appId);
+  const { tables, isLoading, error, refreshTables } = useDbBrowserTables(
+    appId,
+    !!source,
+  );
+  const [selected, setSelected] = useState<DbBrowserTableRef | "sql" | null>(
+    null,
+  );
+
+  useEffect(() => {
+    setSelected(null);
+  }, [appId]);
+
+  if (!appId || isLoadingSource) {
+    return null;
+  }
+  if (!source) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center gap-2 p-4 text-center text-sm text-muted-foreground">
+        <Database size={24} />
+        <p>This app has no database yet.</p>
+        <p>
+          Connect Supabase or Neon, or add a local database, from the app
+          details page.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-full" data-testid="database-browser">
+      <div className="flex w-56 flex-shrink-0 flex-col border-r border-border">
+        <div className="flex items-center gap-1 border-b border-border px-2 py-1.5">
+          <span className="truncate text-xs text-muted-foreground">
+            {source.label}
+          </span>
+          <button
+            onClick={() => refreshTables()}
+            className="ml-auto p-1 rounded hover:bg-(--background-lightest)"
+            title="Refresh tables"
+          >
+            <RefreshCw size={12} />
+          </button>
+        </div>
+        <button
+          onClick={() => setSelected("sql")}
+          className={cn(
+            "flex items-center gap-2 px-2 py-1.5 text-left text-sm hover:bg-(--background-lightest)",
+            selected === "sql" && "bg-(--background-lightest)",
+          )}
+          data-testid="db-browser-sql-button"
+        >
+          <TerminalSquare size={14} />
+          SQL
+        </button>
+        <div className="flex-1 overflow-y-auto text-sm">
+          {isLoading && (
+            <div className="p-2 text-muted-foreground">Loading...</div>
+          )}
+          {error && <div className="p-2 text-red-500">{error.message}</div>}
+          {!isLoading && !error && tables.length === 0 && (
+            <div className="p-2 text-muted-foreground">No tables</div>
+          )}
+          {tables.map((table) => (
+            <button
+              key={tableKey(table)}
+              onClick={() => setSelected(table)}
+              className={cn(
+                "flex w-full items-center gap-2 px-2 py-1 text-left hover:bg-(--background-lightest)",
+                selected !== "sql" &&
+                  selected &&
+                  tableKey(selected) === tableKey(table) &&
+                  "bg-(--background-lightest)",
+              )}
+              title={tableKey(table)}
+              data-testid={`db-browser-table-${tableKey(table)}`}
+            >
+              <Table2 size={14} className="flex-shrink-0" />
+              <span className="truncate">{tableKey(table)}</span>
+              <span className="ml-auto text-xs text-muted-foreground">
+                {table.rowCount}
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex-1 min-w-0">
+        {selected === "sql" ? (
+          <SqlConsole appId={appId} />
+        ) : selected ? (
+          // Filters and paging start over for each table
+          <TableRowsView
+            key={tableKey(selected)}
+            appId={appId}
+            table={selected}
+          />
+        ) : (
+          <div className="p-4 text-sm text-muted-foreground">
+            Select a table to see its rows, or run SQL.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import { useAtom } from "jotai";
+import {
+  Camera,
+  Columns3,
+  Maximize2,
+  Monitor,
+  RotateCw,
+  Ruler,
+  Smartphone,
+  Tablet,
+} from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { previewViewportSettingsAtom } from "@/atoms/previewAtoms";
+import {
+  DEVICE_IDS,
+  DEVICE_PIXEL_RATIOS,
+  DEVICE_PRESETS,
+  type DeviceId,
+} from "@/lib/device_presets";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+
+const DEVICE_ICONS: Record<DeviceId | "responsive", LucideIcon> = {
+  responsive: Maximize2,
+  phone: Smartphone,
+  tablet: Tablet,
+  desktop: Monitor,
+  custom: Ruler,
+};
+
+const DEVICE_LABELS: Record<DeviceId | "responsive", string> = {
+  responsive: "Fit to panel",
+  phone: `Phone (${DEVICE_PRESETS.phone.width}×${DEVICE_PRESETS.phone.height})`,
+  tablet: `Tablet (${DEVICE_PRESETS.tablet.width}×${DEVICE_PRESETS.tablet.height})`,
+  desktop: `Desktop (${DEVICE_PRESETS.desktop.width}×${DEVICE_PRESETS.desktop.height})`,
+  custom: "Custom size",
+};
+
+const buttonClassName = (active: boolean) =>
+  `p-1 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+    active
+      ? "bg-gray-200 text-gray-900 dark:bg-gray-700 dark:text-gray-100"
+      : "text-gray-600 hover:bg-gray-200 dark:text-gray-300 dark:hover:bg-gray-700"
+  }`;
+
+function ToolbarButton({
+  label,
+  active = false,
+  disabled = false,
+  onClick,
+  children,
+}: {
+  label: string;
+  active?: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          onClick={onClick}
+          disabled={disabled}
+          className={buttonClassName(active)}
+          aria-label={label}
+          aria-pressed={active}
+        >
+          {children}
+        </button>
+      </TooltipTrigger>
+      <TooltipContent>{label}</TooltipContent>
+    </Tooltip>
+  );
+}
+
+function SizeInput({
+  value,
+  onChange,
+  label,
+}: {
+  value: number;
+  onChange: (value: number) => void;
+  label: string;
+}) {
+  return (
+    <input
+      type="number"
+      min={200}
+      max={3840}
+      value={value}
+      onChange={(e) => {
+        const size = parseInt(e.target.value, 10);
+        if (!isNaN(size) && size > 0) {
+          onChange(size);
+        }
+      }}
+      aria-label={label}
+      className="w-16 rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-700 dark:bg-gray-700 dark:text-gray-200"
+    />
+  );
+}
+
+/**
+ * Device presets, rotation, pixel ratio and multi-viewport mode for the
+ * preview.
+ */
+export function DeviceToolbar({
+  onScreenshot,
+  isCapturing,
+}: {
+  // Screenshot of the whole panel, when no device frames are shown
+  onScreenshot: () => void;
+  isCapturing: boolean;
+}) {
+  const [settings, setSettings] = useAtom(previewViewportSettingsAtom);
+  const isResponsive =
+    !settings.multiViewport && settings.device === "responsive";
+
+  const isDeviceActive = (id: DeviceId | "responsive") =>
+    settings.multiViewport
+      ? id !== "responsive" && settings.multiViewportDevices.includes(id)
+      : settings.device === id;
+
+  const handleDeviceClick = (id: DeviceId | "responsive") => {
+    if (!settings.multiViewport) {
+      setSettings({ ...settings, device: id });
+      return;
+    }
+    if (id === "responsive") {
+      setSettings({ ...settings, multiViewport: false, device: id });
+      return;
+    }
+    // In multi-viewport mode the buttons pick the devices shown, at least one
+    const devices = settings.multiViewportDevices.includes(id)
+      ? settings.multiViewportDevices.filter((device) => device !== id)
+      : [...settings.multiViewportDevices, id];
+    if (devices.length > 0) {
+      setSettings({ ...settings, multiViewportDevices: devices });
+    }
+  };
+
+  const showCustomSize = settings.multiViewport
+    ? settings.multiViewportDevices.includes("custom")
+    : settings.device === "custom";
+
+  return (
+    <TooltipProvider>
+      <div
+        className="flex flex-wrap items-center gap-2 border-b px-2 py-1"
+        data-testid="preview-device-toolbar"
+      >
+        <div className="flex space-x-1">
+          {(["responsive", ...DEVICE_IDS] as const).map((id) => {
+            const Icon = DEVICE_ICONS[id];
+            return (
+              <ToolbarButton
+                key={id}
+                label={DEVICE_LABELS[id]}
+                active={isDeviceActive(id)}
+                onClick={() => handleDeviceClick(id)}
+              >
+                <Icon size={16} />
+              </ToolbarButton>
+            );
+          })}
+        </div>
+
+        {showCustomSize && (
+          <div className="flex items-center gap-1 text-xs text-gray-500">
+            <SizeInput
+              label="Custom width"
+              value={settings.customSize.width}
+              onChange={(width) =>
+                setSettings({
+                  ...settings,
+                  customSize: { ...settings.customSize, width },
+                })
+              }
+            />
+            ×
+            <SizeInput
+              label="Custom height"
+              value={settings.customSize.height}
+              onChange={(height) =>
+                setSettings({
+                  ...settings,
+                  customSize: { ...settings.customSize, height },
+                })
+              }
+            />
+          </div>
+        )}
+
+        <div className="flex items-center space-x-1">
+          <ToolbarButton
+            label={settings.landscape ? "Portrait" : "Landscape"}
+            active={settings.landscape}
+            disabled={isResponsive}
+            onClick={() =>
+              setSettings({ ...settings, landscape: !settings.landscape })
+            }
+          >
+            <RotateCw size={16} />
+          </ToolbarButton>
+          <select
+            value={settings.devicePixelRatio ?? "device"}
+            onChange={(e) =>
+              setSettings({
+                ...settings,
+                devicePixelRatio:
+                  e.target.value === "device" ? null : Number(e.target.value),
+              })
+            }
+            disabled={isResponsive}
+            aria-label="Device pixel ratio"
+            className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-700 disabled:opacity-50 dark:bg-gray-700 dark:text-gray-200"
+          >
+            <option value="device">Device DPR</option>
+            {DEVICE_PIXEL_RATIOS.map((ratio) => (
+              <option key={ratio} value={ratio}>
+                {ratio}x
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="ml-auto flex space-x-1">
+          <ToolbarButton
+            label="Side-by-side viewports"
+            active={settings.multiViewport}
+            onClick={() =>
+              setSettings({
+                ...settings,
+                multiViewport: !settings.multiViewport,
+              })
+            }
+          >
+            <Columns3 size={16} />
+          </ToolbarButton>
+          {isResponsive && (
+            <ToolbarButton
+              label="Attach a screenshot to the chat"
+              disabled={isCapturing}
+              onClick={onScreenshot}
+            >
+              <Camera size={16} />
+            </ToolbarButton>
+          )}
+        </div>
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -0,0 +1,65 @@
+import { useRef } from "react";
+import { Camera } from "lucide-react";
+import type { Viewport } from "@/lib/device_presets";
+
+/**
+ * A device-sized frame around a preview iframe. The iframe is laid out at
+ * the device's size and scaled down to fit the panel.
+ */
+export function DeviceViewport({
+  viewport,
+  scale,
+  onScreenshot,
+  isCapturing,
+  children,
+}: {
+  viewport: Viewport;
+  scale: number;
+  onScreenshot: (element: HTMLElement) => void;
+  isCapturing: boolean;
+  children: React.ReactNode;
+}) {
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  return (
+    <div
+      className="flex flex-shrink-0 flex-col items-center gap-1"
+      data-testid={`preview-viewport-${viewport.id}`}
+    >
+      <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          {viewport.label} · {viewport.width}×{viewport.height} @
+          {viewport.devicePixelRatio}x
+          {scale < 1 && ` · ${Math.round(scale * 100)}%`}
+        </span>
+        <button
+          onClick={() => frameRef.current && onScreenshot(frameRef.current)}
+          disabled={isCapturing}
+          className="rounded p-0.5 hover:bg-gray-200 disabled:opacity-50 dark:hover:bg-gray-700"
+          title="Attach a screenshot to the chat"
+        >
+          <Camera size={12} />
+        </button>
+      </div>
+      <div
+        ref={frameRef}
+        className="overflow-hidden rounded-md border border-gray-300 bg-white shadow-sm dark:border-gray-700 dark:bg-gray-950"
+        style={{
+          width: viewport.width * scale,
+          height: viewport.height * scale,
+        }}
+      >
+        <div
+          style={{
+            width: viewport.width,
+            height: viewport.height,
+            transform: `scale(${scale})`,
+            transformOrigin: "top left",
+          }}
+        >
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,35 @@ import { useQueryClient } from "@tanstack/react-query";
 import { useSettings } from "@/hooks/useSettings";
 import { useCheckProblems } from "@/hooks/useCheckProblems";
 
+// Determine language based on file extension
+export function getEditorLanguage(filePath: string): string {
+  const extension = filePath.split(".").pop()?.toLowerCase() || "";
+  const languageMap: Record<string, string> = {
+    js: "javascript",
+    jsx: "javascript",
+    ts: "typescript",
+    tsx: "typescript",
+    html: "html",
+    css: "css",
+    json: "json",
+    md: "markdown",
+    py: "python",
+    java: "java",
+    c: "c",
+    cpp: "cpp",
+    cs: "csharp",
+    go: "go",
+    rs: "rust",
+    rb: "ruby",
+    php: "php",
+    swift: "swift",
+    kt: "kotlin",
+    // Add more as needed
+  };
+
+  return languageMap[extension] || "plaintext";
+}
+
 interface FileEditorProps {
   appId: number | null;
   filePath: string;
@@ -224,35 +253,6 @@ export const FileEditor = ({ appId, filePath }: FileEditorProps) => {
     }
   };
 
-  // Determine language based on file extension
-  const getLanguage = (filePath: string) => {
-    const extension = filePath.split(".").pop()?.toLowerCase() || "";
-    const languageMap: Record<string, string> = {
-      js: "javascript",
-      jsx: "javascript",
-      ts: "typescript",
-      tsx: "typescript",
-      html: "html",
-      css: "css",
-      json: "json",
-      md: "markdown",
-      py: "python",
-      java: "java",
-      c: "c",
-      cpp: "cpp",
-      cs: "csharp",
-      go: "go",
-      rs: "rust",
-      rb: "ruby",
-      php: "php",
-      swift: "swift",
-      kt: "kotlin",
-      // Add more as needed
-    };
-
-    return languageMap[extension] || "plaintext";
-  };
-
   if (loading) {
     return <div className="p-4">Loading file content...</div>;
   }
@@ -276,7 +276,7 @@ export const FileEditor = ({ appId, filePath }: FileEditorProps) => {
       <div className="flex-1 overflow-hidden">
         <Editor
           height="100%"
-          defaultLanguage={getLanguage(filePath)}
+          defaultLanguage={getEditorLanguage(filePath)}
           value={value}
           theme={editorTheme}
           onChange={handleEditorChange}
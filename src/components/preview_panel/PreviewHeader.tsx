@@ -11,6 +11,7 @@ import {
   AlertTriangle,
   Wrench,
   Globe,
+  Database,
 } from "lucide-react";
 import { motion } from "framer-motion";
 import { useEffect, useRef, useState, useCallback } from "react";
@@ -32,13 +33,15 @@ import { showError, showSuccess } from "@/lib/toast";
 import { useMutation } from "@tanstack/react-query";
 import { useCheckProblems } from "@/hooks/useCheckProblems";
 import { isPreviewOpenAtom } from "@/atoms/viewAtoms";
+import { RunProfileSelector } from "./RunProfileSelector";
 
 export type PreviewMode =
   | "preview"
   | "code"
   | "problems"
   | "configure"
-  | "publish";
+  | "publish"
+  | "database";
 
 const BUTTON_CLASS_NAME =
   "no-app-region-drag cursor-pointer relative flex items-center gap-1 px-2 py-1 rounded-md text-[13px] font-medium z-10 hover:bg-[var(--background)]";
@@ -53,6 +56,7 @@ export const PreviewHeader = () => {
   const problemsRef = useRef<HTMLButtonElement>(null);
   const configureRef = useRef<HTMLButtonElement>(null);
   const publishRef = useRef<HTMLButtonElement>(null);
+  const databaseRef = useRef<HTMLButtonElement>(null);
   const [indicatorStyle, setIndicatorStyle] = useState({ left: 0, width: 0 });
   const [windowWidth, setWindowWidth] = useState(window.innerWidth);
   const { problemReport } = useCheckProblems(selectedAppId);
@@ -138,6 +142,9 @@ export const PreviewHeader = () => {
         case "publish":
           targetRef = publishRef;
           break;
+        case "database":
+          targetRef = databaseRef;
+          break;
         default:
           return;
       }
@@ -242,6 +249,13 @@ export const PreviewHeader = () => {
             "Code",
             "code-mode-button",
           )}
+          {renderButton(
+            "database",
+            databaseRef,
+            <Database size={14} />,
+            "Database",
+            "database-mode-button",
+          )}
           {renderButton(
             "configure",
             configureRef,
@@ -257,7 +271,8 @@ export const PreviewHeader = () => {
             "publish-mode-button",
           )}
         </div>
-        <div className="flex items-center">
+        <div className="flex items-center gap-1">
+          <RunProfileSelector />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <button
@@ -31,7 +31,10 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useStreamChat } from "@/hooks/useStreamChat";
-import { selectedComponentPreviewAtom } from "@/atoms/previewAtoms";
+import {
+  previewViewportSettingsAtom,
+  selectedComponentPreviewAtom,
+} from "@/atoms/previewAtoms";
 import { ComponentSelection } from "@/ipc/ipc_types";
 import {
   Tooltip,
@@ -41,6 +44,15 @@ import {
 } from "@/components/ui/tooltip";
 import { useRunApp } from "@/hooks/useRunApp";
 import { useShortcut } from "@/hooks/useShortcut";
+import { ComponentInspector } from "./ComponentInspector";
+import { DeviceToolbar } from "./DeviceToolbar";
+import { DeviceViewport } from "./DeviceViewport";
+import { usePreviewScreenshot } from "@/hooks/usePreviewScreenshot";
+import { getFitScale, getViewports, type Viewport } from "@/lib/device_presets";
+
+// Gap and padding around device frames, and the height of their labels
+const VIEWPORT_GAP = 16;
+const VIEWPORT_LABEL_HEIGHT = 20;
 
 interface ErrorBannerProps {
   error: string | undefined;
@@ -150,6 +162,41 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const [isPicking, setIsPicking] = useState(false);
 
+  // Device frames. The first one is the primary iframe; the others mirror
+  // its navigation.
+  const viewportSettings = useAtomValue(previewViewportSettingsAtom);
+  const viewports = getViewports(viewportSettings);
+  const mirrorFramesRef = useRef(new Map<string, HTMLIFrameElement>());
+  const syncedMirrorsRef = useRef(new WeakSet<HTMLIFrameElement>());
+  const viewportsContainerRef = useRef<HTMLDivElement>(null);
+  const [viewportsArea, setViewportsArea] = useState({ width: 0, height: 0 });
+  const { captureScreenshot, isCapturing } = usePreviewScreenshot();
+  const hasViewports = viewports.length > 0;
+  const devicePixelRatios = viewports
+    .map((viewport) => viewport.devicePixelRatio)
+    .join(",");
+
+  const getPreviewWindows = (): Window[] =>
+    [iframeRef.current, ...mirrorFramesRef.current.values()].flatMap((frame) =>
+      frame?.contentWindow ? [frame.contentWindow] : [],
+    );
+
+  // Follows a navigation in one viewport in all the others
+  const syncViewports = (
+    source: MessageEventSource | null,
+    url: string,
+    replace: boolean,
+  ) => {
+    for (const previewWindow of getPreviewWindows()) {
+      if (previewWindow !== source) {
+        previewWindow.postMessage(
+          { type: "navigate", payload: { url, replace } },
+          "*",
+        );
+      }
+    }
+  };
+
   //detect if the user is using Mac
   const isMac = navigator.platform.toUpperCase().indexOf("MAC") >= 0;
 
@@ -169,8 +216,19 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
   // Add message listener for iframe errors and navigation events
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
-      // Only handle messages from our iframe
-      if (event.source !== iframeRef.current?.contentWindow) {
+      const isMirror = [...mirrorFramesRef.current.values()].some(
+        (frame) => frame.contentWindow === event.source,
+      );
+      // Only handle messages from our iframes. Mirrors only report their
+      // navigation, so errors and selections aren't handled twice.
+      if (event.source !== iframeRef.current?.contentWindow && !isMirror) {
+        return;
+      }
+      if (
+        isMirror &&
+        event.data?.type !== "pushState" &&
+        event.data?.type !== "replaceState"
+      ) {
         return;
       }
 
@@ -258,6 +316,9 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
           newHistory[currentHistoryPosition] = payload.newUrl;
           setNavigationHistory(newHistory);
         }
+        if (payload?.newUrl) {
+          syncViewports(event.source, payload.newUrl, type === "replaceState");
+        }
       }
     };
 
@@ -273,6 +334,34 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
     setSelectedComponentPreview,
   ]);
 
+  // Fit the device frames in the panel
+  useEffect(() => {
+    const container = viewportsContainerRef.current;
+    if (!hasViewports || !container) {
+      return;
+    }
+    const resizeObserver = new ResizeObserver(() => {
+      setViewportsArea({
+        width: container.clientWidth - VIEWPORT_GAP * 2,
+        height:
+          container.clientHeight - VIEWPORT_GAP * 2 - VIEWPORT_LABEL_HEIGHT,
+      });
+    });
+    resizeObserver.observe(container);
+    return () => resizeObserver.disconnect();
+  }, [hasViewports, appUrl]);
+
+  // Emulate each device's pixel ratio in its iframe
+  useEffect(() => {
+    viewports.forEach((viewport, index) => {
+      const frame =
+        index === 0
+          ? iframeRef.current
+          : mirrorFramesRef.current.get(viewport.id);
+      postDevicePixelRatio(frame, viewport);
+    });
+  }, [devicePixelRatios]);
+
   useEffect(() => {
     // Update navigation buttons state
     setCanGoBack(currentHistoryPosition > 0);
@@ -317,13 +406,15 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
   // Function to navigate back
   const handleNavigateBack = () => {
     if (canGoBack && iframeRef.current?.contentWindow) {
-      iframeRef.current.contentWindow.postMessage(
-        {
-          type: "navigate",
-          payload: { direction: "backward" },
-        },
-        "*",
-      );
+      for (const previewWindow of getPreviewWindows()) {
+        previewWindow.postMessage(
+          {
+            type: "navigate",
+            payload: { direction: "backward" },
+          },
+          "*",
+        );
+      }
 
       // Update our local state
       setCurrentHistoryPosition((prev) => prev - 1);
@@ -335,13 +426,15 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
   // Function to navigate forward
   const handleNavigateForward = () => {
     if (canGoForward && iframeRef.current?.contentWindow) {
-      iframeRef.current.contentWindow.postMessage(
-        {
-          type: "navigate",
-          payload: { direction: "forward" },
-        },
-        "*",
-      );
+      for (const previewWindow of getPreviewWindows()) {
+        previewWindow.postMessage(
+          {
+            type: "navigate",
+            payload: { direction: "forward" },
+          },
+          "*",
+        );
+      }
 
       // Update our local state
       setCurrentHistoryPosition((prev) => prev + 1);
@@ -368,8 +461,10 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
       const baseUrl = new URL(appUrl).origin;
       const newUrl = `${baseUrl}${path}`;
 
-      // Navigate to the URL
-      iframeRef.current.contentWindow.location.href = newUrl;
+      // Navigate to the URL, in every viewport
+      for (const previewWindow of getPreviewWindows()) {
+        previewWindow.location.href = newUrl;
+      }
 
       // iframeRef.current.src = newUrl;
 
@@ -385,6 +480,73 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
     }
   };
 
+  // The primary iframe (index 0) handles errors and component selection
+  const renderIframe = (viewport: Viewport | null, index: number) => {
+    const isPrimary = index === 0;
+    return (
+      <iframe
+        sandbox="allow-same-origin allow-scripts allow-forms allow-popups allow-modals allow-orientation-lock allow-pointer-lock allow-presentation allow-downloads"
+        data-testid={isPrimary ? "preview-iframe-element" : undefined}
+        onLoad={(e) => {
+          console.log(`[IFRAME] Successfully loaded URL: ${appUrl}`);
+          if (isPrimary) {
+            setErrorMessage(undefined);
+          }
+          if (viewport) {
+            postDevicePixelRatio(e.currentTarget, viewport);
+          }
+          // A new mirror starts where the other viewports are
+          const currentUrl = navigationHistory[currentHistoryPosition];
+          if (
+            !isPrimary &&
+            !syncedMirrorsRef.current.has(e.currentTarget) &&
+            currentUrl
+          ) {
+            syncedMirrorsRef.current.add(e.currentTarget);
+            e.currentTarget.contentWindow?.postMessage(
+              { type: "navigate", payload: { url: currentUrl, replace: true } },
+              "*",
+            );
+          }
+        }}
+        onError={(e) => {
+          console.error(`[IFRAME] Error loading: ${appUrl}`, e);
+          setErrorMessage(`Failed to load app preview: ${e}`);
+        }}
+        ref={
+          isPrimary || !viewport
+            ? iframeRef
+            : (frame: HTMLIFrameElement | null) => {
+                if (frame) {
+                  mirrorFramesRef.current.set(viewport.id, frame);
+                } else {
+                  mirrorFramesRef.current.delete(viewport.id);
+                }
+              }
+        }
+        key={reloadKey}
+        title={`Preview for App ${selectedAppId}${viewport ? ` (${viewport.label})` : ""}`}
+        className="w-full h-full border-none bg-white dark:bg-gray-950"
+        src={appUrl ?? undefined}
+        allow="clipboard-read; clipboard-write; fullscreen; microphone; camera; display-capture; geolocation; autoplay; picture-in-picture"
+      />
+    );
+  };
+
+  const viewportScale = getFitScale(viewports, viewportsArea, VIEWPORT_GAP);
+
+  const handlePanelScreenshot = () => {
+    const frame = iframeRef.current;
+    if (frame) {
+      captureScreenshot(frame, {
+        name: "Preview",
+        width: frame.clientWidth,
+        height: frame.clientHeight,
+        devicePixelRatio: window.devicePixelRatio,
+      });
+    }
+  };
+
   // Display loading state
   if (loading) {
     return (
@@ -535,49 +697,69 @@ export const PreviewIframe = ({ loading }: { loading: boolean }) => {
         </div>
       </div>
 
-      <div className="relative flex-grow ">
-        <ErrorBanner
-          error={errorMessage}
-          onDismiss={() => setErrorMessage(undefined)}
-          onAIFix={() => {
-            if (selectedChatId) {
-              streamMessage({
-                prompt: `Fix error: ${errorMessage}`,
-                chatId: selectedChatId,
-              });
-            }
-          }}
-        />
-
-        {!appUrl ? (
-          <div className="absolute inset-0 flex flex-col items-center justify-center space-y-4 bg-gray-50 dark:bg-gray-950">
-            <Loader2 className="w-8 h-8 animate-spin text-gray-400 dark:text-gray-500" />
-            <p className="text-gray-600 dark:text-gray-300">
-              Starting your app server...
-            </p>
-          </div>
-        ) : (
-          <>
-            {console.log(`[IFRAME] Rendering with URL: ${appUrl}`)}
-            <iframe
-              sandbox="allow-same-origin allow-scripts allow-forms allow-popups allow-modals allow-orientation-lock allow-pointer-lock allow-presentation allow-downloads"
-              data-testid="preview-iframe-element"
-              onLoad={() => {
-                console.log(`[IFRAME] Successfully loaded URL: ${appUrl}`);
-                setErrorMessage(undefined);
-              }}
-              onError={(e) => {
-                console.error(`[IFRAME] Error loading: ${appUrl}`, e);
-                setErrorMessage(`Failed to load app preview: ${e}`);
-              }}
-              ref={iframeRef}
-              key={reloadKey}
-              title={`Preview for App ${selectedAppId}`}
-              className="w-full h-full border-none bg-white dark:bg-gray-950"
-              src={appUrl}
-              allow="clipboard-read; clipboard-write; fullscreen; microphone; camera; display-capture; geolocation; autoplay; picture-in-picture"
-            />
-          </>
+      <DeviceToolbar
+        onScreenshot={handlePanelScreenshot}
+        isCapturing={isCapturing}
+      />
+
+      <div className="flex flex-grow overflow-hidden">
+        <div className="relative flex-grow ">
+          <ErrorBanner
+            error={errorMessage}
+            onDismiss={() => setErrorMessage(undefined)}
+            onAIFix={() => {
+              if (selectedChatId) {
+                streamMessage({
+                  prompt: `Fix error: ${errorMessage}`,
+                  chatId: selectedChatId,
+                });
+              }
+            }}
+          />
+
+          {!appUrl ? (
+            <div className="absolute inset-0 flex flex-col items-center justify-center space-y-4 bg-gray-50 dark:bg-gray-950">
+              <Loader2 className="w-8 h-8 animate-spin text-gray-400 dark:text-gray-500" />
+              <p className="text-gray-600 dark:text-gray-300">
+                Starting your app server...
+              </p>
+            </div>
+          ) : (
+            <>
+              {console.log(`[IFRAME] Rendering with URL: ${appUrl}`)}
+              {!hasViewports ? (
+                renderIframe(null, 0)
+              ) : (
+                <div
+                  ref={viewportsContainerRef}
+                  className="absolute inset-0 flex items-start justify-center overflow-auto bg-gray-100 dark:bg-gray-900"
+                  style={{ gap: VIEWPORT_GAP, padding: VIEWPORT_GAP }}
+                >
+                  {viewports.map((viewport, index) => (
+                    <DeviceViewport
+                      key={viewport.id}
+                      viewport={viewport}
+                      scale={viewportScale}
+                      isCapturing={isCapturing}
+                      onScreenshot={(element) =>
+                        captureScreenshot(element, {
+                          name: viewport.label,
+                          width: viewport.width,
+                          height: viewport.height,
+                          devicePixelRatio: viewport.devicePixelRatio,
+                        })
+                      }
+                    >
+                      {renderIframe(viewport, index)}
+                    </DeviceViewport>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+        {selectedComponentPreview && selectedAppId && (
+          <ComponentInspector appId={selectedAppId} />
         )}
       </div>
     </div>
@@ -628,3 +810,16 @@ function parseComponentSelection(data: any): ComponentSelection | null {
     columnNumber,
   };
 }
+
+function postDevicePixelRatio(
+  frame: HTMLIFrameElement | null | undefined,
+  viewport: Viewport,
+) {
+  frame?.contentWindow?.postMessage(
+    {
+      type: "set-device-pixel-ratio",
+      payload: { ratio: viewport.devicePixelRatio },
+    },
+    "*",
+  );
+}
@@ -26,7 +26,11 @@ const ProblemItem = ({ problem }: ProblemItemProps) => {
   return (
     <div className="flex items-start gap-3 p-3 border-b border-border hover:bg-[var(--background-darkest)] transition-colors">
       <div className="flex-shrink-0 mt-0.5">
-        <XCircle size={16} className="text-red-500" />
+        {problem.severity === "warning" ? (
+          <AlertTriangle size={16} className="text-yellow-500" />
+        ) : (
+          <XCircle size={16} className="text-red-500" />
+        )}
       </div>
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2 mb-1">
@@ -36,6 +40,11 @@ const ProblemItem = ({ problem }: ProblemItemProps) => {
           <span className="text-xs text-muted-foreground">
             {problem.line}:{problem.column}
           </span>
+          {problem.ruleId && (
+            <span className="text-xs text-muted-foreground truncate">
+              {problem.ruleId}
+            </span>
+          )}
         </div>
         <p className="text-sm text-foreground leading-relaxed">
           {problem.message}
@@ -107,7 +116,10 @@ interface ProblemsSummaryProps {
 const ProblemsSummary = ({ problemReport, appId }: ProblemsSummaryProps) => {
   const { streamMessage } = useStreamChat();
   const { problems } = problemReport;
-  const totalErrors = problems.length;
+  const totalWarnings = problems.filter(
+    (problem) => problem.severity === "warning",
+  ).length;
+  const totalErrors = problems.length - totalWarnings;
   const [selectedChatId] = useAtom(selectedChatIdAtom);
 
   const handleFixAll = () => {
@@ -146,6 +158,14 @@ const ProblemsSummary = ({ problemReport, appId }: ProblemsSummaryProps) => {
             </span>
           </div>
         )}
+        {totalWarnings > 0 && (
+          <div className="flex items-center gap-2">
+            <AlertTriangle size={16} className="text-yellow-500" />
+            <span className="text-sm font-medium">
+              {totalWarnings} {totalWarnings === 1 ? "warning" : "warnings"}
+            </span>
+          </div>
+        )}
       </div>
       <div className="flex items-center gap-2">
         <RecheckButton appId={appId} />
@@ -184,7 +204,7 @@ export function _Problems() {
         </div>
         <h3 className="text-lg font-medium mb-2">No App Selected</h3>
         <p className="text-sm text-muted-foreground max-w-md">
-          Select an app to view TypeScript problems and diagnostic information.
+          Select an app to view TypeScript, Python and lint problems.
         </p>
       </div>
     );
@@ -198,7 +218,8 @@ export function _Problems() {
         </div>
         <h3 className="text-lg font-medium mb-2">No Problems Report</h3>
         <p className="text-sm text-muted-foreground max-w-md mb-4">
-          Run checks to scan your app for TypeScript errors and other problems.
+          Run checks to scan your app for TypeScript errors, lint problems and
+          other issues.
         </p>
         <RecheckButton appId={selectedAppId} />
       </div>
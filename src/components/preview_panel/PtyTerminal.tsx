@@ -0,0 +1,202 @@
+import { useEffect, useRef, useState } from "react";
+import { Terminal, type ITheme } from "@xterm/xterm";
+import { FitAddon } from "@xterm/addon-fit";
+import { SearchAddon } from "@xterm/addon-search";
+import { ChevronDown, ChevronUp, Search } from "lucide-react";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { PtySession } from "@/ipc/ipc_types";
+import { useTheme } from "@/contexts/ThemeContext";
+
+const LIGHT_THEME: ITheme = {
+  background: "#ffffff",
+  foreground: "#1f2937",
+  cursor: "#1f2937",
+  selectionBackground: "#bfdbfe",
+};
+
+const DARK_THEME: ITheme = {
+  background: "#0f0f11",
+  foreground: "#e5e7eb",
+  cursor: "#e5e7eb",
+  selectionBackground: "#374151",
+};
+
+function formatExitMessage(exitCode: number): string {
+  return `\r\n\x1b[2m[Process exited with code ${exitCode}]\x1b[0m\r\n`;
+}
+
+/**
+ * An xterm.js view of a shell running in the main process. Every tab keeps
+ * its terminal mounted, so switching tabs doesn't lose scrollback.
+ */
+export function PtyTerminal({
+  session,
+  isActive,
+}: {
+  session: PtySession;
+  isActive: boolean;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const terminalRef = useRef<Terminal | null>(null);
+  const fitAddonRef = useRef<FitAddon | null>(null);
+  const searchAddonRef = useRef<SearchAddon | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const { isDarkMode } = useTheme();
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+    const ipc = IpcClient.getInstance();
+    const terminal = new Terminal({
+      cursorBlink: true,
+      fontFamily: '"Geist Mono", monospace',
+      fontSize: 12,
+      scrollback: 5000,
+    });
+    const fitAddon = new FitAddon();
+    const searchAddon = new SearchAddon();
+    terminal.loadAddon(fitAddon);
+    terminal.loadAddon(searchAddon);
+    terminal.open(container);
+    terminalRef.current = terminal;
+    fitAddonRef.current = fitAddon;
+    searchAddonRef.current = searchAddon;
+
+    // Output sent before the replay below is part of it, because the main
+    // process sends events and the invoke reply over the same ordered
+    // channel. Only output that arrives after the reply is new.
+    let hasReplayed = false;
+    const unsubscribeData = ipc.onPtyData(({ sessionId, data }) => {
+      if (sessionId === session.sessionId && hasReplayed) {
+        terminal.write(data);
+      }
+    });
+    const unsubscribeExit = ipc.onPtyExit(({ sessionId, exitCode }) => {
+      if (sessionId === session.sessionId) {
+        terminal.write(formatExitMessage(exitCode));
+      }
+    });
+    ipc
+      .getPtySessionOutput(session.sessionId)
+      .then((output) => {
+        terminal.write(output);
+        if (session.exitCode !== null) {
+          terminal.write(formatExitMessage(session.exitCode));
+        }
+      })
+      .catch((error) => {
+        terminal.write(`\x1b[31m${error}\x1b[0m\r\n`);
+      })
+      .finally(() => {
+        hasReplayed = true;
+      });
+
+    const inputListener = terminal.onData((data) => {
+      ipc.writePtySession(session.sessionId, data).catch(() => {});
+    });
+    const resizeListener = terminal.onResize(({ cols, rows }) => {
+      ipc
+        .resizePtySession({ sessionId: session.sessionId, cols, rows })
+        .catch(() => {});
+    });
+    // Hidden tabs have no size, and fitting them would shrink the shell
+    const resizeObserver = new ResizeObserver(() => {
+      if (container.offsetWidth > 0 && container.offsetHeight > 0) {
+        fitAddon.fit();
+      }
+    });
+    resizeObserver.observe(container);
+
+    return () => {
+      resizeObserver.disconnect();
+      inputListener.dispose();
+      resizeListener.dispose();
+      unsubscribeData();
+      unsubscribeExit();
+      terminal.dispose();
+      terminalRef.current = null;
+      fitAddonRef.current = null;
+      searchAddonRef.current = null;
+    };
+  }, [session.sessionId]);
+
+  useEffect(() => {
+    if (terminalRef.current) {
+      terminalRef.current.options.theme = isDarkMode ? DARK_THEME : LIGHT_THEME;
+    }
+  }, [isDarkMode]);
+
+  useEffect(() => {
+    if (isActive) {
+      fitAddonRef.current?.fit();
+      terminalRef.current?.focus();
+    }
+  }, [isActive]);
+
+  const findNext = () => {
+    if (searchQuery) {
+      searchAddonRef.current?.findNext(searchQuery);
+    }
+  };
+
+  const findPrevious = () => {
+    if (searchQuery) {
+      searchAddonRef.current?.findPrevious(searchQuery);
+    }
+  };
+
+  return (
+    <div className={`flex flex-col h-full ${isActive ? "" : "hidden"}`}>
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-border text-xs">
+        <span
+          className="truncate text-muted-foreground flex-1"
+          title={session.cwd}
+        >
+          {session.cwd}
+        </span>
+        <Search size={14} className="text-muted-foreground" />
+        <input
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              if (e.shiftKey) {
+                findPrevious();
+              } else {
+                findNext();
+              }
+            }
+          }}
+          placeholder="Search output"
+          className="w-36 bg-transparent border border-border rounded px-1.5 py-0.5 outline-none focus:border-primary"
+          data-testid="pty-search-input"
+        />
+        <button
+          onClick={findPrevious}
+          className="p-0.5 rounded hover:bg-[var(--background-darkest)]"
+          title="Previous match"
+        >
+          <ChevronUp size={14} />
+        </button>
+        <button
+          onClick={findNext}
+          className="p-0.5 rounded hover:bg-[var(--background-darkest)]"
+          title="Next match"
+        >
+          <ChevronDown size={14} />
+        </button>
+      </div>
+      <div
+        ref={containerRef}
+        className="flex-1 min-h-0 px-2 py-1"
+        style={{
+          background: (isDarkMode ? DARK_THEME : LIGHT_THEME).background,
+        }}
+        data-testid={`pty-terminal-${session.sessionId}`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { useAtomValue } from "jotai";
+import { Settings2 } from "lucide-react";
+import { currentAppAtom, selectedAppIdAtom } from "@/atoms/appAtoms";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RunProfilesDialog } from "@/components/RunProfilesDialog";
+import { useRunProfiles } from "@/hooks/useRunProfiles";
+import { useRunApp } from "@/hooks/useRunApp";
+
+const AUTO_VALUE = "auto";
+
+// Picks the run profile the preview is started with
+export function RunProfileSelector() {
+  const selectedAppId = useAtomValue(selectedAppIdAtom);
+  const app = useAtomValue(currentAppAtom);
+  const { runProfiles, selectRunProfile, isSelecting } =
+    useRunProfiles(selectedAppId);
+  const { restartApp } = useRunApp();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const currentValue =
+    app?.id === selectedAppId && app?.selectedRunProfileId
+      ? app.selectedRunProfileId.toString()
+      : AUTO_VALUE;
+
+  const handleValueChange = async (value: string) => {
+    await selectRunProfile(value === AUTO_VALUE ? null : parseInt(value, 10));
+    // Restart so the preview runs with the newly selected profile
+    await restartApp();
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select
+        value={currentValue}
+        onValueChange={handleValueChange}
+        disabled={isSelecting || !selectedAppId}
+      >
+        <SelectTrigger
+          className="no-app-region-drag h-7 w-[130px] text-xs"
+          data-testid="run-profile-selector"
+        >
+          <SelectValue placeholder="Run profile" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTO_VALUE}>Auto-detect</SelectItem>
+          {runProfiles.map((profile) => (
+            <SelectItem key={profile.id} value={profile.id.toString()}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <button
+        className="no-app-region-drag flex items-center justify-center p-1.5 rounded-md text-sm hover:bg-[var(--background-darkest)] transition-colors"
+        title="Manage run profiles"
+        onClick={() => setIsDialogOpen(true)}
+        data-testid="manage-run-profiles-button"
+      >
+        <Settings2 size={16} />
+      </button>
+      <RunProfilesDialog
+        appId={selectedAppId}
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+      />
+    </div>
+  );
+}
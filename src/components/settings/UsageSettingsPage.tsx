@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useRouter } from "@tanstack/react-router";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useUsageSummary } from "@/hooks/useTokenUsage";
+import { MonthlyBudgetSettings } from "@/components/MonthlyBudgetSettings";
+import { formatCostUsd, formatTokenCount } from "@/lib/formatUsage";
+import type { UsageBreakdownRow } from "@/ipc/ipc_types";
+
+const RANGE_OPTIONS = [
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last year" },
+  { value: "all", label: "All time" },
+];
+
+function UsageTable({
+  title,
+  rows,
+  emptyMessage,
+}: {
+  title: string;
+  rows: UsageBreakdownRow[];
+  emptyMessage: string;
+}) {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+        {title}
+      </h2>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {emptyMessage}
+        </p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 dark:text-gray-400">
+              <th className="font-medium pb-2">Name</th>
+              <th className="font-medium pb-2 text-right">Input</th>
+              <th className="font-medium pb-2 text-right">Output</th>
+              <th className="font-medium pb-2 text-right">Reasoning</th>
+              <th className="font-medium pb-2 text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr
+                key={row.key}
+                className="border-t border-gray-100 dark:border-gray-700"
+              >
+                <td className="py-2">{row.label}</td>
+                <td className="py-2 text-right">
+                  {formatTokenCount(row.inputTokens)}
+                </td>
+                <td className="py-2 text-right">
+                  {formatTokenCount(row.outputTokens)}
+                </td>
+                <td className="py-2 text-right">
+                  {formatTokenCount(row.reasoningTokens)}
+                </td>
+                <td className="py-2 text-right">
+                  {formatCostUsd(row.costUsd)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export function UsageSettingsPage() {
+  const router = useRouter();
+  const [range, setRange] = useState("30");
+  const { summary, isLoading } = useUsageSummary(
+    range === "all" ? undefined : parseInt(range, 10),
+  );
+
+  return (
+    <div className="min-h-screen px-8 py-4">
+      <div className="max-w-5xl mx-auto">
+        <Button
+          onClick={() => router.history.back()}
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2 mb-4 bg-(--background-lightest) py-5"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Go Back
+        </Button>
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            Usage
+          </h1>
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6">
+            <MonthlyBudgetSettings />
+          </div>
+
+          {isLoading || !summary ? (
+            <Skeleton className="h-40 w-full" />
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  {
+                    label: "Input tokens",
+                    value: formatTokenCount(summary.totals.inputTokens),
+                  },
+                  {
+                    label: "Output tokens",
+                    value: formatTokenCount(summary.totals.outputTokens),
+                  },
+                  {
+                    label: "Reasoning tokens",
+                    value: formatTokenCount(summary.totals.reasoningTokens),
+                  },
+                  {
+                    label: "Cost",
+                    value: formatCostUsd(summary.totals.costUsd),
+                  },
+                ].map((stat) => (
+                  <div
+                    key={stat.label}
+                    className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4"
+                  >
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {stat.label}
+                    </div>
+                    <div className="text-2xl font-semibold">{stat.value}</div>
+                  </div>
+                ))}
+              </div>
+              <UsageTable
+                title="By provider"
+                rows={summary.byProvider}
+                emptyMessage="No usage recorded yet."
+              />
+              <UsageTable
+                title="By app"
+                rows={summary.byApp}
+                emptyMessage="No usage recorded yet."
+              />
+              <UsageTable
+                title="By month"
+                rows={summary.byMonth}
+                emptyMessage="No usage recorded yet."
+              />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
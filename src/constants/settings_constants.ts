@@ -1 +1,5 @@
 export const MAX_CHAT_TURNS_IN_CONTEXT = 3;
+
+// How many review/fix rounds autonomous development gets per phase before it
+// asks for human intervention
+export const AUTONOMOUS_ITERATION_BUDGET = 3;
@@ -1,5 +1,11 @@
 import { sql } from "drizzle-orm";
-import { integer, sqliteTable, text, unique } from "drizzle-orm/sqlite-core";
+import {
+  integer,
+  real,
+  sqliteTable,
+  text,
+  unique,
+} from "drizzle-orm/sqlite-core";
 import { relations } from "drizzle-orm";
 
 export const prompts = sqliteTable("prompts", {
@@ -28,6 +34,11 @@ export const apps = sqliteTable("apps", {
   githubOrg: text("github_org"),
   githubRepo: text("github_repo"),
   githubBranch: text("github_branch"),
+  // Any other Git remote (GitLab, Gitea, a bare repo on disk, ...), pushed
+  // to as "origin"; the credential is an id into settings.gitRemoteCredentials
+  gitRemoteUrl: text("git_remote_url"),
+  gitRemoteBranch: text("git_remote_branch"),
+  gitRemoteCredentialId: text("git_remote_credential_id"),
   supabaseProjectId: text("supabase_project_id"),
   neonProjectId: text("neon_project_id"),
   neonDevelopmentBranchId: text("neon_development_branch_id"),
@@ -36,9 +47,14 @@ export const apps = sqliteTable("apps", {
   vercelProjectName: text("vercel_project_name"),
   vercelTeamId: text("vercel_team_id"),
   vercelDeploymentUrl: text("vercel_deployment_url"),
-  installCommand: text("install_command"),
-  startCommand: text("start_command"),
+  // Database provisioned on this machine instead of Supabase or Neon
+  localDbProvider: text("local_db_provider", { enum: ["sqlite", "postgres"] }),
+  // Run profile used by run-app; null means the commands are detected
+  selectedRunProfileId: integer("selected_run_profile_id"),
   chatContext: text("chat_context", { mode: "json" }),
+  // Allowlist and denylist for AI-issued terminal commands, on top of the
+  // global ones in settings
+  commandPolicy: text("command_policy", { mode: "json" }),
 });
 
 export const chats = sqliteTable("chats", {
@@ -48,6 +64,12 @@ export const chats = sqliteTable("chats", {
     .references(() => apps.id, { onDelete: "cascade" }),
   title: text("title"),
   initialCommitHash: text("initial_commit_hash"),
+  // Set for chats forked from a message of another chat. Not a foreign key
+  // so deleting a chat can hand its forks to its own parent.
+  parentChatId: integer("parent_chat_id"),
+  forkedFromMessageId: integer("forked_from_message_id"),
+  // The git branch the fork's changes are committed to
+  branchName: text("branch_name"),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -78,6 +100,8 @@ export const versions = sqliteTable(
       .references(() => apps.id, { onDelete: "cascade" }),
     commitHash: text("commit_hash").notNull(),
     neonDbTimestamp: text("neon_db_timestamp"),
+    // Result of SUPABASE_SCHEMA_QUERY as JSON, for comparing versions
+    supabaseSchemaSnapshot: text("supabase_schema_snapshot"),
     createdAt: integer("created_at", { mode: "timestamp" })
       .notNull()
       .default(sql`(unixepoch())`),
@@ -91,10 +115,123 @@ export const versions = sqliteTable(
   ],
 );
 
+export const developmentRuns = sqliteTable("development_runs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  appId: integer("app_id")
+    .notNull()
+    .references(() => apps.id, { onDelete: "cascade" }),
+  phase: text("phase").notNull(),
+  lastCompletedPhase: text("last_completed_phase"),
+  isActive: integer("is_active", { mode: "boolean" }).notNull(),
+  frontendComplete: integer("frontend_complete", { mode: "boolean" })
+    .notNull()
+    .default(false),
+  backendComplete: integer("backend_complete", { mode: "boolean" })
+    .notNull()
+    .default(false),
+  humanInterventionRequired: integer("human_intervention_required", {
+    mode: "boolean",
+  })
+    .notNull()
+    .default(false),
+  humanInterventionMessage: text("human_intervention_message"),
+  progress: integer("progress").notNull().default(0),
+  errors: text("errors", { mode: "json" }),
+  metadata: text("metadata", { mode: "json" }),
+  phaseHistory: text("phase_history", { mode: "json" }),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+export const runProfiles = sqliteTable(
+  "run_profiles",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    appId: integer("app_id")
+      .notNull()
+      .references(() => apps.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    installCommand: text("install_command"),
+    buildCommand: text("build_command"),
+    startCommand: text("start_command").notNull(),
+    // "frontend" or "backend"; null runs in the app's root folder
+    workingDirectory: text("working_directory"),
+    env: text("env", { mode: "json" }),
+    port: integer("port"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => [
+    unique("run_profiles_app_name_unique").on(table.appId, table.name),
+  ],
+);
+
+// Tokens and cost of each AI response. Rows outlive deleted apps, chats and
+// messages so monthly totals and budgets stay accurate.
+export const tokenUsage = sqliteTable("token_usage", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  appId: integer("app_id").references(() => apps.id, { onDelete: "set null" }),
+  chatId: integer("chat_id").references(() => chats.id, {
+    onDelete: "set null",
+  }),
+  messageId: integer("message_id").references(() => messages.id, {
+    onDelete: "set null",
+  }),
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  reasoningTokens: integer("reasoning_tokens").notNull().default(0),
+  cachedInputTokens: integer("cached_input_tokens").notNull().default(0),
+  // Null when the model has no known pricing
+  costUsd: real("cost_usd"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// Every terminal command the AI asked to run, including the ones that were
+// denied, so they can be reviewed later from the app details page
+export const terminalCommandAudit = sqliteTable("terminal_command_audit", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  appId: integer("app_id")
+    .notNull()
+    .references(() => apps.id, { onDelete: "cascade" }),
+  chatId: integer("chat_id").references(() => chats.id, {
+    onDelete: "set null",
+  }),
+  messageId: integer("message_id").references(() => messages.id, {
+    onDelete: "set null",
+  }),
+  command: text("command").notNull(),
+  // Relative to the app folder
+  cwd: text("cwd").notNull(),
+  terminal: text("terminal", { enum: ["frontend", "backend"] }).notNull(),
+  decision: text("decision", {
+    enum: ["approved", "allowlisted", "denied", "denylisted"],
+  }).notNull(),
+  // Null when the command didn't run or couldn't be started
+  exitCode: integer("exit_code"),
+  output: text("output"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
 // Define relations
 export const appsRelations = relations(apps, ({ many }) => ({
   chats: many(chats),
   versions: many(versions),
+  developmentRuns: many(developmentRuns),
+  runProfiles: many(runProfiles),
 }));
 
 export const chatsRelations = relations(chats, ({ many, one }) => ({
@@ -140,6 +277,8 @@ export const language_models = sqliteTable("language_models", {
   description: text("description"),
   max_output_tokens: integer("max_output_tokens"),
   context_window: integer("context_window"),
+  input_cost_per_million_tokens: real("input_cost_per_million_tokens"),
+  output_cost_per_million_tokens: real("output_cost_per_million_tokens"),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -172,3 +311,20 @@ export const versionsRelations = relations(versions, ({ one }) => ({
     references: [apps.id],
   }),
 }));
+
+export const developmentRunsRelations = relations(
+  developmentRuns,
+  ({ one }) => ({
+    app: one(apps, {
+      fields: [developmentRuns.appId],
+      references: [apps.id],
+    }),
+  }),
+);
+
+export const runProfilesRelations = relations(runProfiles, ({ one }) => ({
+  app: one(apps, {
+    fields: [runProfiles.appId],
+    references: [apps.id],
+  }),
+}));
@@ -0,0 +1,93 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type {
+  AppLogEntry,
+  AppLogLevel,
+  AppLogRun,
+  AppLogSource,
+} from "@/ipc/ipc_types";
+
+// Output is recorded in the main process, so poll while the logs are shown
+const LOGS_REFETCH_INTERVAL = 1000;
+
+export interface AppLogFilters {
+  runId: number | null;
+  levels: AppLogLevel[];
+  sources: AppLogSource[];
+  pattern: string;
+}
+
+export function useAppLogRuns(appId: number | null) {
+  const query = useQuery({
+    queryKey: ["app-log-runs", appId],
+    queryFn: async (): Promise<AppLogRun[]> => {
+      if (!appId) {
+        return [];
+      }
+      return IpcClient.getInstance().listAppLogRuns(appId);
+    },
+    enabled: !!appId,
+    refetchInterval: LOGS_REFETCH_INTERVAL,
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    runs: query.data ?? [],
+    isLoading: query.isLoading,
+  };
+}
+
+export function useAppLogs(appId: number | null, filters: AppLogFilters) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ["app-logs", appId, filters],
+    queryFn: async (): Promise<AppLogEntry[]> => {
+      if (!appId) {
+        return [];
+      }
+      return IpcClient.getInstance().queryAppLogs({
+        appId,
+        runId: filters.runId ?? undefined,
+        levels: filters.levels,
+        sources: filters.sources,
+        pattern: filters.pattern || undefined,
+      });
+    },
+    enabled: !!appId,
+    refetchInterval: LOGS_REFETCH_INTERVAL,
+    meta: { showErrorToast: true },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async (runId: number): Promise<boolean> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().exportAppLogRun({ appId, runId });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async (): Promise<void> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().clearAppLogs(appId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["app-logs", appId] });
+      queryClient.invalidateQueries({ queryKey: ["app-log-runs", appId] });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    entries: query.data ?? [],
+    isLoading: query.isLoading,
+    exportRun: exportMutation.mutateAsync,
+    isExporting: exportMutation.isPending,
+    clearLogs: clearMutation.mutateAsync,
+  };
+}
@@ -1,10 +1,26 @@
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useEffect } from "react";
+import { useAtom } from "jotai";
 import type { FileAttachment } from "@/ipc/ipc_types";
+import { pendingPreviewScreenshotsAtom } from "@/atoms/previewAtoms";
 
 export function useAttachments() {
   const [attachments, setAttachments] = useState<FileAttachment[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const [pendingScreenshots, setPendingScreenshots] = useAtom(
+    pendingPreviewScreenshotsAtom,
+  );
+
+  // Screenshots taken in the preview panel
+  useEffect(() => {
+    if (pendingScreenshots.length > 0) {
+      const fileAttachments: FileAttachment[] = pendingScreenshots.map(
+        (file) => ({ file, type: "chat-context" }),
+      );
+      setAttachments((attachments) => [...attachments, ...fileAttachments]);
+      setPendingScreenshots([]);
+    }
+  }, [pendingScreenshots, setPendingScreenshots]);
 
   const handleAttachmentClick = () => {
     fileInputRef.current?.click();
@@ -0,0 +1,44 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import {
+  backendFrameworksData,
+  type BackendFramework,
+} from "@/shared/backendFrameworks";
+
+export function useBackendFrameworks() {
+  const queryClient = useQueryClient();
+  const queryKey = ["backend-frameworks"];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async (): Promise<BackendFramework[]> => {
+      return IpcClient.getInstance().listBackendFrameworks();
+    },
+    initialData: backendFrameworksData,
+    meta: { showErrorToast: true },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (): Promise<BackendFramework | null> => {
+      return IpcClient.getInstance().addBackendFrameworkFromFolder();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    meta: { showErrorToast: true },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (frameworkId: string): Promise<void> => {
+      return IpcClient.getInstance().removeBackendFramework(frameworkId);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    backendFrameworks: query.data,
+    isLoading: query.isLoading,
+    addBackendFrameworkFromFolder: addMutation.mutateAsync,
+    isAdding: addMutation.isPending,
+    removeBackendFramework: removeMutation.mutateAsync,
+  };
+}
@@ -0,0 +1,71 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "@tanstack/react-router";
+import { useSetAtom } from "jotai";
+import { IpcClient } from "@/ipc/ipc_client";
+import { chatsAtom, selectedChatIdAtom } from "@/atoms/chatAtoms";
+import { activeCheckoutCounterAtom } from "@/store/appAtoms";
+import { getAllChats } from "@/lib/chat";
+
+interface ForkChatVariables {
+  appId: number;
+  chatId: number;
+  messageId: number;
+}
+
+/**
+ * Fork chats from a message and keep the app's git branch in line with the
+ * selected chat
+ */
+export function useChatForks() {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const setChats = useSetAtom(chatsAtom);
+  const setSelectedChatId = useSetAtom(selectedChatIdAtom);
+  const setActiveCheckouts = useSetAtom(activeCheckoutCounterAtom);
+
+  const invalidateBranchQueries = (appId: number) => {
+    queryClient.invalidateQueries({ queryKey: ["currentBranch", appId] });
+    queryClient.invalidateQueries({ queryKey: ["versions", appId] });
+  };
+
+  const forkMutation = useMutation<number, Error, ForkChatVariables>({
+    mutationFn: async ({ chatId, messageId }) => {
+      setActiveCheckouts((prev) => prev + 1);
+      try {
+        return await IpcClient.getInstance().forkChat({ chatId, messageId });
+      } finally {
+        setActiveCheckouts((prev) => prev - 1);
+      }
+    },
+    onSuccess: async (forkId, { appId }) => {
+      invalidateBranchQueries(appId);
+      setChats(await getAllChats(appId));
+      setSelectedChatId(forkId);
+      navigate({ to: "/chat", search: { id: forkId } });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  const checkoutMutation = useMutation<
+    string | null,
+    Error,
+    { appId: number; chatId: number }
+  >({
+    mutationFn: async ({ chatId }) => {
+      setActiveCheckouts((prev) => prev + 1);
+      try {
+        return await IpcClient.getInstance().checkoutChatBranch(chatId);
+      } finally {
+        setActiveCheckouts((prev) => prev - 1);
+      }
+    },
+    onSuccess: (_, { appId }) => invalidateBranchQueries(appId),
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    forkChat: forkMutation.mutateAsync,
+    isForking: forkMutation.isPending,
+    checkoutChatBranch: checkoutMutation.mutateAsync,
+  };
+}
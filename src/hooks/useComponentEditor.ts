@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type {
+  ComponentEdit,
+  ComponentSelection,
+  ComponentSource,
+  EditComponentSourceResult,
+} from "@/ipc/ipc_types";
+
+export function useComponentEditor(
+  appId: number | null,
+  selection: ComponentSelection | null,
+) {
+  const queryClient = useQueryClient();
+  const queryKey = ["component-source", appId, selection?.id];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async (): Promise<ComponentSource | null> => {
+      if (!appId || !selection) {
+        return null;
+      }
+      return IpcClient.getInstance().readComponentSource({ appId, selection });
+    },
+    enabled: !!appId && !!selection,
+    // Errors show in the inspector, e.g. when the element can't be found
+    retry: false,
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (
+      edit: ComponentEdit,
+    ): Promise<EditComponentSourceResult> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      if (!selection) {
+        throw new Error("No element is selected");
+      }
+      return IpcClient.getInstance().editComponentSource({
+        appId,
+        selection,
+        edit,
+      });
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(queryKey, result.source);
+      // Each edit is committed as a new version
+      queryClient.invalidateQueries({ queryKey: ["versions", appId] });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    source: query.data ?? null,
+    isLoading: query.isLoading,
+    error: query.error,
+    applyEdit: applyMutation.mutateAsync,
+    isApplying: applyMutation.isPending,
+  };
+}
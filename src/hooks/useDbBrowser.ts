@@ -0,0 +1,108 @@
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type {
+  DbBrowserRows,
+  DbBrowserSource,
+  DbBrowserTable,
+  ExecuteDbBrowserSqlParams,
+  ExecuteDbBrowserSqlResult,
+  GetDbBrowserRowsParams,
+} from "@/ipc/ipc_types";
+
+export function useDbBrowserSource(appId: number | null) {
+  const query = useQuery({
+    queryKey: ["db-browser-source", appId],
+    queryFn: async (): Promise<DbBrowserSource | null> => {
+      if (!appId) {
+        return null;
+      }
+      return IpcClient.getInstance().getDbBrowserSource(appId);
+    },
+    enabled: !!appId,
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    source: query.data ?? null,
+    isLoading: query.isLoading,
+  };
+}
+
+export function useDbBrowserTables(appId: number | null, enabled: boolean) {
+  const query = useQuery({
+    queryKey: ["db-browser-tables", appId],
+    queryFn: async (): Promise<DbBrowserTable[]> => {
+      if (!appId) {
+        return [];
+      }
+      return IpcClient.getInstance().listDbBrowserTables(appId);
+    },
+    enabled: !!appId && enabled,
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    tables: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    refreshTables: query.refetch,
+  };
+}
+
+// No rows are loaded while `params` is null, e.g. before a table is picked
+export function useDbBrowserRows(params: GetDbBrowserRowsParams | null) {
+  const query = useQuery({
+    queryKey: ["db-browser-rows", params?.appId, params],
+    queryFn: async (): Promise<DbBrowserRows | null> => {
+      if (!params) {
+        return null;
+      }
+      return IpcClient.getInstance().getDbBrowserRows(params);
+    },
+    enabled: !!params,
+    // Keeps the grid in place while the next page loads
+    placeholderData: keepPreviousData,
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    rows: query.data ?? null,
+    isLoading: query.isFetching,
+    error: query.error,
+  };
+}
+
+export function useExecuteDbBrowserSql(appId: number | null) {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (
+      params: Omit<ExecuteDbBrowserSqlParams, "appId">,
+    ): Promise<ExecuteDbBrowserSqlResult> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().executeDbBrowserSql({ appId, ...params });
+    },
+    onSuccess: (result) => {
+      if (!result.needsConfirmation) {
+        // The query may have changed tables or their rows
+        queryClient.invalidateQueries({
+          queryKey: ["db-browser-tables", appId],
+        });
+        queryClient.invalidateQueries({ queryKey: ["db-browser-rows", appId] });
+      }
+    },
+  });
+
+  return {
+    executeSql: mutation.mutateAsync,
+    isExecuting: mutation.isPending,
+    error: mutation.error,
+  };
+}
@@ -0,0 +1,59 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { DevelopmentRun } from "@/ipc/ipc_types";
+
+export function useDevelopmentRuns(appId: number | null) {
+  const queryClient = useQueryClient();
+  const queryKey = ["development-runs", appId];
+
+  const listQuery = useQuery({
+    queryKey,
+    queryFn: async (): Promise<DevelopmentRun[]> => {
+      if (!appId) {
+        return [];
+      }
+      return IpcClient.getInstance().listDevelopmentRuns({ appId });
+    },
+    enabled: !!appId,
+    // Runs progress in the main process, so poll while one is active
+    refetchInterval: (query) =>
+      query.state.data?.some((run) => run.isActive) ? 3000 : false,
+    meta: { showErrorToast: true },
+  });
+
+  const continueMutation = useMutation({
+    mutationFn: async (): Promise<void> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().continueDevelopment({ appId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async (): Promise<void> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().stopDevelopment({ appId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    runs: listQuery.data ?? [],
+    isLoading: listQuery.isLoading,
+    error: listQuery.error,
+    continueDevelopment: continueMutation.mutateAsync,
+    isContinuing: continueMutation.isPending,
+    stopDevelopment: stopMutation.mutateAsync,
+    isStopping: stopMutation.isPending,
+  };
+}
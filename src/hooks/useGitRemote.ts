@@ -0,0 +1,131 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type {
+  ConnectGitRemoteParams,
+  GitRemoteCredentialSummary,
+  ListGitRemoteBranchesParams,
+  SaveGitRemoteCredentialParams,
+} from "@/ipc/ipc_types";
+
+export function useGitRemoteCredentials() {
+  const queryClient = useQueryClient();
+  const queryKey = ["git-remote-credentials"];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async (): Promise<GitRemoteCredentialSummary[]> =>
+      IpcClient.getInstance().listGitRemoteCredentials(),
+    meta: { showErrorToast: true },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (
+      params: SaveGitRemoteCredentialParams,
+    ): Promise<GitRemoteCredentialSummary> =>
+      IpcClient.getInstance().saveGitRemoteCredential(params),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    meta: { showErrorToast: true },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (credentialId: string): Promise<void> =>
+      IpcClient.getInstance().deleteGitRemoteCredential(credentialId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    credentials: query.data ?? [],
+    isLoading: query.isLoading,
+    saveCredential: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+    deleteCredential: deleteMutation.mutateAsync,
+  };
+}
+
+export function useGitRemote(appId: number | null) {
+  const queryClient = useQueryClient();
+
+  // The remote is stored on the app
+  const invalidateApp = () =>
+    queryClient.invalidateQueries({ queryKey: ["app", appId] });
+
+  const listBranchesMutation = useMutation({
+    mutationFn: async (params: ListGitRemoteBranchesParams) =>
+      IpcClient.getInstance().listGitRemoteBranches(params),
+    meta: { showErrorToast: true },
+  });
+
+  const connectMutation = useMutation({
+    mutationFn: async (params: Omit<ConnectGitRemoteParams, "appId">) => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().connectGitRemote({ appId, ...params });
+    },
+    onSuccess: invalidateApp,
+    meta: { showErrorToast: true },
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async () => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().disconnectGitRemote(appId);
+    },
+    onSuccess: invalidateApp,
+    meta: { showErrorToast: true },
+  });
+
+  const pushMutation = useMutation({
+    mutationFn: async ({ force }: { force?: boolean }) => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().pushGitRemote({ appId, force });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  const pullMutation = useMutation({
+    mutationFn: async () => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().pullGitRemote(appId);
+    },
+    onSuccess: () => {
+      // Pulled commits show up as new versions
+      queryClient.invalidateQueries({ queryKey: ["versions", appId] });
+      invalidateApp();
+    },
+    meta: { showErrorToast: true },
+  });
+
+  const fetchMutation = useMutation({
+    mutationFn: async () => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().fetchGitRemote(appId);
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    listBranches: listBranchesMutation.mutateAsync,
+    isListingBranches: listBranchesMutation.isPending,
+    connect: connectMutation.mutateAsync,
+    isConnecting: connectMutation.isPending,
+    disconnect: disconnectMutation.mutateAsync,
+    push: pushMutation.mutateAsync,
+    pull: pullMutation.mutateAsync,
+    fetch: fetchMutation.mutateAsync,
+    isSyncing:
+      pushMutation.isPending ||
+      pullMutation.isPending ||
+      fetchMutation.isPending ||
+      disconnectMutation.isPending,
+  };
+}
@@ -0,0 +1,69 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { LocalDbProvider, LocalDbStatus } from "@/ipc/ipc_types";
+
+export function useLocalDb(appId: number | null) {
+  const queryClient = useQueryClient();
+  const queryKey = ["local-db", appId];
+
+  const statusQuery = useQuery({
+    queryKey,
+    queryFn: async (): Promise<LocalDbStatus | null> => {
+      if (!appId) {
+        return null;
+      }
+      return IpcClient.getInstance().getLocalDbStatus(appId);
+    },
+    enabled: !!appId,
+    meta: { showErrorToast: true },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    // The provider is stored on the app
+    queryClient.invalidateQueries({ queryKey: ["app", appId] });
+  };
+
+  const provisionMutation = useMutation({
+    mutationFn: async (provider: LocalDbProvider): Promise<LocalDbStatus> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().provisionLocalDb({ appId, provider });
+    },
+    onSuccess: invalidate,
+    meta: { showErrorToast: true },
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async (): Promise<LocalDbStatus> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().startLocalDb(appId);
+    },
+    onSuccess: invalidate,
+    meta: { showErrorToast: true },
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async (): Promise<void> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().stopLocalDb(appId);
+    },
+    onSuccess: invalidate,
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    status: statusQuery.data ?? null,
+    isLoading: statusQuery.isLoading,
+    provisionLocalDb: provisionMutation.mutateAsync,
+    isProvisioning: provisionMutation.isPending,
+    startLocalDb: startMutation.mutateAsync,
+    stopLocalDb: stopMutation.mutateAsync,
+    isChangingState: startMutation.isPending || stopMutation.isPending,
+  };
+}
@@ -0,0 +1,54 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { SaveAppAsTemplateParams } from "@/ipc/ipc_types";
+import type { Template } from "@/shared/templates";
+
+/**
+ * Actions on the templates saved locally. The templates themselves are
+ * listed by useTemplates.
+ */
+export function useLocalTemplates() {
+  const queryClient = useQueryClient();
+  const invalidateTemplates = () =>
+    queryClient.invalidateQueries({ queryKey: ["templates"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async (params: SaveAppAsTemplateParams): Promise<Template> => {
+      return IpcClient.getInstance().saveAppAsTemplate(params);
+    },
+    onSuccess: invalidateTemplates,
+    meta: { showErrorToast: true },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (): Promise<Template | null> => {
+      return IpcClient.getInstance().importLocalTemplate();
+    },
+    onSuccess: invalidateTemplates,
+    meta: { showErrorToast: true },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async (templateId: string): Promise<boolean> => {
+      return IpcClient.getInstance().exportLocalTemplate(templateId);
+    },
+    meta: { showErrorToast: true },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (templateId: string): Promise<void> => {
+      return IpcClient.getInstance().deleteLocalTemplate(templateId);
+    },
+    onSuccess: invalidateTemplates,
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    saveAppAsTemplate: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+    importTemplate: importMutation.mutateAsync,
+    isImporting: importMutation.isPending,
+    exportTemplate: exportMutation.mutateAsync,
+    deleteTemplate: deleteMutation.mutateAsync,
+  };
+}
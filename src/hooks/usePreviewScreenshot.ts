@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { useSetAtom } from "jotai";
+import { IpcClient } from "@/ipc/ipc_client";
+import { pendingPreviewScreenshotsAtom } from "@/atoms/previewAtoms";
+import { showError, showSuccess } from "@/lib/toast";
+
+export function usePreviewScreenshot() {
+  const setPendingScreenshots = useSetAtom(pendingPreviewScreenshotsAtom);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  /**
+   * Captures the element as shown in the window and attaches it to the chat
+   * input as an image at the given size and pixel ratio, or smaller if the
+   * element is shown with fewer pixels than that.
+   */
+  const captureScreenshot = async (
+    element: HTMLElement,
+    {
+      name,
+      width,
+      height,
+      devicePixelRatio,
+    }: {
+      name: string;
+      width: number;
+      height: number;
+      devicePixelRatio: number;
+    },
+  ) => {
+    setIsCapturing(true);
+    try {
+      const rect = element.getBoundingClientRect();
+      const dataUrl = await IpcClient.getInstance().capturePreviewScreenshot({
+        rect: {
+          x: rect.x,
+          y: rect.y,
+          width: rect.width,
+          height: rect.height,
+        },
+        outputWidth: Math.round(width * devicePixelRatio),
+        outputHeight: Math.round(height * devicePixelRatio),
+      });
+      const blob = await (await fetch(dataUrl)).blob();
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+      const file = new File(
+        [blob],
+        `preview-${name.toLowerCase()}-${width}x${height}@${devicePixelRatio}x-${timestamp}.png`,
+        { type: "image/png" },
+      );
+      setPendingScreenshots((files) => [...files, file]);
+      showSuccess(`Attached the ${name} screenshot to the chat`);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  return { captureScreenshot, isCapturing };
+}
@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { PtyLocation, PtySession } from "@/ipc/ipc_types";
+
+export function usePtySessions(appId: number | null) {
+  const queryClient = useQueryClient();
+  const queryKey = ["pty-sessions", appId];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async (): Promise<PtySession[]> => {
+      if (!appId) {
+        return [];
+      }
+      return IpcClient.getInstance().listPtySessions(appId);
+    },
+    enabled: !!appId,
+    meta: { showErrorToast: true },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async ({
+      location,
+      cols,
+      rows,
+    }: {
+      location: PtyLocation;
+      cols: number;
+      rows: number;
+    }): Promise<PtySession> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().createPtySession({
+        appId,
+        location,
+        cols,
+        rows,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  const killMutation = useMutation({
+    mutationFn: async (sessionId: string): Promise<void> =>
+      IpcClient.getInstance().killPtySession(sessionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    sessions: query.data ?? [],
+    isLoading: query.isLoading,
+    refreshSessions: query.refetch,
+    createSession: createMutation.mutateAsync,
+    isCreating: createMutation.isPending,
+    killSession: killMutation.mutateAsync,
+  };
+}
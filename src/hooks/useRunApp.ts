@@ -4,6 +4,7 @@ import { IpcClient } from "@/ipc/ipc_client";
 import {
   appOutputAtom,
   appUrlAtom,
+  MAX_CONSOLE_OUTPUT_ENTRIES,
   currentAppAtom,
   previewPanelKeyAtom,
   previewErrorMessageAtom,
@@ -84,7 +85,10 @@ export function useRunApp() {
       }
 
       // Add to regular app output
-      setAppOutput((prev) => [...prev, output]);
+      setAppOutput((prev) => [
+        ...prev.slice(1 - MAX_CONSOLE_OUTPUT_ENTRIES),
+        output,
+      ]);
 
       // Process proxy server output
       processProxyServerOutput(output);
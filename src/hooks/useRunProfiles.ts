@@ -0,0 +1,72 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { RunProfile, SaveRunProfileParams } from "@/ipc/ipc_types";
+
+export function useRunProfiles(appId: number | null) {
+  const queryClient = useQueryClient();
+  const queryKey = ["run-profiles", appId];
+
+  const listQuery = useQuery({
+    queryKey,
+    queryFn: async (): Promise<RunProfile[]> => {
+      if (!appId) {
+        return [];
+      }
+      return IpcClient.getInstance().listRunProfiles({ appId });
+    },
+    enabled: !!appId,
+    meta: { showErrorToast: true },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey });
+    // The selected profile is stored on the app
+    queryClient.invalidateQueries({ queryKey: ["app", appId] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (
+      params: Omit<SaveRunProfileParams, "appId">,
+    ): Promise<RunProfile> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().saveRunProfile({ ...params, appId });
+    },
+    onSuccess: invalidate,
+    meta: { showErrorToast: true },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (profileId: number): Promise<void> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().deleteRunProfile({ appId, profileId });
+    },
+    onSuccess: invalidate,
+    meta: { showErrorToast: true },
+  });
+
+  const selectMutation = useMutation({
+    mutationFn: async (profileId: number | null): Promise<void> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().selectRunProfile({ appId, profileId });
+    },
+    onSuccess: invalidate,
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    runProfiles: listQuery.data ?? [],
+    isLoading: listQuery.isLoading,
+    error: listQuery.error,
+    saveRunProfile: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+    deleteRunProfile: deleteMutation.mutateAsync,
+    selectRunProfile: selectMutation.mutateAsync,
+    isSelecting: selectMutation.isPending,
+  };
+}
@@ -18,7 +18,7 @@ import { useChats } from "./useChats";
 import { useLoadApp } from "./useLoadApp";
 import { selectedAppIdAtom } from "@/atoms/appAtoms";
 import { useVersions } from "./useVersions";
-import { showExtraFilesToast } from "@/lib/toast";
+import { showExtraFilesToast, showWarning } from "@/lib/toast";
 import { useProposal } from "./useProposal";
 import { useSearch } from "@tanstack/react-router";
 import { useRunApp } from "./useRunApp";
@@ -27,6 +27,7 @@ import { useUserBudgetInfo } from "./useUserBudgetInfo";
 import { usePostHog } from "posthog-js/react";
 import { useCheckProblems } from "./useCheckProblems";
 import { useSettings } from "./useSettings";
+import { useRefreshUsage } from "./useTokenUsage";
 
 export function getRandomNumberId() {
   return Math.floor(Math.random() * 1_000_000_000_000_000);
@@ -49,6 +50,7 @@ export function useStreamChat({
   const { refetchUserBudget } = useUserBudgetInfo();
   const { checkProblems } = useCheckProblems(selectedAppId);
   const { settings } = useSettings();
+  const refreshUsage = useRefreshUsage();
   const posthog = usePostHog();
   let chatId: number | undefined;
 
@@ -66,6 +68,8 @@ export function useStreamChat({
       redo,
       attachments,
       selectedComponent,
+      terminalSessionId,
+      appLogErrorCount,
     }: {
       prompt: string;
       chatId: number;
@@ -73,6 +77,8 @@ export function useStreamChat({
       redo?: boolean;
       attachments?: FileAttachment[];
       selectedComponent?: ComponentSelection | null;
+      terminalSessionId?: string;
+      appLogErrorCount?: number;
     }) => {
       if (
         (!prompt.trim() && (!attachments || attachments.length === 0)) ||
@@ -84,10 +90,24 @@ export function useStreamChat({
       setError(null);
       setIsStreaming(true);
 
+      if (settings?.monthlyBudget?.mode === "warn") {
+        // The main process enforces "block", so a failed check only skips the warning
+        const budgetStatus = await IpcClient.getInstance()
+          .getMonthlyBudgetStatus()
+          .catch(() => null);
+        if (budgetStatus?.isExceeded) {
+          showWarning(
+            `You've spent $${budgetStatus.spentUsd.toFixed(2)} this month, over your $${budgetStatus.limitUsd?.toFixed(2)} budget.`,
+          );
+        }
+      }
+
       let hasIncrementedStreamCount = false;
       try {
         IpcClient.getInstance().streamMessage(prompt, {
           selectedComponent: selectedComponent ?? null,
+          terminalSessionId,
+          appLogErrorCount,
           chatId,
           chatMode,
           redo,
@@ -125,6 +145,7 @@ export function useStreamChat({
             refreshApp();
             refreshVersions();
             countTokens(chatId, "");
+            refreshUsage();
           },
           onError: (errorMessage: string) => {
             console.error(`[CHAT] Stream error for ${chatId}:`, errorMessage);
@@ -151,6 +172,7 @@ export function useStreamChat({
       checkProblems,
       selectedAppId,
       refetchUserBudget,
+      refreshUsage,
       settings,
     ],
   );
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { IpcClient } from "@/ipc/ipc_client";
+import type { TerminalCommandAuditEntry } from "@/ipc/ipc_types";
+import type { CommandPolicy } from "@/lib/schemas";
+
+export function useTerminalCommandAudit(appId: number | null) {
+  const query = useQuery({
+    queryKey: ["terminal-command-audit", appId],
+    queryFn: async (): Promise<TerminalCommandAuditEntry[]> => {
+      if (!appId) {
+        return [];
+      }
+      return IpcClient.getInstance().listTerminalCommandAudit(appId);
+    },
+    enabled: !!appId,
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    entries: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+export function useAppCommandPolicy(appId: number | null) {
+  const queryClient = useQueryClient();
+  const queryKey = ["app-command-policy", appId];
+
+  const query = useQuery({
+    queryKey,
+    queryFn: async (): Promise<CommandPolicy | null> => {
+      if (!appId) {
+        return null;
+      }
+      return IpcClient.getInstance().getAppCommandPolicy(appId);
+    },
+    enabled: !!appId,
+    meta: { showErrorToast: true },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (policy: CommandPolicy | null): Promise<void> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().setAppCommandPolicy({ appId, policy });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    policy: query.data ?? null,
+    isLoading: query.isLoading,
+    savePolicy: mutation.mutateAsync,
+  };
+}
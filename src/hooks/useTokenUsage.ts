@@ -0,0 +1,54 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback } from "react";
+import { IpcClient } from "@/ipc/ipc_client";
+import type {
+  ChatUsage,
+  MonthlyBudgetStatus,
+  UsageSummary,
+} from "@/ipc/ipc_types";
+
+export function useChatUsage(chatId: number | undefined) {
+  const { data, isLoading } = useQuery<ChatUsage | null>({
+    queryKey: ["usage", "chat", chatId],
+    queryFn: async () => {
+      if (!chatId) {
+        return null;
+      }
+      return IpcClient.getInstance().getChatUsage(chatId);
+    },
+    enabled: !!chatId,
+    meta: { showErrorToast: true },
+  });
+
+  return { chatUsage: data ?? null, isLoading };
+}
+
+export function useUsageSummary(sinceDays?: number) {
+  const { data, isLoading } = useQuery<UsageSummary>({
+    queryKey: ["usage", "summary", sinceDays],
+    queryFn: () => IpcClient.getInstance().getUsageSummary({ sinceDays }),
+    meta: { showErrorToast: true },
+  });
+
+  return { summary: data, isLoading };
+}
+
+export function useMonthlyBudgetStatus() {
+  const { data, refetch } = useQuery<MonthlyBudgetStatus>({
+    queryKey: ["usage", "budget-status"],
+    queryFn: () => IpcClient.getInstance().getMonthlyBudgetStatus(),
+  });
+
+  return { budgetStatus: data, refetchBudgetStatus: refetch };
+}
+
+/**
+ * Refresh every usage query, e.g. after a response finishes streaming
+ */
+export function useRefreshUsage() {
+  const queryClient = useQueryClient();
+  return useCallback(
+    () => queryClient.invalidateQueries({ queryKey: ["usage"] }),
+    [queryClient],
+  );
+}
@@ -0,0 +1,133 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAtomValue } from "jotai";
+import { IpcClient } from "@/ipc/ipc_client";
+import { selectedChatIdAtom } from "@/atoms/chatAtoms";
+import type {
+  RestoreVersionFilesParams,
+  SupabaseSchemaDiff,
+  VersionFileChange,
+  VersionFileDiff,
+} from "@/ipc/ipc_types";
+
+// `toVersionId` of undefined compares against the working tree
+export function useVersionDiff(
+  appId: number | null,
+  fromVersionId: string | null,
+  toVersionId?: string,
+) {
+  const query = useQuery({
+    queryKey: ["version-diff", appId, fromVersionId, toVersionId],
+    queryFn: async (): Promise<VersionFileChange[]> => {
+      if (!appId || !fromVersionId) {
+        return [];
+      }
+      return IpcClient.getInstance().getVersionDiff({
+        appId,
+        fromVersionId,
+        toVersionId,
+      });
+    },
+    enabled: !!appId && !!fromVersionId,
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    changes: query.data ?? [],
+    isLoading: query.isLoading,
+  };
+}
+
+export function useVersionFileDiff(
+  appId: number | null,
+  fromVersionId: string | null,
+  toVersionId: string | undefined,
+  filePath: string | null,
+) {
+  const query = useQuery({
+    queryKey: [
+      "version-file-diff",
+      appId,
+      fromVersionId,
+      toVersionId,
+      filePath,
+    ],
+    queryFn: async (): Promise<VersionFileDiff | null> => {
+      if (!appId || !fromVersionId || !filePath) {
+        return null;
+      }
+      return IpcClient.getInstance().getVersionFileDiff({
+        appId,
+        fromVersionId,
+        toVersionId,
+        filePath,
+      });
+    },
+    enabled: !!appId && !!fromVersionId && !!filePath,
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    fileDiff: query.data ?? null,
+    isLoading: query.isLoading,
+  };
+}
+
+export function useSupabaseSchemaDiff(
+  appId: number | null,
+  fromVersionId: string | null,
+  toVersionId: string | undefined,
+) {
+  const query = useQuery({
+    queryKey: ["supabase-schema-diff", appId, fromVersionId, toVersionId],
+    queryFn: async (): Promise<SupabaseSchemaDiff | null> => {
+      if (!appId || !fromVersionId || !toVersionId) {
+        return null;
+      }
+      return IpcClient.getInstance().getSupabaseSchemaDiff({
+        appId,
+        fromVersionId,
+        toVersionId,
+      });
+    },
+    enabled: !!appId && !!fromVersionId && !!toVersionId,
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    schemaDiff: query.data ?? null,
+    isLoading: query.isLoading,
+  };
+}
+
+export function useRestoreVersionFiles(appId: number | null) {
+  const queryClient = useQueryClient();
+  const chatId = useAtomValue(selectedChatIdAtom);
+
+  const mutation = useMutation({
+    mutationFn: async (
+      params: Omit<RestoreVersionFilesParams, "appId" | "chatId">,
+    ): Promise<void> => {
+      if (!appId) {
+        throw new Error("appId is not set");
+      }
+      return IpcClient.getInstance().restoreVersionFiles({
+        appId,
+        chatId,
+        ...params,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["versions", appId] });
+      queryClient.invalidateQueries({ queryKey: ["currentBranch", appId] });
+      queryClient.invalidateQueries({ queryKey: ["version-diff", appId] });
+      queryClient.invalidateQueries({ queryKey: ["version-file-diff", appId] });
+      queryClient.invalidateQueries({ queryKey: ["problems", appId] });
+    },
+    meta: { showErrorToast: true },
+  });
+
+  return {
+    restoreVersionFiles: mutation.mutateAsync,
+    isRestoring: mutation.isPending,
+  };
+}
@@ -42,9 +42,9 @@ export function useVersions(appId: number | null) {
   const revertVersionMutation = useMutation<
     RevertVersionResponse,
     Error,
-    { versionId: string }
+    { versionId: string; rollbackSupabaseSchema?: boolean }
   >({
-    mutationFn: async ({ versionId }: { versionId: string }) => {
+    mutationFn: async ({ versionId, rollbackSupabaseSchema }) => {
       const currentAppId = appId;
       if (currentAppId === null) {
         throw new Error("App ID is null");
@@ -53,6 +53,7 @@ export function useVersions(appId: number | null) {
       return ipcClient.revertVersion({
         appId: currentAppId,
         previousVersionId: versionId,
+        rollbackSupabaseSchema,
       });
     },
     onSuccess: async (result) => {
@@ -119,7 +119,7 @@ import { createLoggedHandler } from "./safe_handle";
 import { getLanguageModelProviders } from "../shared/language_model_helpers";
 import { startProxy } from "../utils/start_proxy_server";
 import { Worker } from "worker_threads";
-import { createFromTemplate, setupBackendFramework, getStartCommandForFramework } from "./createFromTemplate";
+import { createFromTemplate, setupBackendFramework, getFrameworkStart } from "./createFromTemplate";
 import { gitCommit } from "../utils/git_utils";
 import { safeSend } from "../utils/safe_sender";
 import { normalizePath } from "../../../shared/normalizePath";
@@ -127,9 +127,27 @@ import { isServerFunction } from "@/supabase_admin/supabase_utils";
 import { getVercelTeamSlug } from "../utils/vercel_utils";
 import { storeDbTimestampAtCurrentVersion } from "../utils/neon_timestamp_utils";
 import { AppSearchResult } from "@/lib/schemas";
-import { CreateMissingFolderParams } from "../ipc_types";
+import { CreateMissingFolderParams, RunProfile } from "../ipc_types";
 import { developmentOrchestrator } from "../utils/development_orchestrator";
+import {
+  copyRunProfiles,
+  getRunProfileCommand,
+  getRunProfileEnv,
+  getSelectedRunProfile,
+} from "../utils/run_profiles";
+import { detectBackendFramework } from "../utils/backend_framework_registry";
+import {
+  backendNeedsPostgres,
+  ComposeBackendFramework,
+  ComposeService,
+  spawnComposeLogs,
+  startComposeProject,
+  streamComposeLogsToTerminal,
+} from "../utils/docker_compose";
 import { routeTerminalOutput } from "./terminal_handlers";
+import { recordAppLog, startAppLogRun } from "../utils/app_log_store";
+import { deleteLocalDb, startLocalDb } from "../../local_db/local_db_manager";
+import { killPtySessionsForApp } from "../utils/pty_manager";
 import net from "net";
 
 const DEFAULT_COMMAND =
@@ -228,10 +246,12 @@ function updateEnvVariable(envContent: string, key: string, value: string): stri
   return updatedLines.join('\n');
 }
 
-async function detectPythonFramework(backendPath: string): Promise<string> {
+type PythonFramework = "django" | "fastapi" | "flask" | "python";
+
+async function detectPythonFramework(backendPath: string): Promise<PythonFramework> {
   // Check for common Python files
   const pythonFiles = ['main.py', 'app.py', 'server.py', 'application.py'];
-  let detectedFramework = 'python'; // default
+  let detectedFramework: PythonFramework = 'python'; // default
 
   for (const file of pythonFiles) {
     const filePath = path.join(backendPath, file);
@@ -273,31 +293,131 @@ async function executeApp({
   appId,
   event, // Keep event for local-node case
   isNeon,
-  installCommand,
-  startCommand,
+  runProfile,
   terminalType,
 }: {
   appPath: string;
   appId: number;
   event: Electron.IpcMainInvokeEvent;
   isNeon: boolean;
-  installCommand?: string | null;
-  startCommand?: string | null;
+  runProfile?: RunProfile;
   terminalType?: "frontend" | "backend" | "main";
 }): Promise<void> {
   if (proxyWorker) {
     proxyWorker.terminate();
     proxyWorker = null;
   }
+  startAppLogRun(appId);
+
+  // Docker Compose generates the commands of each service itself, so it
+  // takes precedence over the selected run profile
+  const settings = readSettings();
+  if (settings.runtimeMode2 === "docker-compose") {
+    await executeAppInDockerCompose({
+      appPath,
+      appId,
+      event,
+      isNeon,
+    });
+    return;
+  }
+
+  // Otherwise use host mode for app development - single-container Docker is not suitable for development
+  if (runProfile) {
+    await executeAppWithRunProfile({
+      appPath,
+      appId,
+      event,
+      isNeon,
+      runProfile,
+    });
+    return;
+  }
 
-  // Always use host mode for app development - Docker is experimental and not suitable for development
   await executeAppLocalNode({
     appPath,
     appId,
     event,
     isNeon,
-    installCommand,
-    startCommand,
+  });
+}
+
+/**
+ * Run an app with the install, build and start commands of a run profile,
+ * instead of detecting how to run it
+ */
+async function executeAppWithRunProfile({
+  appPath,
+  appId,
+  event,
+  isNeon,
+  runProfile,
+}: {
+  appPath: string;
+  appId: number;
+  event: Electron.IpcMainInvokeEvent;
+  isNeon: boolean;
+  runProfile: RunProfile;
+}): Promise<void> {
+  const workingDir = runProfile.workingDirectory
+    ? path.join(appPath, runProfile.workingDirectory)
+    : appPath;
+  if (!fs.existsSync(workingDir)) {
+    throw new Error(
+      `Run profile "${runProfile.name}" uses a missing folder: ${runProfile.workingDirectory}`,
+    );
+  }
+
+  const terminalType =
+    runProfile.workingDirectory === "backend" ? "backend" : "frontend";
+  const port =
+    runProfile.port ??
+    (await findAvailablePort(terminalType === "backend" ? 8000 : 32100));
+  const command = getRunProfileCommand(runProfile);
+
+  safeSend(event.sender, "app:output", {
+    type: "stdout",
+    message: `🚀 Running profile "${runProfile.name}" on port ${port}...`,
+    appId,
+  });
+
+  const spawnedProcess = await executeComplexCommand(
+    command,
+    workingDir,
+    getRunProfileEnv(getShellEnv(), runProfile, port),
+  );
+
+  if (!spawnedProcess.pid) {
+    let errorOutput = "";
+    spawnedProcess.stderr?.on("data", (data: Buffer) => (errorOutput += data));
+    await new Promise((resolve) => spawnedProcess.on("error", resolve));
+    throw new Error(
+      `Failed to spawn process for app ${appId}. Error: ${
+        errorOutput || "Unknown spawn error"
+      }`,
+    );
+  }
+
+  const currentProcessId = processCounter.increment();
+  runningApps.set(appId, {
+    process: spawnedProcess,
+    processId: currentProcessId,
+    isDocker: false,
+  });
+
+  safeSend(event.sender, "app:output", {
+    type: "stdout",
+    message: `✅ ${terminalType === "backend" ? "Backend" : "Frontend"} server started (PID: ${spawnedProcess.pid}, Port: ${port})`,
+    appId,
+  });
+
+  listenToProcess({
+    process: spawnedProcess,
+    appId,
+    appPath,
+    isNeon,
+    event,
+    terminalType,
   });
 }
 
@@ -486,15 +606,11 @@ async function executeAppLocalNode({
   appId,
   event,
   isNeon,
-  installCommand,
-  startCommand,
 }: {
   appPath: string;
   appId: number;
   event: Electron.IpcMainInvokeEvent;
   isNeon: boolean;
-  installCommand?: string | null;
-  startCommand?: string | null;
 }): Promise<void> {
   // Determine working directory based on available folders
   const frontendPath = path.join(appPath, "frontend");
@@ -702,11 +818,15 @@ async function executeAppLocalNode({
       return;
     }
 
-    // Determine backend framework for proper server command
-    let backendFramework: string | null = null;
+    // Determine backend framework for proper server command, starting with
+    // the frameworks whose manifests declare files to detect them by
+    let backendFramework: string | null =
+      detectBackendFramework(backendPath)?.id ?? null;
 
-    // First check for Python frameworks (more specific check)
-    if (fs.existsSync(path.join(backendPath, "requirements.txt"))) {
+    if (backendFramework) {
+      logger.info(`Detected ${backendFramework} framework from its manifest`);
+    } else if (fs.existsSync(path.join(backendPath, "requirements.txt"))) {
+      // Check for Python frameworks first (more specific check)
       logger.info(`Found requirements.txt in ${backendPath}, detecting Python framework`);
       // Check for framework-specific files
       if (fs.existsSync(path.join(backendPath, "manage.py"))) {
@@ -730,12 +850,15 @@ async function executeAppLocalNode({
     // Start backend server first
     try {
       let backendCommand: string;
+      let backendEnv = getShellEnv();
       logger.info(`Starting backend server with framework: ${backendFramework || 'unknown'}`);
 
       if (backendFramework && backendFramework !== "nodejs") {
-        // For Python frameworks, get the proper start command
-        logger.info(`Getting start command for Python framework: ${backendFramework}`);
-        backendCommand = await getStartCommandForFramework(backendFramework);
+        // For frameworks with a manifest, get the proper start command
+        logger.info(`Getting start command for framework: ${backendFramework}`);
+        const frameworkStart = await getFrameworkStart(backendFramework);
+        backendCommand = frameworkStart.command;
+        backendEnv = { ...backendEnv, ...frameworkStart.env };
         logger.info(`Got command for ${backendFramework}: ${backendCommand}`);
         if (!backendCommand) {
           // Fallback to default Python command
@@ -743,8 +866,8 @@ async function executeAppLocalNode({
           logger.info(`Using fallback command: ${backendCommand}`);
         }
       } else if (backendFramework === "nodejs") {
-        // For Node.js backends, use custom commands or default
-        backendCommand = getCommand({ installCommand, startCommand });
+        // For Node.js backends, use the default command
+        backendCommand = DEFAULT_COMMAND;
         logger.info(`Using Node.js command: ${backendCommand}`);
       } else {
         // No framework detected, try to guess
@@ -753,7 +876,7 @@ async function executeAppLocalNode({
           backendCommand = "python app.py";
           logger.info(`Guessed Python command: ${backendCommand}`);
         } else {
-          backendCommand = getCommand({ installCommand, startCommand }); // Fallback to Node.js
+          backendCommand = DEFAULT_COMMAND; // Fallback to Node.js
           logger.info(`Guessed Node.js command: ${backendCommand}`);
         }
       }
@@ -761,7 +884,7 @@ async function executeAppLocalNode({
       logger.info(`Final backend command: ${backendCommand}`);
 
       // Always use executeComplexCommand for backend commands as they may be complex
-      const backendProcess = await executeComplexCommand(backendCommand, backendPath, getShellEnv());
+      const backendProcess = await executeComplexCommand(backendCommand, backendPath, backendEnv);
 
       if (backendProcess.pid) {
         const backendProcessId = processCounter.increment();
@@ -977,7 +1100,7 @@ async function executeAppLocalNode({
     });
   }
 
-  let command = getCommand({ installCommand, startCommand });
+  let command = DEFAULT_COMMAND;
 
   // For frontend, override with dynamic port and host binding for proxy access
   if (workingDir === frontendPath && serverPort > 0) {
@@ -1414,15 +1537,13 @@ async function executeAppInDocker({
   appId,
   event,
   isNeon,
-  installCommand,
-  startCommand,
+  runProfile,
 }: {
   appPath: string;
   appId: number;
   event: Electron.IpcMainInvokeEvent;
   isNeon: boolean;
-  installCommand?: string | null;
-  startCommand?: string | null;
+  runProfile?: RunProfile;
 }): Promise<void> {
   const containerName = `dyad-app-${appId}`;
 
@@ -1560,7 +1681,7 @@ RUN npm install -g pnpm
       `dyad-app-${appId}`,
       "sh",
       "-c",
-      getCommand({ installCommand, startCommand }),
+      runProfile ? getRunProfileCommand(runProfile) : DEFAULT_COMMAND,
     ],
     {
       stdio: "pipe",
@@ -1600,6 +1721,123 @@ RUN npm install -g pnpm
   });
 }
 
+async function detectComposeBackendFramework(
+  backendPath: string,
+): Promise<ComposeBackendFramework> {
+  const framework = detectBackendFramework(backendPath)?.id;
+  if (framework === "go" || framework === "spring-lite") {
+    return framework;
+  }
+  if (fs.existsSync(path.join(backendPath, "package.json"))) {
+    return "nodejs";
+  }
+  if (fs.existsSync(path.join(backendPath, "manage.py"))) {
+    return "django";
+  }
+  return detectPythonFramework(backendPath);
+}
+
+/**
+ * Run an app as a docker compose project with a service for its frontend,
+ * its backend and, if the backend uses it, Postgres
+ */
+async function executeAppInDockerCompose({
+  appPath,
+  appId,
+  event,
+  isNeon,
+}: {
+  appPath: string;
+  appId: number;
+  event: Electron.IpcMainInvokeEvent;
+  isNeon: boolean;
+}): Promise<void> {
+  const hasFrontend = fs.existsSync(path.join(appPath, "frontend"));
+  const backendPath = path.join(appPath, "backend");
+  const hasBackend = fs.existsSync(backendPath);
+  // Apps without frontend/ and backend/ folders are a frontend at the root
+  const frontendDir = hasFrontend ? "frontend" : hasBackend ? null : ".";
+  const backendDir = hasBackend ? "backend" : null;
+  const withPostgres = hasBackend && backendNeedsPostgres(backendPath);
+  const env = getShellEnv();
+
+  safeSend(event.sender, "app:output", {
+    type: "stdout",
+    message: `🐳 Starting Docker Compose services: ${[
+      frontendDir && "frontend",
+      backendDir && "backend",
+      withPostgres && "db",
+    ]
+      .filter(Boolean)
+      .join(", ")}...`,
+    appId,
+  });
+
+  const { projectName, composeFile } = await startComposeProject({
+    appId,
+    appPath,
+    env,
+    frontendDir,
+    backendDir,
+    backendFramework: hasBackend
+      ? await detectComposeBackendFramework(backendPath)
+      : "nodejs",
+    frontendPort: await findAvailablePort(32100),
+    backendPort: await findAvailablePort(8000),
+    withPostgres,
+    hasBackendEnvFile: fs.existsSync(path.join(backendPath, ".env")),
+  });
+
+  // The frontend's logs drive the preview, or the backend's without one
+  const mainService: ComposeService = frontendDir ? "frontend" : "backend";
+  const logProcesses: ChildProcess[] = [];
+  if (frontendDir && backendDir) {
+    logProcesses.push(
+      streamComposeLogsToTerminal({
+        appId,
+        appPath,
+        service: "backend",
+        env,
+        terminal: "backend",
+      }),
+    );
+  }
+  if (withPostgres) {
+    logProcesses.push(
+      streamComposeLogsToTerminal({
+        appId,
+        appPath,
+        service: "db",
+        env,
+        terminal: "backend",
+      }),
+    );
+  }
+  const mainProcess = spawnComposeLogs({
+    appId,
+    appPath,
+    service: mainService,
+    env,
+  });
+
+  const currentProcessId = processCounter.increment();
+  runningApps.set(appId, {
+    process: mainProcess,
+    processId: currentProcessId,
+    isDocker: true,
+    compose: { projectName, composeFile, logProcesses },
+  });
+
+  listenToProcess({
+    process: mainProcess,
+    appId,
+    appPath,
+    isNeon,
+    event,
+    terminalType: mainService,
+  });
+}
+
 // Helper to kill process on a specific port (cross-platform, using kill-port)
 async function killProcessOnPort(port: number): Promise<void> {
   try {
@@ -1665,6 +1903,7 @@ export function registerAppHandlers() {
 
     // Log to system console
     logger.error(`Client error from app ${appId}:`, error);
+    recordAppLog({ appId, source: "client-error", level: "error", text: errorMessage });
 
     // Route to both frontend terminal and system messages for visibility
     safeSend(event.sender, "app:output", {
@@ -2022,10 +2261,9 @@ export function registerAppHandlers() {
           supabaseProjectId: null,
           githubOrg: null,
           githubRepo: null,
-          installCommand: originalApp.installCommand,
-          startCommand: originalApp.startCommand,
         })
         .returning();
+      await copyRunProfiles(originalApp.id, newDbApp.id);
 
       return { app: newDbApp };
     },
@@ -2211,6 +2449,11 @@ export function registerAppHandlers() {
 
         const appPath = getDyadAppPath(app.path);
         try {
+          // The app reads POSTGRES_URL when it starts, so its database
+          // has to be up first
+          if (app.localDbProvider === "postgres") {
+            await startLocalDb(appId);
+          }
           // There may have been a previous run that left a process on port 32100.
           await cleanUpPort(32100);
     await executeApp({
@@ -2218,8 +2461,7 @@ export function registerAppHandlers() {
       appId,
       event,
       isNeon: !!app.neonProjectId,
-      installCommand: app.installCommand,
-      startCommand: app.startCommand,
+      runProfile: await getSelectedRunProfile(appId),
       terminalType,
     });
 
@@ -2276,7 +2518,11 @@ export function registerAppHandlers() {
           );
 
           // Check if the process is already exited or closed
-          if (process.exitCode !== null || process.signalCode !== null) {
+          // A compose project outlives its exited log follower, so it's always torn down
+          if (
+            !appInfo.compose &&
+            (process.exitCode !== null || process.signalCode !== null)
+          ) {
             logger.log(
               `Process for app ${key} (PID: ${process.pid}) already exited (code: ${process.exitCode}, signal: ${process.signalCode}). Cleaning up map.`,
             );
@@ -2364,8 +2610,7 @@ export function registerAppHandlers() {
             appId,
             event,
             isNeon: !!app.neonProjectId,
-            installCommand: app.installCommand,
-            startCommand: app.startCommand,
+            runProfile: await getSelectedRunProfile(appId),
           }); // This will handle starting either mode
 
           return;
@@ -2525,6 +2770,15 @@ export function registerAppHandlers() {
           );
         }
 
+        // Terminals would otherwise keep running in the deleted folder
+        killPtySessionsForApp(appId);
+
+        try {
+          await deleteLocalDb(appId);
+        } catch (error: any) {
+          logger.error(`Error deleting local database of app ${appId}:`, error);
+        }
+
         // Delete app files
         const appPath = getDyadAppPath(app.path);
         try {
@@ -2940,19 +3194,6 @@ export function registerAppHandlers() {
   );
 }
 
-function getCommand({
-  installCommand,
-  startCommand,
-}: {
-  installCommand?: string | null;
-  startCommand?: string | null;
-}) {
-  const hasCustomCommands = !!installCommand?.trim() && !!startCommand?.trim();
-  return hasCustomCommands
-    ? `${installCommand!.trim()} && ${startCommand!.trim()}`
-    : DEFAULT_COMMAND;
-}
-
 async function cleanUpPort(port: number) {
   // Always use host mode cleanup since apps always run in host mode
   await killProcessOnPort(port);
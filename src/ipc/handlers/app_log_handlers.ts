@@ -0,0 +1,55 @@
+import fs from "node:fs";
+import { dialog } from "electron";
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import {
+  clearAppLogs,
+  exportAppLogRun,
+  listAppLogRuns,
+  queryAppLogs,
+} from "../utils/app_log_store";
+import type {
+  AppLogEntry,
+  AppLogQuery,
+  AppLogRun,
+  ExportAppLogRunParams,
+} from "../ipc_types";
+
+const logger = log.scope("app_log_handlers");
+const handle = createLoggedHandler(logger);
+
+export function registerAppLogHandlers() {
+  handle(
+    "app-logs:list-runs",
+    async (_, appId: number): Promise<AppLogRun[]> => listAppLogRuns(appId),
+  );
+
+  handle(
+    "app-logs:query",
+    async (_, query: AppLogQuery): Promise<AppLogEntry[]> =>
+      queryAppLogs(query),
+  );
+
+  // Returns false when the save dialog is cancelled
+  handle(
+    "app-logs:export",
+    async (_, { appId, runId }: ExportAppLogRunParams): Promise<boolean> => {
+      const content = exportAppLogRun(appId, runId);
+      const result = await dialog.showSaveDialog({
+        title: "Export Logs",
+        defaultPath: `app-${appId}-run-${runId}.log`,
+        filters: [{ name: "Log files", extensions: ["log", "txt"] }],
+      });
+      if (result.canceled || !result.filePath) {
+        return false;
+      }
+      await fs.promises.writeFile(result.filePath, content, "utf8");
+      return true;
+    },
+  );
+
+  handle(
+    "app-logs:clear",
+    async (_, appId: number): Promise<void> => clearAppLogs(appId),
+  );
+}
@@ -19,7 +19,7 @@ const availableUpgrades: Omit<AppUpgrade, "isNeeded">[] = [
     id: "component-tagger",
     title: "Enable select component to edit",
     description:
-      "Installs the AliFullStack component tagger Vite plugin and its dependencies.",
+      "Installs the AliFullStack component tagger Vite plugin (for React or Vue) and its dependencies.",
     manualUpgradeUrl:
       "https://alifullstack.alitech.io/docs/upgrades/select-component",
   },
@@ -50,6 +50,36 @@ function isViteApp(appPath: string): boolean {
   return fs.existsSync(viteConfigPathTs) || fs.existsSync(viteConfigPathJs);
 }
 
+const REACT_COMPONENT_TAGGER = {
+  packageName: "@SFARPak/react-vite-component-tagger",
+  importName: "dyadComponentTagger",
+};
+
+// Named apart from the React one so the run command's clean-up of
+// `dyadComponentTagger` leaves Vue configs alone
+const VUE_COMPONENT_TAGGER = {
+  packageName: "@SFARPak/vue-vite-component-tagger",
+  importName: "dyadVueComponentTagger",
+};
+
+function isVueApp(appPath: string): boolean {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(appPath, "package.json"), "utf-8"),
+    );
+    return Boolean(
+      packageJson.dependencies?.["@vitejs/plugin-vue"] ||
+        packageJson.devDependencies?.["@vitejs/plugin-vue"],
+    );
+  } catch {
+    return false;
+  }
+}
+
+function getComponentTagger(appPath: string) {
+  return isVueApp(appPath) ? VUE_COMPONENT_TAGGER : REACT_COMPONENT_TAGGER;
+}
+
 function isComponentTaggerUpgradeNeeded(appPath: string): boolean {
   const viteConfigPathJs = path.join(appPath, "vite.config.js");
   const viteConfigPathTs = path.join(appPath, "vite.config.ts");
@@ -65,7 +95,7 @@ function isComponentTaggerUpgradeNeeded(appPath: string): boolean {
 
   try {
     const viteConfigContent = fs.readFileSync(viteConfigPath, "utf-8");
-    return !viteConfigContent.includes("@SFARPak/react-vite-component-tagger");
+    return !viteConfigContent.includes(getComponentTagger(appPath).packageName);
   } catch (e) {
     logger.error("Error reading vite config", e);
     return false;
@@ -108,14 +138,13 @@ async function applyComponentTagger(appPath: string) {
     throw new Error("Could not find vite.config.js or vite.config.ts");
   }
 
+  const { packageName, importName } = getComponentTagger(appPath);
+  const importStatement = `import ${importName} from '${packageName}';`;
+
   let content = await fs.promises.readFile(viteConfigPath, "utf-8");
 
   // Add import statement if not present
-  if (
-    !content.includes(
-      "import dyadComponentTagger from '@SFARPak/react-vite-component-tagger';",
-    )
-  ) {
+  if (!content.includes(importStatement)) {
     // Add it after the last import statement
     const lines = content.split("\n");
     let lastImportIndex = -1;
@@ -125,21 +154,14 @@ async function applyComponentTagger(appPath: string) {
         break;
       }
     }
-    lines.splice(
-      lastImportIndex + 1,
-      0,
-      "import dyadComponentTagger from '@SFARPak/react-vite-component-tagger';",
-    );
+    lines.splice(lastImportIndex + 1, 0, importStatement);
     content = lines.join("\n");
   }
 
   // Add plugin to plugins array
   if (content.includes("plugins: [")) {
-    if (!content.includes("dyadComponentTagger()")) {
-      content = content.replace(
-        "plugins: [",
-        "plugins: [dyadComponentTagger(), ",
-      );
+    if (!content.includes(`${importName}()`)) {
+      content = content.replace("plugins: [", `plugins: [${importName}(), `);
     }
   } else {
     throw new Error(
@@ -153,7 +175,7 @@ async function applyComponentTagger(appPath: string) {
   await new Promise<void>((resolve, reject) => {
     logger.info("Installing component-tagger dependency");
     const process = spawn(
-      "pnpm add -D @SFARPak/react-vite-component-tagger || npm install --save-dev --legacy-peer-deps @SFARPak/react-vite-component-tagger",
+      `pnpm add -D ${packageName} || npm install --save-dev --legacy-peer-deps ${packageName}`,
       {
         cwd: appPath,
         shell: true,
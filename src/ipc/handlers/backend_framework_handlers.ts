@@ -0,0 +1,41 @@
+import { dialog } from "electron";
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import {
+  addBackendFrameworkFromFolder,
+  getAllBackendFrameworks,
+  removeCustomBackendFramework,
+} from "../utils/backend_framework_registry";
+import type { BackendFramework } from "../../shared/backendFrameworks";
+
+const logger = log.scope("backend_framework_handlers");
+const handle = createLoggedHandler(logger);
+
+export function registerBackendFrameworkHandlers() {
+  handle(
+    "backend-frameworks:list",
+    async (): Promise<BackendFramework[]> => getAllBackendFrameworks(),
+  );
+
+  // Pick a folder with a framework.json and add the framework it defines
+  handle(
+    "backend-frameworks:add-from-folder",
+    async (): Promise<BackendFramework | null> => {
+      const result = await dialog.showOpenDialog({
+        properties: ["openDirectory"],
+        title: "Select Backend Framework Folder",
+      });
+      if (result.canceled) {
+        return null;
+      }
+      return addBackendFrameworkFromFolder(result.filePaths[0]);
+    },
+  );
+
+  handle(
+    "backend-frameworks:remove",
+    async (_, { frameworkId }: { frameworkId: string }): Promise<void> => {
+      await removeCustomBackendFramework(frameworkId);
+    },
+  );
+}
@@ -1,8 +1,9 @@
 import { ipcMain } from "electron";
 import { db } from "../../db";
 import { startBackendServer, startFrontendServer } from "./createFromTemplate";
+import { detectBackendFramework } from "../utils/backend_framework_registry";
 import { apps, chats, messages } from "../../db/schema";
-import { desc, eq, and, like } from "drizzle-orm";
+import { desc, eq, and, like, lte, asc } from "drizzle-orm";
 import type { ChatSearchResult, ChatSummary } from "../../lib/schemas";
 import * as git from "isomorphic-git";
 import * as fs from "fs";
@@ -11,11 +12,26 @@ import { createLoggedHandler } from "./safe_handle";
 
 import log from "electron-log";
 import { getDyadAppPath } from "../../paths/paths";
-import { UpdateChatParams } from "../ipc_types";
+import { ForkChatParams, UpdateChatParams } from "../ipc_types";
+import { withLock } from "../utils/lock_utils";
+import {
+  gitCheckout,
+  gitCreateBranch,
+  gitCurrentBranch,
+  gitResolveMainBranch,
+} from "../utils/git_utils";
+import {
+  getRunProfileCommand,
+  getRunProfileEnv,
+  getRunProfileForWorkingDirectory,
+} from "../utils/run_profiles";
+import { getShellEnv } from "./app_handlers";
 
 const logger = log.scope("chat_handlers");
 const handle = createLoggedHandler(logger);
 
+const FORK_BRANCH_PREFIX = "fork/chat-";
+
 export function registerChatHandlers() {
   handle("create-chat", async (_, appId: number): Promise<number> => {
     // Get the app's path first
@@ -89,6 +105,8 @@ export function registerChatHandlers() {
             title: true,
             createdAt: true,
             appId: true,
+            parentChatId: true,
+            branchName: true,
           },
           orderBy: [desc(chats.createdAt)],
         })
@@ -98,6 +116,8 @@ export function registerChatHandlers() {
             title: true,
             createdAt: true,
             appId: true,
+            parentChatId: true,
+            branchName: true,
           },
           orderBy: [desc(chats.createdAt)],
         });
@@ -107,6 +127,15 @@ export function registerChatHandlers() {
   });
 
   handle("delete-chat", async (_, chatId: number): Promise<void> => {
+    const chat = await db.query.chats.findFirst({
+      where: eq(chats.id, chatId),
+      columns: { parentChatId: true },
+    });
+    // Forks of the deleted chat move up to its parent. Their branches stay.
+    await db
+      .update(chats)
+      .set({ parentChatId: chat?.parentChatId ?? null })
+      .where(eq(chats.parentChatId, chatId));
     await db.delete(chats).where(eq(chats.id, chatId));
   });
 
@@ -114,6 +143,117 @@ export function registerChatHandlers() {
     await db.update(chats).set({ title }).where(eq(chats.id, chatId));
   });
 
+  // Start a new chat from the history up to a message, on a new git branch
+  // at that message's version
+  handle(
+    "fork-chat",
+    async (_, { chatId, messageId }: ForkChatParams): Promise<number> => {
+      const chat = await db.query.chats.findFirst({
+        where: eq(chats.id, chatId),
+        with: { app: { columns: { path: true } } },
+      });
+      if (!chat) {
+        throw new Error("Chat not found");
+      }
+
+      return withLock(chat.appId, async () => {
+        const history = await db.query.messages.findMany({
+          where: and(eq(messages.chatId, chatId), lte(messages.id, messageId)),
+          orderBy: [asc(messages.id)],
+        });
+        if (!history.some((message) => message.id === messageId)) {
+          throw new Error("Message not found in this chat");
+        }
+
+        const commitHash =
+          [...history].reverse().find((message) => message.commitHash)
+            ?.commitHash ?? chat.initialCommitHash;
+        if (!commitHash) {
+          throw new Error(
+            "Cannot fork from this message because no version is recorded for it",
+          );
+        }
+
+        const [fork] = await db
+          .insert(chats)
+          .values({
+            appId: chat.appId,
+            title: `${chat.title || "New Chat"} (fork)`,
+            initialCommitHash: commitHash,
+            parentChatId: chatId,
+            forkedFromMessageId: messageId,
+          })
+          .returning();
+        const branchName = `${FORK_BRANCH_PREFIX}${fork.id}`;
+
+        try {
+          const appPath = getDyadAppPath(chat.app.path);
+          await gitCreateBranch({
+            path: appPath,
+            branch: branchName,
+            ref: commitHash,
+          });
+          await gitCheckout({ path: appPath, ref: branchName });
+        } catch (error) {
+          await db.delete(chats).where(eq(chats.id, fork.id));
+          throw new Error(`Failed to create branch ${branchName}: ${error}`);
+        }
+
+        await db.update(chats).set({ branchName }).where(eq(chats.id, fork.id));
+        if (history.length > 0) {
+          await db.insert(messages).values(
+            history.map((message) => ({
+              chatId: fork.id,
+              role: message.role,
+              content: message.content,
+              approvalState: message.approvalState,
+              commitHash: message.commitHash,
+              createdAt: message.createdAt,
+            })),
+          );
+        }
+
+        logger.info(
+          `Forked chat ${chatId} at message ${messageId} into chat ${fork.id} on branch ${branchName}`,
+        );
+        return fork.id;
+      });
+    },
+  );
+
+  // Check out the branch of a chat's fork, or the main branch when leaving
+  // a fork for a chat that isn't one
+  handle(
+    "checkout-chat-branch",
+    async (_, chatId: number): Promise<string | null> => {
+      const chat = await db.query.chats.findFirst({
+        where: eq(chats.id, chatId),
+        with: { app: { columns: { path: true } } },
+      });
+      if (!chat) {
+        throw new Error("Chat not found");
+      }
+      const appPath = getDyadAppPath(chat.app.path);
+      if (!fs.existsSync(path.join(appPath, ".git"))) {
+        return null;
+      }
+
+      return withLock(chat.appId, async () => {
+        const currentBranch = await gitCurrentBranch({ path: appPath });
+        const targetBranch =
+          chat.branchName ??
+          (currentBranch?.startsWith(FORK_BRANCH_PREFIX)
+            ? await gitResolveMainBranch({ path: appPath })
+            : null);
+        if (targetBranch && targetBranch !== currentBranch) {
+          await gitCheckout({ path: appPath, ref: targetBranch });
+          logger.info(`Checked out ${targetBranch} for chat ${chatId}`);
+        }
+        return targetBranch ?? currentBranch;
+      });
+    },
+  );
+
   handle("delete-messages", async (_, chatId: number): Promise<void> => {
     await db.delete(messages).where(eq(messages.chatId, chatId));
   });
@@ -196,9 +336,25 @@ export function registerChatHandlers() {
       return;
     }
 
-    // Determine framework type from backend files
+    const runProfile = await getRunProfileForWorkingDirectory(appId, "backend");
+    if (runProfile) {
+      logger.info(
+        `Starting backend server with run profile ${runProfile.name}`,
+      );
+      await startBackendServer(backendPath, runProfile.name, appId, {
+        command: getRunProfileCommand(runProfile),
+        env: getRunProfileEnv(getShellEnv(), runProfile, runProfile.port),
+      });
+      return;
+    }
+
+    // Determine framework type from backend files, starting with the
+    // frameworks whose manifests declare files to detect them by
     let framework: string | null = null;
-    if (fs.existsSync(path.join(backendPath, "package.json"))) {
+    const detectedFramework = detectBackendFramework(backendPath);
+    if (detectedFramework) {
+      framework = detectedFramework.id;
+    } else if (fs.existsSync(path.join(backendPath, "package.json"))) {
       framework = "nodejs";
     } else if (fs.existsSync(path.join(backendPath, "requirements.txt"))) {
       // Check for framework-specific files
@@ -248,6 +404,21 @@ export function registerChatHandlers() {
       return;
     }
 
+    const runProfile = await getRunProfileForWorkingDirectory(
+      appId,
+      "frontend",
+    );
+    if (runProfile) {
+      logger.info(
+        `Starting frontend server with run profile ${runProfile.name}`,
+      );
+      await startFrontendServer(frontendPath, appId, {
+        command: getRunProfileCommand(runProfile),
+        env: getRunProfileEnv(getShellEnv(), runProfile, runProfile.port),
+      });
+      return;
+    }
+
     logger.info("Starting frontend development server");
     await startFrontendServer(frontendPath, appId);
   });
@@ -7,6 +7,7 @@ import {
   streamText,
   ToolSet,
   TextStreamPart,
+  LanguageModelUsage,
 } from "ai";
 import { db } from "../../db";
 import { chats, messages } from "../../db/schema";
@@ -19,11 +20,18 @@ import {
   SUPABASE_AVAILABLE_SYSTEM_PROMPT,
   SUPABASE_NOT_AVAILABLE_SYSTEM_PROMPT,
 } from "../../prompts/supabase_prompt";
+import { LOCAL_DB_AVAILABLE_SYSTEM_PROMPT } from "../../prompts/local_db_prompt";
 import { getDyadAppPath } from "../../paths/paths";
 import { readSettings } from "../../main/settings";
-import type { ChatResponseEnd, ChatStreamParams } from "../ipc_types";
+import type { ChatResponseEnd, ChatStreamParams, Problem } from "../ipc_types";
 import { extractCodebase, readFileWithCache } from "../../utils/codebase";
 import { processFullResponseActions } from "../processors/response_processor";
+import { getProposedTerminalCommands } from "../utils/terminal_commands";
+import { getPtySessionContext } from "../utils/pty_manager";
+import {
+  formatAppLogEntries,
+  getRecentAppLogErrors,
+} from "../utils/app_log_store";
 import { streamTestResponse } from "./testing_chat_handlers";
 import { getTestResponse } from "./testing_chat_handlers";
 import { getModelClient, ModelClient } from "../utils/get_model_client";
@@ -32,13 +40,19 @@ import {
   getSupabaseContext,
   getSupabaseClientCode,
 } from "../../supabase_admin/supabase_context";
+import { getLocalDbContext } from "../../local_db/local_db_context";
 import { SUMMARIZE_CHAT_SYSTEM_PROMPT } from "../../prompts/summarize_chat_system_prompt";
 import fs from "node:fs";
 import * as path from "path";
 import * as os from "os";
 import * as crypto from "crypto";
 import { readFile, writeFile, unlink } from "fs/promises";
-import { getMaxTokens, getTemperature } from "../utils/token_utils";
+import {
+  estimateModelMessagesTokens,
+  estimateTokens,
+  getMaxTokens,
+  getTemperature,
+} from "../utils/token_utils";
 import { MAX_CHAT_TURNS_IN_CONTEXT } from "@/constants/settings_constants";
 import { validateChatContext } from "../utils/context_paths_utils";
 import { GoogleGenerativeAIProviderOptions } from "@ai-sdk/google";
@@ -48,14 +62,20 @@ import { getExtraProviderOptions } from "../utils/thinking_utils";
 import { safeSend } from "../utils/safe_sender";
 import { cleanFullResponse } from "../utils/cleanFullResponse";
 import { generateProblemReport } from "../processors/tsc";
-import { createProblemFixPrompt } from "@/shared/problem_prompt";
+import {
+  createProblemFixPrompt,
+  selectProblemsToFix,
+} from "@/shared/problem_prompt";
 import { AsyncVirtualFileSystem } from "../../../shared/VirtualFilesystem";
 import {
   getDyadAddDependencyTags,
   getDyadWriteTags,
   getDyadDeleteTags,
   getDyadRenameTags,
+  getSearchReplaceTags,
+  hasUnclosedDyadWriteTag,
 } from "../utils/dyad_tag_parser";
+import { DyadTagParser } from "@/shared/dyad_tag_stream_parser";
 import { fileExists } from "../utils/file_utils";
 import { FileUploadsState } from "../utils/file_uploads_state";
 import { OpenAIResponsesProviderOptions } from "@ai-sdk/openai";
@@ -64,6 +84,11 @@ import { parseAppMentions } from "@/shared/parse_mention_apps";
 import { prompts as promptsTable } from "../../db/schema";
 import { inArray } from "drizzle-orm";
 import { replacePromptReference } from "../utils/replacePromptReference";
+import {
+  getCancelledResponseUsage,
+  getMonthlyBudgetStatus,
+  recordTokenUsage,
+} from "../utils/token_usage";
 
 type AsyncIterableStream<T> = AsyncIterable<T> & ReadableStream<T>;
 
@@ -103,6 +128,21 @@ function escapeXml(unsafe: string): string {
     .replace(/"/g, "&quot;");
 }
 
+// Attributes for Python and lint problems; TypeScript errors need none
+function problemTagAttributes(problem: Problem): string {
+  let attributes = "";
+  if (problem.source && problem.source !== "typescript") {
+    attributes += ` source="${problem.source}"`;
+  }
+  if (problem.ruleId) {
+    attributes += ` rule="${escapeXml(problem.ruleId)}"`;
+  }
+  if (problem.severity === "warning") {
+    attributes += ` severity="warning"`;
+  }
+  return attributes;
+}
+
 // Ensure the temp directory exists
 if (!fs.existsSync(TEMP_DIR)) {
   fs.mkdirSync(TEMP_DIR, { recursive: true });
@@ -190,6 +230,13 @@ export function registerChatStreamHandlers() {
         throw new Error(`Chat not found: ${req.chatId}`);
       }
 
+      const budgetStatus = await getMonthlyBudgetStatus();
+      if (budgetStatus.isExceeded && budgetStatus.mode === "block") {
+        throw new Error(
+          `You've reached your monthly budget of $${budgetStatus.limitUsd?.toFixed(2)}. Raise or remove it in Settings > Usage to keep chatting.`,
+        );
+      }
+
       // Handle redo option: remove the most recent messages if needed
       if (req.redo) {
         // Get the most recent messages
@@ -317,9 +364,14 @@ export function registerChatStreamHandlers() {
           const snippetLines = lines.slice(startIndex, endIndex);
           const selectedLineInSnippetIndex = selectedIndex - startIndex;
 
+          // Vue components are tagged in their template, where "//" isn't a
+          // comment
+          const editMarker = req.selectedComponent.relativePath.endsWith(".vue")
+            ? "<!-- EDIT HERE -->"
+            : "// <-- EDIT HERE";
           if (snippetLines[selectedLineInSnippetIndex]) {
             snippetLines[selectedLineInSnippetIndex] =
-              `${snippetLines[selectedLineInSnippetIndex]} // <-- EDIT HERE`;
+              `${snippetLines[selectedLineInSnippetIndex]} ${editMarker}`;
           }
 
           componentSnippet = snippetLines.join("\n");
@@ -335,6 +387,29 @@ ${componentSnippet}
 \`\`\`
 `;
       }
+      if (req.terminalSessionId) {
+        const terminalContext = getPtySessionContext(req.terminalSessionId);
+        if (terminalContext) {
+          const terminalCwd =
+            path.relative(getDyadAppPath(chat.app.path), terminalContext.cwd) ||
+            ".";
+          userPrompt += `\n\nRecent ${terminalContext.location} terminal output (in ${terminalCwd}):
+\`\`\`
+${terminalContext.output}
+\`\`\`
+`;
+        }
+      }
+      if (req.appLogErrorCount) {
+        const errors = getRecentAppLogErrors(chat.app.id, req.appLogErrorCount);
+        if (errors.length > 0) {
+          userPrompt += `\n\nRecent errors from the app logs:
+\`\`\`
+${formatAppLogEntries(errors)}
+\`\`\`
+`;
+        }
+      }
       await db
         .insert(messages)
         .values({
@@ -376,6 +451,11 @@ ${componentSnippet}
       });
 
       let fullResponse = "";
+      // Resolves with the usage of each model call once its stream finishes
+      const usagePromises: Promise<LanguageModelUsage | undefined>[] = [];
+      // Of every model call's prompt, for when a cancelled stream reports
+      // no usage
+      let estimatedInputTokens = 0;
 
       // Check if this is a test prompt
       const testResponse = getTestResponse(req.prompt);
@@ -536,6 +616,20 @@ ${componentSnippet}
               (await getSupabaseContext({
                 supabaseProjectId: updatedChat.app.supabaseProjectId,
               }));
+          } else if (updatedChat.app?.localDbProvider) {
+            systemPrompt += "\n\n" + LOCAL_DB_AVAILABLE_SYSTEM_PROMPT;
+            // The chat still works without the schema, e.g. when the local
+            // database isn't running
+            try {
+              systemPrompt +=
+                "\n\n" +
+                (await getLocalDbContext({
+                  appId: updatedChat.app.id,
+                  provider: updatedChat.app.localDbProvider,
+                }));
+            } catch (error) {
+              logger.warn("Failed to get local database context:", error);
+            }
           } else if (
             // Neon projects don't need Supabase.
             !updatedChat.app?.neonProjectId
@@ -727,7 +821,7 @@ This conversation includes one or more image attachments. When the user uploads
               },
             } satisfies GoogleGenerativeAIProviderOptions;
           }
-          return streamText({
+          const result = streamText({
             headers: isAnthropic
               ? {
                   "anthropic-beta": "context-1m-2025-08-07",
@@ -760,6 +854,21 @@ This conversation includes one or more image attachments. When the user uploads
             },
             abortSignal: abortController.signal,
           });
+          usagePromises.push(
+            Promise.resolve(result.totalUsage).catch(() => undefined),
+          );
+          estimatedInputTokens +=
+            estimateTokens(systemPrompt) +
+            estimateModelMessagesTokens(chatMessages);
+          return result;
+        };
+
+        // Parses the response incrementally as chunks arrive so the tags
+        // don't need to be re-scanned from scratch after the stream ends.
+        const responseParser = new DyadTagParser();
+        const getParsedResponse = () => {
+          responseParser.sync(fullResponse);
+          return responseParser.snapshot();
         };
 
         const processResponseChunkUpdate = async ({
@@ -779,6 +888,7 @@ This conversation includes one or more image attachments. When the user uploads
               supabaseClientCode,
             );
           }
+          responseParser.sync(fullResponse);
           // Store the current partial response
           partialResponses.set(req.chatId, fullResponse);
 
@@ -819,11 +929,11 @@ This conversation includes one or more image attachments. When the user uploads
           if (
             !abortController.signal.aborted &&
             settings.selectedChatMode !== "ask" &&
-            hasUnclosedDyadWrite(fullResponse)
+            hasUnclosedDyadWriteTag(getParsedResponse())
           ) {
             let continuationAttempts = 0;
             while (
-              hasUnclosedDyadWrite(fullResponse) &&
+              hasUnclosedDyadWriteTag(getParsedResponse()) &&
               continuationAttempts < 2 &&
               !abortController.signal.aborted
             ) {
@@ -855,7 +965,9 @@ This conversation includes one or more image attachments. When the user uploads
               }
             }
           }
-          const addDependencies = getDyadAddDependencyTags(fullResponse);
+          const addDependencies = getDyadAddDependencyTags(
+            getParsedResponse(),
+          );
           if (
             !abortController.signal.aborted &&
             // If there are dependencies, we don't want to auto-fix problems
@@ -867,10 +979,13 @@ This conversation includes one or more image attachments. When the user uploads
           ) {
             try {
               // IF auto-fix is enabled
-              let problemReport = await generateProblemReport({
-                fullResponse,
-                appPath: getDyadAppPath(updatedChat.app.path),
-              });
+              let problemReport = selectProblemsToFix(
+                await generateProblemReport({
+                  fullResponse,
+                  appPath: getDyadAppPath(updatedChat.app.path),
+                }),
+                settings.autoFixLintSeverities,
+              );
 
               let autoFixAttempts = 0;
               const originalFullResponse = fullResponse;
@@ -884,7 +999,7 @@ This conversation includes one or more image attachments. When the user uploads
 ${problemReport.problems
   .map(
     (problem) =>
-      `<problem file="${escapeXml(problem.file)}" line="${problem.line}" column="${problem.column}" code="${problem.code}">${escapeXml(problem.message)}</problem>`,
+      `<problem file="${escapeXml(problem.file)}" line="${problem.line}" column="${problem.column}" code="${problem.code}"${problemTagAttributes(problem)}>${escapeXml(problem.message)}</problem>`,
   )
   .join("\n")}
 </dyad-problem-report>`;
@@ -902,13 +1017,16 @@ ${problemReport.problems
                     readFile: (fileName: string) => readFileWithCache(fileName),
                   },
                 );
-                const writeTags = getDyadWriteTags(fullResponse);
-                const renameTags = getDyadRenameTags(fullResponse);
-                const deletePaths = getDyadDeleteTags(fullResponse);
+                const parsedResponse = getParsedResponse();
+                const writeTags = getDyadWriteTags(parsedResponse);
+                const renameTags = getDyadRenameTags(parsedResponse);
+                const deletePaths = getDyadDeleteTags(parsedResponse);
+                const searchReplaceTags = getSearchReplaceTags(parsedResponse);
                 virtualFileSystem.applyResponseChanges({
                   deletePaths,
                   renameTags,
                   writeTags,
+                  searchReplaceTags,
                 });
 
                 const { formattedOutput: codebaseInfo, files } =
@@ -965,10 +1083,13 @@ ${problemReport.problems
                   content: removeNonEssentialTags(result.incrementalResponse),
                 });
 
-                problemReport = await generateProblemReport({
-                  fullResponse,
-                  appPath: getDyadAppPath(updatedChat.app.path),
-                });
+                problemReport = selectProblemsToFix(
+                  await generateProblemReport({
+                    fullResponse,
+                    appPath: getDyadAppPath(updatedChat.app.path),
+                  }),
+                  settings.autoFixLintSeverities,
+                );
               }
             } catch (error) {
               logger.error(
@@ -1007,6 +1128,23 @@ ${problemReport.problems
                 );
               }
             }
+            // The tokens used so far are billed even though the response
+            // was cancelled
+            try {
+              await recordTokenUsage({
+                appId: chat.appId,
+                chatId: req.chatId,
+                messageId: placeholderAssistantMessage.id,
+                model: settings.selectedModel,
+                usages: await getCancelledResponseUsage({
+                  usagePromises,
+                  estimatedInputTokens,
+                  streamedText: fullResponse,
+                }),
+              });
+            } catch (error) {
+              logger.error("Failed to record token usage:", error);
+            }
             return req.chatId;
           }
           throw streamError;
@@ -1033,9 +1171,33 @@ ${problemReport.problems
           .set({ content: fullResponse })
           .where(eq(messages.id, placeholderAssistantMessage.id));
         const settings = readSettings();
+        if (usagePromises.length > 0) {
+          try {
+            await recordTokenUsage({
+              appId: chat.appId,
+              chatId: req.chatId,
+              messageId: placeholderAssistantMessage.id,
+              model: settings.selectedModel,
+              usages: await Promise.all(usagePromises),
+            });
+          } catch (error) {
+            logger.error("Failed to record token usage:", error);
+          }
+        }
+        // Terminal commands that aren't allowlisted always go through the
+        // proposal, so the user gets to approve them
+        const terminalCommands = await getProposedTerminalCommands({
+          response: fullResponse,
+          appId: updatedChat.app.id,
+          appPath: getDyadAppPath(updatedChat.app.path),
+        });
+        const needsCommandApproval = terminalCommands.some(
+          (command) => command.policy === "ask",
+        );
         if (
           settings.autoApproveChanges &&
-          settings.selectedChatMode !== "ask"
+          settings.selectedChatMode !== "ask" &&
+          !needsCommandApproval
         ) {
           const status = await processFullResponseActions(
             fullResponse,
@@ -1290,25 +1452,7 @@ export function removeDyadTags(text: string): string {
 }
 
 export function hasUnclosedDyadWrite(text: string): boolean {
-  // Find the last opening dyad-write tag
-  const openRegex = /<dyad-write[^>]*>/g;
-  let lastOpenIndex = -1;
-  let match;
-
-  while ((match = openRegex.exec(text)) !== null) {
-    lastOpenIndex = match.index;
-  }
-
-  // If no opening tag found, there's nothing unclosed
-  if (lastOpenIndex === -1) {
-    return false;
-  }
-
-  // Look for a closing tag after the last opening tag
-  const textAfterLastOpen = text.substring(lastOpenIndex);
-  const hasClosingTag = /<\/dyad-write>/.test(textAfterLastOpen);
-
-  return !hasClosingTag;
+  return hasUnclosedDyadWriteTag(text);
 }
 
 function escapeDyadTags(text: string): string {
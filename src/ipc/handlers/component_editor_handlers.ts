@@ -0,0 +1,158 @@
+import fs from "node:fs";
+import path from "node:path";
+import log from "electron-log";
+import { eq } from "drizzle-orm";
+import { createLoggedHandler } from "./safe_handle";
+import { db } from "../../db";
+import { apps } from "../../db/schema";
+import { getDyadAppPath } from "../../paths/paths";
+import { gitCommit, gitStageFiles } from "../utils/git_utils";
+import { withLock } from "../utils/lock_utils";
+import { safeJoin } from "../utils/path_utils";
+import {
+  applyJsxComponentEdit,
+  applyVueComponentEdit,
+  readJsxComponent,
+  readVueComponent,
+  type VueCompiler,
+} from "../utils/component_source";
+import type {
+  ComponentEdit,
+  ComponentSelection,
+  ComponentSource,
+  EditComponentSourceParams,
+  EditComponentSourceResult,
+  ReadComponentSourceParams,
+} from "../ipc_types";
+
+const logger = log.scope("component_editor_handlers");
+const handle = createLoggedHandler(logger);
+
+interface ComponentFile {
+  appPath: string;
+  // Where the tagger ran; the selection's path is relative to it
+  projectDir: string;
+  filePath: string;
+}
+
+async function getComponentFile(
+  appId: number,
+  selection: ComponentSelection,
+): Promise<ComponentFile> {
+  const app = await db.query.apps.findFirst({ where: eq(apps.id, appId) });
+  if (!app) {
+    throw new Error("App not found");
+  }
+  const appPath = getDyadAppPath(app.path);
+  const possibleDirs = [
+    appPath, // Root app directory
+    path.join(appPath, "frontend"), // Frontend subdirectory (for scaffold apps)
+  ];
+  for (const projectDir of possibleDirs) {
+    const filePath = safeJoin(projectDir, selection.relativePath);
+    if (fs.existsSync(filePath)) {
+      return { appPath, projectDir, filePath };
+    }
+  }
+  throw new Error(`Could not find ${selection.relativePath} in the app`);
+}
+
+// The parsers come from the app's node_modules, like the type checker's
+function requireFromApp<T>(projectDir: string, request: string): T {
+  try {
+    const requirePath = require.resolve(request, { paths: [projectDir] });
+    return require(requirePath);
+  } catch {
+    throw new Error(
+      `Could not load ${request} from the app. Install the app's dependencies and try again.`,
+    );
+  }
+}
+
+function readComponent(
+  { projectDir, filePath }: ComponentFile,
+  code: string,
+  selection: ComponentSelection,
+): ComponentSource {
+  const file = { fileName: filePath, code };
+  if (filePath.endsWith(".vue")) {
+    return readVueComponent(
+      requireFromApp<VueCompiler>(projectDir, "vue/compiler-sfc"),
+      file,
+      selection,
+    );
+  }
+  return readJsxComponent(
+    requireFromApp(projectDir, "typescript"),
+    file,
+    selection,
+  );
+}
+
+function applyEdit(
+  { projectDir, filePath }: ComponentFile,
+  code: string,
+  selection: ComponentSelection,
+  edit: ComponentEdit,
+): string {
+  const file = { fileName: filePath, code };
+  if (filePath.endsWith(".vue")) {
+    return applyVueComponentEdit(
+      requireFromApp<VueCompiler>(projectDir, "vue/compiler-sfc"),
+      file,
+      selection,
+      edit,
+    );
+  }
+  return applyJsxComponentEdit(
+    requireFromApp(projectDir, "typescript"),
+    file,
+    selection,
+    edit,
+  );
+}
+
+export function registerComponentEditorHandlers() {
+  handle(
+    "component-editor:read",
+    async (
+      _,
+      { appId, selection }: ReadComponentSourceParams,
+    ): Promise<ComponentSource> => {
+      const file = await getComponentFile(appId, selection);
+      const code = await fs.promises.readFile(file.filePath, "utf8");
+      return readComponent(file, code, selection);
+    },
+  );
+
+  handle(
+    "component-editor:apply",
+    async (
+      _,
+      { appId, selection, edit }: EditComponentSourceParams,
+    ): Promise<EditComponentSourceResult> => {
+      return withLock(appId, async () => {
+        const file = await getComponentFile(appId, selection);
+        const code = await fs.promises.readFile(file.filePath, "utf8");
+        const updated = applyEdit(file, code, selection, edit);
+        if (updated === code) {
+          throw new Error("Nothing to change");
+        }
+        // Edits only touch the element itself, so its location still holds
+        const source = readComponent(file, updated, selection);
+
+        await fs.promises.writeFile(file.filePath, updated);
+        const filepath = path
+          .relative(file.appPath, file.filePath)
+          .replace(/\\/g, "/");
+        await gitStageFiles({ path: file.appPath, filepaths: [filepath] });
+        const commitHash = await gitCommit({
+          path: file.appPath,
+          message: `[alifullstack] Edit <${source.tagName}> in ${filepath}`,
+        });
+        logger.log(`Edited ${selection.id} in app ${appId}: ${commitHash}`);
+        return { source, commitHash };
+      });
+    },
+  );
+}
@@ -5,6 +5,15 @@ import http from "isomorphic-git/http/node";
 import { app } from "electron";
 import { readSettings } from "@/main/settings";
 import { getTemplateOrThrow } from "../utils/template_utils";
+import {
+  getBackendFramework,
+  getScaffoldPath,
+  resolveFrameworkCommand,
+} from "../utils/backend_framework_registry";
+import {
+  extractLocalTemplate,
+  isLocalTemplateId,
+} from "../utils/local_templates";
 import log from "electron-log";
 
 const logger = log.scope("createFromTemplate");
@@ -472,6 +481,12 @@ export async function createFromTemplate({
   const templateId = selectedTemplateId || readSettings().selectedTemplateId;
   logger.info(`Creating app with template: ${templateId}, backend: ${selectedBackendFramework}, isFullStack: ${isFullStack}`);
 
+  // Local templates carry their own frontend and backend, so they skip scaffolding
+  if (isLocalTemplateId(templateId)) {
+    await createFromLocalTemplate(templateId, fullAppPath);
+    return;
+  }
+
   // Create frontend directory
   const frontendPath = path.join(fullAppPath, "frontend");
   logger.info(`Creating frontend directory: ${frontendPath}`);
@@ -1336,12 +1351,11 @@ export async function setupBackendFramework(backendPath: string, framework: stri
   logger.info(`Setting up ${framework} framework in ${backendPath}`);
 
   try {
-    // Check if scaffold-backend exists for this framework
-    // Use Electron's app.getAppPath() to get the correct app directory
-    const appPath = app.getAppPath();
-    const scaffoldPath = path.join(appPath, "scaffold-backend", framework);
+    // Check if the framework's manifest points at an existing scaffold
+    const manifest = getBackendFramework(framework);
+    const scaffoldPath = manifest ? getScaffoldPath(manifest) : undefined;
 
-    if (fs.existsSync(scaffoldPath)) {
+    if (manifest && scaffoldPath && fs.existsSync(scaffoldPath)) {
       logger.info(`Found scaffold for ${framework} at ${scaffoldPath}, copying to ${backendPath}`);
 
       // Copy the scaffold-backend directory to backendPath
@@ -1359,6 +1373,11 @@ export async function setupBackendFramework(backendPath: string, framework: stri
       });
 
       logger.info(`Successfully copied ${framework} scaffold from ${scaffoldPath} to ${backendPath}`);
+
+      // The AI rules are read from backend/AI_RULES.md, wherever the scaffold keeps them
+      if (manifest.aiRules && path.normalize(manifest.aiRules) !== "AI_RULES.md") {
+        await fs.copy(path.join(scaffoldPath, manifest.aiRules), path.join(backendPath, "AI_RULES.md"));
+      }
     } else {
       logger.warn(`Scaffold not found for ${framework} at ${scaffoldPath}, falling back to programmatic setup`);
 
@@ -2411,6 +2430,33 @@ async function copyRepoToApp(repoCachePath: string, appPath: string) {
   }
 }
 
+/**
+ * Overrides for how a dev server is started, e.g. from the app's run profile
+ */
+export interface ServerStartOptions {
+  command?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Extract a template saved from an app and install the dependencies of its
+ * frontend and backend
+ */
+async function createFromLocalTemplate(templateId: string, fullAppPath: string) {
+  const manifest = await extractLocalTemplate(templateId, fullAppPath);
+
+  for (const folder of [".", "frontend", "backend"]) {
+    const projectPath = path.join(fullAppPath, folder);
+    if (fs.existsSync(path.join(projectPath, "package.json"))) {
+      await installDependenciesForFramework(projectPath, "nodejs");
+    } else if (folder === "backend" && manifest.backendFramework) {
+      await installDependenciesForFramework(projectPath, manifest.backendFramework);
+    } else if (fs.existsSync(path.join(projectPath, "requirements.txt"))) {
+      await installDependenciesForFramework(projectPath, "python");
+    }
+  }
+}
+
 async function installDependenciesForFramework(projectPath: string, framework: string) {
   const installCommand = getInstallCommandForFramework(framework);
 
@@ -2455,8 +2501,15 @@ async function installDependenciesForFramework(projectPath: string, framework: s
   });
 }
 
-export async function startBackendServer(projectPath: string, framework: string, appId?: number) {
-  const startCommand = getStartCommandForFramework(framework);
+export async function startBackendServer(
+  projectPath: string,
+  framework: string,
+  appId?: number,
+  options: ServerStartOptions = {},
+) {
+  const { command: startCommand, env: portEnv, healthCheckUrl } = options.command
+    ? { command: options.command, env: {}, healthCheckUrl: undefined }
+    : await getFrameworkStart(framework);
 
   return new Promise<void>((resolve, reject) => {
     const { spawn } = require('child_process');
@@ -2465,6 +2518,7 @@ export async function startBackendServer(projectPath: string, framework: string,
       shell: true,
       stdio: "pipe",
       detached: true, // Allow the process to run independently
+      env: { ...(options.env ?? process.env), ...portEnv },
     });
 
     logger.info(`Starting ${framework} server with command: ${startCommand} in ${projectPath}`);
@@ -2515,6 +2569,16 @@ export async function startBackendServer(projectPath: string, framework: string,
         }
 
         addTerminalOutput(appId, "backend", `✅ ${framework} server started successfully (${startCommand})`, "success");
+
+        if (healthCheckUrl) {
+          waitForHealthCheck(healthCheckUrl).then((isHealthy) => {
+            if (isHealthy) {
+              addTerminalOutput(appId, "backend", `💚 ${framework} server is healthy (${healthCheckUrl})`, "success");
+            } else {
+              addTerminalOutput(appId, "backend", `⚠️ ${framework} server did not answer ${healthCheckUrl}`, "error");
+            }
+          });
+        }
       }
 
       resolve();
@@ -2523,22 +2587,24 @@ export async function startBackendServer(projectPath: string, framework: string,
 }
 
 function getInstallCommandForFramework(framework: string): string {
-  switch (framework) {
-    case "nodejs":
-      return "npm install";
-    case "python":
-    case "django":
-    case "fastapi":
-    case "flask":
-      return "pip install -r requirements.txt";
-    default:
-      logger.warn(`Unknown framework for dependency installation: ${framework}`);
-      return "";
+  // "python" stands for backends that don't use a known Python framework
+  if (framework === "python") {
+    return "pip install -r requirements.txt";
+  }
+  const installCommand = getBackendFramework(framework)?.installCommand;
+  if (!installCommand) {
+    logger.warn(`Unknown framework for dependency installation: ${framework}`);
+    return "";
   }
+  return installCommand;
 }
 
-export async function startFrontendServer(projectPath: string, appId?: number) {
-  const startCommand = "npm run dev";
+export async function startFrontendServer(
+  projectPath: string,
+  appId?: number,
+  options: ServerStartOptions = {},
+) {
+  const startCommand = options.command ?? "npm run dev";
 
   return new Promise<void>((resolve, reject) => {
     const { spawn } = require('child_process');
@@ -2547,6 +2613,7 @@ export async function startFrontendServer(projectPath: string, appId?: number) {
       shell: true,
       stdio: "pipe",
       detached: true, // Allow the process to run independently
+      env: options.env,
     });
 
     logger.info(`Starting frontend server with command: ${startCommand} in ${projectPath}`);
@@ -2596,7 +2663,7 @@ export async function startFrontendServer(projectPath: string, appId?: number) {
           addTerminalOutput(appId, "frontend", serverOutput.trim(), "output");
         }
 
-        addTerminalOutput(appId, "frontend", `✅ Frontend server started successfully (npm run dev)`, "success");
+        addTerminalOutput(appId, "frontend", `✅ Frontend server started successfully (${startCommand})`, "success");
       }
 
       resolve();
@@ -2629,41 +2696,22 @@ async function findAvailablePort(preferredPort: number): Promise<number> {
 }
 
 async function initializeDatabaseForFramework(backendPath: string, framework: string): Promise<void> {
-  switch (framework) {
-    case "django":
-      // For Django, run migrations to create database tables
-      try {
-        logger.info(`Running Django migrations in ${backendPath}`);
-        await runCommandInDirectory(backendPath, "python manage.py makemigrations");
-        await runCommandInDirectory(backendPath, "python manage.py migrate");
-        logger.info(`Django database initialized successfully`);
-      } catch (error) {
-        logger.warn(`Failed to run Django migrations:`, error);
-        throw error;
-      }
-      break;
-
-    case "fastapi":
-      // For FastAPI, the database tables are created automatically when the app starts
-      // due to the models.Base.metadata.create_all(bind=engine) call in main.py
-      logger.info(`FastAPI database will be initialized when server starts`);
-      break;
-
-    case "flask":
-      // For Flask, the database tables are created automatically when the app starts
-      // due to the db.create_all() call in app.py
-      logger.info(`Flask database will be initialized when server starts`);
-      break;
-
-    case "nodejs":
-      // For Node.js, the database tables are created automatically when the server starts
-      // due to the CREATE TABLE IF NOT EXISTS statement in db.js
-      logger.info(`Node.js SQLite database will be initialized when server starts`);
-      break;
-
-    default:
-      logger.warn(`Unknown framework for database initialization: ${framework}`);
+  const manifest = getBackendFramework(framework);
+  if (!manifest) {
+    logger.warn(`Unknown framework for database initialization: ${framework}`);
+    return;
+  }
+
+  // Frameworks without db-init commands create their tables when the server starts
+  for (const command of manifest.dbInitCommands ?? []) {
+    try {
+      await runCommandInDirectory(backendPath, command);
+    } catch (error) {
+      logger.warn(`Failed to initialize ${framework} database with ${command}:`, error);
+      throw error;
+    }
   }
+  logger.info(`${framework} database initialized successfully`);
 }
 
 async function runCommandInDirectory(directory: string, command: string): Promise<void> {
@@ -2706,24 +2754,41 @@ async function runCommandInDirectory(directory: string, command: string): Promis
   });
 }
 
-export async function getStartCommandForFramework(framework: string): Promise<string> {
-  switch (framework) {
-    case "nodejs":
-      const nodePort = await findAvailablePort(3000);
-      return `npm start -- --port ${nodePort}`;
-    case "django":
-      const djangoPort = await findAvailablePort(8000);
-      return `python manage.py runserver 0.0.0.0:${djangoPort}`;
-    case "fastapi":
-      const fastapiPort = await findAvailablePort(8000);
-      return `uvicorn main:app --reload --host 0.0.0.0 --port ${fastapiPort}`;
-    case "flask":
-      const flaskPort = await findAvailablePort(5000);
-      return `PORT=${flaskPort} bash -c 'if command -v python3 >/dev/null 2>&1; then python3 app.py; elif command -v python >/dev/null 2>&1; then python app.py; else echo "Python not found. Please install Python 3."; exit 1; fi'`;
-    default:
-      logger.warn(`Unknown framework for server start: ${framework}`);
-      return "";
+/**
+ * The start command of a framework on a free port, the environment variables that pass it
+ * the port and the health check URL for that port
+ */
+export async function getFrameworkStart(
+  framework: string,
+): Promise<{ command: string; env: Record<string, string>; healthCheckUrl?: string }> {
+  const manifest = getBackendFramework(framework);
+  if (!manifest) {
+    logger.warn(`Unknown framework for server start: ${framework}`);
+    return { command: "", env: {} };
+  }
+  const port = await findAvailablePort(manifest.defaultPort);
+  return {
+    command: resolveFrameworkCommand(manifest.startCommand, port),
+    env: { PORT: port.toString() },
+    healthCheckUrl: manifest.healthCheckUrl && resolveFrameworkCommand(manifest.healthCheckUrl, port),
+  };
+}
+
+// Poll a health check URL until it answers with a 2xx status or the timeout passes
+async function waitForHealthCheck(url: string, timeoutMs = 60000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      const response = await fetch(url);
+      if (response.ok) {
+        return true;
+      }
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1000));
   }
+  return false;
 }
 
 async function createBasicReactFiles(frontendPath: string) {
@@ -0,0 +1,48 @@
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import {
+  executeDbBrowserSql,
+  getDbBrowserRows,
+  getDbBrowserSource,
+  listDbBrowserTables,
+} from "../utils/db_browser";
+import type {
+  DbBrowserRows,
+  DbBrowserSource,
+  DbBrowserTable,
+  ExecuteDbBrowserSqlParams,
+  ExecuteDbBrowserSqlResult,
+  GetDbBrowserRowsParams,
+} from "../ipc_types";
+
+const logger = log.scope("db_browser_handlers");
+const handle = createLoggedHandler(logger);
+
+export function registerDbBrowserHandlers() {
+  // Null when the app has no database to browse
+  handle(
+    "db-browser:get-source",
+    async (_, appId: number): Promise<DbBrowserSource | null> =>
+      getDbBrowserSource(appId),
+  );
+
+  handle(
+    "db-browser:list-tables",
+    async (_, appId: number): Promise<DbBrowserTable[]> =>
+      listDbBrowserTables(appId),
+  );
+
+  handle(
+    "db-browser:get-rows",
+    async (_, params: GetDbBrowserRowsParams): Promise<DbBrowserRows> =>
+      getDbBrowserRows(params),
+  );
+
+  handle(
+    "db-browser:execute-sql",
+    async (
+      _,
+      params: ExecuteDbBrowserSqlParams,
+    ): Promise<ExecuteDbBrowserSqlResult> => executeDbBrowserSql(params),
+  );
+}
@@ -0,0 +1,39 @@
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import { developmentOrchestrator } from "../utils/development_orchestrator";
+import type { DevelopmentRun } from "../ipc_types";
+
+const logger = log.scope("development_handlers");
+const handle = createLoggedHandler(logger);
+
+export function registerDevelopmentHandlers() {
+  handle(
+    "development:list-runs",
+    async (_, { appId }: { appId: number }): Promise<DevelopmentRun[]> => {
+      return developmentOrchestrator.listDevelopmentRuns(appId);
+    },
+  );
+
+  handle(
+    "development:continue",
+    async (_, { appId }: { appId: number }): Promise<void> => {
+      // A run can take a long time, so don't keep the renderer waiting on it.
+      // Progress is picked up by polling development:list-runs.
+      developmentOrchestrator
+        .continueAfterHumanIntervention(appId)
+        .catch((error) => {
+          logger.error(
+            `Failed to continue development for app ${appId}:`,
+            error,
+          );
+        });
+    },
+  );
+
+  handle(
+    "development:stop",
+    async (_, { appId }: { appId: number }): Promise<void> => {
+      await developmentOrchestrator.stopDevelopment(appId);
+    },
+  );
+}
@@ -0,0 +1,236 @@
+import log from "electron-log";
+import { eq } from "drizzle-orm";
+import { v4 as uuidv4 } from "uuid";
+import { createLoggedHandler } from "./safe_handle";
+import { db } from "../../db";
+import { apps } from "../../db/schema";
+import { readSettings, writeSettings } from "../../main/settings";
+import { getDyadAppPath } from "../../paths/paths";
+import {
+  gitFetch,
+  gitListRemoteBranches,
+  gitPull,
+  gitPush,
+  gitRemoveRemote,
+  gitResolveMainBranch,
+  gitSetRemote,
+  type GitRemoteAuth,
+} from "../utils/git_utils";
+import {
+  classifyGitRemoteUrl,
+  hasEmbeddedCredentials,
+} from "../utils/git_remote_url";
+import { withLock } from "../utils/lock_utils";
+import type {
+  ConnectGitRemoteParams,
+  GitRemoteCredentialSummary,
+  ListGitRemoteBranchesParams,
+  PushGitRemoteParams,
+  SaveGitRemoteCredentialParams,
+} from "../ipc_types";
+
+const logger = log.scope("git_remote_handlers");
+const handle = createLoggedHandler(logger);
+
+// Same remote name the GitHub integration uses, so either one owns "origin"
+const REMOTE = "origin";
+
+function getCredentialAuth(
+  credentialId: string | null,
+): GitRemoteAuth | undefined {
+  if (!credentialId) {
+    return undefined;
+  }
+  const credential = readSettings().gitRemoteCredentials?.[credentialId];
+  if (!credential) {
+    throw new Error(
+      "The Git credential for this remote was deleted. Reconnect the remote with another credential.",
+    );
+  }
+  return credential.kind === "token"
+    ? {
+        kind: "token",
+        username: credential.username,
+        token: credential.secret.value,
+      }
+    : { kind: "ssh-key", privateKey: credential.secret.value };
+}
+
+async function getConnectedApp(appId: number) {
+  const app = await db.query.apps.findFirst({ where: eq(apps.id, appId) });
+  if (!app) {
+    throw new Error("App not found");
+  }
+  if (!app.gitRemoteUrl) {
+    throw new Error("App is not connected to a Git remote");
+  }
+  return {
+    appPath: getDyadAppPath(app.path),
+    branch: app.gitRemoteBranch || "main",
+    auth: getCredentialAuth(app.gitRemoteCredentialId),
+  };
+}
+
+export function registerGitRemoteHandlers() {
+  handle(
+    "git-remote:list-credentials",
+    async (): Promise<GitRemoteCredentialSummary[]> =>
+      Object.entries(readSettings().gitRemoteCredentials ?? {}).map(
+        ([id, credential]) => ({
+          id,
+          name: credential.name,
+          kind: credential.kind,
+          username: credential.username ?? null,
+        }),
+      ),
+  );
+
+  handle(
+    "git-remote:save-credential",
+    async (
+      _,
+      params: SaveGitRemoteCredentialParams,
+    ): Promise<GitRemoteCredentialSummary> => {
+      if (!params.name.trim() || !params.secret.trim()) {
+        throw new Error("A Git credential needs a name and a secret");
+      }
+      const id = uuidv4();
+      const username = params.username?.trim() || undefined;
+      writeSettings({
+        gitRemoteCredentials: {
+          ...readSettings().gitRemoteCredentials,
+          [id]: {
+            name: params.name.trim(),
+            kind: params.kind,
+            username,
+            secret: { value: params.secret },
+          },
+        },
+      });
+      return {
+        id,
+        name: params.name.trim(),
+        kind: params.kind,
+        username: username ?? null,
+      };
+    },
+  );
+
+  handle(
+    "git-remote:delete-credential",
+    async (_, credentialId: string): Promise<void> => {
+      const credentials = { ...readSettings().gitRemoteCredentials };
+      delete credentials[credentialId];
+      writeSettings({ gitRemoteCredentials: credentials });
+    },
+  );
+
+  handle(
+    "git-remote:list-branches",
+    async (_, params: ListGitRemoteBranchesParams): Promise<string[]> =>
+      gitListRemoteBranches({
+        url: params.url.trim(),
+        auth: getCredentialAuth(params.credentialId),
+      }),
+  );
+
+  handle(
+    "git-remote:connect",
+    async (_, params: ConnectGitRemoteParams): Promise<void> => {
+      const url = params.url.trim();
+      const branch = params.branch.trim();
+      // Throws on URLs Git can't use
+      classifyGitRemoteUrl(url);
+      if (hasEmbeddedCredentials(url)) {
+        throw new Error(
+          "Remove the password or token from the URL and save it as a Git credential instead",
+        );
+      }
+      if (!branch) {
+        throw new Error("Choose a branch to push to");
+      }
+      // Fail early on a missing credential
+      getCredentialAuth(params.credentialId);
+
+      const app = await db.query.apps.findFirst({
+        where: eq(apps.id, params.appId),
+      });
+      if (!app) {
+        throw new Error("App not found");
+      }
+      if (app.githubRepo) {
+        throw new Error(
+          "Disconnect the GitHub repository before connecting another Git remote",
+        );
+      }
+      await withLock(params.appId, async () => {
+        await gitSetRemote({
+          path: getDyadAppPath(app.path),
+          remote: REMOTE,
+          url,
+        });
+        await db
+          .update(apps)
+          .set({
+            gitRemoteUrl: url,
+            gitRemoteBranch: branch,
+            gitRemoteCredentialId: params.credentialId,
+          })
+          .where(eq(apps.id, params.appId));
+      });
+      logger.log(`Connected app ${params.appId} to Git remote ${url}`);
+    },
+  );
+
+  handle("git-remote:disconnect", async (_, appId: number): Promise<void> => {
+    const app = await db.query.apps.findFirst({ where: eq(apps.id, appId) });
+    if (!app) {
+      throw new Error("App not found");
+    }
+    await withLock(appId, async () => {
+      if (app.gitRemoteUrl) {
+        await gitRemoveRemote({
+          path: getDyadAppPath(app.path),
+          remote: REMOTE,
+        });
+      }
+      await db
+        .update(apps)
+        .set({
+          gitRemoteUrl: null,
+          gitRemoteBranch: null,
+          gitRemoteCredentialId: null,
+        })
+        .where(eq(apps.id, appId));
+    });
+  });
+
+  handle(
+    "git-remote:push",
+    async (_, { appId, force }: PushGitRemoteParams): Promise<void> => {
+      const { appPath, branch, auth } = await getConnectedApp(appId);
+      await withLock(appId, async () => {
+        await gitPush({
+          path: appPath,
+          remote: REMOTE,
+          ref: await gitResolveMainBranch({ path: appPath }),
+          remoteBranch: branch,
+          force,
+          auth,
+        });
+      });
+    },
+  );
+
+  handle("git-remote:pull", async (_, appId: number): Promise<void> => {
+    const { appPath, branch, auth } = await getConnectedApp(appId);
+    await withLock(appId, async () => {
+      await gitPull({ path: appPath, remote: REMOTE, branch, auth });
+    });
+  });
+
+  handle("git-remote:fetch", async (_, appId: number): Promise<void> => {
+    const { appPath, auth } = await getConnectedApp(appId);
+    await gitFetch({ path: appPath, remote: REMOTE, auth });
+  });
+}
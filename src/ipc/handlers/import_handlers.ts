@@ -13,6 +13,7 @@ import git from "isomorphic-git";
 import { ImportAppParams, ImportAppResult } from "../ipc_types";
 import { copyDirectoryRecursive } from "../utils/file_utils";
 import { gitCommit } from "../utils/git_utils";
+import { saveRunProfile, selectRunProfile } from "../utils/run_profiles";
 
 const logger = log.scope("import-handlers");
 const handle = createLoggedHandler(logger);
@@ -133,11 +134,20 @@ export function registerImportHandlers() {
           name: appName,
           // Use the name as the path for now
           path: appName,
-          installCommand: installCommand ?? null,
-          startCommand: startCommand ?? null,
         })
         .returning();
 
+      // Custom commands become the app's selected run profile
+      if (startCommand?.trim()) {
+        const runProfile = await saveRunProfile({
+          appId: app.id,
+          name: "dev",
+          installCommand,
+          startCommand,
+        });
+        await selectRunProfile(app.id, runProfile.id);
+      }
+
       // Create an initial chat for this app
       const [chat] = await db
         .insert(chats)
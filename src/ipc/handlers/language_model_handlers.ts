@@ -97,6 +97,8 @@ export function registerLanguageModelHandlers() {
         description,
         maxOutputTokens,
         contextWindow,
+        inputCostPerMillionTokens,
+        outputCostPerMillionTokens,
       } = params;
 
       // Validation
@@ -126,6 +128,8 @@ export function registerLanguageModelHandlers() {
         description: description || null,
         max_output_tokens: maxOutputTokens || null,
         context_window: contextWindow || null,
+        input_cost_per_million_tokens: inputCostPerMillionTokens ?? null,
+        output_cost_per_million_tokens: outputCostPerMillionTokens ?? null,
       });
     },
   );
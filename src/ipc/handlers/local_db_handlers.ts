@@ -0,0 +1,35 @@
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import {
+  getLocalDbStatus,
+  provisionLocalDb,
+  startLocalDb,
+  stopLocalDb,
+} from "../../local_db/local_db_manager";
+import type { LocalDbStatus, ProvisionLocalDbParams } from "../ipc_types";
+
+const logger = log.scope("local_db_handlers");
+const handle = createLoggedHandler(logger);
+
+export function registerLocalDbHandlers() {
+  handle(
+    "local-db:provision",
+    async (_, params: ProvisionLocalDbParams): Promise<LocalDbStatus> =>
+      provisionLocalDb(params),
+  );
+
+  handle(
+    "local-db:get-status",
+    async (_, appId: number): Promise<LocalDbStatus> => getLocalDbStatus(appId),
+  );
+
+  handle(
+    "local-db:start",
+    async (_, appId: number): Promise<LocalDbStatus> => startLocalDb(appId),
+  );
+
+  handle(
+    "local-db:stop",
+    async (_, appId: number): Promise<void> => stopLocalDb(appId),
+  );
+}
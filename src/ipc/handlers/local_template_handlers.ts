@@ -0,0 +1,89 @@
+import fs from "node:fs";
+import { dialog } from "electron";
+import log from "electron-log";
+import { eq } from "drizzle-orm";
+import { db } from "../../db";
+import { apps } from "../../db/schema";
+import { getDyadAppPath } from "../../paths/paths";
+import { createLoggedHandler } from "./safe_handle";
+import {
+  TEMPLATE_ARCHIVE_EXTENSION,
+  deleteLocalTemplateVersion,
+  getLocalTemplateManifest,
+  getTemplateArchivePath,
+  importTemplateArchive,
+  saveAppAsTemplate,
+} from "../utils/local_templates";
+import type { Template } from "../../shared/templates";
+import type { SaveAppAsTemplateParams } from "../ipc_types";
+
+const logger = log.scope("local_template_handlers");
+const handle = createLoggedHandler(logger);
+
+const ARCHIVE_FILTERS = [
+  { name: "App Template", extensions: [TEMPLATE_ARCHIVE_EXTENSION] },
+];
+
+export function registerLocalTemplateHandlers() {
+  handle(
+    "local-templates:save-app",
+    async (
+      _,
+      { appId, title, description, version }: SaveAppAsTemplateParams,
+    ): Promise<Template> => {
+      const app = await db.query.apps.findFirst({
+        where: eq(apps.id, appId),
+      });
+      if (!app) {
+        throw new Error("App not found");
+      }
+      return saveAppAsTemplate({
+        appPath: getDyadAppPath(app.path),
+        title,
+        description,
+        version,
+      });
+    },
+  );
+
+  // Returns false when the save dialog is cancelled
+  handle(
+    "local-templates:export",
+    async (_, { templateId }: { templateId: string }): Promise<boolean> => {
+      const manifest = getLocalTemplateManifest(templateId);
+      const result = await dialog.showSaveDialog({
+        title: "Export Template",
+        defaultPath: `${manifest.slug}-${manifest.version}.${TEMPLATE_ARCHIVE_EXTENSION}`,
+        filters: ARCHIVE_FILTERS,
+      });
+      if (result.canceled || !result.filePath) {
+        return false;
+      }
+      await fs.promises.copyFile(
+        getTemplateArchivePath(templateId),
+        result.filePath,
+      );
+      return true;
+    },
+  );
+
+  // Returns null when the file picker is cancelled
+  handle("local-templates:import", async (): Promise<Template | null> => {
+    const result = await dialog.showOpenDialog({
+      title: "Import Template",
+      properties: ["openFile"],
+      filters: ARCHIVE_FILTERS,
+    });
+    if (result.canceled) {
+      return null;
+    }
+    return importTemplateArchive(result.filePaths[0]);
+  });
+
+  handle(
+    "local-templates:delete",
+    async (_, { templateId }: { templateId: string }): Promise<void> => {
+      await deleteLocalTemplateVersion(templateId);
+    },
+  );
+}
@@ -0,0 +1,42 @@
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import type { CapturePreviewScreenshotParams } from "../ipc_types";
+
+const logger = log.scope("preview_handlers");
+const handle = createLoggedHandler(logger);
+
+export function registerPreviewHandlers() {
+  handle(
+    "preview:capture-screenshot",
+    async (
+      event,
+      { rect, outputWidth, outputHeight }: CapturePreviewScreenshotParams,
+    ): Promise<string> => {
+      // The app's iframe is cross-origin, so it's captured from the window
+      const image = await event.sender.capturePage({
+        x: Math.round(rect.x),
+        y: Math.round(rect.y),
+        width: Math.round(rect.width),
+        height: Math.round(rect.height),
+      });
+      if (image.isEmpty()) {
+        throw new Error("Could not capture the preview");
+      }
+      // Resampled down to the device's pixel size, but never up: a device
+      // frame shown scaled down has fewer pixels than the device, and
+      // upscaling them only blurs the image
+      const captured = image.getSize();
+      const ratio = Math.min(
+        1,
+        captured.width / outputWidth,
+        captured.height / outputHeight,
+      );
+      const width = Math.round(outputWidth * ratio);
+      const height = Math.round(outputHeight * ratio);
+      if (width === captured.width && height === captured.height) {
+        return image.toDataURL();
+      }
+      return image.resize({ width, height, quality: "best" }).toDataURL();
+    },
+  );
+}
@@ -25,7 +25,7 @@ export function registerProblemsHandlers() {
 
       const appPath = getDyadAppPath(app.path);
 
-      // Call autofix with empty full response to just run TypeScript checking
+      // Call autofix with empty full response to just check the app as it is
       const problemReport = await generateProblemReport({
         fullResponse: "",
         appPath,
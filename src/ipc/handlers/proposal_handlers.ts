@@ -18,6 +18,7 @@ import {
   getDyadAddDependencyTags,
   getDyadChatSummaryTag,
   getDyadCommandTags,
+  getSearchReplaceTags,
 } from "../utils/dyad_tag_parser";
 import log from "electron-log";
 import { isServerFunction } from "../../supabase_admin/supabase_utils";
@@ -30,9 +31,11 @@ import { extractCodebase } from "../../utils/codebase";
 import { getDyadAppPath } from "../../paths/paths";
 import { withLock } from "../utils/lock_utils";
 import { createLoggedHandler } from "./safe_handle";
-import { ApproveProposalResult } from "../ipc_types";
+import { ApproveProposalParams, ApproveProposalResult } from "../ipc_types";
 import { validateChatContext } from "../utils/context_paths_utils";
 import { readSettings } from "@/main/settings";
+import { getSecurityRisks } from "../utils/security_risks";
+import { getProposedTerminalCommands } from "../utils/terminal_commands";
 
 const logger = log.scope("proposal_handlers");
 const handle = createLoggedHandler(logger);
@@ -155,8 +158,20 @@ const getProposalHandler = async (
         const proposalWriteFiles = getDyadWriteTags(messageContent);
         const proposalRenameFiles = getDyadRenameTags(messageContent);
         const proposalDeleteFiles = getDyadDeleteTags(messageContent);
+        const proposalSearchReplaceFiles = getSearchReplaceTags(messageContent);
         const proposalExecuteSqlQueries = getDyadExecuteSqlTags(messageContent);
         const packagesAdded = getDyadAddDependencyTags(messageContent);
+        const chat = await db.query.chats.findFirst({
+          where: eq(chats.id, chatId),
+          with: { app: true },
+        });
+        const terminalCommands = chat?.app
+          ? await getProposedTerminalCommands({
+              response: messageContent,
+              appId: chat.app.id,
+              appPath: getDyadAppPath(chat.app.path),
+            })
+          : [];
 
         const filesChanged = [
           ...proposalWriteFiles.map((tag) => ({
@@ -166,6 +181,15 @@ const getProposalHandler = async (
             type: "write" as const,
             isServerFunction: isServerFunction(tag.path),
           })),
+          ...proposalSearchReplaceFiles.map((tag) => ({
+            name: path.basename(tag.file),
+            path: tag.file,
+            summary:
+              tag.description ??
+              `Edit ${tag.hunks.length} ${tag.hunks.length === 1 ? "section" : "sections"}`,
+            type: "write" as const,
+            isServerFunction: isServerFunction(tag.file),
+          })),
           ...proposalRenameFiles.map((tag) => ({
             name: path.basename(tag.to),
             path: tag.to,
@@ -185,19 +209,34 @@ const getProposalHandler = async (
         if (
           filesChanged.length > 0 ||
           packagesAdded.length > 0 ||
-          proposalExecuteSqlQueries.length > 0
+          proposalExecuteSqlQueries.length > 0 ||
+          terminalCommands.length > 0
         ) {
+          const securityRisks = await getSecurityRisks({
+            appPath: chat?.app ? getDyadAppPath(chat.app.path) : null,
+            files: [
+              ...proposalWriteFiles,
+              ...proposalSearchReplaceFiles.map((tag) => ({
+                path: tag.file,
+                content: tag.hunks.map((hunk) => hunk.replace).join("\n"),
+              })),
+            ],
+            sqlQueries: proposalExecuteSqlQueries,
+            commands: terminalCommands.map((command) => command.command),
+            packagesAdded,
+          });
           const proposal: CodeProposal = {
             type: "code-proposal",
             // Use parsed title or a default title if summary tag is missing but write tags exist
             title: proposalTitle ?? "Proposed File Changes",
-            securityRisks: [], // Keep empty
+            securityRisks,
             filesChanged,
             packagesAdded,
             sqlQueries: proposalExecuteSqlQueries.map((query) => ({
               content: query.content,
               description: query.description,
             })),
+            terminalCommands,
           };
           logger.log(
             "Generated code proposal. title=",
@@ -206,6 +245,8 @@ const getProposalHandler = async (
             proposal.filesChanged.length,
             "packages=",
             proposal.packagesAdded.length,
+            "securityRisks=",
+            proposal.securityRisks.length,
           );
 
           return {
@@ -332,7 +373,7 @@ const getProposalHandler = async (
 // Handler to approve a proposal (process actions and update message)
 const approveProposalHandler = async (
   _event: IpcMainInvokeEvent,
-  { chatId, messageId }: { chatId: number; messageId: number },
+  { chatId, messageId, approvedCommandIds }: ApproveProposalParams,
 ): Promise<ApproveProposalResult> => {
   const settings = readSettings();
   if (settings.selectedChatMode === "ask") {
@@ -366,6 +407,7 @@ const approveProposalHandler = async (
     {
       chatSummary: chatSummary ?? undefined,
       messageId,
+      approvedCommandIds,
     }, // Pass summary if found
   );
 
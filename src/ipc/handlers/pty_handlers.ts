@@ -0,0 +1,78 @@
+import { ipcMain } from "electron";
+import log from "electron-log";
+import { eq } from "drizzle-orm";
+import { createLoggedHandler } from "./safe_handle";
+import { db } from "../../db";
+import { apps } from "../../db/schema";
+import { getDyadAppPath } from "../../paths/paths";
+import {
+  createPtySession,
+  getPtySessionOutput,
+  killPtySession,
+  listPtySessions,
+  resizePtySession,
+  writePtySession,
+} from "../utils/pty_manager";
+import type {
+  CreatePtySessionParams,
+  PtySession,
+  ResizePtySessionParams,
+} from "../ipc_types";
+
+const logger = log.scope("pty_handlers");
+const handle = createLoggedHandler(logger);
+
+export function registerPtyHandlers() {
+  handle(
+    "pty:create",
+    async (
+      event,
+      { appId, location, cols, rows }: CreatePtySessionParams,
+    ): Promise<PtySession> => {
+      const app = await db.query.apps.findFirst({
+        where: eq(apps.id, appId),
+        columns: { path: true },
+      });
+      if (!app) {
+        throw new Error(`App not found: ${appId}`);
+      }
+      return createPtySession({
+        appId,
+        appPath: getDyadAppPath(app.path),
+        location,
+        cols,
+        rows,
+        sender: event.sender,
+      });
+    },
+  );
+
+  handle(
+    "pty:list",
+    async (_, appId: number): Promise<PtySession[]> => listPtySessions(appId),
+  );
+
+  // Keystrokes and resizes are too frequent for the logged handler
+  ipcMain.handle(
+    "pty:write",
+    async (_, { sessionId, data }: { sessionId: string; data: string }) =>
+      writePtySession(sessionId, data),
+  );
+
+  ipcMain.handle(
+    "pty:resize",
+    async (_, { sessionId, cols, rows }: ResizePtySessionParams) =>
+      resizePtySession(sessionId, cols, rows),
+  );
+
+  handle(
+    "pty:kill",
+    async (_, sessionId: string): Promise<void> => killPtySession(sessionId),
+  );
+
+  handle(
+    "pty:get-output",
+    async (_, sessionId: string): Promise<string> =>
+      getPtySessionOutput(sessionId),
+  );
+}
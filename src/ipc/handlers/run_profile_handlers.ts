@@ -0,0 +1,48 @@
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import {
+  deleteRunProfile,
+  listRunProfiles,
+  saveRunProfile,
+  selectRunProfile,
+} from "../utils/run_profiles";
+import type { RunProfile, SaveRunProfileParams } from "../ipc_types";
+
+const logger = log.scope("run_profile_handlers");
+const handle = createLoggedHandler(logger);
+
+export function registerRunProfileHandlers() {
+  handle(
+    "run-profiles:list",
+    async (_, { appId }: { appId: number }): Promise<RunProfile[]> => {
+      return listRunProfiles(appId);
+    },
+  );
+
+  handle(
+    "run-profiles:save",
+    async (_, params: SaveRunProfileParams): Promise<RunProfile> => {
+      return saveRunProfile(params);
+    },
+  );
+
+  handle(
+    "run-profiles:delete",
+    async (
+      _,
+      { appId, profileId }: { appId: number; profileId: number },
+    ): Promise<void> => {
+      await deleteRunProfile(appId, profileId);
+    },
+  );
+
+  handle(
+    "run-profiles:select",
+    async (
+      _,
+      { appId, profileId }: { appId: number; profileId: number | null },
+    ): Promise<void> => {
+      await selectRunProfile(appId, profileId);
+    },
+  );
+}
@@ -9,6 +9,12 @@ import {
 } from "./safe_handle";
 import { handleSupabaseOAuthReturn } from "../../supabase_admin/supabase_return_handler";
 import { safeSend } from "../utils/safe_sender";
+import { getDyadAppPath } from "../../paths/paths";
+import {
+  getSupabaseRollbackMigrations,
+  getSupabaseSchemaDiff,
+} from "../utils/supabase_migration_utils";
+import type { SupabaseRollbackPlan, SupabaseSchemaDiff } from "../ipc_types";
 
 const logger = log.scope("supabase_handlers");
 const handle = createLoggedHandler(logger);
@@ -43,6 +49,46 @@ export function registerSupabaseHandlers() {
     logger.info(`Removed Supabase project association for app ${app}`);
   });
 
+  // Migrations that reverting to the version would undo
+  handle(
+    "supabase:get-rollback-plan",
+    async (
+      _,
+      { appId, versionId }: { appId: number; versionId: string },
+    ): Promise<SupabaseRollbackPlan> => {
+      const appPath = await getAppPath(appId);
+      const migrations = await getSupabaseRollbackMigrations({
+        appPath,
+        versionId,
+      });
+      return {
+        migrations: migrations.map(({ name, downScript }) => ({
+          name,
+          hasDownScript: downScript !== null,
+        })),
+      };
+    },
+  );
+
+  handle(
+    "supabase:get-schema-diff",
+    async (
+      _,
+      {
+        appId,
+        fromVersionId,
+        toVersionId,
+      }: { appId: number; fromVersionId: string; toVersionId: string },
+    ): Promise<SupabaseSchemaDiff> => {
+      return getSupabaseSchemaDiff({
+        appId,
+        appPath: await getAppPath(appId),
+        fromVersionId,
+        toVersionId,
+      });
+    },
+  );
+
   testOnlyHandle(
     "supabase:fake-connect-and-set-project",
     async (
@@ -81,3 +127,13 @@ export function registerSupabaseHandlers() {
     },
   );
 }
+
+async function getAppPath(appId: number): Promise<string> {
+  const app = await db.query.apps.findFirst({
+    where: eq(apps.id, appId),
+  });
+  if (!app) {
+    throw new Error("App not found");
+  }
+  return getDyadAppPath(app.path);
+}
@@ -0,0 +1,49 @@
+import log from "electron-log";
+import { eq } from "drizzle-orm";
+import { createLoggedHandler } from "./safe_handle";
+import { db } from "../../db";
+import { apps } from "../../db/schema";
+import { CommandPolicySchema, type CommandPolicy } from "../../lib/schemas";
+import { listTerminalCommandAudit } from "../utils/terminal_commands";
+import type {
+  SetAppCommandPolicyParams,
+  TerminalCommandAuditEntry,
+} from "../ipc_types";
+
+const logger = log.scope("terminal_command_handlers");
+const handle = createLoggedHandler(logger);
+
+export function registerTerminalCommandHandlers() {
+  handle(
+    "terminal-commands:list-audit",
+    async (_, appId: number): Promise<TerminalCommandAuditEntry[]> =>
+      listTerminalCommandAudit(appId),
+  );
+
+  handle(
+    "terminal-commands:get-app-policy",
+    async (_, appId: number): Promise<CommandPolicy | null> => {
+      const app = await db.query.apps.findFirst({
+        where: eq(apps.id, appId),
+        columns: { commandPolicy: true },
+      });
+      if (!app) {
+        throw new Error(`App not found: ${appId}`);
+      }
+      return (app.commandPolicy as CommandPolicy | null) ?? null;
+    },
+  );
+
+  handle(
+    "terminal-commands:set-app-policy",
+    async (_, { appId, policy }: SetAppCommandPolicyParams): Promise<void> => {
+      await db
+        .update(apps)
+        .set({
+          commandPolicy:
+            policy === null ? null : CommandPolicySchema.parse(policy),
+        })
+        .where(eq(apps.id, appId));
+    },
+  );
+}
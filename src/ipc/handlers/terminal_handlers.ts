@@ -1,8 +1,10 @@
 import { safeSend } from "../utils/safe_sender";
-import { frontendTerminalOutputAtom, backendTerminalOutputAtom, activeTerminalAtom } from "../../atoms/appAtoms";
+import { frontendTerminalOutputAtom, backendTerminalOutputAtom, activeTerminalAtom, MAX_CONSOLE_OUTPUT_ENTRIES } from "../../atoms/appAtoms";
 import { getDefaultStore } from "jotai";
 import { ipcMain } from "electron";
 import log from "electron-log";
+import { recordAppLog } from "../utils/app_log_store";
+import type { AppLogLevel } from "../ipc_types";
 
 const logger = log.scope("terminal_handlers");
 
@@ -16,8 +18,21 @@ export function registerTerminalHandlers() {
   // No IPC handlers needed - this module handles terminal output routing
 }
 
-// Function to add output to a specific terminal
-export function addTerminalOutput(appId: number, terminal: "frontend" | "backend", message: string, type: "command" | "output" | "success" | "error" = "output") {
+type TerminalOutputType = "command" | "output" | "success" | "error";
+
+function getLogLevel(type: TerminalOutputType): AppLogLevel {
+  return type === "error" ? "error" : "info";
+}
+
+// Function to add output to a specific terminal and record it in the app's logs
+export function addTerminalOutput(appId: number, terminal: "frontend" | "backend", message: string, type: TerminalOutputType = "output") {
+  recordAppLog({ appId, source: terminal, level: getLogLevel(type), text: message });
+  showTerminalOutput(appId, terminal, message, type);
+}
+
+// Shows output in a terminal without recording it, for callers that record
+// the log entry themselves (e.g. once for output shown in both terminals)
+export function showTerminalOutput(appId: number, terminal: "frontend" | "backend", message: string, type: TerminalOutputType = "output") {
   const store = getDefaultStore();
 
   // Format message with timestamp and type indicator
@@ -56,7 +71,7 @@ export function addTerminalOutput(appId: number, terminal: "frontend" | "backend
 
   if (terminal === "frontend") {
     const currentOutput = store.get(frontendTerminalOutputAtom);
-    store.set(frontendTerminalOutputAtom, [...currentOutput, outputItem]);
+    store.set(frontendTerminalOutputAtom, [...currentOutput.slice(1 - MAX_CONSOLE_OUTPUT_ENTRIES), outputItem]);
 
     // Auto-switch to frontend terminal if it's empty
     if (currentOutput.length === 0) {
@@ -64,7 +79,7 @@ export function addTerminalOutput(appId: number, terminal: "frontend" | "backend
     }
   } else if (terminal === "backend") {
     const currentOutput = store.get(backendTerminalOutputAtom);
-    store.set(backendTerminalOutputAtom, [...currentOutput, outputItem]);
+    store.set(backendTerminalOutputAtom, [...currentOutput.slice(1 - MAX_CONSOLE_OUTPUT_ENTRIES), outputItem]);
 
     // Auto-switch to backend terminal if it's empty
     if (currentOutput.length === 0) {
@@ -90,7 +105,7 @@ export function routeTerminalOutput(event: Electron.IpcMainInvokeEvent, appId: n
   }
 
   // Map our types to the terminal output types
-  let terminalOutputType: "command" | "output" | "success" | "error" = "output";
+  let terminalOutputType: TerminalOutputType = "output";
   if (type === "stderr") {
     terminalOutputType = "error";
   } else if (type === "stdout") {
@@ -99,9 +114,17 @@ export function routeTerminalOutput(event: Electron.IpcMainInvokeEvent, appId: n
     terminalOutputType = "error";
   }
 
+  // Record once, even when the output is shown in both terminals
+  recordAppLog({
+    appId,
+    source: type === "client-error" ? "client-error" : terminalType === "backend" ? "backend" : "frontend",
+    level: getLogLevel(terminalOutputType),
+    text: message,
+  });
+
   // Add to all target terminals
   for (const terminal of targetTerminals) {
-    addTerminalOutput(appId, terminal, message, terminalOutputType);
+    showTerminalOutput(appId, terminal, message, terminalOutputType);
   }
 
   // Enhanced system message routing - ensure important server logs are visible in System Messages
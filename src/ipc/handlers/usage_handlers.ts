@@ -0,0 +1,34 @@
+import log from "electron-log";
+import { createLoggedHandler } from "./safe_handle";
+import {
+  getChatUsage,
+  getMonthlyBudgetStatus,
+  getUsageSummary,
+} from "../utils/token_usage";
+import type {
+  ChatUsage,
+  GetUsageSummaryParams,
+  MonthlyBudgetStatus,
+  UsageSummary,
+} from "../ipc_types";
+
+const logger = log.scope("usage_handlers");
+const handle = createLoggedHandler(logger);
+
+export function registerUsageHandlers() {
+  handle(
+    "usage:get-chat",
+    async (_, chatId: number): Promise<ChatUsage> => getChatUsage(chatId),
+  );
+
+  handle(
+    "usage:get-summary",
+    async (_, params: GetUsageSummaryParams): Promise<UsageSummary> =>
+      getUsageSummary(params),
+  );
+
+  handle(
+    "usage:get-budget-status",
+    async (): Promise<MonthlyBudgetStatus> => getMonthlyBudgetStatus(),
+  );
+}
@@ -1,11 +1,16 @@
 import { db } from "../../db";
-import { apps, messages, versions } from "../../db/schema";
+import { apps, chats, messages, versions } from "../../db/schema";
 import { desc, eq, and, gt } from "drizzle-orm";
 import type {
   Version,
   BranchResult,
   RevertVersionParams,
   RevertVersionResponse,
+  GetVersionDiffParams,
+  GetVersionFileDiffParams,
+  VersionFileChange,
+  VersionFileDiff,
+  RestoreVersionFilesParams,
 } from "../ipc_types";
 import fs from "node:fs";
 import path from "node:path";
@@ -14,7 +19,21 @@ import git, { type ReadCommitResult } from "isomorphic-git";
 import { withLock } from "../utils/lock_utils";
 import log from "electron-log";
 import { createLoggedHandler } from "./safe_handle";
-import { gitCheckout, gitCommit, gitStageToRevert } from "../utils/git_utils";
+import {
+  gitCheckout,
+  gitCommit,
+  gitListChangedFiles,
+  gitReadFileAtRef,
+  gitResolveMainBranch,
+  gitResolveWorkingBranch,
+  gitStageFiles,
+  gitStageToRevert,
+} from "../utils/git_utils";
+import { safeJoin } from "../utils/path_utils";
+import {
+  rollbackSupabaseMigrations,
+  storeSupabaseSchemaAtCurrentVersion,
+} from "../utils/supabase_migration_utils";
 
 import {
   getNeonClient,
@@ -155,7 +174,7 @@ export function registerVersionHandlers() {
     "revert-version",
     async (
       _,
-      { appId, previousVersionId }: RevertVersionParams,
+      { appId, previousVersionId, rollbackSupabaseSchema }: RevertVersionParams,
     ): Promise<RevertVersionResponse> => {
       return withLock(appId, async () => {
         let successMessage = "Restored version";
@@ -170,42 +189,7 @@ export function registerVersionHandlers() {
 
         const appPath = getDyadAppPath(app.path);
         // Get the current commit hash before reverting
-        // Try to resolve the main branch, but fallback to other common branch names
-        let currentRef = "main";
-        try {
-          await git.resolveRef({
-            fs,
-            dir: appPath,
-            ref: "main",
-          });
-        } catch {
-          // Try master branch if main doesn't exist
-          try {
-            await git.resolveRef({
-              fs,
-              dir: appPath,
-              ref: "master",
-            });
-            currentRef = "master";
-          } catch {
-            // Try to get current branch name
-            try {
-              const currentBranch = await git.currentBranch({
-                fs,
-                dir: appPath,
-                fullname: false,
-              });
-              if (currentBranch) {
-                currentRef = currentBranch;
-              } else {
-                throw new Error("Could not determine current branch");
-              }
-            } catch {
-              throw new Error("Could not resolve any branch reference");
-            }
-          }
-        }
-
+        const currentRef = await gitResolveMainBranch({ path: appPath });
         const currentCommitHash = await git.resolveRef({
           fs,
           dir: appPath,
@@ -225,6 +209,29 @@ export function registerVersionHandlers() {
           });
         }
 
+        // Undo the schema while the down scripts of the newer migrations
+        // are still checked out
+        const shouldRollbackSupabase =
+          rollbackSupabaseSchema && !!app.supabaseProjectId;
+        if (shouldRollbackSupabase) {
+          try {
+            const { rolledBack, blockedBy } = await rollbackSupabaseMigrations({
+              appPath,
+              supabaseProjectId: app.supabaseProjectId!,
+              versionId: previousVersionId,
+            });
+            if (blockedBy) {
+              warningMessage = `Rolled back ${rolledBack.length} database migrations, but ${blockedBy} can't be undone automatically, so the schema was not fully restored`;
+            } else {
+              successMessage =
+                "Successfully restored to version (including database schema)";
+            }
+          } catch (error) {
+            logger.error("Error rolling back Supabase migrations:", error);
+            warningMessage = `Could not roll back database schema because of error: ${error}`;
+          }
+        }
+
         await gitStageToRevert({
           path: appPath,
           targetOid: previousVersionId,
@@ -235,6 +242,18 @@ export function registerVersionHandlers() {
           message: `Reverted all changes back to version ${previousVersionId}`,
         });
 
+        if (shouldRollbackSupabase) {
+          try {
+            await storeSupabaseSchemaAtCurrentVersion({
+              appId,
+              appPath,
+              supabaseProjectId: app.supabaseProjectId!,
+            });
+          } catch (error) {
+            logger.warn("Could not store Supabase schema snapshot:", error);
+          }
+        }
+
         // Find the chat and message associated with the commit hash
         const messageWithCommit = await db.query.messages.findFirst({
           where: eq(messages.commitHash, previousVersionId),
@@ -445,6 +464,165 @@ export function registerVersionHandlers() {
       });
     },
   );
+  handle(
+    "get-version-diff",
+    async (
+      _,
+      { appId, fromVersionId, toVersionId }: GetVersionDiffParams,
+    ): Promise<VersionFileChange[]> => {
+      const appPath = await getAppPath(appId);
+      return gitListChangedFiles({
+        path: appPath,
+        fromRef: fromVersionId,
+        toRef: toVersionId,
+      });
+    },
+  );
+
+  handle(
+    "get-version-file-diff",
+    async (
+      _,
+      { appId, fromVersionId, toVersionId, filePath }: GetVersionFileDiffParams,
+    ): Promise<VersionFileDiff> => {
+      const appPath = await getAppPath(appId);
+      const original = await gitReadFileAtRef({
+        path: appPath,
+        ref: fromVersionId,
+        filepath: filePath,
+      });
+      const modified =
+        toVersionId === undefined
+          ? await readWorkingTreeFile(appPath, filePath)
+          : await gitReadFileAtRef({
+              path: appPath,
+              ref: toVersionId,
+              filepath: filePath,
+            });
+
+      if (isUndiffable(original) || isUndiffable(modified)) {
+        return {
+          path: filePath,
+          original: null,
+          modified: null,
+          isBinary: true,
+        };
+      }
+      return {
+        path: filePath,
+        original: original?.toString("utf8") ?? null,
+        modified: modified?.toString("utf8") ?? null,
+        isBinary: false,
+      };
+    },
+  );
+
+  handle(
+    "restore-version-files",
+    async (
+      _,
+      { appId, chatId, versionId, files }: RestoreVersionFilesParams,
+    ): Promise<void> => {
+      if (files.length === 0) {
+        throw new Error("No files to restore");
+      }
+      return withLock(appId, async () => {
+        const app = await db.query.apps.findFirst({
+          where: eq(apps.id, appId),
+        });
+
+        if (!app) {
+          throw new Error("App not found");
+        }
+
+        const appPath = getDyadAppPath(app.path);
+        const chat = chatId
+          ? await db.query.chats.findFirst({
+              where: eq(chats.id, chatId),
+              columns: { branchName: true },
+            })
+          : undefined;
+        // The restore is committed on top of the latest version of the
+        // branch, even when an older version is checked out for preview
+        await gitCheckout({
+          path: appPath,
+          ref: await gitResolveWorkingBranch({
+            path: appPath,
+            preferredBranch: chat?.branchName,
+          }),
+        });
+
+        if (app.neonProjectId && app.neonDevelopmentBranchId) {
+          await storeDbTimestampAtCurrentVersion({
+            appId,
+          });
+        }
+
+        for (const file of files) {
+          const fullPath = safeJoin(appPath, file.path);
+          const content =
+            file.content ??
+            (await gitReadFileAtRef({
+              path: appPath,
+              ref: versionId,
+              filepath: file.path,
+            }));
+          if (content === null) {
+            // The file didn't exist in that version
+            await fs.promises.rm(fullPath, { force: true });
+          } else {
+            await fs.promises.mkdir(path.dirname(fullPath), {
+              recursive: true,
+            });
+            await fs.promises.writeFile(fullPath, content);
+          }
+        }
+
+        await gitStageFiles({
+          path: appPath,
+          filepaths: files.map((file) => file.path),
+        });
+        const restoredFiles =
+          files.length === 1 ? files[0].path : `${files.length} files`;
+        await gitCommit({
+          path: appPath,
+          message: `Restored ${restoredFiles} from version ${versionId}`,
+        });
+        logger.log(
+          `Restored ${files.length} files from version ${versionId} for app ${appId}`,
+        );
+      });
+    },
+  );
+}
+
+async function getAppPath(appId: number): Promise<string> {
+  const app = await db.query.apps.findFirst({
+    where: eq(apps.id, appId),
+  });
+  if (!app) {
+    throw new Error("App not found");
+  }
+  return getDyadAppPath(app.path);
+}
+
+async function readWorkingTreeFile(
+  appPath: string,
+  filePath: string,
+): Promise<Buffer | null> {
+  const fullPath = safeJoin(appPath, filePath);
+  return fs.existsSync(fullPath) ? fs.promises.readFile(fullPath) : null;
+}
+
+// Shown as "binary" rather than loaded into the diff editor
+const MAX_DIFF_FILE_SIZE = 1024 * 1024;
+
+function isUndiffable(content: Buffer | null): boolean {
+  return (
+    content !== null &&
+    (content.length > MAX_DIFF_FILE_SIZE ||
+      content.subarray(0, 8000).includes(0))
+  );
 }
 
 async function switchPostgresToDevelopmentBranch({
@@ -29,12 +29,14 @@ import type {
   CreateCustomLanguageModelProviderParams,
   CreateCustomLanguageModelParams,
   DoesReleaseNoteExistParams,
+  ApproveProposalParams,
   ApproveProposalResult,
   ImportAppResult,
   ImportAppParams,
   RenameBranchParams,
   UserBudgetInfo,
   CopyAppParams,
+  SaveAppAsTemplateParams,
   App,
   ComponentSelection,
   AppUpgrade,
@@ -52,6 +54,7 @@ import type {
   SaveVercelAccessTokenParams,
   VercelProject,
   UpdateChatParams,
+  ForkChatParams,
   FileAttachment,
   CreateNeonProjectParams,
   NeonProject,
@@ -59,16 +62,61 @@ import type {
   GetNeonProjectResponse,
   RevertVersionResponse,
   RevertVersionParams,
+  GetVersionDiffParams,
+  GetVersionFileDiffParams,
+  VersionFileChange,
+  VersionFileDiff,
+  RestoreVersionFilesParams,
+  SupabaseRollbackPlan,
+  SupabaseSchemaDiff,
   RespondToAppInputParams,
   PromptDto,
   CreatePromptParamsDto,
   UpdatePromptParamsDto,
+  DevelopmentRun,
+  RunProfile,
+  SaveRunProfileParams,
+  ChatUsage,
+  GetUsageSummaryParams,
+  MonthlyBudgetStatus,
+  UsageSummary,
+  SetAppCommandPolicyParams,
+  TerminalCommandAuditEntry,
+  CreatePtySessionParams,
+  PtySession,
+  ResizePtySessionParams,
+  PtyDataEvent,
+  PtyExitEvent,
+  AppLogEntry,
+  AppLogQuery,
+  AppLogRun,
+  ExportAppLogRunParams,
+  LocalDbStatus,
+  ProvisionLocalDbParams,
+  DbBrowserRows,
+  DbBrowserSource,
+  DbBrowserTable,
+  ExecuteDbBrowserSqlParams,
+  ExecuteDbBrowserSqlResult,
+  GetDbBrowserRowsParams,
+  ConnectGitRemoteParams,
+  GitRemoteCredentialSummary,
+  ListGitRemoteBranchesParams,
+  PushGitRemoteParams,
+  SaveGitRemoteCredentialParams,
+  ComponentSource,
+  EditComponentSourceParams,
+  EditComponentSourceResult,
+  ReadComponentSourceParams,
+  CapturePreviewScreenshotParams,
 } from "./ipc_types";
 import type { Template } from "../shared/templates";
+import type { BackendFramework } from "../shared/backendFrameworks";
 import type {
   AppChatContext,
   AppSearchResult,
   ChatSearchResult,
+  CommandPolicy,
   ProposalResult,
 } from "@/lib/schemas";
 import { showError } from "@/lib/toast";
@@ -380,6 +428,8 @@ export class IpcClient {
     prompt: string,
     options: {
       selectedComponent: ComponentSelection | null;
+      terminalSessionId?: string;
+      appLogErrorCount?: number;
       chatId: number;
       chatMode?: "build" | "ask" | "backend";
       redo?: boolean;
@@ -396,6 +446,8 @@ export class IpcClient {
       redo,
       attachments,
       selectedComponent,
+      terminalSessionId,
+      appLogErrorCount,
       onUpdate,
       onEnd,
       onError,
@@ -437,6 +489,8 @@ export class IpcClient {
               chatMode,
               redo,
               selectedComponent,
+              terminalSessionId,
+              appLogErrorCount,
               attachments: fileDataArray,
             })
             .catch((err) => {
@@ -459,6 +513,8 @@ export class IpcClient {
           chatMode,
           redo,
           selectedComponent,
+          terminalSessionId,
+          appLogErrorCount,
         })
         .catch((err) => {
           showError(err);
@@ -496,6 +552,16 @@ export class IpcClient {
     await this.ipcRenderer.invoke("delete-messages", chatId);
   }
 
+  // Returns the id of the new chat
+  public async forkChat(params: ForkChatParams): Promise<number> {
+    return this.ipcRenderer.invoke("fork-chat", params);
+  }
+
+  // Returns the branch the app is on afterwards, or null without git
+  public async checkoutChatBranch(chatId: number): Promise<string | null> {
+    return this.ipcRenderer.invoke("checkout-chat-branch", chatId);
+  }
+
   // Open an external URL using the default browser
   public async openExternalUrl(url: string): Promise<void> {
     await this.ipcRenderer.invoke("open-external-url", url);
@@ -604,6 +670,27 @@ export class IpcClient {
     });
   }
 
+  // Files that changed between two versions, or between a version and
+  // the working tree
+  public async getVersionDiff(
+    params: GetVersionDiffParams,
+  ): Promise<VersionFileChange[]> {
+    return this.ipcRenderer.invoke("get-version-diff", params);
+  }
+
+  public async getVersionFileDiff(
+    params: GetVersionFileDiffParams,
+  ): Promise<VersionFileDiff> {
+    return this.ipcRenderer.invoke("get-version-file-diff", params);
+  }
+
+  // Restore some files from a version as a new commit
+  public async restoreVersionFiles(
+    params: RestoreVersionFilesParams,
+  ): Promise<void> {
+    await this.ipcRenderer.invoke("restore-version-files", params);
+  }
+
   // Get the current branch of an app
   public async getCurrentBranch(appId: number): Promise<BranchResult> {
     return this.ipcRenderer.invoke("get-current-branch", {
@@ -882,13 +969,12 @@ export class IpcClient {
   public async approveProposal({
     chatId,
     messageId,
-  }: {
-    chatId: number;
-    messageId: number;
-  }): Promise<ApproveProposalResult> {
+    approvedCommandIds,
+  }: ApproveProposalParams): Promise<ApproveProposalResult> {
     return this.ipcRenderer.invoke("approve-proposal", {
       chatId,
       messageId,
+      approvedCommandIds,
     });
   }
 
@@ -927,6 +1013,21 @@ export class IpcClient {
     });
   }
 
+  public async getSupabaseRollbackPlan(params: {
+    appId: number;
+    versionId: string;
+  }): Promise<SupabaseRollbackPlan> {
+    return this.ipcRenderer.invoke("supabase:get-rollback-plan", params);
+  }
+
+  public async getSupabaseSchemaDiff(params: {
+    appId: number;
+    fromVersionId: string;
+    toVersionId: string;
+  }): Promise<SupabaseSchemaDiff> {
+    return this.ipcRenderer.invoke("supabase:get-schema-diff", params);
+  }
+
   public async fakeHandleSupabaseConnect(params: {
     appId: number;
     fakeProjectId: string;
@@ -1212,6 +1313,43 @@ export class IpcClient {
     return this.ipcRenderer.invoke("get-templates");
   }
 
+  // --- Backend frameworks ---
+  public async listBackendFrameworks(): Promise<BackendFramework[]> {
+    return this.ipcRenderer.invoke("backend-frameworks:list");
+  }
+
+  // Returns null when the folder picker is cancelled
+  public async addBackendFrameworkFromFolder(): Promise<BackendFramework | null> {
+    return this.ipcRenderer.invoke("backend-frameworks:add-from-folder");
+  }
+
+  public async removeBackendFramework(frameworkId: string): Promise<void> {
+    return this.ipcRenderer.invoke("backend-frameworks:remove", {
+      frameworkId,
+    });
+  }
+
+  // --- Local templates ---
+  public async saveAppAsTemplate(
+    params: SaveAppAsTemplateParams,
+  ): Promise<Template> {
+    return this.ipcRenderer.invoke("local-templates:save-app", params);
+  }
+
+  // Returns false when the save dialog is cancelled
+  public async exportLocalTemplate(templateId: string): Promise<boolean> {
+    return this.ipcRenderer.invoke("local-templates:export", { templateId });
+  }
+
+  // Returns null when the file picker is cancelled
+  public async importLocalTemplate(): Promise<Template | null> {
+    return this.ipcRenderer.invoke("local-templates:import");
+  }
+
+  public async deleteLocalTemplate(templateId: string): Promise<void> {
+    return this.ipcRenderer.invoke("local-templates:delete", { templateId });
+  }
+
   // --- Prompts Library ---
   public async listPrompts(): Promise<PromptDto[]> {
     return this.ipcRenderer.invoke("prompts:list");
@@ -1229,6 +1367,255 @@ export class IpcClient {
     await this.ipcRenderer.invoke("prompts:delete", id);
   }
 
+  // --- Autonomous development ---
+  public async listDevelopmentRuns(params: {
+    appId: number;
+  }): Promise<DevelopmentRun[]> {
+    return this.ipcRenderer.invoke("development:list-runs", params);
+  }
+
+  public async continueDevelopment(params: { appId: number }): Promise<void> {
+    await this.ipcRenderer.invoke("development:continue", params);
+  }
+
+  public async stopDevelopment(params: { appId: number }): Promise<void> {
+    await this.ipcRenderer.invoke("development:stop", params);
+  }
+
+  // --- Run profiles ---
+  public async listRunProfiles(params: {
+    appId: number;
+  }): Promise<RunProfile[]> {
+    return this.ipcRenderer.invoke("run-profiles:list", params);
+  }
+
+  public async saveRunProfile(
+    params: SaveRunProfileParams,
+  ): Promise<RunProfile> {
+    return this.ipcRenderer.invoke("run-profiles:save", params);
+  }
+
+  public async deleteRunProfile(params: {
+    appId: number;
+    profileId: number;
+  }): Promise<void> {
+    await this.ipcRenderer.invoke("run-profiles:delete", params);
+  }
+
+  public async selectRunProfile(params: {
+    appId: number;
+    profileId: number | null;
+  }): Promise<void> {
+    await this.ipcRenderer.invoke("run-profiles:select", params);
+  }
+
+  // --- Usage ---
+  public async getChatUsage(chatId: number): Promise<ChatUsage> {
+    return this.ipcRenderer.invoke("usage:get-chat", chatId);
+  }
+
+  public async getUsageSummary(
+    params: GetUsageSummaryParams,
+  ): Promise<UsageSummary> {
+    return this.ipcRenderer.invoke("usage:get-summary", params);
+  }
+
+  public async getMonthlyBudgetStatus(): Promise<MonthlyBudgetStatus> {
+    return this.ipcRenderer.invoke("usage:get-budget-status");
+  }
+
+  // --- Terminal Commands ---
+  public async listTerminalCommandAudit(
+    appId: number,
+  ): Promise<TerminalCommandAuditEntry[]> {
+    return this.ipcRenderer.invoke("terminal-commands:list-audit", appId);
+  }
+
+  public async getAppCommandPolicy(
+    appId: number,
+  ): Promise<CommandPolicy | null> {
+    return this.ipcRenderer.invoke("terminal-commands:get-app-policy", appId);
+  }
+
+  public async setAppCommandPolicy(
+    params: SetAppCommandPolicyParams,
+  ): Promise<void> {
+    await this.ipcRenderer.invoke("terminal-commands:set-app-policy", params);
+  }
+
+  // --- Interactive Terminals ---
+  public async createPtySession(
+    params: CreatePtySessionParams,
+  ): Promise<PtySession> {
+    return this.ipcRenderer.invoke("pty:create", params);
+  }
+
+  public async listPtySessions(appId: number): Promise<PtySession[]> {
+    return this.ipcRenderer.invoke("pty:list", appId);
+  }
+
+  public async writePtySession(sessionId: string, data: string): Promise<void> {
+    return this.ipcRenderer.invoke("pty:write", { sessionId, data });
+  }
+
+  public async resizePtySession(params: ResizePtySessionParams): Promise<void> {
+    return this.ipcRenderer.invoke("pty:resize", params);
+  }
+
+  public async killPtySession(sessionId: string): Promise<void> {
+    return this.ipcRenderer.invoke("pty:kill", sessionId);
+  }
+
+  public async getPtySessionOutput(sessionId: string): Promise<string> {
+    return this.ipcRenderer.invoke("pty:get-output", sessionId);
+  }
+
+  public onPtyData(callback: (event: PtyDataEvent) => void): () => void {
+    const listener = (data: any) => callback(data as PtyDataEvent);
+    this.ipcRenderer.on("pty:data", listener);
+    return () => {
+      this.ipcRenderer.removeListener("pty:data", listener);
+    };
+  }
+
+  public onPtyExit(callback: (event: PtyExitEvent) => void): () => void {
+    const listener = (data: any) => callback(data as PtyExitEvent);
+    this.ipcRenderer.on("pty:exit", listener);
+    return () => {
+      this.ipcRenderer.removeListener("pty:exit", listener);
+    };
+  }
+
+  // --- App Logs ---
+  public async listAppLogRuns(appId: number): Promise<AppLogRun[]> {
+    return this.ipcRenderer.invoke("app-logs:list-runs", appId);
+  }
+
+  public async queryAppLogs(query: AppLogQuery): Promise<AppLogEntry[]> {
+    return this.ipcRenderer.invoke("app-logs:query", query);
+  }
+
+  // Returns false when the save dialog is cancelled
+  public async exportAppLogRun(
+    params: ExportAppLogRunParams,
+  ): Promise<boolean> {
+    return this.ipcRenderer.invoke("app-logs:export", params);
+  }
+
+  public async clearAppLogs(appId: number): Promise<void> {
+    return this.ipcRenderer.invoke("app-logs:clear", appId);
+  }
+
+  // --- Local databases ---
+  public async provisionLocalDb(
+    params: ProvisionLocalDbParams,
+  ): Promise<LocalDbStatus> {
+    return this.ipcRenderer.invoke("local-db:provision", params);
+  }
+
+  public async getLocalDbStatus(appId: number): Promise<LocalDbStatus> {
+    return this.ipcRenderer.invoke("local-db:get-status", appId);
+  }
+
+  public async startLocalDb(appId: number): Promise<LocalDbStatus> {
+    return this.ipcRenderer.invoke("local-db:start", appId);
+  }
+
+  public async stopLocalDb(appId: number): Promise<void> {
+    return this.ipcRenderer.invoke("local-db:stop", appId);
+  }
+
+  // --- Database browser ---
+  // Null when the app has no database to browse
+  public async getDbBrowserSource(
+    appId: number,
+  ): Promise<DbBrowserSource | null> {
+    return this.ipcRenderer.invoke("db-browser:get-source", appId);
+  }
+
+  public async listDbBrowserTables(appId: number): Promise<DbBrowserTable[]> {
+    return this.ipcRenderer.invoke("db-browser:list-tables", appId);
+  }
+
+  public async getDbBrowserRows(
+    params: GetDbBrowserRowsParams,
+  ): Promise<DbBrowserRows> {
+    return this.ipcRenderer.invoke("db-browser:get-rows", params);
+  }
+
+  public async executeDbBrowserSql(
+    params: ExecuteDbBrowserSqlParams,
+  ): Promise<ExecuteDbBrowserSqlResult> {
+    return this.ipcRenderer.invoke("db-browser:execute-sql", params);
+  }
+
+  // --- Git remotes ---
+  public async listGitRemoteCredentials(): Promise<
+    GitRemoteCredentialSummary[]
+  > {
+    return this.ipcRenderer.invoke("git-remote:list-credentials");
+  }
+
+  public async saveGitRemoteCredential(
+    params: SaveGitRemoteCredentialParams,
+  ): Promise<GitRemoteCredentialSummary> {
+    return this.ipcRenderer.invoke("git-remote:save-credential", params);
+  }
+
+  public async deleteGitRemoteCredential(credentialId: string): Promise<void> {
+    return this.ipcRenderer.invoke(
+      "git-remote:delete-credential",
+      credentialId,
+    );
+  }
+
+  public async listGitRemoteBranches(
+    params: ListGitRemoteBranchesParams,
+  ): Promise<string[]> {
+    return this.ipcRenderer.invoke("git-remote:list-branches", params);
+  }
+
+  public async connectGitRemote(params: ConnectGitRemoteParams): Promise<void> {
+    return this.ipcRenderer.invoke("git-remote:connect", params);
+  }
+
+  public async disconnectGitRemote(appId: number): Promise<void> {
+    return this.ipcRenderer.invoke("git-remote:disconnect", appId);
+  }
+
+  public async pushGitRemote(params: PushGitRemoteParams): Promise<void> {
+    return this.ipcRenderer.invoke("git-remote:push", params);
+  }
+
+  public async pullGitRemote(appId: number): Promise<void> {
+    return this.ipcRenderer.invoke("git-remote:pull", appId);
+  }
+
+  public async fetchGitRemote(appId: number): Promise<void> {
+    return this.ipcRenderer.invoke("git-remote:fetch", appId);
+  }
+
+  // --- Component editor ---
+  public async readComponentSource(
+    params: ReadComponentSourceParams,
+  ): Promise<ComponentSource> {
+    return this.ipcRenderer.invoke("component-editor:read", params);
+  }
+
+  public async editComponentSource(
+    params: EditComponentSourceParams,
+  ): Promise<EditComponentSourceResult> {
+    return this.ipcRenderer.invoke("component-editor:apply", params);
+  }
+
+  // --- Preview ---
+  // Returns a PNG data URL
+  public async capturePreviewScreenshot(
+    params: CapturePreviewScreenshotParams,
+  ): Promise<string> {
+    return this.ipcRenderer.invoke("preview:capture-screenshot", params);
+  }
+
   // --- Help bot ---
   public startHelpChat(
     sessionId: string,
@@ -28,6 +28,8 @@ import { registerCapacitorHandlers } from "./handlers/capacitor_handlers";
 import { registerProblemsHandlers } from "./handlers/problems_handlers";
 import { registerAppEnvVarsHandlers } from "./handlers/app_env_vars_handlers";
 import { registerTemplateHandlers } from "./handlers/template_handlers";
+import { registerBackendFrameworkHandlers } from "./handlers/backend_framework_handlers";
+import { registerLocalTemplateHandlers } from "./handlers/local_template_handlers";
 import { registerPortalHandlers } from "./handlers/portal_handlers";
 import { registerPromptHandlers } from "./handlers/prompt_handlers";
 import { registerHelpBotHandlers } from "./handlers/help_bot_handlers";
@@ -36,6 +38,17 @@ import {
   addTerminalOutput,
 } from "./handlers/terminal_handlers";
 import { registerRooCodeAuthHandlers } from "./handlers/roocode_auth_handlers";
+import { registerDevelopmentHandlers } from "./handlers/development_handlers";
+import { registerRunProfileHandlers } from "./handlers/run_profile_handlers";
+import { registerUsageHandlers } from "./handlers/usage_handlers";
+import { registerTerminalCommandHandlers } from "./handlers/terminal_command_handlers";
+import { registerPtyHandlers } from "./handlers/pty_handlers";
+import { registerAppLogHandlers } from "./handlers/app_log_handlers";
+import { registerLocalDbHandlers } from "./handlers/local_db_handlers";
+import { registerDbBrowserHandlers } from "./handlers/db_browser_handlers";
+import { registerGitRemoteHandlers } from "./handlers/git_remote_handlers";
+import { registerComponentEditorHandlers } from "./handlers/component_editor_handlers";
+import { registerPreviewHandlers } from "./handlers/preview_handlers";
 import { AppOutput } from "./ipc_types";
 
 export function registerIpcHandlers() {
@@ -69,9 +82,22 @@ export function registerIpcHandlers() {
   registerCapacitorHandlers();
   registerAppEnvVarsHandlers();
   registerTemplateHandlers();
+  registerBackendFrameworkHandlers();
+  registerLocalTemplateHandlers();
   registerPortalHandlers();
   registerPromptHandlers();
   registerHelpBotHandlers();
   registerTerminalHandlers();
   registerRooCodeAuthHandlers();
+  registerDevelopmentHandlers();
+  registerRunProfileHandlers();
+  registerUsageHandlers();
+  registerTerminalCommandHandlers();
+  registerPtyHandlers();
+  registerAppLogHandlers();
+  registerLocalDbHandlers();
+  registerDbBrowserHandlers();
+  registerGitRemoteHandlers();
+  registerComponentEditorHandlers();
+  registerPreviewHandlers();
 }
@@ -1,6 +1,12 @@
 import { z } from "zod";
-import type { ProblemReport, Problem } from "../../shared/tsc_types";
-export type { ProblemReport, Problem };
+import type {
+  ProblemReport,
+  Problem,
+  ProblemSource,
+  ProblemSeverity,
+} from "../../shared/tsc_types";
+import type { CommandPolicy } from "../lib/schemas";
+export type { ProblemReport, Problem, ProblemSource, ProblemSeverity };
 
 export interface AppOutput {
   type: "stdout" | "stderr" | "info" | "client-error" | "input-requested";
@@ -31,6 +37,10 @@ export interface ChatStreamParams {
     attachmentType: "upload-to-codebase" | "chat-context"; // FileAttachment type
   }>;
   selectedComponent: ComponentSelection | null;
+  // Interactive terminal whose recent output is added to the prompt
+  terminalSessionId?: string;
+  // Number of recent error lines from the app logs to add to the prompt
+  appLogErrorCount?: number;
 }
 
 export interface ChatResponseEnd {
@@ -86,6 +96,9 @@ export interface Chat {
   title: string;
   messages: Message[];
   initialCommitHash?: string | null;
+  parentChatId?: number | null;
+  forkedFromMessageId?: number | null;
+  branchName?: string | null;
   dbTimestamp?: string | null;
 }
 
@@ -99,6 +112,9 @@ export interface App {
   githubOrg: string | null;
   githubRepo: string | null;
   githubBranch: string | null;
+  gitRemoteUrl: string | null;
+  gitRemoteBranch: string | null;
+  gitRemoteCredentialId: string | null;
   supabaseProjectId: string | null;
   supabaseProjectName: string | null;
   neonProjectId: string | null;
@@ -108,8 +124,8 @@ export interface App {
   vercelProjectName: string | null;
   vercelTeamSlug: string | null;
   vercelDeploymentUrl: string | null;
-  installCommand: string | null;
-  startCommand: string | null;
+  localDbProvider: LocalDbProvider | null;
+  selectedRunProfileId: number | null;
 }
 
 export interface Version {
@@ -199,6 +215,8 @@ export type LanguageModel =
       tag?: string;
       maxOutputTokens?: number;
       contextWindow?: number;
+      inputCostPerMillionTokens?: number;
+      outputCostPerMillionTokens?: number;
       temperature?: number;
       dollarSigns?: number;
       type: "custom";
@@ -210,6 +228,8 @@ export type LanguageModel =
       tag?: string;
       maxOutputTokens?: number;
       contextWindow?: number;
+      inputCostPerMillionTokens?: number;
+      outputCostPerMillionTokens?: number;
       temperature?: number;
       dollarSigns?: number;
       type: "local" | "cloud";
@@ -229,12 +249,22 @@ export interface CreateCustomLanguageModelParams {
   description?: string;
   maxOutputTokens?: number;
   contextWindow?: number;
+  inputCostPerMillionTokens?: number;
+  outputCostPerMillionTokens?: number;
 }
 
 export interface DoesReleaseNoteExistParams {
   version: string;
 }
 
+export interface ApproveProposalParams {
+  chatId: number;
+  messageId: number;
+  // Terminal commands of the proposal the user approved; the others that
+  // need approval are skipped
+  approvedCommandIds?: number[];
+}
+
 export interface ApproveProposalResult {
   extraFiles?: string[];
   extraFilesError?: string;
@@ -253,6 +283,13 @@ export interface CopyAppParams {
   withHistory: boolean;
 }
 
+export interface SaveAppAsTemplateParams {
+  appId: number;
+  title: string;
+  description: string;
+  version: string;
+}
+
 export interface ImportAppResult {
   appId: number;
   chatId: number;
@@ -356,6 +393,12 @@ export interface UpdateChatParams {
   title: string;
 }
 
+export interface ForkChatParams {
+  chatId: number;
+  // The last message carried over to the fork
+  messageId: number;
+}
+
 export interface UploadFileToCodebaseParams {
   appId: number;
   filePath: string;
@@ -426,15 +469,170 @@ export interface GetNeonProjectResponse {
   branches: NeonBranch[];
 }
 
+// --- Local Database Types ---
+export type LocalDbProvider = "sqlite" | "postgres";
+
+export interface ProvisionLocalDbParams {
+  appId: number;
+  provider: LocalDbProvider;
+}
+
+export interface LocalDbStatus {
+  provider: LocalDbProvider | null;
+  // SQLite databases are always available; Postgres runs as a process
+  isRunning: boolean;
+  // Also written to POSTGRES_URL in .env.local
+  connectionString: string | null;
+  dataPath: string | null;
+}
+
+// --- Database Browser Types ---
+export interface DbBrowserSource {
+  kind: "supabase" | "neon" | "local" | "backend";
+  dialect: "postgres" | "sqlite";
+  // E.g. the Supabase project or the database file
+  label: string;
+}
+
+export interface DbBrowserTableRef {
+  // Null for SQLite, which has no schemas
+  schema: string | null;
+  name: string;
+}
+
+export interface DbBrowserTable extends DbBrowserTableRef {
+  rowCount: number;
+}
+
+export type DbBrowserFilterOperator =
+  | "="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "contains"
+  | "is null"
+  | "is not null";
+
+export interface DbBrowserFilter {
+  column: string;
+  operator: DbBrowserFilterOperator;
+  // Not used by the null checks
+  value?: string;
+}
+
+// Values that don't survive IPC as they are, e.g. binary data, are shown
+// as text
+export type DbBrowserCell = string | number | boolean | null;
+
+export interface DbBrowserResult {
+  columns: string[];
+  rows: DbBrowserCell[][];
+  // Set when the query returned more rows than are sent to the renderer
+  truncated: boolean;
+}
+
+export interface GetDbBrowserRowsParams {
+  appId: number;
+  table: DbBrowserTableRef;
+  filters: DbBrowserFilter[];
+  orderBy?: { column: string; direction: "asc" | "desc" };
+  offset: number;
+  limit: number;
+}
+
+export interface DbBrowserRows extends DbBrowserResult {
+  // Rows matching the filters, across all pages
+  totalCount: number;
+}
+
+export interface ExecuteDbBrowserSqlParams {
+  appId: number;
+  query: string;
+  // Statements that change or remove data only run once confirmed
+  confirmDestructive?: boolean;
+}
+
+export type ExecuteDbBrowserSqlResult =
+  | { needsConfirmation: true; destructiveStatements: string[] }
+  | ({ needsConfirmation: false } & DbBrowserResult);
+
 export interface RevertVersionParams {
   appId: number;
   previousVersionId: string;
+  // Also undo the Supabase migrations made after that version
+  rollbackSupabaseSchema?: boolean;
 }
 
 export type RevertVersionResponse =
   | { successMessage: string }
   | { warningMessage: string };
 
+export interface GetVersionDiffParams {
+  appId: number;
+  fromVersionId: string;
+  // Compares against the working tree when omitted
+  toVersionId?: string;
+}
+
+export interface VersionFileChange {
+  path: string;
+  status: "added" | "modified" | "deleted";
+}
+
+export interface GetVersionFileDiffParams extends GetVersionDiffParams {
+  filePath: string;
+}
+
+export interface VersionFileDiff {
+  path: string;
+  // Null when the file doesn't exist on that side
+  original: string | null;
+  modified: string | null;
+  // Binary and very large files are listed without their contents
+  isBinary: boolean;
+}
+
+export interface RestoreVersionFilesParams {
+  appId: number;
+  // The chat the restore is made from, to commit on its forked branch
+  chatId?: number | null;
+  versionId: string;
+  files: {
+    path: string;
+    // Written instead of the file from the version, e.g. when only some
+    // of its hunks are restored
+    content?: string;
+  }[];
+}
+
+// --- Supabase migrations ---
+export interface SupabaseRollbackPlan {
+  // Migrations made after the version, newest first, in the order they
+  // would be undone
+  migrations: {
+    name: string;
+    // Migrations without one stop the rollback
+    hasDownScript: boolean;
+  }[];
+}
+
+export interface SupabaseSchemaChange {
+  kind: "table" | "column" | "policy" | "function" | "trigger";
+  name: string;
+  change: "added" | "removed" | "changed";
+  before?: string;
+  after?: string;
+}
+
+export interface SupabaseSchemaDiff {
+  // Versions made before any SQL was executed have no snapshot
+  hasFromSnapshot: boolean;
+  hasToSnapshot: boolean;
+  changes: SupabaseSchemaChange[];
+}
+
 // --- Help Bot Types ---
 export interface StartHelpChatParams {
   sessionId: string;
@@ -461,3 +659,291 @@ export interface HelpChatResponseError {
   sessionId: string;
   error: string;
 }
+
+// --- Autonomous Development Types ---
+export interface DevelopmentPhaseHistoryEntry {
+  phase: string;
+  startedAt: string; // ISO timestamp
+  completedAt?: string; // ISO timestamp, unset while running or if it failed
+  message?: string; // Error or human-intervention message
+}
+
+export interface DevelopmentRun {
+  id: number;
+  appId: number;
+  phase: string;
+  lastCompletedPhase: string | null;
+  isActive: boolean;
+  progress: number;
+  frontendComplete: boolean;
+  backendComplete: boolean;
+  humanInterventionRequired: boolean;
+  humanInterventionMessage: string | null;
+  errors: string[];
+  phaseHistory: DevelopmentPhaseHistoryEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// --- Run Profiles ---
+export type RunProfileWorkingDirectory = "frontend" | "backend";
+
+export interface RunProfile {
+  id: number;
+  appId: number;
+  name: string;
+  installCommand: string | null;
+  buildCommand: string | null;
+  startCommand: string;
+  // Null runs the profile in the app's root folder
+  workingDirectory: RunProfileWorkingDirectory | null;
+  env: Record<string, string>;
+  // Null picks a free port when the profile starts
+  port: number | null;
+}
+
+export interface SaveRunProfileParams {
+  appId: number;
+  // Omitted when creating a new profile
+  id?: number;
+  name: string;
+  installCommand?: string | null;
+  buildCommand?: string | null;
+  startCommand: string;
+  workingDirectory?: RunProfileWorkingDirectory | null;
+  env?: Record<string, string>;
+  port?: number | null;
+}
+
+// --- Token usage ---
+export interface TokenUsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cachedInputTokens: number;
+  // Only includes responses from models with known pricing
+  costUsd: number;
+}
+
+export interface ChatUsage {
+  totals: TokenUsageTotals;
+  // Keyed by assistant message id
+  byMessage: Record<number, TokenUsageTotals>;
+}
+
+export interface UsageBreakdownRow extends TokenUsageTotals {
+  key: string;
+  label: string;
+}
+
+export interface UsageSummary {
+  totals: TokenUsageTotals;
+  byProvider: UsageBreakdownRow[];
+  byApp: UsageBreakdownRow[];
+  // Keyed by month as YYYY-MM, oldest first
+  byMonth: UsageBreakdownRow[];
+}
+
+export interface GetUsageSummaryParams {
+  // Only include usage since this many days ago, all time when omitted
+  sinceDays?: number;
+}
+
+export interface MonthlyBudgetStatus {
+  spentUsd: number;
+  // Null when no budget is set
+  limitUsd: number | null;
+  mode: "warn" | "block" | null;
+  isExceeded: boolean;
+}
+
+// --- Terminal Command Audit ---
+export interface TerminalCommandAuditEntry {
+  id: number;
+  chatId: number | null;
+  messageId: number | null;
+  command: string;
+  // Relative to the app folder
+  cwd: string;
+  terminal: "frontend" | "backend";
+  decision: "approved" | "allowlisted" | "denied" | "denylisted";
+  // Null when the command didn't run or couldn't be started
+  exitCode: number | null;
+  output: string | null;
+  createdAt: Date;
+}
+
+export interface SetAppCommandPolicyParams {
+  appId: number;
+  // Null clears the app's own lists
+  policy: CommandPolicy | null;
+}
+
+// --- Interactive Terminals ---
+export type PtyLocation = "frontend" | "backend";
+
+export interface PtySession {
+  sessionId: string;
+  appId: number;
+  location: PtyLocation;
+  cwd: string;
+  shell: string;
+  // Null while the shell is running
+  exitCode: number | null;
+}
+
+export interface CreatePtySessionParams {
+  appId: number;
+  location: PtyLocation;
+  cols: number;
+  rows: number;
+}
+
+export interface ResizePtySessionParams {
+  sessionId: string;
+  cols: number;
+  rows: number;
+}
+
+export interface PtyDataEvent {
+  sessionId: string;
+  data: string;
+}
+
+export interface PtyExitEvent {
+  sessionId: string;
+  exitCode: number;
+}
+
+// --- App Logs ---
+export type AppLogLevel = "info" | "warn" | "error";
+export type AppLogSource = "frontend" | "backend" | "proxy" | "client-error";
+
+export interface AppLogEntry {
+  id: number;
+  appId: number;
+  runId: number;
+  timestamp: number;
+  level: AppLogLevel;
+  source: AppLogSource;
+  // One line, without timestamps or escape codes
+  text: string;
+}
+
+export interface AppLogRun {
+  runId: number;
+  appId: number;
+  startedAt: number;
+  entryCount: number;
+  errorCount: number;
+  // Entries dropped because the run went over its limit
+  droppedCount: number;
+}
+
+export interface AppLogQuery {
+  appId: number;
+  // Defaults to the latest run
+  runId?: number;
+  levels?: AppLogLevel[];
+  sources?: AppLogSource[];
+  // Case-insensitive regular expression
+  pattern?: string;
+  limit?: number;
+}
+
+export interface ExportAppLogRunParams {
+  appId: number;
+  runId: number;
+}
+
+// --- Git Remotes ---
+export type GitRemoteCredentialKind = "token" | "ssh-key";
+
+// A stored credential without its secret
+export interface GitRemoteCredentialSummary {
+  id: string;
+  name: string;
+  kind: GitRemoteCredentialKind;
+  username: string | null;
+}
+
+export interface SaveGitRemoteCredentialParams {
+  name: string;
+  kind: GitRemoteCredentialKind;
+  username?: string;
+  // The token for "token" credentials, the private key for "ssh-key" ones
+  secret: string;
+}
+
+export interface ListGitRemoteBranchesParams {
+  url: string;
+  credentialId: string | null;
+}
+
+export interface ConnectGitRemoteParams {
+  appId: number;
+  url: string;
+  branch: string;
+  credentialId: string | null;
+}
+
+export interface PushGitRemoteParams {
+  appId: number;
+  force?: boolean;
+}
+
+// --- Component Editor ---
+// "expression" props are shown but can only be changed through the AI
+export type ComponentPropKind = "string" | "number" | "boolean" | "expression";
+
+export interface ComponentProp {
+  name: string;
+  kind: ComponentPropKind;
+  // The literal's value, or the expression's source
+  value: string;
+}
+
+// What the inspector can show and edit for a selected element
+export interface ComponentSource {
+  tagName: string;
+  // Null when the element holds more than plain text, or can't hold any
+  text: string | null;
+  // Null when the classes are computed, e.g. with cn(); they're listed in
+  // props instead
+  className: string | null;
+  props: ComponentProp[];
+}
+
+// Only the fields that are set get changed
+export interface ComponentEdit {
+  text?: string;
+  className?: string;
+  // New values of existing props, by name
+  props?: Record<string, string>;
+}
+
+export interface ReadComponentSourceParams {
+  appId: number;
+  selection: ComponentSelection;
+}
+
+export interface EditComponentSourceParams {
+  appId: number;
+  selection: ComponentSelection;
+  edit: ComponentEdit;
+}
+
+export interface EditComponentSourceResult {
+  source: ComponentSource;
+  commitHash: string;
+}
+
+// --- Preview ---
+export interface CapturePreviewScreenshotParams {
+  // Area of the window to capture, in CSS pixels
+  rect: { x: number; y: number; width: number; height: number };
+  // Size of the resulting image, in device pixels. Scaled down to fit the
+  // captured pixels if the area has fewer.
+  outputWidth: number;
+  outputHeight: number;
+}
@@ -0,0 +1,519 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import log from "electron-log";
+import { safeJoin } from "../utils/path_utils";
+import {
+  SearchReplaceHunk,
+  applySearchReplaceHunks,
+  formatHunkFailures,
+} from "../../shared/search_replace";
+
+const logger = log.scope("apply_plan");
+
+export type FileOperation =
+  | { kind: "delete"; path: string }
+  | { kind: "rename"; from: string; to: string }
+  | { kind: "write"; path: string; content: string | Buffer }
+  | { kind: "search-replace"; path: string; hunks: SearchReplaceHunk[] };
+
+/**
+ * - applied: the operation is part of the committed change set.
+ * - skipped: the operation was a no-op (e.g. deleting a missing file).
+ * - failed: the operation is why the plan was rejected or rolled back.
+ * - rolled-back: the operation was applied, then undone because another one failed.
+ * - not-applied: the operation never ran because the plan was rejected or aborted.
+ */
+export type FileOperationStatus =
+  | "applied"
+  | "skipped"
+  | "failed"
+  | "rolled-back"
+  | "not-applied";
+
+export interface FileOperationResult {
+  operation: FileOperation;
+  status: FileOperationStatus;
+  message?: string;
+}
+
+export type ApplyPlanStatus = "committed" | "rejected" | "rolled-back";
+
+export interface ApplyPlanResult {
+  status: ApplyPlanStatus;
+  results: FileOperationResult[];
+  writtenFiles: string[];
+  renamedFiles: { from: string; to: string }[];
+  deletedFiles: string[];
+  error?: string;
+}
+
+/**
+ * What a path looks like once the staged operations so far are applied.
+ * - content: the file was written or edited in this plan.
+ * - moved: the path holds whatever was at `source` on disk (a rename).
+ * - removed: the path was deleted or renamed away.
+ */
+type StagedEntry =
+  | { kind: "content"; content: string | Buffer }
+  | { kind: "moved"; source: string }
+  | { kind: "removed" };
+
+interface StagedOperation {
+  operation: FileOperation;
+  status: "pending" | "skipped" | "failed";
+  message?: string;
+}
+
+/**
+ * Order the operations the way they are applied:
+ * 1. Deletes
+ * 2. Renames
+ * 3. Writes and search/replace edits, in the order they were emitted
+ *
+ * Why?
+ * - Deleting first avoids path conflicts before the other operations.
+ * - LLMs like to rename and then edit the same file.
+ */
+export function orderFileOperations(
+  operations: FileOperation[],
+): FileOperation[] {
+  return [
+    ...operations.filter((op) => op.kind === "delete"),
+    ...operations.filter((op) => op.kind === "rename"),
+    ...operations.filter(
+      (op) => op.kind === "write" || op.kind === "search-replace",
+    ),
+  ];
+}
+
+export function getOperationPaths(operation: FileOperation): string[] {
+  return operation.kind === "rename"
+    ? [operation.from, operation.to]
+    : [operation.path];
+}
+
+/**
+ * Simulate the plan against the current app tree without touching it.
+ *
+ * Every path must stay inside the app, operations on the same file must not
+ * contradict each other and rename targets must be free. Search/replace
+ * edits are resolved against the staged content so the final content of
+ * every written file is known before anything is applied.
+ */
+function stagePlan(
+  appPath: string,
+  operations: FileOperation[],
+): { staged: StagedOperation[]; overlay: Map<string, StagedEntry> } {
+  const overlay = new Map<string, StagedEntry>();
+  const deleted = new Set<string>();
+  const renamedTo = new Map<string, string>();
+
+  const exists = (filePath: string): boolean => {
+    const entry = overlay.get(filePath);
+    if (entry) {
+      return entry.kind !== "removed";
+    }
+    return fs.existsSync(safeJoin(appPath, filePath));
+  };
+
+  const read = (filePath: string): string => {
+    const entry = overlay.get(filePath);
+    if (entry?.kind === "content") {
+      return entry.content.toString();
+    }
+    const diskPath = entry?.kind === "moved" ? entry.source : filePath;
+    return fs.readFileSync(safeJoin(appPath, diskPath), "utf8");
+  };
+
+  const conflict = (filePath: string): string | undefined => {
+    if (deleted.has(filePath)) {
+      return `Conflicts with delete of ${filePath}`;
+    }
+    if (renamedTo.has(filePath)) {
+      return `Conflicts with rename of ${filePath} to ${renamedTo.get(filePath)}`;
+    }
+    return undefined;
+  };
+
+  const staged = operations.map((operation): StagedOperation => {
+    try {
+      for (const filePath of getOperationPaths(operation)) {
+        safeJoin(appPath, filePath);
+      }
+    } catch (error) {
+      return { operation, status: "failed", message: `${error}` };
+    }
+
+    switch (operation.kind) {
+      case "delete": {
+        const conflictMessage = conflict(operation.path);
+        if (conflictMessage) {
+          return { operation, status: "failed", message: conflictMessage };
+        }
+        if (!exists(operation.path)) {
+          return {
+            operation,
+            status: "skipped",
+            message: `File to delete does not exist: ${operation.path}`,
+          };
+        }
+        overlay.set(operation.path, { kind: "removed" });
+        deleted.add(operation.path);
+        return { operation, status: "pending" };
+      }
+
+      case "rename": {
+        const { from, to } = operation;
+        const conflictMessage = conflict(from);
+        if (conflictMessage) {
+          return { operation, status: "failed", message: conflictMessage };
+        }
+        if (from === to) {
+          return {
+            operation,
+            status: "skipped",
+            message: `Source and target of rename are the same: ${from}`,
+          };
+        }
+        if (!exists(from)) {
+          return {
+            operation,
+            status: "skipped",
+            message: `Source file for rename does not exist: ${from}`,
+          };
+        }
+        if (exists(to)) {
+          return {
+            operation,
+            status: "failed",
+            message: `Rename target already exists: ${to}`,
+          };
+        }
+        const source = overlay.get(from);
+        overlay.set(to, source ?? { kind: "moved", source: from });
+        overlay.set(from, { kind: "removed" });
+        renamedTo.set(from, to);
+        return { operation, status: "pending" };
+      }
+
+      case "write": {
+        // Deleting a file and writing it again replaces it
+        deleted.delete(operation.path);
+        const conflictMessage = conflict(operation.path);
+        if (conflictMessage) {
+          return { operation, status: "failed", message: conflictMessage };
+        }
+        overlay.set(operation.path, {
+          kind: "content",
+          content: operation.content,
+        });
+        return { operation, status: "pending" };
+      }
+
+      case "search-replace": {
+        const conflictMessage = conflict(operation.path);
+        if (conflictMessage) {
+          return { operation, status: "failed", message: conflictMessage };
+        }
+        if (!exists(operation.path)) {
+          return {
+            operation,
+            status: "failed",
+            message: `File not found for search_replace: ${operation.path}`,
+          };
+        }
+        if (operation.hunks.length === 0) {
+          return {
+            operation,
+            status: "failed",
+            message: `No search/replace hunks found for: ${operation.path}`,
+          };
+        }
+        const { content, failures } = applySearchReplaceHunks(
+          read(operation.path),
+          operation.hunks,
+        );
+        if (failures.length > 0) {
+          return {
+            operation,
+            status: "failed",
+            message: formatHunkFailures(
+              operation.path,
+              operation.hunks.length,
+              failures,
+            ),
+          };
+        }
+        overlay.set(operation.path, { kind: "content", content });
+        return { operation, status: "pending" };
+      }
+    }
+  });
+
+  return { staged, overlay };
+}
+
+/**
+ * Copies of every path the plan touches, taken before anything is applied,
+ * so the working tree can be restored if applying fails midway.
+ */
+class WorkingTreeBackup {
+  private readonly scratchDir: string;
+  private readonly existed = new Map<string, boolean>();
+
+  constructor(private readonly appPath: string) {
+    this.scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), "dyad-apply-"));
+  }
+
+  save(filePath: string): void {
+    if (this.existed.has(filePath)) {
+      return;
+    }
+    const fullPath = safeJoin(this.appPath, filePath);
+    if (!fs.existsSync(fullPath)) {
+      this.existed.set(filePath, false);
+      return;
+    }
+    const backupPath = path.join(this.scratchDir, filePath);
+    fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+    if (fs.lstatSync(fullPath).isDirectory()) {
+      fs.cpSync(fullPath, backupPath, { recursive: true });
+    } else {
+      fs.copyFileSync(fullPath, backupPath);
+    }
+    this.existed.set(filePath, true);
+  }
+
+  /**
+   * Put every saved path back the way it was. Keeps going on errors so one
+   * stubborn file doesn't prevent restoring the others.
+   */
+  restore(): string[] {
+    const failures: string[] = [];
+    for (const [filePath, existed] of this.existed) {
+      const fullPath = safeJoin(this.appPath, filePath);
+      try {
+        if (fs.existsSync(fullPath)) {
+          fs.rmSync(fullPath, { recursive: true, force: true });
+        }
+        if (existed) {
+          const backupPath = path.join(this.scratchDir, filePath);
+          fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+          fs.cpSync(backupPath, fullPath, { recursive: true });
+        }
+      } catch (error) {
+        logger.error(`Failed to restore ${filePath}:`, error);
+        failures.push(filePath);
+      }
+    }
+    return failures;
+  }
+
+  dispose(): void {
+    try {
+      fs.rmSync(this.scratchDir, { recursive: true, force: true });
+    } catch (error) {
+      logger.warn(
+        `Failed to clean up scratch directory ${this.scratchDir}:`,
+        error,
+      );
+    }
+  }
+}
+
+function applyOperation(
+  appPath: string,
+  operation: FileOperation,
+  overlay: Map<string, StagedEntry>,
+): void {
+  switch (operation.kind) {
+    case "delete": {
+      const fullPath = safeJoin(appPath, operation.path);
+      if (fs.lstatSync(fullPath).isDirectory()) {
+        fs.rmSync(fullPath, { recursive: true });
+      } else {
+        fs.unlinkSync(fullPath);
+      }
+      logger.log(`Successfully deleted file: ${fullPath}`);
+      return;
+    }
+    case "rename": {
+      const fromPath = safeJoin(appPath, operation.from);
+      const toPath = safeJoin(appPath, operation.to);
+      fs.mkdirSync(path.dirname(toPath), { recursive: true });
+      fs.renameSync(fromPath, toPath);
+      logger.log(`Successfully renamed file: ${fromPath} -> ${toPath}`);
+      return;
+    }
+    case "write":
+    case "search-replace": {
+      const entry = overlay.get(operation.path);
+      if (entry?.kind !== "content") {
+        throw new Error(`No staged content for ${operation.path}`);
+      }
+      const fullPath = safeJoin(appPath, operation.path);
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+      fs.writeFileSync(fullPath, entry.content);
+      logger.log(`Successfully wrote file: ${fullPath}`);
+      return;
+    }
+  }
+}
+
+/**
+ * Validate, stage and apply a set of file operations all-or-nothing.
+ *
+ * If validation fails nothing is touched. If applying fails midway, or the
+ * optional `afterApply` step throws (e.g. a dependency install), every
+ * touched path, including `extraPaths`, is restored from a backup in a
+ * scratch directory.
+ */
+export async function executeApplyPlan({
+  appPath,
+  operations,
+  extraPaths = [],
+  afterApply,
+}: {
+  appPath: string;
+  operations: FileOperation[];
+  extraPaths?: string[];
+  afterApply?: () => Promise<void>;
+}): Promise<ApplyPlanResult> {
+  const ordered = orderFileOperations(operations);
+  const result: ApplyPlanResult = {
+    status: "committed",
+    results: [],
+    writtenFiles: [],
+    renamedFiles: [],
+    deletedFiles: [],
+  };
+  if (ordered.length === 0 && !afterApply) {
+    return result;
+  }
+
+  const { staged, overlay } = stagePlan(appPath, ordered);
+  const failed = staged.filter((op) => op.status === "failed");
+  if (failed.length > 0) {
+    result.status = "rejected";
+    result.error = failed.map((op) => op.message).join("; ");
+    result.results = staged.map(({ operation, status, message }) => ({
+      operation,
+      status: status === "pending" ? "not-applied" : status,
+      message,
+    }));
+    logger.warn(`Rejected apply plan: ${result.error}`);
+    return result;
+  }
+
+  const pending = staged.filter((op) => op.status === "pending");
+  const statuses = new Map<StagedOperation, FileOperationResult>(
+    staged.map((op) => [
+      op,
+      {
+        operation: op.operation,
+        status: op.status === "skipped" ? "skipped" : "not-applied",
+        message: op.message,
+      },
+    ]),
+  );
+
+  let backup: WorkingTreeBackup | undefined;
+  try {
+    backup = new WorkingTreeBackup(appPath);
+    for (const op of pending) {
+      for (const filePath of getOperationPaths(op.operation)) {
+        backup.save(filePath);
+      }
+    }
+    for (const filePath of extraPaths) {
+      backup.save(filePath);
+    }
+  } catch (error) {
+    backup?.dispose();
+    result.status = "rejected";
+    result.error = `Failed to back up files before applying changes: ${error}`;
+    result.results = [...statuses.values()];
+    logger.error(result.error);
+    return result;
+  }
+
+  try {
+    for (const op of pending) {
+      const entry = statuses.get(op)!;
+      try {
+        applyOperation(appPath, op.operation, overlay);
+        entry.status = "applied";
+      } catch (error) {
+        entry.status = "failed";
+        entry.message = `${error}`;
+        throw error;
+      }
+    }
+    await afterApply?.();
+  } catch (error) {
+    const restoreFailures = backup.restore();
+    for (const entry of statuses.values()) {
+      if (entry.status === "applied") {
+        entry.status = "rolled-back";
+      }
+    }
+    result.status = "rolled-back";
+    result.error = `${error}`;
+    if (restoreFailures.length > 0) {
+      result.error += ` (could not restore: ${restoreFailures.join(", ")})`;
+    }
+    result.results = [...statuses.values()];
+    logger.error(`Rolled back apply plan: ${result.error}`);
+    return result;
+  } finally {
+    backup.dispose();
+  }
+
+  result.results = [...statuses.values()];
+  const writtenFiles = new Set<string>();
+  for (const { operation } of pending) {
+    if (operation.kind === "delete") {
+      result.deletedFiles.push(operation.path);
+    } else if (operation.kind === "rename") {
+      result.renamedFiles.push({ from: operation.from, to: operation.to });
+    } else {
+      writtenFiles.add(operation.path);
+    }
+  }
+  result.writtenFiles = [...writtenFiles];
+  return result;
+}
+
+function escapeXml(unsafe: string): string {
+  return unsafe
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Serialize the per-operation outcome as a <dyad-apply-report> tag, which
+ * is appended to the assistant message and rendered in the chat.
+ */
+export function formatApplyReport(result: ApplyPlanResult): string {
+  const summary =
+    result.status === "committed"
+      ? `Applied ${result.results.filter((r) => r.status === "applied").length} of ${result.results.length} file operations`
+      : result.status === "rejected"
+        ? "Changes were not applied"
+        : "Changes were rolled back";
+  const operations = result.results
+    .map(({ operation, status, message }) => {
+      const pathAttributes =
+        operation.kind === "rename"
+          ? `from="${escapeXml(operation.from)}" to="${escapeXml(operation.to)}"`
+          : `path="${escapeXml(operation.path)}"`;
+      return `<operation kind="${operation.kind}" ${pathAttributes} status="${status}">${escapeXml(message ?? "")}</operation>`;
+    })
+    .join("\n");
+  return `<dyad-apply-report status="${result.status}" summary="${escapeXml(summary)}">
+${operations}
+</dyad-apply-report>`;
+}
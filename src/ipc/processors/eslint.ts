@@ -0,0 +1,64 @@
+import * as path from "node:path";
+import { Worker } from "node:worker_threads";
+
+import { ProblemReport } from "../ipc_types";
+import log from "electron-log";
+import {
+  LintWorkerInput,
+  LintWorkerOutput,
+  VirtualChanges,
+} from "../../../shared/tsc_types";
+
+const logger = log.scope("eslint");
+
+/**
+ * Lint the app with its own ESLint config, or the default one for apps
+ * without a config. Null if the app has no ESLint installed.
+ */
+export function generateLintProblemReport({
+  virtualChanges,
+  appPath,
+}: {
+  virtualChanges: VirtualChanges;
+  appPath: string;
+}): Promise<ProblemReport | null> {
+  return new Promise((resolve, reject) => {
+    const workerPath = path.join(__dirname, "eslint_worker.js");
+
+    logger.info(`Starting ESLint worker for app ${appPath}`);
+
+    const worker = new Worker(workerPath);
+
+    worker.on("message", (output: LintWorkerOutput) => {
+      worker.terminate();
+
+      if (output.success) {
+        logger.info(`ESLint worker completed successfully for app ${appPath}`);
+        resolve(output.data ?? null);
+      } else {
+        logger.error(
+          `ESLint worker failed for app ${appPath}: ${output.error}`,
+        );
+        reject(new Error(output.error || "Unknown worker error"));
+      }
+    });
+
+    worker.on("error", (error) => {
+      logger.error(`ESLint worker error for app ${appPath}:`, error);
+      worker.terminate();
+      reject(error);
+    });
+
+    worker.on("exit", (code) => {
+      if (code !== 0) {
+        logger.error(
+          `ESLint worker exited with code ${code} for app ${appPath}`,
+        );
+        reject(new Error(`Worker exited with code ${code}`));
+      }
+    });
+
+    const input: LintWorkerInput = { virtualChanges, appPath };
+    worker.postMessage(input);
+  });
+}
@@ -0,0 +1,136 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import log from "electron-log";
+
+import { ProblemReport } from "../ipc_types";
+import { VirtualChanges } from "../../../shared/tsc_types";
+import { SyncVirtualFileSystemImpl } from "../../../shared/VirtualFilesystem";
+import { normalizePath } from "../../../shared/normalizePath";
+import { getShellEnv } from "../handlers/app_handlers";
+import {
+  findPythonInterpreter,
+  parseRequirementNames,
+  runPythonCheck,
+} from "../utils/python_check";
+
+const logger = log.scope("python_check");
+
+const IGNORED_DIRS = new Set([
+  "node_modules",
+  "venv",
+  "env",
+  "__pycache__",
+  "site-packages",
+  "dist",
+  "build",
+]);
+
+// Keeps a stray checkout of some library from stalling the check
+const MAX_PYTHON_FILES = 2000;
+
+function listPythonFilesOnDisk(dir: string, files: string[] = []): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+  for (const entry of entries) {
+    if (files.length >= MAX_PYTHON_FILES) {
+      break;
+    }
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith(".") && !IGNORED_DIRS.has(entry.name)) {
+        listPythonFilesOnDisk(fullPath, files);
+      }
+    } else if (entry.name.endsWith(".py")) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Python sources of the app's backend, keyed by their path relative to the
+ * backend root, with the response's changes applied
+ */
+function collectPythonFiles(
+  root: string,
+  appPath: string,
+  vfs: SyncVirtualFileSystemImpl,
+): Record<string, string> {
+  const candidates = new Set(listPythonFilesOnDisk(root));
+  for (const file of vfs.getVirtualFiles()) {
+    const fullPath = path.resolve(appPath, file.path);
+    if (fullPath.endsWith(".py") && fullPath.startsWith(root + path.sep)) {
+      candidates.add(fullPath);
+    }
+  }
+  const files: Record<string, string> = {};
+  for (const fullPath of candidates) {
+    // Undefined for files the response deletes
+    const content = vfs.readFile(fullPath);
+    if (content !== undefined) {
+      files[normalizePath(path.relative(root, fullPath))] = content;
+    }
+  }
+  return files;
+}
+
+/**
+ * Check the app's Python backend, or null if the app has no Python code or
+ * no interpreter to check it with. Problem paths are relative to the app.
+ */
+export async function generatePythonProblemReport({
+  virtualChanges,
+  appPath,
+}: {
+  virtualChanges: VirtualChanges;
+  appPath: string;
+}): Promise<ProblemReport | null> {
+  const vfs = new SyncVirtualFileSystemImpl(appPath);
+  vfs.applyResponseChanges(virtualChanges);
+
+  // Full-stack apps keep their backend in backend/, backend-only apps at
+  // the root
+  let root: string | null = null;
+  let files: Record<string, string> = {};
+  for (const candidate of [path.join(appPath, "backend"), appPath]) {
+    files = collectPythonFiles(candidate, appPath, vfs);
+    if (Object.keys(files).length > 0) {
+      root = candidate;
+      break;
+    }
+  }
+  if (!root) {
+    return null;
+  }
+
+  const env = getShellEnv();
+  const interpreter = findPythonInterpreter([root, appPath], env);
+  if (!interpreter) {
+    logger.warn(`No Python interpreter found to check app ${appPath}`);
+    return null;
+  }
+
+  logger.info(
+    `Checking ${Object.keys(files).length} Python files in ${root} with ${interpreter}`,
+  );
+  const requirements = vfs.readFile(path.join(root, "requirements.txt"));
+  const problems = await runPythonCheck({
+    interpreter,
+    root,
+    files,
+    requirements: parseRequirementNames(requirements ?? ""),
+    env,
+  });
+
+  const prefix = normalizePath(path.relative(appPath, root));
+  return {
+    problems: problems.map((problem) => ({
+      ...problem,
+      file: prefix ? `${prefix}/${problem.file}` : problem.file,
+    })),
+  };
+}
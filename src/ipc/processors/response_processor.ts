@@ -16,7 +16,6 @@ import {
   executeSupabaseSql,
 } from "../../supabase_admin/supabase_management_client";
 import { isServerFunction } from "../../supabase_admin/supabase_utils";
-import { UserSettings } from "../../lib/schemas";
 import { gitCommit } from "../utils/git_utils";
 
 // Helper function to handle git operations with timeout
@@ -41,7 +40,6 @@ function createSafeGitOperation(warnings: Output[], errors: Output[]) {
     }
   };
 }
-import { readSettings } from "@/main/settings";
 import { writeMigrationFile } from "../utils/file_utils";
 import {
   getDyadWriteTags,
@@ -49,17 +47,29 @@ import {
   getDyadDeleteTags,
   getDyadAddDependencyTags,
   getDyadExecuteSqlTags,
-  getDyadRunBackendTerminalCmdTags,
-  getDyadRunFrontendTerminalCmdTags,
-  getDyadRunTerminalCmdTags,
   getWriteToFileTags,
   getSearchReplaceTags,
+  toDyadDocument,
 } from "../utils/dyad_tag_parser";
-import { runShellCommand } from "../utils/runShellCommand";
+import { removeDyadTagNodes } from "@/shared/dyad_tag_stream_parser";
+import {
+  getProposedTerminalCommands,
+  runTerminalCommands,
+} from "../utils/terminal_commands";
 import { storeDbTimestampAtCurrentVersion } from "../utils/neon_timestamp_utils";
+import { storeSupabaseSchemaAtCurrentVersion } from "../utils/supabase_migration_utils";
+import { executeLocalDbSql } from "../../local_db/local_db_manager";
 
-import { FileUploadsState } from "../utils/file_uploads_state";
-import { addTerminalOutput } from "../handlers/terminal_handlers";
+import {
+  FileUploadInfo,
+  FileUploadsState,
+} from "../utils/file_uploads_state";
+import {
+  ApplyPlanResult,
+  executeApplyPlan,
+  FileOperation,
+  formatApplyReport,
+} from "./apply_plan";
 
 const readFile = fs.promises.readFile;
 const logger = log.scope("response_processor");
@@ -81,15 +91,49 @@ async function readFileFromFunctionPath(input: string): Promise<string> {
   return readFile(input, "utf8");
 }
 
+/**
+ * If the content (stripped of whitespace) exactly matches an uploaded file
+ * ID, replace it with the actual file content.
+ */
+async function resolveUploadedFileContent(
+  content: string,
+  fileUploadsMap: Map<string, FileUploadInfo> | undefined,
+  errors: Output[],
+): Promise<string | Buffer> {
+  const trimmedContent = content.trim();
+  const fileInfo = fileUploadsMap?.get(trimmedContent);
+  if (!fileInfo) {
+    return content;
+  }
+  try {
+    const fileContent = await readFile(fileInfo.filePath);
+    logger.log(
+      `Replaced file ID ${trimmedContent} with content from ${fileInfo.originalName}`,
+    );
+    return fileContent;
+  } catch (error) {
+    logger.error(`Failed to read uploaded file ${fileInfo.originalName}:`, error);
+    errors.push({
+      message: `Failed to read uploaded file: ${fileInfo.originalName}`,
+      error: error,
+    });
+    return content;
+  }
+}
+
 export async function processFullResponseActions(
   fullResponse: string,
   chatId: number,
   {
     chatSummary,
     messageId,
+    approvedCommandIds,
   }: {
     chatSummary: string | undefined;
     messageId: number;
+    // Ids of the terminal commands the user approved; commands that need
+    // approval are skipped when this is omitted
+    approvedCommandIds?: number[];
   },
 ): Promise<{
   updatedFiles?: boolean;
@@ -130,12 +174,10 @@ export async function processFullResponseActions(
     }
   }
 
-  const settings: UserSettings = readSettings();
   const appPath = getDyadAppPath(chatWithApp.app.path);
   const writtenFiles: string[] = [];
-  const renamedFiles: string[] = [];
-  const deletedFiles: string[] = [];
   let hasChanges = false;
+  let applyResult: ApplyPlanResult | undefined;
 
   let warnings: Output[] = [];
   let errors: Output[] = [];
@@ -144,30 +186,32 @@ export async function processFullResponseActions(
   const safeGitOperation = createSafeGitOperation(warnings, errors);
 
   try {
-    // Extract all tags
-    const dyadWriteTags = getDyadWriteTags(fullResponse);
-    const writeToFileTags = getWriteToFileTags(fullResponse);
-    const searchReplaceTags = getSearchReplaceTags(fullResponse);
-    const dyadRenameTags = getDyadRenameTags(fullResponse);
-    const dyadDeletePaths = getDyadDeleteTags(fullResponse);
-    const dyadAddDependencyPackages = getDyadAddDependencyTags(fullResponse);
-    const dyadExecuteSqlQueries = chatWithApp.app.supabaseProjectId
-      ? getDyadExecuteSqlTags(fullResponse)
-      : [];
-    const dyadRunBackendTerminalCmdTags = getDyadRunBackendTerminalCmdTags(fullResponse);
-    const dyadRunFrontendTerminalCmdTags = getDyadRunFrontendTerminalCmdTags(fullResponse);
-    const dyadRunTerminalCmdTags = getDyadRunTerminalCmdTags(fullResponse);
-
-    // Determine the chat mode to route general terminal commands appropriately
-    let chatMode = settings.selectedChatMode;
-    if (chatWithApp.app) {
-      // Check if there's a backend directory to determine if this is backend/fullstack mode
-      const backendPath = path.join(appPath, "backend");
-      const hasBackend = fs.existsSync(backendPath);
-      if (hasBackend) {
-        chatMode = settings.selectedChatMode === "fullstack" ? "fullstack" : "backend";
-      }
+    // Parse the response once and extract all tags from the same tree
+    const parsedResponse = toDyadDocument(fullResponse);
+    for (const diagnostic of parsedResponse.diagnostics) {
+      logger.warn(
+        `Tag diagnostic (${diagnostic.code}) at ${diagnostic.start}: ${diagnostic.message}`,
+      );
     }
+    const dyadWriteTags = getDyadWriteTags(parsedResponse);
+    const writeToFileTags = getWriteToFileTags(parsedResponse);
+    const searchReplaceTags = getSearchReplaceTags(parsedResponse);
+    const dyadRenameTags = getDyadRenameTags(parsedResponse);
+    const dyadDeletePaths = getDyadDeleteTags(parsedResponse);
+    const dyadAddDependencyPackages = getDyadAddDependencyTags(parsedResponse);
+    // Supabase wins if both are set, like in the system prompt
+    const localDbProvider = chatWithApp.app.supabaseProjectId
+      ? null
+      : chatWithApp.app.localDbProvider;
+    const dyadExecuteSqlQueries =
+      chatWithApp.app.supabaseProjectId || localDbProvider
+        ? getDyadExecuteSqlTags(parsedResponse)
+        : [];
+    const terminalCommands = await getProposedTerminalCommands({
+      response: parsedResponse,
+      appId: chatWithApp.app.id,
+      appPath,
+    });
 
     const message = await db.query.messages.findFirst({
       where: and(
@@ -182,31 +226,112 @@ export async function processFullResponseActions(
       return {};
     }
 
+    // Only remove terminal command tags that don't need UI rendering
+    // Keep dyad-write, dyad-rename, dyad-delete, dyad-add-dependency, dyad-execute-sql, write_to_file, and search_replace tags
+    // as they are rendered by the DyadMarkdownParser as interactive UI components
+    fullResponse = removeDyadTagNodes(parsedResponse, "terminal-command");
+
+    // Collect every file operation up front so they can be validated and
+    // applied as a single transaction.
+    const fileOperations: FileOperation[] = [
+      ...dyadDeletePaths.map(
+        (filePath): FileOperation => ({ kind: "delete", path: filePath }),
+      ),
+      ...dyadRenameTags.map(
+        (tag): FileOperation => ({ kind: "rename", from: tag.from, to: tag.to }),
+      ),
+    ];
+    for (const tag of [...dyadWriteTags, ...writeToFileTags]) {
+      fileOperations.push({
+        kind: "write",
+        path: tag.path,
+        content: await resolveUploadedFileContent(
+          tag.content,
+          fileUploadsMap,
+          errors,
+        ),
+      });
+    }
+    for (const tag of searchReplaceTags) {
+      fileOperations.push({
+        kind: "search-replace",
+        path: tag.file,
+        hunks: tag.hunks,
+      });
+    }
+
+    const dependencyFiles = ["package.json", "pnpm-lock.yaml", "package-lock.json"];
+    applyResult = await executeApplyPlan({
+      appPath,
+      operations: fileOperations,
+      // Installing dependencies rewrites package.json and the lock files, so
+      // they are restored along with everything else if the install fails.
+      extraPaths: dyadAddDependencyPackages.length > 0 ? dependencyFiles : [],
+      afterApply:
+        dyadAddDependencyPackages.length > 0
+          ? async () => {
+              try {
+                await executeAddDependency({
+                  packages: dyadAddDependencyPackages,
+                  message: message,
+                  appPath,
+                });
+              } catch (error) {
+                throw new Error(
+                  `Failed to add dependencies: ${dyadAddDependencyPackages.join(", ")}: ${error}`,
+                );
+              }
+            }
+          : undefined,
+    });
+
+    if (applyResult.status !== "committed") {
+      // Nothing else runs against an app whose files could not be updated,
+      // and the proposal isn't offered again
+      await db
+        .update(messages)
+        .set({ approvalState: "rejected" })
+        .where(eq(messages.id, messageId));
+      return {
+        error:
+          applyResult.status === "rejected"
+            ? `Changes were not applied: ${applyResult.error}`
+            : `Changes were rolled back: ${applyResult.error}`,
+      };
+    }
+
+    writtenFiles.push(...applyResult.writtenFiles);
+    if (dyadAddDependencyPackages.length > 0) {
+      for (const filename of dependencyFiles) {
+        if (fs.existsSync(safeJoin(appPath, filename))) {
+          writtenFiles.push(filename);
+        }
+      }
+    }
+
+    // Snapshots let versions be compared by their database schema. They
+    // aren't needed to apply the response, so failing to take one only
+    // gets logged.
+    const storeSupabaseSchema = async () => {
+      try {
+        await storeSupabaseSchemaAtCurrentVersion({
+          appId: chatWithApp.app.id,
+          appPath,
+          supabaseProjectId: chatWithApp.app.supabaseProjectId!,
+        });
+      } catch (error) {
+        logger.warn("Could not store Supabase schema snapshot:", error);
+      }
+    };
+
     // Handle SQL execution tags
-    if (dyadExecuteSqlQueries.length > 0) {
+    if (dyadExecuteSqlQueries.length > 0 && localDbProvider) {
       for (const query of dyadExecuteSqlQueries) {
         try {
-          await executeSupabaseSql({
-            supabaseProjectId: chatWithApp.app.supabaseProjectId!,
+          await executeLocalDbSql({
+            appId: chatWithApp.app.id,
             query: query.content,
           });
-
-          // Only write migration file if SQL execution succeeded
-          if (settings.enableSupabaseWriteSqlMigration) {
-            try {
-              const migrationFilePath = await writeMigrationFile(
-                appPath,
-                query.content,
-                query.description,
-              );
-              writtenFiles.push(migrationFilePath);
-            } catch (error) {
-              errors.push({
-                message: `Failed to write SQL migration file for: ${query.description}`,
-                error: error,
-              });
-            }
-          }
         } catch (error) {
           errors.push({
             message: `Failed to execute SQL query: ${query.content}`,
@@ -214,323 +339,135 @@ export async function processFullResponseActions(
           });
         }
       }
-      logger.log(`Executed ${dyadExecuteSqlQueries.length} SQL queries`);
-     }
-
-    // Handle backend terminal command tags
-    if (dyadRunBackendTerminalCmdTags.length > 0) {
-      for (const cmdTag of dyadRunBackendTerminalCmdTags) {
+      logger.log(
+        `Executed ${dyadExecuteSqlQueries.length} SQL queries on the local ${localDbProvider} database`,
+      );
+    } else if (dyadExecuteSqlQueries.length > 0) {
+      // The schema before the queries belongs to the version they start from
+      await storeSupabaseSchema();
+      for (const query of dyadExecuteSqlQueries) {
         try {
-          const backendPath = path.join(appPath, "backend");
-          // Ensure backend directory exists
-          if (!fs.existsSync(backendPath)) {
-            fs.mkdirSync(backendPath, { recursive: true });
-            logger.log(`Created backend directory: ${backendPath} for backend terminal command`);
-          }
-          const cwd = cmdTag.cwd ? path.join(backendPath, cmdTag.cwd) : backendPath;
-
-          logger.log(`Executing backend terminal command: ${cmdTag.command} in ${cwd}`);
-
-          // Add command to backend terminal output
-          // We need to import and use the backendTerminalOutputAtom
-          // For now, we'll use a more direct approach by sending IPC messages to update the UI
-
-          const result = await runShellCommand(cmdTag.command, cwd);
-
-          if (result === null) {
-            errors.push({
-              message: `Backend terminal command failed: ${cmdTag.description || cmdTag.command}`,
-              error: `Command execution failed in ${cwd}`,
-            });
-            // Add error to main terminal
-            addTerminalOutput(chatWithApp.app.id, "backend", `❌ Error: ${cmdTag.description || cmdTag.command}`, "error");
-          } else {
-            logger.log(`Backend terminal command succeeded: ${cmdTag.description || cmdTag.command}`);
-
-            // Add command and result to main terminal
-            addTerminalOutput(chatWithApp.app.id, "backend", `$ ${cmdTag.command}`, "command");
-
-            if (result.trim()) {
-              addTerminalOutput(chatWithApp.app.id, "backend", result, "output");
-            }
-
-            addTerminalOutput(chatWithApp.app.id, "backend", `✅ ${cmdTag.description || cmdTag.command} completed successfully`, "success");
-          }
-        } catch (error) {
-          errors.push({
-            message: `Backend terminal command failed: ${cmdTag.description || cmdTag.command}`,
-            error: error,
+          await executeSupabaseSql({
+            supabaseProjectId: chatWithApp.app.supabaseProjectId!,
+            query: query.content,
           });
-          // Add error to backend terminal
-          addTerminalOutput(chatWithApp.app.id, "backend", `❌ Error: ${error}`, "error");
-        }
-      }
-      logger.log(`Executed ${dyadRunBackendTerminalCmdTags.length} backend terminal commands`);
-     }
-
-    // Handle frontend terminal command tags
-    if (dyadRunFrontendTerminalCmdTags.length > 0) {
-      for (const cmdTag of dyadRunFrontendTerminalCmdTags) {
-        try {
-          const frontendPath = path.join(appPath, "frontend");
-          const cwd = cmdTag.cwd ? path.join(frontendPath, cmdTag.cwd) : frontendPath;
 
-          logger.log(`Executing frontend terminal command: ${cmdTag.command} in ${cwd}`);
-
-          const result = await runShellCommand(cmdTag.command, cwd);
-
-          if (result === null) {
+          // Only write migration file if SQL execution succeeded, so
+          // reverting a version can undo exactly what ran
+          try {
+            writtenFiles.push(
+              ...(await writeMigrationFile(
+                appPath,
+                query.content,
+                query.description,
+              )),
+            );
+          } catch (error) {
             errors.push({
-              message: `Frontend terminal command failed: ${cmdTag.description || cmdTag.command}`,
-              error: `Command execution failed in ${cwd}`,
+              message: `Failed to write SQL migration file for: ${query.description}`,
+              error: error,
             });
-            // Add error to frontend terminal
-            addTerminalOutput(chatWithApp.app.id, "frontend", `❌ Error: ${cmdTag.description || cmdTag.command}`, "error");
-          } else {
-            logger.log(`Frontend terminal command succeeded: ${cmdTag.description || cmdTag.command}`);
-
-            // Add command and result to frontend terminal
-            addTerminalOutput(chatWithApp.app.id, "frontend", `$ ${cmdTag.command}`, "command");
-
-            if (result.trim()) {
-              addTerminalOutput(chatWithApp.app.id, "frontend", result, "output");
-            }
-
-            addTerminalOutput(chatWithApp.app.id, "frontend", `✅ ${cmdTag.description || cmdTag.command} completed successfully`, "success");
           }
         } catch (error) {
           errors.push({
-            message: `Frontend terminal command failed: ${cmdTag.description || cmdTag.command}`,
+            message: `Failed to execute SQL query: ${query.content}`,
             error: error,
           });
-          // Add error to frontend terminal
-          addTerminalOutput(chatWithApp.app.id, "frontend", `❌ Error: ${error}`, "error");
         }
       }
-      logger.log(`Executed ${dyadRunFrontendTerminalCmdTags.length} frontend terminal commands`);
+      logger.log(`Executed ${dyadExecuteSqlQueries.length} SQL queries`);
      }
 
-     // Handle general terminal command tags - route based on chat mode
-     if (dyadRunTerminalCmdTags.length > 0) {
-       for (const cmdTag of dyadRunTerminalCmdTags) {
-         // Clean up the command - remove any "cmd:" prefix that AI might add
-         let cleanCommand = cmdTag.command.trim();
-         if (cleanCommand.startsWith("cmd:")) {
-           cleanCommand = cleanCommand.substring(4).trim();
-         }
-         if (cleanCommand.startsWith("command:")) {
-           cleanCommand = cleanCommand.substring(8).trim();
-         }
-
-         try {
-
-           // Determine which terminal to route to based on chat mode
-           let terminalType: "frontend" | "backend" = "backend"; // default
-           let cwd = cmdTag.cwd ? path.join(appPath, cmdTag.cwd) : appPath;
-
-           // Check if this is a Python command - always route to backend
-           const isPythonCommand = cleanCommand.toLowerCase().includes("python") ||
-                                  cleanCommand.toLowerCase().includes("pip") ||
-                                  cleanCommand.toLowerCase().includes("conda") ||
-                                  cleanCommand.toLowerCase().includes("venv") ||
-                                  cleanCommand.toLowerCase().includes("py ");
-
-           // Check if this is a Node.js command - always route to frontend
-           const isNodeCommand = cleanCommand.toLowerCase().includes("npm") ||
-                                cleanCommand.toLowerCase().includes("yarn") ||
-                                cleanCommand.toLowerCase().includes("pnpm") ||
-                                cleanCommand.toLowerCase().includes("node") ||
-                                cleanCommand.toLowerCase().includes("npx") ||
-                                cleanCommand.toLowerCase().includes("vite") ||
-                                cleanCommand.toLowerCase().includes("next") ||
-                                cleanCommand.toLowerCase().includes("react") ||
-                                cleanCommand.toLowerCase().includes("webpack");
-
-           if (isPythonCommand) {
-             terminalType = "backend";
-             if (!cmdTag.cwd) {
-               cwd = path.join(appPath, "backend");
-               // Ensure backend directory exists for Python commands
-               if (!fs.existsSync(cwd)) {
-                 fs.mkdirSync(cwd, { recursive: true });
-                 logger.log(`Created backend directory: ${cwd} for Python command execution`);
-               }
-               // Strip backend/ prefix from command if present
-               if (cleanCommand.startsWith("backend/")) {
-                 cleanCommand = cleanCommand.substring(8).trim();
-               }
-             }
-           } else if (isNodeCommand) {
-             terminalType = "frontend";
-             if (!cmdTag.cwd) {
-               cwd = path.join(appPath, "frontend");
-               // Ensure frontend directory exists for Node.js commands
-               if (!fs.existsSync(cwd)) {
-                 fs.mkdirSync(cwd, { recursive: true });
-                 logger.log(`Created frontend directory: ${cwd} for Node.js command execution`);
-               }
-               // Strip frontend/ prefix from command if present
-               if (cleanCommand.startsWith("frontend/")) {
-                 cleanCommand = cleanCommand.substring(9).trim();
-               }
-             }
-           } else if (chatMode === "ask") {
-             // For ask mode, route to frontend terminal (most common for general commands)
-             terminalType = "frontend";
-             if (!cmdTag.cwd) {
-               cwd = path.join(appPath, "frontend");
-             }
-           } else if (chatMode === "backend") {
-             terminalType = "backend";
-             // For backend mode, adjust cwd to backend directory if not already specified
-             if (!cmdTag.cwd) {
-               cwd = path.join(appPath, "backend");
-               // Strip backend/ prefix from command if present
-               if (cleanCommand.startsWith("backend/")) {
-                 cleanCommand = cleanCommand.substring(8).trim();
-               }
-             }
-           } else if (chatMode === "fullstack") {
-             // For fullstack mode, check for Node.js commands first, then default to backend
-             if (isNodeCommand) {
-               terminalType = "frontend";
-               if (!cmdTag.cwd) {
-                 cwd = path.join(appPath, "frontend");
-                 // Strip frontend/ prefix from command if present
-                 if (cleanCommand.startsWith("frontend/")) {
-                   cleanCommand = cleanCommand.substring(9).trim();
-                 }
-               }
-             } else {
-               terminalType = "backend";
-               if (!cmdTag.cwd) {
-                 cwd = path.join(appPath, "backend");
-                 // Ensure backend directory exists for backend commands
-                 if (!fs.existsSync(cwd)) {
-                   fs.mkdirSync(cwd, { recursive: true });
-                   logger.log(`Created backend directory: ${cwd} for terminal command execution`);
-                 }
-                 // Strip backend/ prefix from command if present
-                 if (cleanCommand.startsWith("backend/")) {
-                   cleanCommand = cleanCommand.substring(8).trim();
-                 }
-               }
-             }
-           }
-
-           logger.log(`Executing general terminal command: ${cleanCommand} in ${cwd} (routing to ${terminalType} terminal)`);
-
-           const result = await runShellCommand(cleanCommand, cwd);
-
-           if (result === null) {
-             errors.push({
-               message: `Terminal command failed: ${cmdTag.description || cleanCommand}`,
-               error: `Command execution failed in ${cwd}`,
-             });
-             // Add error to appropriate terminal
-             addTerminalOutput(chatWithApp.app.id, terminalType, `❌ Error: ${cmdTag.description || cleanCommand}`, "error");
-           } else {
-             logger.log(`Terminal command succeeded: ${cmdTag.description || cleanCommand}`);
-
-             // Add command and result to appropriate terminal
-             addTerminalOutput(chatWithApp.app.id, terminalType, `$ ${cleanCommand}`, "command");
-
-             if (result.trim()) {
-               addTerminalOutput(chatWithApp.app.id, terminalType, result, "output");
-             }
-
-             addTerminalOutput(chatWithApp.app.id, terminalType, `✅ ${cmdTag.description || cleanCommand} completed successfully`, "success");
-           }
-         } catch (error) {
-           errors.push({
-             message: `Terminal command failed: ${cmdTag.description || cleanCommand}`,
-             error: error,
-           });
-           // Add error to appropriate terminal (default to backend for errors)
-           addTerminalOutput(chatWithApp.app.id, "backend", `❌ Error: ${error}`, "error");
-         }
-       }
-       logger.log(`Executed ${dyadRunTerminalCmdTags.length} general terminal commands`);
-      }
-
-    // Handle add dependency tags
-    if (dyadAddDependencyPackages.length > 0) {
-      try {
-        await executeAddDependency({
-          packages: dyadAddDependencyPackages,
-          message: message,
-          appPath,
-        });
-        // Only mark files as written if installation succeeded
-        writtenFiles.push("package.json");
-        const pnpmFilename = "pnpm-lock.yaml";
-        if (fs.existsSync(safeJoin(appPath, pnpmFilename))) {
-          writtenFiles.push(pnpmFilename);
-        }
-        const packageLockFilename = "package-lock.json";
-        if (fs.existsSync(safeJoin(appPath, packageLockFilename))) {
-          writtenFiles.push(packageLockFilename);
-        }
-      } catch (error) {
+    // Run terminal commands once the files they may depend on are in place
+    if (terminalCommands.length > 0) {
+      const commandFailures = await runTerminalCommands({
+        commands: terminalCommands,
+        approvedCommandIds,
+        appId: chatWithApp.app.id,
+        appPath,
+        chatId,
+        messageId,
+      });
+      for (const { command, error } of commandFailures) {
         errors.push({
-          message: `Failed to add dependencies: ${dyadAddDependencyPackages.join(
-            ", ",
-          )}`,
-          error: error,
-        });
-        // Don't mark package files as written if installation failed
-        warnings.push({
-          message: "Package installation failed - package.json and lock files not committed",
-          error: null,
+          message: `Terminal command failed: ${command.description || command.command}`,
+          error,
         });
       }
+      logger.log(`Processed ${terminalCommands.length} terminal commands`);
     }
 
-    //////////////////////
-    // File operations //
-    // Do it in this order:
-    // 1. Deletes
-    // 2. Renames
-    // 3. Writes
-    //
-    // Why?
-    // - Deleting first avoids path conflicts before the other operations.
-    // - LLMs like to rename and then edit the same file.
-    //////////////////////
-
-    // Process file deletions one by one
-    for (const filePath of dyadDeletePaths) {
-      const fullFilePath = safeJoin(appPath, filePath);
+    const renamedFiles = applyResult.renamedFiles;
+    const deletedFiles = applyResult.deletedFiles;
+    hasChanges =
+      writtenFiles.length > 0 ||
+      renamedFiles.length > 0 ||
+      deletedFiles.length > 0;
 
-      try {
-        // Delete the file if it exists
-        if (fs.existsSync(fullFilePath)) {
-          if (fs.lstatSync(fullFilePath).isDirectory()) {
-            fs.rmdirSync(fullFilePath, { recursive: true });
-          } else {
-            fs.unlinkSync(fullFilePath);
+    const uncommittedFiles: string[] = [];
+    let extraFilesError: string | undefined;
+
+    if (hasChanges) {
+      // Commit everything the response changed in one go, so the message
+      // maps to exactly one version of the app
+      const commitHash = await safeGitOperation(async () => {
+        for (const filePath of [
+          ...writtenFiles,
+          ...renamedFiles.map((file) => file.to),
+        ]) {
+          await git.add({ fs, dir: appPath, filepath: filePath });
+        }
+        for (const filePath of [
+          ...renamedFiles.map((file) => file.from),
+          ...deletedFiles,
+        ]) {
+          try {
+            await git.remove({ fs, dir: appPath, filepath: filePath });
+          } catch (removeError) {
+            logger.warn(`Failed to git remove ${filePath}:`, removeError);
           }
-          logger.log(`Successfully deleted file: ${fullFilePath}`);
-          deletedFiles.push(filePath);
-
-          // Remove the file from git and commit immediately
-          const commitResult = await safeGitOperation(async () => {
-            await git.remove({
-              fs,
-              dir: appPath,
-              filepath: filePath,
-            });
-            const commitHash = await gitCommit({
-              path: appPath,
-              message: `[alifullstack] Deleted file: ${filePath}`,
-            });
-            logger.log(`Committed file deletion: ${filePath} with hash ${commitHash}`);
-            return commitHash;
-          }, "File deletion commit", filePath);
-        } else {
-          logger.warn(`File to delete does not exist: ${fullFilePath}`);
         }
 
+        const changes = [];
+        if (writtenFiles.length > 0)
+          changes.push(`wrote ${writtenFiles.length} file(s)`);
+        if (renamedFiles.length > 0)
+          changes.push(`renamed ${renamedFiles.length} file(s)`);
+        if (deletedFiles.length > 0)
+          changes.push(`deleted ${deletedFiles.length} file(s)`);
+        if (dyadAddDependencyPackages.length > 0)
+          changes.push(
+            `added ${dyadAddDependencyPackages.join(", ")} package(s)`,
+          );
+        if (dyadExecuteSqlQueries.length > 0)
+          changes.push(`executed ${dyadExecuteSqlQueries.length} SQL queries`);
+
+        const commitMessage = chatSummary
+          ? `[alifullstack] ${chatSummary} - ${changes.join(", ")}`
+          : `[alifullstack] ${changes.join(", ")}`;
+        return gitCommit({ path: appPath, message: commitMessage });
+      }, "Commit");
+
+      if (commitHash) {
+        logger.log(`Committed changes with hash ${commitHash}`);
+        await db
+          .update(messages)
+          .set({
+            commitHash: commitHash,
+          })
+          .where(eq(messages.id, messageId));
+      }
+      if (
+        commitHash &&
+        dyadExecuteSqlQueries.length > 0 &&
+        !localDbProvider
+      ) {
+        await storeSupabaseSchema();
+      }
+
+      // Supabase functions are only deployed once the files they come from
+      // are committed
+      for (const filePath of deletedFiles) {
         if (isServerFunction(filePath)) {
           try {
             await deleteSupabaseFunction({
@@ -544,381 +481,32 @@ export async function processFullResponseActions(
             });
           }
         }
-      } catch (error) {
-        errors.push({
-          message: `Failed to delete file: ${filePath}`,
-          error: error,
-        });
       }
-    }
-
-    // Process file renames one by one
-    for (const tag of dyadRenameTags) {
-      try {
-        const fromPath = safeJoin(appPath, tag.from);
-        const toPath = safeJoin(appPath, tag.to);
-
-        // Ensure target directory exists
-        const dirPath = path.dirname(toPath);
-        fs.mkdirSync(dirPath, { recursive: true });
-
-        // Rename the file
-        if (fs.existsSync(fromPath)) {
-          fs.renameSync(fromPath, toPath);
-          logger.log(`Successfully renamed file: ${fromPath} -> ${toPath}`);
-          renamedFiles.push(tag.to);
-
-          // Add the new file, remove the old one, and commit immediately
-          const renameCommitResult = await safeGitOperation(async () => {
-            await git.add({
-              fs,
-              dir: appPath,
-              filepath: tag.to,
-            });
-            try {
-              await git.remove({
-                fs,
-                dir: appPath,
-                filepath: tag.from,
-              });
-            } catch (removeError) {
-              logger.warn(`Failed to git remove old file ${tag.from}:`, removeError);
-            }
-            const commitHash = await gitCommit({
-              path: appPath,
-              message: `[alifullstack] Renamed file: ${tag.from} -> ${tag.to}`,
-            });
-            logger.log(`Committed file rename: ${tag.from} -> ${tag.to} with hash ${commitHash}`);
-            return commitHash;
-          }, "File rename commit", `${tag.from} -> ${tag.to}`);
-        } else {
-          logger.warn(`Source file for rename does not exist: ${fromPath}`);
-        }
-
-        // Handle Supabase functions
-        if (isServerFunction(tag.from)) {
+      for (const { from } of renamedFiles) {
+        if (isServerFunction(from)) {
           await safeGitOperation(async () => {
             await deleteSupabaseFunction({
               supabaseProjectId: chatWithApp.app.supabaseProjectId!,
-              functionName: getFunctionNameFromPath(tag.from),
+              functionName: getFunctionNameFromPath(from),
             });
-          }, "Supabase function deletion", tag.from);
+          }, "Supabase function deletion", from);
         }
-        if (isServerFunction(tag.to)) {
-          await safeGitOperation(async () => {
-            await deploySupabaseFunctions({
-              supabaseProjectId: chatWithApp.app.supabaseProjectId!,
-              functionName: getFunctionNameFromPath(tag.to),
-              content: await readFileFromFunctionPath(toPath),
-            });
-          }, "Supabase function deployment", tag.to);
-        }
-      } catch (error) {
-        errors.push({
-          message: `Failed to rename file: ${tag.from} -> ${tag.to}`,
-          error: error,
-        });
       }
-    }
-
-    // Only remove terminal command tags that don't need UI rendering
-    // Keep dyad-write, dyad-rename, dyad-delete, dyad-add-dependency, dyad-execute-sql, write_to_file, and search_replace tags
-    // as they are rendered by the DyadMarkdownParser as interactive UI components
-    const terminalTagRemovalRegexes = [
-      /<dyad-run-backend-terminal-cmd[^>]*>[\s\S]*?<\/dyad-run-backend-terminal-cmd>/gi,
-      /<dyad-run-frontend-terminal-cmd[^>]*>[\s\S]*?<\/dyad-run-frontend-terminal-cmd>/gi,
-      /<run_terminal_cmd[^>]*>[\s\S]*?<\/run_terminal_cmd>/gi
-    ];
-
-    for (const regex of terminalTagRemovalRegexes) {
-      fullResponse = fullResponse.replace(regex, '');
-    }
-
-    // Process all dyad-write tags one by one
-    for (const tag of dyadWriteTags) {
-      const filePath = tag.path;
-      let content: string | Buffer = tag.content;
-      const fullFilePath = safeJoin(appPath, filePath);
-
-      try {
-        // Check if this is a search_replace operation
-        if (typeof content === "string" && content.startsWith("SEARCH_REPLACE:")) {
-          // Handle search_replace operation
-          const parts = content.split(":");
-          if (parts.length >= 3) {
-            const oldString = parts[1];
-            const newString = parts.slice(2).join(":");
-
-            if (fs.existsSync(fullFilePath)) {
-              let fileContent = fs.readFileSync(fullFilePath, 'utf8');
-
-              if (fileContent.includes(oldString)) {
-                fileContent = fileContent.replace(oldString, newString);
-                fs.writeFileSync(fullFilePath, fileContent);
-                logger.log(`Successfully applied search_replace to file: ${fullFilePath}`);
-                writtenFiles.push(filePath);
-
-                // Commit immediately
-                await safeGitOperation(async () => {
-                  await git.add({
-                    fs,
-                    dir: appPath,
-                    filepath: filePath,
-                  });
-                  const commitHash = await gitCommit({
-                    path: appPath,
-                    message: `[alifullstack] Applied search_replace to: ${filePath}`,
-                  });
-                  logger.log(`Committed search_replace operation: ${filePath} with hash ${commitHash}`);
-                  return commitHash;
-                }, "Search replace commit", filePath);
-              } else {
-                logger.warn(`Old string not found in file for search_replace: ${fullFilePath}`);
-                warnings.push({
-                  message: `Search string not found in file: ${filePath}`,
-                  error: null,
-                });
-              }
-            } else {
-              logger.warn(`File not found for search_replace: ${fullFilePath}`);
-              warnings.push({
-                message: `File not found for search_replace: ${filePath}`,
-                error: null,
-              });
-            }
-          }
-        } else {
-          // Handle regular file write
-          // Check if content (stripped of whitespace) exactly matches a file ID and replace with actual file content
-          if (fileUploadsMap) {
-            const trimmedContent = tag.content.trim();
-            const fileInfo = fileUploadsMap.get(trimmedContent);
-            if (fileInfo) {
-              try {
-                const fileContent = await readFile(fileInfo.filePath);
-                content = fileContent;
-                logger.log(
-                  `Replaced file ID ${trimmedContent} with content from ${fileInfo.originalName}`,
-                );
-              } catch (error) {
-                logger.error(
-                  `Failed to read uploaded file ${fileInfo.originalName}:`,
-                  error,
-                );
-                errors.push({
-                  message: `Failed to read uploaded file: ${fileInfo.originalName}`,
-                  error: error,
-                });
-              }
-            }
-          }
-
-          // Ensure directory exists
-          const dirPath = path.dirname(fullFilePath);
-          fs.mkdirSync(dirPath, { recursive: true });
-
-          // Write file content
-          fs.writeFileSync(fullFilePath, content);
-          logger.log(`Successfully wrote file: ${fullFilePath}`);
-          writtenFiles.push(filePath);
-
-          // Handle Supabase function deployment
-          if (isServerFunction(filePath)) {
-            const contentString = typeof content === "string" ? content : content.toString();
-            await safeGitOperation(async () => {
-              await deploySupabaseFunctions({
-                supabaseProjectId: chatWithApp.app.supabaseProjectId!,
-                functionName: path.basename(path.dirname(filePath)),
-                content: contentString,
-              });
-            }, "Supabase function deployment", filePath);
-          }
-
-          // Commit immediately
-          await safeGitOperation(async () => {
-            await git.add({
-              fs,
-              dir: appPath,
-              filepath: filePath,
-            });
-            const commitHash = await gitCommit({
-              path: appPath,
-              message: `[alifullstack] Wrote file: ${filePath}`,
-            });
-            logger.log(`Committed file write: ${filePath} with hash ${commitHash}`);
-            return commitHash;
-          }, "File write commit", filePath);
-        }
-      } catch (error) {
-        errors.push({
-          message: `Failed to write file: ${filePath}`,
-          error: error,
-        });
-      }
-    }
-
-    // Process write_to_file tags one by one
-    for (const tag of writeToFileTags) {
-      const filePath = tag.path;
-      let content: string | Buffer = tag.content;
-      const fullFilePath = safeJoin(appPath, filePath);
-
-      try {
-        // Check if content (stripped of whitespace) exactly matches a file ID and replace with actual file content
-        if (fileUploadsMap) {
-          const trimmedContent = tag.content.trim();
-          const fileInfo = fileUploadsMap.get(trimmedContent);
-          if (fileInfo) {
-            try {
-              const fileContent = await readFile(fileInfo.filePath);
-              content = fileContent;
-              logger.log(
-                `Replaced file ID ${trimmedContent} with content from ${fileInfo.originalName}`,
-              );
-            } catch (error) {
-              logger.error(
-                `Failed to read uploaded file ${fileInfo.originalName}:`,
-                error,
-              );
-              errors.push({
-                message: `Failed to read uploaded file: ${fileInfo.originalName}`,
-                error: error,
-              });
-            }
-          }
-        }
-
-        // Ensure directory exists
-        const dirPath = path.dirname(fullFilePath);
-        fs.mkdirSync(dirPath, { recursive: true });
-
-        // Write file content
-        fs.writeFileSync(fullFilePath, content);
-        logger.log(`Successfully wrote file via write_to_file tag: ${fullFilePath}`);
-        writtenFiles.push(filePath);
-
-        // Handle Supabase function deployment
+      for (const filePath of [
+        ...renamedFiles.map((file) => file.to),
+        ...applyResult.writtenFiles,
+      ]) {
         if (isServerFunction(filePath)) {
-          const contentString = typeof content === "string" ? content : content.toString();
           await safeGitOperation(async () => {
             await deploySupabaseFunctions({
               supabaseProjectId: chatWithApp.app.supabaseProjectId!,
-              functionName: path.basename(path.dirname(filePath)),
-              content: contentString,
+              functionName: getFunctionNameFromPath(filePath),
+              content: await readFileFromFunctionPath(
+                safeJoin(appPath, filePath),
+              ),
             });
           }, "Supabase function deployment", filePath);
         }
-
-        // Commit immediately
-        await safeGitOperation(async () => {
-          await git.add({
-            fs,
-            dir: appPath,
-            filepath: filePath,
-          });
-          const commitHash = await gitCommit({
-            path: appPath,
-            message: `[alifullstack] Wrote file via write_to_file tag: ${filePath}`,
-          });
-          logger.log(`Committed write_to_file tag: ${filePath} with hash ${commitHash}`);
-          return commitHash;
-        }, "Write to file commit", filePath);
-      } catch (error) {
-        errors.push({
-          message: `Failed to write file via write_to_file tag: ${filePath}`,
-          error: error,
-        });
-      }
-    }
-
-    // Process search_replace tags one by one
-    for (const tag of searchReplaceTags) {
-      const filePath = tag.file;
-      const fullFilePath = safeJoin(appPath, filePath);
-
-      try {
-        if (fs.existsSync(fullFilePath)) {
-          let fileContent = fs.readFileSync(fullFilePath, 'utf8');
-
-          // Replace old_string with new_string
-          const oldString = tag.old_string.replace(/"/g, '"').replace(/</g, '<').replace(/>/g, '>').replace(/&/g, '&');
-          const newString = tag.new_string.replace(/"/g, '"').replace(/</g, '<').replace(/>/g, '>').replace(/&/g, '&');
-
-          if (fileContent.includes(oldString)) {
-            fileContent = fileContent.replace(oldString, newString);
-            fs.writeFileSync(fullFilePath, fileContent);
-            logger.log(`Successfully applied search_replace to file: ${fullFilePath}`);
-            writtenFiles.push(filePath);
-
-            // Commit immediately
-            await safeGitOperation(async () => {
-              await git.add({
-                fs,
-                dir: appPath,
-                filepath: filePath,
-              });
-              const commitHash = await gitCommit({
-                path: appPath,
-                message: `[alifullstack] Applied search_replace to: ${filePath}`,
-              });
-              logger.log(`Committed search_replace: ${filePath} with hash ${commitHash}`);
-              return commitHash;
-            }, "Search replace commit", filePath);
-          } else {
-            logger.warn(`Old string not found in file for search_replace: ${fullFilePath}`);
-            warnings.push({
-              message: `Search string not found in file: ${filePath}`,
-              error: null,
-            });
-          }
-        } else {
-          logger.warn(`File not found for search_replace: ${fullFilePath}`);
-          warnings.push({
-            message: `File not found for search_replace: ${filePath}`,
-            error: null,
-          });
-        }
-      } catch (error) {
-        logger.error(`Failed to apply search_replace to file: ${fullFilePath}`, error);
-        errors.push({
-          message: `Failed to apply search_replace to file: ${filePath}`,
-          error: error,
-        });
-      }
-    }
-
-    // Check if we have any changes (for file dependencies handling)
-    hasChanges =
-      writtenFiles.length > 0 ||
-      renamedFiles.length > 0 ||
-      deletedFiles.length > 0 ||
-      dyadAddDependencyPackages.length > 0 ||
-      writeToFileTags.length > 0 ||
-      searchReplaceTags.length > 0;
-
-    const uncommittedFiles: string[] = [];
-    let extraFilesError: string | undefined;
-
-    if (hasChanges) {
-      // Get the last commit hash from git log to save to the message
-      try {
-        const lastCommitHash = await git.log({
-          fs,
-          dir: appPath,
-          depth: 1,
-        });
-        const commitHash = lastCommitHash?.[0]?.oid;
-
-        if (commitHash) {
-          await db
-            .update(messages)
-            .set({
-              commitHash: commitHash,
-            })
-            .where(eq(messages.id, messageId));
-        }
-      } catch (error) {
-        logger.warn("Failed to get last commit hash:", error);
       }
     }
     logger.log("mark as approved: hasChanges", hasChanges);
@@ -956,8 +544,14 @@ export async function processFullResponseActions(
     const safeWarnings = warnings || [];
     const safeErrors = errors || [];
 
-    // Create file operation confirmation messages - only for warnings/errors
+    // Report the outcome of every file operation, unless there were none
     const fileOperationConfirmations: string[] = [];
+    if (
+      applyResult &&
+      (applyResult.results.length > 0 || applyResult.status !== "committed")
+    ) {
+      fileOperationConfirmations.push(formatApplyReport(applyResult));
+    }
 
     const appendedContent = `
     ${safeWarnings
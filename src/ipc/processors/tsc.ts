@@ -3,22 +3,86 @@ import { Worker } from "node:worker_threads";
 
 import { ProblemReport } from "../ipc_types";
 import log from "electron-log";
-import { WorkerInput, WorkerOutput } from "../../../shared/tsc_types";
+import {
+  VirtualChanges,
+  WorkerInput,
+  WorkerOutput,
+} from "../../../shared/tsc_types";
 
 import {
+  DyadResponse,
   getDyadDeleteTags,
   getDyadRenameTags,
   getDyadWriteTags,
+  getSearchReplaceTags,
+  toDyadDocument,
 } from "../utils/dyad_tag_parser";
 import { getTypeScriptCachePath } from "@/paths/paths";
+import { generatePythonProblemReport } from "./python";
+import { generateLintProblemReport } from "./eslint";
 
 const logger = log.scope("tsc");
 
+/**
+ * Check the app as it would be after applying `fullResponse`: TypeScript
+ * through the tsc worker, the Python backend if there is one, and ESLint.
+ */
 export async function generateProblemReport({
   fullResponse,
   appPath,
 }: {
-  fullResponse: string;
+  fullResponse: DyadResponse;
+  appPath: string;
+}): Promise<ProblemReport> {
+  const parsedResponse = toDyadDocument(fullResponse);
+  const virtualChanges: VirtualChanges = {
+    deletePaths: getDyadDeleteTags(parsedResponse),
+    renameTags: getDyadRenameTags(parsedResponse),
+    writeTags: getDyadWriteTags(parsedResponse),
+    searchReplaceTags: getSearchReplaceTags(parsedResponse),
+  };
+
+  const [typescript, python, lint] = await Promise.allSettled([
+    runTscWorker({ virtualChanges, appPath }),
+    generatePythonProblemReport({ virtualChanges, appPath }),
+    generateLintProblemReport({ virtualChanges, appPath }),
+  ]);
+
+  if (python.status === "rejected") {
+    logger.error(`Python check failed for app ${appPath}:`, python.reason);
+  }
+  const pythonReport = python.status === "fulfilled" ? python.value : null;
+
+  // A broken or half-installed ESLint setup shouldn't hide the other problems
+  if (lint.status === "rejected") {
+    logger.warn(`Skipping ESLint problems for app ${appPath}:`, lint.reason);
+  }
+  const lintReport = lint.status === "fulfilled" ? lint.value : null;
+
+  if (typescript.status === "rejected") {
+    // Python-only backends have no TypeScript project to check
+    if (!pythonReport && !lintReport) {
+      throw typescript.reason;
+    }
+    logger.warn(
+      `Skipping TypeScript problems for app ${appPath}:`,
+      typescript.reason,
+    );
+  }
+  return {
+    problems: [
+      ...(typescript.status === "fulfilled" ? typescript.value.problems : []),
+      ...(pythonReport?.problems ?? []),
+      ...(lintReport?.problems ?? []),
+    ],
+  };
+}
+
+function runTscWorker({
+  virtualChanges,
+  appPath,
+}: {
+  virtualChanges: VirtualChanges;
   appPath: string;
 }): Promise<ProblemReport> {
   return new Promise((resolve, reject) => {
@@ -58,15 +122,6 @@ export async function generateProblemReport({
       }
     });
 
-    const writeTags = getDyadWriteTags(fullResponse);
-    const renameTags = getDyadRenameTags(fullResponse);
-    const deletePaths = getDyadDeleteTags(fullResponse);
-    const virtualChanges = {
-      deletePaths,
-      renameTags,
-      writeTags,
-    };
-
     // Send input to worker
     const input: WorkerInput = {
       virtualChanges,
@@ -15,6 +15,9 @@ export interface ModelOption {
   tag?: string;
   maxOutputTokens?: number;
   contextWindow?: number;
+  // USD per million tokens, used to compute the cost of each response
+  inputCostPerMillionTokens?: number;
+  outputCostPerMillionTokens?: number;
 }
 
 export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
@@ -30,6 +33,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       // Requires temperature to be default value (1)
       temperature: 1,
       dollarSigns: 3,
+      inputCostPerMillionTokens: 1.25,
+      outputCostPerMillionTokens: 10,
     },
     // https://platform.openai.com/docs/models/gpt-5-mini
     {
@@ -42,6 +47,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       // Requires temperature to be default value (1)
       temperature: 1,
       dollarSigns: 2,
+      inputCostPerMillionTokens: 0.25,
+      outputCostPerMillionTokens: 2,
     },
     // https://platform.openai.com/docs/models/gpt-5-nano
     {
@@ -54,6 +61,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       // Requires temperature to be default value (1)
       temperature: 1,
       dollarSigns: 1,
+      inputCostPerMillionTokens: 0.05,
+      outputCostPerMillionTokens: 0.4,
     },
     // https://platform.openai.com/docs/models/o4-mini
     {
@@ -67,6 +76,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       contextWindow: 200_000,
       temperature: 0,
       dollarSigns: 2,
+      inputCostPerMillionTokens: 1.1,
+      outputCostPerMillionTokens: 4.4,
     },
   ],
   // https://docs.anthropic.com/en/docs/about-claude/models/all-models#model-comparison-table
@@ -80,6 +91,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       contextWindow: 1_000_000,
       temperature: 0,
       dollarSigns: 5,
+      inputCostPerMillionTokens: 3,
+      outputCostPerMillionTokens: 15,
     },
     {
       name: "claude-3-7-sonnet-latest",
@@ -93,6 +106,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       contextWindow: 200_000,
       temperature: 0,
       dollarSigns: 4,
+      inputCostPerMillionTokens: 3,
+      outputCostPerMillionTokens: 15,
     },
     {
       name: "claude-3-5-sonnet-20241022",
@@ -102,6 +117,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       contextWindow: 200_000,
       temperature: 0,
       dollarSigns: 4,
+      inputCostPerMillionTokens: 3,
+      outputCostPerMillionTokens: 15,
     },
     {
       name: "claude-3-5-haiku-20241022",
@@ -111,6 +128,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       contextWindow: 200_000,
       temperature: 0,
       dollarSigns: 2,
+      inputCostPerMillionTokens: 0.8,
+      outputCostPerMillionTokens: 4,
     },
   ],
   google: [
@@ -125,6 +144,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       contextWindow: 1_048_576,
       temperature: 0,
       dollarSigns: 3,
+      inputCostPerMillionTokens: 1.25,
+      outputCostPerMillionTokens: 10,
     },
     // https://ai.google.dev/gemini-api/docs/models#gemini-2.5-flash-preview
     {
@@ -137,6 +158,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       contextWindow: 1_048_576,
       temperature: 0,
       dollarSigns: 2,
+      inputCostPerMillionTokens: 0.3,
+      outputCostPerMillionTokens: 2.5,
     },
   ],
   vertex: [
@@ -148,6 +171,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       maxOutputTokens: 65_536 - 1,
       contextWindow: 1_048_576,
       temperature: 0,
+      inputCostPerMillionTokens: 1.25,
+      outputCostPerMillionTokens: 10,
     },
     // Vertex Gemini 2.5 Flash
     {
@@ -157,6 +182,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       maxOutputTokens: 65_536 - 1,
       contextWindow: 1_048_576,
       temperature: 0,
+      inputCostPerMillionTokens: 0.3,
+      outputCostPerMillionTokens: 2.5,
     },
   ],
   openrouter: [
@@ -168,6 +195,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       contextWindow: 262_000,
       temperature: 0,
       dollarSigns: 0,
+      inputCostPerMillionTokens: 0,
+      outputCostPerMillionTokens: 0,
     },
     // https://openrouter.ai/deepseek/deepseek-chat-v3-0324:free
     {
@@ -178,6 +207,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       contextWindow: 128_000,
       temperature: 0,
       dollarSigns: 0,
+      inputCostPerMillionTokens: 0,
+      outputCostPerMillionTokens: 0,
     },
     {
       name: "deepseek/deepseek-chat-v3-0324:free",
@@ -187,6 +218,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       contextWindow: 128_000,
       temperature: 0,
       dollarSigns: 0,
+      inputCostPerMillionTokens: 0,
+      outputCostPerMillionTokens: 0,
     },
     {
       name: "qwen/qwen3-coder",
@@ -259,6 +292,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       maxOutputTokens: 128_000,
       contextWindow: 400_000,
       temperature: 0,
+      inputCostPerMillionTokens: 1.25,
+      outputCostPerMillionTokens: 10,
     },
     {
       name: "gpt-5-mini",
@@ -267,6 +302,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       maxOutputTokens: 128_000,
       contextWindow: 400_000,
       temperature: 0,
+      inputCostPerMillionTokens: 0.25,
+      outputCostPerMillionTokens: 2,
     },
     {
       name: "gpt-5-nano",
@@ -275,6 +312,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       maxOutputTokens: 128_000,
       contextWindow: 400_000,
       temperature: 0,
+      inputCostPerMillionTokens: 0.05,
+      outputCostPerMillionTokens: 0.4,
     },
     {
       name: "gpt-5-chat",
@@ -295,6 +334,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       contextWindow: 256_000,
       temperature: 0,
       dollarSigns: 1,
+      inputCostPerMillionTokens: 0.2,
+      outputCostPerMillionTokens: 1.5,
     },
     {
       name: "grok-4",
@@ -304,6 +345,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       contextWindow: 256_000,
       temperature: 0,
       dollarSigns: 4,
+      inputCostPerMillionTokens: 3,
+      outputCostPerMillionTokens: 15,
     },
     {
       name: "grok-3",
@@ -313,6 +356,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       contextWindow: 131_072,
       temperature: 0,
       dollarSigns: 4,
+      inputCostPerMillionTokens: 3,
+      outputCostPerMillionTokens: 15,
     },
   ],
   bedrock: [
@@ -323,6 +368,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       maxOutputTokens: 16_000,
       contextWindow: 1_000_000,
       temperature: 0,
+      inputCostPerMillionTokens: 3,
+      outputCostPerMillionTokens: 15,
     },
     {
       name: "us.anthropic.claude-3-7-sonnet-20250219-v1:0",
@@ -331,6 +378,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       maxOutputTokens: 16_000,
       contextWindow: 200_000,
       temperature: 0,
+      inputCostPerMillionTokens: 3,
+      outputCostPerMillionTokens: 15,
     },
     {
       name: "us.anthropic.claude-3-5-sonnet-20241022-v2:0",
@@ -339,6 +388,8 @@ export const MODEL_OPTIONS: Record<string, ModelOption[]> = {
       maxOutputTokens: 8_000,
       contextWindow: 200_000,
       temperature: 0,
+      inputCostPerMillionTokens: 3,
+      outputCostPerMillionTokens: 15,
     },
   ],
   roo: [
@@ -107,6 +107,10 @@ export async function getLanguageModels({
         description: languageModelsSchema.description,
         maxOutputTokens: languageModelsSchema.max_output_tokens,
         contextWindow: languageModelsSchema.context_window,
+        inputCostPerMillionTokens:
+          languageModelsSchema.input_cost_per_million_tokens,
+        outputCostPerMillionTokens:
+          languageModelsSchema.output_cost_per_million_tokens,
       })
       .from(languageModelsSchema)
       .where(
@@ -121,6 +125,8 @@ export async function getLanguageModels({
       tag: undefined,
       maxOutputTokens: model.maxOutputTokens ?? undefined,
       contextWindow: model.contextWindow ?? undefined,
+      inputCostPerMillionTokens: model.inputCostPerMillionTokens ?? undefined,
+      outputCostPerMillionTokens: model.outputCostPerMillionTokens ?? undefined,
       type: "custom",
     }));
   } catch (error) {
@@ -25,7 +25,16 @@ export async function updatePostgresUrlEnvVar({
   connectionUri: string;
 }) {
   // Given the connection uri, update the env var for POSTGRES_URL
-  const envVars = parseEnvFile(await readEnvFile({ appPath }));
+  let envVars: EnvVar[];
+  try {
+    envVars = parseEnvFile(await readEnvFile({ appPath }));
+  } catch (error: any) {
+    // Local databases can be added to apps that don't have the file yet
+    if (error?.code !== "ENOENT") {
+      throw error;
+    }
+    envVars = [];
+  }
 
   // Find existing POSTGRES_URL or add it if it doesn't exist
   const existingVar = envVars.find((envVar) => envVar.key === "POSTGRES_URL");
@@ -0,0 +1,221 @@
+import { stripAnsi } from "../../shared/ansi";
+import type {
+  AppLogEntry,
+  AppLogLevel,
+  AppLogQuery,
+  AppLogRun,
+  AppLogSource,
+} from "../ipc_types";
+
+// Older runs and entries are dropped so a chatty dev server can't grow the
+// store without bound
+const MAX_RUNS_PER_APP = 5;
+const MAX_ENTRIES_PER_RUN = 5000;
+const DEFAULT_QUERY_LIMIT = 1000;
+
+interface AppLogRunState {
+  runId: number;
+  appId: number;
+  startedAt: number;
+  entries: AppLogEntry[];
+  errorCount: number;
+  droppedCount: number;
+}
+
+// Runs of each app, oldest first
+const runsByApp = new Map<number, AppLogRunState[]>();
+const runsById = new Map<number, AppLogRunState>();
+let nextRunId = 1;
+let nextEntryId = 1;
+
+// Also matches names like TypeError or ValueException
+const ERROR_PATTERN =
+  /\b(?:\w*error|\w*exception|traceback|failed|fatal|uncaught|unhandled)\b/i;
+const WARN_PATTERN = /\b(?:warn|warning|deprecated)\b/i;
+// Servers like uvicorn log everything to stderr with an explicit level
+const INFO_PATTERN = /^\s*(?:\[\s*)?(?:info|debug)\b/i;
+
+/**
+ * Level of a line of output. Explicit markers in the line win over the
+ * stream it came from, so warnings on stderr aren't shown as errors and
+ * errors printed to stdout aren't hidden.
+ */
+export function detectLogLevel(
+  text: string,
+  fallback: AppLogLevel,
+): AppLogLevel {
+  if (INFO_PATTERN.test(text)) {
+    return "info";
+  }
+  if (ERROR_PATTERN.test(text)) {
+    return "error";
+  }
+  if (WARN_PATTERN.test(text)) {
+    return "warn";
+  }
+  return fallback;
+}
+
+function toAppLogRun(run: AppLogRunState): AppLogRun {
+  return {
+    runId: run.runId,
+    appId: run.appId,
+    startedAt: run.startedAt,
+    entryCount: run.entries.length,
+    errorCount: run.errorCount,
+    droppedCount: run.droppedCount,
+  };
+}
+
+/**
+ * Start a new run for the app, e.g. when it is started or restarted. Later
+ * output is recorded under this run until the next one starts.
+ */
+export function startAppLogRun(appId: number): number {
+  const run: AppLogRunState = {
+    runId: nextRunId++,
+    appId,
+    startedAt: Date.now(),
+    entries: [],
+    errorCount: 0,
+    droppedCount: 0,
+  };
+  const runs = runsByApp.get(appId) ?? [];
+  runs.push(run);
+  while (runs.length > MAX_RUNS_PER_APP) {
+    runsById.delete(runs.shift()!.runId);
+  }
+  runsByApp.set(appId, runs);
+  runsById.set(run.runId, run);
+  return run.runId;
+}
+
+function getLatestRun(appId: number): AppLogRunState | undefined {
+  const runs = runsByApp.get(appId);
+  return runs?.[runs.length - 1];
+}
+
+/**
+ * Record output of an app, one entry per non-empty line. The level is
+ * detected per line, with `level` used for lines without a marker.
+ */
+export function recordAppLog({
+  appId,
+  source,
+  level,
+  text,
+}: {
+  appId: number;
+  source: AppLogSource;
+  level: AppLogLevel;
+  text: string;
+}): void {
+  const run = getLatestRun(appId) ?? runsById.get(startAppLogRun(appId))!;
+  const timestamp = Date.now();
+
+  for (const line of stripAnsi(text).split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue;
+    }
+    const entry: AppLogEntry = {
+      id: nextEntryId++,
+      appId,
+      runId: run.runId,
+      timestamp,
+      level: detectLogLevel(line, level),
+      source,
+      text: line.trimEnd(),
+    };
+    run.entries.push(entry);
+    if (entry.level === "error") {
+      run.errorCount++;
+    }
+  }
+
+  if (run.entries.length > MAX_ENTRIES_PER_RUN) {
+    const dropped = run.entries.splice(
+      0,
+      run.entries.length - MAX_ENTRIES_PER_RUN,
+    );
+    run.droppedCount += dropped.length;
+    run.errorCount -= dropped.filter((e) => e.level === "error").length;
+  }
+}
+
+// Newest first
+export function listAppLogRuns(appId: number): AppLogRun[] {
+  return (runsByApp.get(appId) ?? []).map(toAppLogRun).reverse();
+}
+
+/**
+ * Entries of a run that match every given filter, oldest first. When there
+ * are more than `limit`, the newest ones are returned.
+ */
+export function queryAppLogs({
+  appId,
+  runId,
+  levels,
+  sources,
+  pattern,
+  limit = DEFAULT_QUERY_LIMIT,
+}: AppLogQuery): AppLogEntry[] {
+  const run = runId === undefined ? getLatestRun(appId) : runsById.get(runId);
+  if (!run || run.appId !== appId) {
+    return [];
+  }
+  // Throws on an invalid pattern, which the Console shows to the user
+  const regex = pattern ? new RegExp(pattern, "i") : null;
+
+  const matches: AppLogEntry[] = [];
+  for (let i = run.entries.length - 1; i >= 0 && matches.length < limit; i--) {
+    const entry = run.entries[i];
+    if (
+      (!levels || levels.includes(entry.level)) &&
+      (!sources || sources.includes(entry.source)) &&
+      (!regex || regex.test(entry.text))
+    ) {
+      matches.push(entry);
+    }
+  }
+  return matches.reverse();
+}
+
+export function getRecentAppLogErrors(
+  appId: number,
+  count: number,
+): AppLogEntry[] {
+  return queryAppLogs({ appId, levels: ["error"], limit: count });
+}
+
+export function formatAppLogEntries(entries: AppLogEntry[]): string {
+  return entries
+    .map(
+      (entry) =>
+        `${new Date(entry.timestamp).toISOString()} ${entry.level.toUpperCase().padEnd(5)} [${entry.source}] ${entry.text}`,
+    )
+    .join("\n");
+}
+
+/**
+ * The whole run as text, for exporting to a file.
+ */
+export function exportAppLogRun(appId: number, runId: number): string {
+  const run = runsById.get(runId);
+  if (!run || run.appId !== appId) {
+    throw new Error(`Log run not found: ${runId}`);
+  }
+  const header = [
+    `# App ${appId}, run ${runId}, started ${new Date(run.startedAt).toISOString()}`,
+    ...(run.droppedCount > 0
+      ? [`# ${run.droppedCount} older entries were dropped`]
+      : []),
+  ];
+  return `${[...header, formatAppLogEntries(run.entries)].join("\n")}\n`;
+}
+
+export function clearAppLogs(appId: number): void {
+  for (const run of runsByApp.get(appId) ?? []) {
+    runsById.delete(run.runId);
+  }
+  runsByApp.delete(appId);
+}
@@ -0,0 +1,224 @@
+import fs from "node:fs";
+import path from "node:path";
+import { app } from "electron";
+import log from "electron-log";
+import { z } from "zod";
+import {
+  backendFrameworksData,
+  type BackendFramework,
+} from "../../shared/backendFrameworks";
+import { getUserDataPath } from "../../paths/paths";
+import { safeJoin } from "./path_utils";
+
+const logger = log.scope("backend_framework_registry");
+
+export const FRAMEWORK_MANIFEST_FILE = "framework.json";
+
+const BackendFrameworkManifestSchema = z.object({
+  id: z
+    .string()
+    .regex(
+      /^[a-z0-9][a-z0-9-]*$/,
+      "must only contain lowercase letters, digits and dashes",
+    ),
+  title: z.string().min(1),
+  description: z.string().default(""),
+  language: z.string().min(1),
+  scaffoldDir: z.string().default("scaffold"),
+  installCommand: z.string().optional(),
+  startCommand: z.string().min(1),
+  dbInitCommands: z.array(z.string()).optional(),
+  defaultPort: z.number().int().min(1).max(65535),
+  healthCheckUrl: z.string().optional(),
+  aiRules: z.string().optional(),
+  detectFiles: z.array(z.string()).optional(),
+  detectDependencies: z.array(z.string()).optional(),
+});
+
+/**
+ * Folder with one sub-folder per user-defined framework, each holding a
+ * framework.json and its scaffold
+ */
+export function getCustomBackendFrameworksDir(): string {
+  return path.join(getUserDataPath(), "backend-frameworks");
+}
+
+/**
+ * Parse and validate the framework.json of a user-defined framework
+ */
+export function parseBackendFrameworkManifest(
+  content: string,
+): BackendFramework {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${FRAMEWORK_MANIFEST_FILE} is not valid JSON: ${error}`);
+  }
+
+  const result = BackendFrameworkManifestSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "manifest"} ${issue.message}`)
+      .join(", ");
+    throw new Error(`Invalid ${FRAMEWORK_MANIFEST_FILE}: ${issues}`);
+  }
+
+  const manifest = result.data;
+  for (const relativePath of [manifest.scaffoldDir, manifest.aiRules]) {
+    try {
+      safeJoin(".", relativePath ?? "");
+    } catch {
+      throw new Error(
+        `Invalid ${FRAMEWORK_MANIFEST_FILE}: ${relativePath} is outside the framework folder`,
+      );
+    }
+  }
+  if (backendFrameworksData.some((framework) => framework.id === manifest.id)) {
+    throw new Error(
+      `"${manifest.id}" is a built-in backend framework, please use another id`,
+    );
+  }
+
+  return { ...manifest, isCustom: true };
+}
+
+function listCustomBackendFrameworks(): BackendFramework[] {
+  const customDir = getCustomBackendFrameworksDir();
+  if (!fs.existsSync(customDir)) {
+    return [];
+  }
+
+  const frameworks: BackendFramework[] = [];
+  for (const entry of fs.readdirSync(customDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) {
+      continue;
+    }
+    const manifestPath = path.join(
+      customDir,
+      entry.name,
+      FRAMEWORK_MANIFEST_FILE,
+    );
+    try {
+      const framework = parseBackendFrameworkManifest(
+        fs.readFileSync(manifestPath, "utf-8"),
+      );
+      if (framework.id !== entry.name) {
+        throw new Error(`id "${framework.id}" doesn't match its folder`);
+      }
+      frameworks.push(framework);
+    } catch (error) {
+      logger.warn(`Skipping backend framework in ${entry.name}:`, error);
+    }
+  }
+  return frameworks;
+}
+
+/**
+ * The built-in frameworks followed by the user-defined ones
+ */
+export function getAllBackendFrameworks(): BackendFramework[] {
+  return [...backendFrameworksData, ...listCustomBackendFrameworks()];
+}
+
+export function getBackendFramework(id: string): BackendFramework | undefined {
+  return getAllBackendFrameworks().find((framework) => framework.id === id);
+}
+
+/**
+ * The absolute path of the folder copied into an app's backend/
+ */
+export function getScaffoldPath(framework: BackendFramework): string {
+  const root = framework.isCustom
+    ? path.join(getCustomBackendFrameworksDir(), framework.id)
+    : app.getAppPath();
+  return path.join(root, framework.scaffoldDir);
+}
+
+/**
+ * Fill in the port of a start command or health check URL
+ */
+export function resolveFrameworkCommand(template: string, port: number) {
+  return template.replace(/\{port\}/g, port.toString());
+}
+
+function readDependencies(backendPath: string): Set<string> {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(backendPath, "package.json"), "utf-8"),
+    );
+    return new Set([
+      ...Object.keys(packageJson.dependencies ?? {}),
+      ...Object.keys(packageJson.devDependencies ?? {}),
+    ]);
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * The framework whose detect files all exist in a backend folder and whose
+ * detect dependencies are all in its package.json. Only frameworks that
+ * declare either can be detected this way.
+ */
+export function detectBackendFramework(
+  backendPath: string,
+): BackendFramework | undefined {
+  // User-defined frameworks are usually more specific than the built-in ones
+  const frameworks = [
+    ...listCustomBackendFrameworks(),
+    ...backendFrameworksData,
+  ];
+  const dependencies = readDependencies(backendPath);
+  return frameworks.find(
+    (framework) =>
+      (framework.detectFiles?.length || framework.detectDependencies?.length) &&
+      (framework.detectFiles ?? []).every((file) =>
+        fs.existsSync(path.join(backendPath, file)),
+      ) &&
+      (framework.detectDependencies ?? []).every((name) =>
+        dependencies.has(name),
+      ),
+  );
+}
+
+/**
+ * Copy a framework folder with a framework.json into the user's frameworks
+ * folder, replacing an earlier version with the same id
+ */
+export async function addBackendFrameworkFromFolder(
+  folderPath: string,
+): Promise<BackendFramework> {
+  const manifestPath = path.join(folderPath, FRAMEWORK_MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`No ${FRAMEWORK_MANIFEST_FILE} found in ${folderPath}`);
+  }
+  const framework = parseBackendFrameworkManifest(
+    await fs.promises.readFile(manifestPath, "utf-8"),
+  );
+  if (!fs.existsSync(path.join(folderPath, framework.scaffoldDir))) {
+    throw new Error(
+      `Scaffold folder "${framework.scaffoldDir}" not found in ${folderPath}`,
+    );
+  }
+
+  const targetPath = path.join(getCustomBackendFrameworksDir(), framework.id);
+  await fs.promises.rm(targetPath, { recursive: true, force: true });
+  await fs.promises.cp(folderPath, targetPath, {
+    recursive: true,
+    filter: (source) => path.basename(source) !== ".git",
+  });
+  logger.info(`Added backend framework ${framework.id} from ${folderPath}`);
+  return framework;
+}
+
+export async function removeCustomBackendFramework(id: string): Promise<void> {
+  const framework = getBackendFramework(id);
+  if (!framework?.isCustom) {
+    throw new Error(`"${id}" is not a user-defined backend framework`);
+  }
+  await fs.promises.rm(path.join(getCustomBackendFrameworksDir(), id), {
+    recursive: true,
+    force: true,
+  });
+}
@@ -0,0 +1,554 @@
+import type * as ts from "typescript";
+import type {
+  ComponentEdit,
+  ComponentProp,
+  ComponentSelection,
+  ComponentSource,
+} from "../ipc_types";
+
+type TypeScript = typeof ts;
+type ComponentLocation = Pick<
+  ComponentSelection,
+  "lineNumber" | "columnNumber"
+>;
+
+// The parts of the Vue SFC compiler this module uses. It's loaded from the
+// app's node_modules, so its version (and types) vary from app to app.
+interface VuePosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+interface VueLocation {
+  start: VuePosition;
+  end: VuePosition;
+  source: string;
+}
+
+interface VueProp {
+  type: number;
+  name: string;
+  loc: VueLocation;
+  value?: { content: string };
+  exp?: { loc: VueLocation };
+}
+
+interface VueNode {
+  type: number;
+  tag?: string;
+  loc: VueLocation;
+  props?: VueProp[];
+  children?: VueNode[];
+}
+
+export interface VueCompiler {
+  parse(
+    code: string,
+    options?: { filename?: string },
+  ): { descriptor: { template: { ast?: { children: VueNode[] } } | null } };
+}
+
+// Values of the Vue compiler's NodeTypes enum
+const VUE_ELEMENT = 1;
+const VUE_TEXT = 2;
+const VUE_ATTRIBUTE = 6;
+
+interface SourceEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Applied back to front so earlier offsets stay valid. At the same offset, a
+// removal goes before an insertion so it can't take the inserted text.
+function applySourceEdits(code: string, edits: SourceEdit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start || b.end - a.end)
+    .reduce(
+      (result, edit) =>
+        result.slice(0, edit.start) + edit.text + result.slice(edit.end),
+      code,
+    );
+}
+
+function normalizeClassName(className: string): string {
+  return className.trim().split(/\s+/).filter(Boolean).join(" ");
+}
+
+function parseNumber(name: string, value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed || !Number.isFinite(Number(trimmed))) {
+    throw new Error(`"${name}" must be a number`);
+  }
+  return trimmed;
+}
+
+function parseBoolean(name: string, value: string): boolean {
+  if (value !== "true" && value !== "false") {
+    throw new Error(`"${name}" must be true or false`);
+  }
+  return value === "true";
+}
+
+function notEditableError(name: string): Error {
+  return new Error(
+    `"${name}" is set by an expression and can't be edited here. Ask the AI to change it instead.`,
+  );
+}
+
+function elementNotFoundError(
+  fileName: string,
+  { lineNumber, columnNumber }: ComponentLocation,
+): Error {
+  return new Error(
+    `Could not find the selected element at ${fileName}:${lineNumber}:${columnNumber}. The file may have changed since it was selected; select it again.`,
+  );
+}
+
+// --- JSX ---
+
+type JsxTag = ts.JsxOpeningElement | ts.JsxSelfClosingElement;
+
+function parseJsx(typescript: TypeScript, fileName: string, code: string) {
+  const scriptKind = fileName.endsWith(".tsx")
+    ? typescript.ScriptKind.TSX
+    : fileName.endsWith(".ts")
+      ? typescript.ScriptKind.TS
+      : typescript.ScriptKind.JSX;
+  return typescript.createSourceFile(
+    fileName,
+    code,
+    typescript.ScriptTarget.Latest,
+    true,
+    scriptKind,
+  );
+}
+
+function findJsxTag(
+  typescript: TypeScript,
+  sourceFile: ts.SourceFile,
+  location: ComponentLocation,
+): JsxTag {
+  let found: JsxTag | undefined;
+  const visit = (node: ts.Node) => {
+    if (found) return;
+    if (
+      typescript.isJsxOpeningElement(node) ||
+      typescript.isJsxSelfClosingElement(node)
+    ) {
+      // Tagger ids use 1-based lines and 0-based columns
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+        node.getStart(sourceFile),
+      );
+      if (
+        line + 1 === location.lineNumber &&
+        character === location.columnNumber
+      ) {
+        found = node;
+        return;
+      }
+    }
+    typescript.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  if (!found) {
+    throw elementNotFoundError(sourceFile.fileName, location);
+  }
+  return found;
+}
+
+function findJsxAttribute(
+  typescript: TypeScript,
+  tag: JsxTag,
+  names: string[],
+): ts.JsxAttribute | undefined {
+  return tag.attributes.properties.find(
+    (property): property is ts.JsxAttribute =>
+      typescript.isJsxAttribute(property) &&
+      names.includes(property.name.getText()),
+  );
+}
+
+// A string literal attribute value, as `"x"` or `{"x"}`
+function getJsxStringLiteral(
+  typescript: TypeScript,
+  initializer: ts.JsxAttributeValue | undefined,
+): ts.StringLiteral | ts.NoSubstitutionTemplateLiteral | undefined {
+  if (!initializer) return undefined;
+  if (typescript.isStringLiteral(initializer)) return initializer;
+  if (
+    typescript.isJsxExpression(initializer) &&
+    initializer.expression &&
+    (typescript.isStringLiteral(initializer.expression) ||
+      typescript.isNoSubstitutionTemplateLiteral(initializer.expression))
+  ) {
+    return initializer.expression;
+  }
+  return undefined;
+}
+
+function describeJsxAttribute(
+  typescript: TypeScript,
+  attribute: ts.JsxAttribute,
+): ComponentProp {
+  const name = attribute.name.getText();
+  const initializer = attribute.initializer;
+  if (!initializer) {
+    return { name, kind: "boolean", value: "true" };
+  }
+  const literal = getJsxStringLiteral(typescript, initializer);
+  if (literal) {
+    return { name, kind: "string", value: literal.text };
+  }
+  const expression = typescript.isJsxExpression(initializer)
+    ? initializer.expression
+    : undefined;
+  if (expression && typescript.isNumericLiteral(expression)) {
+    return { name, kind: "number", value: expression.text };
+  }
+  if (
+    expression &&
+    (expression.kind === typescript.SyntaxKind.TrueKeyword ||
+      expression.kind === typescript.SyntaxKind.FalseKeyword)
+  ) {
+    return { name, kind: "boolean", value: expression.getText() };
+  }
+  return {
+    name,
+    kind: "expression",
+    value: expression?.getText() ?? initializer.getText(),
+  };
+}
+
+// Braces and angle brackets would be read as JSX syntax
+function formatJsxText(text: string): string {
+  return /[{}<>]/.test(text) ? `{${JSON.stringify(text)}}` : text;
+}
+
+// JSX attribute strings have no escapes, so quotes need an expression
+function formatJsxString(value: string): string {
+  return value.includes('"') ? `{${JSON.stringify(value)}}` : `"${value}"`;
+}
+
+// The span between the opening and closing tag, if it only holds text
+function getJsxTextRange(
+  typescript: TypeScript,
+  tag: JsxTag,
+): { start: number; end: number } | null {
+  if (!typescript.isJsxOpeningElement(tag)) return null;
+  const element = tag.parent;
+  if (!element.children.every((child) => typescript.isJsxText(child))) {
+    return null;
+  }
+  return { start: tag.end, end: element.closingElement.getStart() };
+}
+
+// Replace the trimmed text, keeping the whitespace around it
+function replaceText(
+  code: string,
+  range: { start: number; end: number },
+  text: string,
+): SourceEdit {
+  const raw = code.slice(range.start, range.end);
+  if (!raw.trim()) {
+    return { ...range, text };
+  }
+  const leading = raw.length - raw.trimStart().length;
+  const trailing = raw.length - raw.trimEnd().length;
+  return {
+    start: range.start + leading,
+    end: range.end - trailing,
+    text,
+  };
+}
+
+export function readJsxComponent(
+  typescript: TypeScript,
+  { fileName, code }: { fileName: string; code: string },
+  location: ComponentLocation,
+): ComponentSource {
+  const sourceFile = parseJsx(typescript, fileName, code);
+  const tag = findJsxTag(typescript, sourceFile, location);
+  const classAttribute = findJsxAttribute(typescript, tag, [
+    "className",
+    "class",
+  ]);
+  const classLiteral = getJsxStringLiteral(
+    typescript,
+    classAttribute?.initializer,
+  );
+  const textRange = getJsxTextRange(typescript, tag);
+
+  const props: ComponentProp[] = [];
+  for (const property of tag.attributes.properties) {
+    if (typescript.isJsxSpreadAttribute(property)) {
+      const spread = property.expression.getText();
+      props.push({ name: `...${spread}`, kind: "expression", value: spread });
+    } else if (property !== classAttribute || !classLiteral) {
+      props.push(describeJsxAttribute(typescript, property));
+    }
+  }
+
+  return {
+    tagName: tag.tagName.getText(),
+    text: textRange ? code.slice(textRange.start, textRange.end).trim() : null,
+    className: !classAttribute ? "" : (classLiteral?.text ?? null),
+    props,
+  };
+}
+
+export function applyJsxComponentEdit(
+  typescript: TypeScript,
+  { fileName, code }: { fileName: string; code: string },
+  location: ComponentLocation,
+  edit: ComponentEdit,
+): string {
+  const sourceFile = parseJsx(typescript, fileName, code);
+  const tag = findJsxTag(typescript, sourceFile, location);
+  const edits: SourceEdit[] = [];
+
+  if (edit.text !== undefined) {
+    const range = getJsxTextRange(typescript, tag);
+    if (!range) {
+      throw new Error(
+        "The element's content isn't plain text, so it can't be edited here.",
+      );
+    }
+    edits.push(replaceText(code, range, formatJsxText(edit.text)));
+  }
+
+  if (edit.className !== undefined) {
+    const className = normalizeClassName(edit.className);
+    const attribute = findJsxAttribute(typescript, tag, ["className", "class"]);
+    if (!attribute) {
+      if (className) {
+        edits.push({
+          start: (tag.typeArguments ?? tag.tagName).end,
+          end: (tag.typeArguments ?? tag.tagName).end,
+          text: ` className=${formatJsxString(className)}`,
+        });
+      }
+    } else {
+      const literal = getJsxStringLiteral(typescript, attribute.initializer);
+      if (!literal) {
+        throw notEditableError(attribute.name.getText());
+      }
+      if (!className) {
+        edits.push({
+          start: attribute.getFullStart(),
+          end: attribute.end,
+          text: "",
+        });
+      } else if (literal === attribute.initializer) {
+        edits.push({
+          start: literal.getStart(),
+          end: literal.end,
+          text: formatJsxString(className),
+        });
+      } else {
+        edits.push({
+          start: literal.getStart(),
+          end: literal.end,
+          text: JSON.stringify(className),
+        });
+      }
+    }
+  }
+
+  for (const [name, value] of Object.entries(edit.props ?? {})) {
+    const attribute = findJsxAttribute(typescript, tag, [name]);
+    if (!attribute) {
+      throw new Error(`The element has no "${name}" prop`);
+    }
+    const { kind } = describeJsxAttribute(typescript, attribute);
+    let text: string;
+    switch (kind) {
+      case "string":
+        text = `${name}=${formatJsxString(value)}`;
+        break;
+      case "number":
+        text = `${name}={${parseNumber(name, value)}}`;
+        break;
+      case "boolean":
+        text = parseBoolean(name, value) ? name : `${name}={false}`;
+        break;
+      default:
+        throw notEditableError(name);
+    }
+    edits.push({ start: attribute.getStart(), end: attribute.end, text });
+  }
+
+  return applySourceEdits(code, edits);
+}
+
+// --- Vue ---
+
+function findVueElement(
+  compiler: VueCompiler,
+  { fileName, code }: { fileName: string; code: string },
+  location: ComponentLocation,
+): VueNode {
+  const { descriptor } = compiler.parse(code, { filename: fileName });
+  let found: VueNode | undefined;
+  const visit = (node: VueNode) => {
+    if (found) return;
+    // Vue columns are 1-based; the tagger's ids use 0-based columns
+    if (
+      node.type === VUE_ELEMENT &&
+      node.loc.start.line === location.lineNumber &&
+      node.loc.start.column - 1 === location.columnNumber
+    ) {
+      found = node;
+      return;
+    }
+    node.children?.forEach(visit);
+  };
+  descriptor.template?.ast?.children.forEach(visit);
+  if (!found) {
+    throw elementNotFoundError(fileName, location);
+  }
+  return found;
+}
+
+function findVueAttribute(node: VueNode, name: string): VueProp | undefined {
+  return node.props?.find(
+    (prop) => prop.type === VUE_ATTRIBUTE && prop.name === name,
+  );
+}
+
+// The span between the opening and closing tag, if it only holds text.
+// Void and self-closing elements have no closing tag.
+function getVueTextRange(node: VueNode): { start: number; end: number } | null {
+  const closingTag = node.loc.source.match(/<\/[^>]*>$/);
+  if (!closingTag || !node.children?.every((c) => c.type === VUE_TEXT)) {
+    return null;
+  }
+  const end = node.loc.end.offset - closingTag[0].length;
+  const start = node.children.length ? node.children[0].loc.start.offset : end;
+  return { start, end };
+}
+
+function escapeVueAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+// "<" opens a tag and "{{" an interpolation
+function formatVueText(text: string): string {
+  return text.replace(/</g, "&lt;").replace(/\{\{/g, "&#123;&#123;");
+}
+
+// Removing an attribute takes the whitespace before it too
+function removeVueAttribute(code: string, prop: VueProp): SourceEdit {
+  let start = prop.loc.start.offset;
+  while (start > 0 && /\s/.test(code[start - 1])) {
+    start--;
+  }
+  return { start, end: prop.loc.end.offset, text: "" };
+}
+
+export function readVueComponent(
+  compiler: VueCompiler,
+  file: { fileName: string; code: string },
+  location: ComponentLocation,
+): ComponentSource {
+  const node = findVueElement(compiler, file, location);
+  const textRange = getVueTextRange(node);
+
+  const props: ComponentProp[] = [];
+  for (const prop of node.props ?? []) {
+    if (prop.type !== VUE_ATTRIBUTE) {
+      // Directives like :class, @click and v-if
+      const source = prop.loc.source;
+      const name = prop.exp ? source.slice(0, source.indexOf("=")) : source;
+      props.push({
+        name,
+        kind: "expression",
+        value: prop.exp?.loc.source ?? "",
+      });
+    } else if (prop.name !== "class") {
+      props.push(
+        prop.value
+          ? { name: prop.name, kind: "string", value: prop.value.content }
+          : { name: prop.name, kind: "boolean", value: "true" },
+      );
+    }
+  }
+
+  return {
+    tagName: node.tag ?? "",
+    text: textRange
+      ? file.code.slice(textRange.start, textRange.end).trim()
+      : null,
+    className: findVueAttribute(node, "class")?.value?.content ?? "",
+    props,
+  };
+}
+
+export function applyVueComponentEdit(
+  compiler: VueCompiler,
+  file: { fileName: string; code: string },
+  location: ComponentLocation,
+  edit: ComponentEdit,
+): string {
+  const { code } = file;
+  const node = findVueElement(compiler, file, location);
+  const edits: SourceEdit[] = [];
+
+  if (edit.text !== undefined) {
+    const range = getVueTextRange(node);
+    if (!range) {
+      throw new Error(
+        "The element's content isn't plain text, so it can't be edited here.",
+      );
+    }
+    edits.push(replaceText(code, range, formatVueText(edit.text)));
+  }
+
+  if (edit.className !== undefined) {
+    const className = normalizeClassName(edit.className);
+    const attribute = findVueAttribute(node, "class");
+    if (!attribute) {
+      if (className) {
+        const end = node.loc.start.offset + 1 + (node.tag ?? "").length;
+        edits.push({
+          start: end,
+          end,
+          text: ` class="${escapeVueAttribute(className)}"`,
+        });
+      }
+    } else if (!className) {
+      edits.push(removeVueAttribute(code, attribute));
+    } else {
+      edits.push({
+        start: attribute.loc.start.offset,
+        end: attribute.loc.end.offset,
+        text: `class="${escapeVueAttribute(className)}"`,
+      });
+    }
+  }
+
+  for (const [name, value] of Object.entries(edit.props ?? {})) {
+    const attribute = findVueAttribute(node, name);
+    if (!attribute) {
+      if (node.props?.some((prop) => prop.loc.source.startsWith(`:${name}`))) {
+        throw notEditableError(name);
+      }
+      throw new Error(`The element has no "${name}" attribute`);
+    }
+    if (!attribute.value) {
+      // A boolean attribute like "disabled"
+      if (!parseBoolean(name, value)) {
+        edits.push(removeVueAttribute(code, attribute));
+      }
+      continue;
+    }
+    edits.push({
+      start: attribute.loc.start.offset,
+      end: attribute.loc.end.offset,
+      text: `${name}="${escapeVueAttribute(value)}"`,
+    });
+  }
+
+  return applySourceEdits(code, edits);
+}
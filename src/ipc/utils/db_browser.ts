@@ -0,0 +1,285 @@
+import fs from "node:fs";
+import path from "node:path";
+import { eq } from "drizzle-orm";
+import { db } from "../../db";
+import { apps } from "../../db/schema";
+import { getDyadAppPath } from "../../paths/paths";
+import { executeSupabaseSql } from "../../supabase_admin/supabase_management_client";
+import { queryLocalDb } from "../../local_db/local_db_manager";
+import {
+  runPostgresScript,
+  runSqliteScript,
+  type SqlScriptResult,
+} from "../../local_db/sql_runners";
+import { readPostgresUrlFromEnvFile } from "./app_env_var_utils";
+import {
+  buildColumnsQuery,
+  buildCountQuery,
+  buildRowsQuery,
+  buildTableCountsQuery,
+  findDestructiveStatements,
+} from "./db_browser_sql";
+import type {
+  DbBrowserCell,
+  DbBrowserResult,
+  DbBrowserRows,
+  DbBrowserSource,
+  DbBrowserTable,
+  DbBrowserTableRef,
+  ExecuteDbBrowserSqlParams,
+  ExecuteDbBrowserSqlResult,
+  GetDbBrowserRowsParams,
+} from "../ipc_types";
+
+// Ad-hoc queries can return whole tables; the grid doesn't need more
+const MAX_RESULT_ROWS = 1000;
+const MAX_PAGE_SIZE = 500;
+
+// Database files created by the backend framework scaffolds, e.g. Django's
+// db.sqlite3 and Flask-SQLAlchemy's instance folder
+const BACKEND_SQLITE_FILES = ["db.sqlite3", "app.db", "instance/app.db"];
+const SQLITE_EXTENSIONS = [".db", ".sqlite", ".sqlite3"];
+
+interface AppDatabase {
+  source: DbBrowserSource;
+  query: (sql: string) => Promise<SqlScriptResult>;
+}
+
+function findBackendSqliteFile(appPath: string): string | null {
+  const backendPath = path.join(appPath, "backend");
+  for (const file of BACKEND_SQLITE_FILES) {
+    if (fs.existsSync(path.join(backendPath, file))) {
+      return file;
+    }
+  }
+  if (!fs.existsSync(backendPath)) {
+    return null;
+  }
+  return (
+    fs
+      .readdirSync(backendPath)
+      .find((file) => SQLITE_EXTENSIONS.includes(path.extname(file))) ?? null
+  );
+}
+
+/**
+ * The database the app is configured to use. Supabase and Neon win over a
+ * local database, which wins over a file the backend created itself.
+ */
+async function getAppDatabase(appId: number): Promise<AppDatabase | null> {
+  const app = await db.query.apps.findFirst({ where: eq(apps.id, appId) });
+  if (!app) {
+    throw new Error("App not found");
+  }
+
+  if (app.supabaseProjectId) {
+    const supabaseProjectId = app.supabaseProjectId;
+    return {
+      source: {
+        kind: "supabase",
+        dialect: "postgres",
+        label: `Supabase project ${supabaseProjectId}`,
+      },
+      query: async (sql) => {
+        const rows = JSON.parse(
+          await executeSupabaseSql({ supabaseProjectId, query: sql }),
+        );
+        // Test builds return an empty object instead of rows
+        const records: Record<string, unknown>[] = Array.isArray(rows)
+          ? rows
+          : [];
+        return {
+          columns: [...new Set(records.flatMap((row) => Object.keys(row)))],
+          rows: records,
+        };
+      },
+    };
+  }
+
+  if (app.neonProjectId) {
+    const connectionString = await readPostgresUrlFromEnvFile({
+      appPath: app.path,
+    });
+    return {
+      source: {
+        kind: "neon",
+        dialect: "postgres",
+        label: `Neon project ${app.neonProjectId}`,
+      },
+      query: (sql) => runPostgresScript(connectionString, sql),
+    };
+  }
+
+  if (app.localDbProvider) {
+    return {
+      source: {
+        kind: "local",
+        dialect: app.localDbProvider,
+        label:
+          app.localDbProvider === "sqlite"
+            ? "Local SQLite database"
+            : "Local PostgreSQL database",
+      },
+      query: (sql) => queryLocalDb({ appId, query: sql }),
+    };
+  }
+
+  const appPath = getDyadAppPath(app.path);
+  const backendFile = findBackendSqliteFile(appPath);
+  if (backendFile) {
+    const filePath = path.join(appPath, "backend", backendFile);
+    return {
+      source: {
+        kind: "backend",
+        dialect: "sqlite",
+        label: `backend/${backendFile}`,
+      },
+      query: async (sql) => runSqliteScript(filePath, sql),
+    };
+  }
+  return null;
+}
+
+async function requireAppDatabase(appId: number): Promise<AppDatabase> {
+  const database = await getAppDatabase(appId);
+  if (!database) {
+    throw new Error(
+      "This app has no database. Connect Supabase or Neon, or add a local database.",
+    );
+  }
+  return database;
+}
+
+function toCell(value: unknown): DbBrowserCell {
+  if (
+    value === null ||
+    value === undefined ||
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return value ?? null;
+  }
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Uint8Array) {
+    return `[${value.length} bytes]`;
+  }
+  return JSON.stringify(value);
+}
+
+function toResult(
+  { columns, rows }: SqlScriptResult,
+  maxRows: number,
+): DbBrowserResult {
+  return {
+    columns,
+    rows: rows
+      .slice(0, maxRows)
+      .map((row) => columns.map((column) => toCell(row[column]))),
+    truncated: rows.length > maxRows,
+  };
+}
+
+export async function getDbBrowserSource(
+  appId: number,
+): Promise<DbBrowserSource | null> {
+  return (await getAppDatabase(appId))?.source ?? null;
+}
+
+export async function listDbBrowserTables(
+  appId: number,
+): Promise<DbBrowserTable[]> {
+  const database = await requireAppDatabase(appId);
+  const { dialect, kind } = database.source;
+
+  let tables: DbBrowserTableRef[];
+  if (dialect === "sqlite") {
+    const { rows } = await database.query(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name",
+    );
+    tables = rows.map((row) => ({ schema: null, name: String(row.name) }));
+  } else {
+    // Supabase projects have many internal schemas, e.g. auth and storage
+    const schemaFilter =
+      kind === "supabase"
+        ? "table_schema = 'public'"
+        : "table_schema NOT IN ('pg_catalog', 'information_schema')";
+    const { rows } = await database.query(
+      `SELECT table_schema AS schema, table_name AS name FROM information_schema.tables WHERE table_type = 'BASE TABLE' AND ${schemaFilter} ORDER BY table_schema, table_name`,
+    );
+    tables = rows.map((row) => ({
+      schema: String(row.schema),
+      name: String(row.name),
+    }));
+  }
+  if (tables.length === 0) {
+    return [];
+  }
+
+  const { rows: counts } = await database.query(buildTableCountsQuery(tables));
+  const countByIndex = new Map(
+    counts.map((row) => [Number(row.table_index), Number(row.count)]),
+  );
+  return tables.map((table, index) => ({
+    ...table,
+    rowCount: countByIndex.get(index) ?? 0,
+  }));
+}
+
+export async function getDbBrowserRows({
+  appId,
+  table,
+  filters,
+  orderBy,
+  offset,
+  limit,
+}: GetDbBrowserRowsParams): Promise<DbBrowserRows> {
+  const database = await requireAppDatabase(appId);
+  const { dialect } = database.source;
+  const pageSize = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+
+  // Listed separately so an empty page still has its column headers
+  const columns = (
+    await database.query(buildColumnsQuery(table, dialect))
+  ).rows.map((row) => String(row.name));
+  const { rows } = await database.query(
+    buildRowsQuery({
+      table,
+      filters,
+      orderBy,
+      offset: Math.max(offset, 0),
+      limit: pageSize,
+      dialect,
+    }),
+  );
+  const { rows: countRows } = await database.query(
+    buildCountQuery({ table, filters, dialect }),
+  );
+  return {
+    ...toResult({ columns, rows }, pageSize),
+    totalCount: Number(countRows[0]?.count ?? 0),
+  };
+}
+
+/**
+ * Run an ad-hoc query. Scripts that change or remove data are sent back
+ * for confirmation instead of being run.
+ */
+export async function executeDbBrowserSql({
+  appId,
+  query,
+  confirmDestructive,
+}: ExecuteDbBrowserSqlParams): Promise<ExecuteDbBrowserSqlResult> {
+  const destructiveStatements = findDestructiveStatements(query);
+  if (destructiveStatements.length > 0 && !confirmDestructive) {
+    return { needsConfirmation: true, destructiveStatements };
+  }
+  const database = await requireAppDatabase(appId);
+  const result = await database.query(query);
+  return { needsConfirmation: false, ...toResult(result, MAX_RESULT_ROWS) };
+}
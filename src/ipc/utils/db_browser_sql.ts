@@ -0,0 +1,140 @@
+import { splitSqlStatements } from "../../supabase_admin/supabase_migrations";
+import type {
+  DbBrowserFilter,
+  DbBrowserSource,
+  DbBrowserTableRef,
+} from "../ipc_types";
+
+type Dialect = DbBrowserSource["dialect"];
+
+// Double quotes work for identifiers in both Postgres and SQLite
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+export function qualifiedTableName(table: DbBrowserTableRef): string {
+  return table.schema
+    ? `${quoteIdentifier(table.schema)}.${quoteIdentifier(table.name)}`
+    : quoteIdentifier(table.name);
+}
+
+// The operators that go into the SQL as they are
+const COMPARISON_OPERATORS = new Set(["=", "!=", "<", "<=", ">", ">="]);
+
+function buildCondition(filter: DbBrowserFilter, dialect: Dialect): string {
+  const column = quoteIdentifier(filter.column);
+  const value = filter.value ?? "";
+  switch (filter.operator) {
+    case "is null":
+      return `${column} IS NULL`;
+    case "is not null":
+      return `${column} IS NOT NULL`;
+    case "contains": {
+      const pattern = `%${value.replace(/[\\%_]/g, "\\$&")}%`;
+      // LIKE already ignores case for ASCII in SQLite
+      const like = dialect === "postgres" ? "ILIKE" : "LIKE";
+      return `CAST(${column} AS TEXT) ${like} ${quoteLiteral(pattern)} ESCAPE '\\'`;
+    }
+    default:
+      // The filter comes from the renderer, so it's checked before it's
+      // put into the query
+      if (!COMPARISON_OPERATORS.has(filter.operator)) {
+        throw new Error(`Unknown filter operator: ${filter.operator}`);
+      }
+      // Untyped literals are converted to the column's type by both
+      // databases, so numbers and dates compare as expected
+      return `${column} ${filter.operator} ${quoteLiteral(value)}`;
+  }
+}
+
+export function buildWhereClause(
+  filters: DbBrowserFilter[],
+  dialect: Dialect,
+): string {
+  if (filters.length === 0) {
+    return "";
+  }
+  return ` WHERE ${filters.map((filter) => buildCondition(filter, dialect)).join(" AND ")}`;
+}
+
+export function buildRowsQuery({
+  table,
+  filters,
+  orderBy,
+  offset,
+  limit,
+  dialect,
+}: {
+  table: DbBrowserTableRef;
+  filters: DbBrowserFilter[];
+  orderBy?: { column: string; direction: "asc" | "desc" };
+  offset: number;
+  limit: number;
+  dialect: Dialect;
+}): string {
+  const order = orderBy
+    ? ` ORDER BY ${quoteIdentifier(orderBy.column)} ${orderBy.direction === "desc" ? "DESC" : "ASC"}`
+    : "";
+  return `SELECT * FROM ${qualifiedTableName(table)}${buildWhereClause(filters, dialect)}${order} LIMIT ${Math.trunc(limit)} OFFSET ${Math.trunc(offset)}`;
+}
+
+export function buildCountQuery({
+  table,
+  filters,
+  dialect,
+}: {
+  table: DbBrowserTableRef;
+  filters: DbBrowserFilter[];
+  dialect: Dialect;
+}): string {
+  return `SELECT COUNT(*) AS count FROM ${qualifiedTableName(table)}${buildWhereClause(filters, dialect)}`;
+}
+
+/**
+ * The row count of every table in one query, as rows of the table's index
+ * in `tables` and its count
+ */
+export function buildTableCountsQuery(tables: DbBrowserTableRef[]): string {
+  return tables
+    .map(
+      (table, index) =>
+        `SELECT ${index} AS table_index, COUNT(*) AS count FROM ${qualifiedTableName(table)}`,
+    )
+    .join(" UNION ALL ");
+}
+
+export function buildColumnsQuery(
+  table: DbBrowserTableRef,
+  dialect: Dialect,
+): string {
+  if (dialect === "sqlite") {
+    return `SELECT name FROM pragma_table_info(${quoteLiteral(table.name)})`;
+  }
+  return `SELECT column_name AS name FROM information_schema.columns WHERE table_schema = ${quoteLiteral(table.schema ?? "public")} AND table_name = ${quoteLiteral(table.name)} ORDER BY ordinal_position`;
+}
+
+const DESTRUCTIVE_STATEMENT =
+  /^(?:drop|delete|truncate|update|alter|replace|merge|do)\b/i;
+const DESTRUCTIVE_KEYWORD = /\b(?:drop|delete|truncate|update|alter)\b/i;
+
+/**
+ * Statements of the script that change or remove existing data or schema.
+ * Any statement can run a data change inside it, e.g. in a CTE or with
+ * INSERT ... ON CONFLICT DO UPDATE, so statements also count when they
+ * mention one outside of a string or quoted name.
+ */
+export function findDestructiveStatements(sql: string): string[] {
+  return splitSqlStatements(sql).filter((statement) => {
+    const withoutStrings = statement
+      .replace(/'(?:[^']|'')*'/g, "''")
+      .replace(/"(?:[^"]|"")*"/g, '""');
+    return (
+      DESTRUCTIVE_STATEMENT.test(withoutStrings) ||
+      DESTRUCTIVE_KEYWORD.test(withoutStrings)
+    );
+  });
+}
@@ -0,0 +1,389 @@
+import path from "node:path";
+import fs from "node:fs";
+import { spawn } from "node:child_process";
+import treeKill from "tree-kill";
+import { v4 as uuidv4 } from "uuid";
+import { generateText, ModelMessage } from "ai";
+import log from "electron-log";
+import { eq } from "drizzle-orm";
+import { db } from "../../db";
+import { apps, chats, messages } from "../../db/schema";
+import { getDyadAppPath } from "../../paths/paths";
+import { readSettings } from "../../main/settings";
+import {
+  constructSystemPrompt,
+  readAiRules,
+} from "../../prompts/system_prompt";
+import { extractCodebase } from "../../utils/codebase";
+import { validateChatContext } from "./context_paths_utils";
+import { getModelClient } from "./get_model_client";
+import { getMaxTokens, getTemperature } from "./token_utils";
+import { getExtraProviderOptions } from "./thinking_utils";
+import { getShellEnv } from "../handlers/app_handlers";
+import { processFullResponseActions } from "../processors/response_processor";
+import { generateProblemReport } from "../processors/tsc";
+import {
+  createProblemFixPrompt,
+  selectProblemsToFix,
+} from "@/shared/problem_prompt";
+import type { ProblemReport } from "../ipc_types";
+
+const logger = log.scope("development_agent");
+
+export type DevelopmentComponent = "frontend" | "backend";
+
+export interface DevelopmentTurnResult {
+  response: string;
+  updatedFiles: boolean;
+}
+
+export interface ProjectTestResult {
+  command: string;
+  cwd: string;
+  passed: boolean;
+  output: string;
+}
+
+// Test runs are killed after this long so a watch-mode test script can't
+// stall the run forever
+const TEST_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Only the tail of the test output is fed back to the model
+const MAX_TEST_OUTPUT_CHARS = 8000;
+
+const NO_IMPROVEMENTS_MARKER = "NO_IMPROVEMENTS";
+
+const CRITIQUE_SYSTEM_PROMPT = `You are a senior engineer reviewing an app that is being built autonomously.
+Review the codebase you are given and list the most important concrete improvements that are still needed: bugs, missing error handling, missing loading states, broken integration between frontend and backend, and requirements that are not implemented yet.
+
+Respond ONLY with a markdown bullet list, one improvement per line, at most 5 items. Each item must be specific enough to implement without further questions.
+If nothing important needs to change, respond with exactly ${NO_IMPROVEMENTS_MARKER}.`;
+
+/**
+ * Find the chat that holds the autonomous development turns for an app,
+ * creating it on first use so the turns show up like any other chat.
+ */
+export async function getDevelopmentChatId(
+  appId: number,
+  existingChatId?: number,
+): Promise<number> {
+  if (existingChatId !== undefined) {
+    const chat = await db.query.chats.findFirst({
+      where: eq(chats.id, existingChatId),
+    });
+    if (chat) {
+      return chat.id;
+    }
+  }
+
+  const [chat] = await db
+    .insert(chats)
+    .values({ appId, title: "Autonomous development" })
+    .returning({ id: chats.id });
+  return chat.id;
+}
+
+async function getApp(appId: number) {
+  const app = await db.query.apps.findFirst({
+    where: eq(apps.id, appId),
+  });
+  if (!app) {
+    throw new Error(`App ${appId} not found`);
+  }
+  return app;
+}
+
+async function getAppPath(appId: number): Promise<string> {
+  return getDyadAppPath((await getApp(appId)).path);
+}
+
+async function callModel({
+  appId,
+  system,
+  prompt,
+}: {
+  appId: number;
+  system: string;
+  prompt: string;
+}): Promise<string> {
+  const app = await getApp(appId);
+  const settings = readSettings();
+  const { formattedOutput: codebaseInfo, files } = await extractCodebase({
+    appPath: getDyadAppPath(app.path),
+    chatContext: validateChatContext(app.chatContext),
+  });
+  const { modelClient, isEngineEnabled } = await getModelClient(
+    settings.selectedModel,
+    settings,
+    files,
+  );
+
+  const chatMessages: ModelMessage[] = [
+    ...(isEngineEnabled
+      ? // The engine adds the codebase itself
+        []
+      : ([
+          { role: "user", content: `This is my codebase. ${codebaseInfo}` },
+          { role: "assistant", content: "OK, got it. I'm ready to help" },
+        ] as const)),
+    { role: "user", content: prompt },
+  ];
+
+  const { text } = await generateText({
+    model: modelClient.model,
+    maxOutputTokens: await getMaxTokens(settings.selectedModel),
+    temperature: await getTemperature(settings.selectedModel),
+    maxRetries: 2,
+    providerOptions: {
+      "dyad-engine": { dyadRequestId: uuidv4() },
+      "dyad-gateway": getExtraProviderOptions(
+        modelClient.builtinProviderId,
+        settings,
+      ),
+    },
+    system,
+    messages: chatMessages,
+  });
+  return text;
+}
+
+/**
+ * Run one autonomous development turn through the chat pipeline: the prompt
+ * and the model's response are stored in the development chat, and the
+ * response's dyad tags are applied to the app.
+ */
+export async function runDevelopmentTurn({
+  appId,
+  chatId,
+  component,
+  prompt,
+  summary,
+}: {
+  appId: number;
+  chatId: number;
+  component: DevelopmentComponent;
+  prompt: string;
+  summary: string;
+}): Promise<DevelopmentTurnResult> {
+  const appPath = await getAppPath(appId);
+  const chatMode = component === "backend" ? "backend" : "build";
+
+  // Backend turns follow backend/AI_RULES.md when the app has one
+  let aiRulesPath = appPath;
+  if (
+    chatMode === "backend" &&
+    fs.existsSync(path.join(appPath, "backend", "AI_RULES.md"))
+  ) {
+    aiRulesPath = path.join(appPath, "backend");
+  }
+
+  await db.insert(messages).values({ chatId, role: "user", content: prompt });
+  const [assistantMessage] = await db
+    .insert(messages)
+    .values({ chatId, role: "assistant", content: "" })
+    .returning({ id: messages.id });
+
+  const response = await callModel({
+    appId,
+    system: constructSystemPrompt({
+      aiRules: await readAiRules(aiRulesPath),
+      chatMode,
+    }),
+    prompt,
+  });
+
+  await db
+    .update(messages)
+    .set({ content: response })
+    .where(eq(messages.id, assistantMessage.id));
+
+  const result = await processFullResponseActions(response, chatId, {
+    chatSummary: summary,
+    messageId: assistantMessage.id,
+  });
+  if (result.error) {
+    throw new Error(result.error);
+  }
+
+  return { response, updatedFiles: !!result.updatedFiles };
+}
+
+/**
+ * Check the app for the problems to fix (lint problems of the severities
+ * picked in settings), or undefined if it can't be checked
+ */
+export async function checkProblems(
+  appId: number,
+): Promise<ProblemReport | undefined> {
+  try {
+    const problemReport = await generateProblemReport({
+      fullResponse: "",
+      appPath: await getAppPath(appId),
+    });
+    return selectProblemsToFix(
+      problemReport,
+      readSettings().autoFixLintSeverities,
+    );
+  } catch (error) {
+    // Apps with neither a TypeScript setup nor Python code can't be checked
+    logger.warn(`Could not generate problem report for app ${appId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Parse the bullet list returned by the critique model call
+ */
+export function parseImprovements(critique: string): string[] {
+  if (critique.includes(NO_IMPROVEMENTS_MARKER)) {
+    return [];
+  }
+  return critique
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => /^([-*•]|\d+[.)])\s+/.test(line))
+    .map((line) => line.replace(/^([-*•]|\d+[.)])\s+/, "").trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Review a component: problems from the problem report come first,
+ * followed by the model's critique of the codebase.
+ */
+export async function critiqueCode({
+  appId,
+  component,
+  requirements,
+}: {
+  appId: number;
+  component: DevelopmentComponent;
+  requirements: string[];
+}): Promise<string[]> {
+  const improvements: string[] = [];
+
+  const problemReport = await checkProblems(appId);
+  if (problemReport && problemReport.problems.length > 0) {
+    improvements.push(createProblemFixPrompt(problemReport));
+  }
+
+  const critique = await callModel({
+    appId,
+    system: CRITIQUE_SYSTEM_PROMPT,
+    prompt: `Review the ${component} of this app.${
+      requirements.length > 0
+        ? `\n\nThe requirements are:\n${requirements.join("\n")}`
+        : ""
+    }`,
+  });
+  improvements.push(...parseImprovements(critique));
+
+  return improvements;
+}
+
+/**
+ * Work out how to run a component's tests, or undefined if it has none
+ */
+export function detectTestCommand(componentPath: string): string | undefined {
+  const packageJsonPath = path.join(componentPath, "package.json");
+  if (fs.existsSync(packageJsonPath)) {
+    try {
+      const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf8"));
+      const testScript: string | undefined = packageJson.scripts?.test;
+      // Skip the placeholder script that `npm init` generates
+      if (testScript && !testScript.includes("no test specified")) {
+        return "npm test";
+      }
+    } catch (error) {
+      logger.warn(`Could not read ${packageJsonPath}:`, error);
+    }
+    return undefined;
+  }
+
+  if (
+    fs.existsSync(path.join(componentPath, "pytest.ini")) ||
+    fs.existsSync(path.join(componentPath, "tests"))
+  ) {
+    return "python -m pytest";
+  }
+  if (fs.existsSync(path.join(componentPath, "go.mod"))) {
+    return "go test ./...";
+  }
+  return undefined;
+}
+
+function runCommandWithOutput(
+  command: string,
+  cwd: string,
+): Promise<{ exitCode: number | null; output: string }> {
+  return new Promise((resolve) => {
+    let output = "";
+    const childProcess = spawn(command, {
+      shell: true,
+      cwd,
+      stdio: ["ignore", "pipe", "pipe"],
+      env: { ...getShellEnv(), CI: "true" },
+    });
+    const timeout = setTimeout(() => {
+      output += `\nTimed out after ${TEST_TIMEOUT_MS / 1000} seconds`;
+      // The command runs in a shell, so its children have to be killed too
+      if (childProcess.pid !== undefined) {
+        treeKill(childProcess.pid, "SIGTERM", (error) => {
+          if (error) {
+            logger.warn(`Failed to kill test command ${command}:`, error);
+          }
+        });
+      }
+    }, TEST_TIMEOUT_MS);
+
+    childProcess.stdout?.on("data", (data) => {
+      output += data.toString();
+    });
+    childProcess.stderr?.on("data", (data) => {
+      output += data.toString();
+    });
+    childProcess.on("error", (error) => {
+      clearTimeout(timeout);
+      resolve({ exitCode: null, output: `${output}\n${error.message}` });
+    });
+    childProcess.on("close", (code) => {
+      clearTimeout(timeout);
+      resolve({ exitCode: code, output });
+    });
+  });
+}
+
+/**
+ * Run the test command of a component of the generated project.
+ *
+ * Returns undefined when the component has no tests to run.
+ */
+export async function runProjectTests({
+  appId,
+  component,
+}: {
+  appId: number;
+  component: DevelopmentComponent;
+}): Promise<ProjectTestResult | undefined> {
+  const appPath = await getAppPath(appId);
+  const componentPath = fs.existsSync(path.join(appPath, component))
+    ? path.join(appPath, component)
+    : appPath;
+
+  const command = detectTestCommand(componentPath);
+  if (!command) {
+    logger.info(`No test command found for ${component} of app ${appId}`);
+    return undefined;
+  }
+
+  logger.info(`Running "${command}" in ${componentPath}`);
+  const { exitCode, output } = await runCommandWithOutput(
+    command,
+    componentPath,
+  );
+  return {
+    command,
+    cwd: componentPath,
+    passed: exitCode === 0,
+    output: output.trim().slice(-MAX_TEST_OUTPUT_CHARS),
+  };
+}
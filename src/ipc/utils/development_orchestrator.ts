@@ -3,10 +3,25 @@ import fs from "fs-extra";
 import log from "electron-log";
 import { runShellCommand } from "./runShellCommand";
 import { addTerminalOutput } from "../handlers/terminal_handlers";
+import {
+  checkProblems,
+  critiqueCode,
+  getDevelopmentChatId,
+  runDevelopmentTurn,
+  runProjectTests,
+  type DevelopmentComponent,
+} from "./development_agent";
+import { readSettings } from "../../main/settings";
+import { AUTONOMOUS_ITERATION_BUDGET } from "../../constants/settings_constants";
+import { createProblemFixPrompt } from "@/shared/problem_prompt";
 import { getDyadAppPath } from "../../paths/paths";
 import { db } from "../../db";
-import { apps } from "../../db/schema";
-import { eq } from "drizzle-orm";
+import { apps, developmentRuns } from "../../db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import type {
+  DevelopmentPhaseHistoryEntry,
+  DevelopmentRun,
+} from "../ipc_types";
 
 const logger = log.scope("development_orchestrator");
 
@@ -30,12 +45,23 @@ export enum DevelopmentPhase {
   ERROR = "error",
 }
 
+/**
+ * Phases that interrupt a run rather than complete the one before them
+ */
+const INTERRUPTION_PHASES: ReadonlySet<string> = new Set([
+  DevelopmentPhase.ERROR,
+  DevelopmentPhase.HUMAN_INTERVENTION,
+]);
+
 /**
  * Development state interface
  */
 export interface DevelopmentState {
+  runId?: number;
   appId: number;
   phase: DevelopmentPhase;
+  lastCompletedPhase?: DevelopmentPhase;
+  phaseHistory: DevelopmentPhaseHistoryEntry[];
   isActive: boolean;
   lastActivity: Date;
   frontendComplete: boolean;
@@ -49,13 +75,22 @@ export interface DevelopmentState {
     backendFramework?: string;
     requirements?: string[];
     improvements?: string[];
+    // Chat that holds the autonomous development turns
+    chatId?: number;
+    // Review/fix rounds used so far, per budget
+    iterations?: Record<string, number>;
+    // Failing test or type-check output to fix in the next improvement phase
+    testFailures?: string;
     [key: string]: any;
   };
 }
 
 /**
  * Autonomous Development Orchestrator
- * Manages the autonomous development flow from frontend to backend
+ * Manages the autonomous development flow from frontend to backend.
+ *
+ * Every run is persisted in the `development_runs` table as it moves through
+ * its phases, so it can be resumed after the app is relaunched.
  */
 export class DevelopmentOrchestrator {
   private static instance: DevelopmentOrchestrator;
@@ -93,6 +128,7 @@ export class DevelopmentOrchestrator {
       humanInterventionRequired: false,
       errors: [],
       progress: 0,
+      phaseHistory: [],
       metadata: {
         frontendFramework,
         backendFramework,
@@ -103,6 +139,8 @@ export class DevelopmentOrchestrator {
     this.activeDevelopments.set(appId, state);
 
     try {
+      state.runId = await this.createRun(state);
+
       // Start the development flow
       await this.executeDevelopmentPhase(state);
     } catch (error) {
@@ -118,24 +156,236 @@ export class DevelopmentOrchestrator {
    * Continue development after human intervention
    */
   public async continueAfterHumanIntervention(appId: number): Promise<void> {
-    const state = this.activeDevelopments.get(appId);
+    const state =
+      this.activeDevelopments.get(appId) ??
+      (await this.loadLatestDevelopmentState(appId));
     if (!state) {
       throw new Error(`No active development found for app ${appId}`);
     }
+    if (state.phase === DevelopmentPhase.COMPLETION && !state.isActive) {
+      throw new Error(`Development for app ${appId} is already complete`);
+    }
 
+    this.activeDevelopments.set(appId, state);
     state.humanInterventionRequired = false;
     state.humanInterventionMessage = undefined;
+    state.isActive = true;
+    // The user stepped in, so every phase gets a fresh iteration budget
+    state.metadata.iterations = {};
+    state.phase = this.getResumePhase(state);
     state.lastActivity = new Date();
 
     await this.executeDevelopmentPhase(state);
   }
 
+  /**
+   * Resume every run that was still active when the app was last closed.
+   *
+   * Runs restart at the phase that was in progress, i.e. the one after the
+   * last completed phase. They are not awaited, so this doesn't hold up
+   * startup.
+   */
+  public async resumeInterruptedDevelopments(): Promise<void> {
+    const rows = await db
+      .select()
+      .from(developmentRuns)
+      .where(eq(developmentRuns.isActive, true));
+
+    for (const row of rows) {
+      const state = this.rowToState(row);
+      if (this.activeDevelopments.has(state.appId)) {
+        continue;
+      }
+      logger.info(
+        `Resuming development run ${state.runId} for app ${state.appId} at phase ${state.phase}`,
+      );
+      this.activeDevelopments.set(state.appId, state);
+      state.phase = this.getResumePhase(state);
+      this.executeDevelopmentPhase(state).catch((error) =>
+        this.handleDevelopmentError(
+          state,
+          error instanceof Error ? error.message : String(error),
+        ),
+      );
+    }
+  }
+
+  /**
+   * List the persisted runs for an app, most recent first
+   */
+  public async listDevelopmentRuns(appId: number): Promise<DevelopmentRun[]> {
+    const rows = await db
+      .select()
+      .from(developmentRuns)
+      .where(eq(developmentRuns.appId, appId))
+      .orderBy(desc(developmentRuns.id));
+
+    return rows.map((row) => ({
+      id: row.id,
+      appId: row.appId,
+      phase: row.phase,
+      lastCompletedPhase: row.lastCompletedPhase,
+      isActive: row.isActive,
+      progress: row.progress,
+      frontendComplete: row.frontendComplete,
+      backendComplete: row.backendComplete,
+      humanInterventionRequired: row.humanInterventionRequired,
+      humanInterventionMessage: row.humanInterventionMessage,
+      errors: (row.errors as string[] | null) ?? [],
+      phaseHistory:
+        (row.phaseHistory as DevelopmentPhaseHistoryEntry[] | null) ?? [],
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    }));
+  }
+
+  /**
+   * The phase a run should continue from: the current phase, unless the run
+   * was interrupted, in which case the phase that was interrupted.
+   */
+  private getResumePhase(state: DevelopmentState): DevelopmentPhase {
+    if (!INTERRUPTION_PHASES.has(state.phase)) {
+      return state.phase;
+    }
+    const interrupted = [...state.phaseHistory]
+      .reverse()
+      .find((entry) => !INTERRUPTION_PHASES.has(entry.phase));
+    return (
+      (interrupted?.phase as DevelopmentPhase) ?? DevelopmentPhase.INITIALIZING
+    );
+  }
+
+  /**
+   * Record entering `state.phase` in the phase history and persist the state.
+   *
+   * Moving on to a new phase completes the previous one, unless the run is
+   * being interrupted by an error or a request for human intervention.
+   */
+  private async recordPhase(
+    state: DevelopmentState,
+    message?: string,
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const current = state.phaseHistory[state.phaseHistory.length - 1];
+
+    if (current?.phase !== state.phase) {
+      if (
+        current &&
+        !current.completedAt &&
+        !INTERRUPTION_PHASES.has(state.phase)
+      ) {
+        current.completedAt = now;
+        if (!INTERRUPTION_PHASES.has(current.phase)) {
+          state.lastCompletedPhase = current.phase as DevelopmentPhase;
+        }
+      }
+      state.phaseHistory.push({ phase: state.phase, startedAt: now, message });
+    }
+
+    state.lastActivity = new Date();
+    await this.saveState(state);
+  }
+
+  private async createRun(state: DevelopmentState): Promise<number> {
+    // Only one run per app is active at a time
+    await db
+      .update(developmentRuns)
+      .set({ isActive: false })
+      .where(
+        and(
+          eq(developmentRuns.appId, state.appId),
+          eq(developmentRuns.isActive, true),
+        ),
+      );
+
+    const [row] = await db
+      .insert(developmentRuns)
+      .values({
+        appId: state.appId,
+        phase: state.phase,
+        isActive: state.isActive,
+        errors: state.errors,
+        metadata: state.metadata,
+        phaseHistory: state.phaseHistory,
+      })
+      .returning({ id: developmentRuns.id });
+    return row.id;
+  }
+
+  private async saveState(state: DevelopmentState): Promise<void> {
+    if (state.runId === undefined) {
+      return;
+    }
+    try {
+      await db
+        .update(developmentRuns)
+        .set({
+          phase: state.phase,
+          lastCompletedPhase: state.lastCompletedPhase ?? null,
+          isActive: state.isActive,
+          frontendComplete: state.frontendComplete,
+          backendComplete: state.backendComplete,
+          humanInterventionRequired: state.humanInterventionRequired,
+          humanInterventionMessage: state.humanInterventionMessage ?? null,
+          progress: state.progress,
+          errors: state.errors,
+          metadata: state.metadata,
+          phaseHistory: state.phaseHistory,
+          updatedAt: state.lastActivity,
+        })
+        .where(eq(developmentRuns.id, state.runId));
+    } catch (error) {
+      // Losing persistence shouldn't stop a run that is otherwise healthy
+      logger.error(`Failed to persist development run ${state.runId}:`, error);
+    }
+  }
+
+  private async loadLatestDevelopmentState(
+    appId: number,
+  ): Promise<DevelopmentState | undefined> {
+    const row = await db.query.developmentRuns.findFirst({
+      where: eq(developmentRuns.appId, appId),
+      orderBy: [desc(developmentRuns.id)],
+    });
+    return row ? this.rowToState(row) : undefined;
+  }
+
+  private rowToState(
+    row: typeof developmentRuns.$inferSelect,
+  ): DevelopmentState {
+    return {
+      runId: row.id,
+      appId: row.appId,
+      phase: row.phase as DevelopmentPhase,
+      lastCompletedPhase: (row.lastCompletedPhase ?? undefined) as
+        | DevelopmentPhase
+        | undefined,
+      isActive: row.isActive,
+      lastActivity: row.updatedAt,
+      frontendComplete: row.frontendComplete,
+      backendComplete: row.backendComplete,
+      humanInterventionRequired: row.humanInterventionRequired,
+      humanInterventionMessage: row.humanInterventionMessage ?? undefined,
+      errors: (row.errors as string[] | null) ?? [],
+      progress: row.progress,
+      phaseHistory:
+        (row.phaseHistory as DevelopmentPhaseHistoryEntry[] | null) ?? [],
+      metadata: (row.metadata as DevelopmentState["metadata"] | null) ?? {},
+    };
+  }
+
   /**
    * Execute the current development phase
    */
   private async executeDevelopmentPhase(
     state: DevelopmentState,
   ): Promise<void> {
+    if (!state.isActive) {
+      logger.info(`Development for app ${state.appId} is no longer active`);
+      return;
+    }
+    await this.recordPhase(state);
+
     switch (state.phase) {
       case DevelopmentPhase.INITIALIZING:
         await this.handleInitializingPhase(state);
@@ -288,16 +538,28 @@ export class DevelopmentOrchestrator {
       const improvements = await this.reviewCodeQuality(state, "frontend");
 
       if (improvements.length > 0) {
+        if (
+          !(await this.consumeIteration(
+            state,
+            "frontend",
+            `Frontend review still found improvements after the iteration budget was used up:\n${improvements.join("\n")}`,
+          ))
+        ) {
+          return;
+        }
         state.metadata.improvements = improvements;
         state.phase = DevelopmentPhase.FRONTEND_IMPROVEMENT;
         state.progress = 50;
       } else {
-        // Frontend is good, move to backend
+        // Frontend is good, move to the backend unless it's already done
         state.frontendComplete = true;
-        state.phase = state.metadata.backendFramework
+        state.metadata.improvements = [];
+        const needsBackend =
+          !!state.metadata.backendFramework && !state.backendComplete;
+        state.phase = needsBackend
           ? DevelopmentPhase.BACKEND_SETUP
-          : DevelopmentPhase.COMPLETION;
-        state.progress = state.metadata.backendFramework ? 55 : 100;
+          : DevelopmentPhase.INTEGRATION;
+        state.progress = needsBackend ? 55 : 96;
       }
 
       state.lastActivity = new Date();
@@ -424,12 +686,22 @@ export class DevelopmentOrchestrator {
       const improvements = await this.reviewCodeQuality(state, "backend");
 
       if (improvements.length > 0) {
+        if (
+          !(await this.consumeIteration(
+            state,
+            "backend",
+            `Backend review still found improvements after the iteration budget was used up:\n${improvements.join("\n")}`,
+          ))
+        ) {
+          return;
+        }
         state.metadata.improvements = improvements;
         state.phase = DevelopmentPhase.BACKEND_IMPROVEMENT;
         state.progress = 90;
       } else {
         // Backend is good, move to integration
         state.backendComplete = true;
+        state.metadata.improvements = [];
         state.phase = DevelopmentPhase.INTEGRATION;
         state.progress = 92;
       }
@@ -480,10 +752,15 @@ export class DevelopmentOrchestrator {
 
     try {
       // Test frontend-backend integration
-      await this.testIntegration(state);
-
-      state.phase = DevelopmentPhase.TESTING;
-      state.progress = 98;
+      const failure = await this.testIntegration(state);
+      if (failure) {
+        if (!(await this.routeFailureToImprovement(state, failure))) {
+          return;
+        }
+      } else {
+        state.phase = DevelopmentPhase.TESTING;
+        state.progress = 98;
+      }
       state.lastActivity = new Date();
 
       await this.executeDevelopmentPhase(state);
@@ -504,10 +781,15 @@ export class DevelopmentOrchestrator {
 
     try {
       // Run automated tests
-      await this.runTests(state);
-
-      state.phase = DevelopmentPhase.COMPLETION;
-      state.progress = 100;
+      const failure = await this.runTests(state);
+      if (failure) {
+        if (!(await this.routeFailureToImprovement(state, failure))) {
+          return;
+        }
+      } else {
+        state.phase = DevelopmentPhase.COMPLETION;
+        state.progress = 100;
+      }
       state.lastActivity = new Date();
 
       await this.executeDevelopmentPhase(state);
@@ -526,6 +808,10 @@ export class DevelopmentOrchestrator {
     logger.info(`Completing development for app ${state.appId}`);
     state.progress = 100;
     state.isActive = false;
+    state.phaseHistory[state.phaseHistory.length - 1].completedAt =
+      new Date().toISOString();
+    state.lastCompletedPhase = DevelopmentPhase.COMPLETION;
+    await this.saveState(state);
 
     // Clean up development state
     this.activeDevelopments.delete(state.appId);
@@ -553,6 +839,7 @@ export class DevelopmentOrchestrator {
     // Send error notification and request human intervention
     state.humanInterventionRequired = true;
     state.humanInterventionMessage = `Development encountered an error: ${error}. Please review and continue.`;
+    await this.recordPhase(state, state.humanInterventionMessage);
 
     await this.sendNotification(
       state.appId,
@@ -561,6 +848,89 @@ export class DevelopmentOrchestrator {
     );
   }
 
+  /**
+   * Pause the run until the user has looked at it
+   */
+  private async requestHumanIntervention(
+    state: DevelopmentState,
+    message: string,
+  ): Promise<void> {
+    logger.info(
+      `Development for app ${state.appId} needs human intervention: ${message}`,
+    );
+    state.phase = DevelopmentPhase.HUMAN_INTERVENTION;
+    state.isActive = false;
+    state.humanInterventionRequired = true;
+    state.humanInterventionMessage = message;
+    await this.recordPhase(state, message);
+
+    await this.sendNotification(state.appId, message, "info");
+  }
+
+  /**
+   * Use up one review/fix round of the given budget.
+   *
+   * Returns false, after requesting human intervention, when the budget is
+   * already used up.
+   */
+  private async consumeIteration(
+    state: DevelopmentState,
+    budget: string,
+    exhaustedMessage: string,
+  ): Promise<boolean> {
+    const limit =
+      readSettings().autonomousIterationBudget ?? AUTONOMOUS_ITERATION_BUDGET;
+    const iterations = (state.metadata.iterations ??= {});
+    const used = iterations[budget] ?? 0;
+
+    if (used >= limit) {
+      await this.requestHumanIntervention(state, exhaustedMessage);
+      return false;
+    }
+    iterations[budget] = used + 1;
+    return true;
+  }
+
+  /**
+   * Feed a failed check back into the improvement phase of the component
+   * that failed. Returns false when the testing budget is used up.
+   */
+  private async routeFailureToImprovement(
+    state: DevelopmentState,
+    failure: { component: DevelopmentComponent; output: string },
+  ): Promise<boolean> {
+    if (
+      !(await this.consumeIteration(
+        state,
+        "testing",
+        `The ${failure.component} still fails its checks after the iteration budget was used up:\n${failure.output}`,
+      ))
+    ) {
+      return false;
+    }
+
+    state.metadata.testFailures = failure.output;
+    state.metadata.improvements = [];
+    if (failure.component === "backend") {
+      state.backendComplete = false;
+      state.phase = DevelopmentPhase.BACKEND_IMPROVEMENT;
+      state.progress = 90;
+    } else {
+      state.frontendComplete = false;
+      state.phase = DevelopmentPhase.FRONTEND_IMPROVEMENT;
+      state.progress = 50;
+    }
+    return true;
+  }
+
+  private async getChatId(state: DevelopmentState): Promise<number> {
+    state.metadata.chatId = await getDevelopmentChatId(
+      state.appId,
+      state.metadata.chatId,
+    );
+    return state.metadata.chatId;
+  }
+
   /**
    * Start frontend development server
    */
@@ -675,67 +1045,114 @@ Current AI_RULES.md contains development guidelines. Follow them strictly.
   }
 
   /**
-   * Review code quality using LLM
+   * Review code quality using the problem report and an LLM critique
    */
   private async reviewCodeQuality(
     state: DevelopmentState,
-    component: "frontend" | "backend",
+    component: DevelopmentComponent,
   ): Promise<string[]> {
     logger.info(`Reviewing ${component} code quality for app ${state.appId}`);
 
-    // In a real implementation, this would analyze the code and call LLM for review
-    // For now, we'll return mock improvements
-    const mockImprovements = [
-      "Add proper error boundaries",
-      "Implement loading states",
-      "Add input validation",
-      "Improve accessibility",
-    ];
-
-    // Simulate LLM review time
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-
-    return Math.random() > 0.7 ? mockImprovements : []; // 30% chance of finding improvements
+    return critiqueCode({
+      appId: state.appId,
+      component,
+      requirements: state.metadata.requirements || [],
+    });
   }
 
   /**
-   * Apply code improvements suggested by LLM
+   * Apply the review's improvements, and fix any failing checks, through the
+   * chat pipeline
    */
   private async applyCodeImprovements(
     state: DevelopmentState,
-    component: "frontend" | "backend",
+    component: DevelopmentComponent,
   ): Promise<void> {
     const improvements = state.metadata.improvements || [];
+    const testFailures = state.metadata.testFailures;
 
     logger.info(
       `Applying ${improvements.length} improvements to ${component} for app ${state.appId}`,
     );
 
-    // In a real implementation, this would apply the LLM suggestions
-    // For now, we'll simulate the work
-    await new Promise((resolve) => setTimeout(resolve, 1500));
+    let prompt = `Improve the ${component} of this app.`;
+    if (improvements.length > 0) {
+      prompt += `\n\nMake these changes:\n${improvements
+        .map((improvement, index) => `${index + 1}. ${improvement}`)
+        .join("\n")}`;
+    }
+    if (testFailures) {
+      prompt += `\n\nThe checks are failing. Fix the code so they pass:\n\`\`\`\n${testFailures}\n\`\`\``;
+    }
+
+    await runDevelopmentTurn({
+      appId: state.appId,
+      chatId: await this.getChatId(state),
+      component,
+      prompt,
+      summary: `Autonomous ${component} improvements`,
+    });
+
+    state.metadata.improvements = [];
+    state.metadata.testFailures = undefined;
   }
 
   /**
-   * Test frontend-backend integration
+   * Type-check and lint the whole app now that frontend and backend are
+   * in place.
+   *
+   * Returns the failure to fix, if any.
    */
-  private async testIntegration(state: DevelopmentState): Promise<void> {
+  private async testIntegration(
+    state: DevelopmentState,
+  ): Promise<{ component: DevelopmentComponent; output: string } | undefined> {
     logger.info(`Testing integration for app ${state.appId}`);
 
-    // In a real implementation, this would run integration tests
-    // For now, we'll simulate testing
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    const problemReport = await checkProblems(state.appId);
+    if (!problemReport || problemReport.problems.length === 0) {
+      return undefined;
+    }
+    const component = problemReport.problems.every((problem) =>
+      problem.file.startsWith("backend/"),
+    )
+      ? "backend"
+      : "frontend";
+    return { component, output: createProblemFixPrompt(problemReport) };
   }
 
   /**
-   * Run automated tests
+   * Run the generated project's test command for each component.
+   *
+   * Returns the first failure to fix, if any.
    */
-  private async runTests(state: DevelopmentState): Promise<void> {
+  private async runTests(
+    state: DevelopmentState,
+  ): Promise<{ component: DevelopmentComponent; output: string } | undefined> {
     logger.info(`Running tests for app ${state.appId}`);
 
-    // In a real implementation, this would run test suites
-    // For now, we'll simulate testing
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+    const components: DevelopmentComponent[] = state.metadata.backendFramework
+      ? ["frontend", "backend"]
+      : ["frontend"];
+
+    for (const component of components) {
+      const result = await runProjectTests({ appId: state.appId, component });
+      if (!result) {
+        continue;
+      }
+      addTerminalOutput(
+        state.appId,
+        component,
+        `$ ${result.command}\n${result.output}`,
+        result.passed ? "output" : "error",
+      );
+      if (!result.passed) {
+        return {
+          component,
+          output: `$ ${result.command}\n${result.output}`,
+        };
+      }
+    }
+    return undefined;
   }
 
   /**
@@ -769,11 +1186,12 @@ Current AI_RULES.md contains development guidelines. Follow them strictly.
   /**
    * Stop development for an app
    */
-  public stopDevelopment(appId: number): void {
+  public async stopDevelopment(appId: number): Promise<void> {
     const state = this.activeDevelopments.get(appId);
     if (state) {
       state.isActive = false;
       state.phase = DevelopmentPhase.ERROR;
+      await this.recordPhase(state, "Stopped by the user");
       logger.info(`Stopped development for app ${appId}`);
     }
   }
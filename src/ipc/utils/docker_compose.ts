@@ -0,0 +1,452 @@
+import { ChildProcess, spawn } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import log from "electron-log";
+import { addTerminalOutput } from "../handlers/terminal_handlers";
+
+const logger = log.scope("docker_compose");
+
+export const COMPOSE_FILE_NAME = "docker-compose.dyad.yml";
+
+export type ComposeBackendFramework =
+  | "django"
+  | "fastapi"
+  | "flask"
+  | "go"
+  | "nodejs"
+  | "python"
+  | "spring-lite";
+
+export type ComposeService = "frontend" | "backend" | "db";
+
+/** Named volumes the compose project may create, without the project prefix */
+export const COMPOSE_VOLUMES = [
+  "frontend_node_modules",
+  "backend_node_modules",
+  "backend_venv",
+  "backend_go_modules",
+  "backend_maven_repo",
+  "postgres_data",
+] as const;
+
+export interface ComposeProjectOptions {
+  appId: number;
+  /** Folder of the frontend relative to the app, or null if it has none */
+  frontendDir: string | null;
+  /** Folder of the backend relative to the app, or null if it has none */
+  backendDir: string | null;
+  backendFramework: ComposeBackendFramework;
+  frontendPort: number;
+  backendPort: number;
+  withPostgres: boolean;
+  /** Whether the backend folder has a .env file to load */
+  hasBackendEnvFile: boolean;
+}
+
+const PYTHON_PATH =
+  "/venv/bin:/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin";
+
+const POSTGRES_URL = "postgresql://dyad:dyad@db:5432/app";
+
+export function getComposeProjectName(appId: number): string {
+  return `dyad-app-${appId}`;
+}
+
+// Bind mounts need a path starting with "." to not be taken for a volume
+function toBindPath(dir: string): string {
+  return dir === "." ? "." : `./${dir}`;
+}
+
+interface BackendRuntime {
+  image: string;
+  /** Named volume that keeps installed dependencies between runs */
+  dependencyVolume: (typeof COMPOSE_VOLUMES)[number];
+  /** Where the dependency volume is mounted in the container */
+  dependencyPath: string;
+  environment?: Record<string, string>;
+}
+
+function getBackendRuntime(framework: ComposeBackendFramework): BackendRuntime {
+  switch (framework) {
+    case "nodejs":
+      return {
+        image: "node:22-alpine",
+        dependencyVolume: "backend_node_modules",
+        dependencyPath: "/app/node_modules",
+      };
+    case "go":
+      return {
+        image: "golang:1.22-alpine",
+        dependencyVolume: "backend_go_modules",
+        dependencyPath: "/go/pkg/mod",
+      };
+    case "spring-lite":
+      return {
+        image: "maven:3.9-eclipse-temurin-17",
+        dependencyVolume: "backend_maven_repo",
+        dependencyPath: "/root/.m2",
+      };
+    default:
+      return {
+        image: "python:3.12-slim",
+        dependencyVolume: "backend_venv",
+        dependencyPath: "/venv",
+        environment: { PATH: PYTHON_PATH, PYTHONUNBUFFERED: "1" },
+      };
+  }
+}
+
+function getBackendCommand(
+  framework: ComposeBackendFramework,
+  port: number,
+): string {
+  switch (framework) {
+    case "nodejs":
+      return "npm install && npm start";
+    case "go":
+      return "go mod download && go run .";
+    case "spring-lite":
+      return "mvn -q spring-boot:run";
+  }
+
+  const install =
+    "([ -x /venv/bin/python ] || python -m venv /venv) && (if [ -f requirements.txt ]; then pip install -r requirements.txt; fi)";
+  switch (framework) {
+    case "django":
+      return `${install} && python manage.py migrate && python manage.py runserver 0.0.0.0:${port}`;
+    case "fastapi":
+      return `${install} && uvicorn main:app --reload --host 0.0.0.0 --port ${port}`;
+    case "flask":
+      return `${install} && flask --app app run --debug --host 0.0.0.0 --port ${port}`;
+    default:
+      return `${install} && python main.py`;
+  }
+}
+
+/**
+ * The compose file for an app. Services publish the same port they listen
+ * on, so the URLs they log are reachable from the host.
+ *
+ * JSON is valid YAML, which spares us from quoting the shell commands.
+ */
+export function generateComposeFile(options: ComposeProjectOptions): string {
+  const services: Record<string, unknown> = {};
+  const volumes = new Set<string>();
+
+  if (options.withPostgres) {
+    services.db = {
+      image: "postgres:16-alpine",
+      environment: {
+        POSTGRES_USER: "dyad",
+        POSTGRES_PASSWORD: "dyad",
+        POSTGRES_DB: "app",
+      },
+      volumes: ["postgres_data:/var/lib/postgresql/data"],
+      healthcheck: {
+        test: ["CMD-SHELL", "pg_isready -U dyad -d app"],
+        interval: "2s",
+        timeout: "5s",
+        retries: 30,
+      },
+    };
+    volumes.add("postgres_data");
+  }
+
+  if (options.backendDir) {
+    const runtime = getBackendRuntime(options.backendFramework);
+    const environment: Record<string, string> = {
+      PORT: options.backendPort.toString(),
+      HOST: "0.0.0.0",
+      ...runtime.environment,
+    };
+    if (options.frontendDir) {
+      environment.FRONTEND_URL = `http://localhost:${options.frontendPort}`;
+    }
+    if (options.withPostgres) {
+      environment.DATABASE_URL = POSTGRES_URL;
+    }
+
+    services.backend = {
+      image: runtime.image,
+      working_dir: "/app",
+      command: [
+        "sh",
+        "-c",
+        getBackendCommand(options.backendFramework, options.backendPort),
+      ],
+      ...(options.hasBackendEnvFile
+        ? { env_file: [`${toBindPath(options.backendDir)}/.env`] }
+        : {}),
+      environment,
+      ports: [`${options.backendPort}:${options.backendPort}`],
+      volumes: [
+        `${toBindPath(options.backendDir)}:/app`,
+        `${runtime.dependencyVolume}:${runtime.dependencyPath}`,
+      ],
+      ...(options.withPostgres
+        ? { depends_on: { db: { condition: "service_healthy" } } }
+        : {}),
+    };
+    volumes.add(runtime.dependencyVolume);
+  }
+
+  if (options.frontendDir) {
+    services.frontend = {
+      image: "node:22-alpine",
+      working_dir: "/app",
+      command: [
+        "sh",
+        "-c",
+        `npm install --legacy-peer-deps && npm run dev -- --port ${options.frontendPort} --host 0.0.0.0`,
+      ],
+      environment: options.backendDir
+        ? { VITE_API_URL: `http://localhost:${options.backendPort}` }
+        : {},
+      ports: [`${options.frontendPort}:${options.frontendPort}`],
+      volumes: [
+        `${toBindPath(options.frontendDir)}:/app`,
+        "frontend_node_modules:/app/node_modules",
+      ],
+      ...(options.backendDir ? { depends_on: ["backend"] } : {}),
+    };
+    volumes.add("frontend_node_modules");
+  }
+
+  const compose = {
+    name: getComposeProjectName(options.appId),
+    services,
+    volumes: Object.fromEntries([...volumes].map((volume) => [volume, {}])),
+  };
+
+  return `# Generated for the Docker Compose runtime mode, overwritten on every run\n${JSON.stringify(compose, null, 2)}\n`;
+}
+
+/**
+ * Whether the backend uses Postgres, going by its dependencies and .env
+ */
+export function backendNeedsPostgres(backendPath: string): boolean {
+  const readIfExists = (file: string) => {
+    const filePath = path.join(backendPath, file);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : "";
+  };
+
+  if (/^\s*(psycopg|asyncpg)/im.test(readIfExists("requirements.txt"))) {
+    return true;
+  }
+
+  const packageJson = readIfExists("package.json");
+  if (packageJson) {
+    try {
+      const pkg = JSON.parse(packageJson);
+      const dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+      if (
+        ["pg", "postgres", "pg-promise"].some((name) => name in dependencies)
+      ) {
+        return true;
+      }
+    } catch (error) {
+      logger.warn(`Could not parse ${backendPath}/package.json:`, error);
+    }
+  }
+
+  return /^DATABASE_URL\s*=\s*["']?postgres/m.test(readIfExists(".env"));
+}
+
+function composeArgs(appId: number, args: string[]): string[] {
+  return [
+    "compose",
+    "-p",
+    getComposeProjectName(appId),
+    "-f",
+    COMPOSE_FILE_NAME,
+    ...args,
+  ];
+}
+
+function streamLines(
+  process: ChildProcess,
+  onLine: (line: string, isError: boolean) => void,
+) {
+  const attach = (stream: NodeJS.ReadableStream | null, isError: boolean) => {
+    let buffer = "";
+    stream?.on("data", (data: Buffer) => {
+      buffer += data.toString();
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (line.trim()) {
+          onLine(line, isError);
+        }
+      }
+    });
+    stream?.on("end", () => {
+      if (buffer.trim()) {
+        onLine(buffer, isError);
+      }
+    });
+  };
+  attach(process.stdout, false);
+  attach(process.stderr, true);
+}
+
+/**
+ * Run a `docker compose` command for an app to completion, streaming its
+ * output to a terminal
+ */
+function runCompose({
+  appId,
+  appPath,
+  args,
+  env,
+  terminal,
+}: {
+  appId: number;
+  appPath: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+  terminal: "frontend" | "backend";
+}): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const process = spawn("docker", composeArgs(appId, args), {
+      cwd: appPath,
+      env,
+      stdio: "pipe",
+    });
+    let output = "";
+    // docker compose writes its progress to stderr, so it isn't an error
+    streamLines(process, (line) => {
+      output += `${line}\n`;
+      addTerminalOutput(appId, terminal, line, "output");
+    });
+    process.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(
+          new Error(
+            `docker compose ${args[0]} failed with code ${code}: ${output.slice(-2000)}`,
+          ),
+        );
+      }
+    });
+    process.on("error", (error) => reject(error));
+  });
+}
+
+async function checkDockerCompose(env: NodeJS.ProcessEnv): Promise<void> {
+  const available = await new Promise<boolean>((resolve) => {
+    const check = spawn("docker", ["compose", "version"], {
+      stdio: "pipe",
+      env,
+    });
+    check.on("close", (code) => resolve(code === 0));
+    check.on("error", () => resolve(false));
+  });
+  if (!available) {
+    throw new Error(
+      "Docker Compose is required but not available. Please install Docker Desktop and ensure it's running.",
+    );
+  }
+}
+
+/**
+ * Write the compose file of an app and start its services in the background.
+ * Any containers left from a previous run are removed first.
+ */
+export async function startComposeProject({
+  appPath,
+  env,
+  ...options
+}: ComposeProjectOptions & {
+  appPath: string;
+  env: NodeJS.ProcessEnv;
+}): Promise<{ projectName: string; composeFile: string }> {
+  await checkDockerCompose(env);
+
+  const composeFile = path.join(appPath, COMPOSE_FILE_NAME);
+  await fs.promises.writeFile(
+    composeFile,
+    generateComposeFile(options),
+    "utf-8",
+  );
+
+  const terminal = options.frontendDir ? "frontend" : "backend";
+  const { appId } = options;
+  addTerminalOutput(
+    appId,
+    terminal,
+    `docker compose -p ${getComposeProjectName(appId)} up -d`,
+    "command",
+  );
+  try {
+    await runCompose({
+      appId,
+      appPath,
+      args: ["down", "--remove-orphans"],
+      env,
+      terminal,
+    });
+  } catch (error) {
+    logger.warn(`Could not remove the previous compose project:`, error);
+  }
+  await runCompose({
+    appId,
+    appPath,
+    args: ["up", "-d", "--remove-orphans"],
+    env,
+    terminal,
+  });
+  addTerminalOutput(appId, terminal, "Compose services started", "success");
+
+  return { projectName: getComposeProjectName(appId), composeFile };
+}
+
+/**
+ * Follow the logs of one service. The process exits when the service's
+ * container is removed.
+ */
+export function spawnComposeLogs({
+  appId,
+  appPath,
+  service,
+  env,
+}: {
+  appId: number;
+  appPath: string;
+  service: ComposeService;
+  env: NodeJS.ProcessEnv;
+}): ChildProcess {
+  return spawn(
+    "docker",
+    composeArgs(appId, [
+      "logs",
+      "--follow",
+      "--no-color",
+      "--no-log-prefix",
+      service,
+    ]),
+    { cwd: appPath, env, stdio: "pipe" },
+  );
+}
+
+/**
+ * Follow the logs of one service into the frontend or backend terminal
+ */
+export function streamComposeLogsToTerminal({
+  terminal,
+  ...params
+}: Parameters<typeof spawnComposeLogs>[0] & {
+  terminal: "frontend" | "backend";
+}): ChildProcess {
+  const process = spawnComposeLogs(params);
+  const prefix = params.service === "db" ? "[db] " : "";
+  streamLines(process, (line, isError) =>
+    addTerminalOutput(
+      params.appId,
+      terminal,
+      `${prefix}${line}`,
+      isError ? "error" : "output",
+    ),
+  );
+  return process;
+}
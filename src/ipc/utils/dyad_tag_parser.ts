@@ -1,68 +1,95 @@
 import { normalizePath } from "../../../shared/normalizePath";
 import log from "electron-log";
 import { SqlQuery } from "../../lib/schemas";
+import {
+  DyadDocument,
+  DyadNodeKind,
+  DyadTagNode,
+  getDyadTagNodes,
+  parseDyadResponse,
+} from "../../shared/dyad_tag_stream_parser";
+import {
+  SearchReplaceHunk,
+  parseSearchReplaceHunks,
+} from "../../shared/search_replace";
 
 const logger = log.scope("dyad_tag_parser");
 
-export function getDyadWriteTags(fullResponse: string): {
+/**
+ * All getters accept either the raw response or a document that was already
+ * parsed (e.g. by the streaming parser in chat_stream_handlers), so a
+ * response only needs to be parsed once.
+ */
+export type DyadResponse = string | DyadDocument;
+
+export function toDyadDocument(response: DyadResponse): DyadDocument {
+  return typeof response === "string" ? parseDyadResponse(response) : response;
+}
+
+function getTags(response: DyadResponse, kind: DyadNodeKind): DyadTagNode[] {
+  return getDyadTagNodes(toDyadDocument(response), kind);
+}
+
+function getClosedTags(
+  response: DyadResponse,
+  kind: DyadNodeKind,
+  tag?: string,
+): DyadTagNode[] {
+  return getTags(response, kind).filter(
+    (node) => node.closed && (tag === undefined || node.tag === tag),
+  );
+}
+
+function stripCodeFence(content: string): string {
+  const contentLines = content.split("\n");
+  if (contentLines[0]?.startsWith("```")) {
+    contentLines.shift();
+  }
+  if (contentLines[contentLines.length - 1]?.startsWith("```")) {
+    contentLines.pop();
+  }
+  return contentLines.join("\n");
+}
+
+export function getDyadWriteTags(fullResponse: DyadResponse): {
   path: string;
   content: string;
   description?: string;
 }[] {
-  const dyadWriteRegex = /<dyad-write([^>]*)>([\s\S]*?)<\/dyad-write>/gi;
-  const pathRegex = /path="([^"]+)"/;
-  const descriptionRegex = /description="([^"]+)"/;
-
-  let match;
+  const document = toDyadDocument(fullResponse);
   const tags: { path: string; content: string; description?: string }[] = [];
 
-  while ((match = dyadWriteRegex.exec(fullResponse)) !== null) {
-    const attributesString = match[1];
-    let content = match[2].trim();
-
-    const pathMatch = pathRegex.exec(attributesString);
-    const descriptionMatch = descriptionRegex.exec(attributesString);
+  for (const node of getClosedTags(document, "write")) {
+    const content = node.content.trim();
+    const path = node.attributes.path;
 
-    if (pathMatch && pathMatch[1]) {
+    if (path) {
       // Direct dyad-write tag with path attribute
-      const path = pathMatch[1];
-      const description = descriptionMatch?.[1];
-
-      const contentLines = content.split("\n");
-      if (contentLines[0]?.startsWith("```")) {
-        contentLines.shift();
-      }
-      if (contentLines[contentLines.length - 1]?.startsWith("```")) {
-        contentLines.pop();
-      }
-      content = contentLines.join("\n");
-
-      tags.push({ path: normalizePath(path), content, description });
+      tags.push({
+        path: normalizePath(path),
+        content: stripCodeFence(content),
+        description: node.attributes.description || undefined,
+      });
     } else {
-      // Check if content contains nested write_to_file or search_replace tags
-      const writeToFileTags = getWriteToFileTags(content);
-      const searchReplaceTags = getSearchReplaceTags(content);
+      // Check if content contains nested write_to_file or search_replace tags.
+      // Nested search_replace tags are returned by getSearchReplaceTags.
+      const nestedDocument = parseDyadResponse(content);
+      const writeToFileTags = getWriteToFileTags(nestedDocument);
+      const searchReplaceTags = getClosedTags(nestedDocument, "search-replace");
 
       // Add nested write_to_file tags
       for (const tag of writeToFileTags) {
-        tags.push({ path: tag.path, content: tag.content, description: undefined });
-      }
-
-      // Add nested search_replace tags (convert to write operations)
-      for (const tag of searchReplaceTags) {
-        // For search_replace in dyad-write context, we need to read the file and apply the changes
-        // But since this is parsing, we'll mark it for later processing
         tags.push({
-          path: tag.file,
-          content: `SEARCH_REPLACE:${tag.old_string}:${tag.new_string}`,
-          description: undefined
+          path: tag.path,
+          content: tag.content,
+          description: undefined,
         });
       }
 
       if (writeToFileTags.length === 0 && searchReplaceTags.length === 0) {
         logger.warn(
           "Found <dyad-write> tag without a valid 'path' attribute and no nested tags:",
-          match[0],
+          document.source.slice(node.start, node.end),
         );
       }
     }
@@ -70,251 +97,154 @@ export function getDyadWriteTags(fullResponse: string): {
   return tags;
 }
 
-export function getDyadRenameTags(fullResponse: string): {
+export function getDyadRenameTags(fullResponse: DyadResponse): {
   from: string;
   to: string;
 }[] {
-  const dyadRenameRegex =
-    /<dyad-rename from="([^"]+)" to="([^"]+)"[^>]*>([\s\S]*?)<\/dyad-rename>/g;
-  let match;
-  const tags: { from: string; to: string }[] = [];
-  while ((match = dyadRenameRegex.exec(fullResponse)) !== null) {
-    tags.push({
-      from: normalizePath(match[1]),
-      to: normalizePath(match[2]),
-    });
-  }
-  return tags;
+  return getClosedTags(fullResponse, "rename")
+    .filter((node) => node.attributes.from && node.attributes.to)
+    .map((node) => ({
+      from: normalizePath(node.attributes.from),
+      to: normalizePath(node.attributes.to),
+    }));
 }
 
-export function getDyadDeleteTags(fullResponse: string): string[] {
-  const dyadDeleteRegex =
-    /<dyad-delete path="([^"]+)"[^>]*>([\s\S]*?)<\/dyad-delete>/g;
-  let match;
-  const paths: string[] = [];
-  while ((match = dyadDeleteRegex.exec(fullResponse)) !== null) {
-    paths.push(normalizePath(match[1]));
-  }
-  return paths;
+export function getDyadDeleteTags(fullResponse: DyadResponse): string[] {
+  return getClosedTags(fullResponse, "delete")
+    .filter((node) => node.attributes.path)
+    .map((node) => normalizePath(node.attributes.path));
 }
 
-export function getDyadAddDependencyTags(fullResponse: string): string[] {
-  const dyadAddDependencyRegex =
-    /<dyad-add-dependency packages="([^"]+)">[^<]*<\/dyad-add-dependency>/g;
-  let match;
+export function getDyadAddDependencyTags(fullResponse: DyadResponse): string[] {
   const packages: string[] = [];
-  while ((match = dyadAddDependencyRegex.exec(fullResponse)) !== null) {
-    packages.push(...match[1].split(" "));
+  for (const node of getClosedTags(fullResponse, "add-dependency")) {
+    if (node.attributes.packages) {
+      packages.push(...node.attributes.packages.split(" "));
+    }
   }
   return packages;
 }
 
-export function getDyadChatSummaryTag(fullResponse: string): string | null {
-  const dyadChatSummaryRegex =
-    /<dyad-chat-summary>([\s\S]*?)<\/dyad-chat-summary>/g;
-  const match = dyadChatSummaryRegex.exec(fullResponse);
-  if (match && match[1]) {
-    return match[1].trim();
+export function getDyadChatSummaryTag(
+  fullResponse: DyadResponse,
+): string | null {
+  const [node] = getClosedTags(fullResponse, "chat-summary");
+  if (node && node.content) {
+    return node.content.trim();
   }
   return null;
 }
 
-export function getDyadExecuteSqlTags(fullResponse: string): SqlQuery[] {
-  const dyadExecuteSqlRegex =
-    /<dyad-execute-sql([^>]*)>([\s\S]*?)<\/dyad-execute-sql>/g;
-  const descriptionRegex = /description="([^"]+)"/;
-  let match;
-  const queries: { content: string; description?: string }[] = [];
-
-  while ((match = dyadExecuteSqlRegex.exec(fullResponse)) !== null) {
-    const attributesString = match[1] || "";
-    let content = match[2].trim();
-    const descriptionMatch = descriptionRegex.exec(attributesString);
-    const description = descriptionMatch?.[1];
-
+export function getDyadExecuteSqlTags(fullResponse: DyadResponse): SqlQuery[] {
+  return getClosedTags(fullResponse, "sql").map((node) => ({
     // Handle markdown code blocks if present
-    const contentLines = content.split("\n");
-    if (contentLines[0]?.startsWith("```")) {
-      contentLines.shift();
-    }
-    if (contentLines[contentLines.length - 1]?.startsWith("```")) {
-      contentLines.pop();
-    }
-    content = contentLines.join("\n");
-
-    queries.push({ content, description });
-  }
-
-  return queries;
+    content: stripCodeFence(node.content.trim()),
+    description: node.attributes.description || undefined,
+  }));
 }
 
-export function getDyadCommandTags(fullResponse: string): string[] {
-  const dyadCommandRegex =
-    /<dyad-command type="([^"]+)"[^>]*><\/dyad-command>/g;
-  let match;
-  const commands: string[] = [];
-
-  while ((match = dyadCommandRegex.exec(fullResponse)) !== null) {
-    commands.push(match[1]);
-  }
-
-  return commands;
+export function getDyadCommandTags(fullResponse: DyadResponse): string[] {
+  return getClosedTags(fullResponse, "command")
+    .filter((node) => node.attributes.type)
+    .map((node) => node.attributes.type);
 }
 
-export function getDyadRunBackendTerminalCmdTags(fullResponse: string): {
+function getTerminalCmdTags(
+  fullResponse: DyadResponse,
+  tag: string,
+): {
   command: string;
   cwd?: string;
   description?: string;
 }[] {
-  const dyadRunBackendTerminalCmdRegex =
-    /<dyad-run-backend-terminal-cmd([^>]*)>([\s\S]*?)<\/dyad-run-backend-terminal-cmd>/g;
-  const cwdRegex = /cwd="([^"]+)"/;
-  const descriptionRegex = /description="([^"]+)"/;
-
-  let match;
-  const commands: { command: string; cwd?: string; description?: string }[] = [];
-
-  while ((match = dyadRunBackendTerminalCmdRegex.exec(fullResponse)) !== null) {
-    const attributesString = match[1];
-    const command = match[2].trim();
-
-    const cwdMatch = cwdRegex.exec(attributesString);
-    const descriptionMatch = descriptionRegex.exec(attributesString);
-
-    const cwd = cwdMatch?.[1];
-    const description = descriptionMatch?.[1];
-
-    commands.push({ command, cwd, description });
-  }
-
-  return commands;
+  return getClosedTags(fullResponse, "terminal-command", tag).map((node) => ({
+    command: node.content.trim(),
+    cwd: node.attributes.cwd || undefined,
+    description: node.attributes.description || undefined,
+  }));
 }
 
-export function getDyadRunFrontendTerminalCmdTags(fullResponse: string): {
+export function getDyadRunBackendTerminalCmdTags(fullResponse: DyadResponse): {
   command: string;
   cwd?: string;
   description?: string;
 }[] {
-  const dyadRunFrontendTerminalCmdRegex =
-    /<dyad-run-frontend-terminal-cmd([^>]*)>([\s\S]*?)<\/dyad-run-frontend-terminal-cmd>/g;
-  const cwdRegex = /cwd="([^"]+)"/;
-  const descriptionRegex = /description="([^"]+)"/;
-
-  let match;
-  const commands: { command: string; cwd?: string; description?: string }[] = [];
-
-  while ((match = dyadRunFrontendTerminalCmdRegex.exec(fullResponse)) !== null) {
-    const attributesString = match[1];
-    const command = match[2].trim();
-
-    const cwdMatch = cwdRegex.exec(attributesString);
-    const descriptionMatch = descriptionRegex.exec(attributesString);
-
-    const cwd = cwdMatch?.[1];
-    const description = descriptionMatch?.[1];
-
-    commands.push({ command, cwd, description });
-  }
-
-  return commands;
+  return getTerminalCmdTags(fullResponse, "dyad-run-backend-terminal-cmd");
 }
 
-export function getDyadRunTerminalCmdTags(fullResponse: string): {
+export function getDyadRunFrontendTerminalCmdTags(fullResponse: DyadResponse): {
   command: string;
   cwd?: string;
   description?: string;
 }[] {
-  const dyadRunTerminalCmdRegex =
-    /<run_terminal_cmd([^>]*)>([\s\S]*?)<\/run_terminal_cmd>/g;
-  const cwdRegex = /cwd="([^"]+)"/;
-  const descriptionRegex = /description="([^"]+)"/;
-
-  let match;
-  const commands: { command: string; cwd?: string; description?: string }[] = [];
-
-  while ((match = dyadRunTerminalCmdRegex.exec(fullResponse)) !== null) {
-    const attributesString = match[1];
-    const command = match[2].trim();
-
-    const cwdMatch = cwdRegex.exec(attributesString);
-    const descriptionMatch = descriptionRegex.exec(attributesString);
-
-    const cwd = cwdMatch?.[1];
-    const description = descriptionMatch?.[1];
-
-    commands.push({ command, cwd, description });
-  }
+  return getTerminalCmdTags(fullResponse, "dyad-run-frontend-terminal-cmd");
+}
 
-  return commands;
+export function getDyadRunTerminalCmdTags(fullResponse: DyadResponse): {
+  command: string;
+  cwd?: string;
+  description?: string;
+}[] {
+  return getTerminalCmdTags(fullResponse, "run_terminal_cmd");
 }
 
-export function getWriteToFileTags(fullResponse: string): {
+export function getWriteToFileTags(fullResponse: DyadResponse): {
   path: string;
   content: string;
 }[] {
-  const writeToFileRegex = /<write_to_file path="([^"]+)">([\s\S]*?)<\/write_to_file>/g;
-
-  let match;
-  const tags: { path: string; content: string }[] = [];
-
-  while ((match = writeToFileRegex.exec(fullResponse)) !== null) {
-    const path = match[1];
-    let content = match[2];
-
-    // Remove leading/trailing whitespace and markdown code blocks
-    content = content.trim();
-    const contentLines = content.split("\n");
-    if (contentLines[0]?.startsWith("```")) {
-      contentLines.shift();
-    }
-    if (contentLines[contentLines.length - 1]?.startsWith("```")) {
-      contentLines.pop();
-    }
-    content = contentLines.join("\n");
-
-    tags.push({ path: normalizePath(path), content });
-  }
-
-  return tags;
+  return getClosedTags(fullResponse, "write-to-file")
+    .filter((node) => node.attributes.path)
+    .map((node) => ({
+      path: normalizePath(node.attributes.path),
+      // Remove leading/trailing whitespace and markdown code blocks
+      content: stripCodeFence(node.content.trim()),
+    }));
 }
 
-export function getSearchReplaceTags(fullResponse: string): {
+export function getSearchReplaceTags(fullResponse: DyadResponse): {
   file: string;
-  old_string: string;
-  new_string: string;
+  hunks: SearchReplaceHunk[];
   description?: string;
 }[] {
-  // Match the search_replace format: <search_replace file="..." old_string="..."[ description="..."]>content</search_replace>
-  const searchReplaceRegex = /<search_replace\s+file="([^"]+)"\s+old_string="([^"]*)"(\s+description="([^"]*)")?>([\s\S]*?)<\/search_replace>/g;
-  const descriptionRegex = /description="([^"]+)"/;
-
-  let match;
-  const tags: { file: string; old_string: string; new_string: string; description?: string }[] = [];
-
-  while ((match = searchReplaceRegex.exec(fullResponse)) !== null) {
-    const file = match[1];
-    const old_string = match[2];
-    const descriptionAttr = match[3]; // The optional description attribute group
-    const description = match[4]; // The description value
-    let new_string = match[5].trim();
-
-    // Remove leading/trailing whitespace and markdown code blocks
-    const contentLines = new_string.split("\n");
-    if (contentLines[0]?.startsWith("```")) {
-      contentLines.shift();
-    }
-    if (contentLines[contentLines.length - 1]?.startsWith("```")) {
-      contentLines.pop();
+  // Format: <search_replace file="..."[ description="..."]>hunks</search_replace>
+  // Older responses put a single search in an old_string attribute and the
+  // replacement in the content.
+  const document = toDyadDocument(fullResponse);
+  const nodes = getClosedTags(document, "search-replace");
+  for (const node of getClosedTags(document, "write")) {
+    if (!node.attributes.path) {
+      nodes.push(
+        ...getClosedTags(
+          parseDyadResponse(node.content.trim()),
+          "search-replace",
+        ),
+      );
     }
-    new_string = contentLines.join("\n");
+  }
 
-    tags.push({
-      file: normalizePath(file),
-      old_string,
-      new_string,
-      description: description || undefined
+  return nodes
+    .filter((node) => node.attributes.file)
+    .map((node) => {
+      // Remove leading/trailing whitespace and markdown code blocks
+      const content = stripCodeFence(node.content.trim());
+      const hunks =
+        node.attributes.old_string !== undefined
+          ? [{ search: node.attributes.old_string, replace: content }]
+          : parseSearchReplaceHunks(content);
+      return {
+        file: normalizePath(node.attributes.file),
+        hunks,
+        description: node.attributes.description || undefined,
+      };
     });
-  }
+}
 
-  return tags;
+/**
+ * True when the last dyad-write tag in the response has not been closed,
+ * i.e. the model stopped in the middle of writing a file.
+ */
+export function hasUnclosedDyadWriteTag(fullResponse: DyadResponse): boolean {
+  const writeTags = getTags(fullResponse, "write");
+  const lastWriteTag = writeTags[writeTags.length - 1];
+  return lastWriteTag !== undefined && !lastWriteTag.closed;
 }
@@ -4,6 +4,11 @@ import path from "node:path";
 import fsExtra from "fs-extra";
 import { generateCuteAppName } from "../../lib/utils";
 import { normalizePath } from "../../../shared/normalizePath";
+import {
+  DOWN_MIGRATIONS_DIR,
+  MIGRATIONS_DIR,
+  deriveDownMigration,
+} from "../../supabase_admin/supabase_migrations";
 
 // Directories to exclude when scanning files
 const EXCLUDED_DIRS = ["node_modules", ".git", ".next"];
@@ -66,12 +71,17 @@ export async function copyDirectoryRecursive(
   }
 }
 
+/**
+ * Writes the query as the next numbered migration, plus a down script with
+ * the same name when the query can be undone automatically.
+ * @returns The written files, relative to the app
+ */
 export async function writeMigrationFile(
   appPath: string,
   queryContent: string,
   queryDescription?: string,
-): Promise<string> {
-  const migrationsDir = path.join(appPath, "supabase", "migrations");
+): Promise<string[]> {
+  const migrationsDir = path.join(appPath, MIGRATIONS_DIR);
   await fsExtra.ensureDir(migrationsDir);
 
   const files = await fsExtra.readdir(migrationsDir);
@@ -97,7 +107,27 @@ export async function writeMigrationFile(
   const migrationFilePath = path.join(migrationsDir, migrationFileName);
 
   await fsExtra.writeFile(migrationFilePath, queryContent);
-  return normalizePath(path.relative(appPath, migrationFilePath));
+  const writtenFiles = [
+    normalizePath(path.relative(appPath, migrationFilePath)),
+  ];
+
+  const downMigration = deriveDownMigration(queryContent);
+  if (downMigration) {
+    const downMigrationFilePath = path.join(
+      appPath,
+      DOWN_MIGRATIONS_DIR,
+      migrationFileName,
+    );
+    await fsExtra.ensureDir(path.dirname(downMigrationFilePath));
+    await fsExtra.writeFile(
+      downMigrationFilePath,
+      `-- Undoes ${MIGRATIONS_DIR}/${migrationFileName}\n${downMigration}\n`,
+    );
+    writtenFiles.push(
+      normalizePath(path.relative(appPath, downMigrationFilePath)),
+    );
+  }
+  return writtenFiles;
 }
 
 export async function fileExists(filePath: string) {
@@ -0,0 +1,51 @@
+export type GitRemoteUrlKind = "http" | "ssh" | "local";
+
+/**
+ * How a remote is reached. Besides URLs with a scheme, Git accepts scp-like
+ * SSH addresses (`git@host:org/repo.git`) and plain paths to a repo on disk.
+ */
+export function classifyGitRemoteUrl(url: string): GitRemoteUrlKind {
+  const trimmed = url.trim();
+  if (!trimmed) {
+    throw new Error("Git remote URL is empty");
+  }
+  const scheme = /^([a-z][a-z0-9+.-]*):\/\//i.exec(trimmed)?.[1]?.toLowerCase();
+  if (scheme) {
+    if (scheme === "http" || scheme === "https") {
+      return "http";
+    }
+    if (scheme === "ssh" || scheme === "git+ssh") {
+      return "ssh";
+    }
+    if (scheme === "file") {
+      return "local";
+    }
+    throw new Error(`Unsupported Git remote URL scheme: ${scheme}`);
+  }
+  // Windows drive letters look like a one-letter scp-like host
+  if (/^[a-z]:[\\/]/i.test(trimmed)) {
+    return "local";
+  }
+  // scp-like syntax has a colon before any slash
+  const colon = trimmed.indexOf(":");
+  const slash = trimmed.indexOf("/");
+  if (colon > 0 && (slash === -1 || colon < slash)) {
+    return "ssh";
+  }
+  return "local";
+}
+
+/**
+ * Whether the URL carries a password or token, which would then be stored
+ * in the app's database row and `.git/config` in plain text
+ */
+export function hasEmbeddedCredentials(url: string): boolean {
+  if (classifyGitRemoteUrl(url) !== "http") {
+    return false;
+  }
+  try {
+    return new URL(url.trim()).password !== "";
+  } catch {
+    return false;
+  }
+}
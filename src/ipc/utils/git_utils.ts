@@ -1,28 +1,51 @@
 import { getGitAuthor } from "./git_author";
 import git from "isomorphic-git";
+import http from "isomorphic-git/http/node";
 import fs from "node:fs";
 import { promises as fsPromises } from "node:fs";
+import os from "node:os";
 import pathModule from "node:path";
-import { exec } from "node:child_process";
+import { exec, execFile } from "node:child_process";
 import { promisify } from "node:util";
 import { readSettings } from "../../main/settings";
+import { classifyGitRemoteUrl } from "./git_remote_url";
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+function toVerboseError(error: unknown): Error {
+  let errorMessage = `Error: ${error instanceof Error ? error.message : String(error)}`;
+  if (typeof error === "object" && error !== null) {
+    if ("stdout" in error && error.stdout) {
+      errorMessage += `\nStdout: ${error.stdout}`;
+    }
+    if ("stderr" in error && error.stderr) {
+      errorMessage += `\nStderr: ${error.stderr}`;
+    }
+  }
+  return new Error(errorMessage);
+}
 
 async function verboseExecAsync(
   command: string,
 ): Promise<{ stdout: string; stderr: string }> {
   try {
     return await execAsync(command);
-  } catch (error: any) {
-    let errorMessage = `Error: ${error.message}`;
-    if (error.stdout) {
-      errorMessage += `\nStdout: ${error.stdout}`;
-    }
-    if (error.stderr) {
-      errorMessage += `\nStderr: ${error.stderr}`;
-    }
-    throw new Error(errorMessage);
+  } catch (error) {
+    throw toVerboseError(error);
+  }
+}
+
+// Runs a program without a shell, so its arguments are never expanded
+async function verboseExecFileAsync(
+  file: string,
+  args: string[],
+  options?: { env?: NodeJS.ProcessEnv },
+): Promise<{ stdout: string; stderr: string }> {
+  try {
+    return await execFileAsync(file, args, options ?? {});
+  } catch (error) {
+    throw toVerboseError(error);
   }
 }
 
@@ -166,3 +189,507 @@ export async function gitAddAll({ path }: { path: string }): Promise<void> {
     return git.add({ fs, dir: path, filepath: "." });
   }
 }
+
+export async function gitCreateBranch({
+  path,
+  branch,
+  ref,
+}: {
+  path: string;
+  branch: string;
+  ref: string;
+}): Promise<void> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    await verboseExecAsync(
+      `git -C "${path}" branch "${branch.replace(/"/g, '\\"')}" "${ref.replace(/"/g, '\\"')}"`,
+    );
+  } else {
+    await git.branch({ fs, dir: path, ref: branch, object: ref });
+  }
+}
+
+export async function gitCurrentBranch({
+  path,
+}: {
+  path: string;
+}): Promise<string | null> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    const { stdout } = await execAsync(
+      `git -C "${path}" branch --show-current`,
+    );
+    return stdout.trim() || null;
+  } else {
+    return (
+      (await git.currentBranch({ fs, dir: path, fullname: false })) ?? null
+    );
+  }
+}
+
+/**
+ * The branch new versions are committed to. Tries main, then master, then
+ * whatever branch is checked out.
+ */
+export async function gitResolveMainBranch({
+  path,
+}: {
+  path: string;
+}): Promise<string> {
+  for (const ref of ["main", "master"]) {
+    try {
+      await git.resolveRef({ fs, dir: path, ref });
+      return ref;
+    } catch {
+      // Try the next one
+    }
+  }
+  const currentBranch = await git
+    .currentBranch({ fs, dir: path, fullname: false })
+    .catch(() => undefined);
+  if (!currentBranch) {
+    throw new Error("Could not resolve any branch reference");
+  }
+  return currentBranch;
+}
+
+/**
+ * The branch to commit on: the checked out branch, or the main branch when
+ * HEAD is detached, e.g. while an older version is checked out for preview.
+ * A forked chat's branch takes precedence when given.
+ */
+export async function gitResolveWorkingBranch({
+  path,
+  preferredBranch,
+}: {
+  path: string;
+  preferredBranch?: string | null;
+}): Promise<string> {
+  if (preferredBranch) {
+    return preferredBranch;
+  }
+  return (
+    (await gitCurrentBranch({ path })) ?? (await gitResolveMainBranch({ path }))
+  );
+}
+
+export type GitFileChangeStatus = "added" | "modified" | "deleted";
+
+/**
+ * Files that differ between two commits, or between a commit and the
+ * working tree when `toRef` is omitted. Ignored files are left out.
+ */
+export async function gitListChangedFiles({
+  path,
+  fromRef,
+  toRef,
+}: {
+  path: string;
+  fromRef: string;
+  toRef?: string;
+}): Promise<{ path: string; status: GitFileChangeStatus }[]> {
+  if (toRef === undefined) {
+    // With `ref`, the HEAD column of the matrix is the given commit
+    const matrix = await git.statusMatrix({ fs, dir: path, ref: fromRef });
+    const changes: { path: string; status: GitFileChangeStatus }[] = [];
+    for (const [filepath, headStatus, workdirStatus] of matrix) {
+      if (headStatus === 0 && workdirStatus !== 0) {
+        changes.push({ path: filepath, status: "added" });
+      } else if (headStatus === 1 && workdirStatus === 0) {
+        changes.push({ path: filepath, status: "deleted" });
+      } else if (headStatus === 1 && workdirStatus === 2) {
+        changes.push({ path: filepath, status: "modified" });
+      }
+    }
+    return changes;
+  }
+
+  const changes: { path: string; status: GitFileChangeStatus }[] =
+    await git.walk({
+      fs,
+      dir: path,
+      trees: [git.TREE({ ref: fromRef }), git.TREE({ ref: toRef })],
+      map: async (filepath, [from, to]) => {
+        const fromType = await from?.type();
+        const toType = await to?.type();
+        if (fromType === "tree" && toType === "tree") {
+          // Identical folders are skipped without reading their contents
+          return (await from!.oid()) === (await to!.oid()) ? null : undefined;
+        }
+        const fromBlob = fromType === "blob" ? from : null;
+        const toBlob = toType === "blob" ? to : null;
+        if (fromBlob && toBlob) {
+          return (await fromBlob.oid()) === (await toBlob.oid())
+            ? undefined
+            : { path: filepath, status: "modified" };
+        }
+        if (toBlob) {
+          return { path: filepath, status: "added" };
+        }
+        if (fromBlob) {
+          return { path: filepath, status: "deleted" };
+        }
+        return undefined;
+      },
+    });
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Contents of a file at a commit, or null when the file doesn't exist there.
+ */
+export async function gitReadFileAtRef({
+  path,
+  ref,
+  filepath,
+}: {
+  path: string;
+  ref: string;
+  filepath: string;
+}): Promise<Buffer | null> {
+  try {
+    const oid = await git.resolveRef({ fs, dir: path, ref });
+    const { blob } = await git.readBlob({ fs, dir: path, oid, filepath });
+    return Buffer.from(blob);
+  } catch (error: any) {
+    if (error?.code === "NotFoundError") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Stage the given files, including ones that were deleted from the
+ * working tree.
+ */
+export async function gitStageFiles({
+  path,
+  filepaths,
+}: {
+  path: string;
+  filepaths: string[];
+}): Promise<void> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    await verboseExecFileAsync("git", [
+      "-C",
+      path,
+      "add",
+      "-A",
+      "--",
+      ...filepaths,
+    ]);
+    return;
+  }
+  for (const filepath of filepaths) {
+    if (fs.existsSync(pathModule.join(path, filepath))) {
+      await git.add({ fs, dir: path, filepath });
+    } else {
+      await git.remove({ fs, dir: path, filepath });
+    }
+  }
+}
+
+// --- Remotes ---
+
+/**
+ * Decrypted credential for a remote. Tokens are sent as the HTTP basic auth
+ * password; SSH keys need native Git, isomorphic-git only speaks HTTP.
+ */
+export type GitRemoteAuth =
+  | { kind: "token"; username?: string; token: string }
+  | { kind: "ssh-key"; privateKey: string };
+
+// Double-quotes an argument for GIT_SSH_COMMAND, which Git runs in a shell
+function quoteShellArg(value: string): string {
+  return `"${value.replace(/(["\\$`])/g, "\\$1")}"`;
+}
+
+/**
+ * Runs native Git with `auth` passed through the environment, so tokens
+ * don't show up in the process list and keys only touch disk briefly.
+ */
+async function withNativeGitAuth<T>(
+  url: string,
+  auth: GitRemoteAuth | undefined,
+  run: (env: NodeJS.ProcessEnv) => Promise<T>,
+): Promise<T> {
+  // Fail instead of waiting on a prompt nobody can answer
+  const env: NodeJS.ProcessEnv = { ...process.env, GIT_TERMINAL_PROMPT: "0" };
+  const kind = classifyGitRemoteUrl(url);
+  if (kind === "ssh") {
+    env.GIT_SSH_COMMAND = "ssh -o BatchMode=yes";
+  }
+  if (!auth) {
+    return run(env);
+  }
+  if (auth.kind === "token") {
+    if (kind !== "http") {
+      throw new Error("Access tokens can only be used with HTTP(S) remotes");
+    }
+    const basic = Buffer.from(
+      `${auth.username || "oauth2"}:${auth.token}`,
+    ).toString("base64");
+    env.GIT_CONFIG_COUNT = "1";
+    env.GIT_CONFIG_KEY_0 = "http.extraHeader";
+    env.GIT_CONFIG_VALUE_0 = `Authorization: Basic ${basic}`;
+    return run(env);
+  }
+  if (kind !== "ssh") {
+    throw new Error("SSH keys can only be used with SSH remotes");
+  }
+  const keyDir = await fsPromises.mkdtemp(
+    pathModule.join(os.tmpdir(), "git-ssh-"),
+  );
+  try {
+    const keyPath = pathModule.join(keyDir, "id");
+    const key = auth.privateKey.endsWith("\n")
+      ? auth.privateKey
+      : `${auth.privateKey}\n`;
+    await fsPromises.writeFile(keyPath, key, { mode: 0o600 });
+    env.GIT_SSH_COMMAND = `ssh -i ${quoteShellArg(keyPath)} -o IdentitiesOnly=yes -o BatchMode=yes -o StrictHostKeyChecking=accept-new`;
+    return await run(env);
+  } finally {
+    await fsPromises.rm(keyDir, { recursive: true, force: true });
+  }
+}
+
+function isomorphicGitAuth(url: string, auth: GitRemoteAuth | undefined) {
+  if (classifyGitRemoteUrl(url) !== "http") {
+    throw new Error(
+      "SSH and local remotes need native Git. Turn on Enable Native Git in Settings to use this remote.",
+    );
+  }
+  if (auth?.kind === "ssh-key") {
+    throw new Error("SSH keys can only be used with SSH remotes");
+  }
+  return {
+    http,
+    onAuth: auth
+      ? () => ({ username: auth.username || "oauth2", password: auth.token })
+      : undefined,
+  };
+}
+
+async function gitRemoteUrl(path: string, remote: string): Promise<string> {
+  const url = await git.getConfig({
+    fs,
+    dir: path,
+    path: `remote.${remote}.url`,
+  });
+  if (!url) {
+    throw new Error(`Git remote "${remote}" is not configured`);
+  }
+  return url;
+}
+
+/**
+ * Points `remote` at `url`, adding the remote if it doesn't exist yet.
+ */
+export async function gitSetRemote({
+  path,
+  remote,
+  url,
+}: {
+  path: string;
+  remote: string;
+  url: string;
+}): Promise<void> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    const { stdout } = await verboseExecFileAsync("git", [
+      "-C",
+      path,
+      "remote",
+    ]);
+    const action = stdout
+      .split("\n")
+      .map((line) => line.trim())
+      .includes(remote)
+      ? "set-url"
+      : "add";
+    await verboseExecFileAsync("git", [
+      "-C",
+      path,
+      "remote",
+      action,
+      "--",
+      remote,
+      url,
+    ]);
+  } else {
+    await git.addRemote({ fs, dir: path, remote, url, force: true });
+  }
+}
+
+export async function gitRemoveRemote({
+  path,
+  remote,
+}: {
+  path: string;
+  remote: string;
+}): Promise<void> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    const { stdout } = await verboseExecFileAsync("git", [
+      "-C",
+      path,
+      "remote",
+    ]);
+    if (
+      stdout
+        .split("\n")
+        .map((line) => line.trim())
+        .includes(remote)
+    ) {
+      await verboseExecFileAsync("git", [
+        "-C",
+        path,
+        "remote",
+        "remove",
+        "--",
+        remote,
+      ]);
+    }
+  } else {
+    await git.deleteRemote({ fs, dir: path, remote });
+  }
+}
+
+/**
+ * Branch names on a remote. Takes a URL rather than a remote name so
+ * branches can be picked before the app is connected.
+ */
+export async function gitListRemoteBranches({
+  url,
+  auth,
+}: {
+  url: string;
+  auth?: GitRemoteAuth;
+}): Promise<string[]> {
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    const { stdout } = await withNativeGitAuth(url, auth, (env) =>
+      verboseExecFileAsync("git", ["ls-remote", "--heads", "--", url], {
+        env,
+      }),
+    );
+    return stdout
+      .split("\n")
+      .map((line) => line.split("\t")[1]?.trim())
+      .filter((ref): ref is string => !!ref?.startsWith("refs/heads/"))
+      .map((ref) => ref.slice("refs/heads/".length));
+  }
+  const refs = await git.listServerRefs({
+    ...isomorphicGitAuth(url, auth),
+    url,
+    prefix: "refs/heads/",
+  });
+  return refs.map((ref) => ref.ref.slice("refs/heads/".length));
+}
+
+export async function gitFetch({
+  path,
+  remote,
+  auth,
+}: {
+  path: string;
+  remote: string;
+  auth?: GitRemoteAuth;
+}): Promise<void> {
+  const url = await gitRemoteUrl(path, remote);
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    await withNativeGitAuth(url, auth, (env) =>
+      verboseExecFileAsync("git", ["-C", path, "fetch", "--", remote], {
+        env,
+      }),
+    );
+  } else {
+    await git.fetch({
+      ...isomorphicGitAuth(url, auth),
+      fs,
+      dir: path,
+      remote,
+    });
+  }
+}
+
+/**
+ * Fast-forwards the checked-out branch to `branch` on the remote. Diverged
+ * histories are an error rather than a merge commit.
+ */
+export async function gitPull({
+  path,
+  remote,
+  branch,
+  auth,
+}: {
+  path: string;
+  remote: string;
+  branch: string;
+  auth?: GitRemoteAuth;
+}): Promise<void> {
+  const url = await gitRemoteUrl(path, remote);
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    await withNativeGitAuth(url, auth, (env) =>
+      verboseExecFileAsync(
+        "git",
+        ["-C", path, "pull", "--ff-only", "--", remote, branch],
+        { env },
+      ),
+    );
+  } else {
+    await git.pull({
+      ...isomorphicGitAuth(url, auth),
+      fs,
+      dir: path,
+      remote,
+      remoteRef: branch,
+      fastForwardOnly: true,
+      author: await getGitAuthor(),
+    });
+  }
+}
+
+export async function gitPush({
+  path,
+  remote,
+  ref,
+  remoteBranch,
+  force,
+  auth,
+}: {
+  path: string;
+  remote: string;
+  // Local branch to push
+  ref: string;
+  remoteBranch: string;
+  force?: boolean;
+  auth?: GitRemoteAuth;
+}): Promise<void> {
+  const url = await gitRemoteUrl(path, remote);
+  const settings = readSettings();
+  if (settings.enableNativeGit) {
+    const args = ["-C", path, "push", ...(force ? ["--force"] : [])];
+    await withNativeGitAuth(url, auth, (env) =>
+      verboseExecFileAsync(
+        "git",
+        [...args, "--", remote, `${ref}:refs/heads/${remoteBranch}`],
+        { env },
+      ),
+    );
+  } else {
+    await git.push({
+      ...isomorphicGitAuth(url, auth),
+      fs,
+      dir: path,
+      remote,
+      ref,
+      remoteRef: remoteBranch,
+      force: !!force,
+    });
+  }
+}
@@ -0,0 +1,434 @@
+import fs from "node:fs";
+import path from "node:path";
+import { promisify } from "node:util";
+import zlib from "node:zlib";
+import log from "electron-log";
+import { z } from "zod";
+import type { Template } from "../../shared/templates";
+import { getUserDataPath } from "../../paths/paths";
+import { parseEnvFile } from "./app_env_var_utils";
+import { detectBackendFramework } from "./backend_framework_registry";
+import { safeJoin } from "./path_utils";
+
+const logger = log.scope("local_templates");
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+export const LOCAL_TEMPLATE_PREFIX = "local:";
+export const TEMPLATE_ARCHIVE_EXTENSION = "dyadtemplate";
+
+const ARCHIVE_FORMAT_VERSION = 1;
+const MAX_ARCHIVE_SIZE_BYTES = 100 * 1024 * 1024;
+
+// Dependencies and build output are recreated when the app is set up
+const EXCLUDED_DIRS = new Set([
+  "node_modules",
+  ".git",
+  "__pycache__",
+  ".venv",
+  "venv",
+  "dist",
+  ".next",
+]);
+
+const VERSION_REGEX = /^\d+\.\d+\.\d+$/;
+
+const LocalTemplateManifestSchema = z.object({
+  formatVersion: z.literal(ARCHIVE_FORMAT_VERSION),
+  slug: z.string().regex(/^[a-z0-9][a-z0-9-]*$/),
+  title: z.string().min(1),
+  description: z.string(),
+  version: z.string().regex(VERSION_REGEX, "must look like 1.0.0"),
+  createdAt: z.string(),
+  backendFramework: z.string().nullable(),
+  // Env files of the app and the keys they define, without their values
+  envVarKeys: z.record(z.array(z.string())),
+  hasAiRules: z.boolean(),
+});
+
+export type LocalTemplateManifest = z.infer<typeof LocalTemplateManifestSchema>;
+
+const TemplateArchiveSchema = z.object({
+  manifest: LocalTemplateManifestSchema,
+  files: z.array(z.object({ path: z.string(), content: z.string() })),
+});
+
+type TemplateArchive = z.infer<typeof TemplateArchiveSchema>;
+
+function getLocalTemplatesDir(): string {
+  return path.join(getUserDataPath(), "local-templates");
+}
+
+function getArchivePath(slug: string, version: string): string {
+  return path.join(
+    getLocalTemplatesDir(),
+    slug,
+    `${version}.${TEMPLATE_ARCHIVE_EXTENSION}`,
+  );
+}
+
+// The manifest is kept next to its archive so listing doesn't unpack it
+function getManifestPath(slug: string, version: string): string {
+  return path.join(getLocalTemplatesDir(), slug, `${version}.json`);
+}
+
+export function isLocalTemplateId(templateId: string): boolean {
+  return templateId.startsWith(LOCAL_TEMPLATE_PREFIX);
+}
+
+/**
+ * Split `local:<slug>` or `local:<slug>@<version>` into its parts
+ */
+export function parseLocalTemplateId(templateId: string): {
+  slug: string;
+  version?: string;
+} {
+  const [slug, version] = templateId
+    .slice(LOCAL_TEMPLATE_PREFIX.length)
+    .split("@");
+  return { slug, version };
+}
+
+export function compareVersions(a: string, b: string): number {
+  const aParts = a.split(".").map(Number);
+  const bParts = b.split(".").map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (aParts[i] !== bParts[i]) {
+      return aParts[i] - bParts[i];
+    }
+  }
+  return 0;
+}
+
+export function slugify(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function isEnvFile(name: string): boolean {
+  return /^\.env(\..+)?$/.test(name) && name !== ".env.example";
+}
+
+function readManifests(slug: string): LocalTemplateManifest[] {
+  const slugDir = path.join(getLocalTemplatesDir(), slug);
+  const manifests: LocalTemplateManifest[] = [];
+  for (const file of fs.readdirSync(slugDir)) {
+    if (!file.endsWith(".json")) {
+      continue;
+    }
+    try {
+      manifests.push(
+        LocalTemplateManifestSchema.parse(
+          JSON.parse(fs.readFileSync(path.join(slugDir, file), "utf-8")),
+        ),
+      );
+    } catch (error) {
+      logger.warn(`Skipping invalid template manifest ${slug}/${file}:`, error);
+    }
+  }
+  return manifests.sort((a, b) => compareVersions(b.version, a.version));
+}
+
+function toTemplate(
+  manifest: LocalTemplateManifest,
+  versions: string[],
+): Template {
+  return {
+    id: `${LOCAL_TEMPLATE_PREFIX}${manifest.slug}`,
+    title: manifest.title,
+    description: manifest.description,
+    imageUrl: "",
+    isOfficial: false,
+    isLocal: true,
+    version: manifest.version,
+    versions,
+    backendFramework: manifest.backendFramework,
+  };
+}
+
+/**
+ * One template per local template, describing its latest version
+ */
+export function listLocalTemplates(): Template[] {
+  const templatesDir = getLocalTemplatesDir();
+  if (!fs.existsSync(templatesDir)) {
+    return [];
+  }
+
+  const templates: Template[] = [];
+  for (const entry of fs.readdirSync(templatesDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) {
+      continue;
+    }
+    const manifests = readManifests(entry.name);
+    if (manifests.length > 0) {
+      templates.push(
+        toTemplate(
+          manifests[0],
+          manifests.map((manifest) => manifest.version),
+        ),
+      );
+    }
+  }
+  return templates.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * The manifest of a local template id, the latest version unless the id
+ * names one
+ */
+export function getLocalTemplateManifest(
+  templateId: string,
+): LocalTemplateManifest {
+  const { slug, version } = parseLocalTemplateId(templateId);
+  const slugDir = path.join(getLocalTemplatesDir(), slug);
+  const manifests = fs.existsSync(slugDir) ? readManifests(slug) : [];
+  const manifest = version
+    ? manifests.find((candidate) => candidate.version === version)
+    : manifests[0];
+  if (!manifest) {
+    throw new Error(
+      `Local template ${templateId} not found. Please select a different template.`,
+    );
+  }
+  return manifest;
+}
+
+export function getLocalTemplate(templateId: string): Template {
+  const manifest = getLocalTemplateManifest(templateId);
+  const versions = readManifests(manifest.slug).map((m) => m.version);
+  return toTemplate(manifest, versions);
+}
+
+function detectTemplateBackendFramework(backendPath: string): string | null {
+  if (!fs.existsSync(backendPath)) {
+    return null;
+  }
+  const detected = detectBackendFramework(backendPath);
+  if (detected) {
+    return detected.id;
+  }
+  if (fs.existsSync(path.join(backendPath, "package.json"))) {
+    return "nodejs";
+  }
+  const requirementsPath = path.join(backendPath, "requirements.txt");
+  if (fs.existsSync(requirementsPath)) {
+    const requirements = fs.readFileSync(requirementsPath, "utf-8");
+    return (
+      ["django", "fastapi", "flask"].find((framework) =>
+        new RegExp(`^\\s*${framework}\\b`, "im").test(requirements),
+      ) ?? null
+    );
+  }
+  return null;
+}
+
+function collectArchiveFiles(
+  appPath: string,
+  dir: string,
+  archive: TemplateArchive,
+  totalSize: { bytes: number },
+) {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    const relativePath = path
+      .relative(appPath, fullPath)
+      .split(path.sep)
+      .join("/");
+
+    if (entry.isDirectory()) {
+      if (!EXCLUDED_DIRS.has(entry.name)) {
+        collectArchiveFiles(appPath, fullPath, archive, totalSize);
+      }
+    } else if (entry.isFile()) {
+      const content = fs.readFileSync(fullPath);
+      if (isEnvFile(entry.name)) {
+        // Keep which variables the app needs, never their values
+        archive.manifest.envVarKeys[relativePath] = parseEnvFile(
+          content.toString("utf-8"),
+        ).map((envVar) => envVar.key);
+        continue;
+      }
+      totalSize.bytes += content.length;
+      if (totalSize.bytes > MAX_ARCHIVE_SIZE_BYTES) {
+        throw new Error(
+          `The app is too large to save as a template (over ${MAX_ARCHIVE_SIZE_BYTES / 1024 / 1024} MB without dependencies)`,
+        );
+      }
+      archive.files.push({
+        path: relativePath,
+        content: content.toString("base64"),
+      });
+    }
+  }
+}
+
+async function readArchive(archivePath: string): Promise<TemplateArchive> {
+  let json: unknown;
+  try {
+    const content = await gunzip(await fs.promises.readFile(archivePath));
+    json = JSON.parse(content.toString("utf-8"));
+  } catch (error) {
+    throw new Error(`${archivePath} is not a template archive: ${error}`);
+  }
+  const result = TemplateArchiveSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(
+      `${archivePath} is not a valid template archive: ${result.error.issues
+        .map((issue) => `${issue.path.join(".")} ${issue.message}`)
+        .join(", ")}`,
+    );
+  }
+  return result.data;
+}
+
+async function storeArchive(archive: TemplateArchive): Promise<Template> {
+  const { slug, version } = archive.manifest;
+  const archivePath = getArchivePath(slug, version);
+  if (fs.existsSync(archivePath)) {
+    throw new Error(
+      `Version ${version} of template "${archive.manifest.title}" already exists`,
+    );
+  }
+
+  await fs.promises.mkdir(path.dirname(archivePath), { recursive: true });
+  await fs.promises.writeFile(
+    archivePath,
+    await gzip(Buffer.from(JSON.stringify(archive))),
+  );
+  await fs.promises.writeFile(
+    getManifestPath(slug, version),
+    JSON.stringify(archive.manifest, null, 2),
+  );
+  return getLocalTemplate(`${LOCAL_TEMPLATE_PREFIX}${slug}@${version}`);
+}
+
+/**
+ * Save the files of an app as a new version of a local template. Env files
+ * are left out, only the names of their variables are kept.
+ */
+export async function saveAppAsTemplate({
+  appPath,
+  title,
+  description,
+  version,
+}: {
+  appPath: string;
+  title: string;
+  description: string;
+  version: string;
+}): Promise<Template> {
+  const slug = slugify(title);
+  if (!slug) {
+    throw new Error("Template title must contain letters or digits");
+  }
+  if (!VERSION_REGEX.test(version)) {
+    throw new Error(`Invalid template version "${version}", use e.g. 1.0.0`);
+  }
+
+  const archive: TemplateArchive = {
+    manifest: {
+      formatVersion: ARCHIVE_FORMAT_VERSION,
+      slug,
+      title: title.trim(),
+      description: description.trim(),
+      version,
+      createdAt: new Date().toISOString(),
+      backendFramework: detectTemplateBackendFramework(
+        path.join(appPath, "backend"),
+      ),
+      envVarKeys: {},
+      hasAiRules:
+        fs.existsSync(path.join(appPath, "AI_RULES.md")) ||
+        fs.existsSync(path.join(appPath, "frontend", "AI_RULES.md")) ||
+        fs.existsSync(path.join(appPath, "backend", "AI_RULES.md")),
+    },
+    files: [],
+  };
+  collectArchiveFiles(appPath, appPath, archive, { bytes: 0 });
+
+  const template = await storeArchive(archive);
+  logger.info(
+    `Saved ${appPath} as template ${slug}@${version} with ${archive.files.length} files`,
+  );
+  return template;
+}
+
+/**
+ * Add a template archive, e.g. one exported on another machine, to the
+ * local catalog
+ */
+export async function importTemplateArchive(
+  archivePath: string,
+): Promise<Template> {
+  const archive = await readArchive(archivePath);
+  for (const file of archive.files) {
+    // Rejects archives that would write outside the app
+    safeJoin("/app", file.path);
+  }
+  return storeArchive(archive);
+}
+
+/**
+ * The archive file of a template version, for exporting it
+ */
+export function getTemplateArchivePath(templateId: string): string {
+  const manifest = getLocalTemplateManifest(templateId);
+  return getArchivePath(manifest.slug, manifest.version);
+}
+
+export async function deleteLocalTemplateVersion(
+  templateId: string,
+): Promise<void> {
+  const { slug, version } = getLocalTemplateManifest(templateId);
+  await fs.promises.rm(getArchivePath(slug, version), { force: true });
+  await fs.promises.rm(getManifestPath(slug, version), { force: true });
+
+  const slugDir = path.join(getLocalTemplatesDir(), slug);
+  if ((await fs.promises.readdir(slugDir)).length === 0) {
+    await fs.promises.rm(slugDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Write the files of a local template into an app folder, with its env
+ * files listing the variables to fill in. Existing files are kept.
+ */
+export async function extractLocalTemplate(
+  templateId: string,
+  appPath: string,
+): Promise<LocalTemplateManifest> {
+  const manifest = getLocalTemplateManifest(templateId);
+  const archive = await readArchive(
+    getArchivePath(manifest.slug, manifest.version),
+  );
+
+  for (const file of archive.files) {
+    const filePath = safeJoin(appPath, file.path);
+    if (fs.existsSync(filePath)) {
+      continue;
+    }
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, Buffer.from(file.content, "base64"));
+  }
+
+  for (const [envFile, keys] of Object.entries(manifest.envVarKeys)) {
+    const envPath = safeJoin(appPath, envFile);
+    if (fs.existsSync(envPath)) {
+      continue;
+    }
+    await fs.promises.mkdir(path.dirname(envPath), { recursive: true });
+    await fs.promises.writeFile(
+      envPath,
+      keys.map((key) => `${key}=`).join("\n") + (keys.length ? "\n" : ""),
+    );
+  }
+
+  logger.info(
+    `Extracted template ${manifest.slug}@${manifest.version} into ${appPath}`,
+  );
+  return manifest;
+}
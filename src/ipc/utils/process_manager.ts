@@ -1,5 +1,7 @@
 import { ChildProcess, spawn } from "node:child_process";
+import path from "node:path";
 import treeKill from "tree-kill";
+import { COMPOSE_VOLUMES, getComposeProjectName } from "./docker_compose";
 
 // Define a type for the value stored in runningApps
 export interface RunningAppInfo {
@@ -7,6 +9,13 @@ export interface RunningAppInfo {
   processId: number;
   isDocker: boolean;
   containerName?: string;
+  // Set when the app runs as a docker compose project
+  compose?: {
+    projectName: string;
+    composeFile: string;
+    // Log followers of the services besides the one in `process`
+    logProcesses: ChildProcess[];
+  };
 }
 
 // Store running app processes
@@ -95,29 +104,71 @@ export function stopDockerContainer(containerName: string): Promise<void> {
 }
 
 /**
- * Removes Docker named volumes used for an app's dependencies.
+ * Stops and removes the containers of a docker compose project. Resolves even if the project isn't running.
+ */
+export function stopDockerComposeProject(
+  projectName: string,
+  composeFile: string,
+): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const down = spawn(
+      "docker",
+      [
+        "compose",
+        "-p",
+        projectName,
+        "-f",
+        composeFile,
+        "down",
+        "--remove-orphans",
+      ],
+      { cwd: path.dirname(composeFile), stdio: "pipe" },
+    );
+    down.on("close", () => resolve());
+    down.on("error", () => resolve());
+  });
+}
+
+/**
+ * Removes Docker named volumes used for an app's dependencies and database.
  * Best-effort: resolves even if volumes don't exist.
  */
 export function removeDockerVolumesForApp(appId: number): Promise<void> {
   return new Promise<void>((resolve) => {
     const pnpmVolume = `dyad-pnpm-${appId}`;
+    const composeVolumes = COMPOSE_VOLUMES.map(
+      (volume) => `${getComposeProjectName(appId)}_${volume}`,
+    );
 
-    const rm = spawn("docker", ["volume", "rm", "-f", pnpmVolume], {
-      stdio: "pipe",
-    });
+    const rm = spawn(
+      "docker",
+      ["volume", "rm", "-f", pnpmVolume, ...composeVolumes],
+      {
+        stdio: "pipe",
+      },
+    );
     rm.on("close", () => resolve());
     rm.on("error", () => resolve());
   });
 }
 
 /**
- * Stops an app based on its RunningAppInfo (container vs host) and removes it from the running map.
+ * Stops an app based on its RunningAppInfo (compose project, container or host) and removes it from the running map.
  */
 export async function stopAppByInfo(
   appKey: string | number,
   appInfo: RunningAppInfo,
 ): Promise<void> {
-  if (appInfo.isDocker) {
+  if (appInfo.compose) {
+    const { projectName, composeFile, logProcesses } = appInfo.compose;
+    await stopDockerComposeProject(projectName, composeFile);
+    // The log followers exit with their containers, this catches stragglers
+    for (const logProcess of [appInfo.process, ...logProcesses]) {
+      if (logProcess.exitCode === null && logProcess.signalCode === null) {
+        await killProcess(logProcess);
+      }
+    }
+  } else if (appInfo.isDocker) {
     const containerName = appInfo.containerName || `dyad-app-${appKey}`;
     await stopDockerContainer(containerName);
   } else {
@@ -136,7 +187,13 @@ export function removeAppIfCurrentProcess(
   process: ChildProcess,
 ): void {
   const currentAppInfo = runningApps.get(appId);
-  if (currentAppInfo && currentAppInfo.process === process) {
+  if (currentAppInfo?.compose && currentAppInfo.process === process) {
+    // The log follower exits with its container, but the rest of the project
+    // stays up until stopAppByInfo tears it down
+    console.log(
+      `Log follower of compose project ${currentAppInfo.compose.projectName} exited. Keeping it in running map.`,
+    );
+  } else if (currentAppInfo && currentAppInfo.process === process) {
     runningApps.delete(appId);
     console.log(
       `Removed app ${appId} (processId ${currentAppInfo.processId}) from running map. Current size: ${runningApps.size}`,
@@ -0,0 +1,212 @@
+import fs from "node:fs";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import type { WebContents } from "electron";
+import log from "electron-log";
+import type { IPty } from "node-pty";
+import { getShellEnv } from "../handlers/app_handlers";
+import { safeSend } from "./safe_sender";
+import { stripAnsi } from "../../shared/ansi";
+import type { PtyLocation, PtySession } from "../ipc_types";
+
+const logger = log.scope("pty_manager");
+
+// Raw output kept per session so a terminal can be redrawn after the
+// console is closed and reopened
+const MAX_SCROLLBACK_LENGTH = 200_000;
+// What gets attached to a chat message
+const MAX_CONTEXT_LINES = 200;
+const MAX_CONTEXT_LENGTH = 10_000;
+
+interface PtySessionState extends PtySession {
+  process: IPty;
+  output: string;
+}
+
+const sessions = new Map<string, PtySessionState>();
+
+/**
+ * Turn raw terminal output into plain text for the model: escape codes
+ * removed, carriage-return overwrites (e.g. progress bars) collapsed to
+ * what the line finally showed, and only the last lines kept.
+ */
+export function getPlainTextTail(
+  output: string,
+  maxLines = MAX_CONTEXT_LINES,
+  maxLength = MAX_CONTEXT_LENGTH,
+): string {
+  const lines = stripAnsi(output)
+    .split(/\r?\n/)
+    .map((line) => {
+      const parts = line.split("\r");
+      return parts[parts.length - 1].trimEnd();
+    });
+  while (lines.length > 0 && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  const tail = lines.slice(-maxLines).join("\n");
+  return tail.length > maxLength ? tail.slice(-maxLength) : tail;
+}
+
+function getDefaultShell(): string {
+  if (process.platform === "win32") {
+    return "powershell.exe";
+  }
+  return process.env.SHELL || "/bin/bash";
+}
+
+function toPtySession(session: PtySessionState): PtySession {
+  return {
+    sessionId: session.sessionId,
+    appId: session.appId,
+    location: session.location,
+    cwd: session.cwd,
+    shell: session.shell,
+    exitCode: session.exitCode,
+  };
+}
+
+function getSession(sessionId: string): PtySessionState {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    throw new Error(`Terminal session not found: ${sessionId}`);
+  }
+  return session;
+}
+
+/**
+ * Start a shell in the app's frontend or backend folder. Apps without that
+ * folder get a shell in the app folder itself.
+ */
+export async function createPtySession({
+  appId,
+  appPath,
+  location,
+  cols,
+  rows,
+  sender,
+}: {
+  appId: number;
+  appPath: string;
+  location: PtyLocation;
+  cols: number;
+  rows: number;
+  sender: WebContents;
+}): Promise<PtySession> {
+  // Loaded lazily so a missing native build only breaks terminals
+  const pty = await import("node-pty");
+  const locationPath = path.join(appPath, location);
+  const cwd = fs.existsSync(locationPath) ? locationPath : appPath;
+  const shell = getDefaultShell();
+
+  const ptyProcess = pty.spawn(shell, [], {
+    name: "xterm-256color",
+    cols,
+    rows,
+    cwd,
+    env: { ...getShellEnv(), TERM: "xterm-256color", COLORTERM: "truecolor" },
+  });
+
+  const session: PtySessionState = {
+    sessionId: randomUUID(),
+    appId,
+    location,
+    cwd,
+    shell,
+    exitCode: null,
+    process: ptyProcess,
+    output: "",
+  };
+  sessions.set(session.sessionId, session);
+  logger.log(
+    `Started ${shell} (pid ${ptyProcess.pid}) for app ${appId} in ${cwd}`,
+  );
+
+  ptyProcess.onData((data) => {
+    session.output += data;
+    if (session.output.length > MAX_SCROLLBACK_LENGTH) {
+      session.output = session.output.slice(-MAX_SCROLLBACK_LENGTH);
+    }
+    safeSend(sender, "pty:data", { sessionId: session.sessionId, data });
+  });
+  // Exited sessions stay listed so their output can still be read
+  ptyProcess.onExit(({ exitCode }) => {
+    logger.log(`Terminal session ${session.sessionId} exited with ${exitCode}`);
+    session.exitCode = exitCode;
+    safeSend(sender, "pty:exit", { sessionId: session.sessionId, exitCode });
+  });
+
+  return toPtySession(session);
+}
+
+export function listPtySessions(appId: number): PtySession[] {
+  return Array.from(sessions.values())
+    .filter((session) => session.appId === appId)
+    .map(toPtySession);
+}
+
+export function writePtySession(sessionId: string, data: string): void {
+  const session = getSession(sessionId);
+  if (session.exitCode === null) {
+    session.process.write(data);
+  }
+}
+
+export function resizePtySession(
+  sessionId: string,
+  cols: number,
+  rows: number,
+): void {
+  const session = getSession(sessionId);
+  if (session.exitCode === null && cols > 0 && rows > 0) {
+    session.process.resize(cols, rows);
+  }
+}
+
+export function killPtySession(sessionId: string): void {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return;
+  }
+  sessions.delete(sessionId);
+  if (session.exitCode === null) {
+    try {
+      session.process.kill();
+    } catch (error) {
+      logger.warn(`Failed to kill terminal session ${sessionId}:`, error);
+    }
+  }
+}
+
+export function killPtySessionsForApp(appId: number): void {
+  for (const session of listPtySessions(appId)) {
+    killPtySession(session.sessionId);
+  }
+}
+
+export function killAllPtySessions(): void {
+  for (const sessionId of Array.from(sessions.keys())) {
+    killPtySession(sessionId);
+  }
+}
+
+export function getPtySessionOutput(sessionId: string): string {
+  return getSession(sessionId).output;
+}
+
+/**
+ * The end of a session's output as plain text, for attaching to a chat
+ * message. Returns null when the session is gone or has no output.
+ */
+export function getPtySessionContext(
+  sessionId: string,
+): { location: PtyLocation; cwd: string; output: string } | null {
+  const session = sessions.get(sessionId);
+  if (!session) {
+    return null;
+  }
+  const output = getPlainTextTail(session.output);
+  return output
+    ? { location: session.location, cwd: session.cwd, output }
+    : null;
+}
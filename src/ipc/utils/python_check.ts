@@ -0,0 +1,357 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import type { Problem } from "../ipc_types";
+
+const PYTHON_CHECK_TIMEOUT_MS = 30_000;
+
+/**
+ * Reads `{ root, files, requirements }` as JSON on stdin and prints the
+ * problems it finds as JSON. `files` maps paths relative to `root` to their
+ * source, with the response's changes already applied. Only the standard
+ * library is used, so it runs under any Python 3 interpreter.
+ */
+const PYTHON_CHECK_SCRIPT = String.raw`
+import ast
+import builtins
+import importlib.util
+import json
+import sys
+
+data = json.load(sys.stdin)
+root = data["root"]
+files = data["files"]
+
+
+def normalize(name):
+    return name.lower().replace("-", "_").replace(".", "_")
+
+
+declared = {normalize(name) for name in data["requirements"]}
+# Local modules come from "files" only, so that files deleted in the
+# overlay don't resolve from disk
+sys.path = [p for p in sys.path if p not in ("", ".", root)]
+
+IMPLICIT_NAMES = {
+    "__name__", "__file__", "__doc__", "__builtins__", "__spec__",
+    "__loader__", "__package__", "__path__", "__annotations__",
+    "__module__", "__qualname__", "__class__", "__debug__",
+}
+KNOWN_NAMES = set(dir(builtins)) | IMPLICIT_NAMES
+PATTERN_NODES = tuple(
+    getattr(ast, name) for name in ("MatchAs", "MatchStar") if hasattr(ast, name)
+)
+TYPE_PARAM_NODES = tuple(
+    getattr(ast, name)
+    for name in ("TypeVar", "ParamSpec", "TypeVarTuple")
+    if hasattr(ast, name)
+)
+TRY_NODES = tuple(getattr(ast, name) for name in ("Try", "TryStar") if hasattr(ast, name))
+
+problems = []
+
+
+def report(path, line, column, message):
+    problems.append(
+        {"file": path, "line": line or 1, "column": column or 1, "message": message}
+    )
+
+
+def module_name(path):
+    parts = path[:-3].split("/")
+    if parts[-1] == "__init__":
+        parts = parts[:-1]
+    return ".".join(parts)
+
+
+modules = {module_name(path): path for path in files if module_name(path)}
+local_tops = {name.split(".")[0] for name in modules}
+
+
+def bound_names(tree):
+    """Every name bound anywhere in the module; scopes are not told apart"""
+    names = set()
+    star = False
+    for node in ast.walk(tree):
+        if isinstance(node, (ast.FunctionDef, ast.AsyncFunctionDef, ast.ClassDef)):
+            names.add(node.name)
+        elif isinstance(node, ast.Name) and not isinstance(node.ctx, ast.Load):
+            names.add(node.id)
+        elif isinstance(node, ast.arg):
+            names.add(node.arg)
+        elif isinstance(node, ast.alias):
+            if node.name == "*":
+                star = True
+            else:
+                names.add((node.asname or node.name).split(".")[0])
+        elif isinstance(node, ast.ExceptHandler) and node.name:
+            names.add(node.name)
+        elif isinstance(node, (ast.Global, ast.Nonlocal)):
+            names.update(node.names)
+        elif isinstance(node, PATTERN_NODES) and node.name:
+            names.add(node.name)
+        elif isinstance(node, TYPE_PARAM_NODES):
+            names.add(node.name)
+        elif type(node).__name__ == "MatchMapping" and node.rest:
+            names.add(node.rest)
+    return names, star
+
+
+def module_exists(name):
+    if name in modules or any(m.startswith(name + ".") for m in modules):
+        return True
+    top = name.split(".")[0]
+    if top in local_tops:
+        return False
+    if top in sys.builtin_module_names or top in getattr(sys, "stdlib_module_names", ()):
+        return True
+    if normalize(top) in declared:
+        return True
+    try:
+        return importlib.util.find_spec(top) is not None
+    except (ImportError, ValueError):
+        return False
+
+
+def resolve(path, module, level):
+    if level == 0:
+        return module
+    package = path[:-3].split("/")[:-1]
+    if level > len(package):
+        return None
+    package = package[: len(package) - (level - 1)]
+    return ".".join(package + ([module] if module else []))
+
+
+trees = {}
+for path, source in files.items():
+    try:
+        tree = ast.parse(source, filename=path)
+        # Catches what the parser lets through, like "return" outside a function
+        compile(tree, path, "exec")
+        trees[path] = tree
+    except SyntaxError as error:
+        report(path, error.lineno, error.offset, f"SyntaxError: {error.msg}")
+    except ValueError as error:
+        report(path, 1, 1, f"SyntaxError: {error}")
+
+bindings = {path: bound_names(tree) for path, tree in trees.items()}
+
+for path, tree in trees.items():
+    names, star = bindings[path]
+    if not star:
+        loads = [
+            node
+            for node in ast.walk(tree)
+            if isinstance(node, ast.Name) and isinstance(node.ctx, ast.Load)
+        ]
+        seen = set()
+        # Reports the first use in source order
+        for node in sorted(loads, key=lambda n: (n.lineno, n.col_offset)):
+            if (
+                node.id not in names
+                and node.id not in KNOWN_NAMES
+                and node.id not in seen
+            ):
+                seen.add(node.id)
+                report(
+                    path,
+                    node.lineno,
+                    node.col_offset + 1,
+                    f"NameError: name '{node.id}' is not defined",
+                )
+
+    # Imports inside try blocks are usually optional
+    guarded = set()
+    for node in ast.walk(tree):
+        if isinstance(node, TRY_NODES):
+            for child in node.body:
+                guarded.update(id(n) for n in ast.walk(child))
+
+    for node in ast.walk(tree):
+        if id(node) in guarded:
+            continue
+        if isinstance(node, ast.Import):
+            for alias in node.names:
+                if not module_exists(alias.name):
+                    report(
+                        path,
+                        node.lineno,
+                        node.col_offset + 1,
+                        f"ModuleNotFoundError: No module named '{alias.name}'",
+                    )
+        elif isinstance(node, ast.ImportFrom):
+            target = resolve(path, node.module, node.level)
+            if not target:
+                report(
+                    path,
+                    node.lineno,
+                    node.col_offset + 1,
+                    "ImportError: attempted relative import beyond top-level package",
+                )
+                continue
+            if not module_exists(target):
+                report(
+                    path,
+                    node.lineno,
+                    node.col_offset + 1,
+                    f"ModuleNotFoundError: No module named '{target}'",
+                )
+                continue
+            target_path = modules.get(target)
+            if target_path not in bindings:
+                continue
+            target_names, target_star = bindings[target_path]
+            if target_star:
+                continue
+            for alias in node.names:
+                if (
+                    alias.name != "*"
+                    and alias.name not in target_names
+                    and f"{target}.{alias.name}" not in modules
+                    and not any(m.startswith(f"{target}.{alias.name}.") for m in modules)
+                ):
+                    report(
+                        path,
+                        node.lineno,
+                        node.col_offset + 1,
+                        f"ImportError: cannot import name '{alias.name}' from '{target}'",
+                    )
+
+problems.sort(key=lambda p: (p["file"], p["line"], p["column"]))
+json.dump(problems, sys.stdout)
+`;
+
+interface PythonCheckProblem {
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+}
+
+/**
+ * Distribution names declared in a requirements.txt. Imports of these are
+ * not reported even if they aren't installed yet.
+ */
+export function parseRequirementNames(requirements: string): string[] {
+  const names: string[] = [];
+  for (const line of requirements.split(/\r?\n/)) {
+    const match = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)/.exec(line);
+    if (match) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+/**
+ * The app's virtualenv interpreter if it has one, otherwise python3 or
+ * python from PATH
+ */
+export function findPythonInterpreter(
+  dirs: string[],
+  env: NodeJS.ProcessEnv,
+): string | null {
+  const isWindows = process.platform === "win32";
+  const venvPython = isWindows
+    ? path.join("Scripts", "python.exe")
+    : path.join("bin", "python");
+  for (const dir of dirs) {
+    for (const venv of [".venv", "venv", "env"]) {
+      const candidate = path.join(dir, venv, venvPython);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  const pathDirs = (env.PATH ?? "").split(path.delimiter).filter(Boolean);
+  for (const name of ["python3", "python"]) {
+    for (const dir of pathDirs) {
+      const candidate = path.join(dir, isWindows ? `${name}.exe` : name);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+function buildSnippet(source: string | undefined, line: number): string {
+  if (source === undefined) {
+    return "";
+  }
+  const sourceLines = source.split(/\r?\n/);
+  const index = line - 1;
+  const lineBefore = index > 0 ? sourceLines[index - 1] : "";
+  const lineAfter =
+    index < sourceLines.length - 1 ? sourceLines[index + 1] : "";
+  let snippet = "";
+  if (lineBefore) snippet += lineBefore + "\n";
+  snippet += (sourceLines[index] ?? "") + " # <-- Python error here\n";
+  if (lineAfter) snippet += lineAfter;
+  return snippet.trim();
+}
+
+/**
+ * Check Python sources for syntax errors, undefined names and imports that
+ * don't resolve, using `interpreter` to find installed packages
+ */
+export async function runPythonCheck({
+  interpreter,
+  root,
+  files,
+  requirements,
+  env,
+}: {
+  interpreter: string;
+  root: string;
+  // Paths relative to root, with forward slashes
+  files: Record<string, string>;
+  requirements: string[];
+  env?: NodeJS.ProcessEnv;
+}): Promise<Problem[]> {
+  const output = await new Promise<string>((resolve, reject) => {
+    const child = spawn(interpreter, ["-c", PYTHON_CHECK_SCRIPT], {
+      cwd: root,
+      env,
+      stdio: "pipe",
+    });
+    let stdout = "";
+    let stderr = "";
+    const timeout = setTimeout(() => {
+      child.kill();
+      reject(new Error("Python check timed out"));
+    }, PYTHON_CHECK_TIMEOUT_MS);
+
+    child.stdout.on("data", (data) => {
+      stdout += data.toString();
+    });
+    child.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+    child.on("error", (error) => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timeout);
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(
+          new Error(`Python check exited with code ${code}: ${stderr.trim()}`),
+        );
+      }
+    });
+
+    child.stdin.end(JSON.stringify({ root, files, requirements }));
+  });
+
+  const problems = JSON.parse(output) as PythonCheckProblem[];
+  return problems.map((problem) => ({
+    ...problem,
+    code: 0,
+    snippet: buildSnippet(files[problem.file], problem.line),
+    source: "python",
+  }));
+}
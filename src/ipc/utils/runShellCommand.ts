@@ -4,10 +4,18 @@ import { executeComplexCommand, getShellEnv } from "../handlers/app_handlers";
 
 const logger = log.scope("runShellCommand");
 
-export function runShellCommand(command: string, workingDir?: string): Promise<string | null> {
+export interface ShellCommandResult {
+  // Null when the command couldn't be started
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+export function executeShellCommand(command: string, workingDir?: string): Promise<ShellCommandResult> {
   logger.log(`Running command: ${command}`);
   return new Promise(async (resolve) => {
-    let output = "";
+    let stdout = "";
+    let stderr = "";
     const cwd = workingDir || process.cwd();
 
     // Check if the command contains shell operators that require script execution
@@ -28,29 +36,35 @@ export function runShellCommand(command: string, workingDir?: string): Promise<s
     }
 
     childProcess.stdout?.on("data", (data) => {
-      output += data.toString();
+      stdout += data.toString();
     });
 
     childProcess.stderr?.on("data", (data) => {
       // Log stderr but don't treat it as a failure unless the exit code is non-zero
       logger.warn(`Stderr from "${command}": ${data.toString().trim()}`);
+      stderr += data.toString();
     });
 
     childProcess.on("error", (error) => {
       logger.error(`Error executing command "${command}":`, error.message);
-      resolve(null); // Command execution failed
+      resolve({ exitCode: null, stdout, stderr: stderr + error.message }); // Command execution failed
     });
 
     childProcess.on("close", (code) => {
       if (code === 0) {
         logger.debug(
-          `Command "${command}" succeeded with code ${code}: ${output.trim()}`,
+          `Command "${command}" succeeded with code ${code}: ${stdout.trim()}`,
         );
-        resolve(output.trim()); // Command succeeded, return trimmed output
       } else {
         logger.error(`Command "${command}" failed with code ${code}`);
-        resolve(null); // Command failed
       }
+      resolve({ exitCode: code, stdout, stderr });
     });
   });
 }
+
+export async function runShellCommand(command: string, workingDir?: string): Promise<string | null> {
+  const result = await executeShellCommand(command, workingDir);
+  // Return trimmed stdout on success, null when the command failed
+  return result.exitCode === 0 ? result.stdout.trim() : null;
+}
@@ -0,0 +1,253 @@
+import { and, asc, eq, ne } from "drizzle-orm";
+import { db } from "../../db";
+import { apps, runProfiles } from "../../db/schema";
+import type {
+  RunProfile,
+  RunProfileWorkingDirectory,
+  SaveRunProfileParams,
+} from "../ipc_types";
+
+const WORKING_DIRECTORIES: readonly RunProfileWorkingDirectory[] = [
+  "frontend",
+  "backend",
+];
+
+function rowToRunProfile(row: typeof runProfiles.$inferSelect): RunProfile {
+  return {
+    id: row.id,
+    appId: row.appId,
+    name: row.name,
+    installCommand: row.installCommand,
+    buildCommand: row.buildCommand,
+    startCommand: row.startCommand,
+    workingDirectory: WORKING_DIRECTORIES.includes(
+      row.workingDirectory as RunProfileWorkingDirectory,
+    )
+      ? (row.workingDirectory as RunProfileWorkingDirectory)
+      : null,
+    env: (row.env as Record<string, string> | null) ?? {},
+    port: row.port,
+  };
+}
+
+export async function listRunProfiles(appId: number): Promise<RunProfile[]> {
+  const rows = await db
+    .select()
+    .from(runProfiles)
+    .where(eq(runProfiles.appId, appId))
+    .orderBy(asc(runProfiles.id));
+  return rows.map(rowToRunProfile);
+}
+
+/**
+ * The profile selected for an app, or undefined if its commands should be
+ * detected from the files in the app
+ */
+export async function getSelectedRunProfile(
+  appId: number,
+): Promise<RunProfile | undefined> {
+  const app = await db.query.apps.findFirst({
+    where: eq(apps.id, appId),
+    columns: { selectedRunProfileId: true },
+  });
+  if (!app?.selectedRunProfileId) {
+    return undefined;
+  }
+  const row = await db.query.runProfiles.findFirst({
+    where: and(
+      eq(runProfiles.id, app.selectedRunProfileId),
+      eq(runProfiles.appId, appId),
+    ),
+  });
+  return row ? rowToRunProfile(row) : undefined;
+}
+
+/**
+ * The profile to start one side of a fullstack app with: the selected
+ * profile if it runs in that folder, otherwise the first one that does.
+ */
+export async function getRunProfileForWorkingDirectory(
+  appId: number,
+  workingDirectory: RunProfileWorkingDirectory,
+): Promise<RunProfile | undefined> {
+  const selected = await getSelectedRunProfile(appId);
+  if (selected?.workingDirectory === workingDirectory) {
+    return selected;
+  }
+  const row = await db.query.runProfiles.findFirst({
+    where: and(
+      eq(runProfiles.appId, appId),
+      eq(runProfiles.workingDirectory, workingDirectory),
+    ),
+    orderBy: [asc(runProfiles.id)],
+  });
+  return row ? rowToRunProfile(row) : undefined;
+}
+
+/**
+ * The shell command that installs, builds and starts a profile
+ */
+export function getRunProfileCommand(profile: RunProfile): string {
+  return [profile.installCommand, profile.buildCommand, profile.startCommand]
+    .map((command) => command?.trim())
+    .filter((command): command is string => !!command)
+    .join(" && ");
+}
+
+/**
+ * The environment a profile runs with: its overrides on top of `baseEnv`,
+ * with PORT set to the port it was started on, if known
+ */
+export function getRunProfileEnv(
+  baseEnv: NodeJS.ProcessEnv,
+  profile: RunProfile,
+  port: number | null,
+): NodeJS.ProcessEnv {
+  const env = { ...baseEnv, ...profile.env };
+  if (port !== null) {
+    env.PORT = port.toString();
+  }
+  return env;
+}
+
+function validateRunProfile(params: SaveRunProfileParams) {
+  if (!params.name.trim()) {
+    throw new Error("Run profile name is required");
+  }
+  if (!params.startCommand.trim()) {
+    throw new Error("Run profile start command is required");
+  }
+  if (
+    params.workingDirectory &&
+    !WORKING_DIRECTORIES.includes(params.workingDirectory)
+  ) {
+    throw new Error(`Invalid working directory: ${params.workingDirectory}`);
+  }
+  if (
+    params.port !== undefined &&
+    params.port !== null &&
+    (!Number.isInteger(params.port) || params.port < 1 || params.port > 65535)
+  ) {
+    throw new Error(`Invalid port: ${params.port}`);
+  }
+  for (const key of Object.keys(params.env ?? {})) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+      throw new Error(`Invalid environment variable name: ${key}`);
+    }
+  }
+}
+
+/**
+ * Create a profile, or update it when `params.id` is set
+ */
+export async function saveRunProfile(
+  params: SaveRunProfileParams,
+): Promise<RunProfile> {
+  validateRunProfile(params);
+  const name = params.name.trim();
+
+  const duplicate = await db.query.runProfiles.findFirst({
+    where: and(
+      eq(runProfiles.appId, params.appId),
+      eq(runProfiles.name, name),
+      params.id !== undefined ? ne(runProfiles.id, params.id) : undefined,
+    ),
+  });
+  if (duplicate) {
+    throw new Error(`A run profile named "${name}" already exists`);
+  }
+
+  const values = {
+    name,
+    installCommand: params.installCommand?.trim() || null,
+    buildCommand: params.buildCommand?.trim() || null,
+    startCommand: params.startCommand.trim(),
+    workingDirectory: params.workingDirectory ?? null,
+    env: params.env ?? {},
+    port: params.port ?? null,
+  };
+
+  if (params.id === undefined) {
+    const [row] = await db
+      .insert(runProfiles)
+      .values({ appId: params.appId, ...values })
+      .returning();
+    return rowToRunProfile(row);
+  }
+
+  const [row] = await db
+    .update(runProfiles)
+    .set({ ...values, updatedAt: new Date() })
+    .where(
+      and(eq(runProfiles.id, params.id), eq(runProfiles.appId, params.appId)),
+    )
+    .returning();
+  if (!row) {
+    throw new Error(`Run profile ${params.id} not found`);
+  }
+  return rowToRunProfile(row);
+}
+
+export async function deleteRunProfile(
+  appId: number,
+  profileId: number,
+): Promise<void> {
+  await db
+    .update(apps)
+    .set({ selectedRunProfileId: null })
+    .where(and(eq(apps.id, appId), eq(apps.selectedRunProfileId, profileId)));
+  await db
+    .delete(runProfiles)
+    .where(and(eq(runProfiles.id, profileId), eq(runProfiles.appId, appId)));
+}
+
+/**
+ * Select the profile run-app uses, or null to detect the commands again
+ */
+export async function selectRunProfile(
+  appId: number,
+  profileId: number | null,
+): Promise<void> {
+  if (profileId !== null) {
+    const profile = await db.query.runProfiles.findFirst({
+      where: and(eq(runProfiles.id, profileId), eq(runProfiles.appId, appId)),
+    });
+    if (!profile) {
+      throw new Error(`Run profile ${profileId} not found`);
+    }
+  }
+  await db
+    .update(apps)
+    .set({ selectedRunProfileId: profileId })
+    .where(eq(apps.id, appId));
+}
+
+/**
+ * Copy every profile of an app, and which one is selected, to another app
+ */
+export async function copyRunProfiles(
+  fromAppId: number,
+  toAppId: number,
+): Promise<void> {
+  const profiles = await listRunProfiles(fromAppId);
+  const selected = await getSelectedRunProfile(fromAppId);
+
+  for (const profile of profiles) {
+    const [row] = await db
+      .insert(runProfiles)
+      .values({
+        appId: toAppId,
+        name: profile.name,
+        installCommand: profile.installCommand,
+        buildCommand: profile.buildCommand,
+        startCommand: profile.startCommand,
+        workingDirectory: profile.workingDirectory,
+        env: profile.env,
+        port: profile.port,
+      })
+      .returning({ id: runProfiles.id });
+    if (profile.id === selected?.id) {
+      await selectRunProfile(toAppId, row.id);
+    }
+  }
+}
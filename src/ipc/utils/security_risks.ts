@@ -0,0 +1,367 @@
+import fs from "node:fs";
+import path from "node:path";
+import log from "electron-log";
+import semver from "semver";
+import type { SecurityRisk, SqlQuery } from "../../lib/schemas";
+import { safeJoin } from "./path_utils";
+
+const logger = log.scope("security_risks");
+
+export interface SecurityAnalysisInput {
+  // Null when the app is unknown, so every install script counts as new
+  appPath: string | null;
+  // Full contents for writes, replacement text for search/replace edits
+  files: { path: string; content: string }[];
+  sqlQueries: SqlQuery[];
+  commands: string[];
+  packagesAdded: string[];
+}
+
+interface Rule {
+  type: SecurityRisk["type"];
+  title: string;
+  pattern: RegExp;
+  describe: (location: string) => string;
+}
+
+const SECRET_PATTERNS: [kind: string, pattern: RegExp][] = [
+  ["private key", /-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/],
+  ["AWS access key", /\bAKIA[0-9A-Z]{16}\b/],
+  ["Anthropic API key", /\bsk-ant-[A-Za-z0-9_-]{20,}/],
+  ["OpenAI API key", /\bsk-(?:proj-)?[A-Za-z0-9_-]{32,}/],
+  ["Stripe secret key", /\b[rs]k_live_[0-9A-Za-z]{20,}/],
+  ["GitHub token", /\bgh[pousr]_[A-Za-z0-9]{36,}/],
+  ["Slack token", /\bxox[abprs]-[A-Za-z0-9-]{10,}/],
+  ["Google API key", /\bAIza[0-9A-Za-z_-]{35}\b/],
+  [
+    "credential",
+    /\b(?:api[_-]?key|secret(?:[_-]?key)?|password|passwd|access[_-]?token|auth[_-]?token)["']?\s*[:=]\s*["'][^"'\s]{12,}["']/i,
+  ],
+];
+
+const SECRET_RULES: Rule[] = SECRET_PATTERNS.map(([kind, pattern]) => ({
+  type: "danger",
+  title: "Hardcoded secret",
+  pattern,
+  describe: (location) =>
+    `${location} looks like a hardcoded ${kind}. Anyone with the source can read it; load it from an environment variable instead.`,
+}));
+
+const CODE_RULES: Rule[] = [
+  {
+    type: "warning",
+    title: "Raw HTML injection",
+    pattern: /\bdangerouslySetInnerHTML\b/,
+    describe: (location) =>
+      `${location} uses dangerouslySetInnerHTML. Make sure the HTML is sanitized or it can run attacker-controlled scripts.`,
+  },
+  {
+    type: "danger",
+    title: "Dynamic code execution",
+    pattern: /(?<![\w.$])eval\s*\(|\bnew Function\s*\(/,
+    describe: (location) =>
+      `${location} evaluates a string as code. If any part of it comes from user input, it can run arbitrary code.`,
+  },
+];
+
+const SQL_RULES: Rule[] = [
+  {
+    type: "danger",
+    title: "Destructive SQL",
+    pattern:
+      /\bDROP\s+(?:TABLE|SCHEMA|DATABASE|VIEW|FUNCTION|POLICY|COLUMN)\b/i,
+    describe: (location) =>
+      `${location} drops database objects. Any data they hold is lost and cannot be restored by reverting the chat.`,
+  },
+  {
+    type: "danger",
+    title: "Destructive SQL",
+    pattern: /\bTRUNCATE\b/i,
+    describe: (location) =>
+      `${location} truncates a table, deleting every row in it.`,
+  },
+  {
+    type: "warning",
+    title: "Unfiltered delete",
+    pattern: /\bDELETE\s+FROM\s+[\w."]+\s*(?:;|$)/i,
+    describe: (location) =>
+      `${location} deletes every row of a table because it has no WHERE clause.`,
+  },
+  {
+    type: "danger",
+    title: "Row level security disabled",
+    pattern: /\bDISABLE\s+ROW\s+LEVEL\s+SECURITY\b/i,
+    describe: (location) =>
+      `${location} disables row level security, so any client with the anon key can read and write the table.`,
+  },
+];
+
+const COMMAND_RULES: Rule[] = [
+  {
+    type: "danger",
+    title: "Recursive delete",
+    pattern:
+      /\brm\s+(?:-[a-zA-Z]*r[a-zA-Z]*f|-[a-zA-Z]*f[a-zA-Z]*r|-r\s+-f|-f\s+-r)\b/,
+    describe: (location) =>
+      `${location} force-deletes files recursively. Check the target path before approving.`,
+  },
+  {
+    type: "danger",
+    title: "Piped remote script",
+    pattern:
+      /\b(?:curl|wget)\b[^|;&]*\|\s*(?:sudo\s+)?(?:sh|bash|zsh|python3?|node)\b/,
+    describe: (location) =>
+      `${location} downloads a script and runs it without letting you review it.`,
+  },
+  {
+    type: "warning",
+    title: "Elevated privileges",
+    pattern: /(?:^|[;&|]\s*)sudo\b/,
+    describe: (location) => `${location} runs with sudo.`,
+  },
+];
+
+const CODE_FILE_EXTENSIONS = new Set([
+  ".js",
+  ".jsx",
+  ".ts",
+  ".tsx",
+  ".mjs",
+  ".cjs",
+  ".vue",
+  ".svelte",
+  ".html",
+]);
+
+const INSTALL_SCRIPT_NAMES = ["preinstall", "install", "postinstall"];
+
+// Environment files are the right place for secrets, so they aren't flagged
+function isEnvFile(filePath: string): boolean {
+  return path.basename(filePath).startsWith(".env");
+}
+
+function truncate(text: string, maxLength = 80): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > maxLength
+    ? `${singleLine.slice(0, maxLength - 1)}…`
+    : singleLine;
+}
+
+/**
+ * Match the rules line by line so findings can point at a line. Each rule
+ * is reported at most once per source to keep the list readable.
+ */
+function matchRules(
+  rules: Rule[],
+  text: string,
+  locate: (lineNumber: number) => string,
+): SecurityRisk[] {
+  const risks: SecurityRisk[] = [];
+  const lines = text.split(/\r?\n/);
+  for (const rule of rules) {
+    const index = lines.findIndex((line) => rule.pattern.test(line));
+    if (index !== -1) {
+      risks.push({
+        type: rule.type,
+        title: rule.title,
+        description: rule.describe(locate(index + 1)),
+      });
+    }
+  }
+  return risks;
+}
+
+function parseScripts(content: string): Record<string, unknown> {
+  try {
+    return JSON.parse(content)?.scripts ?? {};
+  } catch {
+    return {};
+  }
+}
+
+// Install scripts that the new package.json adds or changes
+function getNewInstallScripts(
+  content: string,
+  previousContent: string | null,
+): string[] {
+  const scripts = parseScripts(content);
+  const previousScripts = parseScripts(previousContent ?? "");
+  return INSTALL_SCRIPT_NAMES.filter(
+    (name) => name in scripts && scripts[name] !== previousScripts[name],
+  );
+}
+
+/**
+ * Statically scan the changes of a proposal. This is a heuristic: it can't
+ * prove the changes are safe, only point the user at the parts worth a
+ * second look before approving.
+ */
+export function analyzeSecurityRisks(
+  input: Omit<SecurityAnalysisInput, "appPath" | "packagesAdded"> & {
+    // The current package.json files, keyed by path
+    previousPackageJsons?: Map<string, string | null>;
+  },
+): SecurityRisk[] {
+  const risks: SecurityRisk[] = [];
+
+  for (const file of input.files) {
+    const locate = (line: number) => `${file.path} line ${line}`;
+    if (!isEnvFile(file.path)) {
+      risks.push(...matchRules(SECRET_RULES, file.content, locate));
+    }
+    if (CODE_FILE_EXTENSIONS.has(path.extname(file.path))) {
+      risks.push(...matchRules(CODE_RULES, file.content, locate));
+    }
+    if (path.basename(file.path) === "package.json") {
+      const scripts = getNewInstallScripts(
+        file.content,
+        input.previousPackageJsons?.get(file.path) ?? null,
+      );
+      if (scripts.length > 0) {
+        risks.push({
+          type: "warning",
+          title: "Install script",
+          description: `${file.path} defines ${scripts.join(", ")}, which runs automatically on every npm install.`,
+        });
+      }
+    }
+  }
+
+  input.sqlQueries.forEach((query, index) => {
+    const name = query.description
+      ? `SQL query "${truncate(query.description, 40)}"`
+      : `SQL query ${index + 1}`;
+    risks.push(
+      ...matchRules(SQL_RULES, query.content, (line) => `${name} line ${line}`),
+    );
+  });
+
+  for (const command of input.commands) {
+    risks.push(
+      ...matchRules(
+        COMMAND_RULES,
+        command,
+        () => `The command \`${truncate(command)}\``,
+      ),
+    );
+  }
+
+  return risks;
+}
+
+// Lookups by package spec. Failed ones are cached as false too, so a
+// registry that's slow or unreachable only holds up the first proposal.
+const installScriptCache = new Map<string, Promise<boolean>>();
+
+// The abbreviated package document, which flags install scripts per version
+const ABBREVIATED_METADATA = "application/vnd.npm.install-v1+json";
+
+interface PackageDocument {
+  "dist-tags"?: Record<string, string>;
+  versions?: Record<string, { hasInstallScript?: boolean }>;
+}
+
+// "react", "react@18" or "@scope/pkg@^1.0.0" into name and version
+function parsePackageSpec(spec: string): { name: string; version: string } {
+  const at = spec.indexOf("@", spec.startsWith("@") ? 1 : 0);
+  return at === -1
+    ? { name: spec, version: "latest" }
+    : { name: spec.slice(0, at), version: spec.slice(at + 1) || "latest" };
+}
+
+// A dist-tag, exact version or range to the version npm would install
+function resolveVersion(
+  document: PackageDocument,
+  version: string,
+): string | null {
+  return (
+    document["dist-tags"]?.[version] ??
+    semver.maxSatisfying(Object.keys(document.versions ?? {}), version)
+  );
+}
+
+async function hasInstallScript(spec: string): Promise<boolean> {
+  const { name, version } = parsePackageSpec(spec);
+  const response = await fetch(
+    `https://registry.npmjs.org/${name.replace("/", "%2f")}`,
+    {
+      headers: { Accept: ABBREVIATED_METADATA },
+      signal: AbortSignal.timeout(5000),
+    },
+  );
+  if (!response.ok) {
+    throw new Error(`npm registry returned ${response.status} for ${spec}`);
+  }
+  const document: PackageDocument = await response.json();
+  const resolved = resolveVersion(document, version);
+  if (!resolved) {
+    throw new Error(`No version of ${name} matches ${version}`);
+  }
+  return document.versions?.[resolved]?.hasInstallScript === true;
+}
+
+/**
+ * Look up the added packages on the npm registry and return the ones that
+ * run scripts on install. Lookups that fail (e.g. offline) are skipped, so
+ * this never blocks a proposal, and aren't retried.
+ */
+export async function findPackagesWithInstallScripts(
+  packages: string[],
+): Promise<string[]> {
+  const results = await Promise.all(
+    packages.map((spec) => {
+      let result = installScriptCache.get(spec);
+      if (!result) {
+        result = hasInstallScript(spec).catch((error) => {
+          logger.warn(`Could not check install scripts for ${spec}:`, error);
+          return false;
+        });
+        installScriptCache.set(spec, result);
+      }
+      return result;
+    }),
+  );
+  return packages.filter((_, index) => results[index]);
+}
+
+async function readPackageJsons(
+  appPath: string | null,
+  files: SecurityAnalysisInput["files"],
+): Promise<Map<string, string | null>> {
+  const contents = new Map<string, string | null>();
+  for (const file of files) {
+    if (!appPath || path.basename(file.path) !== "package.json") {
+      continue;
+    }
+    try {
+      contents.set(
+        file.path,
+        await fs.promises.readFile(safeJoin(appPath, file.path), "utf8"),
+      );
+    } catch {
+      // A new file, or a path the proposal won't be allowed to write
+      contents.set(file.path, null);
+    }
+  }
+  return contents;
+}
+
+export async function getSecurityRisks(
+  input: SecurityAnalysisInput,
+): Promise<SecurityRisk[]> {
+  const risks = analyzeSecurityRisks({
+    ...input,
+    previousPackageJsons: await readPackageJsons(input.appPath, input.files),
+  });
+  const withInstallScripts = await findPackagesWithInstallScripts(
+    input.packagesAdded,
+  );
+  if (withInstallScripts.length > 0) {
+    risks.push({
+      type: "warning",
+      title: "Dependencies with install scripts",
+      description: `${withInstallScripts.join(", ")} ${withInstallScripts.length === 1 ? "runs a script" : "run scripts"} during install, with full access to your machine.`,
+    });
+  }
+  return risks;
+}
@@ -5,7 +5,8 @@ import path from "path";
 import { findAvailablePort } from "./port_utils";
 import log from "electron-log";
 import { getElectron } from "../../paths/paths";
-import { addTerminalOutput } from "../handlers/terminal_handlers";
+import { showTerminalOutput } from "../handlers/terminal_handlers";
+import { recordAppLog } from "./app_log_store";
 
 const logger = log.scope("start_proxy_server");
 
@@ -93,6 +94,8 @@ export async function startProxy(
     if (appId && typeof m === "string") {
       // Filter out the proxy-server-start message (handled separately)
       if (!m.startsWith("proxy-server-start url=")) {
+        recordAppLog({ appId, source: "proxy", level: "info", text: m });
+
         // Determine which terminal to route to based on terminalType
         let targetTerminals: ("frontend" | "backend")[] = [];
         
@@ -106,7 +109,7 @@ export async function startProxy(
         }
 
         for (const targetTerminal of targetTerminals) {
-          addTerminalOutput(appId, targetTerminal, m, "output");
+          showTerminalOutput(appId, targetTerminal, m, "output");
         }
       }
     }
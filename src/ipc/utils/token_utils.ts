@@ -1,3 +1,4 @@
+import type { ModelMessage } from "ai";
 import { LargeLanguageModel } from "@/lib/schemas";
 import { readSettings } from "../../main/settings";
 import { Message } from "../ipc_types";
@@ -16,6 +17,25 @@ export const estimateMessagesTokens = (messages: Message[]): number => {
   );
 };
 
+// Only text is counted, not attachments
+export const estimateModelMessagesTokens = (
+  messages: ModelMessage[],
+): number => {
+  let tokens = 0;
+  for (const message of messages) {
+    if (typeof message.content === "string") {
+      tokens += estimateTokens(message.content);
+      continue;
+    }
+    for (const part of message.content) {
+      if (part.type === "text") {
+        tokens += estimateTokens(part.text);
+      }
+    }
+  }
+  return tokens;
+};
+
 const DEFAULT_CONTEXT_WINDOW = 128_000;
 
 export async function getContextWindow() {
@@ -0,0 +1,40 @@
+import type { ChatSummary } from "./schemas";
+
+export interface ChatTreeEntry {
+  chat: ChatSummary;
+  // How many forks deep the chat is, 0 for chats that aren't forks
+  depth: number;
+}
+
+/**
+ * Order chats so each fork follows the chat it was forked from. Chats keep
+ * their relative order among siblings, and forks whose parent isn't listed
+ * are shown as top-level chats.
+ */
+export function orderChatsAsTree(chats: ChatSummary[]): ChatTreeEntry[] {
+  const listedIds = new Set(chats.map((chat) => chat.id));
+  const forksByParent = new Map<number, ChatSummary[]>();
+  const roots: ChatSummary[] = [];
+
+  for (const chat of chats) {
+    if (chat.parentChatId && listedIds.has(chat.parentChatId)) {
+      const siblings = forksByParent.get(chat.parentChatId) ?? [];
+      siblings.push(chat);
+      forksByParent.set(chat.parentChatId, siblings);
+    } else {
+      roots.push(chat);
+    }
+  }
+
+  const entries: ChatTreeEntry[] = [];
+  const visit = (chat: ChatSummary, depth: number) => {
+    entries.push({ chat, depth });
+    for (const fork of forksByParent.get(chat.id) ?? []) {
+      visit(fork, depth + 1);
+    }
+  };
+  for (const root of roots) {
+    visit(root, 0);
+  }
+  return entries;
+}
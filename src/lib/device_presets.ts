@@ -0,0 +1,117 @@
+export type DeviceId = "phone" | "tablet" | "desktop" | "custom";
+
+export interface Viewport {
+  id: DeviceId;
+  label: string;
+  width: number;
+  height: number;
+  devicePixelRatio: number;
+}
+
+export const DEVICE_PRESETS: Record<Exclude<DeviceId, "custom">, Viewport> = {
+  phone: {
+    id: "phone",
+    label: "Phone",
+    width: 390,
+    height: 844,
+    devicePixelRatio: 3,
+  },
+  tablet: {
+    id: "tablet",
+    label: "Tablet",
+    width: 820,
+    height: 1180,
+    devicePixelRatio: 2,
+  },
+  desktop: {
+    id: "desktop",
+    label: "Desktop",
+    width: 1440,
+    height: 900,
+    devicePixelRatio: 1,
+  },
+};
+
+export const DEVICE_IDS: DeviceId[] = ["phone", "tablet", "desktop", "custom"];
+
+export const DEVICE_PIXEL_RATIOS = [1, 2, 3];
+
+export interface PreviewViewportSettings {
+  // "responsive" fills the panel, like a plain browser window
+  device: DeviceId | "responsive";
+  // Shows multiViewportDevices side by side instead of one device
+  multiViewport: boolean;
+  multiViewportDevices: DeviceId[];
+  landscape: boolean;
+  // Overrides each device's own ratio when set
+  devicePixelRatio: number | null;
+  customSize: { width: number; height: number };
+}
+
+export const DEFAULT_PREVIEW_VIEWPORT_SETTINGS: PreviewViewportSettings = {
+  device: "responsive",
+  multiViewport: false,
+  multiViewportDevices: ["phone", "tablet", "desktop"],
+  landscape: false,
+  devicePixelRatio: null,
+  customSize: { width: 1024, height: 768 },
+};
+
+export function getViewport(
+  id: DeviceId,
+  settings: PreviewViewportSettings,
+): Viewport {
+  const preset =
+    id === "custom"
+      ? {
+          id,
+          label: "Custom",
+          ...settings.customSize,
+          devicePixelRatio: 1,
+        }
+      : DEVICE_PRESETS[id];
+  return {
+    ...preset,
+    width: settings.landscape ? preset.height : preset.width,
+    height: settings.landscape ? preset.width : preset.height,
+    devicePixelRatio: settings.devicePixelRatio ?? preset.devicePixelRatio,
+  };
+}
+
+/**
+ * The device frames to show, in order. Empty in responsive mode, where the
+ * preview fills the panel.
+ */
+export function getViewports(settings: PreviewViewportSettings): Viewport[] {
+  if (settings.multiViewport) {
+    return DEVICE_IDS.filter((id) =>
+      settings.multiViewportDevices.includes(id),
+    ).map((id) => getViewport(id, settings));
+  }
+  if (settings.device === "responsive") {
+    return [];
+  }
+  return [getViewport(settings.device, settings)];
+}
+
+/**
+ * The scale that fits the viewports side by side in the available space.
+ * They all share it so their relative sizes stay true; they're never
+ * enlarged.
+ */
+export function getFitScale(
+  viewports: Viewport[],
+  available: { width: number; height: number },
+  gap: number,
+): number {
+  if (viewports.length === 0) {
+    return 1;
+  }
+  const totalWidth = viewports.reduce((sum, v) => sum + v.width, 0);
+  const maxHeight = Math.max(...viewports.map((v) => v.height));
+  const availableWidth = available.width - gap * (viewports.length - 1);
+  return Math.max(
+    0.05,
+    Math.min(1, availableWidth / totalWidth, available.height / maxHeight),
+  );
+}
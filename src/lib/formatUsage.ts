@@ -0,0 +1,27 @@
+import type { TokenUsageTotals } from "@/ipc/ipc_types";
+
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+  if (tokens >= 1_000) {
+    return `${(tokens / 1_000).toFixed(1)}k`;
+  }
+  return String(tokens);
+}
+
+export function formatCostUsd(costUsd: number): string {
+  // Small responses cost fractions of a cent
+  return costUsd > 0 && costUsd < 0.01
+    ? `$${costUsd.toFixed(4)}`
+    : `$${costUsd.toFixed(2)}`;
+}
+
+export function formatUsageSummary(usage: TokenUsageTotals): string {
+  const tokens = `${formatTokenCount(usage.inputTokens)} in / ${formatTokenCount(usage.outputTokens)} out`;
+  const reasoning =
+    usage.reasoningTokens > 0
+      ? ` (${formatTokenCount(usage.reasoningTokens)} reasoning)`
+      : "";
+  return `${tokens}${reasoning} · ${formatCostUsd(usage.costUsd)}`;
+}
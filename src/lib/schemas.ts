@@ -14,6 +14,9 @@ export const ChatSummarySchema = z.object({
   appId: z.number(),
   title: z.string().nullable(),
   createdAt: z.date(),
+  // Set for chats forked from another chat
+  parentChatId: z.number().nullable().optional(),
+  branchName: z.string().nullable().optional(),
 });
 
 /**
@@ -125,7 +128,7 @@ export type VertexProviderSetting = z.infer<typeof VertexProviderSettingSchema>;
 export const RuntimeModeSchema = z.enum(["web-sandbox", "local-node", "unset"]);
 export type RuntimeMode = z.infer<typeof RuntimeModeSchema>;
 
-export const RuntimeMode2Schema = z.enum(["host", "docker"]);
+export const RuntimeMode2Schema = z.enum(["host", "docker", "docker-compose"]);
 export type RuntimeMode2 = z.infer<typeof RuntimeMode2Schema>;
 
 export const ChatModeSchema = z.enum(["build", "ask", "backend", "fullstack"]);
@@ -141,6 +144,18 @@ export const GithubUserSchema = z.object({
 });
 export type GithubUser = z.infer<typeof GithubUserSchema>;
 
+/**
+ * Credential for a Git remote other than GitHub. `secret` is an access token
+ * sent over HTTPS or an SSH private key, depending on `kind`.
+ */
+export const GitRemoteCredentialSchema = z.object({
+  name: z.string(),
+  kind: z.enum(["token", "ssh-key"]),
+  username: z.string().optional(),
+  secret: SecretSchema,
+});
+export type GitRemoteCredential = z.infer<typeof GitRemoteCredentialSchema>;
+
 export const SupabaseSchema = z.object({
   accessToken: SecretSchema.optional(),
   refreshToken: SecretSchema.optional(),
@@ -170,6 +185,24 @@ export const AliFullStackProBudgetSchema = z.object({
 });
 export type AliFullStackProBudget = z.infer<typeof AliFullStackProBudgetSchema>;
 
+export const MonthlyBudgetSchema = z.object({
+  // Spend limit in USD for the current calendar month
+  limitUsd: z.number(),
+  mode: z.enum(["warn", "block"]),
+});
+export type MonthlyBudget = z.infer<typeof MonthlyBudgetSchema>;
+
+/**
+ * Patterns for terminal commands the AI asks to run. `*` matches any text,
+ * so "npm install *" allows every install. The denylist wins when a command
+ * matches both lists.
+ */
+export const CommandPolicySchema = z.object({
+  allowlist: z.array(z.string()),
+  denylist: z.array(z.string()),
+});
+export type CommandPolicy = z.infer<typeof CommandPolicySchema>;
+
 export const GlobPathSchema = z.object({
   globPath: z.string(),
 });
@@ -206,6 +239,10 @@ export const UserSettingsSchema = z.object({
   githubUser: GithubUserSchema.optional(),
   githubAccessToken: SecretSchema.optional(),
   vercelAccessToken: SecretSchema.optional(),
+  // Keyed by the id stored in apps.gitRemoteCredentialId
+  gitRemoteCredentials: z
+    .record(z.string(), GitRemoteCredentialSchema)
+    .optional(),
   supabase: SupabaseSchema.optional(),
   neon: NeonSchema.optional(),
   autoApproveChanges: z.boolean().optional(),
@@ -216,21 +253,25 @@ export const UserSettingsSchema = z.object({
   experiments: ExperimentsSchema.optional(),
   lastShownReleaseNotesVersion: z.string().optional(),
   maxChatTurnsInContext: z.number().optional(),
+  autonomousIterationBudget: z.number().optional(),
   thinkingBudget: z.enum(["low", "medium", "high"]).optional(),
   enableProLazyEditsMode: z.boolean().optional(),
   enableProSmartFilesContextMode: z.boolean().optional(),
   proSmartContextOption: z.enum(["balanced", "conservative"]).optional(),
   selectedTemplateId: z.string(),
-  enableSupabaseWriteSqlMigration: z.boolean().optional(),
   selectedChatMode: ChatModeSchema.optional(),
   selectedBackendFramework: z.string().optional(),
   acceptedCommunityCode: z.boolean().optional(),
 
   enableAutoFixProblems: z.boolean().optional(),
+  // Lint severities that auto-fix sends to the model; defaults to errors
+  autoFixLintSeverities: z.array(z.enum(["error", "warning"])).optional(),
   enableNativeGit: z.boolean().optional(),
   enableAutoUpdate: z.boolean(),
   releaseChannel: ReleaseChannelSchema,
   runtimeMode2: RuntimeMode2Schema.optional(),
+  monthlyBudget: MonthlyBudgetSchema.optional(),
+  terminalCommandPolicy: CommandPolicySchema.optional(),
 
   ////////////////////////////////
   // E2E TESTING ONLY.
@@ -275,6 +316,18 @@ export interface FileChange {
   isServerFunction: boolean;
 }
 
+export interface ProposedTerminalCommand {
+  // Position of the command in the response, used to approve it
+  id: number;
+  command: string;
+  // Relative to the app folder
+  cwd: string;
+  terminal: "frontend" | "backend";
+  description?: string;
+  // "ask" commands only run when the user approves them
+  policy: "allow" | "deny" | "ask";
+}
+
 export interface CodeProposal {
   type: "code-proposal";
   title: string;
@@ -282,6 +335,7 @@ export interface CodeProposal {
   filesChanged: FileChange[];
   packagesAdded: string[];
   sqlQueries: SqlQuery[];
+  terminalCommands: ProposedTerminalCommand[];
 }
 
 export type SuggestedAction =
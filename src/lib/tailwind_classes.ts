@@ -0,0 +1,101 @@
+export type TailwindClassGroup = "spacing" | "color" | "typography" | "other";
+
+export const TAILWIND_CLASS_GROUPS: TailwindClassGroup[] = [
+  "spacing",
+  "color",
+  "typography",
+  "other",
+];
+
+const SPACING_PATTERN =
+  /^-?(p|px|py|pt|pr|pb|pl|ps|pe|m|mx|my|mt|mr|mb|ml|ms|me|gap|gap-x|gap-y|space-x|space-y)-/;
+
+// Longer prefixes first, so border-t-red-500 isn't read as border + t-red-500
+const COLOR_UTILITY_PATTERN =
+  /^(bg|text|border-[xytrbl]|border|ring-offset|ring|outline|divide|fill|stroke|from|via|to|decoration|accent|caret|placeholder|shadow)-(.+)$/;
+
+const PALETTE_COLOR_PATTERN =
+  /^(slate|gray|zinc|neutral|stone|red|orange|amber|yellow|lime|green|emerald|teal|cyan|sky|blue|indigo|violet|purple|fuchsia|pink|rose)-\d{2,3}$/;
+
+// The theme colors the shadcn/ui scaffolds define
+const THEME_COLOR_PATTERN =
+  /^(background|foreground|primary|secondary|muted|accent|destructive|card|popover|border|input|ring|sidebar)(-foreground)?$/;
+
+const TYPOGRAPHY_PATTERN =
+  /^(text-(xs|sm|base|lg|[2-9]?xl|left|center|right|justify|start|end|wrap|nowrap|balance|pretty|ellipsis|clip)|font-|leading-|tracking-|line-clamp-|decoration-|underline-offset-|indent-|italic$|not-italic$|underline$|overline$|line-through$|no-underline$|uppercase$|lowercase$|capitalize$|normal-case$|truncate$|antialiased$|subpixel-antialiased$|whitespace-|break-)/;
+
+// Drops variants like "md:" and "hover:" and the "!" important modifier
+function baseUtility(className: string): string {
+  return className.replace(/^(?:[^[:]*:)+/, "").replace(/^!/, "");
+}
+
+function isColorValue(value: string): boolean {
+  // Opacity modifiers, e.g. bg-primary/50
+  const color = value.replace(/\/\d+$/, "");
+  return (
+    ["inherit", "current", "transparent", "black", "white"].includes(color) ||
+    PALETTE_COLOR_PATTERN.test(color) ||
+    THEME_COLOR_PATTERN.test(color) ||
+    /^\[(#|rgb|hsl|color:)/.test(color)
+  );
+}
+
+export function getTailwindClassGroup(className: string): TailwindClassGroup {
+  const utility = baseUtility(className);
+  if (SPACING_PATTERN.test(utility)) {
+    return "spacing";
+  }
+  const colorMatch = utility.match(COLOR_UTILITY_PATTERN);
+  if (colorMatch && isColorValue(colorMatch[2])) {
+    return "color";
+  }
+  if (TYPOGRAPHY_PATTERN.test(utility)) {
+    return "typography";
+  }
+  return "other";
+}
+
+/**
+ * Splits a class list into the groups the component inspector edits
+ * separately, keeping each group in source order.
+ */
+export function groupTailwindClasses(
+  className: string,
+): Record<TailwindClassGroup, string> {
+  const groups: Record<TailwindClassGroup, string[]> = {
+    spacing: [],
+    color: [],
+    typography: [],
+    other: [],
+  };
+  for (const name of className.split(/\s+/).filter(Boolean)) {
+    groups[getTailwindClassGroup(name)].push(name);
+  }
+  return {
+    spacing: groups.spacing.join(" "),
+    color: groups.color.join(" "),
+    typography: groups.typography.join(" "),
+    other: groups.other.join(" "),
+  };
+}
+
+/**
+ * Replaces one group's classes in a class list. Classes that stay keep
+ * their position, so the source diff only shows what changed; new ones
+ * go at the end.
+ */
+export function updateTailwindClassGroup(
+  className: string,
+  group: TailwindClassGroup,
+  value: string,
+): string {
+  const wanted = value.split(/\s+/).filter(Boolean);
+  const kept: string[] = [];
+  for (const name of className.split(/\s+/).filter(Boolean)) {
+    if (getTailwindClassGroup(name) !== group || wanted.includes(name)) {
+      kept.push(name);
+    }
+  }
+  const added = wanted.filter((name) => !kept.includes(name));
+  return [...kept, ...added].join(" ");
+}
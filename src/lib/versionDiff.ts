@@ -0,0 +1,41 @@
+// Same shape as Monaco's ILineChange. Line numbers are 1-based, and an end
+// line of 0 means that side has no lines: the hunk only inserts or deletes,
+// and its start line is the line the change comes after.
+export interface LineChange {
+  originalStartLineNumber: number;
+  originalEndLineNumber: number;
+  modifiedStartLineNumber: number;
+  modifiedEndLineNumber: number;
+}
+
+/**
+ * Undo one hunk of a diff: the modified text with the lines of `change`
+ * put back the way they are in the original text. Other hunks are kept.
+ */
+export function revertLineChange(
+  original: string,
+  modified: string,
+  change: LineChange,
+): string {
+  const originalLines = original.split("\n");
+  const modifiedLines = modified.split("\n");
+
+  const restoredLines =
+    change.originalEndLineNumber === 0
+      ? []
+      : originalLines.slice(
+          change.originalStartLineNumber - 1,
+          change.originalEndLineNumber,
+        );
+
+  if (change.modifiedEndLineNumber === 0) {
+    modifiedLines.splice(change.modifiedStartLineNumber, 0, ...restoredLines);
+  } else {
+    modifiedLines.splice(
+      change.modifiedStartLineNumber - 1,
+      change.modifiedEndLineNumber - change.modifiedStartLineNumber + 1,
+      ...restoredLines,
+    );
+  }
+  return modifiedLines.join("\n");
+}
@@ -0,0 +1,49 @@
+import type { LocalDbProvider } from "../ipc/ipc_types";
+import { executeLocalDbSql } from "./local_db_manager";
+import {
+  POSTGRES_SCHEMA_QUERY,
+  SQLITE_SCHEMA_QUERY,
+  formatPostgresSchema,
+  formatSqliteSchema,
+} from "./local_db_schema";
+
+export async function getLocalDbSchema({
+  appId,
+  provider,
+}: {
+  appId: number;
+  provider: LocalDbProvider;
+}): Promise<string> {
+  if (provider === "sqlite") {
+    const rows = JSON.parse(
+      await executeLocalDbSql({ appId, query: SQLITE_SCHEMA_QUERY }),
+    );
+    return formatSqliteSchema(rows);
+  }
+  const rows = JSON.parse(
+    await executeLocalDbSql({ appId, query: POSTGRES_SCHEMA_QUERY }),
+  );
+  return formatPostgresSchema(rows);
+}
+
+export async function getLocalDbContext({
+  appId,
+  provider,
+}: {
+  appId: number;
+  provider: LocalDbProvider;
+}) {
+  const schema = await getLocalDbSchema({ appId, provider });
+
+  const context = `
+  # Local Database Context
+
+  ## Provider
+  ${provider === "sqlite" ? "SQLite (POSTGRES_URL is a file: URL to the database file)" : "PostgreSQL"}
+
+  ## Schema
+  ${schema || "(no tables yet)"}
+  `;
+
+  return context;
+}
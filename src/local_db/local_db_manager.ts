@@ -0,0 +1,391 @@
+import { ChildProcess, execFile, spawn } from "node:child_process";
+import fs from "node:fs";
+import path from "node:path";
+import util from "node:util";
+import Database from "better-sqlite3";
+import { Client } from "pg";
+import log from "electron-log";
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { apps } from "../db/schema";
+import { getUserDataPath } from "../paths/paths";
+import { getShellEnv } from "../ipc/handlers/app_handlers";
+import { findAvailablePort } from "../ipc/utils/port_utils";
+import { updatePostgresUrlEnvVar } from "../ipc/utils/app_env_var_utils";
+import {
+  runPostgresScript,
+  runSqliteScript,
+  type SqlScriptResult,
+} from "./sql_runners";
+import type { LocalDbProvider, LocalDbStatus } from "../ipc/ipc_types";
+
+const logger = log.scope("local_db_manager");
+const execFileAsync = util.promisify(execFile);
+
+const POSTGRES_USER = "postgres";
+const POSTGRES_DATABASE = "postgres";
+const POSTGRES_READY_TIMEOUT_MS = 30_000;
+const POSTGRES_STOP_TIMEOUT_MS = 10_000;
+// Kept in the output of a server that fails to start
+const MAX_SERVER_OUTPUT_LENGTH = 5_000;
+
+interface PostgresServer {
+  process: ChildProcess;
+  connectionString: string;
+  output: string;
+}
+
+const postgresServers = new Map<number, PostgresServer>();
+// So starting an app and running its SQL at the same time start one server
+const pendingStarts = new Map<number, Promise<PostgresServer>>();
+
+function getLocalDbDir(appId: number): string {
+  return path.join(getUserDataPath(), "local-databases", String(appId));
+}
+
+function getSqlitePath(appId: number): string {
+  return path.join(getLocalDbDir(appId), "app.sqlite");
+}
+
+function getPostgresDataDir(appId: number): string {
+  return path.join(getLocalDbDir(appId), "postgres");
+}
+
+function getDataPath(appId: number, provider: LocalDbProvider): string {
+  return provider === "sqlite"
+    ? getSqlitePath(appId)
+    : getPostgresDataDir(appId);
+}
+
+async function getApp(appId: number) {
+  const app = await db.query.apps.findFirst({ where: eq(apps.id, appId) });
+  if (!app) {
+    throw new Error("App not found");
+  }
+  return app;
+}
+
+// Versioned installs that usually aren't on the PATH, newest first
+function getPostgresInstallDirs(): string[] {
+  const roots: { root: string; binDir: string }[] =
+    process.platform === "win32"
+      ? [{ root: "C:\\Program Files\\PostgreSQL", binDir: "bin" }]
+      : process.platform === "darwin"
+        ? [
+            {
+              root: "/Applications/Postgres.app/Contents/Versions",
+              binDir: "bin",
+            },
+            { root: "/opt/homebrew/opt", binDir: "bin" },
+            { root: "/usr/local/opt", binDir: "bin" },
+          ]
+        : [{ root: "/usr/lib/postgresql", binDir: "bin" }];
+
+  const dirs: string[] = [];
+  for (const { root, binDir } of roots) {
+    if (!fs.existsSync(root)) {
+      continue;
+    }
+    // Postgres.app links its newest version as "latest"
+    const versionOf = (name: string) =>
+      name === "latest"
+        ? Infinity
+        : parseFloat(name.replace("postgresql@", ""));
+    const versions = fs
+      .readdirSync(root)
+      .filter((name) => /^(?:postgresql@)?\d+(?:\.\d+)?$|^latest$/.test(name))
+      .sort((a, b) => versionOf(b) - versionOf(a));
+    dirs.push(...versions.map((version) => path.join(root, version, binDir)));
+  }
+  return dirs;
+}
+
+function findPostgresBinary(name: "initdb" | "postgres"): string {
+  const fileName = process.platform === "win32" ? `${name}.exe` : name;
+  const dirs = [
+    ...(getShellEnv().PATH ?? "").split(path.delimiter),
+    ...getPostgresInstallDirs(),
+  ];
+  for (const dir of dirs) {
+    const candidate = path.join(dir, fileName);
+    if (dir && fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  throw new Error(
+    `Could not find the PostgreSQL "${name}" program. Install PostgreSQL, or use a SQLite database instead.`,
+  );
+}
+
+async function initPostgresDataDir(dataDir: string): Promise<void> {
+  if (fs.existsSync(path.join(dataDir, "PG_VERSION"))) {
+    return;
+  }
+  fs.mkdirSync(dataDir, { recursive: true });
+  logger.info(`Initializing Postgres data directory ${dataDir}`);
+  // Only reachable from this machine, so no password is needed
+  await execFileAsync(
+    findPostgresBinary("initdb"),
+    [
+      "-D",
+      dataDir,
+      "-U",
+      POSTGRES_USER,
+      "--auth=trust",
+      "--encoding=UTF8",
+      "--no-locale",
+    ],
+    { env: getShellEnv() },
+  );
+}
+
+async function waitForPostgres(server: PostgresServer): Promise<void> {
+  const deadline = Date.now() + POSTGRES_READY_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (server.process.exitCode !== null) {
+      throw new Error(
+        `Postgres exited with code ${server.process.exitCode}:\n${server.output}`,
+      );
+    }
+    const client = new Client({ connectionString: server.connectionString });
+    try {
+      await client.connect();
+      await client.end();
+      return;
+    } catch {
+      // Not accepting connections yet
+      await new Promise((resolve) => setTimeout(resolve, 250));
+    }
+  }
+  throw new Error(
+    `Postgres did not start within ${POSTGRES_READY_TIMEOUT_MS / 1000} seconds:\n${server.output}`,
+  );
+}
+
+async function startPostgresServer(appId: number): Promise<PostgresServer> {
+  const dataDir = getPostgresDataDir(appId);
+  await initPostgresDataDir(dataDir);
+
+  const port = await findAvailablePort(54320, 54999);
+  const postgresProcess = spawn(
+    findPostgresBinary("postgres"),
+    [
+      "-D",
+      dataDir,
+      "-p",
+      String(port),
+      "-c",
+      "listen_addresses=localhost",
+      // The default socket directory is often not writable
+      "-c",
+      "unix_socket_directories=",
+    ],
+    { env: getShellEnv(), stdio: "pipe" },
+  );
+  const server: PostgresServer = {
+    process: postgresProcess,
+    connectionString: `postgresql://${POSTGRES_USER}@localhost:${port}/${POSTGRES_DATABASE}`,
+    output: "",
+  };
+  const recordOutput = (data: Buffer) => {
+    server.output = (server.output + data.toString()).slice(
+      -MAX_SERVER_OUTPUT_LENGTH,
+    );
+  };
+  postgresProcess.stdout?.on("data", recordOutput);
+  postgresProcess.stderr?.on("data", recordOutput);
+  postgresProcess.on("exit", (code) => {
+    logger.info(`Postgres for app ${appId} exited with code ${code}`);
+    if (postgresServers.get(appId) === server) {
+      postgresServers.delete(appId);
+    }
+  });
+
+  try {
+    await waitForPostgres(server);
+  } catch (error) {
+    postgresProcess.kill();
+    throw error;
+  }
+  postgresServers.set(appId, server);
+  logger.info(`Started Postgres for app ${appId} on port ${port}`);
+  return server;
+}
+
+/**
+ * The Postgres server of the app, started if it isn't running. It gets a
+ * free port each time it starts, so POSTGRES_URL is rewritten to match.
+ */
+async function ensurePostgresServer(appId: number): Promise<PostgresServer> {
+  const running = postgresServers.get(appId);
+  if (running) {
+    return running;
+  }
+  let pending = pendingStarts.get(appId);
+  if (!pending) {
+    pending = (async () => {
+      const server = await startPostgresServer(appId);
+      const app = await getApp(appId);
+      await updatePostgresUrlEnvVar({
+        appPath: app.path,
+        connectionUri: server.connectionString,
+      });
+      return server;
+    })().finally(() => pendingStarts.delete(appId));
+    pendingStarts.set(appId, pending);
+  }
+  return pending;
+}
+
+function getSqliteConnectionString(appId: number): string {
+  return `file:${getSqlitePath(appId)}`;
+}
+
+export async function getLocalDbStatus(appId: number): Promise<LocalDbStatus> {
+  const { localDbProvider } = await getApp(appId);
+  if (!localDbProvider) {
+    return {
+      provider: null,
+      isRunning: false,
+      connectionString: null,
+      dataPath: null,
+    };
+  }
+  const server = postgresServers.get(appId);
+  return {
+    provider: localDbProvider,
+    isRunning: localDbProvider === "sqlite" || !!server,
+    connectionString:
+      localDbProvider === "sqlite"
+        ? getSqliteConnectionString(appId)
+        : (server?.connectionString ?? null),
+    dataPath: getDataPath(appId, localDbProvider),
+  };
+}
+
+/**
+ * Create the app's database on this machine and point POSTGRES_URL at it.
+ * Existing data of the same provider is kept, so provisioning again only
+ * reconnects the app.
+ */
+export async function provisionLocalDb({
+  appId,
+  provider,
+}: {
+  appId: number;
+  provider: LocalDbProvider;
+}): Promise<LocalDbStatus> {
+  const app = await getApp(appId);
+  if (app.supabaseProjectId || app.neonProjectId) {
+    throw new Error(
+      "This app already has a database. Disconnect it from Supabase or Neon first.",
+    );
+  }
+  if (app.localDbProvider && app.localDbProvider !== provider) {
+    await stopLocalDb(appId);
+  }
+
+  if (provider === "sqlite") {
+    fs.mkdirSync(getLocalDbDir(appId), { recursive: true });
+    new Database(getSqlitePath(appId)).close();
+  }
+  await db
+    .update(apps)
+    .set({ localDbProvider: provider })
+    .where(eq(apps.id, appId));
+
+  if (provider === "sqlite") {
+    await updatePostgresUrlEnvVar({
+      appPath: app.path,
+      connectionUri: getSqliteConnectionString(appId),
+    });
+  } else {
+    await ensurePostgresServer(appId);
+  }
+  logger.info(`Provisioned local ${provider} database for app ${appId}`);
+  return getLocalDbStatus(appId);
+}
+
+export async function startLocalDb(appId: number): Promise<LocalDbStatus> {
+  const { localDbProvider } = await getApp(appId);
+  if (localDbProvider === "postgres") {
+    await ensurePostgresServer(appId);
+  }
+  return getLocalDbStatus(appId);
+}
+
+export async function stopLocalDb(appId: number): Promise<void> {
+  const server = postgresServers.get(appId);
+  if (!server) {
+    return;
+  }
+  postgresServers.delete(appId);
+  await new Promise<void>((resolve) => {
+    const timeout = setTimeout(() => {
+      logger.warn(`Postgres for app ${appId} did not stop, killing it`);
+      server.process.kill("SIGKILL");
+      resolve();
+    }, POSTGRES_STOP_TIMEOUT_MS);
+    server.process.once("exit", () => {
+      clearTimeout(timeout);
+      resolve();
+    });
+    // Fast shutdown: open connections are closed instead of waited for
+    server.process.kill("SIGINT");
+  });
+}
+
+// Stops the app's database and removes its data
+export async function deleteLocalDb(appId: number): Promise<void> {
+  await stopLocalDb(appId);
+  await fs.promises.rm(getLocalDbDir(appId), { recursive: true, force: true });
+}
+
+/**
+ * Postgres servers would otherwise outlive the app and keep their data
+ * directories locked
+ */
+export function stopAllLocalDbs(): void {
+  for (const [appId, server] of postgresServers) {
+    logger.info(`Stopping Postgres for app ${appId}`);
+    server.process.kill("SIGINT");
+  }
+  postgresServers.clear();
+}
+
+/**
+ * Run a SQL script against the app's local database, starting it if
+ * needed. Returns the result of the last statement that returns rows.
+ */
+export async function queryLocalDb({
+  appId,
+  query,
+}: {
+  appId: number;
+  query: string;
+}): Promise<SqlScriptResult> {
+  const { localDbProvider } = await getApp(appId);
+  if (!localDbProvider) {
+    throw new Error("This app has no local database");
+  }
+  if (localDbProvider === "sqlite") {
+    return runSqliteScript(getSqlitePath(appId), query);
+  }
+  const server = await ensurePostgresServer(appId);
+  return runPostgresScript(server.connectionString, query);
+}
+
+/**
+ * Like queryLocalDb, with the rows as JSON like executeSupabaseSql returns
+ * them
+ */
+export async function executeLocalDbSql({
+  appId,
+  query,
+}: {
+  appId: number;
+  query: string;
+}): Promise<string> {
+  const { rows } = await queryLocalDb({ appId, query });
+  return JSON.stringify(rows);
+}
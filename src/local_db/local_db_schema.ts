@@ -0,0 +1,67 @@
+export const SQLITE_SCHEMA_QUERY = `
+SELECT type, name, tbl_name, sql
+FROM sqlite_master
+WHERE name NOT LIKE 'sqlite_%' AND sql IS NOT NULL
+ORDER BY CASE type WHEN 'table' THEN 0 WHEN 'view' THEN 1 ELSE 2 END, name;
+`;
+
+export const POSTGRES_SCHEMA_QUERY = `
+SELECT c.table_schema, c.table_name, c.column_name, c.data_type,
+  c.is_nullable, c.column_default
+FROM information_schema.columns c
+JOIN information_schema.tables t
+  ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+WHERE c.table_schema NOT IN ('pg_catalog', 'information_schema')
+  AND t.table_type = 'BASE TABLE'
+ORDER BY c.table_schema, c.table_name, c.ordinal_position;
+`;
+
+export interface SqliteSchemaRow {
+  type: string;
+  name: string;
+  tbl_name: string;
+  sql: string;
+}
+
+export interface PostgresColumnRow {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  data_type: string;
+  is_nullable: string;
+  column_default: string | null;
+}
+
+/**
+ * The statements that created the tables, views, indexes and triggers,
+ * which is already the most compact way to describe a SQLite schema
+ */
+export function formatSqliteSchema(rows: SqliteSchemaRow[]): string {
+  return rows.map((row) => `${row.sql.trim()};`).join("\n");
+}
+
+/**
+ * One line per table, in the shape of a CREATE TABLE column list. Tables
+ * outside the public schema keep their schema name.
+ */
+export function formatPostgresSchema(rows: PostgresColumnRow[]): string {
+  const columnsByTable = new Map<string, string[]>();
+  for (const row of rows) {
+    const table =
+      row.table_schema === "public"
+        ? row.table_name
+        : `${row.table_schema}.${row.table_name}`;
+    const column = [
+      row.column_name,
+      row.data_type,
+      ...(row.is_nullable === "NO" ? ["NOT NULL"] : []),
+      ...(row.column_default !== null ? [`DEFAULT ${row.column_default}`] : []),
+    ].join(" ");
+    const columns = columnsByTable.get(table) ?? [];
+    columns.push(column);
+    columnsByTable.set(table, columns);
+  }
+  return [...columnsByTable]
+    .map(([table, columns]) => `${table}(${columns.join(", ")})`)
+    .join("\n");
+}
@@ -0,0 +1,60 @@
+import Database from "better-sqlite3";
+import { Client, type QueryResult } from "pg";
+import { splitSqlStatements } from "../supabase_admin/supabase_migrations";
+
+// The result of the last statement of a script that returns rows
+export interface SqlScriptResult {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * Run a script against a SQLite file, all statements or none, as with a
+ * Postgres script
+ */
+export function runSqliteScript(
+  filePath: string,
+  query: string,
+): SqlScriptResult {
+  const database = new Database(filePath);
+  try {
+    let result: SqlScriptResult = { columns: [], rows: [] };
+    database.transaction(() => {
+      for (const statement of splitSqlStatements(query)) {
+        const prepared = database.prepare(statement);
+        if (prepared.reader) {
+          result = {
+            columns: prepared.columns().map((column) => column.name),
+            rows: prepared.all() as Record<string, unknown>[],
+          };
+        } else {
+          prepared.run();
+        }
+      }
+    })();
+    return result;
+  } finally {
+    database.close();
+  }
+}
+
+export async function runPostgresScript(
+  connectionString: string,
+  query: string,
+): Promise<SqlScriptResult> {
+  const client = new Client({ connectionString });
+  await client.connect();
+  try {
+    // Scripts with several statements return one result per statement
+    const result = await client.query(query);
+    const results: QueryResult[] = Array.isArray(result) ? result : [result];
+    const withRows = results.filter((r) => r.fields.length > 0);
+    const last = withRows[withRows.length - 1];
+    return {
+      columns: last?.fields.map((field) => field.name) ?? [],
+      rows: last?.rows ?? [],
+    };
+  } finally {
+    await client.end();
+  }
+}
@@ -16,6 +16,9 @@ import { handleAliFullStackProReturn } from "./main/pro";
 import { IS_TEST_BUILD } from "./ipc/utils/test_utils";
 import { BackupManager } from "./backup_manager";
 import { getDatabasePath, initializeDatabase } from "./db";
+import { developmentOrchestrator } from "./ipc/utils/development_orchestrator";
+import { killAllPtySessions } from "./ipc/utils/pty_manager";
+import { stopAllLocalDbs } from "./local_db/local_db_manager";
 import { UserSettings } from "./lib/schemas";
 import { handleNeonOAuthReturn } from "./neon_admin/neon_return_handler";
 import { handleRooCodeAuthCallback } from "./ipc/handlers/roocode_auth_handlers";
@@ -63,6 +66,10 @@ export async function onReady() {
   await onFirstRunMaybe(settings);
   await createWindow();
 
+  developmentOrchestrator.resumeInterruptedDevelopments().catch((error) => {
+    logger.error("Error resuming interrupted development runs", error);
+  });
+
   logger.info("Auto-update enabled=", settings.enableAutoUpdate);
   if (settings.enableAutoUpdate) {
     // Technically we could just pass the releaseChannel directly to the host,
@@ -319,6 +326,13 @@ app.on("window-all-closed", () => {
   }
 });
 
+// Interactive terminal shells and local databases would otherwise outlive
+// the app
+app.on("will-quit", () => {
+  killAllPtySessions();
+  stopAllLocalDbs();
+});
+
 app.on("activate", async () => {
   // On OS X it's common to re-create a window in the app when the
   // dock icon is clicked and there are no other windows open.
@@ -110,6 +110,15 @@ export function readSettings(): UserSettings {
         encryptionType,
       };
     }
+    for (const credential of Object.values(
+      combinedSettings.gitRemoteCredentials ?? {},
+    )) {
+      const encryptionType = credential.secret.encryptionType;
+      credential.secret = {
+        value: decrypt(credential.secret),
+        encryptionType,
+      };
+    }
     for (const provider in combinedSettings.providerSettings) {
       if (combinedSettings.providerSettings[provider].apiKey) {
         const encryptionType =
@@ -181,6 +190,16 @@ export function writeSettings(settings: Partial<UserSettings>): void {
         );
       }
     }
+    if (newSettings.gitRemoteCredentials) {
+      newSettings.gitRemoteCredentials = Object.fromEntries(
+        Object.entries(newSettings.gitRemoteCredentials).map(
+          ([id, credential]) => [
+            id,
+            { ...credential, secret: encrypt(credential.secret.value) },
+          ],
+        ),
+      );
+    }
     for (const provider in newSettings.providerSettings) {
       if (newSettings.providerSettings[provider].apiKey) {
         newSettings.providerSettings[provider].apiKey = encrypt(
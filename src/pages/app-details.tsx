@@ -33,6 +33,8 @@ import {
 } from "@/components/ui/dialog";
 import { GitHubConnector } from "@/components/GitHubConnector";
 import { SupabaseConnector } from "@/components/SupabaseConnector";
+import { LocalDbConnector } from "@/components/LocalDbConnector";
+import { GitRemoteConnector } from "@/components/GitRemoteConnector";
 import { showError } from "@/lib/toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Label } from "@/components/ui/label";
@@ -41,6 +43,9 @@ import { invalidateAppQuery } from "@/hooks/useLoadApp";
 import { useDebounce } from "@/hooks/useDebounce";
 import { useCheckName } from "@/hooks/useCheckName";
 import { AppUpgrades } from "@/components/AppUpgrades";
+import { DevelopmentRuns } from "@/components/DevelopmentRuns";
+import { TerminalCommandHistory } from "@/components/TerminalCommandHistory";
+import { SaveAsTemplateDialog } from "@/components/SaveAsTemplateDialog";
 import { CapacitorControls } from "@/components/CapacitorControls";
 
 export default function AppDetailsPage() {
@@ -63,6 +68,8 @@ export default function AppDetailsPage() {
   const appBasePath = useAtomValue(appBasePathAtom);
 
   const [isCopyDialogOpen, setIsCopyDialogOpen] = useState(false);
+  const [isSaveTemplateDialogOpen, setIsSaveTemplateDialogOpen] =
+    useState(false);
   const [newCopyAppName, setNewCopyAppName] = useState("");
 
   const queryClient = useQueryClient();
@@ -282,6 +289,14 @@ export default function AppDetailsPage() {
                 >
                   Copy app
                 </Button>
+                <Button
+                  onClick={() => setIsSaveTemplateDialogOpen(true)}
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 justify-start text-xs"
+                >
+                  Save as template
+                </Button>
                 <Button
                   onClick={() => setIsDeleteDialogOpen(true)}
                   variant="ghost"
@@ -384,12 +399,23 @@ export default function AppDetailsPage() {
             Backend Development
             <Server className="h-4 w-4" />
           </Button>
-          <div className="border border-gray-200 rounded-md p-4">
-            <GitHubConnector appId={appId} folderName={selectedApp.path} />
-          </div>
+          {!selectedApp.gitRemoteUrl && (
+            <div className="border border-gray-200 rounded-md p-4">
+              <GitHubConnector appId={appId} folderName={selectedApp.path} />
+            </div>
+          )}
+          {appId && (
+            <GitRemoteConnector
+              appId={appId}
+              onConnectionChange={refreshApps}
+            />
+          )}
           {appId && <SupabaseConnector appId={appId} />}
+          {appId && <LocalDbConnector appId={appId} />}
           {appId && <CapacitorControls appId={appId} />}
           <AppUpgrades appId={appId} />
+          <DevelopmentRuns appId={appId} />
+          <TerminalCommandHistory appId={appId} />
         </div>
 
         {/* Rename Dialog */}
@@ -671,6 +697,15 @@ export default function AppDetailsPage() {
           </Dialog>
         )}
 
+        {appId && (
+          <SaveAsTemplateDialog
+            appId={appId}
+            appName={selectedApp.name}
+            isOpen={isSaveTemplateDialogOpen}
+            onClose={() => setIsSaveTemplateDialogOpen(false)}
+          />
+        )}
+
         {/* Delete Confirmation Dialog */}
         <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
           <DialogContent className="max-w-sm p-4">
@@ -1,23 +1,32 @@
 import React, { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, FolderPlus, Upload } from "lucide-react";
 import { useRouter } from "@tanstack/react-router";
 import { useSettings } from "@/hooks/useSettings";
 import { useTemplates } from "@/hooks/useTemplates";
 import { TemplateCard } from "@/components/TemplateCard";
 import { BackendFrameworkCard } from "@/components/BackendFrameworkCard";
+import { LocalTemplateCard } from "@/components/LocalTemplateCard";
 import { CreateAppDialog } from "@/components/CreateAppDialog";
 import { NeonConnector } from "@/components/NeonConnector";
-import {
-  backendFrameworksData,
-  type BackendFramework,
-} from "@/shared/backendFrameworks";
+import { useBackendFrameworks } from "@/hooks/useBackendFrameworks";
+import { useLocalTemplates } from "@/hooks/useLocalTemplates";
+import { showSuccess } from "@/lib/toast";
+import { DEFAULT_TEMPLATE_ID } from "@/shared/templates";
 
 const HubPage: React.FC = () => {
   const router = useRouter();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const { templates, isLoading } = useTemplates();
   const { settings, updateSettings } = useSettings();
+  const {
+    backendFrameworks,
+    addBackendFrameworkFromFolder,
+    isAdding,
+    removeBackendFramework,
+  } = useBackendFrameworks();
+  const { importTemplate, isImporting, exportTemplate, deleteTemplate } =
+    useLocalTemplates();
   const selectedTemplateId = settings?.selectedTemplateId;
 
   const handleTemplateSelect = (templateId: string) => {
@@ -28,14 +37,60 @@ const HubPage: React.FC = () => {
     updateSettings({ selectedBackendFramework: frameworkId });
   };
 
+  const handleAddBackendFramework = async () => {
+    const framework = await addBackendFrameworkFromFolder();
+    if (framework) {
+      handleBackendFrameworkSelect(framework.id);
+    }
+  };
+
+  const handleRemoveBackendFramework = async (frameworkId: string) => {
+    await removeBackendFramework(frameworkId);
+    if (settings?.selectedBackendFramework === frameworkId) {
+      updateSettings({ selectedBackendFramework: undefined });
+    }
+  };
+
+  const handleImportTemplate = async () => {
+    const template = await importTemplate();
+    if (template) {
+      showSuccess(`Imported ${template.title} v${template.version}`);
+      handleTemplateSelect(template.id);
+    }
+  };
+
+  const handleExportTemplate = async (templateId: string) => {
+    if (await exportTemplate(templateId)) {
+      showSuccess("Template exported");
+    }
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    await deleteTemplate(templateId);
+    if (selectedTemplateId?.split("@")[0] === templateId.split("@")[0]) {
+      updateSettings({ selectedTemplateId: DEFAULT_TEMPLATE_ID });
+    }
+  };
+
   const handleCreateApp = () => {
     setIsCreateDialogOpen(true);
   };
-  // Separate templates into official and community
+  // Separate templates into official, local and community
   const officialTemplates =
     templates?.filter((template) => template.isOfficial) || [];
+  const localTemplates =
+    templates?.filter((template) => template.isLocal) || [];
   const communityTemplates =
-    templates?.filter((template) => !template.isOfficial) || [];
+    templates?.filter(
+      (template) => !template.isOfficial && !template.isLocal,
+    ) || [];
+
+  // Local template ids may name a version, which the new app should use
+  const selectedTemplate = templates.find(
+    (t) =>
+      t.id === selectedTemplateId ||
+      (t.isLocal && selectedTemplateId?.startsWith(`${t.id}@`)),
+  );
 
   const selectedBackendFramework = settings?.selectedBackendFramework;
 
@@ -81,19 +136,71 @@ const HubPage: React.FC = () => {
           </section>
         )}
 
+        {/* Local Templates Section */}
+        <section className="mb-12">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+              Local templates
+            </h2>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleImportTemplate}
+              disabled={isImporting}
+              title="Import a template exported from AliFullStack"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+          </div>
+          {localTemplates.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {localTemplates.map((template) => (
+                <LocalTemplateCard
+                  key={template.id}
+                  template={template}
+                  selectedTemplateId={selectedTemplateId}
+                  onSelect={handleTemplateSelect}
+                  onCreateApp={handleCreateApp}
+                  onExport={handleExportTemplate}
+                  onDelete={handleDeleteTemplate}
+                />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Save an app as a template from its details page, or import a
+              template archive.
+            </p>
+          )}
+        </section>
+
         {/* Backend Frameworks Section */}
         <section className="mb-12">
-          <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
-            Backend frameworks
-          </h2>
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">
+              Backend frameworks
+            </h2>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAddBackendFramework}
+              disabled={isAdding}
+              title="Add a framework from a folder with a framework.json"
+            >
+              <FolderPlus className="h-4 w-4 mr-2" />
+              Add from folder
+            </Button>
+          </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {backendFrameworksData.map((framework) => (
+            {backendFrameworks.map((framework) => (
               <BackendFrameworkCard
                 key={framework.id}
                 framework={framework}
                 isSelected={framework.id === selectedBackendFramework}
                 onSelect={handleBackendFrameworkSelect}
                 onCreateApp={handleCreateApp}
+                onRemove={handleRemoveBackendFramework}
               />
             ))}
           </div>
@@ -125,7 +232,9 @@ const HubPage: React.FC = () => {
       <CreateAppDialog
         open={isCreateDialogOpen}
         onOpenChange={setIsCreateDialogOpen}
-        template={templates.find((t) => t.id === settings?.selectedTemplateId)}
+        template={
+          selectedTemplate && { ...selectedTemplate, id: selectedTemplateId! }
+        }
         selectedBackendFramework={settings?.selectedBackendFramework}
       />
     </div>
@@ -7,6 +7,7 @@ import { showSuccess, showError } from "@/lib/toast";
 import { AutoApproveSwitch } from "@/components/AutoApproveSwitch";
 import { TelemetrySwitch } from "@/components/TelemetrySwitch";
 import { MaxChatTurnsSelector } from "@/components/MaxChatTurnsSelector";
+import { AutonomousIterationBudgetSelector } from "@/components/AutonomousIterationBudgetSelector";
 import { ThinkingBudgetSelector } from "@/components/ThinkingBudgetSelector";
 import { useSettings } from "@/hooks/useSettings";
 import { useAppVersion } from "@/hooks/useAppVersion";
@@ -20,10 +21,13 @@ import { SupabaseIntegration } from "@/components/SupabaseIntegration";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { AutoFixProblemsSwitch } from "@/components/AutoFixProblemsSwitch";
+import { AutoFixLintSeverities } from "@/components/AutoFixLintSeverities";
 import { AutoUpdateSwitch } from "@/components/AutoUpdateSwitch";
 import { ReleaseChannelSelector } from "@/components/ReleaseChannelSelector";
 import { NeonIntegration } from "@/components/NeonIntegration";
 import { RuntimeModeSelector } from "@/components/RuntimeModeSelector";
+import { TerminalCommandPolicySettings } from "@/components/TerminalCommandPolicySettings";
+import { MonthlyBudgetSettings } from "@/components/MonthlyBudgetSettings";
 
 export default function SettingsPage() {
   const [isResetDialogOpen, setIsResetDialogOpen] = useState(false);
@@ -91,6 +95,7 @@ export default function SettingsPage() {
           <GeneralSettings appVersion={appVersion} />
           <WorkflowSettings />
           <AISettings />
+          <UsageSettings />
 
           <div
             id="provider-settings"
@@ -337,16 +342,26 @@ export function WorkflowSettings() {
       <div className="space-y-1">
         <AutoApproveSwitch showToast={false} />
         <div className="text-sm text-gray-500 dark:text-gray-400">
-          This will automatically approve code changes and run them.
+          This will automatically approve code changes and run them. Terminal
+          commands that aren't allowlisted still need your approval.
         </div>
       </div>
 
       <div className="space-y-1 mt-4">
         <AutoFixProblemsSwitch />
         <div className="text-sm text-gray-500 dark:text-gray-400">
-          This will automatically fix TypeScript errors.
+          This will automatically fix TypeScript and Python errors, plus the
+          lint problems you pick below (like React hooks and accessibility
+          rules).
+        </div>
+        <div className="pt-2">
+          <AutoFixLintSeverities />
         </div>
       </div>
+
+      <div className="mt-4">
+        <TerminalCommandPolicySettings />
+      </div>
     </div>
   );
 }
@@ -367,6 +382,25 @@ export function AISettings() {
       <div className="mt-4">
         <MaxChatTurnsSelector />
       </div>
+
+      <div className="mt-4">
+        <AutonomousIterationBudgetSelector />
+      </div>
+    </div>
+  );
+}
+
+export function UsageSettings() {
+  return (
+    <div
+      id="usage-settings"
+      className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-6"
+    >
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+        Usage
+      </h2>
+
+      <MonthlyBudgetSettings />
     </div>
   );
 }
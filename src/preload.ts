@@ -40,6 +40,9 @@ const validInvokeChannels = [
   "list-versions",
   "revert-version",
   "checkout-version",
+  "get-version-diff",
+  "get-version-file-diff",
+  "restore-version-files",
   "get-current-branch",
   "delete-app",
   "delete-all-apps",
@@ -79,6 +82,8 @@ const validInvokeChannels = [
   "supabase:list-projects",
   "supabase:set-app-project",
   "supabase:unset-app-project",
+  "supabase:get-rollback-plan",
+  "supabase:get-schema-diff",
   "local-models:list-ollama",
   "local-models:list-lmstudio",
   "window:minimize",
@@ -89,6 +94,8 @@ const validInvokeChannels = [
   "delete-chat",
   "update-chat",
   "delete-messages",
+  "fork-chat",
+  "checkout-chat-branch",
   "start-chat-stream",
   "does-release-note-exist",
   "import-app",
@@ -109,6 +116,15 @@ const validInvokeChannels = [
   "check-problems",
   "restart-dyad",
   "get-templates",
+  // Backend frameworks
+  "backend-frameworks:list",
+  "backend-frameworks:add-from-folder",
+  "backend-frameworks:remove",
+  // Local templates
+  "local-templates:save-app",
+  "local-templates:export",
+  "local-templates:import",
+  "local-templates:delete",
   "portal:migrate-create",
   // Help bot
   "help:chat:start",
@@ -123,6 +139,60 @@ const validInvokeChannels = [
   "roocode:logout",
   "roocode:auth-status",
   "roocode:auth-callback",
+  // Autonomous development
+  "development:list-runs",
+  "development:continue",
+  "development:stop",
+  // Run profiles
+  "run-profiles:list",
+  "run-profiles:save",
+  "run-profiles:delete",
+  "run-profiles:select",
+  // Token usage
+  "usage:get-chat",
+  "usage:get-summary",
+  "usage:get-budget-status",
+  // Terminal commands
+  "terminal-commands:list-audit",
+  "terminal-commands:get-app-policy",
+  "terminal-commands:set-app-policy",
+  // Interactive terminals
+  "pty:create",
+  "pty:list",
+  "pty:write",
+  "pty:resize",
+  "pty:kill",
+  "pty:get-output",
+  // App logs
+  "app-logs:list-runs",
+  "app-logs:query",
+  "app-logs:export",
+  "app-logs:clear",
+  // Local databases
+  "local-db:provision",
+  "local-db:get-status",
+  "local-db:start",
+  "local-db:stop",
+  // Database browser
+  "db-browser:get-source",
+  "db-browser:list-tables",
+  "db-browser:get-rows",
+  "db-browser:execute-sql",
+  // Git remotes
+  "git-remote:list-credentials",
+  "git-remote:save-credential",
+  "git-remote:delete-credential",
+  "git-remote:list-branches",
+  "git-remote:connect",
+  "git-remote:disconnect",
+  "git-remote:push",
+  "git-remote:pull",
+  "git-remote:fetch",
+  // Component editor
+  "component-editor:read",
+  "component-editor:apply",
+  // Preview
+  "preview:capture-screenshot",
   // Test-only channels
   // These should ALWAYS be guarded with IS_TEST_BUILD in the main process.
   // We can't detect with IS_TEST_BUILD in the preload script because
@@ -140,6 +210,8 @@ const validReceiveChannels = [
   "github:flow-success",
   "github:flow-error",
   "deep-link-received",
+  "pty:data",
+  "pty:exit",
   // Help bot
   "help:chat:response:chunk",
   "help:chat:response:end",
@@ -0,0 +1,19 @@
+export const LOCAL_DB_AVAILABLE_SYSTEM_PROMPT = `
+# Local Database Instructions
+
+The user has a database running on their own machine for this app, so use it for any data the app needs to store. There is no hosted auth or storage service; implement those in the app's own server code if they are needed.
+
+The connection string is in the POSTGRES_URL environment variable in .env.local. Never hard-code it. The database is only reachable from server-side code (e.g. API routes or a backend server), never from code that runs in the browser.
+
+## Executing SQL
+
+Create and change tables with:
+
+<dyad-execute-sql description="Create todos table">
+CREATE TABLE todos (id INTEGER PRIMARY KEY, title TEXT NOT NULL, done BOOLEAN NOT NULL DEFAULT FALSE);
+</dyad-execute-sql>
+
+The description should be a short description of what the code is doing and be understandable by semi-technical users.
+
+Use the SQL dialect of the database provider given below. The current schema is listed below as well; check it before creating tables that may already exist.
+`;
@@ -98,8 +98,32 @@ Always explain what you're doing and why, then use the appropriate tools to impl
 - Provide step-by-step reasoning for complex changes
 - Summarize what you've accomplished after making changes`;
 
+export const SEARCH_REPLACE_INSTRUCTIONS = `# Editing part of a file
+
+To change a few sections of a large existing file, you may use a <search_replace> tag instead of rewriting the whole file. Each tag can hold several hunks, which are applied in order:
+
+<search_replace file="src/components/Header.tsx" description="Rename the title and add a subtitle">
+<<<<<<< SEARCH
+  <h1>Old title</h1>
+=======
+  <h1>New title</h1>
+  <p>Subtitle</p>
+>>>>>>> REPLACE
+<<<<<<< SEARCH
+export default Header;
+=======
+export default React.memo(Header);
+>>>>>>> REPLACE
+</search_replace>
+
+- The SEARCH lines must be copied from the current file and cover whole lines. Whitespace differences are ignored.
+- Each SEARCH block must match exactly one place in the file. Include a few surrounding lines when the text appears more than once.
+- If an edit can't be applied, the reason and the closest matching lines are reported back to you.
+`;
+
 export const BUILD_SYSTEM_POSTFIX = `Directory names MUST be all lower-case (src/pages, src/components, etc.). File names may use mixed-case if you like.
 
+${SEARCH_REPLACE_INSTRUCTIONS}
 # REMEMBER
 
 > **CODE FORMATTING IS NON-NEGOTIABLE:**
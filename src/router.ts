@@ -4,6 +4,7 @@ import { homeRoute } from "./routes/home";
 import { chatRoute } from "./routes/chat";
 import { settingsRoute } from "./routes/settings";
 import { providerSettingsRoute } from "./routes/settings/providers/$provider";
+import { usageSettingsRoute } from "./routes/settings/usage";
 import { appDetailsRoute } from "./routes/app-details";
 import { hubRoute } from "./routes/hub";
 import { libraryRoute } from "./routes/library";
@@ -14,7 +15,7 @@ const routeTree = rootRoute.addChildren([
   libraryRoute,
   chatRoute,
   appDetailsRoute,
-  settingsRoute.addChildren([providerSettingsRoute]),
+  settingsRoute.addChildren([providerSettingsRoute, usageSettingsRoute]),
 ]);
 
 // src/components/NotFoundRedirect.tsx
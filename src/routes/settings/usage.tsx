@@ -0,0 +1,9 @@
+import { createRoute } from "@tanstack/react-router";
+import { rootRoute } from "@/routes/root";
+import { UsageSettingsPage } from "@/components/settings/UsageSettingsPage";
+
+export const usageSettingsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: "/settings/usage",
+  component: UsageSettingsPage,
+});
@@ -0,0 +1,9 @@
+// CSI sequences (colors, cursor movement), OSC sequences (window titles)
+// and the remaining two-character escapes
+const ANSI_PATTERN =
+  // eslint-disable-next-line no-control-regex
+  /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
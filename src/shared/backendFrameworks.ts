@@ -1,9 +1,39 @@
+/**
+ * The manifest of a backend framework. Built-in frameworks are listed below,
+ * user-defined ones are read from a framework.json in the user's frameworks
+ * folder.
+ *
+ * In commands and the health check URL, `{port}` is replaced with the port
+ * the server is started on. The server also gets it in the PORT environment
+ * variable.
+ */
 export interface BackendFramework {
   id: string;
   title: string;
   description: string;
-  imageUrl: string;
+  imageUrl?: string;
   language: string;
+  /**
+   * Folder copied into the app's backend/, relative to the app for built-in
+   * frameworks and to the framework's own folder for user-defined ones
+   */
+  scaffoldDir: string;
+  installCommand?: string;
+  startCommand: string;
+  /** Run once after installing, to create the database */
+  dbInitCommands?: string[];
+  /** The first port tried when starting the server */
+  defaultPort: number;
+  /** Polled after starting the server to tell when it's up */
+  healthCheckUrl?: string;
+  /** The framework's AI_RULES.md, relative to its scaffold dir */
+  aiRules?: string;
+  /** Files in backend/ that identify an app using this framework */
+  detectFiles?: string[];
+  /** Packages in backend/package.json that identify an app using it */
+  detectDependencies?: string[];
+  /** Set for frameworks loaded from the user's frameworks folder */
+  isCustom?: boolean;
 }
 
 export const backendFrameworksData: BackendFramework[] = [
@@ -14,6 +44,16 @@ export const backendFrameworksData: BackendFramework[] = [
       "High-level Python web framework that encourages rapid development and clean, pragmatic design.",
     imageUrl: "assets/backend-frameworks/django-screenshot.svg",
     language: "Python",
+    scaffoldDir: "scaffold-backend/django",
+    installCommand: "pip install -r requirements.txt",
+    startCommand: "python manage.py runserver 0.0.0.0:{port}",
+    dbInitCommands: [
+      "python manage.py makemigrations",
+      "python manage.py migrate",
+    ],
+    defaultPort: 8000,
+    aiRules: "AI_RULES.md",
+    detectFiles: ["manage.py"],
   },
   {
     id: "fastapi",
@@ -22,6 +62,12 @@ export const backendFrameworksData: BackendFramework[] = [
       "Modern, fast web framework for building APIs with Python 3.7+ based on standard Python type hints.",
     imageUrl: "assets/backend-frameworks/fastapi-screenshot.svg",
     language: "Python",
+    scaffoldDir: "scaffold-backend/fastapi",
+    installCommand: "pip install -r requirements.txt",
+    startCommand: "uvicorn main:app --reload --host 0.0.0.0 --port {port}",
+    defaultPort: 8000,
+    healthCheckUrl: "http://localhost:{port}/health",
+    aiRules: "AI_RULES.md",
   },
   {
     id: "flask",
@@ -30,6 +76,11 @@ export const backendFrameworksData: BackendFramework[] = [
       "Lightweight WSGI web application framework designed to make getting started quick and easy.",
     imageUrl: "assets/backend-frameworks/flask-screenshot.svg",
     language: "Python",
+    scaffoldDir: "scaffold-backend/flask",
+    installCommand: "pip install -r requirements.txt",
+    startCommand: "flask --app app run --debug --host 0.0.0.0 --port {port}",
+    defaultPort: 5000,
+    aiRules: "AI_RULES.md",
   },
   {
     id: "nodejs",
@@ -38,5 +89,67 @@ export const backendFrameworksData: BackendFramework[] = [
       "JavaScript runtime built on Chrome's V8 JavaScript engine with Express.js web application framework.",
     imageUrl: "assets/backend-frameworks/nodejs-screenshot.svg",
     language: "JavaScript",
+    scaffoldDir: "scaffold-backend/nodejs",
+    installCommand: "npm install",
+    startCommand: "npm start -- --port {port}",
+    defaultPort: 3000,
+    healthCheckUrl: "http://localhost:{port}/api/health",
+    aiRules: "AI_RULES.md",
+  },
+  {
+    id: "nestjs",
+    title: "NestJS",
+    description:
+      "Progressive Node.js framework for building efficient and scalable server-side applications with TypeScript.",
+    language: "TypeScript",
+    scaffoldDir: "scaffold-backend/nestjs",
+    installCommand: "npm install",
+    startCommand: "npm start",
+    defaultPort: 3000,
+    healthCheckUrl: "http://localhost:{port}/api/health",
+    aiRules: "AI_RULES.md",
+    detectFiles: ["nest-cli.json"],
+  },
+  {
+    id: "hono",
+    title: "Hono",
+    description:
+      "Small, fast web framework built on Web Standards, running on Node.js with TypeScript.",
+    language: "TypeScript",
+    scaffoldDir: "scaffold-backend/hono",
+    installCommand: "npm install",
+    startCommand: "npm run dev",
+    defaultPort: 3000,
+    healthCheckUrl: "http://localhost:{port}/api/health",
+    aiRules: "AI_RULES.md",
+    detectDependencies: ["hono"],
+  },
+  {
+    id: "go",
+    title: "Go (net/http)",
+    description:
+      "Plain Go HTTP server using only the standard library's net/http package.",
+    language: "Go",
+    scaffoldDir: "scaffold-backend/go",
+    installCommand: "go mod download",
+    startCommand: "go run .",
+    defaultPort: 8080,
+    healthCheckUrl: "http://localhost:{port}/api/health",
+    aiRules: "AI_RULES.md",
+    detectFiles: ["go.mod"],
+  },
+  {
+    id: "spring-lite",
+    title: "Spring Boot (lite)",
+    description:
+      "Minimal Spring Boot web application with a single module, built with Maven.",
+    language: "Java",
+    scaffoldDir: "scaffold-backend/spring-lite",
+    installCommand: "mvn -q -DskipTests dependency:resolve",
+    startCommand: "mvn -q spring-boot:run",
+    defaultPort: 8080,
+    healthCheckUrl: "http://localhost:{port}/api/health",
+    aiRules: "AI_RULES.md",
+    detectFiles: ["pom.xml"],
   },
 ];
@@ -0,0 +1,601 @@
+/**
+ * Incremental parser for the dyad tags emitted by the model.
+ *
+ * The parser consumes the response as it streams in and produces a typed node
+ * tree with source offsets. It is shared by the main process (response
+ * processor, tsc problem report, chat stream) and the renderer
+ * (DyadMarkdownParser) so both sides agree exactly on what the model emitted.
+ *
+ * This module must stay free of Node and Electron imports because it is
+ * bundled into the renderer.
+ */
+
+export type DyadNodeKind =
+  | "write"
+  | "write-to-file"
+  | "search-replace"
+  | "rename"
+  | "delete"
+  | "add-dependency"
+  | "sql"
+  | "command"
+  | "terminal-command"
+  | "problem-report"
+  | "chat-summary"
+  | "other";
+
+/**
+ * Tag names recognized by the parser, mapped to the node kind they produce.
+ * Anything else that looks like a tag is treated as plain markdown text.
+ */
+export const DYAD_TAG_KINDS: Record<string, DyadNodeKind> = {
+  "dyad-write": "write",
+  write_to_file: "write-to-file",
+  search_replace: "search-replace",
+  "dyad-rename": "rename",
+  "dyad-delete": "delete",
+  "dyad-add-dependency": "add-dependency",
+  "dyad-execute-sql": "sql",
+  "dyad-command": "command",
+  "dyad-run-backend-terminal-cmd": "terminal-command",
+  "dyad-run-frontend-terminal-cmd": "terminal-command",
+  run_terminal_cmd: "terminal-command",
+  "dyad-problem-report": "problem-report",
+  "dyad-chat-summary": "chat-summary",
+  "dyad-add-integration": "other",
+  "dyad-output": "other",
+  "dyad-apply-report": "other",
+  "dyad-edit": "other",
+  "dyad-codebase-context": "other",
+  think: "other",
+};
+
+export interface DyadTextNode {
+  kind: "text";
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface DyadTagNode {
+  kind: DyadNodeKind;
+  tag: string;
+  attributes: Record<string, string>;
+  /** Raw content between the opening and closing tag. */
+  content: string;
+  /** Offset of the `<` of the opening tag. */
+  start: number;
+  /** Offset just past the closing tag (or the end of input if unclosed). */
+  end: number;
+  contentStart: number;
+  contentEnd: number;
+  /** False while the closing tag has not been seen yet. */
+  closed: boolean;
+}
+
+export type DyadNode = DyadTextNode | DyadTagNode;
+
+export type DyadDiagnosticCode =
+  | "unterminated-tag"
+  | "malformed-tag"
+  | "unexpected-closing-tag"
+  | "missing-attribute";
+
+export interface DyadDiagnostic {
+  code: DyadDiagnosticCode;
+  message: string;
+  tag: string;
+  start: number;
+  end: number;
+}
+
+export interface DyadDocument {
+  /** The full source text the nodes were parsed from. */
+  source: string;
+  nodes: DyadNode[];
+  diagnostics: DyadDiagnostic[];
+}
+
+/** Attributes each tag needs to be actionable. */
+const REQUIRED_ATTRIBUTES: Record<string, string[]> = {
+  write_to_file: ["path"],
+  search_replace: ["file"],
+  "dyad-rename": ["from", "to"],
+  "dyad-delete": ["path"],
+  "dyad-add-dependency": ["packages"],
+  "dyad-command": ["type"],
+};
+
+const TAG_NAME_CHAR = /[A-Za-z0-9_-]/;
+
+interface OpenTag {
+  tag: string;
+  attributes: Record<string, string>;
+  start: number;
+  contentStart: number;
+}
+
+type OpeningTagScan =
+  | { status: "incomplete" }
+  | { status: "malformed"; reason: string }
+  | {
+      status: "complete";
+      attributes: Record<string, string>;
+      end: number;
+      selfClosing: boolean;
+    };
+
+export class DyadTagParser {
+  private buffer = "";
+  private pos = 0;
+  private textStart = 0;
+  private open: OpenTag | null = null;
+  private nodes: DyadNode[] = [];
+  private diagnostics: DyadDiagnostic[] = [];
+  private ended = false;
+
+  /**
+   * Append a chunk of streamed text and parse as far as possible.
+   */
+  push(chunk: string): void {
+    if (this.ended) {
+      throw new Error("Cannot push to a DyadTagParser after end()");
+    }
+    if (!chunk) {
+      return;
+    }
+    this.buffer += chunk;
+    this.scan();
+  }
+
+  /**
+   * Bring the parser in line with the full response text.
+   *
+   * Callers in the chat stream rewrite the accumulated response (e.g.
+   * cleanFullResponse, $$SUPABASE_CLIENT_CODE$$ substitution), so when the
+   * new text is not an extension of what was parsed so far the parser
+   * restarts from scratch.
+   */
+  sync(fullText: string): void {
+    if (!this.ended && fullText.startsWith(this.buffer)) {
+      this.push(fullText.slice(this.buffer.length));
+      return;
+    }
+    this.reset();
+    this.push(fullText);
+  }
+
+  reset(): void {
+    this.buffer = "";
+    this.pos = 0;
+    this.textStart = 0;
+    this.open = null;
+    this.nodes = [];
+    this.diagnostics = [];
+    this.ended = false;
+  }
+
+  /**
+   * Signal the end of the stream. Unterminated tags are reported as
+   * diagnostics and kept in the tree with `closed: false`.
+   */
+  end(): DyadDocument {
+    if (!this.ended) {
+      this.ended = true;
+      if (this.open) {
+        const node = this.openTagNode(this.open);
+        this.diagnostics.push({
+          code: "unterminated-tag",
+          message: `<${this.open.tag}> is missing its closing tag`,
+          tag: this.open.tag,
+          start: this.open.start,
+          end: this.buffer.length,
+        });
+        this.nodes.push(node);
+        this.open = null;
+        this.textStart = this.buffer.length;
+        this.pos = this.buffer.length;
+      } else if (this.pos < this.buffer.length) {
+        // The stream stopped in the middle of an opening tag.
+        const tag = readTagName(this.buffer, this.pos + 1);
+        this.diagnostics.push({
+          code: "unterminated-tag",
+          message: `Opening tag <${tag} was cut off`,
+          tag,
+          start: this.pos,
+          end: this.buffer.length,
+        });
+        this.pos = this.buffer.length;
+      }
+      this.flushText(this.buffer.length);
+    }
+    return this.snapshot();
+  }
+
+  /**
+   * The document parsed so far. While streaming, an open tag is included as
+   * an unclosed node and any trailing text as a text node.
+   */
+  snapshot(): DyadDocument {
+    const nodes = [...this.nodes];
+    if (this.open) {
+      if (this.open.start > this.textStart) {
+        nodes.push(textNode(this.buffer, this.textStart, this.open.start));
+      }
+      nodes.push(this.openTagNode(this.open));
+    } else if (this.buffer.length > this.textStart) {
+      nodes.push(textNode(this.buffer, this.textStart, this.buffer.length));
+    }
+    return {
+      source: this.buffer,
+      nodes,
+      diagnostics: [...this.diagnostics],
+    };
+  }
+
+  private scan(): void {
+    const buffer = this.buffer;
+    while (this.pos < buffer.length) {
+      if (this.open) {
+        if (!this.scanForClose(this.open)) {
+          return;
+        }
+        continue;
+      }
+
+      const lt = buffer.indexOf("<", this.pos);
+      if (lt === -1) {
+        this.pos = buffer.length;
+        return;
+      }
+
+      const isClosing = buffer[lt + 1] === "/";
+      const nameStart = lt + (isClosing ? 2 : 1);
+      const tag = readTagName(buffer, nameStart);
+      const nameEnd = nameStart + tag.length;
+      if (nameEnd >= buffer.length) {
+        // We can't tell yet whether this is one of our tags.
+        if (couldBeTagPrefix(tag)) {
+          this.pos = lt;
+          return;
+        }
+        this.pos = buffer.length;
+        return;
+      }
+      if (!(tag in DYAD_TAG_KINDS) || !isTagNameTerminator(buffer[nameEnd])) {
+        this.pos = lt + 1;
+        continue;
+      }
+
+      if (isClosing) {
+        const close = scanClosingTag(buffer, nameEnd);
+        if (close === null) {
+          this.pos = lt;
+          return;
+        }
+        this.diagnostics.push({
+          code: "unexpected-closing-tag",
+          message: `</${tag}> has no matching opening tag`,
+          tag,
+          start: lt,
+          end: close,
+        });
+        this.pos = close;
+        continue;
+      }
+
+      const opening = scanOpeningTag(buffer, nameEnd);
+      if (opening.status === "incomplete") {
+        this.pos = lt;
+        return;
+      }
+      if (opening.status === "malformed") {
+        this.diagnostics.push({
+          code: "malformed-tag",
+          message: `Malformed <${tag}> tag: ${opening.reason}`,
+          tag,
+          start: lt,
+          end: nameEnd,
+        });
+        this.pos = lt + 1;
+        continue;
+      }
+
+      this.flushText(lt);
+      this.checkRequiredAttributes(tag, opening.attributes, lt, opening.end);
+      if (opening.selfClosing) {
+        this.nodes.push({
+          kind: DYAD_TAG_KINDS[tag],
+          tag,
+          attributes: opening.attributes,
+          content: "",
+          start: lt,
+          end: opening.end,
+          contentStart: opening.end,
+          contentEnd: opening.end,
+          closed: true,
+        });
+        this.textStart = opening.end;
+      } else {
+        this.open = {
+          tag,
+          attributes: opening.attributes,
+          start: lt,
+          contentStart: opening.end,
+        };
+      }
+      this.pos = opening.end;
+    }
+  }
+
+  /**
+   * Look for the closing tag of the currently open tag. Content is raw: the
+   * first matching closing tag ends it, regardless of what is inside.
+   * Returns false when more input is needed.
+   */
+  private scanForClose(open: OpenTag): boolean {
+    const buffer = this.buffer;
+    const needle = `</${open.tag}`;
+    let from = this.pos;
+    while (true) {
+      const idx = buffer.indexOf(needle, from);
+      if (idx === -1) {
+        // Keep enough of the tail around to find a closing tag split
+        // across chunks.
+        this.pos = Math.max(this.pos, buffer.length - needle.length);
+        return false;
+      }
+      const close = scanClosingTag(buffer, idx + needle.length);
+      if (close === null) {
+        this.pos = idx;
+        return false;
+      }
+      if (close === -1) {
+        from = idx + 1;
+        continue;
+      }
+      this.nodes.push({
+        kind: DYAD_TAG_KINDS[open.tag],
+        tag: open.tag,
+        attributes: open.attributes,
+        content: buffer.slice(open.contentStart, idx),
+        start: open.start,
+        end: close,
+        contentStart: open.contentStart,
+        contentEnd: idx,
+        closed: true,
+      });
+      this.open = null;
+      this.pos = close;
+      this.textStart = close;
+      return true;
+    }
+  }
+
+  private openTagNode(open: OpenTag): DyadTagNode {
+    return {
+      kind: DYAD_TAG_KINDS[open.tag],
+      tag: open.tag,
+      attributes: open.attributes,
+      content: this.buffer.slice(open.contentStart),
+      start: open.start,
+      end: this.buffer.length,
+      contentStart: open.contentStart,
+      contentEnd: this.buffer.length,
+      closed: false,
+    };
+  }
+
+  private flushText(upTo: number): void {
+    if (upTo > this.textStart) {
+      this.nodes.push(textNode(this.buffer, this.textStart, upTo));
+    }
+    this.textStart = upTo;
+  }
+
+  private checkRequiredAttributes(
+    tag: string,
+    attributes: Record<string, string>,
+    start: number,
+    end: number,
+  ): void {
+    for (const name of REQUIRED_ATTRIBUTES[tag] ?? []) {
+      if (!attributes[name]) {
+        this.diagnostics.push({
+          code: "missing-attribute",
+          message: `<${tag}> is missing the "${name}" attribute`,
+          tag,
+          start,
+          end,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Parse a complete response in one go.
+ */
+export function parseDyadResponse(text: string): DyadDocument {
+  const parser = new DyadTagParser();
+  parser.push(text);
+  return parser.end();
+}
+
+export function getDyadTagNodes(
+  document: DyadDocument,
+  kind?: DyadNodeKind,
+): DyadTagNode[] {
+  return document.nodes.filter(
+    (node): node is DyadTagNode =>
+      node.kind !== "text" && (kind === undefined || node.kind === kind),
+  );
+}
+
+/**
+ * Rebuild the source text without the closed tags of the given kind.
+ */
+export function removeDyadTagNodes(
+  document: DyadDocument,
+  kind: DyadNodeKind,
+): string {
+  let result = "";
+  let last = 0;
+  for (const node of getDyadTagNodes(document, kind)) {
+    if (!node.closed) {
+      continue;
+    }
+    result += document.source.slice(last, node.start);
+    last = node.end;
+  }
+  return result + document.source.slice(last);
+}
+
+function textNode(buffer: string, start: number, end: number): DyadTextNode {
+  return { kind: "text", text: buffer.slice(start, end), start, end };
+}
+
+function readTagName(buffer: string, from: number): string {
+  let end = from;
+  while (end < buffer.length && TAG_NAME_CHAR.test(buffer[end])) {
+    end++;
+  }
+  return buffer.slice(from, end);
+}
+
+function isTagNameTerminator(char: string): boolean {
+  return char === ">" || char === "/" || /\s/.test(char);
+}
+
+function couldBeTagPrefix(name: string): boolean {
+  return Object.keys(DYAD_TAG_KINDS).some((tag) => tag.startsWith(name));
+}
+
+/**
+ * Scan `</name` + optional whitespace + `>` starting right after the name.
+ * Returns the offset past `>`, null if more input is needed, or -1 if the
+ * text is not a closing tag after all.
+ */
+function scanClosingTag(buffer: string, from: number): number | null {
+  let i = from;
+  while (i < buffer.length && /\s/.test(buffer[i])) {
+    i++;
+  }
+  if (i >= buffer.length) {
+    return null;
+  }
+  return buffer[i] === ">" ? i + 1 : -1;
+}
+
+/**
+ * Scan the attribute list of an opening tag. Attribute values may be single
+ * or double quoted, contain `>` and backslash-escaped quotes, and appear in
+ * any order.
+ */
+function scanOpeningTag(buffer: string, from: number): OpeningTagScan {
+  const attributes: Record<string, string> = {};
+  let i = from;
+  while (true) {
+    while (i < buffer.length && /\s/.test(buffer[i])) {
+      i++;
+    }
+    if (i >= buffer.length) {
+      return { status: "incomplete" };
+    }
+    const char = buffer[i];
+    if (char === ">") {
+      return { status: "complete", attributes, end: i + 1, selfClosing: false };
+    }
+    if (char === "/") {
+      if (i + 1 >= buffer.length) {
+        return { status: "incomplete" };
+      }
+      if (buffer[i + 1] === ">") {
+        return {
+          status: "complete",
+          attributes,
+          end: i + 2,
+          selfClosing: true,
+        };
+      }
+      return { status: "malformed", reason: "unexpected '/'" };
+    }
+    if (char === "<") {
+      return { status: "malformed", reason: "unexpected '<'" };
+    }
+
+    const nameStart = i;
+    while (i < buffer.length && /[^\s=>/<"']/.test(buffer[i])) {
+      i++;
+    }
+    if (i >= buffer.length) {
+      return { status: "incomplete" };
+    }
+    const name = buffer.slice(nameStart, i);
+    if (!name) {
+      return {
+        status: "malformed",
+        reason: `unexpected character '${buffer[i]}'`,
+      };
+    }
+    while (i < buffer.length && /\s/.test(buffer[i])) {
+      i++;
+    }
+    if (i >= buffer.length) {
+      return { status: "incomplete" };
+    }
+    if (buffer[i] !== "=") {
+      // Boolean attribute.
+      attributes[name] = "";
+      continue;
+    }
+    i++;
+    while (i < buffer.length && /\s/.test(buffer[i])) {
+      i++;
+    }
+    if (i >= buffer.length) {
+      return { status: "incomplete" };
+    }
+    const quote = buffer[i];
+    if (quote !== '"' && quote !== "'") {
+      const valueStart = i;
+      while (i < buffer.length && /[^\s>]/.test(buffer[i])) {
+        i++;
+      }
+      if (i >= buffer.length) {
+        return { status: "incomplete" };
+      }
+      attributes[name] = decodeAttributeValue(buffer.slice(valueStart, i));
+      continue;
+    }
+    i++;
+    let value = "";
+    while (true) {
+      if (i >= buffer.length) {
+        return { status: "incomplete" };
+      }
+      const c = buffer[i];
+      if (c === "\\" && (buffer[i + 1] === quote || buffer[i + 1] === "\\")) {
+        value += buffer[i + 1];
+        i += 2;
+        continue;
+      }
+      if (c === quote) {
+        i++;
+        break;
+      }
+      value += c;
+      i++;
+    }
+    attributes[name] = decodeAttributeValue(value);
+  }
+}
+
+function decodeAttributeValue(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
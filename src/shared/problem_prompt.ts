@@ -1,4 +1,58 @@
-import type { ProblemReport } from "../ipc/ipc_types";
+import type { Problem, ProblemReport, ProblemSeverity } from "../ipc/ipc_types";
+
+// Lint severities auto-fix sends to the model unless the user picks others
+export const DEFAULT_AUTO_FIX_LINT_SEVERITIES: ProblemSeverity[] = ["error"];
+
+/**
+ * Label for the problem's code, e.g. "TS2339" or "react-hooks/rules-of-hooks"
+ */
+export function formatProblemCode(
+  problem: Pick<Problem, "code" | "source" | "ruleId">,
+) {
+  switch (problem.source) {
+    case "python":
+      return "Python";
+    case "eslint":
+      return problem.ruleId ?? "ESLint";
+    default:
+      return `TS${problem.code}`;
+  }
+}
+
+/**
+ * The problems worth fixing: every type and Python error, plus the lint
+ * problems of the given severities
+ */
+export function selectProblemsToFix(
+  problemReport: ProblemReport,
+  lintSeverities: ProblemSeverity[] = DEFAULT_AUTO_FIX_LINT_SEVERITIES,
+): ProblemReport {
+  return {
+    problems: problemReport.problems.filter(
+      (problem) =>
+        problem.source !== "eslint" ||
+        lintSeverities.includes(problem.severity ?? "error"),
+    ),
+  };
+}
+
+function describeProblems(problems: Problem[]): string {
+  const count = problems.length;
+  const plural = count === 1 ? "" : "s";
+  const sources = new Set(problems.map((p) => p.source ?? "typescript"));
+  if (sources.size > 1) {
+    return sources.has("eslint")
+      ? `${count} problem${plural}`
+      : `${count} error${plural}`;
+  }
+  if (sources.has("eslint")) {
+    return `${count} lint problem${plural}`;
+  }
+  if (sources.has("python")) {
+    return `${count} Python error${plural}`;
+  }
+  return `${count} TypeScript compile-time error${plural}`;
+}
 
 /**
  * Creates a more concise version of the problem fix prompt for cases where
@@ -11,11 +65,11 @@ export function createProblemFixPrompt(problemReport: ProblemReport): string {
     return "No TypeScript problems detected.";
   }
 
-  const totalProblems = problems.length;
-  let prompt = `Fix these ${totalProblems} TypeScript compile-time error${totalProblems === 1 ? "" : "s"}:\n\n`;
+  let prompt = `Fix these ${describeProblems(problems)}:\n\n`;
 
   problems.forEach((problem, index) => {
-    prompt += `${index + 1}. ${problem.file}:${problem.line}:${problem.column} - ${problem.message} (TS${problem.code})\n`;
+    const warning = problem.severity === "warning" ? ", warning" : "";
+    prompt += `${index + 1}. ${problem.file}:${problem.line}:${problem.column} - ${problem.message} (${formatProblemCode(problem)}${warning})\n`;
     if (problem.snippet) {
       prompt += `\`\`\`\n${problem.snippet}\n\`\`\`\n`;
     }
@@ -0,0 +1,315 @@
+/**
+ * Multi-hunk search/replace edits.
+ *
+ * A `<search_replace>` tag holds one or more hunks:
+ *
+ *   <<<<<<< SEARCH
+ *   lines to find
+ *   =======
+ *   lines to put in their place
+ *   >>>>>>> REPLACE
+ *
+ * Hunks match whole lines and ignore differences in whitespace, so an edit
+ * still applies when the model gets the indentation slightly wrong. A hunk
+ * must match exactly one region of the file; when it matches none or several,
+ * the failure carries the closest candidate regions so the model can retry.
+ *
+ * This module must stay free of Node and Electron imports because it is
+ * bundled into the renderer.
+ */
+
+export interface SearchReplaceHunk {
+  search: string;
+  replace: string;
+}
+
+export interface CandidateRegion {
+  // 1-based and inclusive
+  startLine: number;
+  endLine: number;
+  text: string;
+  // 0 to 1, where 1 means the lines match ignoring whitespace
+  similarity: number;
+}
+
+export interface HunkFailure {
+  hunkIndex: number;
+  reason: "empty" | "not-found" | "ambiguous";
+  candidates: CandidateRegion[];
+}
+
+export interface SearchReplaceResult {
+  // The content with every hunk that matched applied
+  content: string;
+  failures: HunkFailure[];
+}
+
+export type DiffLine = {
+  type: "context" | "removed" | "added";
+  text: string;
+};
+
+const SEARCH_MARKER = /^<{5,}\s*SEARCH\s*$/;
+const DIVIDER_MARKER = /^={5,}\s*$/;
+const REPLACE_MARKER = /^>{5,}\s*REPLACE\s*$/;
+const MAX_AMBIGUOUS_CANDIDATES = 3;
+
+/**
+ * Parse the hunks of a search/replace tag. Supports conflict-marker blocks
+ * and `<search>…</search><replace>…</replace>` pairs.
+ */
+export function parseSearchReplaceHunks(content: string): SearchReplaceHunk[] {
+  const hunks: SearchReplaceHunk[] = [];
+  let section: "none" | "search" | "replace" = "none";
+  let searchLines: string[] = [];
+  let replaceLines: string[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (SEARCH_MARKER.test(line)) {
+      section = "search";
+      searchLines = [];
+      replaceLines = [];
+    } else if (section === "search" && DIVIDER_MARKER.test(line)) {
+      section = "replace";
+    } else if (section === "replace" && REPLACE_MARKER.test(line)) {
+      hunks.push({
+        search: searchLines.join("\n"),
+        replace: replaceLines.join("\n"),
+      });
+      section = "none";
+    } else if (section === "search") {
+      searchLines.push(line);
+    } else if (section === "replace") {
+      replaceLines.push(line);
+    }
+  }
+  if (hunks.length > 0) {
+    return hunks;
+  }
+
+  const pairRegex =
+    /<search>\n?([\s\S]*?)\n?<\/search>\s*<replace>\n?([\s\S]*?)\n?<\/replace>/g;
+  for (const match of content.matchAll(pairRegex)) {
+    hunks.push({ search: match[1], replace: match[2] });
+  }
+  return hunks;
+}
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, " ");
+}
+
+function leadingWhitespace(line: string): string {
+  return line.match(/^\s*/)![0];
+}
+
+// Blank lines around the search text are usually formatting, not intent
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === "") start++;
+  while (end > start && lines[end - 1].trim() === "") end--;
+  return lines.slice(start, end);
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Dice coefficient over character bigrams
+function lineSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const aBigrams = bigrams(a);
+  const bBigrams = bigrams(b);
+  let overlap = 0;
+  for (const [bigram, count] of aBigrams) {
+    overlap += Math.min(count, bBigrams.get(bigram) ?? 0);
+  }
+  return (2 * overlap) / (a.length - 1 + (b.length - 1));
+}
+
+function findClosestRegion(
+  fileLines: string[],
+  normalizedFile: string[],
+  normalizedSearch: string[],
+): CandidateRegion | undefined {
+  const windowSize = Math.min(normalizedSearch.length, normalizedFile.length);
+  let best: { start: number; similarity: number } | undefined;
+  for (let start = 0; start + windowSize <= normalizedFile.length; start++) {
+    let total = 0;
+    for (let i = 0; i < windowSize; i++) {
+      total += lineSimilarity(normalizedFile[start + i], normalizedSearch[i]);
+    }
+    const similarity = total / normalizedSearch.length;
+    if (!best || similarity > best.similarity) {
+      best = { start, similarity };
+    }
+  }
+  if (!best || best.similarity === 0) {
+    return undefined;
+  }
+  return {
+    startLine: best.start + 1,
+    endLine: best.start + windowSize,
+    text: fileLines.slice(best.start, best.start + windowSize).join("\n"),
+    similarity: best.similarity,
+  };
+}
+
+/**
+ * Apply the hunks in order, each against the result of the previous ones.
+ * Hunks that fail are skipped and reported; callers that need all-or-nothing
+ * behavior should discard the content when there are failures.
+ */
+export function applySearchReplaceHunks(
+  content: string,
+  hunks: SearchReplaceHunk[],
+): SearchReplaceResult {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  let fileLines = content.split(/\r?\n/);
+  const failures: HunkFailure[] = [];
+
+  hunks.forEach((hunk, hunkIndex) => {
+    const searchLines = trimBlankLines(hunk.search.split(/\r?\n/));
+    if (searchLines.length === 0) {
+      failures.push({ hunkIndex, reason: "empty", candidates: [] });
+      return;
+    }
+    const normalizedSearch = searchLines.map(normalizeLine);
+    const normalizedFile = fileLines.map(normalizeLine);
+
+    const matches: number[] = [];
+    for (
+      let start = 0;
+      start + normalizedSearch.length <= normalizedFile.length;
+      start++
+    ) {
+      if (
+        normalizedSearch.every((line, i) => line === normalizedFile[start + i])
+      ) {
+        matches.push(start);
+      }
+    }
+
+    if (matches.length !== 1) {
+      const candidates =
+        matches.length === 0
+          ? [findClosestRegion(fileLines, normalizedFile, normalizedSearch)]
+          : matches.slice(0, MAX_AMBIGUOUS_CANDIDATES).map(
+              (start): CandidateRegion => ({
+                startLine: start + 1,
+                endLine: start + searchLines.length,
+                text: fileLines
+                  .slice(start, start + searchLines.length)
+                  .join("\n"),
+                similarity: 1,
+              }),
+            );
+      failures.push({
+        hunkIndex,
+        reason: matches.length === 0 ? "not-found" : "ambiguous",
+        candidates: candidates.filter(
+          (candidate): candidate is CandidateRegion => !!candidate,
+        ),
+      });
+      return;
+    }
+
+    // Shift the replacement to the file's indentation when the search text
+    // was indented differently
+    const start = matches[0];
+    const fileIndent = leadingWhitespace(fileLines[start]);
+    const searchIndent = leadingWhitespace(searchLines[0]);
+    const replaceLines =
+      hunk.replace === ""
+        ? []
+        : hunk.replace
+            .split(/\r?\n/)
+            .map((line) =>
+              fileIndent !== searchIndent && line.startsWith(searchIndent)
+                ? fileIndent + line.slice(searchIndent.length)
+                : line,
+            );
+    fileLines = [
+      ...fileLines.slice(0, start),
+      ...replaceLines,
+      ...fileLines.slice(start + searchLines.length),
+    ];
+  });
+
+  return { content: fileLines.join(eol), failures };
+}
+
+/**
+ * Describe failed hunks for the apply report, which the model also sees
+ * when it is asked to fix the edit.
+ */
+export function formatHunkFailures(
+  filePath: string,
+  hunkCount: number,
+  failures: HunkFailure[],
+): string {
+  return failures
+    .map(({ hunkIndex, reason, candidates }) => {
+      const prefix = `Hunk ${hunkIndex + 1} of ${hunkCount} in ${filePath}`;
+      if (reason === "empty") {
+        return `${prefix}: the search text is empty`;
+      }
+      if (reason === "ambiguous") {
+        const lines = candidates
+          .map((c) => `lines ${c.startLine}-${c.endLine}`)
+          .join(", ");
+        return `${prefix}: the search text matches more than once (${lines}). Include more surrounding lines to make it unique.`;
+      }
+      const closest = candidates[0];
+      if (!closest) {
+        return `${prefix}: the search text was not found`;
+      }
+      return `${prefix}: the search text was not found. Closest match is lines ${closest.startLine}-${closest.endLine} (${Math.round(closest.similarity * 100)}% similar):\n${closest.text}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Line diff between the search and replace text of a hunk, using the
+ * longest common subsequence of lines.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before === "" ? [] : before.split(/\r?\n/);
+  const b = after === "" ? [] : after.split(/\r?\n/);
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    Array.from({ length: b.length + 1 }, () => 0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        normalizeLine(a[i]) === normalizeLine(b[j])
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (normalizeLine(a[i]) === normalizeLine(b[j])) {
+      diff.push({ type: "context", text: b[j] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      diff.push({ type: "removed", text: a[i++] });
+    } else {
+      diff.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) diff.push({ type: "removed", text: a[i++] });
+  while (j < b.length) diff.push({ type: "added", text: b[j++] });
+  return diff;
+}
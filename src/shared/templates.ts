@@ -8,6 +8,12 @@ export interface Template {
   isExperimental?: boolean;
   requiresNeon?: boolean;
   isFrontend?: boolean;
+  // Set for templates saved from an app into the local catalog
+  isLocal?: boolean;
+  version?: string;
+  // All saved versions of a local template, newest first
+  versions?: string[];
+  backendFramework?: string | null;
 }
 
 // API Template interface from the external API
@@ -0,0 +1,416 @@
+import type { SupabaseSchemaChange } from "../ipc/ipc_types";
+
+export const MIGRATIONS_DIR = "supabase/migrations";
+// Down scripts use the same file name as the migration they undo
+export const DOWN_MIGRATIONS_DIR = "supabase/down_migrations";
+
+/**
+ * Split a SQL script into statements, without comments. Semicolons in
+ * strings, quoted identifiers and dollar-quoted function bodies don't end
+ * a statement.
+ */
+export function splitSqlStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const rest = sql.slice(i);
+
+    if (rest.startsWith("--")) {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end;
+      current += " ";
+      continue;
+    }
+    if (rest.startsWith("/*")) {
+      const end = sql.indexOf("*/", i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      current += " ";
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      let end = i + 1;
+      while (end < sql.length) {
+        if (sql[end] === char) {
+          // A doubled quote is an escaped quote
+          if (sql[end + 1] === char) {
+            end += 2;
+            continue;
+          }
+          break;
+        }
+        end++;
+      }
+      current += sql.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+    const dollarTag = rest.match(/^\$(?:[A-Za-z_]\w*)?\$/);
+    if (dollarTag) {
+      const tag = dollarTag[0];
+      const end = sql.indexOf(tag, i + tag.length);
+      const stop = end === -1 ? sql.length : end + tag.length;
+      current += sql.slice(i, stop);
+      i = stop;
+      continue;
+    }
+    if (char === ";") {
+      if (current.trim()) {
+        statements.push(current.trim());
+      }
+      current = "";
+      i++;
+      continue;
+    }
+    current += char;
+    i++;
+  }
+
+  if (current.trim()) {
+    statements.push(current.trim());
+  }
+  return statements;
+}
+
+// A possibly schema-qualified, possibly quoted name
+const NAME = String.raw`((?:"[^"]+"|[\w$]+)(?:\.(?:"[^"]+"|[\w$]+))?)`;
+
+// Split on commas that aren't inside parentheses or quotes
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = "";
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+  return parts;
+}
+
+function invertAlterTableAction(action: string): string | null {
+  const constraint = action.match(
+    new RegExp(`^add\\s+constraint\\s+${NAME}`, "i"),
+  );
+  if (constraint) {
+    return `DROP CONSTRAINT IF EXISTS ${constraint[1]}`;
+  }
+  if (/^add\s+(?:primary|unique|foreign|check|exclude)\b/i.test(action)) {
+    // Unnamed constraints can't be dropped without looking up their name
+    return null;
+  }
+  // With IF NOT EXISTS the column may have existed before, and dropping it
+  // would lose its data
+  if (/^add\s+(?:column\s+)?if\s+not\s+exists\b/i.test(action)) {
+    return null;
+  }
+  const column = action.match(
+    new RegExp(`^add\\s+(?:column\\s+)?${NAME}`, "i"),
+  );
+  if (column) {
+    return `DROP COLUMN IF EXISTS ${column[1]}`;
+  }
+  // Row level security may already have been on, so it isn't turned off.
+  // On a table the migration creates, dropping the table undoes it.
+  return null;
+}
+
+function invertStatement(statement: string): string | null {
+  const sql = statement.replace(/\s+/g, " ");
+  let match: RegExpMatchArray | null;
+
+  // With IF NOT EXISTS the object may have existed before, and dropping it
+  // would lose it and its data, like OR REPLACE below
+  if (/^create (?:unique )?\w+ (?:concurrently )?if not exists /i.test(sql)) {
+    return null;
+  }
+  if ((match = sql.match(new RegExp(`^create table ${NAME}`, "i")))) {
+    return `DROP TABLE IF EXISTS ${match[1]};`;
+  }
+  if (
+    (match = sql.match(
+      new RegExp(`^alter table (?:if exists )?(?:only )?${NAME} (.+)$`, "i"),
+    ))
+  ) {
+    const inverted = splitTopLevel(match[2]).map(invertAlterTableAction);
+    if (inverted.some((action) => action === null)) {
+      return null;
+    }
+    return `ALTER TABLE ${match[1]} ${inverted.reverse().join(", ")};`;
+  }
+  if (
+    (match = sql.match(
+      new RegExp(
+        `^create (?:unique )?index (?:concurrently )?${NAME} on `,
+        "i",
+      ),
+    ))
+  ) {
+    return `DROP INDEX IF EXISTS ${match[1]};`;
+  }
+  if (
+    (match = sql.match(new RegExp(`^create policy ${NAME} on ${NAME}`, "i")))
+  ) {
+    return `DROP POLICY IF EXISTS ${match[1]} ON ${match[2]};`;
+  }
+  if (
+    (match = sql.match(
+      new RegExp(`^create (?:constraint )?trigger ${NAME} .*? on ${NAME}`, "i"),
+    ))
+  ) {
+    return `DROP TRIGGER IF EXISTS ${match[1]} ON ${match[2]};`;
+  }
+  // With OR REPLACE the function may have existed before, and dropping it
+  // would not bring the old one back
+  if (
+    (match = sql.match(
+      new RegExp(`^create function ${NAME} ?\\(([^)]*)\\)`, "i"),
+    ))
+  ) {
+    if (/\bdefault\b|=/i.test(match[2])) {
+      return null;
+    }
+    return `DROP FUNCTION IF EXISTS ${match[1]}(${match[2].trim()});`;
+  }
+  if (
+    (match = sql.match(new RegExp(`^create (materialized )?view ${NAME}`, "i")))
+  ) {
+    return `DROP ${match[1] ? "MATERIALIZED " : ""}VIEW IF EXISTS ${match[2]};`;
+  }
+  if ((match = sql.match(new RegExp(`^create type ${NAME}`, "i")))) {
+    return `DROP TYPE IF EXISTS ${match[1]};`;
+  }
+  if ((match = sql.match(new RegExp(`^create sequence ${NAME}`, "i")))) {
+    return `DROP SEQUENCE IF EXISTS ${match[1]};`;
+  }
+  return null;
+}
+
+// Compares names the way Postgres does: unquoted names are case
+// insensitive and the public schema is the default
+function tableKey(name: string): string {
+  const parts = name
+    .split(".")
+    .map((part) =>
+      part.startsWith('"') ? part.slice(1, -1) : part.toLowerCase(),
+    );
+  return parts.length === 2 && parts[0] === "public"
+    ? parts[1]
+    : parts.join(".");
+}
+
+// Statements that dropping a table created earlier in the migration undoes
+function isUndoneByDroppingTable(
+  statement: string,
+  createdTables: Set<string>,
+): boolean {
+  const sql = statement.replace(/\s+/g, " ");
+  const isCreated = (name: string) => createdTables.has(tableKey(name));
+  let match: RegExpMatchArray | null;
+
+  if (
+    (match = sql.match(
+      new RegExp(`^alter table (?:if exists )?(?:only )?${NAME} (.+)$`, "i"),
+    ))
+  ) {
+    return (
+      isCreated(match[1]) &&
+      splitTopLevel(match[2]).every((action) =>
+        /^(?:enable|force) row level security$/i.test(action),
+      )
+    );
+  }
+  if (
+    (match = sql.match(new RegExp(`^create policy ${NAME} on ${NAME}`, "i")))
+  ) {
+    return isCreated(match[2]);
+  }
+  if (
+    (match = sql.match(
+      new RegExp(
+        `^create (?:unique )?index (?:concurrently )?(?:if not exists )?(?:${NAME} )?on (?:only )?${NAME}`,
+        "i",
+      ),
+    ))
+  ) {
+    return isCreated(match[2]);
+  }
+  return false;
+}
+
+/**
+ * A script that undoes a migration, or null when any of its statements
+ * can't be undone automatically, e.g. data changes or drops. Statements
+ * are undone in reverse order.
+ */
+export function deriveDownMigration(sql: string): string | null {
+  const inverted: string[] = [];
+  const createdTables = new Set<string>();
+  for (const statement of splitSqlStatements(sql)) {
+    // Comments go away with the objects they describe
+    if (/^comment\s+on\b/i.test(statement)) {
+      continue;
+    }
+    if (isUndoneByDroppingTable(statement, createdTables)) {
+      continue;
+    }
+    const inverse = invertStatement(statement);
+    if (inverse === null) {
+      return null;
+    }
+    const createdTable = statement
+      .replace(/\s+/g, " ")
+      .match(new RegExp(`^create table ${NAME}`, "i"));
+    if (createdTable) {
+      createdTables.add(tableKey(createdTable[1]));
+    }
+    inverted.push(inverse);
+  }
+  return inverted.length > 0 ? inverted.reverse().join("\n") : null;
+}
+
+// A row of the result of SUPABASE_SCHEMA_QUERY
+export interface SupabaseSchemaRow {
+  result_type: string;
+  data: string | Record<string, unknown>;
+}
+
+type SchemaObject = Record<string, any>;
+
+function describe(object: SchemaObject, fields: string[]): string {
+  return fields
+    .filter((field) => object[field] !== null && object[field] !== undefined)
+    .map((field) => `${field}: ${object[field]}`)
+    .join("\n");
+}
+
+// Every object of the schema by a key that stays the same across versions
+function indexSchema(
+  rows: SupabaseSchemaRow[],
+): Map<
+  string,
+  { kind: SupabaseSchemaChange["kind"]; name: string; detail: string }
+> {
+  const index = new Map<
+    string,
+    { kind: SupabaseSchemaChange["kind"]; name: string; detail: string }
+  >();
+  for (const row of rows) {
+    const object: SchemaObject =
+      typeof row.data === "string" ? JSON.parse(row.data) : row.data;
+    switch (row.result_type) {
+      case "tables":
+        index.set(`table:${object.name}`, {
+          kind: "table",
+          name: object.name,
+          detail: describe(object, ["description"]),
+        });
+        for (const column of object.columns ?? []) {
+          index.set(`column:${object.name}.${column.column_name}`, {
+            kind: "column",
+            name: `${object.name}.${column.column_name}`,
+            detail: describe(column, [
+              "data_type",
+              "is_nullable",
+              "column_default",
+            ]),
+          });
+        }
+        break;
+      case "policies":
+        index.set(`policy:${object.table}.${object.name}`, {
+          kind: "policy",
+          name: `${object.name} on ${object.table}`,
+          detail: describe(object, ["command", "permissive", "definition"]),
+        });
+        break;
+      case "functions":
+        index.set(`function:${object.name}(${object.arguments})`, {
+          kind: "function",
+          name: `${object.name}(${object.arguments})`,
+          detail: describe(object, [
+            "return_type",
+            "language",
+            "volatility",
+            "source_code",
+          ]),
+        });
+        break;
+      case "triggers":
+        // Listed once per event the trigger fires on
+        index.set(`trigger:${object.table}.${object.name}.${object.event}`, {
+          kind: "trigger",
+          name: `${object.name} on ${object.table} (${object.event})`,
+          detail: describe(object, ["timing", "action_statement"]),
+        });
+        break;
+    }
+  }
+  return index;
+}
+
+/**
+ * Changes between two results of SUPABASE_SCHEMA_QUERY. Columns of tables
+ * that were added or removed as a whole aren't listed separately.
+ */
+export function diffSupabaseSchemas(
+  fromRows: SupabaseSchemaRow[],
+  toRows: SupabaseSchemaRow[],
+): SupabaseSchemaChange[] {
+  const from = indexSchema(fromRows);
+  const to = indexSchema(toRows);
+  const changes: SupabaseSchemaChange[] = [];
+  const isWholeTableChange = (key: string, index: typeof from) =>
+    key.startsWith("column:") &&
+    !index.has(`table:${key.slice("column:".length).split(".")[0]}`);
+
+  for (const [key, before] of from) {
+    const after = to.get(key);
+    if (!after) {
+      if (!isWholeTableChange(key, to)) {
+        changes.push({
+          kind: before.kind,
+          name: before.name,
+          change: "removed",
+          before: before.detail,
+        });
+      }
+    } else if (after.detail !== before.detail) {
+      changes.push({
+        kind: before.kind,
+        name: before.name,
+        change: "changed",
+        before: before.detail,
+        after: after.detail,
+      });
+    }
+  }
+  for (const [key, after] of to) {
+    if (!from.has(key) && !isWholeTableChange(key, from)) {
+      changes.push({
+        kind: after.kind,
+        name: after.name,
+        change: "added",
+        after: after.detail,
+      });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,23 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// https://vitejs.dev/config
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  build: {
+    sourcemap: true,
+    lib: {
+      entry: path.resolve(__dirname, "workers/eslint/eslint_worker.ts"),
+      name: "eslint_worker",
+      fileName: "eslint_worker",
+      formats: ["cjs"],
+    },
+    rollupOptions: {
+      external: ["node:fs", "node:path", "node:worker_threads"],
+    },
+  },
+});
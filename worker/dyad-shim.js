@@ -71,6 +71,40 @@
     previousUrl = currentUrl;
   });
 
+  // --- Navigation Synced From Other Viewports ---
+  // Uses the original history methods so the change isn't reported back to
+  // the parent, then lets the app's router pick up the new location.
+  const navigateToUrl = (url, replace) => {
+    let target;
+    try {
+      target = new URL(url, window.location.href);
+    } catch (e) {
+      console.error("Could not parse URL", e);
+      return;
+    }
+    if (target.href === window.location.href) return;
+    if (target.origin !== window.location.origin) {
+      window.location.assign(target.href);
+      return;
+    }
+    const method = replace ? originalReplaceState : originalPushState;
+    method.call(history, null, "", target.href);
+    previousUrl = window.location.href;
+    window.dispatchEvent(new PopStateEvent("popstate", { state: null }));
+  };
+
+  // --- Device Pixel Ratio Emulation ---
+  // For device frames. Only scripts reading window.devicePixelRatio see it;
+  // CSS resolution media queries still use the screen's ratio.
+  const setDevicePixelRatio = (ratio) => {
+    if (typeof ratio !== "number" || !(ratio > 0)) return;
+    Object.defineProperty(window, "devicePixelRatio", {
+      configurable: true,
+      get: () => ratio,
+    });
+    window.dispatchEvent(new Event("resize"));
+  };
+
   // --- Listener for Commands from Parent ---
   window.addEventListener("message", (event) => {
     if (
@@ -81,8 +115,13 @@
       return;
     if (event.data.type === "navigate") {
       const direction = event.data.payload?.direction;
+      const url = event.data.payload?.url;
       if (direction === "forward") history.forward();
       else if (direction === "backward") history.back();
+      else if (typeof url === "string")
+        navigateToUrl(url, event.data.payload?.replace === true);
+    } else if (event.data.type === "set-device-pixel-ratio") {
+      setDevicePixelRatio(event.data.payload?.ratio);
     }
   });
 
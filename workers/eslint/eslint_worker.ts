@@ -0,0 +1,407 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parentPort } from "node:worker_threads";
+
+import {
+  LintWorkerInput,
+  LintWorkerOutput,
+  Problem,
+  ProblemReport,
+  SyncVirtualFileSystem,
+} from "../../shared/tsc_types";
+import { SyncVirtualFileSystemImpl } from "../../shared/VirtualFilesystem";
+
+// The parts of the ESLint API the worker uses. ESLint is loaded from the
+// app's node_modules, so its version (and types) vary from app to app.
+interface LintMessage {
+  ruleId: string | null;
+  severity: number;
+  message: string;
+  line?: number;
+  column?: number;
+  fatal?: boolean;
+}
+
+interface LintResult {
+  filePath: string;
+  messages: LintMessage[];
+}
+
+interface ESLintInstance {
+  lintFiles(patterns: string[]): Promise<LintResult[]>;
+  lintText(code: string, options: { filePath: string }): Promise<LintResult[]>;
+  isPathIgnored(filePath: string): Promise<boolean>;
+}
+
+type ESLintClass = new (options: Record<string, unknown>) => ESLintInstance;
+
+interface ESLintModule {
+  ESLint: ESLintClass;
+  // ESLint 8.57 and later
+  loadESLint?: (options: { useFlatConfig: boolean }) => Promise<ESLintClass>;
+}
+
+type FlatConfig = Record<string, unknown>;
+
+// Plugins and parsers are handed to ESLint as is; the default config only
+// reads the rules of the configs plugins ship with
+interface PluginConfig {
+  rules?: Record<string, unknown>;
+}
+
+interface ESLintPlugin {
+  configs?: Record<string, PluginConfig | undefined>;
+}
+
+interface VuePlugin {
+  configs?: { "flat/essential"?: FlatConfig[] };
+}
+
+type ESLintParser = object;
+
+interface TypeScriptESLintModule {
+  parser?: ESLintParser;
+}
+
+const FLAT_CONFIG_FILES = [
+  "eslint.config.js",
+  "eslint.config.mjs",
+  "eslint.config.cjs",
+  "eslint.config.ts",
+  "eslint.config.mts",
+  "eslint.config.cts",
+];
+
+const LEGACY_CONFIG_FILES = [
+  ".eslintrc.js",
+  ".eslintrc.cjs",
+  ".eslintrc.yaml",
+  ".eslintrc.yml",
+  ".eslintrc.json",
+  ".eslintrc",
+];
+
+const LINTABLE_EXTENSIONS = [
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".vue",
+];
+
+// Folders an app's own code lives in, linted instead of the whole project so
+// config files, scripts and generated code don't slow down every check
+const SOURCE_DIRS = ["src", "app", "pages", "components", "lib", "hooks"];
+
+const SCRIPT_FILES = ["**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts}"];
+const TYPESCRIPT_FILES = ["**/*.{ts,tsx,mts,cts}"];
+
+function requireFromApp<T>(projectDir: string, request: string): T | null {
+  try {
+    const requirePath = require.resolve(request, { paths: [projectDir] });
+    const mod = require(requirePath);
+    return mod?.__esModule && mod.default ? mod.default : mod;
+  } catch {
+    return null;
+  }
+}
+
+function findProjectDir(appPath: string): string | null {
+  const possiblePaths = [
+    appPath, // Root app directory
+    path.join(appPath, "frontend"), // Frontend subdirectory (for scaffold apps)
+  ];
+  for (const searchPath of possiblePaths) {
+    try {
+      require.resolve("eslint", { paths: [searchPath] });
+      return searchPath;
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+function findConfigKind(projectDir: string): "flat" | "legacy" | null {
+  if (FLAT_CONFIG_FILES.some((f) => fs.existsSync(path.join(projectDir, f)))) {
+    return "flat";
+  }
+  if (
+    LEGACY_CONFIG_FILES.some((f) => fs.existsSync(path.join(projectDir, f)))
+  ) {
+    return "legacy";
+  }
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(projectDir, "package.json"), "utf8"),
+    );
+    if (packageJson.eslintConfig) {
+      return "legacy";
+    }
+  } catch {
+    // No package.json, or not valid JSON
+  }
+  return null;
+}
+
+/**
+ * The default config for apps without one: React hooks, accessibility,
+ * Next.js and Vue rules, for whichever of those plugins the app has
+ * installed. Null if it has none of them.
+ */
+function createDefaultConfig(projectDir: string): FlatConfig[] | null {
+  const pluginConfigs: FlatConfig[] = [];
+
+  const reactHooks = requireFromApp<ESLintPlugin>(
+    projectDir,
+    "eslint-plugin-react-hooks",
+  );
+  if (reactHooks) {
+    pluginConfigs.push({
+      files: SCRIPT_FILES,
+      plugins: { "react-hooks": reactHooks },
+      rules: {
+        "react-hooks/rules-of-hooks": "error",
+        "react-hooks/exhaustive-deps": "warn",
+      },
+    });
+  }
+
+  const jsxA11y = requireFromApp<ESLintPlugin>(
+    projectDir,
+    "eslint-plugin-jsx-a11y",
+  );
+  if (jsxA11y?.configs?.recommended) {
+    pluginConfigs.push({
+      files: SCRIPT_FILES,
+      plugins: { "jsx-a11y": jsxA11y },
+      rules: jsxA11y.configs.recommended.rules,
+    });
+  }
+
+  const next = requireFromApp<ESLintPlugin>(
+    projectDir,
+    "@next/eslint-plugin-next",
+  );
+  if (next?.configs) {
+    pluginConfigs.push({
+      files: SCRIPT_FILES,
+      plugins: { "@next/next": next },
+      rules: {
+        ...next.configs.recommended?.rules,
+        ...next.configs["core-web-vitals"]?.rules,
+      },
+    });
+  }
+
+  const vue = requireFromApp<VuePlugin>(projectDir, "eslint-plugin-vue");
+  if (vue?.configs?.["flat/essential"]) {
+    pluginConfigs.push(...vue.configs["flat/essential"]);
+  }
+
+  if (pluginConfigs.length === 0) {
+    return null;
+  }
+
+  const tsParser =
+    requireFromApp<ESLintParser>(projectDir, "@typescript-eslint/parser") ??
+    requireFromApp<TypeScriptESLintModule>(projectDir, "typescript-eslint")
+      ?.parser;
+
+  return [
+    { ignores: ["dist/**", "build/**", ".next/**", "out/**"] },
+    {
+      files: SCRIPT_FILES,
+      languageOptions: {
+        ecmaVersion: "latest",
+        sourceType: "module",
+        parserOptions: { ecmaFeatures: { jsx: true } },
+      },
+    },
+    ...(tsParser
+      ? [
+          { files: TYPESCRIPT_FILES, languageOptions: { parser: tsParser } },
+          // Vue's parser hands <script lang="ts"> to this one
+          {
+            files: ["**/*.vue"],
+            languageOptions: { parserOptions: { parser: tsParser } },
+          },
+        ]
+      : []),
+    ...pluginConfigs,
+  ];
+}
+
+async function createESLint(
+  projectDir: string,
+): Promise<ESLintInstance | null> {
+  const eslintModule = requireFromApp<ESLintModule>(projectDir, "eslint");
+  if (!eslintModule) {
+    return null;
+  }
+  const baseOptions = { cwd: projectDir, errorOnUnmatchedPattern: false };
+
+  const configKind = findConfigKind(projectDir);
+  if (configKind === "legacy") {
+    const ESLint = eslintModule.loadESLint
+      ? await eslintModule.loadESLint({ useFlatConfig: false })
+      : eslintModule.ESLint;
+    return new ESLint(baseOptions);
+  }
+
+  // Flat config needs ESLint 8.57 or later
+  if (!eslintModule.loadESLint) {
+    return null;
+  }
+  const ESLint = await eslintModule.loadESLint({ useFlatConfig: true });
+  if (configKind === "flat") {
+    return new ESLint(baseOptions);
+  }
+
+  const defaultConfig = createDefaultConfig(projectDir);
+  if (!defaultConfig) {
+    return null;
+  }
+  return new ESLint({
+    ...baseOptions,
+    overrideConfigFile: true,
+    overrideConfig: defaultConfig,
+  });
+}
+
+function isLintableFile(fileName: string): boolean {
+  return LINTABLE_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+}
+
+function createSnippet(source: string | undefined, line: number): string {
+  if (source === undefined) {
+    return "";
+  }
+  const sourceLines = source.split(/\r?\n/);
+  const index = line - 1;
+  const lineBefore = index > 0 ? sourceLines[index - 1] : "";
+  const problematicLine = sourceLines[index] || "";
+  const lineAfter =
+    index < sourceLines.length - 1 ? sourceLines[index + 1] : "";
+
+  let snippet = "";
+  if (lineBefore) snippet += lineBefore + "\n";
+  snippet += problematicLine + " // <-- ESLint problem here\n";
+  if (lineAfter) snippet += lineAfter;
+  return snippet.trim();
+}
+
+async function runLint(
+  eslint: ESLintInstance,
+  vfs: SyncVirtualFileSystem,
+  { appPath, projectDir }: { appPath: string; projectDir: string },
+): Promise<ProblemReport> {
+  const virtualFiles = vfs
+    .getVirtualFiles()
+    .map((file) => path.resolve(appPath, file.path))
+    .filter(
+      (fileName) =>
+        fileName.startsWith(projectDir + path.sep) && isLintableFile(fileName),
+    );
+  const skippedFiles = new Set([
+    ...vfs.getDeletedFiles().map((file) => path.resolve(appPath, file)),
+    ...virtualFiles,
+  ]);
+
+  // Files on disk, minus the ones the response deletes or rewrites
+  const sourceDirs = SOURCE_DIRS.filter((dir) =>
+    fs.existsSync(path.join(projectDir, dir)),
+  );
+  const patterns = sourceDirs.length > 0 ? sourceDirs : ["."];
+  const results = (await eslint.lintFiles(patterns)).filter(
+    (result) => !skippedFiles.has(path.resolve(result.filePath)),
+  );
+  for (const fileName of virtualFiles) {
+    if (await eslint.isPathIgnored(fileName)) {
+      continue;
+    }
+    results.push(
+      ...(await eslint.lintText(vfs.readFile(fileName) ?? "", {
+        filePath: fileName,
+      })),
+    );
+  }
+
+  const problems: Problem[] = [];
+  for (const result of results) {
+    const source = vfs.readFile(result.filePath);
+    for (const message of result.messages) {
+      // Notices like "File ignored by default" have no rule
+      if (!message.ruleId && !message.fatal) {
+        continue;
+      }
+      const line = message.line ?? 1;
+      problems.push({
+        file: normalizePath(path.relative(appPath, result.filePath)),
+        line,
+        column: message.column ?? 1,
+        message: message.message,
+        code: 0,
+        snippet: createSnippet(source, line),
+        source: "eslint",
+        severity: message.severity === 2 ? "error" : "warning",
+        ...(message.ruleId ? { ruleId: message.ruleId } : {}),
+      });
+    }
+  }
+
+  return { problems };
+}
+
+async function processLint(input: LintWorkerInput): Promise<LintWorkerOutput> {
+  try {
+    const { appPath, virtualChanges } = input;
+
+    const projectDir = findProjectDir(appPath);
+    if (!projectDir) {
+      return { success: true, data: null };
+    }
+
+    // Load ESLint and the app's config (or the default one) from the app's
+    // node_modules
+    const eslint = await createESLint(projectDir);
+    if (!eslint) {
+      return { success: true, data: null };
+    }
+
+    const vfs = new SyncVirtualFileSystemImpl(appPath);
+    vfs.applyResponseChanges(virtualChanges);
+
+    const result = await runLint(eslint, vfs, { appPath, projectDir });
+
+    return {
+      success: true,
+      data: result,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// Handle messages from main thread
+parentPort?.on("message", async (input: LintWorkerInput) => {
+  const output = await processLint(input);
+  parentPort?.postMessage(output);
+});
+
+/**
+ * Normalize the path to use forward slashes instead of backslashes.
+ * This is important to prevent weird Git issues, particularly on Windows.
+ * @param path Source path.
+ * @returns Normalized path.
+ */
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, "/");
+}